@@ -0,0 +1,477 @@
+/**
+ * Chat Schema Realtime Database Rules Tests
+ *
+ * database.rules.json がクライアント（ChatService）の実際の書き込みを受け付け、
+ * shared/chat.ts のスキーマに合わない書き込みを拒否することを確認する
+ *
+ * 実行: firebase emulators:exec --only database "jest __tests__/database-rules"
+ */
+
+import {
+  RulesTestEnvironment,
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import {
+  CHAT_PATHS,
+  ChatRoom,
+  createChatCard,
+  createChatMessage,
+  getChatCardSummary,
+  getChatInboxUpdates,
+  getChatRoomId,
+  serializeChatCard,
+  toChatParticipants,
+} from "@tattoo-journey/shared";
+
+// ChatService が書き込む database.ServerValue.TIMESTAMP
+const SERVER_TIMESTAMP = { ".sv": "timestamp" };
+
+describe("Chat schema: Realtime Database rules", () => {
+  let testEnv: RulesTestEnvironment;
+
+  const customerId = "customer1";
+  const artistId = "artist1";
+  const outsiderId = "outsider1";
+  const roomId = getChatRoomId(customerId, artistId);
+
+  // ChatService.getOrCreateChatRoom と同じ形のルーム
+  const roomPayload = () => {
+    const room: ChatRoom = {
+      id: roomId,
+      participants: toChatParticipants([customerId, artistId]),
+      lastMessageTime: 0,
+      createdAt: 0,
+      metadata: {
+        artistName: "Artist One",
+        customerName: "Customer One",
+        context: "direct_inquiry",
+      },
+    };
+    return {
+      ...room,
+      lastMessageTime: SERVER_TIMESTAMP,
+      createdAt: SERVER_TIMESTAMP,
+    };
+  };
+
+  // ChatService.sendMessage と同じ形のメッセージ
+  const messagePayload = (
+    id: string,
+    overrides: Partial<Parameters<typeof createChatMessage>[0]> = {},
+  ) => ({
+    ...createChatMessage({
+      id,
+      senderId: customerId,
+      receiverId: artistId,
+      text: "はじめまして、鯉のデザインについて相談させてください",
+      timestamp: Date.now(),
+      ...overrides,
+    }),
+    timestamp: SERVER_TIMESTAMP,
+  });
+
+  const db = (uid: string) => testEnv.authenticatedContext(uid).database();
+
+  const seedRoom = async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await context
+        .database()
+        .ref(`${CHAT_PATHS.rooms}/${roomId}`)
+        .set(roomPayload());
+    });
+  };
+
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+      projectId: "tattoo-journey-chat-rules-test",
+      database: {
+        rules: readFileSync(
+          resolve(__dirname, "../../database.rules.json"),
+          "utf8",
+        ),
+        host: "localhost",
+        port: 9000,
+      },
+    });
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearDatabase();
+  });
+
+  afterAll(async () => {
+    await testEnv.cleanup();
+  });
+
+  describe("chat rooms", () => {
+    it("should let a participant look up and create the room", async () => {
+      const ref = db(customerId).ref(`${CHAT_PATHS.rooms}/${roomId}`);
+
+      await assertSucceeds(ref.once("value"));
+      await assertSucceeds(ref.set(roomPayload()));
+      await assertSucceeds(ref.once("value"));
+    });
+
+    it("should reject rooms the creator is not part of", async () => {
+      await assertFails(
+        db(outsiderId).ref(`${CHAT_PATHS.rooms}/${roomId}`).set(roomPayload()),
+      );
+    });
+
+    it("should reject legacy array participants and unknown fields", async () => {
+      const ref = db(customerId).ref(`${CHAT_PATHS.rooms}/${roomId}`);
+
+      await assertFails(
+        ref.set({ ...roomPayload(), participants: [customerId, artistId] }),
+      );
+      await assertFails(ref.set({ ...roomPayload(), archived: true }));
+    });
+
+    it("should keep legacy array rooms usable until they are migrated", async () => {
+      // 移行前のルーム（participants が配列）
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        await context
+          .database()
+          .ref(`${CHAT_PATHS.rooms}/${roomId}`)
+          .set({ ...roomPayload(), participants: [customerId, artistId] });
+      });
+
+      await assertSucceeds(
+        db(customerId).ref(`${CHAT_PATHS.rooms}/${roomId}`).once("value"),
+      );
+      await assertSucceeds(
+        db(customerId)
+          .ref(`${CHAT_PATHS.messages}/${roomId}/m1`)
+          .set(messagePayload("m1")),
+      );
+      await assertSucceeds(
+        db(artistId).ref(`${CHAT_PATHS.messages}/${roomId}`).once("value"),
+      );
+      await assertFails(
+        db(outsiderId).ref(`${CHAT_PATHS.messages}/${roomId}`).once("value"),
+      );
+    });
+
+    it("should keep outsiders from reading or joining", async () => {
+      await seedRoom();
+
+      await assertFails(
+        db(outsiderId).ref(`${CHAT_PATHS.rooms}/${roomId}`).once("value"),
+      );
+      await assertFails(
+        db(customerId)
+          .ref(`${CHAT_PATHS.rooms}/${roomId}/participants/${outsiderId}`)
+          .set(true),
+      );
+    });
+  });
+
+  describe("messages", () => {
+    beforeEach(seedRoom);
+
+    it("should accept the message ChatService sends", async () => {
+      await assertSucceeds(
+        db(customerId)
+          .ref(`${CHAT_PATHS.messages}/${roomId}/m1`)
+          .set(
+            messagePayload("m1", {
+              type: "booking_request",
+              metadata: { appointmentDate: "2026-11-01", priceQuote: 60000 },
+            }),
+          ),
+      );
+      await assertSucceeds(
+        db(artistId).ref(`${CHAT_PATHS.messages}/${roomId}`).once("value"),
+      );
+    });
+
+    it("should accept system messages sent by a participant", async () => {
+      await assertSucceeds(
+        db(artistId)
+          .ref(`${CHAT_PATHS.messages}/${roomId}/m1`)
+          .set(
+            messagePayload("m1", {
+              senderId: artistId,
+              receiverId: customerId,
+              type: "system",
+              text: "予約が確定しました",
+            }),
+          ),
+      );
+    });
+
+    it("should reject malformed messages", async () => {
+      const ref = db(customerId).ref(`${CHAT_PATHS.messages}/${roomId}/m1`);
+      const valid = messagePayload("m1");
+      const { text, ...withoutText } = valid;
+
+      // Pre-reconciliation payload with `message` instead of `text`
+      await assertFails(ref.set({ ...withoutText, message: text }));
+      await assertFails(ref.set({ ...valid, text: "" }));
+      await assertFails(ref.set({ ...valid, text: "a".repeat(10001) }));
+      await assertFails(ref.set({ ...valid, type: "sticker" }));
+      await assertFails(ref.set({ ...valid, id: "other" }));
+      await assertFails(ref.set({ ...valid, read: true }));
+      await assertFails(ref.set({ ...valid, delivered: true }));
+      await assertFails(ref.set({ ...valid, receiverId: outsiderId }));
+      await assertFails(ref.set({ ...valid, timestamp: Date.now() + 3600000 }));
+      await assertFails(ref.set({ ...valid, metadata: { stickerId: "s1" } }));
+      await assertFails(ref.set({ ...valid, pinned: true }));
+    });
+
+    it("should accept card messages and one answer from the receiver", async () => {
+      const card = createChatCard("price_quote", "booking1", {
+        price: 60000,
+        duration: 180,
+      });
+      const ref = db(artistId).ref(`${CHAT_PATHS.messages}/${roomId}/m1`);
+
+      await assertSucceeds(
+        ref.set(
+          messagePayload("m1", {
+            senderId: artistId,
+            receiverId: customerId,
+            type: "card",
+            text: getChatCardSummary(card),
+            card: serializeChatCard(card),
+          }),
+        ),
+      );
+
+      const response = (uid: string) => ({
+        action: "accept",
+        respondedBy: uid,
+        respondedAt: SERVER_TIMESTAMP,
+      });
+      const answer = (uid: string) =>
+        db(uid)
+          .ref(`${CHAT_PATHS.messages}/${roomId}/m1/cardResponse`)
+          .set(response(uid));
+
+      // Cards never change once sent
+      await assertFails(ref.child("card/payload").set("{}"));
+      await assertFails(answer(artistId));
+      await assertFails(
+        db(customerId)
+          .ref(`${CHAT_PATHS.messages}/${roomId}/m1/cardResponse`)
+          .set({ ...response(customerId), action: "refund" }),
+      );
+      await assertSucceeds(answer(customerId));
+      await assertFails(
+        db(customerId)
+          .ref(`${CHAT_PATHS.messages}/${roomId}/m1/cardResponse/action`)
+          .set("decline"),
+      );
+      // Removing the answer to answer again
+      await assertFails(
+        db(customerId)
+          .ref(`${CHAT_PATHS.messages}/${roomId}/m1/cardResponse`)
+          .remove(),
+      );
+      await assertFails(ref.child("cardResponse").remove());
+    });
+
+    it("should let the requesting artist confirm a deposit", async () => {
+      const card = createChatCard("deposit_request", "booking1", {
+        amount: 10000,
+      });
+      await assertSucceeds(
+        db(artistId)
+          .ref(`${CHAT_PATHS.messages}/${roomId}/m1`)
+          .set(
+            messagePayload("m1", {
+              senderId: artistId,
+              receiverId: customerId,
+              type: "card",
+              text: getChatCardSummary(card),
+              card: serializeChatCard(card),
+            }),
+          ),
+      );
+
+      const answer = (uid: string) =>
+        db(uid)
+          .ref(`${CHAT_PATHS.messages}/${roomId}/m1/cardResponse`)
+          .set({
+            action: "pay",
+            respondedBy: uid,
+            respondedAt: SERVER_TIMESTAMP,
+          });
+
+      // In-person payments are recorded by the artist
+      await assertFails(answer(customerId));
+      await assertSucceeds(answer(artistId));
+    });
+
+    it("should reject card messages without a card", async () => {
+      const ref = db(customerId).ref(`${CHAT_PATHS.messages}/${roomId}/m1`);
+      const card = serializeChatCard(
+        createChatCard("deposit_request", "booking1", { amount: 10000 }),
+      );
+
+      await assertFails(ref.set(messagePayload("m1", { type: "card" })));
+      await assertFails(ref.set({ ...messagePayload("m1"), card }));
+      await assertFails(
+        ref.set({
+          ...messagePayload("m1", { type: "card", card }),
+          cardResponse: {
+            action: "pay",
+            respondedBy: customerId,
+            respondedAt: SERVER_TIMESTAMP,
+          },
+        }),
+      );
+    });
+
+    it("should reject spoofed senders and outsiders", async () => {
+      await assertFails(
+        db(customerId)
+          .ref(`${CHAT_PATHS.messages}/${roomId}/m1`)
+          .set(
+            messagePayload("m1", {
+              senderId: artistId,
+              receiverId: customerId,
+            }),
+          ),
+      );
+      await assertFails(
+        db(outsiderId)
+          .ref(`${CHAT_PATHS.messages}/${roomId}/m1`)
+          .set(messagePayload("m1", { senderId: outsiderId })),
+      );
+      await assertFails(
+        db(outsiderId).ref(`${CHAT_PATHS.messages}/${roomId}`).once("value"),
+      );
+    });
+
+    it("should let only the receiver mark a message read", async () => {
+      await assertSucceeds(
+        db(customerId)
+          .ref(`${CHAT_PATHS.messages}/${roomId}/m1`)
+          .set(messagePayload("m1")),
+      );
+
+      await assertFails(
+        db(customerId)
+          .ref(`${CHAT_PATHS.messages}/${roomId}/m1/read`)
+          .set(true),
+      );
+      await assertFails(
+        db(artistId)
+          .ref(`${CHAT_PATHS.messages}/${roomId}/m1/text`)
+          .set("書き換え"),
+      );
+      await assertSucceeds(
+        db(artistId)
+          .ref()
+          .update({
+            [`${CHAT_PATHS.messages}/${roomId}/m1/read`]: true,
+            [`${CHAT_PATHS.inbox}/${artistId}/${roomId}/unreadCount`]: 0,
+          }),
+      );
+    });
+
+    it("should let only the receiver mark a message delivered", async () => {
+      await assertSucceeds(
+        db(customerId)
+          .ref(`${CHAT_PATHS.messages}/${roomId}/m1`)
+          .set(messagePayload("m1")),
+      );
+      const delivered = (uid: string) =>
+        db(uid).ref(`${CHAT_PATHS.messages}/${roomId}/m1/delivered`);
+
+      await assertFails(delivered(customerId).set(true));
+      await assertFails(delivered(artistId).set(false));
+      await assertSucceeds(delivered(artistId).set(true));
+    });
+  });
+
+  describe("inboxes", () => {
+    beforeEach(async () => {
+      await seedRoom();
+      // What updateChatInboxOnMessage and syncChatUnreadTotal write
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        const room = { ...roomPayload(), lastMessageTime: 0, createdAt: 0 };
+        await context
+          .database()
+          .ref()
+          .update({
+            ...getChatInboxUpdates(
+              room,
+              { ...messagePayload("m1"), timestamp: Date.now() },
+              1,
+            ),
+            [`${CHAT_PATHS.unreadTotals}/${artistId}`]: 1,
+          });
+      });
+    });
+
+    it("should let users page through their own inbox only", async () => {
+      await assertSucceeds(
+        db(artistId)
+          .ref(`${CHAT_PATHS.inbox}/${artistId}`)
+          .orderByChild("lastMessageTime")
+          .limitToLast(20)
+          .once("value"),
+      );
+      await assertSucceeds(
+        db(artistId)
+          .ref(`${CHAT_PATHS.unreadTotals}/${artistId}`)
+          .once("value"),
+      );
+      await assertFails(
+        db(customerId).ref(`${CHAT_PATHS.inbox}/${artistId}`).once("value"),
+      );
+      await assertFails(
+        db(customerId)
+          .ref(`${CHAT_PATHS.unreadTotals}/${artistId}`)
+          .once("value"),
+      );
+    });
+
+    it("should only let the owner reset an unread count", async () => {
+      const entry = (uid: string) =>
+        db(uid).ref(`${CHAT_PATHS.inbox}/${artistId}/${roomId}`);
+
+      await assertFails(entry(artistId).child("unreadCount").set(5));
+      await assertFails(entry(customerId).child("unreadCount").set(0));
+      await assertFails(entry(artistId).child("lastMessageTime").set(0));
+      await assertFails(
+        db(artistId).ref(`${CHAT_PATHS.unreadTotals}/${artistId}`).set(0),
+      );
+      await assertSucceeds(entry(artistId).child("unreadCount").set(0));
+    });
+  });
+
+  describe("typing indicators", () => {
+    beforeEach(seedRoom);
+
+    it("should accept the participant's own typing status only", async () => {
+      const status = (userId: string) => ({
+        userId,
+        isTyping: true,
+        timestamp: Date.now(),
+      });
+
+      await assertSucceeds(
+        db(customerId)
+          .ref(`${CHAT_PATHS.typing}/${roomId}/${customerId}`)
+          .set(status(customerId)),
+      );
+      await assertFails(
+        db(customerId)
+          .ref(`${CHAT_PATHS.typing}/${roomId}/${artistId}`)
+          .set(status(artistId)),
+      );
+      await assertFails(
+        db(outsiderId)
+          .ref(`${CHAT_PATHS.typing}/${roomId}/${outsiderId}`)
+          .set(status(outsiderId)),
+      );
+    });
+  });
+});
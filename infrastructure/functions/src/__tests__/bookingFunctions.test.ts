@@ -0,0 +1,342 @@
+/**
+ * Booking and payment functions against the Firestore emulator: concurrent
+ * confirmations and deposits, and refunds after a cancellation
+ */
+
+import {
+  callableContext,
+  describeWithEmulators,
+  teardown,
+  testEnv,
+  uniqueId,
+} from "./emulator";
+import * as admin from "firebase-admin";
+import {
+  AVAILABILITY_COLLECTIONS,
+  BOOKING_COLLECTIONS,
+  BOOKING_SCHEMA_VERSION,
+  BOOKING_SLOT_CONFLICT_CODE,
+  PAYMENT_COLLECTIONS,
+  PaymentLedgerEntry,
+} from "@tattoo-journey/shared";
+import { transitionBooking } from "../bookingFunctions";
+import {
+  processCancellationRefund,
+  recordBookingPayment,
+} from "../paymentFunctions";
+
+const db = admin.firestore();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const QUOTED_PRICE = 60000;
+const QUOTED_DURATION = 180;
+const DEPOSIT = 10000;
+
+const transition = testEnv.wrap(transitionBooking);
+const recordPayment = testEnv.wrap(recordBookingPayment);
+const processRefund = testEnv.wrap(processCancellationRefund);
+
+describeWithEmulators("Booking functions", () => {
+  let artistId: string;
+  let customerId: string;
+
+  // Next month, on the hour, so the time is always in the future
+  const appointmentDate = new Date(
+    Math.ceil((Date.now() + 30 * DAY_MS) / (60 * 60 * 1000)) * 60 * 60 * 1000,
+  );
+
+  const seedQuotedBooking = async (
+    bookingId: string,
+    customer = customerId,
+  ) => {
+    await db
+      .collection(BOOKING_COLLECTIONS.requests)
+      .doc(bookingId)
+      .set({
+        customerId: customer,
+        artistId,
+        status: "accepted",
+        responses: [
+          {
+            responderId: artistId,
+            responseType: "accept",
+            message: "",
+            proposedPrice: QUOTED_PRICE,
+            proposedDuration: QUOTED_DURATION,
+            createdAt: admin.firestore.Timestamp.now(),
+          },
+        ],
+        schemaVersion: BOOKING_SCHEMA_VERSION,
+        createdAt: admin.firestore.Timestamp.now(),
+        updatedAt: admin.firestore.Timestamp.now(),
+      });
+  };
+
+  const confirm = (bookingId: string, startTime = appointmentDate) =>
+    transition(
+      {
+        bookingId,
+        toStatus: "confirmed",
+        confirmation: { confirmedDate: startTime.toISOString() },
+      },
+      callableContext(artistId),
+    );
+
+  const getBooking = async (bookingId: string) =>
+    (
+      await db.collection(BOOKING_COLLECTIONS.requests).doc(bookingId).get()
+    ).data()!;
+
+  const getLedger = async (bookingId: string) =>
+    (
+      await db
+        .collection(PAYMENT_COLLECTIONS.ledger)
+        .where("bookingId", "==", bookingId)
+        .get()
+    ).docs.map((doc) => ({ id: doc.id, ...doc.data() }) as PaymentLedgerEntry);
+
+  beforeEach(async () => {
+    artistId = uniqueId("artist");
+    customerId = uniqueId("customer");
+
+    await db
+      .collection("users")
+      .doc(artistId)
+      .set({
+        profile: {
+          artistInfo: {
+            depositRequirement: { type: "fixed", value: DEPOSIT },
+          },
+        },
+      });
+  });
+
+  afterAll(teardown);
+
+  describe("confirmation", () => {
+    it("should confirm only one of two bookings for the same time", async () => {
+      const firstId = uniqueId("booking");
+      const secondId = uniqueId("booking");
+      await seedQuotedBooking(firstId);
+      await seedQuotedBooking(secondId, uniqueId("customer"));
+
+      const results = await Promise.allSettled([
+        confirm(firstId),
+        confirm(secondId),
+      ]);
+
+      const confirmed = results.filter(
+        (result) => result.status === "fulfilled",
+      );
+      const rejected = results.filter(
+        (result): result is PromiseRejectedResult =>
+          result.status === "rejected",
+      );
+      expect(confirmed).toHaveLength(1);
+      expect(rejected).toHaveLength(1);
+      expect(rejected[0].reason).toMatchObject({
+        code: BOOKING_SLOT_CONFLICT_CODE,
+      });
+
+      const confirmedSnapshot = await db
+        .collection(BOOKING_COLLECTIONS.confirmed)
+        .where("artistId", "==", artistId)
+        .get();
+      expect(confirmedSnapshot.size).toBe(1);
+
+      const statuses = [
+        (await getBooking(firstId)).status,
+        (await getBooking(secondId)).status,
+      ].sort();
+      expect(statuses).toEqual(["accepted", "confirmed"]);
+    });
+
+    it("should reject a time that overlaps a confirmed appointment", async () => {
+      const firstId = uniqueId("booking");
+      const secondId = uniqueId("booking");
+      await seedQuotedBooking(firstId);
+      await seedQuotedBooking(secondId, uniqueId("customer"));
+
+      await confirm(firstId);
+
+      // Starts an hour into the three-hour appointment
+      await expect(
+        confirm(secondId, new Date(appointmentDate.getTime() + 60 * 60 * 1000)),
+      ).rejects.toMatchObject({ code: BOOKING_SLOT_CONFLICT_CODE });
+      await expect(
+        confirm(
+          secondId,
+          new Date(appointmentDate.getTime() + QUOTED_DURATION * 60 * 1000),
+        ),
+      ).resolves.toMatchObject({ success: true });
+    });
+
+    it("should not confirm the same booking twice", async () => {
+      const bookingId = uniqueId("booking");
+      await seedQuotedBooking(bookingId);
+
+      const results = await Promise.allSettled([
+        confirm(bookingId),
+        confirm(bookingId),
+      ]);
+
+      expect(
+        results.filter((result) => result.status === "fulfilled"),
+      ).toHaveLength(1);
+
+      const transitions = await db
+        .collection(BOOKING_COLLECTIONS.requests)
+        .doc(bookingId)
+        .collection(BOOKING_COLLECTIONS.transitions)
+        .get();
+      expect(transitions.size).toBe(1);
+    });
+  });
+
+  describe("payments", () => {
+    let bookingId: string;
+
+    const payDeposit = (uid = artistId, idempotencyKey = uniqueId("key")) =>
+      recordPayment(
+        { bookingId, type: "deposit", idempotencyKey },
+        callableContext(uid),
+      );
+
+    const cancel = (uid = artistId) =>
+      transition(
+        { bookingId, toStatus: "cancelled", reason: "体調不良のため" },
+        callableContext(uid),
+      );
+
+    const getRefundJob = () =>
+      db.collection(PAYMENT_COLLECTIONS.refunds).doc(bookingId).get();
+
+    // Delivers the queued job as the onCreate trigger would
+    const processQueuedRefund = async () =>
+      processRefund(
+        (await getRefundJob()) as admin.firestore.QueryDocumentSnapshot,
+      );
+
+    beforeEach(async () => {
+      bookingId = uniqueId("booking");
+      await seedQuotedBooking(bookingId);
+      await confirm(bookingId);
+    });
+
+    it("should record the deposit once when it is paid twice at the same time", async () => {
+      expect((await getBooking(bookingId)).depositAmount).toBe(DEPOSIT);
+
+      const results = await Promise.allSettled([payDeposit(), payDeposit()]);
+
+      const rejected = results.filter(
+        (result): result is PromiseRejectedResult =>
+          result.status === "rejected",
+      );
+      expect(rejected).toHaveLength(1);
+      // Either still being processed or already paid
+      expect(["failed-precondition", "already-exists"]).toContain(
+        rejected[0].reason.code,
+      );
+
+      const deposits = (await getLedger(bookingId)).filter(
+        (entry) => entry.type === "deposit",
+      );
+      expect(deposits).toHaveLength(1);
+      expect(deposits[0]).toMatchObject({
+        amount: DEPOSIT,
+        status: "succeeded",
+      });
+    });
+
+    it("should return the recorded payment when a request is resent", async () => {
+      const idempotencyKey = uniqueId("key");
+
+      const first = await payDeposit(artistId, idempotencyKey);
+      const resent = await payDeposit(artistId, idempotencyKey);
+
+      expect(resent).toEqual(first);
+      expect(await getLedger(bookingId)).toHaveLength(1);
+    });
+
+    it("should leave in-person payments to the artist", async () => {
+      await expect(payDeposit(customerId)).rejects.toMatchObject({
+        code: "permission-denied",
+      });
+      expect(await getLedger(bookingId)).toHaveLength(0);
+    });
+
+    it("should void an interrupted charge once the booking is cancelled", async () => {
+      const idempotencyKey = uniqueId("key");
+      const entryId = `${bookingId}_${idempotencyKey}`;
+      // Left pending by a provider call that never answered
+      await db.collection(PAYMENT_COLLECTIONS.ledger).doc(entryId).set({
+        bookingId,
+        customerId,
+        artistId,
+        type: "deposit",
+        amount: DEPOSIT,
+        currency: "JPY",
+        status: "pending",
+        provider: "manual",
+        idempotencyKey,
+        createdBy: artistId,
+        createdAt: admin.firestore.Timestamp.now(),
+      });
+
+      await cancel();
+
+      await expect(payDeposit(artistId, idempotencyKey)).resolves.toMatchObject(
+        { success: false, status: "failed", failureReason: "booking_closed" },
+      );
+      expect(await getLedger(bookingId)).toEqual([
+        expect.objectContaining({ id: entryId, status: "failed" }),
+      ]);
+    });
+
+    it("should queue and refund the deposit when the artist cancels", async () => {
+      const { entryId } = await payDeposit();
+
+      await expect(cancel()).resolves.toMatchObject({ refundQueued: true });
+
+      // Processing the same job again must not refund twice
+      await processQueuedRefund();
+      await processQueuedRefund();
+
+      const refunds = (await getLedger(bookingId)).filter(
+        (entry) => entry.type === "refund",
+      );
+      expect(refunds).toHaveLength(1);
+      expect(refunds[0]).toMatchObject({
+        amount: DEPOSIT,
+        status: "succeeded",
+        refundOf: entryId,
+      });
+
+      expect((await getRefundJob()).data()).toMatchObject({
+        status: "completed",
+        refundedAmount: DEPOSIT,
+        failedAmount: 0,
+      });
+
+      const booking = await getBooking(bookingId);
+      expect(booking.cancellationOutcome.refundAmount).toBe(DEPOSIT);
+
+      // The time is free again
+      const busySlot = await db
+        .collection(AVAILABILITY_COLLECTIONS.busySlots)
+        .doc(bookingId)
+        .get();
+      expect(busySlot.exists).toBe(false);
+
+      // Nothing is taken for a cancelled booking
+      await expect(payDeposit()).rejects.toMatchObject({
+        code: "failed-precondition",
+      });
+    });
+
+    it("should not queue a refund when nothing was paid", async () => {
+      await expect(cancel()).resolves.toMatchObject({ refundQueued: false });
+      expect((await getRefundJob()).exists).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Chat inbox triggers against the Realtime Database emulator: unread counts
+ * and totals stay correct when messages arrive at the same time
+ */
+
+import { describeWithEmulators, teardown, testEnv, uniqueId } from "./emulator";
+import * as admin from "firebase-admin";
+import {
+  CHAT_PATHS,
+  createChatMessage,
+  getChatRoomId,
+  toChatParticipants,
+} from "@tattoo-journey/shared";
+import {
+  removeChatInboxEntries,
+  syncChatUnreadTotal,
+  updateChatInboxOnMessage,
+} from "../chatInboxFunctions";
+
+const onMessage = testEnv.wrap(updateChatInboxOnMessage);
+const onUnreadCount = testEnv.wrap(syncChatUnreadTotal);
+const onRoomDeleted = testEnv.wrap(removeChatInboxEntries);
+
+describeWithEmulators("Chat inbox functions", () => {
+  let customerId: string;
+  let artistId: string;
+  let roomId: string;
+
+  const database = () => admin.database();
+
+  const readValue = async (path: string) =>
+    (await database().ref(path).once("value")).val();
+
+  const room = () => ({
+    id: roomId,
+    participants: toChatParticipants([customerId, artistId]),
+    lastMessageTime: 0,
+    createdAt: 0,
+  });
+
+  // Writes the message, then runs the trigger as the emulator would
+  const sendMessage = async (id: string) => {
+    const path = `${CHAT_PATHS.messages}/${roomId}/${id}`;
+    const message = createChatMessage({
+      id,
+      senderId: customerId,
+      receiverId: artistId,
+      text: `message ${id}`,
+      timestamp: Date.now(),
+    });
+    await database().ref(path).set(message);
+
+    await onMessage(testEnv.database.makeDataSnapshot(message, path), {
+      params: { roomId, messageId: id },
+    });
+  };
+
+  // Applies an inbox count change to the unread total
+  const changeUnreadCount = async (
+    userId: string,
+    before: number | null,
+    after: number | null,
+  ) => {
+    const path = `${CHAT_PATHS.inbox}/${userId}/${roomId}/unreadCount`;
+    await database().ref(path).set(after);
+
+    await onUnreadCount(
+      testEnv.makeChange(
+        testEnv.database.makeDataSnapshot(before, path),
+        testEnv.database.makeDataSnapshot(after, path),
+      ),
+      { params: { userId, roomId } },
+    );
+  };
+
+  beforeEach(async () => {
+    customerId = uniqueId("customer");
+    artistId = uniqueId("artist");
+    roomId = getChatRoomId(customerId, artistId);
+
+    await database().ref(`${CHAT_PATHS.rooms}/${roomId}`).set(room());
+  });
+
+  afterAll(teardown);
+
+  it("should count every message arriving at the same time as unread", async () => {
+    await Promise.all(["m1", "m2", "m3"].map((id) => sendMessage(id)));
+
+    const artistEntry = await readValue(
+      `${CHAT_PATHS.inbox}/${artistId}/${roomId}`,
+    );
+    expect(artistEntry).toMatchObject({
+      roomId,
+      otherUserId: customerId,
+      unreadCount: 3,
+    });
+
+    // The sender's own messages are never unread
+    const customerEntry = await readValue(
+      `${CHAT_PATHS.inbox}/${customerId}/${roomId}`,
+    );
+    expect(customerEntry.otherUserId).toBe(artistId);
+    expect(customerEntry.unreadCount).toBeUndefined();
+  });
+
+  it("should keep the unread total equal to the inbox counts", async () => {
+    const totalPath = `${CHAT_PATHS.unreadTotals}/${artistId}`;
+
+    await Promise.all([
+      changeUnreadCount(artistId, null, 1),
+      changeUnreadCount(artistId, 1, 2),
+    ]);
+    expect(await readValue(totalPath)).toBe(2);
+
+    // Opening the room resets its count
+    await changeUnreadCount(artistId, 2, 0);
+    expect(await readValue(totalPath)).toBe(0);
+  });
+
+  it("should remove a deleted room from both inboxes", async () => {
+    await sendMessage("m1");
+
+    const path = `${CHAT_PATHS.rooms}/${roomId}`;
+    await onRoomDeleted(testEnv.database.makeDataSnapshot(room(), path), {
+      params: { roomId },
+    });
+
+    expect(
+      await readValue(`${CHAT_PATHS.inbox}/${artistId}/${roomId}`),
+    ).toBeNull();
+    expect(
+      await readValue(`${CHAT_PATHS.inbox}/${customerId}/${roomId}`),
+    ).toBeNull();
+  });
+});
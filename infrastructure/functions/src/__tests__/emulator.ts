@@ -0,0 +1,52 @@
+/**
+ * Emulator setup for the function tests
+ *
+ * Import this before any function module: the modules call admin.firestore()
+ * when they load, so the Admin SDK has to be initialized first. Tests call
+ * the wrapped functions directly (no functions emulator), so triggers do not
+ * fire on their own.
+ *
+ * Run from the repository root: npm run firebase:functions:test
+ * Without the emulators (plain `npm test`) the suites are skipped.
+ */
+
+import * as admin from "firebase-admin";
+import firebaseFunctionsTest from "firebase-functions-test";
+
+export const PROJECT_ID = process.env.GCLOUD_PROJECT || "demo-tattoo-journey";
+
+const databaseURL = `https://${PROJECT_ID}-default-rtdb.firebaseio.com`;
+
+export const hasEmulators =
+  !!process.env.FIRESTORE_EMULATOR_HOST &&
+  !!process.env.FIREBASE_DATABASE_EMULATOR_HOST;
+
+/**
+ * describe() when the emulators are running, describe.skip() otherwise
+ */
+export const describeWithEmulators = hasEmulators ? describe : describe.skip;
+
+export const testEnv = firebaseFunctionsTest({
+  projectId: PROJECT_ID,
+  databaseURL,
+});
+
+admin.initializeApp({ projectId: PROJECT_ID, databaseURL });
+
+// Contended transactions back off and retry before they settle
+jest.setTimeout(30000);
+
+/**
+ * Ids are unique per run so suites can share the emulators
+ */
+export const uniqueId = (prefix: string): string =>
+  `${prefix}_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+export const callableContext = (uid: string) => ({
+  auth: { uid, token: {} },
+});
+
+export async function teardown(): Promise<void> {
+  testEnv.cleanup();
+  await Promise.all(admin.apps.map((app) => app?.delete()));
+}
@@ -0,0 +1,234 @@
+/**
+ * Waitlist offers against the Firestore emulator: one hold per freed slot,
+ * declined offers passed down the line and accepted offers keeping the time
+ * and the cancellation policy agreed to on accept
+ */
+
+import {
+  callableContext,
+  describeWithEmulators,
+  teardown,
+  testEnv,
+  uniqueId,
+} from "./emulator";
+import * as admin from "firebase-admin";
+import {
+  AVAILABILITY_COLLECTIONS,
+  BOOKING_COLLECTIONS,
+  BOOKING_SLOT_CONFLICT_CODE,
+  CancellationPolicy,
+  DEFAULT_CANCELLATION_POLICY,
+  FreedSlot,
+  WAITLIST_COLLECTIONS,
+  getWaitlistHoldId,
+} from "@tattoo-journey/shared";
+import { transitionBooking } from "../bookingFunctions";
+import {
+  offerSlotToWaitlist,
+  respondToWaitlistOffer,
+} from "../waitlistFunctions";
+
+const db = admin.firestore();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+const ARTIST_POLICY: CancellationPolicy = {
+  ...DEFAULT_CANCELLATION_POLICY,
+  lateCancellationHours: 72,
+};
+
+const respond = testEnv.wrap(respondToWaitlistOffer);
+const transition = testEnv.wrap(transitionBooking);
+
+describeWithEmulators("Waitlist functions", () => {
+  let artistId: string;
+  let slot: FreedSlot;
+
+  const seedEntry = async (customerId: string, joinedAt: Date) => {
+    const entryRef = db.collection(WAITLIST_COLLECTIONS.entries).doc();
+    await entryRef.set({
+      artistId,
+      customerId,
+      earliestDate: admin.firestore.Timestamp.fromMillis(Date.now()),
+      latestDate: admin.firestore.Timestamp.fromMillis(
+        Date.now() + 60 * DAY_MS,
+      ),
+      preferredSize: "medium",
+      estimatedDuration: 120,
+      budgetRange: { min: 30000, max: 60000 },
+      tattooDescription: "牡丹",
+      bodyLocation: "腕",
+      status: "waiting",
+      createdAt: admin.firestore.Timestamp.fromDate(joinedAt),
+      updatedAt: admin.firestore.Timestamp.fromDate(joinedAt),
+    });
+    return entryRef.id;
+  };
+
+  const getOffer = async (offerId: string) =>
+    (
+      await db.collection(WAITLIST_COLLECTIONS.offers).doc(offerId).get()
+    ).data()!;
+
+  const getEntryStatus = async (entryId: string) =>
+    (
+      await db.collection(WAITLIST_COLLECTIONS.entries).doc(entryId).get()
+    ).data()?.status;
+
+  const getBusySlots = async () =>
+    (
+      await db
+        .collection(AVAILABILITY_COLLECTIONS.busySlots)
+        .where("artistId", "==", artistId)
+        .get()
+    ).docs;
+
+  beforeEach(async () => {
+    artistId = uniqueId("artist");
+    await db
+      .collection("users")
+      .doc(artistId)
+      .set({ profile: { artistInfo: { cancellationPolicy: ARTIST_POLICY } } });
+
+    const startTime = new Date(
+      Math.ceil((Date.now() + 14 * DAY_MS) / HOUR_MS) * HOUR_MS,
+    );
+    slot = {
+      artistId,
+      startTime,
+      endTime: new Date(startTime.getTime() + 3 * HOUR_MS),
+    };
+  });
+
+  afterAll(teardown);
+
+  it("should hold a freed slot for one customer at a time", async () => {
+    await seedEntry(uniqueId("customer"), new Date(Date.now() - 2 * DAY_MS));
+    await seedEntry(uniqueId("customer"), new Date(Date.now() - DAY_MS));
+
+    // The trigger may run twice for the same freed slot
+    const offerIds = await Promise.all([
+      offerSlotToWaitlist(slot),
+      offerSlotToWaitlist(slot),
+    ]);
+
+    expect(offerIds.filter((offerId) => offerId !== null)).toHaveLength(1);
+
+    const busySlots = await getBusySlots();
+    expect(busySlots.map((doc) => doc.id)).toEqual([
+      getWaitlistHoldId(offerIds.find((offerId) => offerId !== null)!),
+    ]);
+  });
+
+  it("should offer a declined slot to the next customer in line", async () => {
+    const firstCustomerId = uniqueId("customer");
+    const firstEntryId = await seedEntry(
+      firstCustomerId,
+      new Date(Date.now() - 2 * DAY_MS),
+    );
+    const secondEntryId = await seedEntry(
+      uniqueId("customer"),
+      new Date(Date.now() - DAY_MS),
+    );
+
+    const offerId = (await offerSlotToWaitlist(slot))!;
+    expect((await getOffer(offerId)).entryId).toBe(firstEntryId);
+
+    // Only the offered customer answers
+    await expect(
+      respond({ offerId, accept: true }, callableContext(artistId)),
+    ).rejects.toMatchObject({ code: "permission-denied" });
+
+    await respond({ offerId, accept: false }, callableContext(firstCustomerId));
+
+    expect((await getOffer(offerId)).status).toBe("declined");
+    expect(await getEntryStatus(firstEntryId)).toBe("waiting");
+    expect(await getEntryStatus(secondEntryId)).toBe("offered");
+
+    const offersSnapshot = await db
+      .collection(WAITLIST_COLLECTIONS.offers)
+      .where("artistId", "==", artistId)
+      .where("status", "==", "pending")
+      .get();
+    expect(offersSnapshot.size).toBe(1);
+    expect(offersSnapshot.docs[0].data()).toMatchObject({
+      entryId: secondEntryId,
+      offeredEntryIds: [firstEntryId, secondEntryId],
+    });
+
+    // The old hold is replaced by the new one
+    const busySlots = await getBusySlots();
+    expect(busySlots.map((doc) => doc.id)).toEqual([
+      getWaitlistHoldId(offersSnapshot.docs[0].id),
+    ]);
+  });
+
+  it("should keep the held time and the agreed policy for the booking created on accept", async () => {
+    const customerId = uniqueId("customer");
+    const entryId = await seedEntry(customerId, new Date());
+
+    const offerId = (await offerSlotToWaitlist(slot))!;
+    const { bookingId } = await respond(
+      { offerId, accept: true },
+      callableContext(customerId),
+    );
+
+    expect((await getOffer(offerId)).status).toBe("accepted");
+    expect(await getEntryStatus(entryId)).toBe("booked");
+
+    const booking = (
+      await db.collection(BOOKING_COLLECTIONS.requests).doc(bookingId).get()
+    ).data()!;
+    expect(booking).toMatchObject({
+      customerId,
+      artistId,
+      status: "pending",
+      waitlistOfferId: offerId,
+      agreedCancellationPolicy: ARTIST_POLICY,
+    });
+    expect(booking.holdExpiresAt.toMillis()).toBeLessThanOrEqual(
+      slot.startTime.getTime(),
+    );
+
+    const busySlots = await getBusySlots();
+    expect(busySlots.map((doc) => doc.id)).toEqual([bookingId]);
+
+    // Another booking can't be confirmed over the held time
+    const otherBookingId = uniqueId("booking");
+    await db
+      .collection(BOOKING_COLLECTIONS.requests)
+      .doc(otherBookingId)
+      .set({
+        customerId: uniqueId("customer"),
+        artistId,
+        status: "accepted",
+        responses: [
+          {
+            responderId: artistId,
+            responseType: "accept",
+            message: "",
+            proposedPrice: 40000,
+            proposedDuration: 60,
+            createdAt: admin.firestore.Timestamp.now(),
+          },
+        ],
+      });
+
+    await expect(
+      transition(
+        {
+          bookingId: otherBookingId,
+          toStatus: "confirmed",
+          confirmation: { confirmedDate: slot.startTime.toISOString() },
+        },
+        callableContext(artistId),
+      ),
+    ).rejects.toMatchObject({ code: BOOKING_SLOT_CONFLICT_CODE });
+
+    // A second answer to the same offer is refused
+    await expect(
+      respond({ offerId, accept: true }, callableContext(customerId)),
+    ).rejects.toMatchObject({ code: "failed-precondition" });
+  });
+});
@@ -6,10 +6,32 @@
 import * as functions from "firebase-functions";
 import * as admin from "firebase-admin";
 import vision from "@google-cloud/vision";
+import {
+  ArtistMatchResult,
+  ArtistMatchingProfile,
+  MATCHING_PROFILE_COLLECTION,
+  MATCHING_WEIGHT_COLLECTIONS,
+  MAX_REPLAY_CANDIDATES,
+  blendRankingScores,
+  getWeightProfileDocId,
+  isValidMatchingCriteria,
+  scoreArtistCandidates,
+  selectArtistMatches,
+} from "@tattoo-journey/shared";
+import { resolveWeightProfile } from "./matchingWeightFunctions";
+import { loadRankingBlend } from "./rankingFunctions";
+import {
+  lookupCachedAnalysis,
+  storeCachedAnalysis,
+} from "./analysisCacheFunctions";
 
 const db = admin.firestore();
+const storage = admin.storage();
 const visionClient = new vision.ImageAnnotatorClient();
 
+// Vision accepts inline images up to 10 MB
+const MAX_ANALYSIS_IMAGE_BYTES = 10 * 1024 * 1024;
+
 interface ImageAnalysisResult {
   labels: Array<{ description: string; score: number }>;
   objects: Array<{ name: string; confidence: number }>;
@@ -22,7 +44,9 @@ interface ImageAnalysisResult {
 }
 
 /**
- * Process Image Analysis using Google Cloud Vision API
+ * Process Image Analysis using Google Cloud Vision API. Results are cached by
+ * image content, so a re-uploaded or re-tagged image costs no Vision call and
+ * keeps one imageAnalyses document per user.
  */
 export const processImageAnalysis = functions.https.onCall(
   async (data, context) => {
@@ -33,9 +57,9 @@ export const processImageAnalysis = functions.https.onCall(
       );
     }
 
-    const { imageUrl, userId } = data;
+    const { imageUrl } = data || {};
 
-    if (!imageUrl) {
+    if (typeof imageUrl !== "string" || !imageUrl) {
       throw new functions.https.HttpsError(
         "invalid-argument",
         "Image URL is required",
@@ -43,47 +67,65 @@ export const processImageAnalysis = functions.https.onCall(
     }
 
     try {
-      // Analyze image with Google Cloud Vision
-      const [result] = await visionClient.annotateImage({
-        image: { source: { imageUri: imageUrl } },
-        features: [
-          { type: "LABEL_DETECTION", maxResults: 20 },
-          { type: "OBJECT_LOCALIZATION", maxResults: 10 },
-          { type: "IMAGE_PROPERTIES" },
-        ],
-      });
+      const image = await downloadAnalysisImage(imageUrl, context.auth.uid);
+      const cached = await lookupCachedAnalysis<ImageAnalysisResult>(image);
+      let analysisResult = cached.analysisResult;
+
+      if (!analysisResult) {
+        // Analyze image with Google Cloud Vision
+        const [result] = await visionClient.annotateImage({
+          image: { content: Buffer.from(image) },
+          features: [
+            { type: "LABEL_DETECTION", maxResults: 20 },
+            { type: "OBJECT_LOCALIZATION", maxResults: 10 },
+            { type: "IMAGE_PROPERTIES" },
+          ],
+        });
+
+        // Process Vision API results
+        analysisResult = {
+          labels:
+            result.labelAnnotations?.map((label) => ({
+              description: label.description || "",
+              score: label.score || 0,
+            })) || [],
+          objects:
+            result.localizedObjectAnnotations?.map((obj) => ({
+              name: obj.name || "",
+              confidence: obj.score || 0,
+            })) || [],
+          colors: extractDominantColors(result.imagePropertiesAnnotation),
+          style: determineArtStyle(result.labelAnnotations || []),
+          complexity: assessComplexity(result.labelAnnotations || []),
+        };
+
+        await storeCachedAnalysis(cached, analysisResult);
+      }
 
-      // Process Vision API results
-      const analysisResult: ImageAnalysisResult = {
-        labels:
-          result.labelAnnotations?.map((label) => ({
-            description: label.description || "",
-            score: label.score || 0,
-          })) || [],
-        objects:
-          result.localizedObjectAnnotations?.map((obj) => ({
-            name: obj.name || "",
-            confidence: obj.score || 0,
-          })) || [],
-        colors: extractDominantColors(result.imagePropertiesAnnotation),
-        style: determineArtStyle(result.labelAnnotations || []),
-        complexity: assessComplexity(result.labelAnnotations || []),
-      };
-
-      // Store analysis result
-      await db.collection("imageAnalyses").add({
-        userId,
-        imageUrl,
-        analysisResult,
-        timestamp: admin.firestore.FieldValue.serverTimestamp(),
-        processingTime: Date.now(),
-      });
+      // Store analysis result, once per user and image
+      await db
+        .collection("imageAnalyses")
+        .doc(`${context.auth.uid}_${cached.cacheKey}`)
+        .set({
+          userId: context.auth.uid,
+          imageUrl,
+          contentHash: cached.contentHash,
+          analysisResult,
+          timestamp: admin.firestore.FieldValue.serverTimestamp(),
+          processingTime: Date.now(),
+        });
 
       return {
         success: true,
         analysis: analysisResult,
+        contentHash: cached.contentHash,
+        cached: cached.analysisResult !== null,
       };
     } catch (error) {
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+
       console.error("Image analysis error:", error);
       throw new functions.https.HttpsError(
         "internal",
@@ -94,9 +136,120 @@ export const processImageAnalysis = functions.https.onCall(
 );
 
 /**
- * Generate AI-powered Artist Matching
+ * Read an image to analyze from the default bucket. Firebase download URLs
+ * are accepted when their token is one of the object's download tokens, and
+ * Storage paths or gs:// URLs only inside the caller's own folders, so no
+ * other host is ever fetched.
  */
-export const generateAIMatching = functions.https.onCall(
+async function downloadAnalysisImage(
+  imageUrl: string,
+  userId: string,
+): Promise<Uint8Array> {
+  const bucket = storage.bucket();
+  const reference = parseStorageReference(imageUrl, bucket.name);
+  const ownFolders = [
+    `users/${userId}/`,
+    `temp/${userId}/`,
+    `customer-uploads/${userId}/`,
+  ];
+
+  if (
+    !reference ||
+    (reference.token === null &&
+      !ownFolders.some((folder) => reference.path.startsWith(folder)))
+  ) {
+    throw new functions.https.HttpsError(
+      "invalid-argument",
+      "Image must be a download URL or one of your uploads in Storage",
+    );
+  }
+
+  const file = bucket.file(reference.path);
+  const [exists] = await file.exists();
+  if (!exists) {
+    throw new functions.https.HttpsError("not-found", "Image not found");
+  }
+
+  const [metadata] = await file.getMetadata();
+  const downloadTokens = String(
+    metadata.metadata?.firebaseStorageDownloadTokens || "",
+  ).split(",");
+
+  if (reference.token !== null && !downloadTokens.includes(reference.token)) {
+    throw new functions.https.HttpsError(
+      "permission-denied",
+      "Invalid download URL",
+    );
+  }
+
+  if (Number(metadata.size) > MAX_ANALYSIS_IMAGE_BYTES) {
+    throw new functions.https.HttpsError(
+      "invalid-argument",
+      "Image is too large to analyze",
+    );
+  }
+
+  // The range keeps memory bounded even if the object is replaced meanwhile
+  const [contents] = await file.download({ end: MAX_ANALYSIS_IMAGE_BYTES });
+  if (contents.length > MAX_ANALYSIS_IMAGE_BYTES) {
+    throw new functions.https.HttpsError(
+      "invalid-argument",
+      "Image is too large to analyze",
+    );
+  }
+
+  return new Uint8Array(contents);
+}
+
+/**
+ * Object path (and download token, for download URLs) of a Storage path,
+ * gs:// URL or Firebase download URL in the given bucket; null otherwise
+ */
+function parseStorageReference(
+  imageUrl: string,
+  bucketName: string,
+): { path: string; token: string | null } | null {
+  if (!/^[a-z][a-z0-9+.-]*:/i.test(imageUrl)) {
+    const path = imageUrl.replace(/^\/+/, "");
+    return path ? { path, token: null } : null;
+  }
+
+  // Malformed URLs and escape sequences are rejected like foreign hosts
+  try {
+    const url = new URL(imageUrl);
+
+    if (url.protocol === "gs:") {
+      const path = decodeURIComponent(url.pathname.replace(/^\/+/, ""));
+      return url.host === bucketName && path ? { path, token: null } : null;
+    }
+
+    const match = url.pathname.match(/^\/v0\/b\/([^/]+)\/o\/([^/]+)$/);
+    const token = url.searchParams.get("token");
+
+    if (
+      url.protocol !== "https:" ||
+      url.host !== "firebasestorage.googleapis.com" ||
+      !match ||
+      decodeURIComponent(match[1]) !== bucketName ||
+      !token
+    ) {
+      return null;
+    }
+
+    return { path: decodeURIComponent(match[2]), token };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Match artists against the customer's design, budget and location.
+ * Scoring runs here (shared matching pipeline over artistMatchingProfiles)
+ * so ranking changes need no app release and cannot be altered by the client.
+ * Weights come from the requested profile version or the caller's experiment
+ * cohort, and every search is recorded for offline evaluation.
+ */
+export const findMatchingArtists = functions.https.onCall(
   async (data, context) => {
     if (!context.auth) {
       throw new functions.https.HttpsError(
@@ -105,89 +258,99 @@ export const generateAIMatching = functions.https.onCall(
       );
     }
 
-    const { imageAnalysis, customerLocation, budget, preferences } = data;
+    const criteria = data?.criteria;
+
+    if (!isValidMatchingCriteria(criteria)) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Valid matching criteria are required",
+      );
+    }
+
+    const { weightProfile, experimentId } = await resolveWeightProfile(
+      context.auth.uid,
+      typeof data.weightProfileId === "string"
+        ? data.weightProfileId
+        : undefined,
+    );
 
     try {
-      // Get all active artists
-      const artistsSnapshot = await db
-        .collection("users")
-        .where("userType", "==", "artist")
-        .where("isActive", "==", true)
+      // One query for the whole region: latitude band, then exact distance
+      const latDelta = criteria.maxDistance / 111;
+      const profilesSnapshot = await db
+        .collection(MATCHING_PROFILE_COLLECTION)
+        .where(
+          "location.latitude",
+          ">=",
+          criteria.customerLocation.latitude - latDelta,
+        )
+        .where(
+          "location.latitude",
+          "<=",
+          criteria.customerLocation.latitude + latDelta,
+        )
         .get();
 
-      const matchingResults = [];
-
-      for (const artistDoc of artistsSnapshot.docs) {
-        const artistData = artistDoc.data();
-
-        // Calculate matching scores
-        const designScore = calculateDesignSimilarity(
-          imageAnalysis,
-          artistData.portfolio,
-        );
-        const locationScore = calculateLocationScore(
-          customerLocation,
-          artistData.location,
-        );
-        const priceScore = calculatePriceCompatibility(
-          budget,
-          artistData.pricing,
-        );
-        const experienceScore = calculateExperienceScore(
-          artistData.experience,
-          artistData.reviews,
-        );
-
-        // Weighted matching algorithm
-        const totalScore =
-          designScore * 0.4 +
-          experienceScore * 0.3 +
-          priceScore * 0.2 +
-          locationScore * 0.1;
-
-        if (totalScore > 0.3) {
-          // Only include matches above threshold
-          matchingResults.push({
-            artistId: artistDoc.id,
-            artistName: artistData.displayName,
-            totalScore,
-            breakdown: {
-              design: designScore,
-              experience: experienceScore,
-              price: priceScore,
-              location: locationScore,
-            },
-            portfolio: artistData.portfolio?.slice(0, 5) || [],
-            specialties: artistData.specialties || [],
-            averageRating: artistData.averageRating || 0,
-            reviewCount: artistData.reviewCount || 0,
-          });
-        }
-      }
+      const scored = scoreArtistCandidates(
+        profilesSnapshot.docs.map((doc) => doc.data() as ArtistMatchingProfile),
+        criteria,
+        weightProfile,
+      );
+      // Learned ranking model, only while the ranking flag is on
+      const rankingBlend = await loadRankingBlend();
+      const candidates = rankingBlend
+        ? blendRankingScores(
+            scored,
+            rankingBlend.model,
+            rankingBlend.blendWeight,
+          )
+        : scored;
+      const matches = selectArtistMatches(candidates, weightProfile);
+      const weightProfileId = getWeightProfileDocId(
+        weightProfile.id,
+        weightProfile.version,
+      );
 
-      // Sort by total score
-      matchingResults.sort((a, b) => b.totalScore - a.totalScore);
-
-      // Store matching results
-      await db.collection("matchingHistory").add({
-        userId: context.auth.uid,
-        imageAnalysis,
-        matchingResults: matchingResults.slice(0, 10), // Top 10 matches
-        timestamp: admin.firestore.FieldValue.serverTimestamp(),
-        customerLocation,
-        budget,
-        preferences,
-      });
+      const historyRef = await db
+        .collection(MATCHING_WEIGHT_COLLECTIONS.history)
+        .add({
+          customerId: context.auth.uid,
+          criteria,
+          weightProfileId,
+          experimentId,
+          rankingModelId: rankingBlend?.modelId || null,
+          matchCount: matches.length,
+          topMatches: matches.slice(0, 10).map((match) => ({
+            artistId: match.artist.uid,
+            matchScore: match.matchScore,
+            breakdown: match.breakdown,
+            reasons: match.reasons,
+          })),
+          // Unfiltered, so any profile can be replayed against this search;
+          // the served matches are the first matchCount candidates
+          candidates: candidates
+            .slice(0, MAX_REPLAY_CANDIDATES)
+            .map((candidate) => ({
+              artistId: candidate.artist.uid,
+              breakdown: candidate.breakdown,
+              features: candidate.features,
+            })),
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
 
       return {
         success: true,
-        matches: matchingResults.slice(0, 10),
+        matches: matches.map(toCallableMatch),
+        historyId: historyRef.id,
+        weightProfileId,
+        experimentId,
+        rankingModelId: rankingBlend?.modelId || null,
       };
     } catch (error) {
-      console.error("AI matching error:", error);
+      console.error("Artist matching error:", error);
       throw new functions.https.HttpsError(
         "internal",
-        "Failed to generate matches",
+        "Failed to find matching artists",
       );
     }
   },
@@ -259,103 +422,30 @@ function assessComplexity(labels: any[]): "simple" | "medium" | "complex" {
   return "simple";
 }
 
-function calculateDesignSimilarity(
-  customerAnalysis: any,
-  artistPortfolio: any[],
-): number {
-  if (!artistPortfolio?.length) return 0;
-
-  // Compare style, colors, complexity
-  let totalSimilarity = 0;
-  let comparisons = 0;
-
-  artistPortfolio.forEach((portfolioItem) => {
-    if (portfolioItem.analysis) {
-      const styleSimilarity =
-        customerAnalysis.style.category ===
-        portfolioItem.analysis.style.category
-          ? 0.8
-          : 0.2;
-      const complexitySimilarity =
-        customerAnalysis.complexity === portfolioItem.analysis.complexity
-          ? 0.6
-          : 0.3;
-
-      totalSimilarity += (styleSimilarity + complexitySimilarity) / 2;
-      comparisons++;
-    }
-  });
-
-  return comparisons > 0 ? totalSimilarity / comparisons : 0;
-}
-
-function calculateLocationScore(
-  customerLocation: any,
-  artistLocation: any,
-): number {
-  if (!customerLocation || !artistLocation) return 0.5;
-
-  // Calculate distance using Haversine formula
-  const distance = calculateDistance(
-    customerLocation.latitude,
-    customerLocation.longitude,
-    artistLocation.latitude,
-    artistLocation.longitude,
-  );
-
-  // Score based on distance (0-100km range)
-  if (distance <= 10) return 1.0;
-  if (distance <= 25) return 0.8;
-  if (distance <= 50) return 0.6;
-  if (distance <= 100) return 0.4;
-  return 0.2;
-}
-
-function calculatePriceCompatibility(
-  customerBudget: number,
-  artistPricing: any,
-): number {
-  if (!customerBudget || !artistPricing) return 0.5;
-
-  const artistAvgPrice =
-    artistPricing.averagePrice || artistPricing.hourlyRate * 3;
-
-  const ratio = customerBudget / artistAvgPrice;
-
-  if (ratio >= 1.2) return 1.0; // Customer can afford easily
-  if (ratio >= 1.0) return 0.9; // Perfect match
-  if (ratio >= 0.8) return 0.7; // Slight stretch
-  if (ratio >= 0.6) return 0.4; // Significant stretch
-  return 0.1; // Likely too expensive
-}
-
-function calculateExperienceScore(experience: any, reviews: any): number {
-  const experienceYears = experience?.years || 0;
-  const averageRating = reviews?.averageRating || 0;
-  const reviewCount = reviews?.count || 0;
-
-  const experienceScore = Math.min(experienceYears / 10, 1); // Max score at 10+ years
-  const ratingScore = averageRating / 5; // 0-1 scale
-  const reviewCountScore = Math.min(reviewCount / 50, 1); // Max score at 50+ reviews
-
-  return experienceScore * 0.3 + ratingScore * 0.5 + reviewCountScore * 0.2;
+/**
+ * Timestamps become ISO strings so the client can restore Dates
+ */
+function toCallableMatch(match: ArtistMatchResult) {
+  return {
+    ...match,
+    artist: {
+      ...match.artist,
+      createdAt: toIsoString(match.artist.createdAt),
+      updatedAt: toIsoString(match.artist.updatedAt),
+    },
+    // Embedding vectors stay on the server
+    topPortfolioMatches: match.topPortfolioMatches.map(
+      ({ embedding, ...item }) => ({
+        ...item,
+        createdAt: toIsoString(item.createdAt),
+      }),
+    ),
+  };
 }
 
-function calculateDistance(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number,
-): number {
-  const R = 6371; // Earth's radius in km
-  const dLat = ((lat2 - lat1) * Math.PI) / 180;
-  const dLon = ((lon2 - lon1) * Math.PI) / 180;
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos((lat1 * Math.PI) / 180) *
-      Math.cos((lat2 * Math.PI) / 180) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
+function toIsoString(value: any): string | null {
+  if (!value) return null;
+  if (typeof value.toDate === "function") return value.toDate().toISOString();
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
 }
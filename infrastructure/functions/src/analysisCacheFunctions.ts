@@ -0,0 +1,146 @@
+/**
+ * Analysis Cache Functions - Tattoo Journey 2.0
+ * Content-hash cache of image analyses shared by every analysis path, and
+ * its daily hit-rate metrics
+ */
+
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {
+  ANALYSIS_CACHE_COLLECTIONS,
+  AnalysisCacheStats,
+  MAX_ANALYSIS_CACHE_STATS_DAYS,
+  getAnalysisCacheKey,
+  getAnalysisCacheMetricsDocId,
+  getCacheHitRate,
+  hashImageContent,
+  sumAnalysisCacheStats,
+} from "@tattoo-journey/shared";
+
+const db = admin.firestore();
+
+const DEFAULT_ANALYSIS_CACHE_STATS_DAYS = 7;
+
+export interface CachedAnalysis<T> {
+  contentHash: string;
+  cacheKey: string;
+  // Cached result, or null on a miss
+  analysisResult: T | null;
+}
+
+/**
+ * Look up an image's analysis by the hash of its bytes, and count the lookup
+ */
+export async function lookupCachedAnalysis<T>(
+  image: Uint8Array,
+): Promise<CachedAnalysis<T>> {
+  const contentHash = hashImageContent(image);
+  const cacheKey = getAnalysisCacheKey(contentHash);
+  const cacheRef = db
+    .collection(ANALYSIS_CACHE_COLLECTIONS.entries)
+    .doc(cacheKey);
+  const snapshot = await cacheRef.get();
+
+  if (snapshot.exists) {
+    await cacheRef.update({
+      hitCount: admin.firestore.FieldValue.increment(1),
+      lastHitAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+
+  await recordCacheLookup(snapshot.exists);
+
+  return {
+    contentHash,
+    cacheKey,
+    analysisResult: snapshot.exists
+      ? (snapshot.data()!.analysisResult as T)
+      : null,
+  };
+}
+
+/**
+ * Store a fresh analysis under its cache key
+ */
+export async function storeCachedAnalysis<T>(
+  cached: CachedAnalysis<T>,
+  analysisResult: T,
+): Promise<void> {
+  await db
+    .collection(ANALYSIS_CACHE_COLLECTIONS.entries)
+    .doc(cached.cacheKey)
+    .set({
+      contentHash: cached.contentHash,
+      analysisResult,
+      hitCount: 0,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      lastHitAt: null,
+    });
+}
+
+/**
+ * Cache hit rate over the last days (admin only)
+ */
+export const getAnalysisCacheStats = functions.https.onCall(
+  async (data, context) => {
+    if (!context.auth?.token.admin) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "Admin privileges required",
+      );
+    }
+
+    const days = Math.min(
+      Math.max(Math.floor(data?.days || DEFAULT_ANALYSIS_CACHE_STATS_DAYS), 1),
+      MAX_ANALYSIS_CACHE_STATS_DAYS,
+    );
+
+    try {
+      const refs = Array.from({ length: days }, (_, i) =>
+        db
+          .collection(ANALYSIS_CACHE_COLLECTIONS.metrics)
+          .doc(
+            getAnalysisCacheMetricsDocId(new Date(Date.now() - i * 86400000)),
+          ),
+      );
+      const snapshots = await db.getAll(...refs);
+      const daily = snapshots.map((snapshot) => ({
+        date: snapshot.id,
+        hits: (snapshot.data()?.hits as number) || 0,
+        misses: (snapshot.data()?.misses as number) || 0,
+      }));
+      const total: AnalysisCacheStats = sumAnalysisCacheStats(daily);
+
+      return {
+        success: true,
+        ...total,
+        hitRate: getCacheHitRate(total),
+        daily: daily.map((day) => ({ ...day, hitRate: getCacheHitRate(day) })),
+      };
+    } catch (error) {
+      console.error("Error loading analysis cache stats:", error);
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to load analysis cache stats",
+      );
+    }
+  },
+);
+
+async function recordCacheLookup(isHit: boolean): Promise<void> {
+  try {
+    await db
+      .collection(ANALYSIS_CACHE_COLLECTIONS.metrics)
+      .doc(getAnalysisCacheMetricsDocId(new Date()))
+      .set(
+        {
+          [isHit ? "hits" : "misses"]: admin.firestore.FieldValue.increment(1),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        },
+        { merge: true },
+      );
+  } catch (error) {
+    // Metrics never fail an analysis
+    console.error("Error recording analysis cache lookup:", error);
+  }
+}
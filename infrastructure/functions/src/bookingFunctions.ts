@@ -0,0 +1,1428 @@
+/**
+ * Booking Functions - Tattoo Journey 2.0
+ * Firebase Functions that keep booking documents on the shared schema
+ */
+
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {
+  AVAILABILITY_COLLECTIONS,
+  AvailabilityException,
+  BOOKING_COLLECTIONS,
+  BOOKING_SLOT_CONFLICT_CODE,
+  BookableTimeSlot,
+  BookingActorRole,
+  BookingRescheduleDecision,
+  BookingResponseType,
+  BookingStatus,
+  MAX_BOOKING_DURATION_MINUTES,
+  MAX_PROPOSED_SLOTS,
+  MAX_RESCHEDULE_OPTIONS,
+  PAYMENT_COLLECTIONS,
+  PROJECT_COLLECTIONS,
+  canDecideBookingReschedule,
+  canMarkNoShow,
+  canTransitionBooking,
+  canUpdateProjectSession,
+  evaluateCancellation,
+  findBookingSlotConflicts,
+  getActiveBookingIndexId,
+  getAvailabilityExceptionId,
+  getBookingActorRole,
+  getBookingCancellationPolicy,
+  getBookingRoomId,
+  getDepositAmount,
+  getProjectSessionReservationId,
+  getQuotedBookingTerms,
+  isActiveBookingStatus,
+  isBookingStatus,
+  isPaymentChargeType,
+  isWithinWorkingHours,
+  parseBookingStatus,
+  getBookingEndTime,
+  migrateLegacyBookingData,
+  releaseTimeSlots,
+  reserveTimeSlots,
+  toDateKey,
+} from "@tattoo-journey/shared";
+
+const db = admin.firestore();
+
+const MIGRATION_BATCH_SIZE = 400;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ARTIST_SCHEDULES_COLLECTION = "artistSchedules";
+
+interface TransitionBookingData {
+  bookingId: string;
+  toStatus: BookingStatus;
+  reason?: string;
+  response?: {
+    responseType: BookingResponseType;
+    message: string;
+    proposedDate?: string;
+    // Start times of a slot proposal (ISO)
+    proposedDates?: string[];
+    proposedPrice?: number;
+    proposedDuration?: number;
+  };
+  // Price and duration come from the artist's latest quote on the booking
+  confirmation?: {
+    confirmedDate: string;
+  };
+  // Artist marks the customer as a no-show (toStatus must be cancelled)
+  noShow?: boolean;
+}
+
+interface RequestBookingRescheduleData {
+  bookingId: string;
+  proposedDates: string[]; // ISO
+  reason?: string;
+}
+
+interface RespondToBookingRescheduleData {
+  bookingId: string;
+  decision: BookingRescheduleDecision;
+  selectedDate?: string; // ISO, required when accepting
+}
+
+export interface ScheduleSlotsWrite {
+  ref: admin.firestore.DocumentReference;
+  timeSlots: BookableTimeSlot[];
+}
+
+/**
+ * Maintain activeBookings/{roomId}_booking while a room has an active booking
+ * (used by storage rules and the chat image deletion audit)
+ */
+export const syncActiveBookingIndex = functions.firestore
+  .document(`${BOOKING_COLLECTIONS.requests}/{bookingId}`)
+  .onWrite(async (change, context) => {
+    const bookingId = context.params.bookingId;
+    const after = change.after.exists ? change.after.data() : null;
+    const before = change.before.exists ? change.before.data() : null;
+    const booking = after || before;
+
+    if (!booking?.customerId || !booking?.artistId) {
+      return;
+    }
+
+    const roomId =
+      booking.roomId || getBookingRoomId(booking.customerId, booking.artistId);
+    // Bookings with an unknown status are left out of the index
+    const status = after ? parseBookingStatus(after.status) : null;
+    const isActive = !!status && isActiveBookingStatus(status);
+    const indexRef = db
+      .collection(BOOKING_COLLECTIONS.activeIndex)
+      .doc(getActiveBookingIndexId(roomId));
+
+    try {
+      await db.runTransaction(async (transaction) => {
+        const indexDoc = await transaction.get(indexRef);
+        const bookingIds: string[] = indexDoc.exists
+          ? indexDoc.data()?.bookingIds || []
+          : [];
+        const remainingIds = bookingIds.filter((id) => id !== bookingId);
+        const nextIds = isActive ? [...remainingIds, bookingId] : remainingIds;
+
+        if (nextIds.length === 0) {
+          if (indexDoc.exists) {
+            transaction.delete(indexRef);
+          }
+          return;
+        }
+
+        transaction.set(indexRef, {
+          roomId,
+          customerId: booking.customerId,
+          artistId: booking.artistId,
+          bookingIds: nextIds,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      });
+    } catch (error) {
+      console.error("Error syncing active booking index:", error);
+    }
+  });
+
+/**
+ * Server-authoritative booking state machine.
+ * Validates the transition against BOOKING_TRANSITIONS and the caller's role,
+ * applies it atomically and appends an audit trail entry.
+ */
+export const transitionBooking = functions.https.onCall(
+  async (data: TransitionBookingData, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "User must be authenticated",
+      );
+    }
+
+    const { bookingId, toStatus, response, confirmation, noShow } = data || {};
+    const reason = data?.reason || "";
+
+    if (!bookingId || !isBookingStatus(toStatus)) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Booking ID and a valid target status are required",
+      );
+    }
+
+    if (confirmation !== undefined && !isValidConfirmation(confirmation)) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "A confirmed date is required",
+      );
+    }
+
+    if (response && !isValidResponse(response)) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Invalid booking response",
+      );
+    }
+
+    if (noShow && toStatus !== "cancelled") {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "A no-show can only cancel a booking",
+      );
+    }
+
+    const userId = context.auth.uid;
+    const isAdmin = context.auth.token.admin === true;
+    const bookingRef = db
+      .collection(BOOKING_COLLECTIONS.requests)
+      .doc(bookingId);
+    const confirmedRef = db
+      .collection(BOOKING_COLLECTIONS.confirmed)
+      .doc(bookingId);
+    const busySlotRef = db
+      .collection(AVAILABILITY_COLLECTIONS.busySlots)
+      .doc(bookingId);
+
+    try {
+      const result = await db.runTransaction(async (transaction) => {
+        const bookingDoc = await transaction.get(bookingRef);
+
+        if (!bookingDoc.exists) {
+          throw new functions.https.HttpsError(
+            "not-found",
+            "Booking request not found",
+          );
+        }
+
+        const booking = bookingDoc.data()!;
+        const actorRole: BookingActorRole | null = isAdmin
+          ? "system"
+          : getBookingActorRole(
+              { customerId: booking.customerId, artistId: booking.artistId },
+              userId,
+            );
+
+        if (!actorRole) {
+          throw new functions.https.HttpsError(
+            "permission-denied",
+            "Only booking participants can change a booking",
+          );
+        }
+
+        const fromStatus = parseBookingStatus(booking.status);
+
+        if (!fromStatus) {
+          throw new functions.https.HttpsError(
+            "failed-precondition",
+            `Booking has an unknown status: ${booking.status}`,
+          );
+        }
+
+        const isStatusChange = fromStatus !== toStatus;
+
+        if (
+          isStatusChange &&
+          !canTransitionBooking(fromStatus, toStatus, actorRole)
+        ) {
+          throw new functions.https.HttpsError(
+            "failed-precondition",
+            `Cannot transition booking from ${fromStatus} to ${toStatus} as ${actorRole}`,
+          );
+        }
+
+        // Same-status calls only add a response to a booking that is still
+        // open; they never re-run the confirm, cancel or complete side effects
+        if (
+          !isStatusChange &&
+          (!response || !isActiveBookingStatus(fromStatus))
+        ) {
+          throw new functions.https.HttpsError(
+            "failed-precondition",
+            `Booking is already ${toStatus}`,
+          );
+        }
+
+        if (!isStatusChange && confirmation) {
+          throw new functions.https.HttpsError(
+            "failed-precondition",
+            "A confirmed booking can only be moved with a reschedule request",
+          );
+        }
+
+        if (isStatusChange && toStatus === "confirmed" && !confirmation) {
+          throw new functions.https.HttpsError(
+            "invalid-argument",
+            "A confirmed date is required",
+          );
+        }
+
+        const cancellationPolicy = getBookingCancellationPolicy({
+          cancellationPolicy: booking.cancellationPolicy,
+        });
+
+        if (
+          noShow &&
+          (actorRole === "customer" ||
+            fromStatus !== "confirmed" ||
+            !booking.confirmedDate ||
+            !canMarkNoShow(cancellationPolicy, booking.confirmedDate.toDate()))
+        ) {
+          throw new functions.https.HttpsError(
+            "failed-precondition",
+            "Only the artist can mark a no-show after the appointment has started",
+          );
+        }
+
+        const confirmedTerms =
+          isStatusChange && toStatus === "confirmed" && confirmation
+            ? getConfirmedTerms(booking, confirmation, actorRole)
+            : null;
+
+        // Transactions require all reads before writes
+        const confirmedDoc = await transaction.get(confirmedRef);
+        const artistDoc =
+          toStatus === "confirmed"
+            ? await transaction.get(
+                db.collection("users").doc(booking.artistId),
+              )
+            : null;
+
+        let scheduleWrites: ScheduleSlotsWrite[] = [];
+
+        if (confirmedTerms) {
+          scheduleWrites = await reserveBookingSlot(transaction, {
+            bookingId,
+            artistId: booking.artistId,
+            startTime: confirmedTerms.startTime,
+            duration: confirmedTerms.duration,
+          });
+        }
+
+        // Closing a project's booking closes its open sessions with it
+        const projectClosure =
+          isStatusChange &&
+          (toStatus === "cancelled" || toStatus === "declined") &&
+          booking.projectId
+            ? await getProjectClosure(transaction, booking.projectId)
+            : null;
+
+        const releases = [
+          ...(toStatus === "cancelled" &&
+          fromStatus === "confirmed" &&
+          booking.confirmedDate
+            ? [{ bookingId, startTime: booking.confirmedDate.toDate() }]
+            : []),
+          ...(projectClosure?.scheduledSessions || []),
+        ];
+
+        if (releases.length > 0) {
+          scheduleWrites = await releaseBookingSlots(
+            transaction,
+            booking.artistId,
+            releases,
+          );
+        }
+
+        const isCancellation = toStatus === "cancelled" && isStatusChange;
+        const cancelledAt = admin.firestore.Timestamp.now();
+
+        // Refunds are queued only when something was actually charged
+        const paidCharges = isCancellation
+          ? (
+              await transaction.get(
+                db
+                  .collection(PAYMENT_COLLECTIONS.ledger)
+                  .where("bookingId", "==", bookingId)
+                  .where("status", "==", "succeeded"),
+              )
+            ).docs.filter((doc) => isPaymentChargeType(doc.data().type))
+          : [];
+
+        const artistInfo = artistDoc?.data()?.profile?.artistInfo;
+        const cancellation = isCancellation
+          ? evaluateCancellation({
+              policy: cancellationPolicy,
+              cancelledBy: actorRole,
+              cancelledAt: cancelledAt.toDate(),
+              appointmentDate: booking.confirmedDate?.toDate(),
+              isNoShow: !!noShow,
+            })
+          : null;
+
+        const now = admin.firestore.FieldValue.serverTimestamp();
+        const updates: Record<string, any> = {
+          status: toStatus,
+          updatedAt: now,
+        };
+
+        if (response) {
+          updates.responses = admin.firestore.FieldValue.arrayUnion({
+            responderId: userId,
+            responseType: response.responseType,
+            message: response.message || "",
+            ...(response.proposedDate && {
+              proposedDate: admin.firestore.Timestamp.fromDate(
+                new Date(response.proposedDate),
+              ),
+            }),
+            ...(response.proposedDates && {
+              proposedDates: response.proposedDates.map((date) =>
+                admin.firestore.Timestamp.fromDate(new Date(date)),
+              ),
+            }),
+            ...(response.proposedPrice !== undefined && {
+              proposedPrice: response.proposedPrice,
+            }),
+            ...(response.proposedDuration !== undefined && {
+              proposedDuration: response.proposedDuration,
+            }),
+            createdAt: admin.firestore.Timestamp.now(),
+          });
+        }
+
+        if (confirmedTerms) {
+          const confirmedDate = admin.firestore.Timestamp.fromDate(
+            confirmedTerms.startTime,
+          );
+
+          updates.confirmedDate = confirmedDate;
+          updates.confirmedPrice = confirmedTerms.price;
+          updates.confirmedDuration = confirmedTerms.duration;
+          updates.depositAmount = getDepositAmount(
+            artistInfo?.depositRequirement,
+            confirmedTerms.price,
+          );
+          // The policy the customer agreed to when requesting, even if the
+          // artist has changed theirs since
+          updates.cancellationPolicy = getBookingCancellationPolicy(
+            { agreedCancellationPolicy: booking.agreedCancellationPolicy },
+            artistInfo?.cancellationPolicy,
+          );
+
+          // Public projection so customers can see busy times without
+          // reading other customers' bookings
+          transaction.set(busySlotRef, {
+            artistId: booking.artistId,
+            startTime: confirmedDate,
+            endTime: admin.firestore.Timestamp.fromDate(
+              getBookingEndTime(
+                confirmedDate.toDate(),
+                confirmedTerms.duration,
+              ),
+            ),
+          });
+
+          transaction.set(confirmedRef, {
+            bookingRequestId: bookingId,
+            customerId: booking.customerId,
+            artistId: booking.artistId,
+            roomId:
+              booking.roomId ||
+              getBookingRoomId(booking.customerId, booking.artistId),
+            appointmentDate: confirmedDate,
+            duration: confirmedTerms.duration,
+            price: confirmedTerms.price,
+            tattooDescription: booking.tattooDescription || "",
+            bodyLocation: booking.bodyLocation || "",
+            status: "confirmed",
+            createdAt: now,
+          });
+        }
+
+        if (toStatus === "cancelled") {
+          updates.cancelledBy = userId;
+          updates.cancellationReason = reason;
+        }
+
+        // Frees the time of confirmed bookings and of pending bookings
+        // created from a waitlist offer
+        if (toStatus === "cancelled" || toStatus === "declined") {
+          transaction.delete(busySlotRef);
+        }
+
+        if (projectClosure) {
+          transaction.update(projectClosure.projectRef, {
+            status: "cancelled",
+            updatedAt: now,
+          });
+          projectClosure.sessionRefs.forEach((ref) => {
+            transaction.update(ref, { status: "cancelled", updatedAt: now });
+          });
+          projectClosure.scheduledSessions.forEach((session) => {
+            transaction.delete(
+              db
+                .collection(AVAILABILITY_COLLECTIONS.busySlots)
+                .doc(session.bookingId),
+            );
+          });
+        }
+
+        if (cancellation) {
+          // refundAmount is filled in once the refunds have been processed
+          updates.cancellationOutcome = {
+            ...cancellation,
+            cancelledById: userId,
+            refundAmount: 0,
+            evaluatedAt: now,
+          };
+        }
+
+        // Refunds call the payment provider, so they are queued with the
+        // cancellation and processed (with retries) by
+        // processCancellationRefund
+        const refundQueued = !!cancellation && paidCharges.length > 0;
+        if (cancellation && refundQueued) {
+          transaction.create(
+            db.collection(PAYMENT_COLLECTIONS.refunds).doc(bookingId),
+            {
+              bookingId,
+              customerId: booking.customerId,
+              artistId: booking.artistId,
+              cancelledBy: cancellation.cancelledBy,
+              actorId: userId,
+              cancelledAt,
+              ...(booking.confirmedDate && {
+                appointmentDate: booking.confirmedDate,
+              }),
+              depositRefundRate: cancellation.depositRefundRate,
+              status: "queued",
+              createdAt: now,
+            },
+          );
+        }
+
+        if (toStatus === "completed") {
+          updates.completedBy = userId;
+          updates.completedAt = now;
+        }
+
+        if (
+          confirmedDoc.exists &&
+          (toStatus === "completed" || toStatus === "cancelled")
+        ) {
+          transaction.update(confirmedRef, {
+            status: toStatus,
+            ...(toStatus === "completed" && { completedAt: now }),
+            // Read by ArtistScoreService for completion metrics
+            ...(cancellation && {
+              cancelledByRole: cancellation.cancelledBy,
+              isLateCancellation: cancellation.isLate,
+              isNoShow: cancellation.isNoShow,
+            }),
+            updatedAt: now,
+          });
+        }
+
+        transaction.update(bookingRef, updates);
+
+        scheduleWrites.forEach(({ ref, timeSlots }) => {
+          transaction.update(ref, { timeSlots });
+        });
+
+        if (isStatusChange) {
+          transaction.set(
+            bookingRef.collection(BOOKING_COLLECTIONS.transitions).doc(),
+            {
+              bookingId,
+              fromState: fromStatus,
+              toState: toStatus,
+              reason,
+              actorId: userId,
+              actorRole,
+              timestamp: now,
+            },
+          );
+        }
+
+        return {
+          fromStatus,
+          toStatus,
+          actorRole,
+          cancellation,
+          refundQueued,
+          confirmation: confirmedTerms && {
+            confirmedDate: confirmedTerms.startTime.toISOString(),
+            confirmedPrice: confirmedTerms.price,
+            confirmedDuration: confirmedTerms.duration,
+          },
+        };
+      });
+
+      return { success: true, ...result };
+    } catch (error) {
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+
+      console.error("Error transitioning booking:", error);
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to transition booking",
+      );
+    }
+  },
+);
+
+/**
+ * Propose new times for a confirmed appointment. Either participant may
+ * propose; a pending proposal from the other party must be answered first.
+ */
+export const requestBookingReschedule = functions.https.onCall(
+  async (data: RequestBookingRescheduleData, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "User must be authenticated",
+      );
+    }
+
+    const { bookingId } = data || {};
+    const proposedDates = (data?.proposedDates || []).map(
+      (date) => new Date(date),
+    );
+    const now = new Date();
+
+    if (
+      !bookingId ||
+      proposedDates.length === 0 ||
+      proposedDates.length > MAX_RESCHEDULE_OPTIONS ||
+      proposedDates.some((date) => !(date.getTime() > now.getTime()))
+    ) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        `Booking ID and 1-${MAX_RESCHEDULE_OPTIONS} future dates are required`,
+      );
+    }
+
+    const userId = context.auth.uid;
+    const isAdmin = context.auth.token.admin === true;
+    const bookingRef = db
+      .collection(BOOKING_COLLECTIONS.requests)
+      .doc(bookingId);
+
+    try {
+      return await db.runTransaction(async (transaction) => {
+        const bookingDoc = await transaction.get(bookingRef);
+
+        if (!bookingDoc.exists) {
+          throw new functions.https.HttpsError(
+            "not-found",
+            "Booking request not found",
+          );
+        }
+
+        const booking = bookingDoc.data()!;
+        const actorRole = getRescheduleActorRole(booking, userId, isAdmin);
+        const pending = booking.rescheduleRequest;
+
+        if (
+          parseBookingStatus(booking.status) !== "confirmed" ||
+          !booking.confirmedDate ||
+          booking.confirmedDate.toDate().getTime() <= now.getTime()
+        ) {
+          throw new functions.https.HttpsError(
+            "failed-precondition",
+            "Only upcoming confirmed appointments can be rescheduled",
+          );
+        }
+
+        if (
+          pending?.status === "pending" &&
+          pending.proposedByRole !== actorRole
+        ) {
+          throw new functions.https.HttpsError(
+            "failed-precondition",
+            "Respond to the pending reschedule request first",
+          );
+        }
+
+        transaction.update(bookingRef, {
+          rescheduleRequest: {
+            proposedBy: userId,
+            proposedByRole: actorRole,
+            proposedDates: proposedDates.map((date) =>
+              admin.firestore.Timestamp.fromDate(date),
+            ),
+            previousDate: booking.confirmedDate,
+            reason: data.reason || "",
+            status: "pending",
+            createdAt: admin.firestore.Timestamp.now(),
+          },
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        return { success: true, actorRole };
+      });
+    } catch (error) {
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+
+      console.error("Error requesting booking reschedule:", error);
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to request reschedule",
+      );
+    }
+  },
+);
+
+/**
+ * Accept, reject or withdraw a reschedule request. Accepting releases the old
+ * slot and reserves the selected time in the same transaction, moves the
+ * confirmed booking and appends a transition history entry.
+ */
+export const respondToBookingReschedule = functions.https.onCall(
+  async (data: RespondToBookingRescheduleData, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "User must be authenticated",
+      );
+    }
+
+    const { bookingId, decision } = data || {};
+    const selectedDate = data?.selectedDate
+      ? new Date(data.selectedDate)
+      : null;
+
+    if (
+      !bookingId ||
+      !["accept", "reject", "withdraw"].includes(decision) ||
+      (decision === "accept" && !(selectedDate && selectedDate.getTime()))
+    ) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Booking ID, a decision and (when accepting) a selected date are required",
+      );
+    }
+
+    const userId = context.auth.uid;
+    const isAdmin = context.auth.token.admin === true;
+    const bookingRef = db
+      .collection(BOOKING_COLLECTIONS.requests)
+      .doc(bookingId);
+    const confirmedRef = db
+      .collection(BOOKING_COLLECTIONS.confirmed)
+      .doc(bookingId);
+    const busySlotRef = db
+      .collection(AVAILABILITY_COLLECTIONS.busySlots)
+      .doc(bookingId);
+
+    try {
+      return await db.runTransaction(async (transaction) => {
+        const bookingDoc = await transaction.get(bookingRef);
+
+        if (!bookingDoc.exists) {
+          throw new functions.https.HttpsError(
+            "not-found",
+            "Booking request not found",
+          );
+        }
+
+        const booking = bookingDoc.data()!;
+        const actorRole = getRescheduleActorRole(booking, userId, isAdmin);
+        const rescheduleRequest = booking.rescheduleRequest;
+
+        if (
+          !rescheduleRequest ||
+          !canDecideBookingReschedule(rescheduleRequest, actorRole, decision)
+        ) {
+          throw new functions.https.HttpsError(
+            "failed-precondition",
+            `Cannot ${decision} this reschedule request as ${actorRole}`,
+          );
+        }
+
+        const now = admin.firestore.FieldValue.serverTimestamp();
+        const respondedFields = {
+          "rescheduleRequest.respondedBy": userId,
+          "rescheduleRequest.respondedAt": admin.firestore.Timestamp.now(),
+          updatedAt: now,
+        };
+
+        if (decision !== "accept" || !selectedDate) {
+          transaction.update(bookingRef, {
+            ...respondedFields,
+            "rescheduleRequest.status":
+              decision === "reject" ? "rejected" : "withdrawn",
+          });
+          return { success: true, decision, actorRole };
+        }
+
+        const isProposedDate = (
+          rescheduleRequest.proposedDates as admin.firestore.Timestamp[]
+        ).some((date) => date.toDate().getTime() === selectedDate.getTime());
+
+        if (
+          !isProposedDate ||
+          parseBookingStatus(booking.status) !== "confirmed" ||
+          !booking.confirmedDate
+        ) {
+          throw new functions.https.HttpsError(
+            "failed-precondition",
+            "The selected time is not part of a pending reschedule of a confirmed booking",
+          );
+        }
+
+        const previousDate: Date = booking.confirmedDate.toDate();
+        const duration: number = booking.confirmedDuration;
+
+        // Transactions require all reads before writes
+        const confirmedDoc = await transaction.get(confirmedRef);
+        const releaseWrites = await releaseBookingSlot(transaction, {
+          bookingId,
+          artistId: booking.artistId,
+          startTime: previousDate,
+        });
+        const reserveWrites = await reserveBookingSlot(transaction, {
+          bookingId,
+          artistId: booking.artistId,
+          startTime: selectedDate,
+          duration,
+        });
+
+        const confirmedDate = admin.firestore.Timestamp.fromDate(selectedDate);
+
+        transaction.update(bookingRef, {
+          ...respondedFields,
+          confirmedDate,
+          "rescheduleRequest.status": "accepted",
+          "rescheduleRequest.selectedDate": confirmedDate,
+        });
+
+        if (confirmedDoc.exists) {
+          transaction.update(confirmedRef, {
+            appointmentDate: confirmedDate,
+            updatedAt: now,
+          });
+        }
+
+        transaction.set(busySlotRef, {
+          artistId: booking.artistId,
+          startTime: confirmedDate,
+          endTime: admin.firestore.Timestamp.fromDate(
+            getBookingEndTime(selectedDate, duration),
+          ),
+        });
+
+        mergeScheduleWrites(releaseWrites, reserveWrites).forEach(
+          ({ ref, timeSlots }) => {
+            transaction.update(ref, { timeSlots });
+          },
+        );
+
+        transaction.set(
+          bookingRef.collection(BOOKING_COLLECTIONS.transitions).doc(),
+          {
+            bookingId,
+            fromState: "confirmed",
+            toState: "confirmed",
+            reason: rescheduleRequest.reason || "Rescheduled",
+            actorId: userId,
+            actorRole,
+            previousDate: booking.confirmedDate,
+            newDate: confirmedDate,
+            timestamp: now,
+          },
+        );
+
+        return {
+          success: true,
+          decision,
+          actorRole,
+          previousDate: previousDate.toISOString(),
+          newDate: selectedDate.toISOString(),
+        };
+      });
+    } catch (error) {
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+
+      console.error("Error responding to booking reschedule:", error);
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to respond to reschedule request",
+      );
+    }
+  },
+);
+
+/**
+ * Check the requested appointment against the artist's working hours
+ * (weekly template, holidays and closed days), confirmed bookings, busy slots
+ * and the artist schedule inside the caller's transaction. Throws an
+ * `already-exists` HttpsError listing the conflicts, otherwise returns the
+ * slot updates that mark the time as booked (to be written after all
+ * transaction reads). `bookingId` may also be a project session reservation id;
+ * slots it already holds are released first so rescheduling works.
+ */
+export async function reserveBookingSlot(
+  transaction: admin.firestore.Transaction,
+  request: {
+    bookingId: string;
+    artistId: string;
+    startTime: Date;
+    duration: number;
+  },
+): Promise<ScheduleSlotsWrite[]> {
+  const templateDoc = await transaction.get(
+    db.collection(AVAILABILITY_COLLECTIONS.templates).doc(request.artistId),
+  );
+  const template = templateDoc.exists ? templateDoc.data() : undefined;
+  const bufferMinutes = template?.bufferMinutes || 0;
+  // Holidays and closed days are stored per date
+  const exceptionDoc = template
+    ? await transaction.get(
+        db
+          .collection(AVAILABILITY_COLLECTIONS.exceptions)
+          .doc(
+            getAvailabilityExceptionId(
+              request.artistId,
+              toDateKey(request.startTime),
+            ),
+          ),
+      )
+    : null;
+
+  const endTime = getBookingEndTime(request.startTime, request.duration);
+  const windowStart = new Date(
+    request.startTime.getTime() -
+      (MAX_BOOKING_DURATION_MINUTES + bufferMinutes) * 60 * 1000,
+  );
+
+  const confirmedSnapshot = await transaction.get(
+    db
+      .collection(BOOKING_COLLECTIONS.confirmed)
+      .where("artistId", "==", request.artistId)
+      .where("appointmentDate", ">", windowStart)
+      .where("appointmentDate", "<", getBookingEndTime(endTime, bufferMinutes)),
+  );
+  // Project sessions only exist as busy slots
+  const busySnapshot = await transaction.get(
+    db
+      .collection(AVAILABILITY_COLLECTIONS.busySlots)
+      .where("artistId", "==", request.artistId)
+      .where("startTime", ">", windowStart)
+      .where("startTime", "<", getBookingEndTime(endTime, bufferMinutes)),
+  );
+  const schedules = await getSchedulesAround(
+    transaction,
+    request.artistId,
+    request.startTime,
+    endTime,
+  );
+
+  const confirmedBookings = confirmedSnapshot.docs.map((doc) => {
+    const data = doc.data();
+    return {
+      id: doc.id,
+      bookingRequestId: data.bookingRequestId,
+      appointmentDate: data.appointmentDate.toDate(),
+      duration: data.duration,
+      status: data.status,
+    };
+  });
+  const busyReservations = busySnapshot.docs
+    .filter(
+      (doc) => !confirmedBookings.some((booking) => booking.id === doc.id),
+    )
+    .map((doc) => {
+      const data = doc.data();
+      const startTime: Date = data.startTime.toDate();
+      return {
+        id: doc.id,
+        appointmentDate: startTime,
+        duration:
+          (data.endTime.toDate().getTime() - startTime.getTime()) / 60000,
+        status: "confirmed",
+      };
+    });
+
+  const conflicts = findBookingSlotConflicts(
+    request,
+    [...confirmedBookings, ...busyReservations],
+    schedules.flatMap((schedule) => schedule.timeSlots),
+    bufferMinutes,
+  );
+
+  // Artists without a weekly template are bookable wherever their
+  // artistSchedules allow
+  if (
+    template &&
+    !isWithinWorkingHours(
+      { weeklyHours: template.weeklyHours || {} },
+      exceptionDoc?.exists
+        ? [exceptionDoc.data() as AvailabilityException]
+        : [],
+      request.startTime,
+      request.duration,
+    )
+  ) {
+    conflicts.push({
+      type: "outside_working_hours",
+      startTime: request.startTime,
+      endTime,
+    });
+  }
+
+  if (conflicts.length > 0) {
+    throw new functions.https.HttpsError(
+      BOOKING_SLOT_CONFLICT_CODE,
+      "The requested time slot is no longer available",
+      {
+        conflicts: conflicts.map((conflict) => ({
+          ...conflict,
+          startTime: conflict.startTime.toISOString(),
+          endTime: conflict.endTime.toISOString(),
+        })),
+      },
+    );
+  }
+
+  return schedules.map(({ ref, timeSlots }) => ({
+    ref,
+    timeSlots: reserveTimeSlots(
+      releaseTimeSlots(timeSlots, request.bookingId),
+      request,
+    ),
+  }));
+}
+
+/**
+ * Slot updates that free everything held by a booking around its start time
+ */
+export async function releaseBookingSlot(
+  transaction: admin.firestore.Transaction,
+  request: { bookingId: string; artistId: string; startTime: Date },
+): Promise<ScheduleSlotsWrite[]> {
+  const schedules = await getSchedulesAround(
+    transaction,
+    request.artistId,
+    request.startTime,
+    request.startTime,
+  );
+
+  return schedules
+    .filter(({ timeSlots }) =>
+      timeSlots.some((slot) => slot.bookingId === request.bookingId),
+    )
+    .map(({ ref, timeSlots }) => ({
+      ref,
+      timeSlots: releaseTimeSlots(timeSlots, request.bookingId),
+    }));
+}
+
+/**
+ * Slot updates that free several reservations of one artist. Releases that
+ * touch the same schedule document are applied on top of each other.
+ */
+export async function releaseBookingSlots(
+  transaction: admin.firestore.Transaction,
+  artistId: string,
+  reservations: { bookingId: string; startTime: Date }[],
+): Promise<ScheduleSlotsWrite[]> {
+  const byPath = new Map<string, ScheduleSlotsWrite>();
+
+  for (const reservation of reservations) {
+    const writes = await releaseBookingSlot(transaction, {
+      ...reservation,
+      artistId,
+    });
+
+    writes.forEach((write) => {
+      const previous = byPath.get(write.ref.path);
+      byPath.set(
+        write.ref.path,
+        previous
+          ? {
+              ref: write.ref,
+              timeSlots: releaseTimeSlots(
+                previous.timeSlots,
+                reservation.bookingId,
+              ),
+            }
+          : write,
+      );
+    });
+  }
+
+  return Array.from(byPath.values());
+}
+
+/**
+ * Later writes to the same schedule document win (reserve already applies the
+ * release for its own documents)
+ */
+export function mergeScheduleWrites(
+  ...writeLists: ScheduleSlotsWrite[][]
+): ScheduleSlotsWrite[] {
+  const byPath = new Map<string, ScheduleSlotsWrite>();
+  writeLists.flat().forEach((write) => byPath.set(write.ref.path, write));
+  return Array.from(byPath.values());
+}
+
+/**
+ * Artist schedule days that may contain slots between startTime and endTime.
+ * Schedule `date` is the artist's local midnight, so a day of padding is read
+ * on both sides instead of assuming a timezone.
+ */
+async function getSchedulesAround(
+  transaction: admin.firestore.Transaction,
+  artistId: string,
+  startTime: Date,
+  endTime: Date,
+): Promise<ScheduleSlotsWrite[]> {
+  const snapshot = await transaction.get(
+    db
+      .collection(ARTIST_SCHEDULES_COLLECTION)
+      .where("artistId", "==", artistId)
+      .where("date", ">=", new Date(startTime.getTime() - DAY_MS))
+      .where("date", "<=", new Date(endTime.getTime() + DAY_MS)),
+  );
+
+  return snapshot.docs.map((doc) => ({
+    ref: doc.ref,
+    timeSlots: (doc.data().timeSlots || []).map(
+      (slot: admin.firestore.DocumentData) => ({
+        ...slot,
+        startTime: slot.startTime.toDate(),
+        endTime: slot.endTime.toDate(),
+      }),
+    ),
+  }));
+}
+
+/**
+ * Open sessions of a project whose booking is being closed, and the
+ * reservations of the scheduled ones
+ */
+async function getProjectClosure(
+  transaction: admin.firestore.Transaction,
+  projectId: string,
+): Promise<{
+  projectRef: admin.firestore.DocumentReference;
+  sessionRefs: admin.firestore.DocumentReference[];
+  scheduledSessions: { bookingId: string; startTime: Date }[];
+} | null> {
+  const projectRef = db.collection(PROJECT_COLLECTIONS.projects).doc(projectId);
+  const projectDoc = await transaction.get(projectRef);
+
+  if (!projectDoc.exists) {
+    return null;
+  }
+
+  const sessionsSnapshot = await transaction.get(
+    projectRef.collection(PROJECT_COLLECTIONS.sessions),
+  );
+  const openSessions = sessionsSnapshot.docs.filter((doc) =>
+    canUpdateProjectSession(doc.data().status, "cancel_session"),
+  );
+
+  return {
+    projectRef,
+    sessionRefs: openSessions.map((doc) => doc.ref),
+    scheduledSessions: openSessions
+      .filter((doc) => doc.data().scheduledDate)
+      .map((doc) => ({
+        bookingId: getProjectSessionReservationId(projectId, doc.id),
+        startTime: doc.data().scheduledDate.toDate(),
+      })),
+  };
+}
+
+/**
+ * Rewrite legacy booking documents into the shared booking schema
+ * (admin only, safe to run repeatedly)
+ */
+export const migrateLegacyBookings = functions.https.onCall(
+  async (data, context) => {
+    if (!context.auth?.token.admin) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "Admin privileges required",
+      );
+    }
+
+    const dryRun = data?.dryRun === true;
+
+    // Documents whose status is unknown are left untouched for manual review
+    const unknownStatusPaths: string[] = [];
+
+    try {
+      const legacyMoved = await moveLegacyBookings(dryRun, unknownStatusPaths);
+      const requestsUpdated = await migrateCollection(
+        BOOKING_COLLECTIONS.requests,
+        "request",
+        dryRun,
+        unknownStatusPaths,
+      );
+      const confirmedUpdated = await migrateCollection(
+        BOOKING_COLLECTIONS.confirmed,
+        "confirmed",
+        dryRun,
+        unknownStatusPaths,
+      );
+
+      console.log("✅ Legacy booking migration completed:", {
+        dryRun,
+        legacyMoved,
+        requestsUpdated,
+        confirmedUpdated,
+        unknownStatusPaths,
+      });
+
+      return {
+        success: true,
+        dryRun,
+        legacyMoved,
+        requestsUpdated,
+        confirmedUpdated,
+        unknownStatusPaths,
+      };
+    } catch (error) {
+      console.error("Error migrating legacy bookings:", error);
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to migrate legacy bookings",
+      );
+    }
+  },
+);
+
+/**
+ * Copy documents from the legacy `bookings` collection into bookingRequests
+ */
+async function moveLegacyBookings(
+  dryRun: boolean,
+  unknownStatusPaths: string[],
+): Promise<number> {
+  const legacySnapshot = await db.collection(BOOKING_COLLECTIONS.legacy).get();
+
+  let moved = 0;
+  let batch = db.batch();
+  let pendingWrites = 0;
+
+  for (const doc of legacySnapshot.docs) {
+    const targetRef = db.collection(BOOKING_COLLECTIONS.requests).doc(doc.id);
+    const targetDoc = await targetRef.get();
+
+    if (targetDoc.exists) {
+      continue;
+    }
+
+    const legacyData = doc.data();
+    const updates = migrateLegacyBookingData(legacyData, "request");
+
+    if (!updates) {
+      unknownStatusPaths.push(doc.ref.path);
+      continue;
+    }
+
+    moved++;
+
+    if (dryRun) {
+      continue;
+    }
+
+    batch.set(targetRef, {
+      ...legacyData,
+      ...updates,
+      migratedFrom: BOOKING_COLLECTIONS.legacy,
+      migratedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    pendingWrites++;
+
+    if (pendingWrites >= MIGRATION_BATCH_SIZE) {
+      await batch.commit();
+      batch = db.batch();
+      pendingWrites = 0;
+    }
+  }
+
+  if (pendingWrites > 0) {
+    await batch.commit();
+  }
+
+  return moved;
+}
+
+/**
+ * Normalize status / roomId / schemaVersion of every document in a collection
+ */
+async function migrateCollection(
+  collectionName: string,
+  kind: "request" | "confirmed",
+  dryRun: boolean,
+  unknownStatusPaths: string[],
+): Promise<number> {
+  const snapshot = await db.collection(collectionName).get();
+
+  let updated = 0;
+  let batch = db.batch();
+  let pendingWrites = 0;
+
+  for (const doc of snapshot.docs) {
+    const updates = migrateLegacyBookingData(doc.data(), kind);
+
+    if (!updates) {
+      unknownStatusPaths.push(doc.ref.path);
+      continue;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      continue;
+    }
+
+    updated++;
+
+    if (dryRun) {
+      continue;
+    }
+
+    batch.update(doc.ref, updates);
+    pendingWrites++;
+
+    if (pendingWrites >= MIGRATION_BATCH_SIZE) {
+      await batch.commit();
+      batch = db.batch();
+      pendingWrites = 0;
+    }
+  }
+
+  if (pendingWrites > 0) {
+    await batch.commit();
+  }
+
+  return updated;
+}
+
+/**
+ * Participant role for reschedule callables (throws for non-participants)
+ */
+function getRescheduleActorRole(
+  booking: admin.firestore.DocumentData,
+  userId: string,
+  isAdmin: boolean,
+): BookingActorRole {
+  const actorRole: BookingActorRole | null = isAdmin
+    ? "system"
+    : getBookingActorRole(
+        { customerId: booking.customerId, artistId: booking.artistId },
+        userId,
+      );
+
+  if (!actorRole) {
+    throw new functions.https.HttpsError(
+      "permission-denied",
+      "Only booking participants can reschedule a booking",
+    );
+  }
+
+  return actorRole;
+}
+
+function isValidConfirmation(
+  confirmation: TransitionBookingData["confirmation"],
+): boolean {
+  return (
+    !!confirmation &&
+    typeof confirmation.confirmedDate === "string" &&
+    !isNaN(new Date(confirmation.confirmedDate).getTime())
+  );
+}
+
+function isValidResponse(
+  response: NonNullable<TransitionBookingData["response"]>,
+): boolean {
+  const isDate = (value: unknown) =>
+    typeof value === "string" && !isNaN(new Date(value).getTime());
+
+  return (
+    ["counter_offer", "accept", "decline", "request_info"].includes(
+      response.responseType,
+    ) &&
+    (response.proposedDate === undefined || isDate(response.proposedDate)) &&
+    (response.proposedDates === undefined ||
+      (Array.isArray(response.proposedDates) &&
+        response.proposedDates.length <= MAX_PROPOSED_SLOTS &&
+        response.proposedDates.every(isDate))) &&
+    (response.proposedPrice === undefined ||
+      (typeof response.proposedPrice === "number" &&
+        isFinite(response.proposedPrice) &&
+        response.proposedPrice >= 0)) &&
+    (response.proposedDuration === undefined ||
+      (typeof response.proposedDuration === "number" &&
+        response.proposedDuration > 0 &&
+        response.proposedDuration <= MAX_BOOKING_DURATION_MINUTES))
+  );
+}
+
+/**
+ * Price and duration from the artist's latest quote. Customers may only
+ * confirm a start time the artist proposed with it; the artist may pick any
+ * time (the slot is still checked against the schedule).
+ */
+function getConfirmedTerms(
+  booking: admin.firestore.DocumentData,
+  confirmation: NonNullable<TransitionBookingData["confirmation"]>,
+  actorRole: BookingActorRole,
+): { startTime: Date; price: number; duration: number } {
+  const terms = getQuotedBookingTerms({
+    artistId: booking.artistId,
+    responses: (booking.responses || []).map(
+      (response: admin.firestore.DocumentData) => ({
+        responderId: response.responderId,
+        proposedPrice: response.proposedPrice,
+        proposedDuration: response.proposedDuration,
+        proposedDate: response.proposedDate?.toDate(),
+        proposedDates: (response.proposedDates || []).map(
+          (date: admin.firestore.Timestamp) => date.toDate(),
+        ),
+        createdAt: response.createdAt?.toDate() || new Date(0),
+      }),
+    ),
+  });
+
+  if (!terms) {
+    throw new functions.https.HttpsError(
+      "failed-precondition",
+      "The artist has not quoted a price and duration for this booking",
+    );
+  }
+
+  const startTime = new Date(confirmation.confirmedDate);
+
+  if (
+    actorRole === "customer" &&
+    !terms.proposedDates.some((date) => date.getTime() === startTime.getTime())
+  ) {
+    throw new functions.https.HttpsError(
+      "failed-precondition",
+      "Customers can only confirm a time the artist proposed",
+    );
+  }
+
+  return { startTime, price: terms.price, duration: terms.duration };
+}
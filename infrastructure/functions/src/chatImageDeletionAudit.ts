@@ -5,6 +5,7 @@
 
 import * as functions from "firebase-functions";
 import * as admin from "firebase-admin";
+import { BOOKING_COLLECTIONS } from "@tattoo-journey/shared";
 
 // Firestore and Storage admin instances
 const db = admin.firestore();
@@ -37,7 +38,8 @@ export interface SecurityAlert {
     | "mass_deletion"
     | "suspicious_deletion_pattern"
     | "unauthorized_admin_claim"
-    | "rapid_sequential_deletion";
+    | "rapid_sequential_deletion"
+    | "audit_system_failure";
   userId: string;
   timestamp: number;
   severity: "low" | "medium" | "high" | "critical";
@@ -55,7 +57,6 @@ export const auditChatImageDeletion = functions.storage
   .object()
   .onDelete(async (object) => {
     const filePath = object.name!;
-    const bucket = object.bucket;
 
     // チャット画像パスのパターンマッチング
     const chatImagePattern = /^chat\/([^\/]+)\/images\/(.+)$/;
@@ -187,7 +188,7 @@ async function isImportantImage(
   try {
     // 1. 予約関連画像かチェック
     const activeBookingQuery = await db
-      .collection("activeBookings")
+      .collection(BOOKING_COLLECTIONS.activeIndex)
       .where("roomId", "==", roomId)
       .get();
 
@@ -226,7 +227,6 @@ async function isImportantImage(
  */
 async function createImageBackup(object: any, auditLog: DeletionAuditLog) {
   try {
-    const bucket = storage.bucket(object.bucket);
     const fileName = object.name!;
     const backupPath = `backups/deleted/${Date.now()}_${fileName.replace(/\//g, "_")}`;
 
@@ -467,7 +467,7 @@ async function processImageRestoration(
 
     await db.doc(`imageRestorations/${restorationId}`).update({
       status: "failed",
-      error: error.toString(),
+      error: String(error),
     });
   }
 }
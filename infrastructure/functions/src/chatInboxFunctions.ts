@@ -0,0 +1,176 @@
+/**
+ * Chat Inbox Functions - Tattoo Journey 2.0
+ * Maintain each user's inbox entries and unread total in the Realtime
+ * Database, so clients never scan the chatRooms node, and migrate legacy
+ * rooms to the current participants schema
+ */
+
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {
+  CHAT_PATHS,
+  ChatMessage,
+  ChatRoom,
+  getChatInboxUpdates,
+  getChatParticipantIds,
+  toChatParticipants,
+} from "@tattoo-journey/shared";
+
+// Rooms read per page by the participants migration
+const MIGRATION_PAGE_SIZE = 500;
+
+/**
+ * Apply each new message to the room summary and both participants' inboxes
+ * (the receiver's unread count is incremented atomically)
+ */
+export const updateChatInboxOnMessage = functions.database
+  .ref(`/${CHAT_PATHS.messages}/{roomId}/{messageId}`)
+  .onCreate(async (snapshot, context) => {
+    const roomId = context.params.roomId;
+    const message = snapshot.val() as ChatMessage;
+
+    try {
+      const roomSnapshot = await admin
+        .database()
+        .ref(`/${CHAT_PATHS.rooms}/${roomId}`)
+        .once("value");
+      const room = roomSnapshot.val() as ChatRoom | null;
+
+      if (!room) return;
+
+      await admin
+        .database()
+        .ref()
+        .update(
+          getChatInboxUpdates(
+            { ...room, id: roomId },
+            message,
+            admin.database.ServerValue.increment(1),
+          ),
+        );
+    } catch (error) {
+      console.error("Error updating chat inbox:", roomId, error);
+    }
+  });
+
+/**
+ * Keep the unread total equal to the sum of the user's inbox counts by
+ * applying every change of an entry's count as a delta
+ */
+export const syncChatUnreadTotal = functions.database
+  .ref(`/${CHAT_PATHS.inbox}/{userId}/{roomId}/unreadCount`)
+  .onWrite(async (change, context) => {
+    const delta =
+      ((change.after.val() as number | null) || 0) -
+      ((change.before.val() as number | null) || 0);
+
+    if (delta === 0) return;
+
+    try {
+      await admin
+        .database()
+        .ref(`/${CHAT_PATHS.unreadTotals}/${context.params.userId}`)
+        .set(admin.database.ServerValue.increment(delta));
+    } catch (error) {
+      console.error(
+        "Error syncing chat unread total:",
+        context.params.userId,
+        error,
+      );
+    }
+  });
+
+/**
+ * Remove a deleted room from its participants' inboxes (their unread totals
+ * follow through syncChatUnreadTotal)
+ */
+export const removeChatInboxEntries = functions.database
+  .ref(`/${CHAT_PATHS.rooms}/{roomId}`)
+  .onDelete(async (snapshot, context) => {
+    const roomId = context.params.roomId;
+    const room = snapshot.val() as ChatRoom;
+    const updates: Record<string, null> = {};
+
+    getChatParticipantIds(room.participants).forEach((userId) => {
+      updates[`${CHAT_PATHS.inbox}/${userId}/${roomId}`] = null;
+    });
+
+    try {
+      await admin.database().ref().update(updates);
+    } catch (error) {
+      console.error("Error removing chat inbox entries:", roomId, error);
+    }
+  });
+
+/**
+ * Rewrite rooms that list their participants as an array ({0: uid, 1: uid})
+ * into the `participants/{uid}: true` map the database rules check (admin
+ * only). The rules accept both forms until this has run.
+ */
+export const migrateChatRoomParticipants = functions.https.onCall(
+  async (data, context) => {
+    if (!context.auth?.token.admin) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "Admin privileges required",
+      );
+    }
+
+    const dryRun = data?.dryRun === true;
+    const roomsRef = admin.database().ref(`/${CHAT_PATHS.rooms}`);
+
+    try {
+      let lastKey: string | null = null;
+      let scanned = 0;
+      let migrated = 0;
+
+      for (;;) {
+        const query: admin.database.Query =
+          lastKey === null
+            ? roomsRef.orderByKey()
+            : roomsRef.orderByKey().startAfter(lastKey);
+        const page = await query
+          .limitToFirst(MIGRATION_PAGE_SIZE)
+          .once("value");
+        const updates: Record<string, Record<string, true>> = {};
+
+        page.forEach((roomSnapshot) => {
+          lastKey = roomSnapshot.key;
+          const participants = roomSnapshot.child("participants").val();
+
+          if (Array.isArray(participants)) {
+            updates[`/${CHAT_PATHS.rooms}/${roomSnapshot.key}/participants`] =
+              toChatParticipants(
+                participants.filter(
+                  (userId): userId is string => typeof userId === "string",
+                ),
+              );
+          }
+        });
+
+        scanned += page.numChildren();
+        migrated += Object.keys(updates).length;
+
+        if (!dryRun && Object.keys(updates).length > 0) {
+          await admin.database().ref().update(updates);
+        }
+
+        if (page.numChildren() < MIGRATION_PAGE_SIZE) break;
+      }
+
+      console.log("✅ Chat room participants migration completed:", {
+        dryRun,
+        scanned,
+        migrated,
+      });
+
+      return { success: true, dryRun, scanned, migrated };
+    } catch (error) {
+      console.error("Error migrating chat room participants:", error);
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to migrate chat room participants",
+      );
+    }
+  },
+);
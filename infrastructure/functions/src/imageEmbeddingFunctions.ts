@@ -0,0 +1,252 @@
+/**
+ * Image Embedding Functions - Tattoo Journey 2.0
+ * Embed portfolio images with the active embedding backend and serve
+ * "find work that looks like this" searches over them
+ */
+
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import sharp from "sharp";
+import {
+  DEFAULT_VISUAL_SEARCH_LIMIT,
+  DESCRIPTOR_IMAGE_SIZE,
+  ImageEmbedding,
+  ImageEmbeddingProvider,
+  MAX_VISUAL_SEARCH_CANDIDATES,
+  MAX_VISUAL_SEARCH_LIMIT,
+  PIXEL_DESCRIPTOR_MODEL_ID,
+  computeImageDescriptor,
+  findVisualNeighbors,
+} from "@tattoo-journey/shared";
+
+const db = admin.firestore();
+const storage = admin.storage();
+
+// Portfolio items embedded per backfill call
+const EMBEDDING_BACKFILL_BATCH = 200;
+
+interface FindSimilarPortfolioItemsData {
+  storagePath: string; // customer-uploads/{uid}/...
+  limit?: number;
+}
+
+/**
+ * Built-in backend: pixel descriptor over the decoded image, CPU only
+ */
+class PixelDescriptorProvider implements ImageEmbeddingProvider {
+  readonly modelId = PIXEL_DESCRIPTOR_MODEL_ID;
+
+  async embed(image: Uint8Array): Promise<number[]> {
+    const { data, info } = await sharp(image)
+      .resize(DESCRIPTOR_IMAGE_SIZE, DESCRIPTOR_IMAGE_SIZE, { fit: "fill" })
+      .removeAlpha()
+      .toColourspace("srgb")
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    return computeImageDescriptor({
+      width: info.width,
+      height: info.height,
+      data: new Uint8Array(data),
+    });
+  }
+}
+
+const embeddingProviders = new Map<string, ImageEmbeddingProvider>();
+let activeModelId = PIXEL_DESCRIPTOR_MODEL_ID;
+
+/**
+ * Register an embedding backend. Only the active one embeds and searches;
+ * after switching, run backfillPortfolioEmbeddings so the portfolio is
+ * comparable again.
+ */
+export function registerImageEmbeddingProvider(
+  provider: ImageEmbeddingProvider,
+  isActive = false,
+): void {
+  embeddingProviders.set(provider.modelId, provider);
+  if (isActive) {
+    activeModelId = provider.modelId;
+  }
+}
+
+registerImageEmbeddingProvider(new PixelDescriptorProvider(), true);
+
+/**
+ * Embed portfolio images when an item is created or its image changes. The
+ * embedding write triggers this again, which is then a no-op.
+ */
+export const embedPortfolioItem = functions.firestore
+  .document("portfolioItems/{itemId}")
+  .onWrite(async (change) => {
+    if (!change.after.exists) return;
+
+    const before = change.before.data();
+    const after = change.after.data()!;
+
+    const isCurrent =
+      after.embedding?.modelId === activeModelId &&
+      before?.imageUrl === after.imageUrl;
+
+    if (isCurrent || !after.imageUrl) return;
+
+    try {
+      await change.after.ref.update({
+        embedding: await embedImageUrl(after.imageUrl),
+      });
+    } catch (error) {
+      console.error("Error embedding portfolio item:", change.after.id, error);
+    }
+  });
+
+/**
+ * Embed portfolio items that have no embedding from the active model
+ * (admin only). Call repeatedly until `remaining` is false.
+ */
+export const backfillPortfolioEmbeddings = functions.https.onCall(
+  async (data, context) => {
+    if (!context.auth?.token.admin) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "Admin privileges required",
+      );
+    }
+
+    try {
+      const snapshot = await db
+        .collection("portfolioItems")
+        .select("imageUrl", "embedding.modelId")
+        .get();
+      const stale = snapshot.docs.filter(
+        (doc) =>
+          doc.data().imageUrl &&
+          doc.data().embedding?.modelId !== activeModelId,
+      );
+
+      let embedded = 0;
+      for (const doc of stale.slice(0, EMBEDDING_BACKFILL_BATCH)) {
+        try {
+          await doc.ref.update({
+            embedding: await embedImageUrl(doc.data().imageUrl),
+          });
+          embedded++;
+        } catch (error) {
+          console.error("Error embedding portfolio item:", doc.id, error);
+        }
+      }
+
+      console.log("✅ Portfolio embeddings backfilled:", embedded);
+
+      return {
+        success: true,
+        modelId: activeModelId,
+        embedded,
+        remaining: stale.length > EMBEDDING_BACKFILL_BATCH,
+      };
+    } catch (error) {
+      console.error("Error backfilling portfolio embeddings:", error);
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to backfill portfolio embeddings",
+      );
+    }
+  },
+);
+
+/**
+ * Portfolio items that look most like the customer's uploaded image. The
+ * image's embedding is returned too, so it can be sent with the matching
+ * criteria.
+ */
+export const findSimilarPortfolioItems = functions.https.onCall(
+  async (data: FindSimilarPortfolioItemsData, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "User must be authenticated",
+      );
+    }
+
+    // Only the caller's own uploads, read straight from the bucket
+    if (
+      typeof data?.storagePath !== "string" ||
+      !data.storagePath.startsWith(`customer-uploads/${context.auth.uid}/`)
+    ) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Storage path of one of your uploads is required",
+      );
+    }
+
+    const limit = Math.min(
+      Math.max(Math.floor(data.limit || DEFAULT_VISUAL_SEARCH_LIMIT), 1),
+      MAX_VISUAL_SEARCH_LIMIT,
+    );
+
+    try {
+      const [image] = await storage.bucket().file(data.storagePath).download();
+      const embedding: ImageEmbedding = {
+        modelId: activeModelId,
+        vector: await getActiveProvider().embed(image),
+      };
+
+      const candidatesSnapshot = await db
+        .collection("portfolioItems")
+        .where("embedding.modelId", "==", activeModelId)
+        .select("artistId", "imageUrl", "title", "style", "embedding")
+        .limit(MAX_VISUAL_SEARCH_CANDIDATES)
+        .get();
+
+      const neighbors = findVisualNeighbors(
+        embedding,
+        candidatesSnapshot.docs.map((doc) => ({
+          id: doc.id,
+          artistId: doc.data().artistId,
+          imageUrl: doc.data().imageUrl,
+          title: doc.data().title || "",
+          style: doc.data().style || null,
+          embedding: doc.data().embedding as ImageEmbedding,
+        })),
+        limit,
+      );
+
+      return {
+        success: true,
+        embedding,
+        items: neighbors.map(({ item, similarity }) => ({
+          id: item.id,
+          artistId: item.artistId,
+          imageUrl: item.imageUrl,
+          title: item.title,
+          style: item.style,
+          similarity,
+        })),
+      };
+    } catch (error) {
+      console.error("Visual search error:", error);
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to search similar portfolio items",
+      );
+    }
+  },
+);
+
+function getActiveProvider(): ImageEmbeddingProvider {
+  return embeddingProviders.get(activeModelId)!;
+}
+
+async function embedImageUrl(imageUrl: string): Promise<ImageEmbedding> {
+  const response = await fetch(imageUrl);
+
+  if (!response.ok) {
+    throw new Error(`Image download failed: ${response.status}`);
+  }
+
+  return {
+    modelId: activeModelId,
+    vector: await getActiveProvider().embed(
+      new Uint8Array(await response.arrayBuffer()),
+    ),
+  };
+}
@@ -3,10 +3,8 @@
  * Main exports for all cloud functions
  */
 
-import * as admin from "firebase-admin";
-
-// Initialize Firebase Admin SDK
-admin.initializeApp();
+// Initialize Firebase Admin SDK (must stay the first import)
+import "./initializeAdmin";
 
 // ✅ Import and export all function modules
 export {
@@ -18,15 +16,83 @@ export { advancedEmailValidation } from "./authFunctions";
 
 export {
   processImageAnalysis,
-  generateAIMatching,
+  findMatchingArtists,
 } from "./aiMatchingFunctions";
 
+export { getAnalysisCacheStats } from "./analysisCacheFunctions";
+
+export {
+  learnFromTagCorrection,
+  aggregateGlobalTagWeights,
+  getTagAcceptanceStats,
+} from "./tagLearningFunctions";
+
 export {
   sendBookingNotification,
   sendChatNotification,
 } from "./notificationFunctions";
 
-export { generateMatchingScore, updateArtistScore } from "./scoringFunctions";
+export {
+  updateChatInboxOnMessage,
+  syncChatUnreadTotal,
+  removeChatInboxEntries,
+  migrateChatRoomParticipants,
+} from "./chatInboxFunctions";
+
+export { updateArtistScore } from "./scoringFunctions";
+
+export {
+  syncActiveBookingIndex,
+  transitionBooking,
+  requestBookingReschedule,
+  respondToBookingReschedule,
+  migrateLegacyBookings,
+} from "./bookingFunctions";
+
+export { createBookingProject, updateBookingProject } from "./projectFunctions";
+
+export {
+  recordBookingPayment,
+  processCancellationRefund,
+} from "./paymentFunctions";
+
+export {
+  scheduleBookingReminders,
+  sendDueReminders,
+} from "./reminderFunctions";
+
+export {
+  offerFreedBusySlot,
+  respondToWaitlistOffer,
+  expireWaitlistOffers,
+  expireWaitlistBookingHolds,
+} from "./waitlistFunctions";
+
+export {
+  syncMatchingProfileOnPortfolio,
+  syncMatchingProfileOnSpecialty,
+  syncMatchingProfileOnReview,
+  syncMatchingProfileOnArtist,
+  rebuildMatchingProfiles,
+} from "./matchingProfileFunctions";
+
+export {
+  saveWeightProfile,
+  setMatchingWeightConfig,
+  evaluateWeightProfile,
+} from "./matchingWeightFunctions";
+
+export {
+  embedPortfolioItem,
+  backfillPortfolioEmbeddings,
+  findSimilarPortfolioItems,
+} from "./imageEmbeddingFunctions";
+
+export {
+  labelMatchingOutcomes,
+  trainMatchingRankModel,
+  setMatchingRankingConfig,
+} from "./rankingFunctions";
 
 // Health check endpoint
 import * as functions from "firebase-functions";
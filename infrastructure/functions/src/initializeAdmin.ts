@@ -0,0 +1,9 @@
+/**
+ * Firebase Admin SDK initialization.
+ * Imported first by index.ts: function modules call admin.firestore() at load
+ * time, and imports are evaluated before the entry point's own statements.
+ */
+
+import * as admin from "firebase-admin";
+
+admin.initializeApp();
@@ -0,0 +1,186 @@
+/**
+ * Matching Profile Functions - Tattoo Journey 2.0
+ * Keep the denormalized per-artist matching profile in sync with the
+ * documents it aggregates
+ */
+
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {
+  MATCHING_PROFILE_COLLECTION,
+  PortfolioItem,
+  buildArtistMatchingProfile,
+} from "@tattoo-journey/shared";
+
+const db = admin.firestore();
+
+// Profile fields the matching service reads from the artist user document
+const PROFILE_USER_FIELDS = ["displayName", "photoURL", "profile", "userType"];
+
+/**
+ * Portfolio items feed the style histogram, color profile, motif set and the
+ * per-item samples
+ */
+export const syncMatchingProfileOnPortfolio = functions.firestore
+  .document("portfolioItems/{itemId}")
+  .onWrite(async (change) => {
+    const artistIds = new Set<string>(
+      [change.before.data()?.artistId, change.after.data()?.artistId].filter(
+        Boolean,
+      ),
+    );
+
+    await Promise.all(
+      [...artistIds].map((artistId) => rebuildMatchingProfile(artistId)),
+    );
+  });
+
+export const syncMatchingProfileOnSpecialty = functions.firestore
+  .document("specialtyStyles/{specialtyId}")
+  .onWrite(async (change) => {
+    const artistId =
+      change.after.data()?.artistId || change.before.data()?.artistId;
+
+    if (artistId) {
+      await rebuildMatchingProfile(artistId);
+    }
+  });
+
+export const syncMatchingProfileOnReview = functions.firestore
+  .document("reviews/{reviewId}")
+  .onWrite(async (change) => {
+    const artistId =
+      change.after.data()?.artistId || change.before.data()?.artistId;
+
+    if (artistId) {
+      await rebuildMatchingProfile(artistId);
+    }
+  });
+
+/**
+ * Pricing, location and profile edits live on the artist user document
+ */
+export const syncMatchingProfileOnArtist = functions.firestore
+  .document("users/{userId}")
+  .onWrite(async (change, context) => {
+    const before = change.before.exists ? change.before.data() : null;
+    const after = change.after.exists ? change.after.data() : null;
+
+    if (!after || after.userType !== "artist") {
+      if (before?.userType === "artist") {
+        await db
+          .collection(MATCHING_PROFILE_COLLECTION)
+          .doc(context.params.userId)
+          .delete();
+      }
+      return;
+    }
+
+    const changed =
+      !before ||
+      PROFILE_USER_FIELDS.some(
+        (field) =>
+          JSON.stringify(before[field]) !== JSON.stringify(after[field]),
+      );
+
+    if (changed) {
+      await rebuildMatchingProfile(context.params.userId);
+    }
+  });
+
+/**
+ * Backfill profiles for every artist (admin only)
+ */
+export const rebuildMatchingProfiles = functions.https.onCall(
+  async (data, context) => {
+    if (!context.auth?.token.admin) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "Admin privileges required",
+      );
+    }
+
+    try {
+      const artistsSnapshot = await db
+        .collection("users")
+        .where("userType", "==", "artist")
+        .get();
+
+      for (const artistDoc of artistsSnapshot.docs) {
+        await rebuildMatchingProfile(artistDoc.id);
+      }
+
+      console.log("✅ Matching profiles rebuilt:", artistsSnapshot.size);
+
+      return { success: true, rebuilt: artistsSnapshot.size };
+    } catch (error) {
+      console.error("Error rebuilding matching profiles:", error);
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to rebuild matching profiles",
+      );
+    }
+  },
+);
+
+/**
+ * Recompute the artist's profile from their user document, portfolio,
+ * active specialties and reviews
+ */
+export async function rebuildMatchingProfile(artistId: string): Promise<void> {
+  const profileRef = db.collection(MATCHING_PROFILE_COLLECTION).doc(artistId);
+
+  try {
+    const [artistDoc, portfolioSnapshot, specialtiesSnapshot, reviewsSnapshot] =
+      await Promise.all([
+        db.collection("users").doc(artistId).get(),
+        db
+          .collection("portfolioItems")
+          .where("artistId", "==", artistId)
+          .orderBy("createdAt", "desc")
+          .get(),
+        db
+          .collection("specialtyStyles")
+          .where("artistId", "==", artistId)
+          .where("isActive", "==", true)
+          .get(),
+        db
+          .collection("reviews")
+          .where("artistId", "==", artistId)
+          .orderBy("createdAt", "desc")
+          .get(),
+      ]);
+
+    const artist = artistDoc.data();
+
+    if (!artist || artist.userType !== "artist") {
+      await profileRef.delete();
+      return;
+    }
+
+    const profile = buildArtistMatchingProfile({
+      artistId,
+      artist,
+      portfolio: portfolioSnapshot.docs.map(
+        (doc) => ({ id: doc.id, ...doc.data() }) as PortfolioItem,
+      ),
+      specialties: specialtiesSnapshot.docs.map((doc) => ({
+        styleName: doc.data().styleName,
+        proficiencyLevel: doc.data().proficiencyLevel || 1,
+        experienceYears: doc.data().experienceYears || 0,
+      })),
+      reviews: reviewsSnapshot.docs.map((doc) => ({
+        id: doc.id,
+        overallRating: doc.data().overallRating,
+        comment: doc.data().comment,
+      })),
+    });
+
+    await profileRef.set({
+      ...profile,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  } catch (error) {
+    console.error("Error rebuilding matching profile:", artistId, error);
+  }
+}
@@ -0,0 +1,367 @@
+/**
+ * Matching Weight Functions - Tattoo Journey 2.0
+ * Versioned weight profiles, experiment cohorts and offline evaluation of
+ * candidate profiles against recorded searches
+ */
+
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {
+  BOOKING_ATTRIBUTION_DAYS,
+  BOOKING_COLLECTIONS,
+  DEFAULT_WEIGHT_CONFIG,
+  DEFAULT_WEIGHT_PROFILE,
+  MATCHING_WEIGHT_COLLECTIONS,
+  MATCHING_WEIGHT_CONFIG_ID,
+  MatchingReplayCase,
+  MatchingWeightConfig,
+  MatchingWeightProfile,
+  assignMatchingCohort,
+  evaluateMatchingReplay,
+  getWeightProfileDocId,
+  isValidWeightConfig,
+  isValidWeightProfile,
+  parseBookingStatus,
+} from "@tattoo-journey/shared";
+
+const db = admin.firestore();
+
+const MAX_EVALUATION_SEARCHES = 1000;
+
+export interface ResolvedWeightProfile {
+  weightProfile: MatchingWeightProfile;
+  experimentId: string | null;
+}
+
+/**
+ * Save a new version of a weight profile (admin only). Existing versions are
+ * never overwritten.
+ */
+export const saveWeightProfile = functions.https.onCall(
+  async (data, context) => {
+    if (!context.auth?.token.admin) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "Admin privileges required",
+      );
+    }
+
+    const profileId = data?.id;
+
+    try {
+      const profile = await db.runTransaction(async (transaction) => {
+        const latestSnapshot = await transaction.get(
+          db
+            .collection(MATCHING_WEIGHT_COLLECTIONS.profiles)
+            .where("id", "==", profileId)
+            .orderBy("version", "desc")
+            .limit(1),
+        );
+
+        const candidate = {
+          id: profileId,
+          version: latestSnapshot.empty
+            ? 1
+            : latestSnapshot.docs[0].data().version + 1,
+          weights: data?.weights,
+          minMatchScore: data?.minMatchScore,
+          ...(typeof data?.description === "string" && {
+            description: data.description,
+          }),
+        };
+
+        if (!isValidWeightProfile(candidate)) {
+          throw new functions.https.HttpsError(
+            "invalid-argument",
+            "Weights must be non-negative and sum to 1, with a cutoff in [0, 1)",
+          );
+        }
+
+        transaction.create(
+          db
+            .collection(MATCHING_WEIGHT_COLLECTIONS.profiles)
+            .doc(getWeightProfileDocId(candidate.id, candidate.version)),
+          {
+            ...candidate,
+            createdBy: context.auth!.uid,
+            createdAt: admin.firestore.FieldValue.serverTimestamp(),
+          },
+        );
+
+        return candidate;
+      });
+
+      return {
+        success: true,
+        weightProfileId: getWeightProfileDocId(profile.id, profile.version),
+        version: profile.version,
+      };
+    } catch (error) {
+      if (error instanceof functions.https.HttpsError) throw error;
+
+      console.error("Error saving weight profile:", error);
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to save weight profile",
+      );
+    }
+  },
+);
+
+/**
+ * Replace the default profile and experiment cohorts (admin only)
+ */
+export const setMatchingWeightConfig = functions.https.onCall(
+  async (data, context) => {
+    if (!context.auth?.token.admin) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "Admin privileges required",
+      );
+    }
+
+    const config = data?.config;
+
+    if (!isValidWeightConfig(config)) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Experiments need unique ids and traffic shares totalling at most 1",
+      );
+    }
+
+    const profileIds = [
+      config.defaultWeightProfileId,
+      ...config.experiments.map((experiment) => experiment.weightProfileId),
+    ];
+    const profiles = await Promise.all(profileIds.map(loadWeightProfile));
+    const missing = profileIds.filter((_, i) => !profiles[i]);
+
+    if (missing.length > 0) {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        `Unknown weight profiles: ${missing.join(", ")}`,
+      );
+    }
+
+    await db
+      .collection(MATCHING_WEIGHT_COLLECTIONS.config)
+      .doc(MATCHING_WEIGHT_CONFIG_ID)
+      .set({
+        defaultWeightProfileId: config.defaultWeightProfileId,
+        experiments: config.experiments.map(
+          ({ id, weightProfileId, trafficShare }) => ({
+            id,
+            weightProfileId,
+            trafficShare,
+          }),
+        ),
+        updatedBy: context.auth.uid,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+    console.log("✅ Matching weight config updated:", profileIds);
+
+    return { success: true };
+  },
+);
+
+/**
+ * Replay recorded searches that ended in a booking against a candidate
+ * profile (saved or inline) and the current default profile (admin only)
+ */
+export const evaluateWeightProfile = functions.https.onCall(
+  async (data, context) => {
+    if (!context.auth?.token.admin) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "Admin privileges required",
+      );
+    }
+
+    let candidate: MatchingWeightProfile | null = null;
+
+    if (data?.weightProfile) {
+      if (!isValidWeightProfile(data.weightProfile)) {
+        throw new functions.https.HttpsError(
+          "invalid-argument",
+          "Invalid weight profile",
+        );
+      }
+      candidate = data.weightProfile;
+    } else if (typeof data?.weightProfileId === "string") {
+      candidate = await loadWeightProfile(data.weightProfileId);
+    }
+
+    if (!candidate) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "A weight profile or an existing weightProfileId is required",
+      );
+    }
+
+    const since = data?.since ? new Date(data.since) : null;
+    if (since && isNaN(since.getTime())) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "since must be an ISO date",
+      );
+    }
+
+    try {
+      const config = await loadWeightConfig();
+      const baseline =
+        (await loadWeightProfile(config.defaultWeightProfileId)) ||
+        DEFAULT_WEIGHT_PROFILE;
+      const cases = await loadReplayCases(since);
+
+      return {
+        success: true,
+        candidate: evaluateMatchingReplay(cases, candidate),
+        baseline: evaluateMatchingReplay(cases, baseline),
+      };
+    } catch (error) {
+      console.error("Error evaluating weight profile:", error);
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to evaluate weight profile",
+      );
+    }
+  },
+);
+
+/**
+ * Profile for a search: the requested version, otherwise the user's cohort.
+ * Falls back to the built-in default when nothing is configured.
+ */
+export async function resolveWeightProfile(
+  userId: string,
+  requestedProfileId?: string,
+): Promise<ResolvedWeightProfile> {
+  if (requestedProfileId) {
+    const requested = await loadWeightProfile(requestedProfileId);
+
+    if (!requested) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        `Unknown weight profile: ${requestedProfileId}`,
+      );
+    }
+
+    return { weightProfile: requested, experimentId: null };
+  }
+
+  const cohort = assignMatchingCohort(await loadWeightConfig(), userId);
+  const weightProfile = await loadWeightProfile(cohort.weightProfileId);
+
+  if (!weightProfile) {
+    console.warn("Weight profile missing, using default:", cohort);
+    return { weightProfile: DEFAULT_WEIGHT_PROFILE, experimentId: null };
+  }
+
+  return { weightProfile, experimentId: cohort.experimentId };
+}
+
+async function loadWeightConfig(): Promise<MatchingWeightConfig> {
+  const configDoc = await db
+    .collection(MATCHING_WEIGHT_COLLECTIONS.config)
+    .doc(MATCHING_WEIGHT_CONFIG_ID)
+    .get();
+  const config = configDoc.data();
+
+  return isValidWeightConfig(config) ? config : DEFAULT_WEIGHT_CONFIG;
+}
+
+async function loadWeightProfile(
+  weightProfileId: string,
+): Promise<MatchingWeightProfile | null> {
+  const profileDoc = await db
+    .collection(MATCHING_WEIGHT_COLLECTIONS.profiles)
+    .doc(weightProfileId)
+    .get();
+
+  if (profileDoc.exists) {
+    const profile = profileDoc.data();
+    return isValidWeightProfile(profile) ? profile : null;
+  }
+
+  // The built-in default is usable before it has been saved
+  return weightProfileId === DEFAULT_WEIGHT_CONFIG.defaultWeightProfileId
+    ? DEFAULT_WEIGHT_PROFILE
+    : null;
+}
+
+/**
+ * Pair each recorded search with the first booking the customer requested
+ * within the attribution window that went on to be confirmed
+ */
+async function loadReplayCases(
+  since: Date | null,
+): Promise<MatchingReplayCase[]> {
+  let historyQuery = db
+    .collection(MATCHING_WEIGHT_COLLECTIONS.history)
+    .orderBy("createdAt", "desc")
+    .limit(MAX_EVALUATION_SEARCHES);
+
+  if (since) {
+    historyQuery = historyQuery.where(
+      "createdAt",
+      ">=",
+      admin.firestore.Timestamp.fromDate(since),
+    );
+  }
+
+  const historySnapshot = await historyQuery.get();
+  const searches = historySnapshot.docs
+    .map((doc) => doc.data())
+    .filter((search) => search.customerId && search.createdAt);
+
+  const customerIds = [
+    ...new Set(searches.map((search) => search.customerId as string)),
+  ];
+  const bookingsByCustomer = new Map<
+    string,
+    Array<{ artistId: string; createdAt: Date }>
+  >();
+
+  await Promise.all(
+    customerIds.map(async (customerId) => {
+      const bookingsSnapshot = await db
+        .collection(BOOKING_COLLECTIONS.requests)
+        .where("customerId", "==", customerId)
+        .get();
+
+      bookingsByCustomer.set(
+        customerId,
+        bookingsSnapshot.docs
+          .map((doc) => doc.data())
+          .filter((booking) => {
+            const status = parseBookingStatus(booking.status);
+            return status === "confirmed" || status === "completed";
+          })
+          .map((booking) => ({
+            artistId: booking.artistId,
+            createdAt: booking.createdAt.toDate(),
+          }))
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+      );
+    }),
+  );
+
+  const windowMs = BOOKING_ATTRIBUTION_DAYS * 24 * 60 * 60 * 1000;
+
+  return searches
+    .map((search) => {
+      const searchedAt: Date = search.createdAt.toDate();
+      const booking = (bookingsByCustomer.get(search.customerId) || []).find(
+        ({ createdAt }) =>
+          createdAt >= searchedAt &&
+          createdAt.getTime() - searchedAt.getTime() <= windowMs,
+      );
+
+      // Searches recorded before candidates were stored fall back to the top 10
+      const candidates = search.candidates || search.topMatches || [];
+
+      return booking ? { candidates, bookedArtistId: booking.artistId } : null;
+    })
+    .filter((replayCase): replayCase is MatchingReplayCase => !!replayCase);
+}
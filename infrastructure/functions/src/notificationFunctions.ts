@@ -5,6 +5,14 @@
 
 import * as functions from "firebase-functions";
 import * as admin from "firebase-admin";
+import {
+  BOOKING_COLLECTIONS,
+  CHAT_PATHS,
+  ChatMessage,
+  getChatNotificationBody,
+  getChatRecipientId,
+  parseBookingStatus,
+} from "@tattoo-journey/shared";
 
 const db = admin.firestore();
 
@@ -12,7 +20,7 @@ const db = admin.firestore();
  * Send booking-related notifications
  */
 export const sendBookingNotification = functions.firestore
-  .document("bookings/{bookingId}")
+  .document(`${BOOKING_COLLECTIONS.requests}/{bookingId}`)
   .onWrite(async (change, context) => {
     const bookingId = context.params.bookingId;
     const after = change.after.exists ? change.after.data() : null;
@@ -36,9 +44,11 @@ export const sendBookingNotification = functions.firestore
         recipientId = after.artistId;
         title = "新しい予約リクエスト";
         body = "お客様から新しい予約リクエストが届きました";
-      } else if (before.status !== after.status) {
+      } else if (
+        parseBookingStatus(before.status) !== parseBookingStatus(after.status)
+      ) {
         // Status changed
-        switch (after.status) {
+        switch (parseBookingStatus(after.status)) {
           case "confirmed":
             notificationType = "booking_confirmed";
             recipientId = after.customerId;
@@ -90,16 +100,16 @@ export const sendBookingNotification = functions.firestore
  * Send chat-related notifications
  */
 export const sendChatNotification = functions.database
-  .ref("/messages/{roomId}/{messageId}")
+  .ref(`/${CHAT_PATHS.messages}/{roomId}/{messageId}`)
   .onCreate(async (snapshot, context) => {
     const roomId = context.params.roomId;
-    const messageData = snapshot.val();
+    const messageData = snapshot.val() as ChatMessage;
 
     try {
       // Get chat room participants
       const roomSnapshot = await admin
         .database()
-        .ref(`/chatRooms/${roomId}`)
+        .ref(`/${CHAT_PATHS.rooms}/${roomId}`)
         .once("value");
       const roomData = roomSnapshot.val();
 
@@ -108,8 +118,9 @@ export const sendChatNotification = functions.database
       }
 
       // Find recipient (not the sender)
-      const recipientId = roomData.participants.find(
-        (id: string) => id !== messageData.senderId,
+      const recipientId = getChatRecipientId(
+        roomData.participants,
+        messageData.senderId,
       );
 
       if (!recipientId) {
@@ -126,17 +137,8 @@ export const sendChatNotification = functions.database
         : "Unknown User";
 
       // Prepare notification content
-      let title = senderName;
-      let body = messageData.text;
-
-      // Handle different message types
-      if (messageData.type === "image") {
-        body = "📷 画像を送信しました";
-      } else if (messageData.type === "booking_request") {
-        body = "💼 予約リクエストを送信しました";
-      } else if (messageData.text && messageData.text.length > 100) {
-        body = messageData.text.substring(0, 97) + "...";
-      }
+      const title = senderName;
+      const body = getChatNotificationBody(messageData);
 
       await sendPushNotification(recipientId, title, body, {
         type: "new_message",
@@ -164,7 +166,7 @@ export const sendChatNotification = functions.database
 /**
  * Send push notification to user
  */
-async function sendPushNotification(
+export async function sendPushNotification(
   userId: string,
   title: string,
   body: string,
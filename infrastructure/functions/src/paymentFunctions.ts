@@ -0,0 +1,551 @@
+/**
+ * Payment Functions - Tattoo Journey 2.0
+ * Booking payment ledger backed by a pluggable payment provider
+ */
+
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {
+  BOOKING_COLLECTIONS,
+  BookingActorRole,
+  PAYMENT_COLLECTIONS,
+  PAYMENT_CURRENCY,
+  PROJECT_COLLECTIONS,
+  PaymentChargeRequest,
+  PaymentChargeType,
+  PaymentLedgerEntry,
+  PaymentProvider,
+  PaymentProviderResult,
+  PaymentRefundRequest,
+  getBookingActorRole,
+  getCancellationRefunds,
+  isPaymentChargeType,
+  parseBookingStatus,
+  summarizeLedger,
+} from "@tattoo-journey/shared";
+
+const db = admin.firestore();
+
+const MANUAL_PROVIDER_ID = "manual";
+
+const CHARGE_DESCRIPTIONS: Record<PaymentChargeType, string> = {
+  deposit: "デポジット",
+  balance: "施術料金",
+  consultation_fee: "カウンセリング料",
+  touch_up_fee: "リタッチ料",
+};
+
+// Fees are the only charges whose amount the caller may set, apart from
+// project balances that are paid session by session
+const FEE_TYPES: PaymentChargeType[] = ["consultation_fee", "touch_up_fee"];
+
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+interface RecordBookingPaymentData {
+  bookingId: string;
+  type: PaymentChargeType;
+  // Generated once per payment attempt and reused when the request is resent
+  idempotencyKey: string;
+  amount?: number; // fees and project balances, defaults to the amount due
+}
+
+/**
+ * Payments made in person at the studio. The artist confirms receipt, so
+ * the "charge" always succeeds and only records the entry.
+ */
+class ManualPaymentProvider implements PaymentProvider {
+  readonly id = MANUAL_PROVIDER_ID;
+
+  async charge(request: PaymentChargeRequest): Promise<PaymentProviderResult> {
+    return {
+      status: "succeeded",
+      providerReference: `manual_${request.reference}`,
+    };
+  }
+
+  async refund(request: PaymentRefundRequest): Promise<PaymentProviderResult> {
+    return {
+      status: "succeeded",
+      providerReference: `manual_${request.reference}`,
+    };
+  }
+}
+
+const paymentProviders = new Map<string, PaymentProvider>();
+let defaultProviderId = MANUAL_PROVIDER_ID;
+
+/**
+ * Register a payment processor. Refunds always go through the provider that
+ * processed the original charge, so providers stay registered after a switch.
+ */
+export function registerPaymentProvider(
+  provider: PaymentProvider,
+  isDefault = false,
+): void {
+  paymentProviders.set(provider.id, provider);
+  if (isDefault) {
+    defaultProviderId = provider.id;
+  }
+}
+
+registerPaymentProvider(new ManualPaymentProvider(), true);
+
+/**
+ * Charge a booking payment through the default provider and record it in the
+ * ledger (failed attempts are recorded too). The entry is reserved as pending
+ * in a transaction before the provider is called, so concurrent requests
+ * cannot charge the same deposit or balance twice. Resending a request with
+ * the same idempotency key returns the recorded result, or finishes a charge
+ * that was interrupted.
+ */
+export const recordBookingPayment = functions.https.onCall(
+  async (data: RecordBookingPaymentData, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "User must be authenticated",
+      );
+    }
+
+    if (
+      !data?.bookingId ||
+      !isPaymentChargeType(data.type) ||
+      typeof data.idempotencyKey !== "string" ||
+      !IDEMPOTENCY_KEY_PATTERN.test(data.idempotencyKey)
+    ) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Booking ID, a valid payment type and an idempotency key are required",
+      );
+    }
+
+    if (data.amount !== undefined) {
+      if (!FEE_TYPES.includes(data.type) && data.type !== "balance") {
+        throw new functions.https.HttpsError(
+          "invalid-argument",
+          "Only fees and project balances can be charged with a custom amount",
+        );
+      }
+
+      if (!(Number.isInteger(data.amount) && data.amount > 0)) {
+        throw new functions.https.HttpsError(
+          "invalid-argument",
+          "Amount must be a positive whole yen value",
+        );
+      }
+    }
+
+    const userId = context.auth.uid;
+    const isAdmin = context.auth.token.admin === true;
+    const bookingRef = db
+      .collection(BOOKING_COLLECTIONS.requests)
+      .doc(data.bookingId);
+    // Scoped to the booking so keys only need to be unique per client attempt
+    const entryRef = db
+      .collection(PAYMENT_COLLECTIONS.ledger)
+      .doc(`${data.bookingId}_${data.idempotencyKey}`);
+    const description = CHARGE_DESCRIPTIONS[data.type];
+
+    const entry: admin.firestore.DocumentData = await db.runTransaction(
+      async (transaction) => {
+        const bookingDoc = await transaction.get(bookingRef);
+
+        if (!bookingDoc.exists) {
+          throw new functions.https.HttpsError(
+            "not-found",
+            "Booking request not found",
+          );
+        }
+
+        const booking = bookingDoc.data()!;
+        const actorRole: BookingActorRole | null = isAdmin
+          ? "system"
+          : getBookingActorRole(
+              { customerId: booking.customerId, artistId: booking.artistId },
+              userId,
+            );
+
+        if (!actorRole) {
+          throw new functions.https.HttpsError(
+            "permission-denied",
+            "Only booking participants can record payments",
+          );
+        }
+
+        if (
+          defaultProviderId === MANUAL_PROVIDER_ID &&
+          actorRole === "customer"
+        ) {
+          throw new functions.https.HttpsError(
+            "permission-denied",
+            "In-person payments are recorded by the artist",
+          );
+        }
+
+        const status = parseBookingStatus(booking.status);
+        const isClosed =
+          !status || status === "cancelled" || status === "declined";
+
+        const existingDoc = await transaction.get(entryRef);
+        if (existingDoc.exists) {
+          const existing = existingDoc.data()!;
+          if (existing.type !== data.type || existing.createdBy !== userId) {
+            throw new functions.https.HttpsError(
+              "already-exists",
+              "This idempotency key was used for a different payment",
+            );
+          }
+
+          // An interrupted charge is only finished while the booking can
+          // still take payments; otherwise it is voided before the provider
+          // is called again
+          if (existing.status === "pending" && isClosed) {
+            const voided = {
+              status: "failed",
+              failureReason: "booking_closed",
+            };
+            transaction.update(entryRef, {
+              ...voided,
+              updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+            });
+            return { ...existing, ...voided };
+          }
+
+          return existing;
+        }
+
+        if (isClosed) {
+          throw new functions.https.HttpsError(
+            "failed-precondition",
+            "Cannot take payments for a closed booking",
+          );
+        }
+
+        // Projects carry their own quote and deposit
+        const projectDoc = booking.projectId
+          ? await transaction.get(
+              db
+                .collection(PROJECT_COLLECTIONS.projects)
+                .doc(booking.projectId),
+            )
+          : null;
+        const project = projectDoc?.exists ? projectDoc.data()! : null;
+        const price = project ? project.quotedPrice : booking.confirmedPrice;
+        const depositAmount = project
+          ? project.depositAmount
+          : booking.depositAmount;
+
+        if (data.type === "balance" && data.amount !== undefined && !project) {
+          throw new functions.https.HttpsError(
+            "invalid-argument",
+            "Only project balances can be paid in parts",
+          );
+        }
+
+        const ledgerSnapshot = await transaction.get(
+          db
+            .collection(PAYMENT_COLLECTIONS.ledger)
+            .where("bookingId", "==", data.bookingId),
+        );
+        const entries = ledgerSnapshot.docs.map(
+          (doc) => ({ id: doc.id, ...doc.data() }) as PaymentLedgerEntry,
+        );
+
+        if (
+          entries.some(
+            (other) => other.type === data.type && other.status === "pending",
+          )
+        ) {
+          throw new functions.https.HttpsError(
+            "failed-precondition",
+            "A payment of this type is already being processed",
+          );
+        }
+
+        const summary = summarizeLedger(
+          entries,
+          price || 0,
+          depositAmount || 0,
+        );
+
+        if (data.type === "deposit" && summary.depositPaid) {
+          throw new functions.https.HttpsError(
+            "already-exists",
+            "The deposit has already been paid",
+          );
+        }
+
+        const amount =
+          data.amount ??
+          (await getAmountDue(
+            transaction,
+            data.type,
+            booking.artistId,
+            depositAmount || 0,
+            summary.balanceDue,
+          ));
+
+        if (data.type === "balance" && amount > summary.balanceDue) {
+          throw new functions.https.HttpsError(
+            "failed-precondition",
+            "The amount is more than the remaining balance",
+          );
+        }
+
+        if (!(amount > 0)) {
+          throw new functions.https.HttpsError(
+            "failed-precondition",
+            "Nothing is due for this payment type",
+          );
+        }
+
+        const pendingEntry = {
+          bookingId: data.bookingId,
+          customerId: booking.customerId,
+          artistId: booking.artistId,
+          type: data.type,
+          amount,
+          currency: PAYMENT_CURRENCY,
+          status: "pending",
+          provider: defaultProviderId,
+          idempotencyKey: data.idempotencyKey,
+          description,
+          createdBy: userId,
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        };
+        transaction.create(entryRef, pendingEntry);
+
+        return pendingEntry;
+      },
+    );
+
+    if (entry.status !== "pending") {
+      return {
+        success: entry.status === "succeeded",
+        entryId: entryRef.id,
+        amount: entry.amount,
+        status: entry.status,
+        failureReason: entry.failureReason || null,
+      };
+    }
+
+    const provider = paymentProviders.get(entry.provider);
+    if (!provider) {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        "The payment provider for this entry is no longer available",
+      );
+    }
+
+    let result: PaymentProviderResult;
+    try {
+      result = await provider.charge({
+        reference: entryRef.id,
+        idempotencyKey: data.idempotencyKey,
+        amount: entry.amount,
+        currency: PAYMENT_CURRENCY,
+        customerId: entry.customerId,
+        description,
+      });
+    } catch (error) {
+      // The charge may or may not have gone through, so the entry stays
+      // pending until the client retries with the same key
+      console.error("Error charging booking payment:", error);
+      throw new functions.https.HttpsError(
+        "unavailable",
+        "The payment could not be confirmed, please retry",
+      );
+    }
+
+    try {
+      await entryRef.update({
+        status: result.status,
+        ...(result.providerReference && {
+          providerReference: result.providerReference,
+        }),
+        ...(result.failureReason && { failureReason: result.failureReason }),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      return {
+        success: result.status === "succeeded",
+        entryId: entryRef.id,
+        amount: entry.amount,
+        status: result.status,
+        failureReason: result.failureReason || null,
+      };
+    } catch (error) {
+      console.error("Error recording booking payment:", error);
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to record payment",
+      );
+    }
+  },
+);
+
+/**
+ * Refunds queued by a cancellation, one job per booking. The cancellation
+ * itself has already committed, so the job retries until the provider has
+ * answered for every refund.
+ */
+interface CancellationRefundJob {
+  bookingId: string;
+  customerId: string;
+  artistId: string;
+  cancelledBy: BookingActorRole;
+  actorId: string;
+  cancelledAt: admin.firestore.Timestamp;
+  appointmentDate?: admin.firestore.Timestamp;
+  depositRefundRate: number; // decided by the booking's cancellation policy
+  status: "queued" | "completed";
+}
+
+/**
+ * Refund what the cancellation rules allow. Retries are safe: each refund
+ * entry id is derived from the refunded charge, and an entry left pending by
+ * an interrupted attempt is finished with the same provider reference.
+ */
+export const processCancellationRefund = functions
+  .runWith({ failurePolicy: true })
+  .firestore.document(`${PAYMENT_COLLECTIONS.refunds}/{bookingId}`)
+  .onCreate(async (snapshot) => {
+    const job = snapshot.data() as CancellationRefundJob;
+
+    if (job.status === "completed") return;
+
+    const refund = await refundCancelledBooking(job);
+
+    const batch = db.batch();
+    batch.update(snapshot.ref, {
+      status: "completed",
+      ...refund,
+      completedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    batch.update(
+      db.collection(BOOKING_COLLECTIONS.requests).doc(job.bookingId),
+      { "cancellationOutcome.refundAmount": refund.refundedAmount },
+    );
+    await batch.commit();
+  });
+
+async function refundCancelledBooking(
+  job: CancellationRefundJob,
+): Promise<{ refundedAmount: number; failedAmount: number }> {
+  const entries = await getBookingLedger(job.bookingId);
+  const refunds = getCancellationRefunds({
+    entries,
+    cancelledBy: job.cancelledBy,
+    cancelledAt: job.cancelledAt.toDate(),
+    appointmentDate: job.appointmentDate?.toDate(),
+    depositRefundRate: job.depositRefundRate,
+  });
+
+  for (const refund of refunds) {
+    const charge = entries.find((entry) => entry.id === refund.entryId)!;
+    const entryRef = db
+      .collection(PAYMENT_COLLECTIONS.ledger)
+      .doc(`${job.bookingId}_refund_${charge.id}`);
+    const existing = entries.find((entry) => entry.id === entryRef.id);
+
+    // Finalized by an earlier attempt
+    if (existing && existing.status !== "pending") continue;
+
+    if (!existing) {
+      await entryRef.create({
+        bookingId: job.bookingId,
+        customerId: job.customerId,
+        artistId: job.artistId,
+        type: "refund",
+        amount: refund.amount,
+        currency: PAYMENT_CURRENCY,
+        status: "pending",
+        provider: charge.provider,
+        refundOf: charge.id,
+        description: `${CHARGE_DESCRIPTIONS[refund.type]}の返金（キャンセル）`,
+        createdBy: job.actorId,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+
+    const provider = paymentProviders.get(charge.provider);
+    // Provider errors leave the entry pending and fail the job, so the
+    // refund is retried with the same reference
+    const result: PaymentProviderResult =
+      provider && charge.providerReference
+        ? await provider.refund({
+            reference: entryRef.id,
+            chargeReference: charge.providerReference,
+            amount: existing?.amount ?? refund.amount,
+            currency: PAYMENT_CURRENCY,
+          })
+        : { status: "failed", failureReason: "provider_unavailable" };
+
+    await entryRef.update({
+      status: result.status,
+      ...(result.providerReference && {
+        providerReference: result.providerReference,
+      }),
+      ...(result.failureReason && { failureReason: result.failureReason }),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+
+  // Totals over every attempt, including refunds finalized before a retry
+  const refundEntries = (await getBookingLedger(job.bookingId)).filter(
+    (entry) => entry.type === "refund",
+  );
+  const sumByStatus = (status: string) =>
+    refundEntries
+      .filter((entry) => entry.status === status)
+      .reduce((sum, entry) => sum + entry.amount, 0);
+
+  return {
+    refundedAmount: sumByStatus("succeeded"),
+    failedAmount: sumByStatus("failed"),
+  };
+}
+
+async function getBookingLedger(
+  bookingId: string,
+): Promise<PaymentLedgerEntry[]> {
+  const snapshot = await db
+    .collection(PAYMENT_COLLECTIONS.ledger)
+    .where("bookingId", "==", bookingId)
+    .get();
+
+  return snapshot.docs.map(
+    (doc) =>
+      ({
+        id: doc.id,
+        ...doc.data(),
+        createdAt: doc.data().createdAt?.toDate() || new Date(),
+      }) as PaymentLedgerEntry,
+  );
+}
+
+async function getAmountDue(
+  transaction: admin.firestore.Transaction,
+  type: PaymentChargeType,
+  artistId: string,
+  depositAmount: number,
+  balanceDue: number,
+): Promise<number> {
+  switch (type) {
+    case "deposit":
+      return depositAmount;
+    case "balance":
+      return balanceDue;
+    default: {
+      const artistDoc = await transaction.get(
+        db.collection("users").doc(artistId),
+      );
+      const artistInfo = artistDoc.data()?.profile?.artistInfo;
+      const fee =
+        type === "consultation_fee"
+          ? artistInfo?.consultationFee
+          : artistInfo?.touchUpFee;
+      return Math.round(fee || 0);
+    }
+  }
+}
@@ -0,0 +1,477 @@
+/**
+ * Project Functions - Tattoo Journey 2.0
+ * Multi-session projects: one design / quote / deposit, many sessions.
+ * Payments are recorded in the ledger of the project's booking request.
+ */
+
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {
+  AVAILABILITY_COLLECTIONS,
+  BOOKING_COLLECTIONS,
+  BookingActorRole,
+  MAX_BOOKING_DURATION_MINUTES,
+  MAX_PROJECT_SESSIONS,
+  PAYMENT_COLLECTIONS,
+  PROJECT_COLLECTIONS,
+  PaymentLedgerEntry,
+  ProjectAction,
+  ProjectSessionStatus,
+  canUpdateProjectSession,
+  getBookingActorRole,
+  getBookingEndTime,
+  getBookingRoomId,
+  getProjectProgress,
+  getProjectSessionReservationId,
+  getProjectStatus,
+  parseBookingStatus,
+} from "@tattoo-journey/shared";
+import {
+  ScheduleSlotsWrite,
+  mergeScheduleWrites,
+  releaseBookingSlot,
+  reserveBookingSlot,
+} from "./bookingFunctions";
+
+const db = admin.firestore();
+
+const PROJECTABLE_BOOKING_STATUSES = ["negotiating", "accepted", "confirmed"];
+
+interface CreateBookingProjectData {
+  bookingRequestId: string;
+  title: string;
+  designDescription?: string;
+  plannedSessions: number;
+  sessionDuration: number; // minutes
+  quotedPrice: number;
+  depositAmount: number;
+}
+
+interface UpdateBookingProjectData {
+  projectId: string;
+  action: ProjectAction;
+  sessionId?: string;
+  scheduledDate?: string; // ISO
+  duration?: number; // minutes
+  actualDuration?: number; // minutes
+  notes?: string;
+}
+
+/**
+ * Split a booking request into a multi-session project (artist only)
+ */
+export const createBookingProject = functions.https.onCall(
+  async (data: CreateBookingProjectData, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "User must be authenticated",
+      );
+    }
+
+    if (!data?.bookingRequestId || !isValidProjectData(data)) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Title, session count, session duration, quote and deposit are required",
+      );
+    }
+
+    const userId = context.auth.uid;
+    const isAdmin = context.auth.token.admin === true;
+    const bookingRef = db
+      .collection(BOOKING_COLLECTIONS.requests)
+      .doc(data.bookingRequestId);
+    const projectRef = db.collection(PROJECT_COLLECTIONS.projects).doc();
+
+    try {
+      await db.runTransaction(async (transaction) => {
+        const bookingDoc = await transaction.get(bookingRef);
+
+        if (!bookingDoc.exists) {
+          throw new functions.https.HttpsError(
+            "not-found",
+            "Booking request not found",
+          );
+        }
+
+        const booking = bookingDoc.data()!;
+        const actorRole = getActorRole(booking, userId, isAdmin);
+
+        if (actorRole !== "artist" && actorRole !== "system") {
+          throw new functions.https.HttpsError(
+            "permission-denied",
+            "Only the artist can create a project",
+          );
+        }
+
+        if (booking.projectId) {
+          throw new functions.https.HttpsError(
+            "already-exists",
+            "This booking already has a project",
+          );
+        }
+
+        const status = parseBookingStatus(booking.status);
+        if (!status || !PROJECTABLE_BOOKING_STATUSES.includes(status)) {
+          throw new functions.https.HttpsError(
+            "failed-precondition",
+            "Only active bookings can become projects",
+          );
+        }
+
+        const now = admin.firestore.FieldValue.serverTimestamp();
+
+        transaction.set(projectRef, {
+          bookingRequestId: data.bookingRequestId,
+          customerId: booking.customerId,
+          artistId: booking.artistId,
+          roomId:
+            booking.roomId ||
+            getBookingRoomId(booking.customerId, booking.artistId),
+          title: data.title.trim(),
+          designDescription:
+            data.designDescription || booking.tattooDescription || "",
+          bodyLocation: booking.bodyLocation || "",
+          quotedPrice: data.quotedPrice,
+          depositAmount: data.depositAmount,
+          plannedSessions: data.plannedSessions,
+          status: "planning",
+          completedSessions: 0,
+          completedMinutes: 0,
+          createdAt: now,
+          updatedAt: now,
+        });
+
+        for (let number = 1; number <= data.plannedSessions; number++) {
+          transaction.set(
+            projectRef.collection(PROJECT_COLLECTIONS.sessions).doc(),
+            {
+              projectId: projectRef.id,
+              sessionNumber: number,
+              status: "unscheduled",
+              duration: data.sessionDuration,
+              createdAt: now,
+              updatedAt: now,
+            },
+          );
+        }
+
+        transaction.update(bookingRef, {
+          projectId: projectRef.id,
+          updatedAt: now,
+        });
+      });
+
+      return { success: true, projectId: projectRef.id };
+    } catch (error) {
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+
+      console.error("Error creating booking project:", error);
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to create project",
+      );
+    }
+  },
+);
+
+/**
+ * Schedule / reschedule / complete / cancel a single session and recompute
+ * project progress in the same transaction. Only the artist schedules
+ * sessions; either participant may cancel one.
+ */
+export const updateBookingProject = functions.https.onCall(
+  async (data: UpdateBookingProjectData, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "User must be authenticated",
+      );
+    }
+
+    const { projectId, action, sessionId } = data || {};
+
+    if (!projectId || !action || !sessionId) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Project ID, action and session ID are required",
+      );
+    }
+
+    const userId = context.auth.uid;
+    const isAdmin = context.auth.token.admin === true;
+    const projectRef = db
+      .collection(PROJECT_COLLECTIONS.projects)
+      .doc(projectId);
+    const sessionsRef = projectRef.collection(PROJECT_COLLECTIONS.sessions);
+
+    try {
+      const result = await db.runTransaction(async (transaction) => {
+        const projectDoc = await transaction.get(projectRef);
+
+        if (!projectDoc.exists) {
+          throw new functions.https.HttpsError(
+            "not-found",
+            "Project not found",
+          );
+        }
+
+        const project = projectDoc.data()!;
+        const actorRole = getActorRole(project, userId, isAdmin);
+
+        if (!actorRole) {
+          throw new functions.https.HttpsError(
+            "permission-denied",
+            "Only project participants can update a project",
+          );
+        }
+
+        const isArtistSide = actorRole === "artist" || actorRole === "system";
+        // The customer can only cancel; times are agreed in chat and then
+        // entered by the artist
+        if (action !== "cancel_session" && !isArtistSide) {
+          throw new functions.https.HttpsError(
+            "permission-denied",
+            "Only the artist can schedule or complete sessions",
+          );
+        }
+
+        const sessionsSnapshot = await transaction.get(sessionsRef);
+        const ledgerSnapshot = await transaction.get(
+          db
+            .collection(PAYMENT_COLLECTIONS.ledger)
+            .where("bookingId", "==", project.bookingRequestId),
+        );
+        const sessions = sessionsSnapshot.docs.map((doc) => {
+          const session = doc.data();
+          return {
+            ...session,
+            id: doc.id,
+            status: session.status as ProjectSessionStatus,
+            sessionNumber: session.sessionNumber,
+            duration: session.duration,
+            scheduledDate: session.scheduledDate?.toDate(),
+          };
+        });
+
+        const now = admin.firestore.FieldValue.serverTimestamp();
+        const projectUpdates: Record<string, any> = { updatedAt: now };
+        let sessionUpdates: Record<string, any> | null = null;
+        let scheduleWrites: ScheduleSlotsWrite[] = [];
+        const session = sessions.find((s) => s.id === sessionId);
+        const reservationId = getProjectSessionReservationId(
+          projectId,
+          sessionId,
+        );
+        const busySlotRef = db
+          .collection(AVAILABILITY_COLLECTIONS.busySlots)
+          .doc(reservationId);
+
+        if (!session) {
+          throw new functions.https.HttpsError(
+            "not-found",
+            "Session not found",
+          );
+        }
+
+        if (!canUpdateProjectSession(session.status, action)) {
+          throw new functions.https.HttpsError(
+            "failed-precondition",
+            `Cannot ${action} a session that is ${session.status}`,
+          );
+        }
+
+        if (action === "schedule_session") {
+          const scheduledDate = new Date(data.scheduledDate || "");
+          const duration = data.duration ?? session.duration;
+
+          if (isNaN(scheduledDate.getTime()) || !isValidDuration(duration)) {
+            throw new functions.https.HttpsError(
+              "invalid-argument",
+              "A valid session date and duration are required",
+            );
+          }
+
+          if (scheduledDate.getTime() <= Date.now()) {
+            throw new functions.https.HttpsError(
+              "invalid-argument",
+              "Sessions must be scheduled in the future",
+            );
+          }
+
+          // Free the previous time first when rescheduling
+          const releaseWrites = session.scheduledDate
+            ? await releaseBookingSlot(transaction, {
+                bookingId: reservationId,
+                artistId: project.artistId,
+                startTime: session.scheduledDate,
+              })
+            : [];
+          const reserveWrites = await reserveBookingSlot(transaction, {
+            bookingId: reservationId,
+            artistId: project.artistId,
+            startTime: scheduledDate,
+            duration,
+          });
+          scheduleWrites = mergeScheduleWrites(releaseWrites, reserveWrites);
+
+          sessionUpdates = {
+            status: "scheduled",
+            scheduledDate: admin.firestore.Timestamp.fromDate(scheduledDate),
+            duration,
+          };
+        }
+
+        if (action === "complete_session") {
+          const actualDuration = data.actualDuration ?? session.duration;
+          if (!isValidDuration(actualDuration)) {
+            throw new functions.https.HttpsError(
+              "invalid-argument",
+              "Actual duration must be valid",
+            );
+          }
+
+          sessionUpdates = {
+            status: "completed",
+            actualDuration,
+            completedAt: admin.firestore.Timestamp.now(),
+          };
+        }
+
+        if (action === "cancel_session") {
+          if (session.scheduledDate) {
+            scheduleWrites = await releaseBookingSlot(transaction, {
+              bookingId: reservationId,
+              artistId: project.artistId,
+              startTime: session.scheduledDate,
+            });
+          }
+
+          sessionUpdates = { status: "cancelled" };
+        }
+
+        if (data.notes !== undefined) {
+          sessionUpdates = { ...sessionUpdates, notes: data.notes };
+        }
+
+        // Recompute project totals with this change applied
+        const nextSessions = sessions.map((s) =>
+          s.id === sessionId && sessionUpdates
+            ? {
+                ...s,
+                ...sessionUpdates,
+                scheduledDate:
+                  sessionUpdates.scheduledDate?.toDate() ?? s.scheduledDate,
+              }
+            : s,
+        );
+        const progress = getProjectProgress(
+          {
+            quotedPrice: project.quotedPrice,
+            depositAmount: project.depositAmount,
+            plannedSessions: project.plannedSessions,
+          },
+          nextSessions,
+          ledgerSnapshot.docs.map((doc) => doc.data() as PaymentLedgerEntry),
+        );
+
+        Object.assign(projectUpdates, {
+          status: getProjectStatus(nextSessions),
+          completedSessions: progress.completedSessions,
+          completedMinutes: progress.completedMinutes,
+        });
+
+        transaction.update(projectRef, projectUpdates);
+
+        if (session && sessionUpdates) {
+          transaction.update(sessionsRef.doc(session.id), {
+            ...sessionUpdates,
+            updatedAt: now,
+          });
+        }
+
+        if (action === "schedule_session" && sessionUpdates) {
+          transaction.set(busySlotRef, {
+            artistId: project.artistId,
+            startTime: sessionUpdates.scheduledDate,
+            endTime: admin.firestore.Timestamp.fromDate(
+              getBookingEndTime(
+                sessionUpdates.scheduledDate.toDate(),
+                sessionUpdates.duration,
+              ),
+            ),
+          });
+        }
+
+        if (action === "cancel_session") {
+          transaction.delete(busySlotRef);
+        }
+
+        scheduleWrites.forEach(({ ref, timeSlots }) => {
+          transaction.update(ref, { timeSlots });
+        });
+
+        return {
+          status: projectUpdates.status,
+          completedSessions: progress.completedSessions,
+          totalSessions: progress.totalSessions,
+          remainingBalance: progress.remainingBalance,
+        };
+      });
+
+      return { success: true, ...result };
+    } catch (error) {
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+
+      console.error("Error updating booking project:", error);
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to update project",
+      );
+    }
+  },
+);
+
+function getActorRole(
+  participants: admin.firestore.DocumentData,
+  userId: string,
+  isAdmin: boolean,
+): BookingActorRole | null {
+  return isAdmin
+    ? "system"
+    : getBookingActorRole(
+        {
+          customerId: participants.customerId,
+          artistId: participants.artistId,
+        },
+        userId,
+      );
+}
+
+function isValidDuration(duration: number): boolean {
+  return (
+    typeof duration === "number" &&
+    duration > 0 &&
+    duration <= MAX_BOOKING_DURATION_MINUTES
+  );
+}
+
+function isValidProjectData(data: CreateBookingProjectData): boolean {
+  return (
+    typeof data.title === "string" &&
+    data.title.trim().length > 0 &&
+    Number.isInteger(data.plannedSessions) &&
+    data.plannedSessions >= 2 &&
+    data.plannedSessions <= MAX_PROJECT_SESSIONS &&
+    isValidDuration(data.sessionDuration) &&
+    typeof data.quotedPrice === "number" &&
+    data.quotedPrice >= 0 &&
+    typeof data.depositAmount === "number" &&
+    data.depositAmount >= 0 &&
+    data.depositAmount <= data.quotedPrice
+  );
+}
@@ -0,0 +1,327 @@
+/**
+ * Ranking Functions - Tattoo Journey 2.0
+ * Label matching impressions with booking outcomes, train the ranking model
+ * from the labels and manage the flag that blends it into match scores
+ */
+
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {
+  BOOKING_ATTRIBUTION_DAYS,
+  BOOKING_COLLECTIONS,
+  DEFAULT_RANKING_CONFIG,
+  IMPRESSION_LABEL_WINDOW_DAYS,
+  ImpressionOutcomes,
+  MATCHING_RANKING_CONFIG_ID,
+  MATCHING_WEIGHT_COLLECTIONS,
+  MATCH_FEATURE_NAMES,
+  MAX_TRAINING_IMPRESSIONS,
+  MatchFeatures,
+  MatchingRankingConfig,
+  MatchingReplayCandidate,
+  RANKING_COLLECTIONS,
+  RANKING_MODEL_ID,
+  RankingExample,
+  RankingModel,
+  getImpressionRelevance,
+  getRankingModelDocId,
+  isValidRankingConfig,
+  labelMatchImpression,
+  trainRankingModel,
+} from "@tattoo-journey/shared";
+
+const db = admin.firestore();
+
+// Firestore batch write limit
+const IMPRESSION_BATCH_SIZE = 500;
+
+export interface RankingBlend {
+  model: RankingModel;
+  modelId: string;
+  blendWeight: number;
+}
+
+// Stored with each matching history; searches recorded before the ranking
+// model have no features
+type HistoryCandidate = MatchingReplayCandidate & { features?: MatchFeatures };
+
+/**
+ * Relabel the impressions of recent searches with what the customer did
+ * after each search
+ */
+export const labelMatchingOutcomes = functions.pubsub
+  .schedule("every 24 hours")
+  .onRun(async () => {
+    try {
+      const windowStart = new Date(
+        Date.now() - IMPRESSION_LABEL_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+      );
+      const historySnapshot = await db
+        .collection(MATCHING_WEIGHT_COLLECTIONS.history)
+        .where(
+          "createdAt",
+          ">=",
+          admin.firestore.Timestamp.fromDate(windowStart),
+        )
+        .get();
+
+      const outcomesByCustomer = new Map<string, ImpressionOutcomes>();
+      let batch = db.batch();
+      let pending = 0;
+      let labeled = 0;
+
+      for (const historyDoc of historySnapshot.docs) {
+        const search = historyDoc.data();
+        // Only searches recorded with features can train the model
+        const candidates: HistoryCandidate[] = search.candidates || [];
+        const served = candidates
+          .slice(0, search.matchCount || 0)
+          .filter(
+            (
+              candidate,
+            ): candidate is HistoryCandidate & { features: MatchFeatures } =>
+              !!candidate.features,
+          );
+
+        if (served.length === 0) continue;
+
+        if (!outcomesByCustomer.has(search.customerId)) {
+          outcomesByCustomer.set(
+            search.customerId,
+            await loadCustomerOutcomes(search.customerId),
+          );
+        }
+        const outcomes = outcomesByCustomer.get(search.customerId)!;
+
+        const interactionsSnapshot = await historyDoc.ref
+          .collection(RANKING_COLLECTIONS.interactions)
+          .get();
+        const interactions = new Map(
+          interactionsSnapshot.docs.map((doc) => [
+            doc.id,
+            {
+              viewedAt: doc.data().viewedAt?.toDate(),
+              inquiredAt: doc.data().inquiredAt?.toDate(),
+            },
+          ]),
+        );
+        const searchedAt: Date = search.createdAt.toDate();
+
+        for (const [index, candidate] of served.entries()) {
+          const labels = labelMatchImpression(
+            candidate.artistId,
+            searchedAt,
+            BOOKING_ATTRIBUTION_DAYS,
+            { ...outcomes, interaction: interactions.get(candidate.artistId) },
+          );
+
+          batch.set(
+            db
+              .collection(RANKING_COLLECTIONS.impressions)
+              .doc(`${historyDoc.id}_${candidate.artistId}`),
+            {
+              historyId: historyDoc.id,
+              customerId: search.customerId,
+              artistId: candidate.artistId,
+              position: index + 1,
+              weightProfileId: search.weightProfileId || null,
+              experimentId: search.experimentId || null,
+              features: candidate.features,
+              labels,
+              relevance: getImpressionRelevance(labels),
+              searchedAt: search.createdAt,
+              labeledAt: admin.firestore.FieldValue.serverTimestamp(),
+            },
+          );
+          labeled++;
+
+          if (++pending === IMPRESSION_BATCH_SIZE) {
+            await batch.commit();
+            batch = db.batch();
+            pending = 0;
+          }
+        }
+      }
+
+      if (pending > 0) {
+        await batch.commit();
+      }
+
+      console.log("✅ Matching impressions labeled:", labeled);
+    } catch (error) {
+      console.error("Error labeling matching outcomes:", error);
+    }
+  });
+
+/**
+ * Train a new model version from the labeled impressions. Serving only
+ * switches to it once the ranking flag names it.
+ */
+export const trainMatchingRankModel = functions.pubsub
+  .schedule("every monday 04:00")
+  .timeZone("Asia/Tokyo")
+  .onRun(async () => {
+    try {
+      const impressionsSnapshot = await db
+        .collection(RANKING_COLLECTIONS.impressions)
+        .orderBy("searchedAt", "desc")
+        .limit(MAX_TRAINING_IMPRESSIONS)
+        .get();
+
+      const searches = new Map<string, RankingExample[]>();
+      impressionsSnapshot.docs.forEach((doc) => {
+        const impression = doc.data();
+        const examples = searches.get(impression.historyId) || [];
+        examples.push({
+          features: impression.features,
+          relevance: impression.relevance,
+        });
+        searches.set(impression.historyId, examples);
+      });
+
+      const result = trainRankingModel([...searches.values()]);
+
+      if (result.pairCount === 0) {
+        console.log("No labeled pairs yet, skipping ranking model training");
+        return;
+      }
+
+      const latestSnapshot = await db
+        .collection(RANKING_COLLECTIONS.models)
+        .orderBy("version", "desc")
+        .limit(1)
+        .get();
+      const version = latestSnapshot.empty
+        ? 1
+        : latestSnapshot.docs[0].data().version + 1;
+
+      await db
+        .collection(RANKING_COLLECTIONS.models)
+        .doc(getRankingModelDocId(version))
+        .set({
+          id: RANKING_MODEL_ID,
+          version,
+          featureNames: [...MATCH_FEATURE_NAMES],
+          ...result,
+          impressionCount: impressionsSnapshot.size,
+          trainedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+      console.log("✅ Ranking model trained:", version, result.pairAccuracy);
+    } catch (error) {
+      console.error("Error training ranking model:", error);
+    }
+  });
+
+/**
+ * Turn model blending on or off, or change the model / blend weight
+ * (admin only)
+ */
+export const setMatchingRankingConfig = functions.https.onCall(
+  async (data, context) => {
+    if (!context.auth?.token.admin) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "Admin privileges required",
+      );
+    }
+
+    const config = {
+      enabled: data?.enabled,
+      modelId: data?.modelId ?? null,
+      blendWeight: data?.blendWeight ?? DEFAULT_RANKING_CONFIG.blendWeight,
+    };
+
+    if (!isValidRankingConfig(config)) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Enabling requires a modelId and a blend weight in [0, 1]",
+      );
+    }
+
+    if (config.modelId) {
+      const modelDoc = await db
+        .collection(RANKING_COLLECTIONS.models)
+        .doc(config.modelId)
+        .get();
+
+      if (!modelDoc.exists) {
+        throw new functions.https.HttpsError(
+          "failed-precondition",
+          `Unknown ranking model: ${config.modelId}`,
+        );
+      }
+    }
+
+    await db
+      .collection(MATCHING_WEIGHT_COLLECTIONS.config)
+      .doc(MATCHING_RANKING_CONFIG_ID)
+      .set({
+        ...config,
+        updatedBy: context.auth.uid,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+    return { success: true };
+  },
+);
+
+/**
+ * The model to blend into match scores, or null while the flag is off
+ */
+export async function loadRankingBlend(): Promise<RankingBlend | null> {
+  const configDoc = await db
+    .collection(MATCHING_WEIGHT_COLLECTIONS.config)
+    .doc(MATCHING_RANKING_CONFIG_ID)
+    .get();
+  const config: MatchingRankingConfig = isValidRankingConfig(configDoc.data())
+    ? (configDoc.data() as MatchingRankingConfig)
+    : DEFAULT_RANKING_CONFIG;
+
+  if (!config.enabled || !config.modelId) return null;
+
+  const modelDoc = await db
+    .collection(RANKING_COLLECTIONS.models)
+    .doc(config.modelId)
+    .get();
+
+  if (!modelDoc.exists) {
+    console.warn("Ranking model missing, blending skipped:", config.modelId);
+    return null;
+  }
+
+  return {
+    model: modelDoc.data() as RankingModel,
+    modelId: config.modelId,
+    blendWeight: config.blendWeight,
+  };
+}
+
+/**
+ * Every booking request and review of the customer; labeling filters them
+ * per search and artist
+ */
+async function loadCustomerOutcomes(
+  customerId: string,
+): Promise<ImpressionOutcomes> {
+  const [bookingsSnapshot, reviewsSnapshot] = await Promise.all([
+    db
+      .collection(BOOKING_COLLECTIONS.requests)
+      .where("customerId", "==", customerId)
+      .get(),
+    db.collection("reviews").where("customerId", "==", customerId).get(),
+  ]);
+
+  return {
+    bookings: bookingsSnapshot.docs.map((doc) => ({
+      artistId: doc.data().artistId,
+      status: doc.data().status,
+      createdAt: doc.data().createdAt.toDate(),
+    })),
+    reviews: reviewsSnapshot.docs.map((doc) => ({
+      artistId: doc.data().artistId,
+      overallRating: doc.data().overallRating,
+      createdAt: doc.data().createdAt.toDate(),
+    })),
+  };
+}
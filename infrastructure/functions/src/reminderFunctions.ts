@@ -0,0 +1,236 @@
+/**
+ * Reminder Functions - Tattoo Journey 2.0
+ * Appointment reminders and aftercare follow-ups for confirmed bookings
+ */
+
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {
+  AFTERCARE_REMINDER_KINDS,
+  APPOINTMENT_REMINDER_KINDS,
+  BOOKING_COLLECTIONS,
+  REMINDER_COLLECTIONS,
+  REMINDER_DEFINITIONS,
+  ReminderKind,
+  getScheduledNotificationId,
+  isReminderCategoryEnabled,
+  isReminderExpired,
+  parseBookingStatus,
+  planReminders,
+} from "@tattoo-journey/shared";
+import { sendPushNotification } from "./notificationFunctions";
+
+const db = admin.firestore();
+
+const REMINDER_BATCH_SIZE = 200;
+
+/**
+ * Keep scheduledNotifications in sync with the booking: appointment reminders
+ * on confirmation / reschedule, aftercare on completion, nothing once cancelled
+ */
+export const scheduleBookingReminders = functions.firestore
+  .document(`${BOOKING_COLLECTIONS.requests}/{bookingId}`)
+  .onWrite(async (change, context) => {
+    const bookingId = context.params.bookingId;
+    const after = change.after.exists ? change.after.data() : null;
+    const before = change.before.exists ? change.before.data() : null;
+
+    if (!after) {
+      return;
+    }
+
+    const status = parseBookingStatus(after.status);
+    const previousStatus = before ? parseBookingStatus(before.status) : null;
+    const appointmentDate: Date | undefined = after.confirmedDate?.toDate();
+    const previousAppointment: Date | undefined =
+      before?.confirmedDate?.toDate();
+
+    try {
+      if (
+        status === "confirmed" &&
+        appointmentDate &&
+        (previousStatus !== "confirmed" ||
+          previousAppointment?.getTime() !== appointmentDate.getTime())
+      ) {
+        await replaceReminders(
+          bookingId,
+          after.customerId,
+          APPOINTMENT_REMINDER_KINDS,
+          appointmentDate,
+        );
+      }
+
+      if (status === "completed" && previousStatus !== "completed") {
+        await cancelReminders(bookingId, APPOINTMENT_REMINDER_KINDS);
+        await replaceReminders(
+          bookingId,
+          after.customerId,
+          AFTERCARE_REMINDER_KINDS,
+          after.completedAt?.toDate() || new Date(),
+        );
+      }
+
+      if (status === "cancelled" && previousStatus !== "cancelled") {
+        await cancelReminders(bookingId);
+      }
+    } catch (error) {
+      console.error("Error scheduling booking reminders:", error);
+    }
+  });
+
+/**
+ * Send reminders that are due, honouring the recipient's category toggles.
+ * Appointment reminders that are only picked up after the appointment has
+ * started are skipped instead of sent late.
+ */
+export const sendDueReminders = functions.pubsub
+  .schedule("every 15 minutes")
+  .onRun(async () => {
+    try {
+      const dueSnapshot = await db
+        .collection(REMINDER_COLLECTIONS.scheduled)
+        .where("status", "==", "scheduled")
+        .where("sendAt", "<=", admin.firestore.Timestamp.now())
+        .orderBy("sendAt")
+        .limit(REMINDER_BATCH_SIZE)
+        .get();
+
+      const settingsByUser = new Map<string, any>();
+
+      for (const doc of dueSnapshot.docs) {
+        const reminder = doc.data();
+        const kind = reminder.kind as ReminderKind;
+        const definition = REMINDER_DEFINITIONS[kind];
+
+        if (
+          reminder.anchorDate &&
+          isReminderExpired({ kind, anchorDate: reminder.anchorDate.toDate() })
+        ) {
+          await doc.ref.update({ status: "skipped", skippedReason: "expired" });
+          continue;
+        }
+
+        if (!settingsByUser.has(reminder.recipientId)) {
+          const settingsDoc = await db
+            .collection(REMINDER_COLLECTIONS.settings)
+            .doc(reminder.recipientId)
+            .get();
+          settingsByUser.set(reminder.recipientId, settingsDoc.data() || null);
+        }
+
+        if (
+          !definition ||
+          !isReminderCategoryEnabled(
+            settingsByUser.get(reminder.recipientId),
+            definition.category,
+          )
+        ) {
+          await doc.ref.update({
+            status: "skipped",
+            skippedReason: definition ? "category_disabled" : "unknown_kind",
+          });
+          continue;
+        }
+
+        try {
+          await sendPushNotification(
+            reminder.recipientId,
+            definition.title,
+            definition.body,
+            {
+              type: definition.category,
+              reminderKind: kind,
+              bookingId: reminder.bookingId,
+              clickAction: "FLUTTER_NOTIFICATION_CLICK",
+            },
+          );
+
+          await doc.ref.update({
+            status: "sent",
+            sentAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
+
+          await db.collection("notificationLogs").add({
+            type: definition.category,
+            reminderKind: kind,
+            recipientId: reminder.recipientId,
+            bookingId: reminder.bookingId,
+            title: definition.title,
+            body: definition.body,
+            timestamp: admin.firestore.FieldValue.serverTimestamp(),
+            status: "sent",
+          });
+        } catch (error) {
+          // Left scheduled so the next run retries it
+          console.error("Error sending reminder:", doc.id, error);
+        }
+      }
+
+      console.log("Due reminders processed:", dueSnapshot.size);
+    } catch (error) {
+      console.error("Error sending due reminders:", error);
+    }
+  });
+
+/**
+ * Cancel the booking's pending reminders of `kinds` and schedule the ones
+ * still in the future for the new anchor date
+ */
+async function replaceReminders(
+  bookingId: string,
+  recipientId: string,
+  kinds: ReminderKind[],
+  anchorDate: Date,
+): Promise<void> {
+  await cancelReminders(bookingId, kinds);
+
+  const batch = db.batch();
+
+  planReminders(kinds, anchorDate).forEach((reminder) => {
+    batch.set(
+      db
+        .collection(REMINDER_COLLECTIONS.scheduled)
+        .doc(getScheduledNotificationId(bookingId, reminder.kind)),
+      {
+        bookingId,
+        recipientId,
+        kind: reminder.kind,
+        category: reminder.category,
+        sendAt: admin.firestore.Timestamp.fromDate(reminder.sendAt),
+        anchorDate: admin.firestore.Timestamp.fromDate(anchorDate),
+        status: "scheduled",
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      },
+    );
+  });
+
+  await batch.commit();
+}
+
+/**
+ * Cancel the booking's reminders that have not been sent yet
+ * (all kinds unless `kinds` is given)
+ */
+async function cancelReminders(
+  bookingId: string,
+  kinds?: ReminderKind[],
+): Promise<void> {
+  const pendingSnapshot = await db
+    .collection(REMINDER_COLLECTIONS.scheduled)
+    .where("bookingId", "==", bookingId)
+    .where("status", "==", "scheduled")
+    .get();
+  const pendingDocs = pendingSnapshot.docs.filter(
+    (doc) => !kinds || kinds.includes(doc.data().kind),
+  );
+
+  if (pendingDocs.length === 0) {
+    return;
+  }
+
+  const batch = db.batch();
+  pendingDocs.forEach((doc) => {
+    batch.update(doc.ref, { status: "cancelled" });
+  });
+  await batch.commit();
+}
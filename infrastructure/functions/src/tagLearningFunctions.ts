@@ -0,0 +1,242 @@
+/**
+ * Tag Learning Functions - Tattoo Journey 2.0
+ * Aggregate the artists' manual tag corrections into the label-to-tag
+ * weights auto-tagging applies, and report how often auto-tags are accepted.
+ * Each correction is learned into the artist's weights right away; the global
+ * weights are updated in batches by a scheduled job, so they never become a
+ * hot document.
+ */
+
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {
+  GLOBAL_TAG_WEIGHTS_BATCH_SIZE,
+  MAX_DAILY_TAG_CORRECTIONS,
+  TAG_LEARNING_COLLECTIONS,
+  TagAcceptanceStats,
+  TagCorrection,
+  TagCorrectionLearningStatus,
+  TagLearningWeights,
+  applyTagCorrection,
+  applyTagCorrections,
+  createEmptyTagWeights,
+  getTagAcceptanceRate,
+  getTagLearningQuotaId,
+  getTagWeightsDocId,
+  isAcceptedUnchanged,
+  parseTagCorrection,
+} from "@tattoo-journey/shared";
+
+const db = admin.firestore();
+
+const DEFAULT_TAG_ACCEPTANCE_DAYS = 30;
+const MAX_TAG_ACCEPTANCE_DAYS = 365;
+
+/**
+ * Fold each saved correction into the artist's weights, up to the artist's
+ * daily quota, and queue it for the global aggregation
+ */
+export const learnFromTagCorrection = functions.firestore
+  .document(`${TAG_LEARNING_COLLECTIONS.corrections}/{correctionId}`)
+  .onCreate(async (snapshot) => {
+    const data = snapshot.data();
+    const correction = parseTagCorrection(data);
+
+    if (typeof data.artistId !== "string" || !correction) return;
+
+    const artistRef = db
+      .collection(TAG_LEARNING_COLLECTIONS.weights)
+      .doc(getTagWeightsDocId(data.artistId));
+    const quotaRef = db
+      .collection(TAG_LEARNING_COLLECTIONS.quotas)
+      .doc(
+        getTagLearningQuotaId(
+          data.artistId,
+          new Date().toISOString().slice(0, 10),
+        ),
+      );
+
+    try {
+      await db.runTransaction(async (transaction) => {
+        const [weightsSnapshot, quotaSnapshot] = await transaction.getAll(
+          artistRef,
+          quotaRef,
+        );
+        const learnedToday = (quotaSnapshot.data()?.count as number) || 0;
+        const now = admin.firestore.FieldValue.serverTimestamp();
+
+        if (learnedToday >= MAX_DAILY_TAG_CORRECTIONS) {
+          transaction.update(snapshot.ref, {
+            learningStatus: "rate_limited" as TagCorrectionLearningStatus,
+          });
+          return;
+        }
+
+        const weights = weightsSnapshot.exists
+          ? (weightsSnapshot.data() as TagLearningWeights)
+          : createEmptyTagWeights();
+
+        transaction.set(artistRef, {
+          ...applyTagCorrection(weights, correction),
+          updatedAt: now,
+        });
+        transaction.set(quotaRef, {
+          artistId: data.artistId,
+          count: learnedToday + 1,
+          updatedAt: now,
+        });
+        transaction.update(snapshot.ref, {
+          learningStatus: "pending_global" as TagCorrectionLearningStatus,
+        });
+      });
+    } catch (error) {
+      console.error("Error learning from tag correction:", snapshot.id, error);
+    }
+  });
+
+/**
+ * Fold queued corrections into the global weights and the daily acceptance
+ * metrics, one batch per run
+ */
+export const aggregateGlobalTagWeights = functions.pubsub
+  .schedule("every 30 minutes")
+  .onRun(async () => {
+    try {
+      const pendingSnapshot = await db
+        .collection(TAG_LEARNING_COLLECTIONS.corrections)
+        .where("learningStatus", "==", "pending_global")
+        .limit(GLOBAL_TAG_WEIGHTS_BATCH_SIZE)
+        .get();
+
+      if (pendingSnapshot.empty) return;
+
+      const globalRef = db
+        .collection(TAG_LEARNING_COLLECTIONS.weights)
+        .doc(getTagWeightsDocId());
+
+      await db.runTransaction(async (transaction) => {
+        const [globalSnapshot, ...correctionSnapshots] =
+          await transaction.getAll(
+            globalRef,
+            ...pendingSnapshot.docs.map((doc) => doc.ref),
+          );
+        const corrections: TagCorrection[] = [];
+        const dailyMetrics = new Map<string, TagAcceptanceStats>();
+
+        correctionSnapshots.forEach((correctionSnapshot) => {
+          const data = correctionSnapshot.data();
+          // Taken by an overlapping run
+          if (data?.learningStatus !== "pending_global") return;
+
+          const correction = parseTagCorrection(data);
+          if (correction) {
+            corrections.push(correction);
+
+            // Only first reviews of auto-tags measure acceptance; later
+            // edits start from the artist's own tags
+            if (data.reviewsAutoTags === true) {
+              const day = (
+                correctionSnapshot.createTime?.toDate() || new Date()
+              )
+                .toISOString()
+                .slice(0, 10);
+              const stats = dailyMetrics.get(day) || {
+                reviewed: 0,
+                acceptedUnchanged: 0,
+              };
+              stats.reviewed++;
+              if (isAcceptedUnchanged(correction)) stats.acceptedUnchanged++;
+              dailyMetrics.set(day, stats);
+            }
+          }
+
+          transaction.update(correctionSnapshot.ref, {
+            learningStatus: "learned" as TagCorrectionLearningStatus,
+          });
+        });
+
+        const weights = globalSnapshot.exists
+          ? (globalSnapshot.data() as TagLearningWeights)
+          : createEmptyTagWeights();
+
+        transaction.set(globalRef, {
+          ...applyTagCorrections(weights, corrections),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        dailyMetrics.forEach((stats, day) => {
+          transaction.set(
+            db.collection(TAG_LEARNING_COLLECTIONS.metrics).doc(day),
+            {
+              reviewed: admin.firestore.FieldValue.increment(stats.reviewed),
+              acceptedUnchanged: admin.firestore.FieldValue.increment(
+                stats.acceptedUnchanged,
+              ),
+              updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+            },
+            { merge: true },
+          );
+        });
+      });
+
+      console.log("Tag corrections aggregated:", pendingSnapshot.size);
+    } catch (error) {
+      console.error("Error aggregating global tag weights:", error);
+    }
+  });
+
+/**
+ * Daily share of auto-tags accepted unchanged (admin only)
+ */
+export const getTagAcceptanceStats = functions.https.onCall(
+  async (data, context) => {
+    if (!context.auth?.token.admin) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "Admin privileges required",
+      );
+    }
+
+    const days = Math.min(
+      Math.max(Math.floor(data?.days || DEFAULT_TAG_ACCEPTANCE_DAYS), 1),
+      MAX_TAG_ACCEPTANCE_DAYS,
+    );
+
+    try {
+      const refs = Array.from({ length: days }, (_, i) =>
+        db
+          .collection(TAG_LEARNING_COLLECTIONS.metrics)
+          .doc(new Date(Date.now() - i * 86400000).toISOString().slice(0, 10)),
+      );
+      const snapshots = await db.getAll(...refs);
+      const daily = snapshots.map((snapshot) => ({
+        date: snapshot.id,
+        reviewed: (snapshot.data()?.reviewed as number) || 0,
+        acceptedUnchanged: (snapshot.data()?.acceptedUnchanged as number) || 0,
+      }));
+      const total: TagAcceptanceStats = daily.reduce(
+        (sum, day) => ({
+          reviewed: sum.reviewed + day.reviewed,
+          acceptedUnchanged: sum.acceptedUnchanged + day.acceptedUnchanged,
+        }),
+        { reviewed: 0, acceptedUnchanged: 0 },
+      );
+
+      return {
+        success: true,
+        ...total,
+        acceptanceRate: getTagAcceptanceRate(total),
+        daily: daily.map((day) => ({
+          ...day,
+          acceptanceRate: getTagAcceptanceRate(day),
+        })),
+      };
+    } catch (error) {
+      console.error("Error loading tag acceptance stats:", error);
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to load tag acceptance stats",
+      );
+    }
+  },
+);
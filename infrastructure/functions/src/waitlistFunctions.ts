@@ -0,0 +1,481 @@
+/**
+ * Waitlist Functions - Tattoo Journey 2.0
+ * Offer freed slots to waitlisted customers with a time-limited hold
+ */
+
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {
+  AVAILABILITY_COLLECTIONS,
+  BOOKING_COLLECTIONS,
+  BOOKING_SCHEMA_VERSION,
+  BOOKING_SLOT_CONFLICT_CODE,
+  FreedSlot,
+  WAITLIST_COLLECTIONS,
+  getBookingEndTime,
+  getBookingRoomId,
+  getWaitlistBookingHoldExpiry,
+  getWaitlistHoldId,
+  getWaitlistOfferExpiry,
+  isWaitlistHoldId,
+  rankWaitlistEntries,
+} from "@tattoo-journey/shared";
+import { reserveBookingSlot } from "./bookingFunctions";
+import { sendPushNotification } from "./notificationFunctions";
+
+const db = admin.firestore();
+
+interface RespondToWaitlistOfferData {
+  offerId: string;
+  accept: boolean;
+}
+
+/**
+ * A busy slot that disappears (cancelled / declined booking, cancelled
+ * project session) or moves (rescheduled booking) frees its old time range
+ */
+export const offerFreedBusySlot = functions.firestore
+  .document(`${AVAILABILITY_COLLECTIONS.busySlots}/{slotId}`)
+  .onWrite(async (change, context) => {
+    const slotId = context.params.slotId;
+    const before = change.before.exists ? change.before.data() : null;
+    const after = change.after.exists ? change.after.data() : null;
+
+    // Holds are handed on explicitly when an offer is declined or expires
+    if (!before || isWaitlistHoldId(slotId)) {
+      return;
+    }
+
+    if (
+      after &&
+      after.startTime.isEqual(before.startTime) &&
+      after.endTime.isEqual(before.endTime)
+    ) {
+      return;
+    }
+
+    try {
+      const confirmedDoc = await db
+        .collection(BOOKING_COLLECTIONS.confirmed)
+        .doc(slotId)
+        .get();
+
+      await offerSlotToWaitlist({
+        artistId: before.artistId,
+        startTime: before.startTime.toDate(),
+        endTime: before.endTime.toDate(),
+        referencePrice: confirmedDoc.exists
+          ? confirmedDoc.data()?.price
+          : undefined,
+      });
+    } catch (error) {
+      console.error("Error offering freed slot to waitlist:", error);
+    }
+  });
+
+/**
+ * Accept (creates a booking request for the held time) or decline an offer
+ */
+export const respondToWaitlistOffer = functions.https.onCall(
+  async (data: RespondToWaitlistOfferData, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "User must be authenticated",
+      );
+    }
+
+    const { offerId, accept } = data || {};
+
+    if (!offerId || typeof accept !== "boolean") {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Offer ID and a decision are required",
+      );
+    }
+
+    const userId = context.auth.uid;
+    const offerRef = db.collection(WAITLIST_COLLECTIONS.offers).doc(offerId);
+    const holdRef = db
+      .collection(AVAILABILITY_COLLECTIONS.busySlots)
+      .doc(getWaitlistHoldId(offerId));
+
+    try {
+      const result = await db.runTransaction(async (transaction) => {
+        const offerDoc = await transaction.get(offerRef);
+
+        if (!offerDoc.exists) {
+          throw new functions.https.HttpsError("not-found", "Offer not found");
+        }
+
+        const offer = offerDoc.data()!;
+
+        if (offer.customerId !== userId) {
+          throw new functions.https.HttpsError(
+            "permission-denied",
+            "Only the offered customer can respond",
+          );
+        }
+
+        if (
+          offer.status !== "pending" ||
+          offer.expiresAt.toDate().getTime() <= Date.now()
+        ) {
+          throw new functions.https.HttpsError(
+            "failed-precondition",
+            "This offer is no longer available",
+          );
+        }
+
+        const entryRef = db
+          .collection(WAITLIST_COLLECTIONS.entries)
+          .doc(offer.entryId);
+        const entryDoc = await transaction.get(entryRef);
+        const entry = entryDoc.data();
+        // Accepting the offer is when the customer agrees to the artist's
+        // current cancellation policy (null: the default applies)
+        const artistDoc =
+          accept && entry
+            ? await transaction.get(db.collection("users").doc(offer.artistId))
+            : null;
+        const now = admin.firestore.FieldValue.serverTimestamp();
+
+        transaction.delete(holdRef);
+
+        if (!accept || !entry) {
+          transaction.update(offerRef, {
+            status: "declined",
+            respondedAt: now,
+          });
+          if (entry) {
+            // Stays in line for the next freed slot
+            transaction.update(entryRef, { status: "waiting", updatedAt: now });
+          }
+          return { bookingId: null, offer };
+        }
+
+        const bookingRef = db.collection(BOOKING_COLLECTIONS.requests).doc();
+        const startTime: Date = offer.startTime.toDate();
+
+        transaction.set(bookingRef, {
+          customerId: offer.customerId,
+          artistId: offer.artistId,
+          roomId: getBookingRoomId(offer.customerId, offer.artistId),
+          tattooDescription: entry.tattooDescription || "",
+          preferredSize: entry.preferredSize,
+          bodyLocation: entry.bodyLocation || "",
+          preferredDate: offer.startTime,
+          alternativeDates: [],
+          estimatedDuration: entry.estimatedDuration,
+          estimatedPrice: entry.budgetRange.max,
+          budgetRange: entry.budgetRange,
+          hasAllergies: false,
+          agreedCancellationPolicy:
+            artistDoc?.data()?.profile?.artistInfo?.cancellationPolicy ?? null,
+          status: "pending",
+          waitlistOfferId: offerId,
+          holdExpiresAt: admin.firestore.Timestamp.fromDate(
+            getWaitlistBookingHoldExpiry(new Date(), startTime),
+          ),
+          schemaVersion: BOOKING_SCHEMA_VERSION,
+          createdAt: now,
+          updatedAt: now,
+          responses: [],
+        });
+
+        // The booking keeps the held time until the artist confirms
+        // (transitionBooking overwrites this document) or declines it, or
+        // until expireWaitlistBookingHolds releases it
+        transaction.set(
+          db.collection(AVAILABILITY_COLLECTIONS.busySlots).doc(bookingRef.id),
+          {
+            artistId: offer.artistId,
+            startTime: offer.startTime,
+            endTime: admin.firestore.Timestamp.fromDate(
+              getBookingEndTime(startTime, entry.estimatedDuration),
+            ),
+          },
+        );
+
+        transaction.update(offerRef, {
+          status: "accepted",
+          bookingId: bookingRef.id,
+          respondedAt: now,
+        });
+        transaction.update(entryRef, { status: "booked", updatedAt: now });
+
+        return { bookingId: bookingRef.id, offer };
+      });
+
+      if (!result.bookingId) {
+        await offerSlotToWaitlist(toFreedSlot(result.offer), [
+          ...result.offer.offeredEntryIds,
+        ]);
+      }
+
+      return { success: true, bookingId: result.bookingId };
+    } catch (error) {
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+
+      console.error("Error responding to waitlist offer:", error);
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to respond to waitlist offer",
+      );
+    }
+  },
+);
+
+/**
+ * Release holds of offers nobody answered and offer the slot to the next
+ * customer in line
+ */
+export const expireWaitlistOffers = functions.pubsub
+  .schedule("every 5 minutes")
+  .onRun(async () => {
+    try {
+      const expiredSnapshot = await db
+        .collection(WAITLIST_COLLECTIONS.offers)
+        .where("status", "==", "pending")
+        .where("expiresAt", "<=", admin.firestore.Timestamp.now())
+        .get();
+
+      for (const offerDoc of expiredSnapshot.docs) {
+        const offer = offerDoc.data();
+
+        const expired = await db.runTransaction(async (transaction) => {
+          const current = await transaction.get(offerDoc.ref);
+          if (current.data()?.status !== "pending") {
+            return false;
+          }
+
+          const now = admin.firestore.FieldValue.serverTimestamp();
+          transaction.update(offerDoc.ref, { status: "expired" });
+          transaction.delete(
+            db
+              .collection(AVAILABILITY_COLLECTIONS.busySlots)
+              .doc(getWaitlistHoldId(offerDoc.id)),
+          );
+          transaction.update(
+            db.collection(WAITLIST_COLLECTIONS.entries).doc(offer.entryId),
+            { status: "waiting", updatedAt: now },
+          );
+          return true;
+        });
+
+        if (expired) {
+          await offerSlotToWaitlist(toFreedSlot(offer), offer.offeredEntryIds);
+        }
+      }
+
+      console.log("Expired waitlist offers processed:", expiredSnapshot.size);
+    } catch (error) {
+      console.error("Error expiring waitlist offers:", error);
+    }
+  });
+
+/**
+ * Decline pending bookings from accepted offers the artist has not answered
+ * within the hold period. Deleting their busy slot offers the time to the
+ * next customer in line (offerFreedBusySlot).
+ */
+export const expireWaitlistBookingHolds = functions.pubsub
+  .schedule("every 15 minutes")
+  .onRun(async () => {
+    try {
+      const expiredSnapshot = await db
+        .collection(BOOKING_COLLECTIONS.requests)
+        .where("holdExpiresAt", "<=", admin.firestore.Timestamp.now())
+        .get();
+
+      for (const bookingDoc of expiredSnapshot.docs) {
+        await db.runTransaction(async (transaction) => {
+          const current = await transaction.get(bookingDoc.ref);
+          const booking = current.data();
+          if (!booking || !booking.holdExpiresAt) {
+            return;
+          }
+
+          const now = admin.firestore.FieldValue.serverTimestamp();
+
+          // Answered in time: the booking no longer needs the hold
+          if (booking.status !== "pending") {
+            transaction.update(bookingDoc.ref, {
+              holdExpiresAt: admin.firestore.FieldValue.delete(),
+            });
+            return;
+          }
+
+          transaction.update(bookingDoc.ref, {
+            status: "declined",
+            holdExpiresAt: admin.firestore.FieldValue.delete(),
+            updatedAt: now,
+          });
+          transaction.set(
+            bookingDoc.ref.collection(BOOKING_COLLECTIONS.transitions).doc(),
+            {
+              bookingId: bookingDoc.id,
+              fromState: "pending",
+              toState: "declined",
+              reason: "The artist did not answer within the waitlist hold",
+              actorId: "system",
+              actorRole: "system",
+              timestamp: now,
+            },
+          );
+          transaction.delete(
+            db
+              .collection(AVAILABILITY_COLLECTIONS.busySlots)
+              .doc(bookingDoc.id),
+          );
+        });
+      }
+
+      console.log(
+        "Expired waitlist booking holds processed:",
+        expiredSnapshot.size,
+      );
+    } catch (error) {
+      console.error("Error expiring waitlist booking holds:", error);
+    }
+  });
+
+/**
+ * Offer the freed slot to the best-matching waiting customer who has not been
+ * offered it yet. The hold is an artistBusySlots document, so the time is
+ * blocked for other bookings until the offer is answered or expires.
+ * Returns the offer id, or null when nobody can take the slot.
+ */
+export async function offerSlotToWaitlist(
+  slot: FreedSlot,
+  offeredEntryIds: string[] = [],
+): Promise<string | null> {
+  const now = new Date();
+
+  if (slot.startTime.getTime() <= now.getTime()) {
+    return null;
+  }
+
+  const entriesSnapshot = await db
+    .collection(WAITLIST_COLLECTIONS.entries)
+    .where("artistId", "==", slot.artistId)
+    .where("status", "==", "waiting")
+    .get();
+
+  const candidates = rankWaitlistEntries(
+    entriesSnapshot.docs.map((doc) => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        customerId: data.customerId as string,
+        earliestDate: data.earliestDate.toDate(),
+        latestDate: data.latestDate.toDate(),
+        estimatedDuration: data.estimatedDuration,
+        budgetRange: data.budgetRange,
+        status: data.status,
+        createdAt: data.createdAt.toDate(),
+      };
+    }),
+    slot,
+    offeredEntryIds,
+  );
+
+  for (const entry of candidates) {
+    const entryRef = db.collection(WAITLIST_COLLECTIONS.entries).doc(entry.id);
+    const offerRef = db.collection(WAITLIST_COLLECTIONS.offers).doc();
+    const holdRef = db
+      .collection(AVAILABILITY_COLLECTIONS.busySlots)
+      .doc(getWaitlistHoldId(offerRef.id));
+    const expiresAt = getWaitlistOfferExpiry(now, slot.startTime);
+
+    try {
+      const offered = await db.runTransaction(async (transaction) => {
+        const entryDoc = await transaction.get(entryRef);
+        if (entryDoc.data()?.status !== "waiting") {
+          return false;
+        }
+
+        // Only used for the conflict check: the hold blocks the time through
+        // its busy slot, schedule slots are marked once a booking confirms
+        await reserveBookingSlot(transaction, {
+          bookingId: holdRef.id,
+          artistId: slot.artistId,
+          startTime: slot.startTime,
+          duration: entry.estimatedDuration,
+        });
+
+        transaction.set(offerRef, {
+          artistId: slot.artistId,
+          customerId: entry.customerId,
+          entryId: entry.id,
+          startTime: admin.firestore.Timestamp.fromDate(slot.startTime),
+          endTime: admin.firestore.Timestamp.fromDate(slot.endTime),
+          ...(slot.referencePrice !== undefined && {
+            referencePrice: slot.referencePrice,
+          }),
+          status: "pending",
+          expiresAt: admin.firestore.Timestamp.fromDate(expiresAt),
+          offeredEntryIds: [...offeredEntryIds, entry.id],
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        transaction.set(holdRef, {
+          artistId: slot.artistId,
+          startTime: admin.firestore.Timestamp.fromDate(slot.startTime),
+          endTime: admin.firestore.Timestamp.fromDate(
+            getBookingEndTime(slot.startTime, entry.estimatedDuration),
+          ),
+        });
+        transaction.update(entryRef, {
+          status: "offered",
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        return true;
+      });
+
+      if (!offered) {
+        continue;
+      }
+
+      try {
+        await sendPushNotification(
+          entry.customerId,
+          "キャンセル待ちの枠が空きました",
+          `${slot.startTime.toLocaleString("ja-JP", { timeZone: "Asia/Tokyo" })} の枠をお取りしています。期限までにお申し込みください`,
+          {
+            type: "waitlist_offer",
+            offerId: offerRef.id,
+            clickAction: "FLUTTER_NOTIFICATION_CLICK",
+          },
+        );
+      } catch (error) {
+        console.error("Error notifying waitlist offer:", error);
+      }
+
+      return offerRef.id;
+    } catch (error) {
+      if (
+        error instanceof functions.https.HttpsError &&
+        error.code === BOOKING_SLOT_CONFLICT_CODE
+      ) {
+        // Someone else took (part of) the time in the meantime; a customer
+        // further down the line may still fit with a shorter session
+        continue;
+      }
+
+      console.error("Error creating waitlist offer:", error);
+    }
+  }
+
+  return null;
+}
+
+function toFreedSlot(offer: admin.firestore.DocumentData): FreedSlot {
+  return {
+    artistId: offer.artistId,
+    startTime: offer.startTime.toDate(),
+    endTime: offer.endTime.toDate(),
+    referencePrice: offer.referencePrice,
+  };
+}
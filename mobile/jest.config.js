@@ -1,5 +1,6 @@
 module.exports = {
   preset: "react-native",
+  globalSetup: "<rootDir>/src/test-utils/globalSetup.js",
   setupFilesAfterEnv: ["<rootDir>/src/__tests__/setup.ts"],
   testPathIgnorePatterns: [
     "<rootDir>/node_modules/",
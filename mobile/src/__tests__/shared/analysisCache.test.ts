@@ -0,0 +1,74 @@
+/**
+ * 🧪 Shared Image Analysis Cache Test Suite
+ */
+
+import {
+  ANALYSIS_CACHE_VERSION,
+  getAnalysisCacheKey,
+  getAnalysisCacheMetricsDocId,
+  getCacheHitRate,
+  hashImageContent,
+  sumAnalysisCacheStats,
+} from "@tattoo-journey/shared";
+
+describe("Shared image analysis cache", () => {
+  const bytes = (text: string) =>
+    new Uint8Array(Array.from(text, (char) => char.charCodeAt(0)));
+
+  describe("hashImageContent", () => {
+    it("should match SHA-256 test vectors", () => {
+      expect(hashImageContent(new Uint8Array(0))).toBe(
+        "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855",
+      );
+      expect(hashImageContent(bytes("abc"))).toBe(
+        "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+      );
+      // Two blocks of padding
+      expect(
+        hashImageContent(
+          bytes("abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq"),
+        ),
+      ).toBe(
+        "248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1",
+      );
+    });
+
+    it("should hash images larger than one block", () => {
+      const image = new Uint8Array(1000).map((_, i) => i % 251);
+
+      expect(hashImageContent(image)).toBe(hashImageContent(image.slice()));
+      expect(hashImageContent(image)).not.toBe(
+        hashImageContent(image.subarray(1)),
+      );
+    });
+  });
+
+  describe("getAnalysisCacheKey", () => {
+    it("should change with the classifier version", () => {
+      expect(getAnalysisCacheKey("abc")).toBe(`v${ANALYSIS_CACHE_VERSION}_abc`);
+      expect(getAnalysisCacheKey("abc", ANALYSIS_CACHE_VERSION + 1)).not.toBe(
+        getAnalysisCacheKey("abc"),
+      );
+    });
+  });
+
+  describe("metrics", () => {
+    it("should key metrics by UTC day", () => {
+      expect(
+        getAnalysisCacheMetricsDocId(new Date("2024-03-05T23:30:00Z")),
+      ).toBe("2024-03-05");
+    });
+
+    it("should sum daily counters into a hit rate", () => {
+      const total = sumAnalysisCacheStats([
+        { hits: 3, misses: 1 },
+        {},
+        { hits: 1, misses: 3 },
+      ]);
+
+      expect(total).toEqual({ hits: 4, misses: 4 });
+      expect(getCacheHitRate(total)).toBe(0.5);
+      expect(getCacheHitRate({ hits: 0, misses: 0 })).toBe(0);
+    });
+  });
+});
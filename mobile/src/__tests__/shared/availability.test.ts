@@ -0,0 +1,220 @@
+/**
+ * 🧪 Shared Artist Availability Test Suite
+ */
+
+import {
+  atTimeOfDay,
+  expandAvailability,
+  getWorkingHoursForDate,
+  isValidWorkingHours,
+  isWithinWorkingHours,
+  toDateKey,
+} from "@tattoo-journey/shared";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Midnight JST of the given calendar day
+const jstDay = (year: number, month: number, day: number) =>
+  new Date(Date.UTC(year, month, day) - 9 * HOUR_MS);
+
+describe("Shared availability model", () => {
+  // 2025-01-06 is a Monday
+  const monday = jstDay(2025, 0, 6);
+  const tuesday = jstDay(2025, 0, 7);
+  const at = (day: Date, hour: number, minute = 0) =>
+    new Date(day.getTime() + hour * HOUR_MS + minute * 60 * 1000);
+  const template = {
+    weeklyHours: {
+      1: [{ start: "10:00", end: "14:00" }],
+      2: [{ start: "10:00", end: "12:00" }],
+    },
+    slotIntervalMinutes: 60,
+    bufferMinutes: 0,
+  };
+  const past = jstDay(2024, 0, 1);
+
+  describe("isValidWorkingHours", () => {
+    it("should require HH:mm with start before end", () => {
+      expect(isValidWorkingHours({ start: "10:00", end: "18:00" })).toBe(true);
+      expect(isValidWorkingHours({ start: "18:00", end: "10:00" })).toBe(false);
+      expect(isValidWorkingHours({ start: "9:00", end: "18:00" })).toBe(false);
+    });
+  });
+
+  describe("getWorkingHoursForDate", () => {
+    it("should apply holidays, custom and extended hours", () => {
+      const exceptions = [
+        { date: toDateKey(monday), type: "holiday" as const },
+        {
+          date: toDateKey(tuesday),
+          type: "extended_hours" as const,
+          hours: [{ start: "18:00", end: "20:00" }],
+        },
+      ];
+
+      expect(getWorkingHoursForDate(template, exceptions, monday)).toEqual([]);
+      expect(getWorkingHoursForDate(template, exceptions, tuesday)).toEqual([
+        { start: "10:00", end: "12:00" },
+        { start: "18:00", end: "20:00" },
+      ]);
+      expect(
+        getWorkingHoursForDate(
+          template,
+          [
+            {
+              date: toDateKey(monday),
+              type: "custom_hours",
+              hours: [{ start: "13:00", end: "15:00" }],
+            },
+          ],
+          monday,
+        ),
+      ).toEqual([{ start: "13:00", end: "15:00" }]);
+    });
+  });
+
+  describe("isWithinWorkingHours", () => {
+    it("should require the whole session inside one working window", () => {
+      expect(isWithinWorkingHours(template, [], at(monday, 10), 240)).toBe(
+        true,
+      );
+      expect(isWithinWorkingHours(template, [], at(monday, 13), 120)).toBe(
+        false,
+      );
+      expect(isWithinWorkingHours(template, [], at(monday, 8), 60)).toBe(false);
+    });
+
+    it("should reject holidays and closed days", () => {
+      expect(
+        isWithinWorkingHours(
+          template,
+          [{ date: toDateKey(monday), type: "closed" }],
+          at(monday, 10),
+          60,
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe("expandAvailability", () => {
+    it("should expand weekly hours into slots for every day in range", () => {
+      const days = expandAvailability({
+        template,
+        exceptions: [],
+        busy: [],
+        startDate: monday,
+        endDate: at(tuesday, 23, 59),
+        duration: 120,
+        now: past,
+      });
+
+      expect(days.map((day) => toDateKey(day.date))).toEqual([
+        toDateKey(monday),
+        toDateKey(tuesday),
+      ]);
+      expect(days[0].slots.map((slot) => slot.startTime)).toEqual([
+        at(monday, 10),
+        at(monday, 11),
+        at(monday, 12),
+      ]);
+      expect(days[1].slots).toEqual([
+        { startTime: at(tuesday, 10), endTime: at(tuesday, 12) },
+      ]);
+    });
+
+    it("should keep the buffer around existing bookings", () => {
+      const days = expandAvailability({
+        template: { ...template, bufferMinutes: 30 },
+        exceptions: [],
+        busy: [{ startTime: at(monday, 10), endTime: at(monday, 11) }],
+        startDate: monday,
+        endDate: monday,
+        duration: 60,
+        now: past,
+      });
+
+      // 11:00 starts inside the 30 minute buffer after the booking
+      expect(days[0].slots.map((slot) => slot.startTime)).toEqual([
+        at(monday, 12),
+        at(monday, 13),
+      ]);
+    });
+
+    it("should skip closed days and slots in the past", () => {
+      const days = expandAvailability({
+        template,
+        exceptions: [{ date: toDateKey(tuesday), type: "closed" }],
+        busy: [],
+        startDate: monday,
+        endDate: tuesday,
+        duration: 60,
+        now: at(monday, 12, 30),
+      });
+
+      expect(days).toHaveLength(1);
+      expect(days[0].slots.map((slot) => slot.startTime)).toEqual([
+        at(monday, 13),
+      ]);
+    });
+  });
+
+  // Cloud Functions run in UTC while working hours are JST
+  // (jest runs in UTC, see test-utils/globalSetup.js)
+  describe("in a UTC process", () => {
+    it("should run under UTC", () => {
+      expect(new Date(0).getTimezoneOffset()).toBe(0);
+    });
+
+    it("should key dates and weekdays by the JST calendar day", () => {
+      // 2025-01-06 00:30 JST is still Sunday 2025-01-05 in UTC
+      const earlyMonday = at(monday, 0, 30);
+
+      expect(toDateKey(earlyMonday)).toBe("2025-01-06");
+      expect(getWorkingHoursForDate(template, [], earlyMonday)).toEqual([
+        { start: "10:00", end: "14:00" },
+      ]);
+    });
+
+    it("should read working hours as JST", () => {
+      expect(atTimeOfDay(monday, "10:00").toISOString()).toBe(
+        "2025-01-06T01:00:00.000Z",
+      );
+      expect(
+        isWithinWorkingHours(
+          template,
+          [],
+          new Date("2025-01-06T01:00:00.000Z"),
+          240,
+        ),
+      ).toBe(true);
+      // 10:00 UTC is 19:00 JST, after closing
+      expect(
+        isWithinWorkingHours(
+          template,
+          [],
+          new Date("2025-01-06T10:00:00.000Z"),
+          60,
+        ),
+      ).toBe(false);
+    });
+
+    it("should expand slots from JST midnight", () => {
+      const days = expandAvailability({
+        template,
+        exceptions: [],
+        busy: [],
+        startDate: at(monday, 12),
+        endDate: at(monday, 23),
+        duration: 60,
+        now: past,
+      });
+
+      expect(days.map((day) => day.date.toISOString())).toEqual([
+        "2025-01-05T15:00:00.000Z",
+      ]);
+      expect(days[0].slots[0].startTime.toISOString()).toBe(
+        "2025-01-06T01:00:00.000Z",
+      );
+    });
+  });
+});
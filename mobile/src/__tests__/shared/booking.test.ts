@@ -0,0 +1,395 @@
+/**
+ * 🧪 Shared Booking Domain Model Test Suite
+ */
+
+import {
+  BOOKING_SCHEMA_VERSION,
+  canDecideBookingReschedule,
+  canTransitionBooking,
+  findBookingSlotConflicts,
+  getAllowedBookingTransitions,
+  getBookingActorRole,
+  getBookingRoomId,
+  getQuotedBookingTerms,
+  migrateLegacyBookingData,
+  parseBookingStatus,
+  releaseTimeSlots,
+  reserveTimeSlots,
+  toCanonicalBookingStatus,
+} from "@tattoo-journey/shared";
+
+describe("Shared booking model", () => {
+  describe("toCanonicalBookingStatus", () => {
+    it("should keep canonical statuses unchanged", () => {
+      expect(toCanonicalBookingStatus("negotiating")).toBe("negotiating");
+      expect(toCanonicalBookingStatus("cancelled")).toBe("cancelled");
+    });
+
+    it("should map legacy statuses", () => {
+      expect(toCanonicalBookingStatus("requested")).toBe("pending");
+      expect(toCanonicalBookingStatus("scheduled")).toBe("confirmed");
+      expect(toCanonicalBookingStatus("canceled")).toBe("cancelled");
+    });
+
+    it("should reject unknown values instead of reopening them as pending", () => {
+      expect(() => toCanonicalBookingStatus(undefined)).toThrow(
+        "Unknown booking status",
+      );
+      expect(() => toCanonicalBookingStatus("unknown")).toThrow(
+        "Unknown booking status",
+      );
+      expect(parseBookingStatus("unknown")).toBeNull();
+      expect(parseBookingStatus("toString")).toBeNull();
+      expect(parseBookingStatus("done")).toBe("completed");
+    });
+  });
+
+  describe("getBookingRoomId", () => {
+    it("should match the chat room id regardless of argument order", () => {
+      expect(getBookingRoomId("customer-1", "artist-1")).toBe(
+        "artist-1_customer-1",
+      );
+      expect(getBookingRoomId("artist-1", "customer-1")).toBe(
+        "artist-1_customer-1",
+      );
+    });
+  });
+
+  describe("migrateLegacyBookingData", () => {
+    it("should rewrite a legacy booking request", () => {
+      const updates = migrateLegacyBookingData({
+        customerId: "customer-1",
+        artistId: "artist-1",
+        status: "requested",
+      });
+
+      expect(updates).toEqual({
+        status: "pending",
+        roomId: "artist-1_customer-1",
+        responses: [],
+        alternativeDates: [],
+        schemaVersion: BOOKING_SCHEMA_VERSION,
+      });
+    });
+
+    it("should not add request-only fields to confirmed bookings", () => {
+      const updates = migrateLegacyBookingData(
+        {
+          customerId: "customer-1",
+          artistId: "artist-1",
+          status: "scheduled",
+        },
+        "confirmed",
+      );
+
+      expect(updates?.status).toBe("confirmed");
+      expect(updates?.responses).toBeUndefined();
+      expect(updates?.alternativeDates).toBeUndefined();
+    });
+
+    it("should leave documents with an unknown status untouched", () => {
+      expect(
+        migrateLegacyBookingData({
+          customerId: "customer-1",
+          artistId: "artist-1",
+          status: "archived",
+        }),
+      ).toBeNull();
+    });
+
+    it("should return no updates for canonical documents", () => {
+      const updates = migrateLegacyBookingData({
+        customerId: "customer-1",
+        artistId: "artist-1",
+        roomId: "artist-1_customer-1",
+        status: "confirmed",
+        responses: [],
+        alternativeDates: [],
+        schemaVersion: BOOKING_SCHEMA_VERSION,
+      });
+
+      expect(updates).toEqual({});
+    });
+  });
+
+  describe("getQuotedBookingTerms", () => {
+    const response = (
+      responderId: string,
+      minutes: number,
+      fields: Record<string, unknown>,
+    ) => ({
+      responderId,
+      createdAt: new Date(Date.UTC(2026, 0, 1, 0, minutes)),
+      ...fields,
+    });
+
+    it("should take the artist's latest quote, keeping an earlier duration", () => {
+      const slot = new Date("2026-02-01T10:00:00Z");
+      const terms = getQuotedBookingTerms({
+        artistId: "artist-1",
+        responses: [
+          response("artist-1", 0, {
+            proposedPrice: 30000,
+            proposedDuration: 120,
+          }),
+          response("artist-1", 2, {
+            proposedPrice: 35000,
+            proposedDates: [slot],
+          }),
+          // Customers echo prices when accepting; those never count
+          response("customer-1", 3, { proposedPrice: 1, proposedDuration: 30 }),
+        ],
+      });
+
+      expect(terms).toEqual({
+        price: 35000,
+        duration: 120,
+        proposedDates: [slot],
+      });
+    });
+
+    it("should return null until the artist has quoted a price and duration", () => {
+      expect(getQuotedBookingTerms({ artistId: "artist-1" })).toBeNull();
+      expect(
+        getQuotedBookingTerms({
+          artistId: "artist-1",
+          responses: [response("artist-1", 0, { proposedPrice: 30000 })],
+        }),
+      ).toBeNull();
+    });
+  });
+
+  describe("canTransitionBooking", () => {
+    it("should allow the happy path in order", () => {
+      expect(canTransitionBooking("pending", "negotiating", "artist")).toBe(
+        true,
+      );
+      expect(canTransitionBooking("negotiating", "accepted", "customer")).toBe(
+        true,
+      );
+      expect(canTransitionBooking("accepted", "confirmed", "artist")).toBe(
+        true,
+      );
+      expect(canTransitionBooking("confirmed", "completed", "artist")).toBe(
+        true,
+      );
+    });
+
+    it("should reject skipped or reversed transitions", () => {
+      expect(canTransitionBooking("pending", "confirmed", "artist")).toBe(
+        false,
+      );
+      expect(canTransitionBooking("completed", "confirmed", "system")).toBe(
+        false,
+      );
+      expect(canTransitionBooking("cancelled", "pending", "customer")).toBe(
+        false,
+      );
+    });
+
+    it("should enforce the caller's role", () => {
+      expect(canTransitionBooking("pending", "accepted", "customer")).toBe(
+        false,
+      );
+      expect(canTransitionBooking("confirmed", "completed", "customer")).toBe(
+        false,
+      );
+      expect(canTransitionBooking("confirmed", "cancelled", "customer")).toBe(
+        true,
+      );
+    });
+
+    it("should list no transitions from terminal statuses", () => {
+      expect(getAllowedBookingTransitions("declined", "system")).toEqual([]);
+      expect(getAllowedBookingTransitions("completed", "artist")).toEqual([]);
+    });
+  });
+
+  describe("getBookingActorRole", () => {
+    const booking = { customerId: "customer-1", artistId: "artist-1" };
+
+    it("should resolve participants", () => {
+      expect(getBookingActorRole(booking, "customer-1")).toBe("customer");
+      expect(getBookingActorRole(booking, "artist-1")).toBe("artist");
+    });
+
+    it("should return null for outsiders", () => {
+      expect(getBookingActorRole(booking, "someone-else")).toBeNull();
+    });
+  });
+
+  describe("canDecideBookingReschedule", () => {
+    const request = {
+      status: "pending" as const,
+      proposedByRole: "customer" as const,
+    };
+
+    it("should let the other party accept or reject", () => {
+      expect(canDecideBookingReschedule(request, "artist", "accept")).toBe(
+        true,
+      );
+      expect(canDecideBookingReschedule(request, "artist", "reject")).toBe(
+        true,
+      );
+      expect(canDecideBookingReschedule(request, "customer", "accept")).toBe(
+        false,
+      );
+    });
+
+    it("should only let the proposer withdraw", () => {
+      expect(canDecideBookingReschedule(request, "customer", "withdraw")).toBe(
+        true,
+      );
+      expect(canDecideBookingReschedule(request, "artist", "withdraw")).toBe(
+        false,
+      );
+    });
+
+    it("should reject decisions on answered requests", () => {
+      expect(
+        canDecideBookingReschedule(
+          { ...request, status: "accepted" },
+          "system",
+          "accept",
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe("slot reservation", () => {
+    const at = (hour: number) => new Date(2025, 0, 10, hour, 0, 0);
+    const request = {
+      bookingId: "booking-1",
+      startTime: at(13),
+      duration: 120,
+    };
+    const slots = [
+      {
+        startTime: at(10),
+        endTime: at(12),
+        isAvailable: true,
+        isBooked: false,
+      },
+      {
+        startTime: at(12),
+        endTime: at(14),
+        isAvailable: true,
+        isBooked: false,
+      },
+      {
+        startTime: at(14),
+        endTime: at(16),
+        isAvailable: true,
+        isBooked: false,
+      },
+      {
+        startTime: at(16),
+        endTime: at(18),
+        isAvailable: true,
+        isBooked: false,
+      },
+    ];
+
+    it("should report overlapping confirmed bookings of other requests", () => {
+      const conflicts = findBookingSlotConflicts(
+        request,
+        [
+          {
+            id: "booking-2",
+            bookingRequestId: "booking-2",
+            appointmentDate: at(14),
+            duration: 60,
+            status: "confirmed",
+          },
+          {
+            id: "booking-3",
+            appointmentDate: at(14),
+            duration: 60,
+            status: "cancelled",
+          },
+          {
+            id: "booking-1",
+            appointmentDate: at(13),
+            duration: 120,
+            status: "confirmed",
+          },
+        ],
+        slots,
+      );
+
+      expect(conflicts).toEqual([
+        {
+          type: "confirmed_booking",
+          bookingId: "booking-2",
+          startTime: at(14),
+          endTime: at(15),
+        },
+      ]);
+    });
+
+    it("should not treat back-to-back appointments as overlapping", () => {
+      const conflicts = findBookingSlotConflicts(
+        request,
+        [
+          {
+            id: "booking-2",
+            appointmentDate: at(15),
+            duration: 60,
+            status: "confirmed",
+          },
+        ],
+        [],
+      );
+
+      expect(conflicts).toEqual([]);
+    });
+
+    it("should skip bookings with unknown statuses instead of throwing", () => {
+      const conflicts = findBookingSlotConflicts(
+        request,
+        [
+          {
+            id: "booking-2",
+            appointmentDate: at(14),
+            duration: 60,
+            status: "archived",
+          },
+        ],
+        [],
+      );
+
+      expect(conflicts).toEqual([]);
+    });
+
+    it("should report booked and unavailable schedule slots", () => {
+      const conflicts = findBookingSlotConflicts(
+        request,
+        [],
+        [
+          { ...slots[1], isBooked: true, bookingId: "booking-2" },
+          { ...slots[2], isAvailable: false },
+        ],
+      );
+
+      expect(conflicts.map((c) => c.type)).toEqual([
+        "schedule_booked",
+        "schedule_unavailable",
+      ]);
+    });
+
+    it("should reserve and release only the overlapping slots", () => {
+      const reserved = reserveTimeSlots(slots, request);
+      expect(reserved.map((slot) => slot.isBooked)).toEqual([
+        false,
+        true,
+        true,
+        false,
+      ]);
+      expect(reserved[1].bookingId).toBe("booking-1");
+
+      const released = releaseTimeSlots(reserved, "booking-1");
+      expect(released.every((slot) => !slot.isBooked)).toBe(true);
+      expect("bookingId" in released[1]).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * 🧪 Shared Cancellation Policy Test Suite
+ */
+
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  canMarkNoShow,
+  describeCancellationPolicy,
+  evaluateCancellation,
+  getBookingCancellationPolicy,
+  isValidCancellationPolicy,
+} from "@tattoo-journey/shared";
+
+describe("Shared cancellation policy", () => {
+  const HOUR = 60 * 60 * 1000;
+  const appointmentDate = new Date(2025, 5, 1, 12);
+  const hoursBefore = (hours: number) =>
+    new Date(appointmentDate.getTime() - hours * HOUR);
+  const policy = DEFAULT_CANCELLATION_POLICY;
+
+  describe("evaluateCancellation", () => {
+    it("applies the refund window for customer cancellations", () => {
+      const early = evaluateCancellation({
+        policy,
+        cancelledBy: "customer",
+        cancelledAt: hoursBefore(10 * 24),
+        appointmentDate,
+      });
+      const late = evaluateCancellation({
+        policy,
+        cancelledBy: "customer",
+        cancelledAt: hoursBefore(24),
+        appointmentDate,
+      });
+
+      expect(early).toMatchObject({ isLate: false, depositRefundRate: 1 });
+      expect(late).toMatchObject({
+        cancelledBy: "customer",
+        hoursBefore: 24,
+        isLate: true,
+        depositRefundRate: 0,
+      });
+    });
+
+    it("flags late artist cancellations but refunds in full", () => {
+      const outcome = evaluateCancellation({
+        policy,
+        cancelledBy: "artist",
+        cancelledAt: hoursBefore(12),
+        appointmentDate,
+      });
+
+      expect(outcome).toMatchObject({
+        cancelledBy: "artist",
+        isLate: true,
+        depositRefundRate: 1,
+      });
+    });
+
+    it("attributes no-shows to the customer and forfeits the deposit", () => {
+      const outcome = evaluateCancellation({
+        policy,
+        cancelledBy: "artist",
+        cancelledAt: new Date(appointmentDate.getTime() + HOUR),
+        appointmentDate,
+        isNoShow: true,
+      });
+
+      expect(outcome).toMatchObject({
+        cancelledBy: "customer",
+        isLate: true,
+        isNoShow: true,
+        depositRefundRate: 0,
+      });
+    });
+
+    it("refunds in full before an appointment is confirmed", () => {
+      const outcome = evaluateCancellation({
+        policy,
+        cancelledBy: "customer",
+        cancelledAt: new Date(),
+      });
+
+      expect(outcome).toMatchObject({
+        hoursBefore: null,
+        isLate: false,
+        depositRefundRate: 1,
+      });
+    });
+  });
+
+  describe("canMarkNoShow", () => {
+    it("waits for the grace period after the start time", () => {
+      expect(
+        canMarkNoShow(
+          policy,
+          appointmentDate,
+          new Date(appointmentDate.getTime() + 10 * 60 * 1000),
+        ),
+      ).toBe(false);
+      expect(
+        canMarkNoShow(
+          policy,
+          appointmentDate,
+          new Date(appointmentDate.getTime() + 30 * 60 * 1000),
+        ),
+      ).toBe(true);
+    });
+  });
+
+  describe("isValidCancellationPolicy", () => {
+    it("accepts the default policy", () => {
+      expect(isValidCancellationPolicy(DEFAULT_CANCELLATION_POLICY)).toBe(true);
+    });
+
+    it("rejects missing windows and out-of-range rates", () => {
+      expect(isValidCancellationPolicy(undefined)).toBe(false);
+      expect(isValidCancellationPolicy({ ...policy, windows: [] })).toBe(false);
+      expect(
+        isValidCancellationPolicy({
+          ...policy,
+          windows: [{ minHoursBefore: 24, depositRefundRate: 1.5 }],
+        }),
+      ).toBe(false);
+    });
+  });
+
+  describe("getBookingCancellationPolicy", () => {
+    const strict = { ...policy, lateCancellationHours: 72 };
+    const lenient = { ...policy, lateCancellationHours: 12 };
+
+    it("should prefer the agreed policy over the artist's current one", () => {
+      expect(
+        getBookingCancellationPolicy(
+          { agreedCancellationPolicy: lenient },
+          strict,
+        ),
+      ).toBe(lenient);
+      // The artist had no policy when the customer agreed
+      expect(
+        getBookingCancellationPolicy(
+          { agreedCancellationPolicy: null },
+          strict,
+        ),
+      ).toBe(DEFAULT_CANCELLATION_POLICY);
+      expect(getBookingCancellationPolicy({}, strict)).toBe(strict);
+    });
+
+    it("should keep the policy snapshotted at confirmation", () => {
+      expect(
+        getBookingCancellationPolicy(
+          { cancellationPolicy: strict, agreedCancellationPolicy: lenient },
+          lenient,
+        ),
+      ).toBe(strict);
+    });
+  });
+
+  describe("describeCancellationPolicy", () => {
+    it("lists windows from the earliest deadline", () => {
+      const lines = describeCancellationPolicy(policy);
+
+      expect(lines[0]).toBe("7日前まで: デポジット全額返金");
+      expect(lines[1]).toBe("2日前まで: デポジットの50%を返金");
+      expect(lines[2]).toBe("2日前以降: デポジット返金なし");
+    });
+  });
+});
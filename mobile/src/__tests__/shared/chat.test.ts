@@ -0,0 +1,164 @@
+/**
+ * 🧪 Shared Chat Schema Test Suite
+ */
+
+import {
+  ChatInboxEntry,
+  createChatMessage,
+  getChatInboxUpdates,
+  getChatNotificationBody,
+  getChatParticipantIds,
+  getChatRecipientId,
+  getChatRoomId,
+  isValidChatMessage,
+  mergeChatInboxPages,
+  toChatParticipants,
+} from "@tattoo-journey/shared";
+
+describe("Shared chat schema", () => {
+  const message = createChatMessage({
+    id: "m1",
+    senderId: "customer1",
+    receiverId: "artist1",
+    text: "こんにちは",
+    timestamp: 1700000000000,
+    metadata: { priceQuote: 60000, bookingId: undefined },
+  });
+
+  describe("rooms", () => {
+    it("should key rooms by the sorted participant pair", () => {
+      expect(getChatRoomId("b", "a")).toBe("a_b");
+      expect(getChatRoomId("a", "b")).toBe("a_b");
+    });
+
+    it("should read participant maps and legacy arrays", () => {
+      const participants = toChatParticipants(["customer1", "artist1"]);
+
+      expect(participants).toEqual({ customer1: true, artist1: true });
+      expect(getChatParticipantIds(participants)).toEqual([
+        "customer1",
+        "artist1",
+      ]);
+      expect(getChatRecipientId(participants, "customer1")).toBe("artist1");
+      expect(getChatRecipientId(["customer1", "artist1"], "artist1")).toBe(
+        "customer1",
+      );
+      expect(getChatRecipientId(undefined, "artist1")).toBeNull();
+    });
+  });
+
+  describe("createChatMessage", () => {
+    it("should create an unread text message without undefined fields", () => {
+      expect(message).toEqual({
+        id: "m1",
+        senderId: "customer1",
+        receiverId: "artist1",
+        text: "こんにちは",
+        type: "text",
+        timestamp: 1700000000000,
+        read: false,
+        metadata: { priceQuote: 60000 },
+      });
+      expect(
+        createChatMessage({ ...message, metadata: {} }).metadata,
+      ).toBeUndefined();
+    });
+  });
+
+  describe("isValidChatMessage", () => {
+    it("should accept messages built by createChatMessage", () => {
+      expect(isValidChatMessage(message)).toBe(true);
+    });
+
+    it("should reject shapes the database rules reject", () => {
+      const { text, ...withoutText } = message;
+
+      expect(isValidChatMessage({ ...withoutText, message: text })).toBe(false);
+      expect(isValidChatMessage({ ...message, text: "" })).toBe(false);
+      expect(isValidChatMessage({ ...message, text: "a".repeat(10001) })).toBe(
+        false,
+      );
+      expect(isValidChatMessage({ ...message, type: "sticker" })).toBe(false);
+      expect(isValidChatMessage({ ...message, delivered: true })).toBe(false);
+      expect(isValidChatMessage({ ...message, receiverId: "customer1" })).toBe(
+        false,
+      );
+      expect(
+        isValidChatMessage({ ...message, metadata: { priceQuote: "高い" } }),
+      ).toBe(false);
+    });
+  });
+
+  describe("inboxes", () => {
+    const increment = { ".sv": { increment: 1 } };
+    const room = {
+      id: "artist1_customer1",
+      participants: toChatParticipants(["customer1", "artist1"]),
+    };
+
+    it("should update the room and both inboxes with one update", () => {
+      const updates = getChatInboxUpdates(room, message, increment);
+
+      expect(updates["chatRooms/artist1_customer1/lastMessageTime"]).toBe(
+        message.timestamp,
+      );
+      expect(updates["userChats/artist1/artist1_customer1/otherUserId"]).toBe(
+        "customer1",
+      );
+      expect(updates["userChats/customer1/artist1_customer1/otherUserId"]).toBe(
+        "artist1",
+      );
+      expect(
+        updates["userChats/customer1/artist1_customer1/lastMessage"],
+      ).toEqual({
+        senderId: "customer1",
+        text: "こんにちは",
+        type: "text",
+        timestamp: message.timestamp,
+      });
+    });
+
+    it("should only count the message as unread for the receiver", () => {
+      const updates = getChatInboxUpdates(room, message, increment);
+
+      expect(updates["userChats/artist1/artist1_customer1/unreadCount"]).toBe(
+        increment,
+      );
+      expect(
+        "userChats/customer1/artist1_customer1/unreadCount" in updates,
+      ).toBe(false);
+    });
+
+    it("should merge pages newest first, keeping each room's latest copy", () => {
+      const entry = (roomId: string, lastMessageTime: number) =>
+        ({ roomId, otherUserId: "u", lastMessageTime }) as ChatInboxEntry;
+
+      const merged = mergeChatInboxPages(
+        [entry("a", 300), entry("b", 200)],
+        [entry("b", 100), entry("c", 200)],
+      );
+
+      expect(merged.map((item) => [item.roomId, item.lastMessageTime])).toEqual(
+        [
+          ["a", 300],
+          ["c", 200],
+          ["b", 200],
+        ],
+      );
+    });
+  });
+
+  describe("getChatNotificationBody", () => {
+    it("should describe attachments and shorten long text", () => {
+      expect(getChatNotificationBody({ type: "image", text: "x" })).toBe(
+        "📷 画像を送信しました",
+      );
+      expect(getChatNotificationBody({ type: "text", text: "短い" })).toBe(
+        "短い",
+      );
+      expect(
+        getChatNotificationBody({ type: "text", text: "a".repeat(150) }),
+      ).toHaveLength(100);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * 🧪 Shared Chat Cards Test Suite
+ */
+
+import {
+  CHAT_CARD_VERSIONS,
+  ChatCard,
+  MAX_PROPOSED_SLOTS,
+  canRespondToChatCard,
+  createChatCard,
+  createChatMessage,
+  getChatCardSummary,
+  isValidChatCardResponse,
+  isValidChatMessage,
+  parseChatCard,
+  serializeChatCard,
+} from "@tattoo-journey/shared";
+
+describe("Shared chat cards", () => {
+  const quote = createChatCard("price_quote", "booking1", {
+    price: 60000,
+    duration: 180,
+    note: "線画のみの場合",
+  });
+  const slots = createChatCard("slot_proposal", "booking1", {
+    slots: [
+      { startTime: 1800000000000, endTime: 1800010800000 },
+      { startTime: 1800086400000, endTime: 1800097200000 },
+    ],
+    price: 60000,
+    duration: 180,
+  });
+
+  const cardMessage = (card: ChatCard = quote) =>
+    createChatMessage({
+      id: "m1",
+      senderId: "artist1",
+      receiverId: "customer1",
+      text: getChatCardSummary(card),
+      type: "card",
+      timestamp: 1700000000000,
+      card: serializeChatCard(card),
+    });
+
+  describe("serialization", () => {
+    it("should round-trip cards at the current version", () => {
+      const stored = serializeChatCard(quote);
+
+      expect(stored.version).toBe(CHAT_CARD_VERSIONS.price_quote);
+      expect(typeof stored.payload).toBe("string");
+      expect(parseChatCard(stored)).toEqual(quote);
+      expect(parseChatCard(serializeChatCard(slots))).toEqual(slots);
+    });
+
+    it("should reject unknown kinds, newer versions and bad payloads", () => {
+      const stored = serializeChatCard(quote);
+
+      expect(parseChatCard({ ...stored, kind: "sticker" })).toBeNull();
+      expect(
+        parseChatCard({
+          ...stored,
+          version: CHAT_CARD_VERSIONS.price_quote + 1,
+        }),
+      ).toBeNull();
+      expect(parseChatCard({ ...stored, payload: "{" })).toBeNull();
+      expect(
+        parseChatCard({ ...stored, payload: JSON.stringify({ price: -1 }) }),
+      ).toBeNull();
+      expect(parseChatCard(undefined)).toBeNull();
+    });
+
+    it("should bound proposed slots", () => {
+      const tooMany = Array.from(
+        { length: MAX_PROPOSED_SLOTS + 1 },
+        (_, i) => ({
+          startTime: 1800000000000 + i * 86400000,
+          endTime: 1800010800000 + i * 86400000,
+        }),
+      );
+      const backwards = [{ startTime: 1800010800000, endTime: 1800000000000 }];
+
+      expect(
+        parseChatCard(
+          serializeChatCard({
+            ...slots,
+            payload: { ...slots.payload, slots: tooMany },
+          }),
+        ),
+      ).toBeNull();
+      expect(
+        parseChatCard(
+          serializeChatCard({
+            ...slots,
+            payload: { ...slots.payload, slots: backwards },
+          }),
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe("card messages", () => {
+    it("should only accept card messages with a readable card", () => {
+      const message = cardMessage();
+
+      expect(isValidChatMessage(message)).toBe(true);
+      expect(isValidChatMessage({ ...message, card: undefined })).toBe(false);
+      expect(isValidChatMessage({ ...message, type: "text" })).toBe(false);
+      expect(
+        isValidChatMessage({
+          ...message,
+          cardResponse: {
+            action: "accept",
+            respondedBy: "customer1",
+            respondedAt: 1,
+          },
+        }),
+      ).toBe(false);
+    });
+
+    it("should summarize cards as the message text", () => {
+      expect(getChatCardSummary(quote)).toContain("¥60,000");
+      expect(getChatCardSummary(quote)).toContain("180分");
+      expect(getChatCardSummary(slots).split("\n")).toHaveLength(3);
+    });
+  });
+
+  describe("responses", () => {
+    it("should let only the receiver answer, once", () => {
+      const message = cardMessage();
+
+      expect(canRespondToChatCard(message, "customer1")).toBe(true);
+      expect(canRespondToChatCard(message, "artist1")).toBe(false);
+      expect(
+        canRespondToChatCard(
+          {
+            ...message,
+            cardResponse: {
+              action: "accept",
+              respondedBy: "customer1",
+              respondedAt: 1,
+            },
+          },
+          "customer1",
+        ),
+      ).toBe(false);
+    });
+
+    it("should let the requesting artist confirm a deposit", () => {
+      const message = cardMessage(
+        createChatCard("deposit_request", "booking1", { amount: 10000 }),
+      );
+
+      expect(canRespondToChatCard(message, "artist1")).toBe(true);
+      expect(canRespondToChatCard(message, "customer1")).toBe(false);
+    });
+
+    it("should check the action against the card kind", () => {
+      expect(isValidChatCardResponse(quote, { action: "accept" })).toBe(true);
+      expect(isValidChatCardResponse(quote, { action: "pay" })).toBe(false);
+      expect(
+        isValidChatCardResponse(slots, { action: "select", slotIndex: 1 }),
+      ).toBe(true);
+      expect(
+        isValidChatCardResponse(slots, { action: "select", slotIndex: 2 }),
+      ).toBe(false);
+      expect(isValidChatCardResponse(slots, { action: "select" })).toBe(false);
+    });
+  });
+});
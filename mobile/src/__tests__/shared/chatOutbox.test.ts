@@ -0,0 +1,125 @@
+/**
+ * 🧪 Shared Chat Outbox Test Suite
+ */
+
+import {
+  CHAT_OUTBOX_RETRY_BASE_DELAY_MS,
+  CHAT_OUTBOX_RETRY_MAX_DELAY_MS,
+  ChatOutboxEntry,
+  addChatOutboxEntry,
+  createChatMessage,
+  getChatDeliveryStatus,
+  getChatOutboxRetryDelay,
+  getDueChatOutboxEntries,
+  getFailedChatOutboxEntry,
+  withChatDeliveryStatus,
+} from "@tattoo-journey/shared";
+
+describe("Shared chat outbox", () => {
+  const now = 1760000000000;
+
+  const entry = (
+    clientMessageId: string,
+    overrides: Partial<ChatOutboxEntry> = {},
+  ): ChatOutboxEntry => ({
+    clientMessageId,
+    roomId: "room1",
+    senderId: "customer1",
+    text: `message ${clientMessageId}`,
+    type: "text",
+    status: "queued",
+    attempts: 0,
+    nextAttemptAt: now,
+    createdAt: now,
+    ...overrides,
+  });
+
+  describe("queue", () => {
+    it("should not queue the same client message id twice", () => {
+      const queued = addChatOutboxEntry([], entry("m1"));
+
+      expect(addChatOutboxEntry(queued, entry("m1"))).toBe(queued);
+      expect(addChatOutboxEntry(queued, entry("m2"))).toHaveLength(2);
+    });
+
+    it("should send due entries oldest first", () => {
+      const entries = [
+        entry("m2", { createdAt: now - 1000 }),
+        entry("m1", { createdAt: now - 2000 }),
+        entry("later", { nextAttemptAt: now + 1000 }),
+        entry("failed", { status: "failed" }),
+        entry("sending", { status: "sending" }),
+      ];
+
+      expect(
+        getDueChatOutboxEntries(entries, now).map((e) => e.clientMessageId),
+      ).toEqual(["m1", "m2"]);
+    });
+  });
+
+  describe("retries", () => {
+    it("should back off exponentially up to the maximum delay", () => {
+      expect(getChatOutboxRetryDelay(0)).toBe(0);
+      expect(getChatOutboxRetryDelay(1)).toBe(CHAT_OUTBOX_RETRY_BASE_DELAY_MS);
+      expect(getChatOutboxRetryDelay(3)).toBe(
+        CHAT_OUTBOX_RETRY_BASE_DELAY_MS * 4,
+      );
+      expect(getChatOutboxRetryDelay(30)).toBe(CHAT_OUTBOX_RETRY_MAX_DELAY_MS);
+    });
+
+    it("should requeue on connection problems and fail rejected messages", () => {
+      const retried = getFailedChatOutboxEntry(entry("m1"), now, false);
+      expect(retried).toMatchObject({
+        status: "queued",
+        attempts: 1,
+        nextAttemptAt: now + CHAT_OUTBOX_RETRY_BASE_DELAY_MS,
+      });
+
+      expect(
+        getFailedChatOutboxEntry(retried, now, true, "permission-denied"),
+      ).toMatchObject({
+        status: "failed",
+        attempts: 2,
+        lastError: "permission-denied",
+      });
+    });
+  });
+
+  describe("delivery status", () => {
+    const message = createChatMessage({
+      id: "m1",
+      senderId: "customer1",
+      receiverId: "artist1",
+      text: "こんにちは",
+      timestamp: now,
+    });
+
+    it("should move from sent to delivered to read", () => {
+      expect(getChatDeliveryStatus(message)).toBe("sent");
+      expect(getChatDeliveryStatus({ ...message, delivered: true })).toBe(
+        "delivered",
+      );
+      expect(
+        getChatDeliveryStatus({ ...message, delivered: true, read: true }),
+      ).toBe("read");
+    });
+
+    it("should list unsent entries after the room's messages without duplicates", () => {
+      const displayed = withChatDeliveryStatus(
+        [message],
+        [
+          entry("m3", { status: "failed", createdAt: now + 2000 }),
+          // Written, but not yet removed from the outbox
+          entry("m1", { status: "sending" }),
+          entry("m2", { createdAt: now + 1000 }),
+        ],
+      );
+
+      expect(displayed.map((m) => [m.id, m.deliveryStatus])).toEqual([
+        ["m1", "sent"],
+        ["m2", "queued"],
+        ["m3", "failed"],
+      ]);
+    });
+  });
+});
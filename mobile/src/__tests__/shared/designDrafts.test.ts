@@ -0,0 +1,139 @@
+/**
+ * 🧪 Shared Design Drafts Test Suite
+ */
+
+import {
+  DesignDraft,
+  canReviewDesignDraft,
+  canUploadDesignDraft,
+  createChatCard,
+  getDesignDraftId,
+  getLatestDesignDraft,
+  getNextDesignDraftVersion,
+  isValidDesignAnnotation,
+  parseChatCard,
+  serializeChatCard,
+  toApprovedDesign,
+} from "@tattoo-journey/shared";
+
+describe("Shared design drafts", () => {
+  const booking = {
+    customerId: "customer1",
+    artistId: "artist1",
+    status: "negotiating" as const,
+    approvedDesign: undefined,
+  };
+
+  const draft = (version: number, status: DesignDraft["status"]) => ({
+    id: `draft${version}`,
+    imageUrl: `https://example.com/v${version}.jpg`,
+    version,
+    status,
+  });
+
+  describe("versions", () => {
+    it("should number drafts after the latest version", () => {
+      const drafts = [draft(1, "changes_requested"), draft(2, "in_review")];
+
+      expect(getNextDesignDraftVersion([])).toBe(1);
+      expect(getNextDesignDraftVersion(drafts)).toBe(3);
+      expect(getLatestDesignDraft(drafts)?.id).toBe("draft2");
+      expect(getLatestDesignDraft([])).toBeUndefined();
+    });
+
+    it("should store each version under its own id", () => {
+      expect(getDesignDraftId(1)).toBe("v1");
+      expect(getDesignDraftId(12)).toBe("v12");
+    });
+  });
+
+  describe("permissions", () => {
+    it("should let only the artist upload until a design is approved", () => {
+      expect(canUploadDesignDraft(booking, "artist1")).toBe(true);
+      expect(canUploadDesignDraft(booking, "customer1")).toBe(false);
+      expect(
+        canUploadDesignDraft({ ...booking, status: "cancelled" }, "artist1"),
+      ).toBe(false);
+      expect(
+        canUploadDesignDraft(
+          {
+            ...booking,
+            approvedDesign: toApprovedDesign(
+              draft(1, "approved"),
+              "customer1",
+              new Date(),
+            ),
+          },
+          "artist1",
+        ),
+      ).toBe(false);
+    });
+
+    it("should let only the customer review a draft in review", () => {
+      expect(
+        canReviewDesignDraft(booking, draft(1, "in_review"), "customer1"),
+      ).toBe(true);
+      expect(
+        canReviewDesignDraft(booking, draft(1, "in_review"), "artist1"),
+      ).toBe(false);
+      expect(
+        canReviewDesignDraft(booking, draft(1, "superseded"), "customer1"),
+      ).toBe(false);
+      expect(
+        canReviewDesignDraft(booking, draft(1, "approved"), "customer1"),
+      ).toBe(false);
+    });
+  });
+
+  describe("annotations", () => {
+    it("should require a position on the image and a comment", () => {
+      expect(
+        isValidDesignAnnotation({ x: 0.5, y: 0.25, comment: "線を細く" }),
+      ).toBe(true);
+      expect(
+        isValidDesignAnnotation({ x: 1.2, y: 0.25, comment: "線を細く" }),
+      ).toBe(false);
+      expect(isValidDesignAnnotation({ x: 0.5, y: 0.25, comment: " " })).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("approval", () => {
+    it("should record the approved draft on the booking", () => {
+      const approvedAt = new Date("2026-10-01T10:00:00Z");
+
+      expect(
+        toApprovedDesign(
+          { ...draft(3, "approved"), note: "最終版" },
+          "customer1",
+          approvedAt,
+        ),
+      ).toEqual({
+        draftId: "draft3",
+        imageUrl: "https://example.com/v3.jpg",
+        designVersion: 3,
+        note: "最終版",
+        approvedBy: "customer1",
+        approvedAt,
+      });
+    });
+
+    it("should only read design cards that point at a draft", () => {
+      const card = createChatCard("design_approval", "booking1", {
+        draftId: "draft3",
+        imageUrl: "https://example.com/v3.jpg",
+        designVersion: 3,
+      });
+      const stored = serializeChatCard(card);
+
+      expect(parseChatCard(stored)).toEqual(card);
+      expect(
+        parseChatCard({
+          ...stored,
+          payload: JSON.stringify({ ...card.payload, draftId: "" }),
+        }),
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * 🧪 Shared Image Embedding Test Suite
+ */
+
+import {
+  DESCRIPTOR_DIMENSIONS,
+  RgbImage,
+  StubImageEmbeddingProvider,
+  computeImageDescriptor,
+  cosineSimilarity,
+  findVisualNeighbors,
+  getVisualSimilarity,
+  isValidImageEmbedding,
+} from "@tattoo-journey/shared";
+
+describe("Shared image embeddings", () => {
+  const size = 32;
+
+  // Pixel color from its position
+  const makeImage = (
+    paint: (x: number, y: number) => [number, number, number],
+  ): RgbImage => {
+    const data = new Uint8Array(size * size * 3);
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        data.set(paint(x, y), (y * size + x) * 3);
+      }
+    }
+    return { width: size, height: size, data };
+  };
+
+  const verticalStripes = makeImage((x) =>
+    x % 8 < 4 ? [200, 30, 30] : [20, 20, 20],
+  );
+  const shiftedStripes = makeImage((x) =>
+    (x + 2) % 8 < 4 ? [200, 30, 30] : [20, 20, 20],
+  );
+  const horizontalStripes = makeImage((_, y) =>
+    y % 8 < 4 ? [200, 30, 30] : [20, 20, 20],
+  );
+  const blueStripes = makeImage((x) =>
+    x % 8 < 4 ? [30, 30, 200] : [20, 20, 20],
+  );
+
+  describe("computeImageDescriptor", () => {
+    it("should produce a unit vector of fixed size", () => {
+      const descriptor = computeImageDescriptor(verticalStripes);
+
+      expect(descriptor).toHaveLength(DESCRIPTOR_DIMENSIONS);
+      expect(cosineSimilarity(descriptor, descriptor)).toBeCloseTo(1);
+    });
+
+    it("should separate images by composition as well as color", () => {
+      const stripes = computeImageDescriptor(verticalStripes);
+
+      const shifted = cosineSimilarity(
+        stripes,
+        computeImageDescriptor(shiftedStripes),
+      );
+      const rotated = cosineSimilarity(
+        stripes,
+        computeImageDescriptor(horizontalStripes),
+      );
+      const recolored = cosineSimilarity(
+        stripes,
+        computeImageDescriptor(blueStripes),
+      );
+
+      expect(shifted).toBeGreaterThan(0.95);
+      // Same palette, different lines
+      expect(rotated).toBeLessThan(shifted);
+      // Same lines, different palette
+      expect(recolored).toBeLessThan(shifted);
+    });
+  });
+
+  describe("StubImageEmbeddingProvider", () => {
+    it("should embed identical bytes identically", async () => {
+      const provider = new StubImageEmbeddingProvider(8);
+      const first = await provider.embed(new Uint8Array([1, 2, 3]));
+
+      expect(first).toHaveLength(8);
+      expect(await provider.embed(new Uint8Array([1, 2, 3]))).toEqual(first);
+      expect(await provider.embed(new Uint8Array([3, 2, 1]))).not.toEqual(
+        first,
+      );
+    });
+  });
+
+  describe("findVisualNeighbors", () => {
+    it("should rank items of the same model by similarity", () => {
+      const query = { modelId: "m1", vector: [1, 0] };
+      const items = [
+        { id: "far", embedding: { modelId: "m1", vector: [0, 1] } },
+        { id: "near", embedding: { modelId: "m1", vector: [1, 0.1] } },
+        { id: "other-model", embedding: { modelId: "m2", vector: [1, 0] } },
+        { id: "unembedded" },
+      ];
+
+      const neighbors = findVisualNeighbors(query, items, 5);
+
+      expect(neighbors.map((neighbor) => neighbor.item.id)).toEqual([
+        "near",
+        "far",
+      ]);
+      expect(neighbors[1].similarity).toBe(0);
+    });
+
+    it("should not compare embeddings from different models", () => {
+      expect(
+        getVisualSimilarity(
+          { modelId: "m1", vector: [1] },
+          { modelId: "m2", vector: [1] },
+        ),
+      ).toBeNull();
+      expect(
+        getVisualSimilarity({ modelId: "m1", vector: [1] }, undefined),
+      ).toBeNull();
+    });
+  });
+
+  describe("isValidImageEmbedding", () => {
+    it("should require a model id and finite numbers", () => {
+      expect(isValidImageEmbedding({ modelId: "m1", vector: [0.1, 0.2] })).toBe(
+        true,
+      );
+      expect(isValidImageEmbedding({ modelId: "m1", vector: [] })).toBe(false);
+      expect(isValidImageEmbedding({ modelId: "m1", vector: [NaN] })).toBe(
+        false,
+      );
+      expect(isValidImageEmbedding({ vector: [0.1] })).toBe(false);
+    });
+  });
+});
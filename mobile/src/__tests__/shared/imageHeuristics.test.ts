@@ -0,0 +1,70 @@
+/**
+ * 🧪 Shared Local Image Heuristics Test Suite
+ */
+
+import {
+  LOCAL_ANALYSIS_CONFIDENCE,
+  RgbImage,
+  analyzeImagePixels,
+} from "@tattoo-journey/shared";
+
+describe("Shared local image heuristics", () => {
+  const size = 64;
+
+  // Pixel color from its position
+  const makeImage = (
+    paint: (x: number, y: number) => [number, number, number],
+  ): RgbImage => {
+    const data = new Uint8Array(size * size * 3);
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        data.set(paint(x, y), (y * size + x) * 3);
+      }
+    }
+    return { width: size, height: size, data };
+  };
+
+  it("should detect black and grey work", () => {
+    const analysis = analyzeImagePixels(
+      makeImage((x) => (x % 8 < 4 ? [30, 30, 30] : [220, 220, 220])),
+    );
+
+    expect(analysis.isBlackAndGrey).toBe(true);
+    expect(analysis.isColorful).toBe(false);
+    expect(analysis.greyRatio).toBe(1);
+    expect(analysis.style).toBe("ブラック＆グレー");
+  });
+
+  it("should detect color work and its palette", () => {
+    const analysis = analyzeImagePixels(
+      makeImage((x) => (x < size / 2 ? [220, 20, 20] : [20, 20, 220])),
+    );
+
+    expect(analysis.isBlackAndGrey).toBe(false);
+    expect(analysis.style).toBe("カラー");
+    expect(analysis.colorPalette).toHaveLength(2);
+    expect(analysis.colorPalette).toEqual(
+      expect.arrayContaining(["#dc1414", "#1414dc"]),
+    );
+  });
+
+  it("should rate complexity by line density", () => {
+    const blank = analyzeImagePixels(makeImage(() => [240, 240, 240]));
+    const dense = analyzeImagePixels(
+      makeImage((x, y) => ((x + y) % 2 === 0 ? [0, 0, 0] : [255, 255, 255])),
+    );
+
+    expect(blank.lineDensity).toBe(0);
+    expect(blank.complexity).toBe("シンプル");
+    expect(blank.style).toBe("ミニマル");
+    expect(dense.lineDensity).toBeGreaterThan(0.9);
+    expect(dense.complexity).toBe("複雑");
+  });
+
+  it("should report low confidence and no motifs", () => {
+    const analysis = analyzeImagePixels(makeImage(() => [120, 80, 40]));
+
+    expect(analysis.motifs).toEqual([]);
+    expect(analysis.confidence).toBe(LOCAL_ANALYSIS_CONFIDENCE);
+  });
+});
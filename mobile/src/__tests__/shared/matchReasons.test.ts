@@ -0,0 +1,166 @@
+/**
+ * 🧪 Shared Match Explanations Test Suite
+ */
+
+import {
+  AIAnalysis,
+  DEFAULT_WEIGHT_PROFILE,
+  MAX_MATCH_REASONS,
+  MatchExplanationInput,
+  PortfolioItem,
+  explainMatch,
+  formatMatchReason,
+} from "@tattoo-journey/shared";
+
+describe("Shared match explanations", () => {
+  const analysis: AIAnalysis = {
+    style: "ジャパニーズ",
+    colorPalette: ["#ff0000"],
+    isColorful: true,
+    motifs: ["龍"],
+    complexity: "複雑",
+    confidence: 0.9,
+  };
+
+  const makeMatch = (id: string, styleMatch: number) => ({
+    portfolioItem: { id } as PortfolioItem,
+    comparison: {
+      styleMatch,
+      colorSimilarity: 1,
+      motifOverlap: 1,
+      complexitySimilarity: 1,
+      overallCompatibility: 0.9,
+    },
+    matchScore: 0.9,
+  });
+
+  const makeInput = (
+    overrides: Partial<MatchExplanationInput> = {},
+  ): MatchExplanationInput => ({
+    breakdown: {
+      designScore: 0.9,
+      artistScore: 0.85,
+      priceScore: 0.5,
+      distanceScore: 0.5,
+    },
+    weights: DEFAULT_WEIGHT_PROFILE.weights,
+    customerAnalysis: analysis,
+    specialties: [
+      { styleName: "ジャパニーズ", proficiencyLevel: 5, experienceYears: 10 },
+    ],
+    portfolioMatches: [
+      makeMatch("item-1", 1),
+      makeMatch("item-2", 0),
+      makeMatch("item-3", 1),
+    ],
+    reviewHighlights: [
+      { id: "review-1", rating: 5, comment: "最高でした" },
+      { id: "review-2", rating: 3, comment: "普通" },
+    ],
+    rating: { average: 4.84, totalReviews: 32 },
+    experienceYears: 12,
+    estimatedPrice: 60000,
+    distance: 3.26,
+    ...overrides,
+  });
+
+  describe("explainMatch", () => {
+    it("should order factors by their contribution to the match score", () => {
+      const reasons = explainMatch(makeInput());
+
+      expect(reasons.map((reason) => reason.factor)).toEqual([
+        "rating",
+        "style",
+        "specialty",
+      ]);
+      expect(reasons[0].contribution).toBeCloseTo(0.3 * 0.85);
+      // Style and specialty split the design contribution
+      expect(reasons[1].contribution + reasons[2].contribution).toBeCloseTo(
+        0.4 * 0.9,
+      );
+    });
+
+    it("should grade each factor against its thresholds", () => {
+      const reasons = explainMatch(
+        makeInput({
+          breakdown: {
+            designScore: 0.7,
+            artistScore: 0.5,
+            priceScore: 0.9,
+            distanceScore: 0.5,
+          },
+          specialties: [],
+        }),
+      );
+
+      expect(reasons).toHaveLength(2);
+      expect(reasons[0]).toMatchObject({
+        factor: "style",
+        level: "good",
+        threshold: 0.6,
+      });
+      expect(reasons[1]).toMatchObject({
+        factor: "price",
+        level: "strong",
+        threshold: 0.8,
+        params: { estimatedPrice: 60000 },
+      });
+    });
+
+    it("should cite the portfolio items and reviews behind a factor", () => {
+      const reasons = explainMatch(makeInput());
+      const style = reasons.find((reason) => reason.factor === "style");
+      const rating = reasons.find((reason) => reason.factor === "rating");
+
+      expect(style!.evidence.portfolioItemIds).toEqual(["item-1", "item-3"]);
+      expect(rating!.evidence.reviewIds).toEqual(["review-1"]);
+      expect(rating!.params).toEqual({
+        rating: 4.8,
+        reviewCount: 32,
+        experienceYears: 12,
+      });
+    });
+
+    it("should cap the number of reasons", () => {
+      const reasons = explainMatch(
+        makeInput({
+          breakdown: {
+            designScore: 0.9,
+            artistScore: 0.9,
+            priceScore: 0.9,
+            distanceScore: 0.9,
+          },
+        }),
+      );
+
+      expect(reasons).toHaveLength(MAX_MATCH_REASONS);
+    });
+  });
+
+  describe("formatMatchReason", () => {
+    it("should render the same reason in Japanese and English", () => {
+      const [rating] = explainMatch(makeInput());
+
+      expect(rating.explanation).toBe(formatMatchReason(rating, "ja"));
+      expect(formatMatchReason(rating, "ja")).toBe(
+        "高評価で経験豊富なアーティストです（★4.8・32件）",
+      );
+      expect(formatMatchReason(rating, "en")).toBe(
+        "Highly rated, experienced artist (★4.8, 32 reviews)",
+      );
+    });
+
+    it("should translate style names for English", () => {
+      expect(
+        formatMatchReason(
+          {
+            factor: "specialty",
+            level: "strong",
+            params: { style: "ジャパニーズ", experienceYears: 10 },
+          },
+          "en",
+        ),
+      ).toBe("Specializes in Japanese (10 yrs)");
+    });
+  });
+});
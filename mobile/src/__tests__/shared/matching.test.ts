@@ -0,0 +1,302 @@
+/**
+ * 🧪 Shared Artist Matching Pipeline Test Suite
+ */
+
+import {
+  AIAnalysis,
+  ArtistMatchingProfile,
+  DEFAULT_WEIGHT_PROFILE,
+  MatchingCriteria,
+  calculatePriceScore,
+  compareAnalyses,
+  isValidMatchingCriteria,
+  rankArtistMatches,
+  scoreArtistMatch,
+} from "@tattoo-journey/shared";
+
+describe("Shared artist matching pipeline", () => {
+  const analysis: AIAnalysis = {
+    style: "ジャパニーズ",
+    colorPalette: ["#ff0000"],
+    isColorful: true,
+    motifs: ["龍"],
+    complexity: "複雑",
+    confidence: 0.9,
+  };
+
+  const criteria: MatchingCriteria = {
+    customerAnalysis: analysis,
+    maxDistance: 10,
+    budgetRange: { min: 40000, max: 80000 },
+    customerLocation: { latitude: 35.68, longitude: 139.76 },
+  };
+
+  const makeProfile = (
+    artistId: string,
+    overrides: Partial<ArtistMatchingProfile> = {},
+    artistInfo: Record<string, any> = {},
+  ): ArtistMatchingProfile => ({
+    artistId,
+    artist: {
+      displayName: artistId,
+      profile: {
+        artistInfo: {
+          rating: 4.5,
+          totalReviews: 20,
+          experienceYears: 8,
+          priceRange: { small: 30000, medium: 60000, large: 90000 },
+          ...artistInfo,
+        },
+      },
+    },
+    location: { latitude: 35.69, longitude: 139.77 },
+    styleHistogram: {},
+    complexityHistogram: {},
+    colorProfile: { colorfulRatio: 0, palette: [] },
+    motifs: [],
+    priceBands: { small: 0, medium: 0, large: 0, hourlyRate: 0 },
+    rating: { average: 0, totalReviews: 0 },
+    reviewHighlights: [],
+    specialties: [],
+    portfolioSamples: [
+      {
+        id: `${artistId}-item`,
+        imageUrl: "",
+        title: "",
+        style: "ジャパニーズ",
+        size: "large",
+        duration: 5,
+        price: 90000,
+        tags: [],
+        aiAnalysis: analysis,
+        createdAt: new Date("2025-01-01T00:00:00Z"),
+      },
+    ],
+    portfolioCount: 1,
+    analyzedCount: 1,
+    version: 1,
+    updatedAt: new Date("2025-01-01T00:00:00Z"),
+    ...overrides,
+  });
+
+  describe("scoreArtistMatch", () => {
+    it("should return the ArtistMatch shape with a weighted score", () => {
+      const match = scoreArtistMatch(makeProfile("artist-1"), criteria);
+
+      expect(match).not.toBeNull();
+      expect(match!.artist.uid).toBe("artist-1");
+      expect(match!.breakdown.designScore).toBeCloseTo(1);
+      expect(match!.matchScore).toBeCloseTo(
+        match!.breakdown.designScore * 0.4 +
+          match!.breakdown.artistScore * 0.3 +
+          match!.breakdown.priceScore * 0.2 +
+          match!.breakdown.distanceScore * 0.1,
+      );
+      expect(match!.estimatedPrice).toBe(90000);
+      expect(match!.topPortfolioMatches.map((item) => item.id)).toEqual([
+        "artist-1-item",
+      ]);
+      expect(match!.matchReasons).toEqual(
+        match!.reasons.map((reason) => reason.explanation),
+      );
+      expect(match!.reasons[0]).toMatchObject({
+        factor: "style",
+        level: "strong",
+        evidence: { portfolioItemIds: ["artist-1-item"] },
+      });
+      expect(match!.features).toMatchObject({
+        ...match!.breakdown,
+        compatibility: match!.compatibility,
+        specialtyMatch: 0,
+      });
+    });
+
+    it("should blend visual similarity into the design score", () => {
+      const profile = makeProfile("artist-1");
+      profile.portfolioSamples[0].embedding = { modelId: "m1", vector: [1, 0] };
+      const scoreWith = (vector: number[], modelId = "m1") =>
+        scoreArtistMatch(profile, {
+          ...criteria,
+          designEmbedding: { modelId, vector },
+        })!.breakdown.designScore;
+
+      expect(scoreWith([1, 0])).toBeCloseTo(1);
+      expect(scoreWith([0, 1])).toBeCloseTo(0.5);
+      // Embeddings from another model are ignored
+      expect(scoreWith([0, 1], "m2")).toBeCloseTo(1);
+    });
+
+    it("should score mood boards per reference and cite the closest one", () => {
+      const minimal: AIAnalysis = {
+        ...analysis,
+        style: "ミニマル",
+        motifs: ["花"],
+        isColorful: false,
+        complexity: "シンプル",
+      };
+      const moodBoard = [
+        { id: "dragon", analysis, weight: 1, priority: "nice" as const },
+        {
+          id: "flower",
+          analysis: minimal,
+          weight: 1,
+          priority: "nice" as const,
+        },
+      ];
+      const match = scoreArtistMatch(makeProfile("artist-1"), {
+        ...criteria,
+        moodBoard,
+      });
+
+      expect(match!.breakdown.designScore).toBeLessThan(1);
+      expect(match!.referenceMatches).toEqual([
+        {
+          portfolioItemId: "artist-1-item",
+          referenceId: "dragon",
+          similarity: expect.closeTo(1),
+        },
+      ]);
+
+      // Missing the must-have flower halves the design score
+      const mustHave = scoreArtistMatch(makeProfile("artist-1"), {
+        ...criteria,
+        moodBoard: [moodBoard[0], { ...moodBoard[1], priority: "must" }],
+      });
+      expect(mustHave!.breakdown.designScore).toBeLessThan(
+        match!.breakdown.designScore * 0.6,
+      );
+    });
+
+    it("should skip artists outside the search radius or without a location", () => {
+      expect(
+        scoreArtistMatch(
+          makeProfile("far", {
+            location: { latitude: 34.69, longitude: 135.5 },
+          }),
+          criteria,
+        ),
+      ).toBeNull();
+      expect(
+        scoreArtistMatch(makeProfile("unknown", { location: null }), criteria),
+      ).toBeNull();
+    });
+  });
+
+  describe("rankArtistMatches", () => {
+    it("should sort by score and drop weak matches", () => {
+      const weak = makeProfile(
+        "weak",
+        {
+          portfolioSamples: [],
+          location: { latitude: 35.76, longitude: 139.76 },
+        },
+        { rating: 0, totalReviews: 0, experienceYears: 0, priceRange: null },
+      );
+      const good = makeProfile("good");
+      const better = makeProfile("better", {}, { verified: true });
+
+      expect(
+        rankArtistMatches([weak, good, better], criteria).map(
+          (match) => match.artist.uid,
+        ),
+      ).toEqual(["better", "good"]);
+    });
+
+    it("should score with the given weight profile", () => {
+      const designOnly = {
+        ...DEFAULT_WEIGHT_PROFILE,
+        id: "design-only",
+        weights: {
+          designScore: 1,
+          artistScore: 0,
+          priceScore: 0,
+          distanceScore: 0,
+        },
+        minMatchScore: 0.5,
+      };
+      const [match] = rankArtistMatches(
+        [makeProfile("good")],
+        criteria,
+        designOnly,
+      );
+
+      expect(match.matchScore).toBeCloseTo(match.breakdown.designScore);
+      expect(
+        rankArtistMatches(
+          [makeProfile("blank", { portfolioSamples: [] })],
+          criteria,
+          designOnly,
+        ),
+      ).toEqual([]);
+    });
+  });
+
+  describe("calculatePriceScore", () => {
+    it("should prefer prices near the middle of the budget", () => {
+      const centered = calculatePriceScore(
+        { priceRange: { small: 60000, medium: 60000, large: 60000 } },
+        criteria.budgetRange,
+      );
+      const edge = calculatePriceScore(
+        { priceRange: { small: 79000, medium: 79000, large: 79000 } },
+        criteria.budgetRange,
+      );
+      const over = calculatePriceScore(
+        { priceRange: { small: 150000, medium: 150000, large: 150000 } },
+        criteria.budgetRange,
+      );
+
+      expect(centered).toBe(1);
+      expect(edge).toBeLessThan(centered);
+      expect(over).toBeLessThan(edge);
+    });
+
+    it("should be neutral without pricing", () => {
+      expect(calculatePriceScore(undefined, criteria.budgetRange)).toBe(0.5);
+    });
+  });
+
+  it("should weight style, color, motifs and complexity", () => {
+    expect(
+      compareAnalyses(analysis, analysis).overallCompatibility,
+    ).toBeCloseTo(1);
+    expect(
+      compareAnalyses(analysis, {
+        ...analysis,
+        style: "ミニマル",
+        motifs: ["花"],
+      }).overallCompatibility,
+    ).toBeCloseTo(0.35);
+  });
+
+  describe("isValidMatchingCriteria", () => {
+    it("should accept complete criteria", () => {
+      expect(isValidMatchingCriteria(criteria)).toBe(true);
+    });
+
+    it("should reject malformed client input", () => {
+      expect(isValidMatchingCriteria(null)).toBe(false);
+      expect(isValidMatchingCriteria({ ...criteria, maxDistance: 5000 })).toBe(
+        false,
+      );
+      expect(
+        isValidMatchingCriteria({
+          ...criteria,
+          budgetRange: { min: 90000, max: 10000 },
+        }),
+      ).toBe(false);
+      expect(
+        isValidMatchingCriteria({
+          ...criteria,
+          customerAnalysis: { ...analysis, complexity: "unknown" },
+        }),
+      ).toBe(false);
+      expect(
+        isValidMatchingCriteria({
+          ...criteria,
+          moodBoard: [{ id: "a", analysis, weight: 2, priority: "nice" }],
+        }),
+      ).toBe(false);
+    });
+  });
+});
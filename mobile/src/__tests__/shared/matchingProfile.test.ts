@@ -0,0 +1,194 @@
+/**
+ * 🧪 Shared Artist Matching Profile Test Suite
+ */
+
+import {
+  MATCHING_PROFILE_SAMPLE_SIZE,
+  PortfolioItem,
+  buildArtistMatchingProfile,
+  getSpecialtyStyleBonus,
+} from "@tattoo-journey/shared";
+
+describe("Shared artist matching profile", () => {
+  const makeItem = (
+    id: string,
+    analysis: Partial<PortfolioItem["aiAnalysis"]> | null,
+  ): PortfolioItem =>
+    ({
+      id,
+      imageUrl: `https://example.com/${id}.jpg`,
+      title: id,
+      style: "ジャパニーズ",
+      size: "medium",
+      duration: 3,
+      price: 50000,
+      tags: [],
+      aiAnalysis: analysis && {
+        style: "ジャパニーズ",
+        colorPalette: [],
+        isColorful: false,
+        motifs: [],
+        complexity: "中程度",
+        confidence: 0.9,
+        ...analysis,
+      },
+      createdAt: new Date("2025-01-01T00:00:00Z"),
+    }) as PortfolioItem;
+
+  const artist = {
+    displayName: "Artist",
+    userType: "artist",
+    profile: {
+      location: { latitude: 35.68, longitude: 139.76 },
+      artistInfo: {
+        rating: 4.2,
+        totalReviews: 8,
+        hourlyRate: 15000,
+        priceRange: { small: 20000, medium: 50000, large: 120000 },
+      },
+    },
+  };
+
+  const build = (
+    overrides: Partial<Parameters<typeof buildArtistMatchingProfile>[0]> = {},
+  ) =>
+    buildArtistMatchingProfile({
+      artistId: "artist-1",
+      artist,
+      portfolio: [],
+      specialties: [],
+      reviews: [],
+      ...overrides,
+    });
+
+  describe("buildArtistMatchingProfile", () => {
+    it("should aggregate styles, colors and motifs of analyzed items", () => {
+      const profile = build({
+        portfolio: [
+          makeItem("a", {
+            style: "ジャパニーズ",
+            isColorful: true,
+            colorPalette: ["#FF0000", "#000000"],
+            motifs: ["龍", "波"],
+          }),
+          makeItem("b", {
+            style: "ジャパニーズ",
+            colorPalette: ["#ff0000"],
+            motifs: ["龍"],
+          }),
+          makeItem("c", { style: "ミニマル", motifs: ["花"] }),
+          makeItem("d", { style: "ミニマル", motifs: ["花"] }),
+          makeItem("unanalyzed", null),
+        ],
+      });
+
+      expect(profile.styleHistogram).toEqual({
+        ジャパニーズ: 0.5,
+        ミニマル: 0.5,
+      });
+      expect(profile.colorProfile).toEqual({
+        colorfulRatio: 0.25,
+        palette: ["#ff0000", "#000000"],
+      });
+      expect(profile.motifs).toEqual(["龍", "花", "波"]);
+      expect(profile.portfolioCount).toBe(5);
+      expect(profile.analyzedCount).toBe(4);
+      expect(profile.portfolioSamples.map((item) => item.id)).toEqual([
+        "a",
+        "b",
+        "c",
+        "d",
+      ]);
+    });
+
+    it("should cap the portfolio samples", () => {
+      const portfolio = Array.from(
+        { length: MATCHING_PROFILE_SAMPLE_SIZE + 5 },
+        (_, i) => makeItem(`item-${i}`, {}),
+      );
+
+      expect(build({ portfolio }).portfolioSamples).toHaveLength(
+        MATCHING_PROFILE_SAMPLE_SIZE,
+      );
+    });
+
+    it("should take price bands and location from the artist profile", () => {
+      const profile = build();
+
+      expect(profile.priceBands).toEqual({
+        small: 20000,
+        medium: 50000,
+        large: 120000,
+        hourlyRate: 15000,
+      });
+      expect(profile.location).toEqual({ latitude: 35.68, longitude: 139.76 });
+    });
+
+    it("should average review ratings, falling back to the artist profile", () => {
+      expect(build().rating).toEqual({ average: 4.2, totalReviews: 8 });
+      expect(
+        build({
+          reviews: [{ overallRating: 5 }, { overallRating: 4 }, {}],
+        }).rating,
+      ).toEqual({ average: 4.5, totalReviews: 2 });
+    });
+
+    it("should highlight the best rated reviews with comments", () => {
+      const profile = build({
+        reviews: [
+          { id: "r1", overallRating: 3, comment: "普通" },
+          { id: "r2", overallRating: 5, comment: "最高でした" },
+          { id: "r3", overallRating: 5 },
+          { id: "r4", overallRating: 4, comment: "丁寧" },
+          { id: "r5", overallRating: 2, comment: "残念" },
+        ],
+      });
+
+      expect(profile.reviewHighlights).toEqual([
+        { id: "r2", rating: 5, comment: "最高でした" },
+        { id: "r4", rating: 4, comment: "丁寧" },
+        { id: "r1", rating: 3, comment: "普通" },
+      ]);
+    });
+
+    it("should keep only active specialties", () => {
+      const profile = build({
+        specialties: [
+          {
+            styleName: "ジャパニーズ",
+            proficiencyLevel: 5,
+            experienceYears: 10,
+          },
+          {
+            styleName: "ミニマル",
+            proficiencyLevel: 3,
+            experienceYears: 2,
+            isActive: false,
+          },
+        ],
+      });
+
+      expect(profile.specialties).toEqual([
+        { styleName: "ジャパニーズ", proficiencyLevel: 5, experienceYears: 10 },
+      ]);
+    });
+  });
+
+  describe("getSpecialtyStyleBonus", () => {
+    const specialties = [
+      { styleName: "ジャパニーズ", proficiencyLevel: 5, experienceYears: 20 },
+      { styleName: "ミニマル", proficiencyLevel: 1, experienceYears: 3 },
+    ];
+
+    it("should reward proficiency and experience up to their caps", () => {
+      expect(getSpecialtyStyleBonus(specialties, "ジャパニーズ")).toBeCloseTo(
+        0.3,
+      );
+      expect(getSpecialtyStyleBonus(specialties, "ミニマル")).toBeCloseTo(0.03);
+    });
+
+    it("should give no bonus without a matching specialty", () => {
+      expect(getSpecialtyStyleBonus(specialties, "リアリズム")).toBe(0);
+    });
+  });
+});
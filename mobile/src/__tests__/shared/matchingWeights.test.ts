@@ -0,0 +1,200 @@
+/**
+ * 🧪 Shared Matching Weight Profiles & Evaluation Test Suite
+ */
+
+import {
+  DEFAULT_WEIGHT_PROFILE,
+  MatchingReplayCandidate,
+  MatchingWeightConfig,
+  MatchingWeightProfile,
+  assignMatchingCohort,
+  evaluateMatchingReplay,
+  getWeightProfileDocId,
+  isValidWeightConfig,
+  isValidWeightProfile,
+  rankReplayCandidates,
+} from "@tattoo-journey/shared";
+
+describe("Shared matching weight profiles", () => {
+  const designHeavy: MatchingWeightProfile = {
+    id: "design-heavy",
+    version: 2,
+    weights: {
+      designScore: 0.7,
+      artistScore: 0.1,
+      priceScore: 0.1,
+      distanceScore: 0.1,
+    },
+    minMatchScore: 0.2,
+  };
+
+  const candidate = (
+    artistId: string,
+    designScore: number,
+    artistScore: number,
+  ): MatchingReplayCandidate => ({
+    artistId,
+    breakdown: {
+      designScore,
+      artistScore,
+      priceScore: 0.5,
+      distanceScore: 0.5,
+    },
+  });
+
+  // "designer" wins on design, "veteran" on reputation
+  const candidates = [
+    candidate("veteran", 0.3, 1),
+    candidate("designer", 0.9, 0.2),
+    candidate("weak", 0, 0),
+  ];
+
+  describe("isValidWeightProfile", () => {
+    it("should accept the default profile", () => {
+      expect(isValidWeightProfile(DEFAULT_WEIGHT_PROFILE)).toBe(true);
+      expect(isValidWeightProfile(designHeavy)).toBe(true);
+    });
+
+    it("should reject weights that do not sum to 1 or bad cutoffs", () => {
+      expect(
+        isValidWeightProfile({
+          ...designHeavy,
+          weights: { ...designHeavy.weights, designScore: 0.9 },
+        }),
+      ).toBe(false);
+      expect(
+        isValidWeightProfile({
+          ...designHeavy,
+          weights: { ...designHeavy.weights, designScore: -0.1 },
+        }),
+      ).toBe(false);
+      expect(isValidWeightProfile({ ...designHeavy, minMatchScore: 1 })).toBe(
+        false,
+      );
+      expect(isValidWeightProfile({ ...designHeavy, version: 0 })).toBe(false);
+      expect(isValidWeightProfile({ ...designHeavy, id: "Bad Id" })).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("assignMatchingCohort", () => {
+    const config: MatchingWeightConfig = {
+      defaultWeightProfileId: "default_v1",
+      experiments: [
+        {
+          id: "design-test",
+          weightProfileId: "design-heavy_v2",
+          trafficShare: 0.5,
+        },
+      ],
+    };
+    const userIds = Array.from({ length: 200 }, (_, i) => `user-${i}`);
+
+    it("should always put a user in the same cohort", () => {
+      userIds.forEach((userId) => {
+        expect(assignMatchingCohort(config, userId)).toEqual(
+          assignMatchingCohort(config, userId),
+        );
+      });
+    });
+
+    it("should split users roughly by traffic share", () => {
+      const inExperiment = userIds.filter(
+        (userId) =>
+          assignMatchingCohort(config, userId).experimentId === "design-test",
+      ).length;
+
+      expect(inExperiment).toBeGreaterThan(70);
+      expect(inExperiment).toBeLessThan(130);
+    });
+
+    it("should use the default profile without experiments", () => {
+      expect(
+        assignMatchingCohort({ ...config, experiments: [] }, "user-1"),
+      ).toEqual({ weightProfileId: "default_v1", experimentId: null });
+    });
+  });
+
+  describe("isValidWeightConfig", () => {
+    it("should reject traffic shares above 1 and duplicate experiments", () => {
+      const experiment = {
+        id: "a",
+        weightProfileId: "design-heavy_v2",
+        trafficShare: 0.6,
+      };
+
+      expect(
+        isValidWeightConfig({
+          defaultWeightProfileId: "default_v1",
+          experiments: [experiment],
+        }),
+      ).toBe(true);
+      expect(
+        isValidWeightConfig({
+          defaultWeightProfileId: "default_v1",
+          experiments: [experiment, { ...experiment, id: "b" }],
+        }),
+      ).toBe(false);
+      expect(
+        isValidWeightConfig({
+          defaultWeightProfileId: "default_v1",
+          experiments: [experiment, { ...experiment, trafficShare: 0.1 }],
+        }),
+      ).toBe(false);
+    });
+  });
+
+  describe("rankReplayCandidates", () => {
+    it("should re-score stored breakdowns with the profile's weights", () => {
+      expect(
+        rankReplayCandidates(candidates, DEFAULT_WEIGHT_PROFILE).map(
+          (match) => match.artistId,
+        ),
+      ).toEqual(["veteran", "designer"]);
+      expect(
+        rankReplayCandidates(candidates, designHeavy).map(
+          (match) => match.artistId,
+        ),
+      ).toEqual(["designer", "veteran"]);
+    });
+  });
+
+  describe("evaluateMatchingReplay", () => {
+    it("should report the booked artist's position", () => {
+      const cases = [
+        { candidates, bookedArtistId: "designer" },
+        { candidates, bookedArtistId: "designer" },
+        { candidates, bookedArtistId: "weak" },
+      ];
+
+      const baseline = evaluateMatchingReplay(cases, DEFAULT_WEIGHT_PROFILE);
+      const report = evaluateMatchingReplay(cases, designHeavy);
+
+      expect(baseline.meanBookedPosition).toBe(2);
+      expect(baseline.hitRate[1]).toBe(0);
+      expect(report).toEqual({
+        weightProfileId: "design-heavy",
+        version: 2,
+        cases: 3,
+        bookedInResults: 2,
+        meanReciprocalRank: 2 / 3,
+        meanBookedPosition: 1,
+        hitRate: { 1: 2 / 3, 3: 2 / 3, 10: 2 / 3 },
+        averageResultCount: 2,
+      });
+    });
+
+    it("should handle no cases", () => {
+      expect(evaluateMatchingReplay([], designHeavy)).toMatchObject({
+        cases: 0,
+        meanReciprocalRank: 0,
+        meanBookedPosition: null,
+      });
+    });
+  });
+
+  it("should name each profile version", () => {
+    expect(getWeightProfileDocId("design-heavy", 2)).toBe("design-heavy_v2");
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * 🧪 Shared Mood Board Test Suite
+ */
+
+import {
+  AIAnalysis,
+  MAX_MOOD_BOARD_REFERENCES,
+  MoodBoardReference,
+  getMustHaveCoverage,
+  getMustHaveFactor,
+  isValidMoodBoard,
+  mergeMoodBoard,
+} from "@tattoo-journey/shared";
+
+describe("Shared mood board", () => {
+  const dragon: AIAnalysis = {
+    style: "ジャパニーズ",
+    colorPalette: ["#FF0000", "#000000"],
+    isColorful: true,
+    motifs: ["龍", "雲"],
+    complexity: "複雑",
+    confidence: 0.9,
+  };
+  const flower: AIAnalysis = {
+    style: "ミニマル",
+    colorPalette: ["#000000"],
+    isColorful: false,
+    motifs: ["花"],
+    complexity: "シンプル",
+    confidence: 0.6,
+  };
+
+  const reference = (
+    id: string,
+    analysis: AIAnalysis,
+    overrides: Partial<MoodBoardReference> = {},
+  ): MoodBoardReference => ({
+    id,
+    analysis,
+    weight: 1,
+    priority: "nice",
+    ...overrides,
+  });
+
+  describe("mergeMoodBoard", () => {
+    it("should weight the composite by reference influence", () => {
+      const composite = mergeMoodBoard([
+        reference("a", dragon, { weight: 0.5 }),
+        reference("b", flower),
+      ]);
+
+      expect(composite.style).toBe("ミニマル");
+      expect(composite.complexity).toBe("シンプル");
+      expect(composite.isColorful).toBe(false);
+      expect(composite.colorPalette[0]).toBe("#000000");
+      expect(composite.styleWeights["ミニマル"]).toBeCloseTo(2 / 3);
+      expect(composite.confidence).toBeCloseTo(0.7);
+      expect(composite.mustHaveStyles).toEqual([]);
+    });
+
+    it("should let must-haves outweigh nice-to-haves", () => {
+      const composite = mergeMoodBoard([
+        reference("a", dragon, { priority: "must", weight: 0.67 }),
+        reference("b", flower),
+      ]);
+
+      expect(composite.style).toBe("ジャパニーズ");
+      expect(composite.mustHaveStyles).toEqual(["ジャパニーズ"]);
+      expect(composite.mustHaveMotifs).toEqual(["龍", "雲"]);
+      expect(composite.motifs.slice(0, 2)).toEqual(["龍", "雲"]);
+    });
+  });
+
+  describe("getMustHaveCoverage", () => {
+    const composite = mergeMoodBoard([
+      reference("a", dragon, { priority: "must" }),
+      reference("b", flower),
+    ]);
+
+    it("should count covered must-have styles and motifs", () => {
+      expect(
+        getMustHaveCoverage(
+          {
+            styleHistogram: { ジャパニーズ: 3 },
+            motifs: ["龍"],
+            specialties: [],
+          },
+          composite,
+        ),
+      ).toBeCloseTo(2 / 3);
+      expect(
+        getMustHaveCoverage(
+          { styleHistogram: {}, motifs: [], specialties: [] },
+          composite,
+        ),
+      ).toBe(0);
+      expect(
+        getMustHaveCoverage(
+          { styleHistogram: {}, motifs: [], specialties: [] },
+          mergeMoodBoard([reference("b", flower)]),
+        ),
+      ).toBe(1);
+    });
+
+    it("should turn coverage into a design score multiplier", () => {
+      expect(getMustHaveFactor(1)).toBe(1);
+      expect(getMustHaveFactor(0)).toBe(0.5);
+    });
+  });
+
+  describe("isValidMoodBoard", () => {
+    it("should accept well-formed boards", () => {
+      expect(
+        isValidMoodBoard([reference("a", dragon), reference("b", flower)]),
+      ).toBe(true);
+    });
+
+    it("should reject malformed client input", () => {
+      expect(isValidMoodBoard([])).toBe(false);
+      expect(
+        isValidMoodBoard(
+          Array.from({ length: MAX_MOOD_BOARD_REFERENCES + 1 }, (_, i) =>
+            reference(`r${i}`, dragon),
+          ),
+        ),
+      ).toBe(false);
+      expect(
+        isValidMoodBoard([reference("a", dragon), reference("a", flower)]),
+      ).toBe(false);
+      expect(isValidMoodBoard([reference("a", dragon, { weight: 0 })])).toBe(
+        false,
+      );
+      expect(
+        isValidMoodBoard([
+          { ...reference("a", dragon), priority: "sometimes" },
+        ]),
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * 🧪 Shared Payment Ledger Test Suite
+ */
+
+import {
+  FakePaymentProvider,
+  getCancellationRefunds,
+  getDepositAmount,
+  getDepositRefundRate,
+  summarizeLedger,
+} from "@tattoo-journey/shared";
+
+describe("Shared payment ledger", () => {
+  const HOUR = 60 * 60 * 1000;
+  const appointmentDate = new Date(2025, 5, 1, 12);
+  const hoursBefore = (hours: number) =>
+    new Date(appointmentDate.getTime() - hours * HOUR);
+
+  const entries = [
+    {
+      id: "deposit",
+      type: "deposit" as const,
+      amount: 10000,
+      status: "succeeded" as const,
+    },
+    {
+      id: "consultation",
+      type: "consultation_fee" as const,
+      amount: 3000,
+      status: "succeeded" as const,
+    },
+    {
+      id: "declined",
+      type: "balance" as const,
+      amount: 40000,
+      status: "failed" as const,
+    },
+  ];
+
+  describe("getDepositAmount", () => {
+    it("should support fixed and percentage deposits", () => {
+      expect(getDepositAmount({ type: "none", value: 0 }, 50000)).toBe(0);
+      expect(getDepositAmount({ type: "fixed", value: 10000 }, 50000)).toBe(
+        10000,
+      );
+      expect(getDepositAmount({ type: "fixed", value: 80000 }, 50000)).toBe(
+        50000,
+      );
+      expect(getDepositAmount({ type: "percentage", value: 30 }, 45000)).toBe(
+        13500,
+      );
+      expect(getDepositAmount(undefined, 50000)).toBe(0);
+    });
+  });
+
+  describe("summarizeLedger", () => {
+    it("should ignore failed entries and net out refunds", () => {
+      const summary = summarizeLedger(
+        [...entries, { type: "refund", amount: 5000, status: "succeeded" }],
+        50000,
+      );
+
+      expect(summary.paidAmount).toBe(13000);
+      expect(summary.refundedAmount).toBe(5000);
+      expect(summary.netPaid).toBe(8000);
+      expect(summary.depositPaid).toBe(true);
+      // Consultation fees are not part of the confirmed price
+      expect(summary.balanceDue).toBe(40000);
+    });
+
+    it("should only mark the deposit paid once it covers the required amount", () => {
+      const deposits = [
+        {
+          type: "deposit" as const,
+          amount: 3000,
+          status: "succeeded" as const,
+        },
+        { type: "deposit" as const, amount: 7000, status: "pending" as const },
+      ];
+
+      expect(summarizeLedger(deposits, 50000, 10000).depositPaid).toBe(false);
+      expect(
+        summarizeLedger(
+          [{ ...deposits[1], status: "succeeded" }, deposits[0]],
+          50000,
+          10000,
+        ).depositPaid,
+      ).toBe(true);
+    });
+  });
+
+  describe("getCancellationRefunds", () => {
+    it("should refund the deposit by how early the customer cancels", () => {
+      expect(getDepositRefundRate(8 * 24)).toBe(1);
+      expect(getDepositRefundRate(72)).toBe(0.5);
+      expect(getDepositRefundRate(12)).toBe(0);
+
+      expect(
+        getCancellationRefunds({
+          entries,
+          cancelledBy: "customer",
+          cancelledAt: hoursBefore(72),
+          appointmentDate,
+        }),
+      ).toEqual([{ entryId: "deposit", type: "deposit", amount: 5000 }]);
+    });
+
+    it("should refund everything when the artist cancels", () => {
+      expect(
+        getCancellationRefunds({
+          entries,
+          cancelledBy: "artist",
+          cancelledAt: hoursBefore(1),
+          appointmentDate,
+        }),
+      ).toEqual([
+        { entryId: "deposit", type: "deposit", amount: 10000 },
+        { entryId: "consultation", type: "consultation_fee", amount: 3000 },
+      ]);
+    });
+
+    it("should not refund the same charge twice", () => {
+      expect(
+        getCancellationRefunds({
+          entries: [
+            ...entries,
+            {
+              id: "refund",
+              type: "refund",
+              amount: 10000,
+              status: "succeeded",
+              refundOf: "deposit",
+            },
+          ],
+          cancelledBy: "artist",
+          cancelledAt: hoursBefore(1),
+          appointmentDate,
+        }).map((refund) => refund.entryId),
+      ).toEqual(["consultation"]);
+    });
+  });
+
+  describe("FakePaymentProvider", () => {
+    it("should charge, refund up to the charge and report failures", async () => {
+      const provider = new FakePaymentProvider();
+      const charge = await provider.charge({
+        reference: "entry1",
+        idempotencyKey: "key1",
+        amount: 10000,
+        currency: "JPY",
+        customerId: "customer1",
+        description: "デポジット",
+      });
+
+      expect(charge.status).toBe("succeeded");
+
+      // A retried request with the same key is the same charge
+      expect(
+        await provider.charge({
+          reference: "entry1-retry",
+          idempotencyKey: "key1",
+          amount: 10000,
+          currency: "JPY",
+          customerId: "customer1",
+          description: "デポジット",
+        }),
+      ).toEqual(charge);
+      expect(provider.charges.size).toBe(1);
+
+      const refund = {
+        chargeReference: charge.providerReference!,
+        amount: 6000,
+        currency: "JPY" as const,
+      };
+      expect(
+        (await provider.refund({ ...refund, reference: "entry2" })).status,
+      ).toBe("succeeded");
+      expect(await provider.refund({ ...refund, reference: "entry3" })).toEqual(
+        { status: "failed", failureReason: "amount_exceeds_charge" },
+      );
+
+      provider.failWith = "card_declined";
+      expect(
+        (
+          await provider.charge({
+            reference: "entry4",
+            idempotencyKey: "key4",
+            amount: 5000,
+            currency: "JPY",
+            customerId: "customer1",
+            description: "施術料金",
+          })
+        ).failureReason,
+      ).toBe("card_declined");
+    });
+  });
+});
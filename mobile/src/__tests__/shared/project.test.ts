@@ -0,0 +1,114 @@
+/**
+ * 🧪 Shared Multi-Session Project Test Suite
+ */
+
+import {
+  canUpdateProjectSession,
+  getProjectProgress,
+  getProjectStatus,
+  isMultiSessionSize,
+} from "@tattoo-journey/shared";
+
+describe("Shared project model", () => {
+  const project = {
+    quotedPrice: 300000,
+    depositAmount: 50000,
+    plannedSessions: 3,
+  };
+  const payment = (
+    type: "deposit" | "balance" | "refund",
+    amount: number,
+    status: "pending" | "succeeded" | "failed" = "succeeded",
+  ) => ({ type, amount, status });
+  const session = (
+    sessionNumber: number,
+    status: "unscheduled" | "scheduled" | "completed" | "cancelled",
+    extra: {
+      scheduledDate?: Date;
+      actualDuration?: number;
+    } = {},
+  ) => ({
+    id: `s${sessionNumber}`,
+    sessionNumber,
+    status,
+    duration: 240,
+    ...extra,
+  });
+
+  describe("isMultiSessionSize", () => {
+    it("should only require projects for extra-large pieces", () => {
+      expect(isMultiSessionSize("extra-large")).toBe(true);
+      expect(isMultiSessionSize("large")).toBe(false);
+    });
+  });
+
+  describe("getProjectProgress", () => {
+    it("should total completed sessions, ledger payments and the next session", () => {
+      const progress = getProjectProgress(
+        project,
+        [
+          session(1, "completed", { actualDuration: 300 }),
+          session(2, "scheduled", { scheduledDate: new Date(2025, 1, 10) }),
+          session(3, "scheduled", { scheduledDate: new Date(2025, 1, 3) }),
+        ],
+        [payment("deposit", 50000), payment("balance", 80000)],
+      );
+
+      expect(progress.completedSessions).toBe(1);
+      expect(progress.totalSessions).toBe(3);
+      expect(progress.completedMinutes).toBe(300);
+      expect(progress.scheduledMinutes).toBe(480);
+      expect(progress.depositPaid).toBe(true);
+      expect(progress.paidAmount).toBe(130000);
+      expect(progress.remainingBalance).toBe(170000);
+      expect(progress.nextSession?.id).toBe("s3");
+    });
+
+    it("should only count succeeded payments and ignore cancelled sessions", () => {
+      const progress = getProjectProgress(
+        project,
+        [session(1, "cancelled")],
+        [
+          payment("deposit", 50000, "pending"),
+          payment("balance", 10000, "failed"),
+        ],
+      );
+
+      expect(progress.depositPaid).toBe(false);
+      expect(progress.paidAmount).toBe(0);
+      expect(progress.remainingBalance).toBe(300000);
+      expect(progress.progress).toBe(0);
+    });
+  });
+
+  describe("getProjectStatus", () => {
+    it("should derive the project status from its sessions", () => {
+      expect(getProjectStatus([])).toBe("planning");
+      expect(getProjectStatus([session(1, "unscheduled")])).toBe("planning");
+      expect(
+        getProjectStatus([session(1, "completed"), session(2, "unscheduled")]),
+      ).toBe("in_progress");
+      expect(
+        getProjectStatus([session(1, "completed"), session(2, "cancelled")]),
+      ).toBe("completed");
+      expect(getProjectStatus([session(1, "cancelled")])).toBe("cancelled");
+    });
+  });
+
+  describe("canUpdateProjectSession", () => {
+    it("should only complete scheduled sessions", () => {
+      expect(canUpdateProjectSession("scheduled", "complete_session")).toBe(
+        true,
+      );
+      expect(canUpdateProjectSession("unscheduled", "complete_session")).toBe(
+        false,
+      );
+      expect(canUpdateProjectSession("completed", "schedule_session")).toBe(
+        false,
+      );
+      expect(canUpdateProjectSession("unscheduled", "cancel_session")).toBe(
+        true,
+      );
+    });
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * 🧪 Shared Learning-to-Rank Model Test Suite
+ */
+
+import {
+  ImpressionOutcomes,
+  MATCH_FEATURE_NAMES,
+  MatchFeatures,
+  blendRankingScores,
+  getImpressionRelevance,
+  isValidRankingConfig,
+  labelMatchImpression,
+  scoreWithRankingModel,
+  trainRankingModel,
+} from "@tattoo-journey/shared";
+
+describe("Shared ranking model", () => {
+  const searchedAt = new Date("2025-03-01T10:00:00Z");
+  const daysAfter = (days: number) =>
+    new Date(searchedAt.getTime() + days * 86400000);
+
+  const makeFeatures = (overrides: Partial<MatchFeatures> = {}) => {
+    const features = {} as MatchFeatures;
+    MATCH_FEATURE_NAMES.forEach((name) => {
+      features[name] = 0.5;
+    });
+    return { ...features, ...overrides };
+  };
+
+  const noOutcomes: ImpressionOutcomes = { bookings: [], reviews: [] };
+
+  describe("labelMatchImpression", () => {
+    it("should label views and inquiries from interactions", () => {
+      expect(
+        labelMatchImpression("artist-1", searchedAt, 30, {
+          ...noOutcomes,
+          interaction: { viewedAt: daysAfter(0) },
+        }),
+      ).toEqual({
+        viewed: true,
+        inquired: false,
+        booked: false,
+        completed: false,
+        rating: null,
+      });
+    });
+
+    it("should follow the booking through completion and review", () => {
+      const labels = labelMatchImpression("artist-1", searchedAt, 30, {
+        bookings: [
+          {
+            artistId: "artist-1",
+            status: "completed",
+            createdAt: daysAfter(2),
+          },
+        ],
+        reviews: [
+          { artistId: "artist-1", overallRating: 5, createdAt: daysAfter(40) },
+        ],
+      });
+
+      expect(labels).toEqual({
+        viewed: true,
+        inquired: true,
+        booked: true,
+        completed: true,
+        rating: 5,
+      });
+      expect(getImpressionRelevance(labels)).toBe(5);
+    });
+
+    it("should ignore bookings outside the window or with other artists", () => {
+      const labels = labelMatchImpression("artist-1", searchedAt, 30, {
+        bookings: [
+          {
+            artistId: "artist-1",
+            status: "confirmed",
+            createdAt: daysAfter(-1),
+          },
+          {
+            artistId: "artist-1",
+            status: "confirmed",
+            createdAt: daysAfter(31),
+          },
+          {
+            artistId: "artist-2",
+            status: "confirmed",
+            createdAt: daysAfter(1),
+          },
+        ],
+        reviews: [],
+      });
+
+      expect(getImpressionRelevance(labels)).toBe(0);
+    });
+
+    it("should count a declined request as an inquiry", () => {
+      const labels = labelMatchImpression("artist-1", searchedAt, 30, {
+        bookings: [
+          { artistId: "artist-1", status: "declined", createdAt: daysAfter(1) },
+        ],
+        reviews: [],
+      });
+
+      expect(labels.inquired).toBe(true);
+      expect(labels.booked).toBe(false);
+      expect(getImpressionRelevance(labels)).toBe(2);
+    });
+  });
+
+  describe("trainRankingModel", () => {
+    // Customers book the artist with the best style fit, whatever the price
+    const searches = Array.from({ length: 20 }, (_, i) => [
+      {
+        features: makeFeatures({ styleShare: 0.9, priceScore: 0.2 + i * 0.01 }),
+        relevance: 3,
+      },
+      {
+        features: makeFeatures({ styleShare: 0.1, priceScore: 0.9 }),
+        relevance: 0,
+      },
+      {
+        features: makeFeatures({ styleShare: 0.4, priceScore: 0.6 }),
+        relevance: 1,
+      },
+    ]);
+
+    it("should learn which features separate the outcomes", () => {
+      const model = trainRankingModel(searches);
+
+      expect(model.pairCount).toBe(60);
+      expect(model.pairAccuracy).toBe(1);
+      expect(model.weights.styleShare).toBeGreaterThan(0);
+      expect(model.weights.priceScore).toBeLessThan(model.weights.styleShare);
+      expect(
+        scoreWithRankingModel(model, makeFeatures({ styleShare: 0.9 })),
+      ).toBeGreaterThan(
+        scoreWithRankingModel(model, makeFeatures({ styleShare: 0.1 })),
+      );
+    });
+
+    it("should produce no pairs without differing relevance", () => {
+      expect(
+        trainRankingModel([
+          [
+            { features: makeFeatures(), relevance: 0 },
+            { features: makeFeatures(), relevance: 0 },
+          ],
+        ]),
+      ).toMatchObject({ pairCount: 0, pairAccuracy: 0 });
+    });
+  });
+
+  describe("blendRankingScores", () => {
+    it("should mix the model score into the match score and re-sort", () => {
+      const model = { weights: { styleShare: 10 } };
+      const matches = [
+        {
+          id: "priced",
+          matchScore: 0.8,
+          features: makeFeatures({ styleShare: 0 }),
+        },
+        {
+          id: "styled",
+          matchScore: 0.7,
+          features: makeFeatures({ styleShare: 1 }),
+        },
+      ];
+
+      const blended = blendRankingScores(matches, model, 0.5);
+
+      expect(blended.map((match) => match.id)).toEqual(["styled", "priced"]);
+      expect(blended[1].matchScore).toBeCloseTo(0.65);
+      expect(blendRankingScores(matches, model, 0)[0].id).toBe("priced");
+    });
+  });
+
+  describe("isValidRankingConfig", () => {
+    it("should require a model when enabled", () => {
+      expect(
+        isValidRankingConfig({
+          enabled: false,
+          modelId: null,
+          blendWeight: 0.3,
+        }),
+      ).toBe(true);
+      expect(
+        isValidRankingConfig({
+          enabled: true,
+          modelId: null,
+          blendWeight: 0.3,
+        }),
+      ).toBe(false);
+      expect(
+        isValidRankingConfig({
+          enabled: true,
+          modelId: "pairwise-logistic_v1",
+          blendWeight: 1.5,
+        }),
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * 🧪 Shared Reminder Schedule Test Suite
+ */
+
+import {
+  AFTERCARE_REMINDER_KINDS,
+  APPOINTMENT_REMINDER_KINDS,
+  getReminderSendAt,
+  getScheduledNotificationId,
+  isReminderCategoryEnabled,
+  isReminderExpired,
+  planReminders,
+} from "@tattoo-journey/shared";
+
+describe("Shared reminder schedule", () => {
+  const HOUR = 60 * 60 * 1000;
+  const DAY = 24 * HOUR;
+  // 2025-06-10 15:00 JST
+  const appointmentDate = new Date("2025-06-10T06:00:00Z");
+
+  describe("getReminderSendAt", () => {
+    it("should count appointment reminders back from the appointment", () => {
+      expect(getReminderSendAt("appointment_48h", appointmentDate)).toEqual(
+        new Date(appointmentDate.getTime() - 48 * HOUR),
+      );
+      expect(getReminderSendAt("appointment_2h", appointmentDate)).toEqual(
+        new Date(appointmentDate.getTime() - 2 * HOUR),
+      );
+    });
+
+    it("should send the day-of checklist at 8:00 JST", () => {
+      expect(getReminderSendAt("day_of_checklist", appointmentDate)).toEqual(
+        new Date("2025-06-09T23:00:00Z"),
+      );
+    });
+
+    it("should send the checklist earlier for early appointments", () => {
+      // 2025-06-10 09:00 JST
+      const earlyAppointment = new Date("2025-06-10T00:00:00Z");
+
+      expect(getReminderSendAt("day_of_checklist", earlyAppointment)).toEqual(
+        new Date(earlyAppointment.getTime() - 3 * HOUR),
+      );
+    });
+
+    it("should count aftercare forward from completion", () => {
+      const completedAt = new Date("2025-06-10T09:00:00Z");
+
+      expect(getReminderSendAt("aftercare_day3", completedAt)).toEqual(
+        new Date(completedAt.getTime() + 3 * DAY),
+      );
+      expect(getReminderSendAt("touch_up_check", completedAt)).toEqual(
+        new Date(completedAt.getTime() + 42 * DAY),
+      );
+    });
+  });
+
+  describe("planReminders", () => {
+    it("should plan every reminder in sending order", () => {
+      const planned = planReminders(
+        APPOINTMENT_REMINDER_KINDS,
+        appointmentDate,
+        new Date(appointmentDate.getTime() - 7 * DAY),
+      );
+
+      expect(planned.map((reminder) => reminder.kind)).toEqual([
+        "appointment_48h",
+        "day_of_checklist",
+        "appointment_2h",
+      ]);
+      expect(
+        planned.every(
+          (reminder) => reminder.category === "appointment_reminder",
+        ),
+      ).toBe(true);
+    });
+
+    it("should skip reminders that are already due", () => {
+      const planned = planReminders(
+        APPOINTMENT_REMINDER_KINDS,
+        appointmentDate,
+        new Date(appointmentDate.getTime() - DAY),
+      );
+
+      expect(planned.map((reminder) => reminder.kind)).toEqual([
+        "day_of_checklist",
+        "appointment_2h",
+      ]);
+    });
+
+    it("should plan aftercare under its own category", () => {
+      const completedAt = new Date("2025-06-10T09:00:00Z");
+      const planned = planReminders(
+        AFTERCARE_REMINDER_KINDS,
+        completedAt,
+        completedAt,
+      );
+
+      expect(planned).toHaveLength(4);
+      expect(
+        planned.every((reminder) => reminder.category === "aftercare"),
+      ).toBe(true);
+    });
+  });
+
+  describe("isReminderExpired", () => {
+    it("should expire appointment reminders once the appointment has started", () => {
+      const reminder = {
+        kind: "appointment_2h" as const,
+        anchorDate: appointmentDate,
+      };
+
+      expect(
+        isReminderExpired(reminder, new Date(appointmentDate.getTime() - HOUR)),
+      ).toBe(false);
+      expect(isReminderExpired(reminder, appointmentDate)).toBe(true);
+    });
+
+    it("should keep aftercare reminders after completion", () => {
+      expect(
+        isReminderExpired(
+          { kind: "aftercare_day1", anchorDate: appointmentDate },
+          new Date(appointmentDate.getTime() + 2 * DAY),
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe("isReminderCategoryEnabled", () => {
+    it("should treat missing settings as enabled", () => {
+      expect(isReminderCategoryEnabled(null, "aftercare")).toBe(true);
+      expect(
+        isReminderCategoryEnabled(
+          { enabledNotificationTypes: { message: false } },
+          "aftercare",
+        ),
+      ).toBe(true);
+    });
+
+    it("should honour a disabled category", () => {
+      expect(
+        isReminderCategoryEnabled(
+          { enabledNotificationTypes: { appointment_reminder: false } },
+          "appointment_reminder",
+        ),
+      ).toBe(false);
+    });
+  });
+
+  it("should use one document per booking and reminder kind", () => {
+    expect(getScheduledNotificationId("booking-1", "aftercare_day1")).toBe(
+      "booking-1_aftercare_day1",
+    );
+  });
+});
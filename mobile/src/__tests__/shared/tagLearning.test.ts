@@ -0,0 +1,189 @@
+/**
+ * 🧪 Shared Tag Learning Test Suite
+ */
+
+import {
+  LEARNED_TAG_THRESHOLD,
+  MAX_CORRECTION_TAGS,
+  TagCorrection,
+  TagLearningWeights,
+  applyTagCorrection,
+  applyTagCorrections,
+  blendLearnedTagScores,
+  createEmptyTagWeights,
+  getAnalysisLabels,
+  getTagAcceptanceRate,
+  getUsualAddedTags,
+  isAcceptedUnchanged,
+  parseTagCorrection,
+  scoreLearnedTags,
+} from "@tattoo-journey/shared";
+
+describe("Shared tag learning", () => {
+  const learn = (corrections: TagCorrection[]): TagLearningWeights =>
+    corrections.reduce(applyTagCorrection, createEmptyTagWeights());
+
+  const koiCorrection: TagCorrection = {
+    labels: ["style:ジャパニーズ", "motif:魚"],
+    addedTags: ["鯉"],
+    removedTags: ["動物"],
+  };
+
+  describe("getAnalysisLabels", () => {
+    it("should use the style, motifs and confident vision labels", () => {
+      const labels = getAnalysisLabels({
+        style: "ジャパニーズ",
+        motifs: ["魚"],
+        rawLabels: [
+          { description: " Koi ", confidence: 0.9 },
+          { description: "Blur", confidence: 0.2 },
+        ],
+      });
+
+      expect(labels).toEqual(["style:ジャパニーズ", "motif:魚", "label:koi"]);
+    });
+  });
+
+  describe("parseTagCorrection", () => {
+    const stored = {
+      artistId: "artist1",
+      originalAnalysis: {
+        style: "ジャパニーズ",
+        motifs: ["魚"],
+        rawLabels: [{ description: "Koi", confidence: 0.9 }, "invalid"],
+      },
+      userActions: { added: ["鯉"], removed: ["動物"], custom: [] },
+    };
+
+    it("should read the labels and tag changes of a stored correction", () => {
+      expect(parseTagCorrection(stored)).toEqual({
+        labels: ["style:ジャパニーズ", "motif:魚", "label:koi"],
+        addedTags: ["鯉"],
+        removedTags: ["動物"],
+      });
+    });
+
+    it("should reject malformed or oversized corrections", () => {
+      const tooMany = Array.from(
+        { length: MAX_CORRECTION_TAGS + 1 },
+        (_, i) => `tag${i}`,
+      );
+
+      expect(parseTagCorrection(null)).toBeNull();
+      expect(
+        parseTagCorrection({ ...stored, originalAnalysis: undefined }),
+      ).toBeNull();
+      expect(
+        parseTagCorrection({
+          ...stored,
+          userActions: { added: "鯉", removed: [] },
+        }),
+      ).toBeNull();
+      expect(
+        parseTagCorrection({
+          ...stored,
+          userActions: { added: tooMany, removed: [] },
+        }),
+      ).toBeNull();
+    });
+  });
+
+  describe("applyTagCorrection", () => {
+    it("should count additions and removals per label", () => {
+      const weights = learn([koiCorrection, koiCorrection]);
+
+      expect(weights.corrections).toBe(2);
+      expect(weights.labels["motif:魚"]).toEqual({
+        count: 2,
+        tags: {
+          鯉: { added: 2, removed: 0 },
+          動物: { added: 0, removed: 2 },
+        },
+      });
+      expect(weights.addedTagCounts).toEqual({ 鯉: 2 });
+    });
+
+    it("should fold a batch like corrections applied one by one", () => {
+      expect(
+        applyTagCorrections(createEmptyTagWeights(), [
+          koiCorrection,
+          koiCorrection,
+        ]),
+      ).toEqual(learn([koiCorrection, koiCorrection]));
+    });
+
+    it("should not mutate the previous weights", () => {
+      const before = learn([koiCorrection]);
+      applyTagCorrection(before, koiCorrection);
+
+      expect(before.labels["motif:魚"].count).toBe(1);
+      expect(before.labels["motif:魚"].tags["鯉"].added).toBe(1);
+    });
+  });
+
+  describe("scoreLearnedTags", () => {
+    it("should grow with consistent corrections and shrink rare ones", () => {
+      const labels = ["style:ジャパニーズ", "motif:魚"];
+      const once = scoreLearnedTags(labels, learn([koiCorrection])).scores;
+      const often = scoreLearnedTags(
+        labels,
+        learn(Array(10).fill(koiCorrection)),
+      ).scores;
+
+      expect(once["鯉"]).toBeLessThan(LEARNED_TAG_THRESHOLD);
+      expect(often["鯉"]).toBeGreaterThan(LEARNED_TAG_THRESHOLD);
+      expect(often["動物"]).toBeLessThan(-LEARNED_TAG_THRESHOLD);
+      expect(
+        scoreLearnedTags(["style:カラー"], learn([koiCorrection])).scores,
+      ).toEqual({});
+    });
+  });
+
+  describe("blendLearnedTagScores", () => {
+    it("should lean on the artist as their own evidence grows", () => {
+      const labels = ["style:ジャパニーズ"];
+      const global = learn(
+        Array(20).fill({ labels, addedTags: ["和風"], removedTags: [] }),
+      );
+      const artist = learn(
+        Array(20).fill({ labels, addedTags: [], removedTags: ["和風"] }),
+      );
+
+      expect(
+        blendLearnedTagScores(labels, global, null)["和風"],
+      ).toBeGreaterThan(LEARNED_TAG_THRESHOLD);
+      expect(
+        blendLearnedTagScores(labels, global, artist)["和風"],
+      ).toBeLessThan(0);
+    });
+  });
+
+  describe("getUsualAddedTags", () => {
+    it("should list tags added in a large share of corrections", () => {
+      const weights = learn([
+        koiCorrection,
+        { ...koiCorrection, addedTags: ["鯉", "滝"] },
+        { ...koiCorrection, addedTags: ["牡丹"] },
+        { ...koiCorrection, addedTags: ["鯉"] },
+      ]);
+
+      expect(getUsualAddedTags(weights)).toEqual(["鯉"]);
+      expect(getUsualAddedTags(learn([koiCorrection]))).toEqual([]);
+    });
+  });
+
+  describe("acceptance", () => {
+    it("should count unchanged reviews as accepted", () => {
+      expect(
+        isAcceptedUnchanged({ labels: [], addedTags: [], removedTags: [] }),
+      ).toBe(true);
+      expect(isAcceptedUnchanged(koiCorrection)).toBe(false);
+      expect(getTagAcceptanceRate({ reviewed: 4, acceptedUnchanged: 3 })).toBe(
+        0.75,
+      );
+      expect(getTagAcceptanceRate({ reviewed: 0, acceptedUnchanged: 0 })).toBe(
+        0,
+      );
+    });
+  });
+});
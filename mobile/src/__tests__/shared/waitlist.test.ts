@@ -0,0 +1,170 @@
+/**
+ * 🧪 Shared Waitlist Test Suite
+ */
+
+import {
+  WAITLIST_BOOKING_HOLD_HOURS,
+  WAITLIST_OFFER_HOLD_MINUTES,
+  getWaitlistBookingHoldExpiry,
+  getWaitlistHoldId,
+  getWaitlistOfferExpiry,
+  isValidWaitlistEntry,
+  isWaitlistHoldId,
+  rankWaitlistEntries,
+} from "@tattoo-journey/shared";
+
+describe("Shared waitlist", () => {
+  const HOUR = 60 * 60 * 1000;
+  const slotStart = new Date("2025-06-10T05:00:00Z");
+  const slot = {
+    startTime: slotStart,
+    endTime: new Date(slotStart.getTime() + 4 * HOUR),
+  };
+
+  const makeEntry = (
+    id: string,
+    overrides: Partial<{
+      earliestDate: Date;
+      latestDate: Date;
+      estimatedDuration: number;
+      budgetMax: number;
+      status: "waiting" | "offered" | "booked" | "cancelled";
+      createdAt: Date;
+    }> = {},
+  ) => ({
+    id,
+    earliestDate: overrides.earliestDate || new Date("2025-06-01T00:00:00Z"),
+    latestDate: overrides.latestDate || new Date("2025-06-30T00:00:00Z"),
+    estimatedDuration: overrides.estimatedDuration ?? 120,
+    budgetRange: { min: 0, max: overrides.budgetMax ?? 50000 },
+    status: overrides.status || "waiting",
+    createdAt: overrides.createdAt || new Date("2025-05-01T00:00:00Z"),
+  });
+
+  describe("rankWaitlistEntries", () => {
+    it("should only keep waiting entries that fit the slot", () => {
+      const ranked = rankWaitlistEntries(
+        [
+          makeEntry("fits"),
+          makeEntry("too-long", { estimatedDuration: 300 }),
+          makeEntry("too-late", {
+            earliestDate: new Date("2025-06-20T00:00:00Z"),
+          }),
+          makeEntry("already-offered", { status: "offered" }),
+          makeEntry("excluded"),
+        ],
+        slot,
+        ["excluded"],
+      );
+
+      expect(ranked.map((entry) => entry.id)).toEqual(["fits"]);
+    });
+
+    it("should prefer budgets covering the released booking's price", () => {
+      const ranked = rankWaitlistEntries(
+        [
+          makeEntry("low-budget", {
+            budgetMax: 30000,
+            createdAt: new Date("2025-04-01T00:00:00Z"),
+          }),
+          makeEntry("high-budget", { budgetMax: 90000 }),
+        ],
+        { ...slot, referencePrice: 80000 },
+      );
+
+      expect(ranked.map((entry) => entry.id)).toEqual([
+        "high-budget",
+        "low-budget",
+      ]);
+    });
+
+    it("should fill the slot as much as possible, then go first come first served", () => {
+      const ranked = rankWaitlistEntries(
+        [
+          makeEntry("short-early", {
+            estimatedDuration: 60,
+            createdAt: new Date("2025-04-01T00:00:00Z"),
+          }),
+          makeEntry("long-late", {
+            estimatedDuration: 240,
+            createdAt: new Date("2025-05-10T00:00:00Z"),
+          }),
+          makeEntry("long-early", {
+            estimatedDuration: 240,
+            createdAt: new Date("2025-05-01T00:00:00Z"),
+          }),
+        ],
+        slot,
+      );
+
+      expect(ranked.map((entry) => entry.id)).toEqual([
+        "long-early",
+        "long-late",
+        "short-early",
+      ]);
+    });
+  });
+
+  describe("getWaitlistOfferExpiry", () => {
+    it("should hold the slot for the configured period", () => {
+      const now = new Date("2025-06-01T00:00:00Z");
+
+      expect(getWaitlistOfferExpiry(now, slotStart)).toEqual(
+        new Date(now.getTime() + WAITLIST_OFFER_HOLD_MINUTES * 60 * 1000),
+      );
+    });
+
+    it("should expire when the slot starts if that comes first", () => {
+      const now = new Date(slotStart.getTime() - HOUR);
+
+      expect(getWaitlistOfferExpiry(now, slotStart)).toEqual(slotStart);
+    });
+  });
+
+  describe("getWaitlistBookingHoldExpiry", () => {
+    it("should give the artist the booking hold period to answer", () => {
+      const now = new Date("2025-06-01T00:00:00Z");
+
+      expect(getWaitlistBookingHoldExpiry(now, slotStart)).toEqual(
+        new Date(now.getTime() + WAITLIST_BOOKING_HOLD_HOURS * HOUR),
+      );
+    });
+
+    it("should release the slot when it starts if that comes first", () => {
+      const now = new Date(slotStart.getTime() - HOUR);
+
+      expect(getWaitlistBookingHoldExpiry(now, slotStart)).toEqual(slotStart);
+    });
+  });
+
+  describe("isValidWaitlistEntry", () => {
+    const entry = {
+      earliestDate: new Date("2025-06-01T00:00:00Z"),
+      latestDate: new Date("2025-06-30T00:00:00Z"),
+      estimatedDuration: 120,
+      budgetRange: { min: 10000, max: 50000 },
+    };
+
+    it("should accept a complete entry", () => {
+      expect(isValidWaitlistEntry(entry)).toBe(true);
+    });
+
+    it("should reject inverted date and budget ranges", () => {
+      expect(
+        isValidWaitlistEntry({
+          ...entry,
+          latestDate: new Date("2025-05-01T00:00:00Z"),
+        }),
+      ).toBe(false);
+      expect(
+        isValidWaitlistEntry({ ...entry, budgetRange: { min: 5, max: 1 } }),
+      ).toBe(false);
+    });
+  });
+
+  it("should recognise busy slots that hold an offer", () => {
+    expect(getWaitlistHoldId("offer-1")).toBe("waitlist_offer-1");
+    expect(isWaitlistHoldId(getWaitlistHoldId("offer-1"))).toBe(true);
+    expect(isWaitlistHoldId("booking-1")).toBe(false);
+  });
+});
@@ -16,6 +16,18 @@ try {
   };
 }
 
+/**
+ * 画像分析プロバイダー（IMAGE_ANALYZERS で順序を指定、失敗時は次へフォールバック）
+ */
+export const IMAGE_ANALYZER_IDS = [
+  "server-vision",
+  "device-vision",
+  "local-heuristic",
+  "fixtures",
+] as const;
+
+export type ImageAnalyzerId = (typeof IMAGE_ANALYZER_IDS)[number];
+
 export class EnvironmentConfig {
   private static readonly GOOGLE_API_KEY_PATTERN =
     /^AIzaSy[a-zA-Z0-9_-]{33,39}$/;
@@ -51,6 +63,27 @@ export class EnvironmentConfig {
     return apiKey;
   }
 
+  /**
+   * 画像分析プロバイダーの試行順
+   * IMAGE_ANALYZERS（カンマ区切り）で上書き可能。未指定時は環境ごとの既定値
+   */
+  static getImageAnalyzerOrder(): ImageAnalyzerId[] {
+    const configured = (process.env.IMAGE_ANALYZERS || "")
+      .split(",")
+      .map((id) => id.trim())
+      .filter((id): id is ImageAnalyzerId =>
+        (IMAGE_ANALYZER_IDS as readonly string[]).includes(id),
+      );
+
+    if (configured.length > 0) return configured;
+    if (process.env.NODE_ENV === "test") return ["fixtures"];
+
+    // 開発環境ではテスト用フィクスチャまでフォールバック
+    return this.isProduction()
+      ? ["server-vision", "local-heuristic"]
+      : ["server-vision", "local-heuristic", "fixtures"];
+  }
+
   /**
    * Firebase設定を取得
    * センシティブ情報のログ出力を防止
@@ -136,8 +169,10 @@ export class EnvironmentConfig {
    */
   static validateEnvironment(): void {
     if (this.isProduction()) {
-      // 本番環境では必須のAPIキーをチェック
-      this.getGoogleVisionApiKey();
+      // APIキーは端末から Vision API を直接呼ぶ場合のみ必須
+      if (this.getImageAnalyzerOrder().includes("device-vision")) {
+        this.getGoogleVisionApiKey();
+      }
       this.validateFirebaseConfig();
     } else {
       // 開発環境では警告のみ
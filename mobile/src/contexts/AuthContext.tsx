@@ -11,6 +11,7 @@ import { User as FirebaseUser } from "@react-native-firebase/auth";
 import { auth, firestore } from "../config/firebase";
 import { User, UserType } from "../types";
 import { SecureLogger } from "../utils/SecureLogger";
+import ChatOutboxService from "../services/ChatOutboxService";
 
 interface AuthContextType {
   currentUser: FirebaseUser | null;
@@ -377,6 +378,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       setError(null);
       setRetryCount(0);
 
+      // ✅ オフライン中に書いたチャットメッセージの送信キュー
+      if (user) {
+        ChatOutboxService.start(user.uid);
+      } else {
+        ChatOutboxService.stop();
+      }
+
       if (user && isMountedRef.current) {
         // ✅ 操作をキューに追加して順次処理
         operationQueueRef.current.push(async () => {
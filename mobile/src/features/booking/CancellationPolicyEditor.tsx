@@ -0,0 +1,192 @@
+import React from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+} from "react-native";
+import { CancellationPolicy } from "@tattoo-journey/shared";
+
+interface Props {
+  policy: CancellationPolicy;
+  onChange: (policy: CancellationPolicy) => void;
+}
+
+/**
+ * アーティストのキャンセルポリシー編集（返金期間・直前キャンセル・無断キャンセル）
+ */
+const CancellationPolicyEditor: React.FC<Props> = ({ policy, onChange }) => {
+  const toNumber = (text: string): number => parseFloat(text) || 0;
+
+  const updateWindow = (
+    index: number,
+    field: "minHoursBefore" | "depositRefundRate",
+    value: number,
+  ): void => {
+    onChange({
+      ...policy,
+      windows: policy.windows.map((window, i) =>
+        i === index ? { ...window, [field]: value } : window,
+      ),
+    });
+  };
+
+  const addWindow = (): void => {
+    onChange({
+      ...policy,
+      windows: [
+        ...policy.windows,
+        { minHoursBefore: 24, depositRefundRate: 0 },
+      ],
+    });
+  };
+
+  const removeWindow = (index: number): void => {
+    onChange({
+      ...policy,
+      windows: policy.windows.filter((_, i) => i !== index),
+    });
+  };
+
+  return (
+    <View>
+      <Text style={styles.label}>返金条件（お客様都合のキャンセル）</Text>
+      {policy.windows.map((window, index) => (
+        <View key={index} style={styles.windowRow}>
+          <TextInput
+            style={styles.windowInput}
+            value={window.minHoursBefore.toString()}
+            onChangeText={(text) =>
+              updateWindow(index, "minHoursBefore", toNumber(text))
+            }
+            keyboardType="numeric"
+          />
+          <Text style={styles.windowText}>時間前まで デポジット</Text>
+          <TextInput
+            style={styles.windowInput}
+            value={Math.round(window.depositRefundRate * 100).toString()}
+            onChangeText={(text) =>
+              updateWindow(
+                index,
+                "depositRefundRate",
+                Math.min(Math.max(toNumber(text), 0), 100) / 100,
+              )
+            }
+            keyboardType="numeric"
+          />
+          <Text style={styles.windowText}>%返金</Text>
+          {policy.windows.length > 1 && (
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => removeWindow(index)}
+            >
+              <Text style={styles.removeButtonText}>×</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      ))}
+      <TouchableOpacity style={styles.addButton} onPress={addWindow}>
+        <Text style={styles.addButtonText}>+ 条件を追加</Text>
+      </TouchableOpacity>
+      <Text style={styles.helperText}>
+        0時間前の条件は予約時刻を過ぎるまでのキャンセルに適用されます
+      </Text>
+
+      <View style={styles.inputGroup}>
+        <Text style={styles.label}>直前キャンセルの基準（時間前）</Text>
+        <TextInput
+          style={styles.input}
+          value={policy.lateCancellationHours.toString()}
+          onChangeText={(text) =>
+            onChange({ ...policy, lateCancellationHours: toNumber(text) })
+          }
+          keyboardType="numeric"
+        />
+      </View>
+
+      <View style={styles.inputGroup}>
+        <Text style={styles.label}>無断キャンセルの判定（開始後の分数）</Text>
+        <TextInput
+          style={styles.input}
+          value={policy.noShowGraceMinutes.toString()}
+          onChangeText={(text) =>
+            onChange({ ...policy, noShowGraceMinutes: toNumber(text) })
+          }
+          keyboardType="numeric"
+        />
+        <Text style={styles.helperText}>
+          無断キャンセルの場合、デポジットは返金されません
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 16,
+    color: "#fff",
+    marginBottom: 8,
+    fontWeight: "500",
+  },
+  windowRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+    gap: 6,
+  },
+  windowInput: {
+    backgroundColor: "#2a2a2a",
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    width: 56,
+    fontSize: 14,
+    color: "#fff",
+    borderWidth: 1,
+    borderColor: "#333",
+    textAlign: "center",
+  },
+  windowText: {
+    fontSize: 13,
+    color: "#ccc",
+  },
+  removeButton: {
+    marginLeft: "auto",
+    paddingHorizontal: 8,
+  },
+  removeButtonText: {
+    color: "#ef4444",
+    fontSize: 18,
+    fontWeight: "bold",
+  },
+  addButton: {
+    alignSelf: "flex-start",
+    paddingVertical: 6,
+  },
+  addButtonText: {
+    color: "#ff6b6b",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  inputGroup: {
+    marginTop: 16,
+  },
+  input: {
+    backgroundColor: "#2a2a2a",
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    color: "#fff",
+    borderWidth: 1,
+    borderColor: "#333",
+  },
+  helperText: {
+    fontSize: 12,
+    color: "#888",
+    marginTop: 4,
+  },
+});
+
+export default CancellationPolicyEditor;
@@ -0,0 +1,93 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import {
+  CancellationOutcome,
+  CancellationPolicy,
+  describeCancellationPolicy,
+} from "@tattoo-journey/shared";
+
+interface Props {
+  policy: CancellationPolicy;
+  // 今キャンセルした場合の評価結果（キャンセル確認時のみ）
+  preview?: CancellationOutcome;
+  depositAmount?: number;
+}
+
+/**
+ * キャンセルポリシーの表示（同意前・キャンセル確認時）
+ */
+const CancellationPolicySummary: React.FC<Props> = ({
+  policy,
+  preview,
+  depositAmount = 0,
+}) => {
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>📋 キャンセルポリシー</Text>
+      {describeCancellationPolicy(policy).map((line) => (
+        <Text key={line} style={styles.line}>
+          ・{line}
+        </Text>
+      ))}
+
+      {preview && (
+        <View style={styles.preview}>
+          <Text style={styles.previewTitle}>
+            {preview.isNoShow
+              ? "無断キャンセルとして記録されます"
+              : preview.isLate
+                ? "直前キャンセルとして記録されます"
+                : "現在のキャンセル条件"}
+          </Text>
+          {depositAmount > 0 && (
+            <Text style={styles.previewText}>
+              デポジット返金: ¥
+              {Math.round(
+                depositAmount * preview.depositRefundRate,
+              ).toLocaleString()}{" "}
+              / ¥{depositAmount.toLocaleString()}
+            </Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#1a1a1a",
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "bold",
+    color: "#fff",
+    marginBottom: 8,
+  },
+  line: {
+    fontSize: 13,
+    color: "#ccc",
+    lineHeight: 20,
+  },
+  preview: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#333",
+  },
+  previewTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#facc15",
+    marginBottom: 4,
+  },
+  previewText: {
+    fontSize: 14,
+    color: "#fff",
+  },
+});
+
+export default CancellationPolicySummary;
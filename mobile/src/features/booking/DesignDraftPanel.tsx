@@ -0,0 +1,618 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Image,
+  StyleSheet,
+  Alert,
+  GestureResponderEvent,
+  LayoutChangeEvent,
+} from "react-native";
+import { launchImageLibrary } from "react-native-image-picker";
+import {
+  DesignDraftStatus,
+  MAX_DESIGN_ANNOTATIONS,
+  canReviewDesignDraft,
+  canUploadDesignDraft,
+  getBookingActorRole,
+  getNextDesignDraftVersion,
+} from "@tattoo-journey/shared";
+import { BookingRequest } from "../../services/BookingService";
+import DesignDraftService, {
+  DesignDraft,
+  DesignDraftClosedError,
+} from "../../services/DesignDraftService";
+
+interface Props {
+  booking: BookingRequest;
+  currentUserId: string;
+  onApproved: () => void;
+}
+
+const STATUS_LABELS: Record<DesignDraftStatus, string> = {
+  in_review: "確認待ち",
+  changes_requested: "修正依頼",
+  approved: "承認済み",
+  superseded: "新しい版あり",
+};
+
+const STATUS_COLORS: Record<DesignDraftStatus, string> = {
+  in_review: "#facc15",
+  changes_requested: "#f97316",
+  approved: "#4ade80",
+  superseded: "#6b7280",
+};
+
+/**
+ * 予約のデザイン案スレッド（アーティストが版を重ねてアップロードし、
+ * お客様が位置を指定してコメント・修正依頼・承認する）
+ */
+const DesignDraftPanel: React.FC<Props> = ({
+  booking,
+  currentUserId,
+  onApproved,
+}) => {
+  const [drafts, setDrafts] = useState<DesignDraft[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+
+  // アップロード前の画像とメモ
+  const [pendingImageUri, setPendingImageUri] = useState<string | null>(null);
+  const [draftNote, setDraftNote] = useState<string>("");
+
+  // 画像上のコメント（正方形の表示領域に対する相対位置）
+  const [imageWidth, setImageWidth] = useState<number>(0);
+  const [pin, setPin] = useState<{ x: number; y: number } | null>(null);
+  const [pinComment, setPinComment] = useState<string>("");
+
+  const [isRequestingChanges, setIsRequestingChanges] =
+    useState<boolean>(false);
+  const [reviewComment, setReviewComment] = useState<string>("");
+
+  const role = getBookingActorRole(booking, currentUserId);
+
+  const loadDrafts = useCallback(async (): Promise<void> => {
+    setDrafts(await DesignDraftService.getDrafts(booking.id));
+  }, [booking.id]);
+
+  useEffect(() => {
+    loadDrafts();
+  }, [loadDrafts]);
+
+  const canUpload = canUploadDesignDraft(booking, currentUserId);
+
+  if (!role || (drafts.length === 0 && !canUpload)) {
+    return null;
+  }
+
+  const showError = (error: unknown, fallback: string): void => {
+    console.error("Error updating design drafts:", error);
+    Alert.alert(
+      "エラー",
+      error instanceof DesignDraftClosedError
+        ? "このデザイン案はすでに確認済みか、新しい版に置き換えられています"
+        : fallback,
+    );
+  };
+
+  const selectImage = (): void => {
+    launchImageLibrary(
+      { mediaType: "photo", quality: 0.8, maxWidth: 2048, maxHeight: 2048 },
+      (response) => {
+        if (response.didCancel || response.errorMessage) return;
+        const uri = response.assets?.[0]?.uri;
+        if (uri) setPendingImageUri(uri);
+      },
+    );
+  };
+
+  const uploadDraft = async (): Promise<void> => {
+    if (!pendingImageUri) return;
+
+    try {
+      setIsSubmitting(true);
+      await DesignDraftService.uploadDraft(
+        booking,
+        currentUserId,
+        pendingImageUri,
+        draftNote.trim() || undefined,
+      );
+      setPendingImageUri(null);
+      setDraftNote("");
+      await loadDrafts();
+    } catch (error) {
+      showError(error, "デザイン案のアップロードに失敗しました");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const placePin = (event: GestureResponderEvent): void => {
+    if (imageWidth === 0) return;
+    const { locationX, locationY } = event.nativeEvent;
+    setPin({
+      x: Math.min(Math.max(locationX / imageWidth, 0), 1),
+      y: Math.min(Math.max(locationY / imageWidth, 0), 1),
+    });
+  };
+
+  const addAnnotation = async (draft: DesignDraft): Promise<void> => {
+    if (!pin || !pinComment.trim()) return;
+
+    try {
+      setIsSubmitting(true);
+      await DesignDraftService.annotateDraft(
+        booking.id,
+        draft.id,
+        currentUserId,
+        {
+          ...pin,
+          comment: pinComment,
+        },
+      );
+      setPin(null);
+      setPinComment("");
+      await loadDrafts();
+    } catch (error) {
+      showError(error, "コメントの追加に失敗しました");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const review = async (
+    draft: DesignDraft,
+    approved: boolean,
+  ): Promise<void> => {
+    try {
+      setIsSubmitting(true);
+      await DesignDraftService.reviewDraft(
+        booking.id,
+        draft.id,
+        currentUserId,
+        approved,
+        reviewComment.trim() || undefined,
+      );
+      setIsRequestingChanges(false);
+      setReviewComment("");
+      await loadDrafts();
+      if (approved) onApproved();
+    } catch (error) {
+      showError(error, "操作に失敗しました");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const confirmApproval = (draft: DesignDraft): void => {
+    Alert.alert(
+      "デザインを承認",
+      `v${draft.version} をこの予約のデザインとして確定しますか？\n承認後は変更できません。`,
+      [
+        { text: "キャンセル", style: "cancel" },
+        { text: "承認する", onPress: () => review(draft, true) },
+      ],
+    );
+  };
+
+  const renderReviewActions = (draft: DesignDraft) => (
+    <View style={styles.reviewBox}>
+      {pin ? (
+        <View>
+          <TextInput
+            style={styles.input}
+            value={pinComment}
+            onChangeText={setPinComment}
+            placeholder="この位置へのコメント"
+            placeholderTextColor="#666"
+            multiline
+          />
+          <View style={styles.actionRow}>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => setPin(null)}
+            >
+              <Text style={styles.secondaryButtonText}>やめる</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.submitButton,
+                !pinComment.trim() && styles.disabledButton,
+              ]}
+              disabled={!pinComment.trim() || isSubmitting}
+              onPress={() => addAnnotation(draft)}
+            >
+              <Text style={styles.submitButtonText}>コメントを追加</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : isRequestingChanges ? (
+        <View>
+          <TextInput
+            style={styles.input}
+            value={reviewComment}
+            onChangeText={setReviewComment}
+            placeholder="修正してほしい点"
+            placeholderTextColor="#666"
+            multiline
+          />
+          <View style={styles.actionRow}>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => setIsRequestingChanges(false)}
+            >
+              <Text style={styles.secondaryButtonText}>やめる</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.submitButton,
+                !reviewComment.trim() &&
+                  draft.annotations.length === 0 &&
+                  styles.disabledButton,
+              ]}
+              disabled={
+                (!reviewComment.trim() && draft.annotations.length === 0) ||
+                isSubmitting
+              }
+              onPress={() => review(draft, false)}
+            >
+              <Text style={styles.submitButtonText}>修正を依頼</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <View>
+          {draft.annotations.length < MAX_DESIGN_ANNOTATIONS && (
+            <Text style={styles.helperText}>
+              画像をタップすると、その位置にコメントを残せます
+            </Text>
+          )}
+          <View style={styles.actionRow}>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              disabled={isSubmitting}
+              onPress={() => setIsRequestingChanges(true)}
+            >
+              <Text style={styles.secondaryButtonText}>修正を依頼</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.approveButton}
+              disabled={isSubmitting}
+              onPress={() => confirmApproval(draft)}
+            >
+              <Text style={styles.approveButtonText}>このデザインで承認</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+
+  const renderDraft = (draft: DesignDraft) => {
+    const isReviewable = canReviewDesignDraft(booking, draft, currentUserId);
+    const canAnnotate =
+      isReviewable && draft.annotations.length < MAX_DESIGN_ANNOTATIONS;
+
+    return (
+      <View key={draft.id} style={styles.draft}>
+        <View style={styles.draftHeader}>
+          <Text style={styles.versionText}>v{draft.version}</Text>
+          <View
+            style={[
+              styles.statusBadge,
+              { backgroundColor: STATUS_COLORS[draft.status] },
+            ]}
+          >
+            <Text style={styles.statusText}>{STATUS_LABELS[draft.status]}</Text>
+          </View>
+          <Text style={styles.dateText}>
+            {draft.createdAt.toLocaleDateString("ja-JP")}
+          </Text>
+        </View>
+
+        <TouchableOpacity
+          activeOpacity={1}
+          disabled={!canAnnotate}
+          onPress={placePin}
+          onLayout={(event: LayoutChangeEvent) =>
+            setImageWidth(event.nativeEvent.layout.width)
+          }
+        >
+          <Image
+            source={{ uri: draft.imageUrl }}
+            style={styles.draftImage}
+            resizeMode="contain"
+          />
+          {draft.annotations.map((annotation, index) => (
+            <View
+              key={annotation.id}
+              pointerEvents="none"
+              style={[
+                styles.pin,
+                {
+                  left: `${annotation.x * 100}%`,
+                  top: `${annotation.y * 100}%`,
+                },
+              ]}
+            >
+              <Text style={styles.pinText}>{index + 1}</Text>
+            </View>
+          ))}
+          {isReviewable && pin && (
+            <View
+              pointerEvents="none"
+              style={[
+                styles.pin,
+                styles.newPin,
+                { left: `${pin.x * 100}%`, top: `${pin.y * 100}%` },
+              ]}
+            >
+              <Text style={styles.pinText}>＋</Text>
+            </View>
+          )}
+        </TouchableOpacity>
+
+        {!!draft.note && <Text style={styles.noteText}>{draft.note}</Text>}
+
+        {draft.annotations.map((annotation, index) => (
+          <Text key={annotation.id} style={styles.annotationText}>
+            📍 {index + 1}. {annotation.comment}
+          </Text>
+        ))}
+
+        {!!draft.reviewComment && (
+          <Text style={styles.reviewCommentText}>
+            {draft.status === "approved" ? "💬 " : "✏️ 修正依頼: "}
+            {draft.reviewComment}
+          </Text>
+        )}
+
+        {isReviewable && renderReviewActions(draft)}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.panelTitle}>🎨 デザイン案</Text>
+
+      {booking.approvedDesign ? (
+        <Text style={styles.approvedText}>
+          ✅ v{booking.approvedDesign.designVersion} で確定済み（
+          {booking.approvedDesign.approvedAt.toLocaleDateString("ja-JP")}）
+        </Text>
+      ) : (
+        drafts.length === 0 && (
+          <Text style={styles.helperText}>
+            下絵をアップロードして、お客様に確認してもらいましょう
+          </Text>
+        )
+      )}
+
+      {canUpload &&
+        (pendingImageUri ? (
+          <View style={styles.uploadBox}>
+            <Image
+              source={{ uri: pendingImageUri }}
+              style={styles.draftImage}
+              resizeMode="contain"
+            />
+            <TextInput
+              style={styles.input}
+              value={draftNote}
+              onChangeText={setDraftNote}
+              placeholder="変更点などのメモ（任意）"
+              placeholderTextColor="#666"
+              multiline
+            />
+            <View style={styles.actionRow}>
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => setPendingImageUri(null)}
+              >
+                <Text style={styles.secondaryButtonText}>やめる</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.submitButton,
+                  isSubmitting && styles.disabledButton,
+                ]}
+                disabled={isSubmitting}
+                onPress={uploadDraft}
+              >
+                <Text style={styles.submitButtonText}>
+                  {isSubmitting
+                    ? "アップロード中..."
+                    : `v${getNextDesignDraftVersion(drafts)} を送信`}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : (
+          <TouchableOpacity style={styles.uploadButton} onPress={selectImage}>
+            <Text style={styles.uploadButtonText}>
+              ＋ デザイン案 v{getNextDesignDraftVersion(drafts)} をアップロード
+            </Text>
+          </TouchableOpacity>
+        ))}
+
+      {drafts
+        .slice()
+        .reverse()
+        .map((draft) => renderDraft(draft))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  panel: {
+    backgroundColor: "#2a2a2a",
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+  },
+  panelTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#fff",
+    marginBottom: 8,
+  },
+  approvedText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#4ade80",
+    marginBottom: 12,
+  },
+  helperText: {
+    fontSize: 12,
+    color: "#888",
+    marginBottom: 8,
+  },
+  uploadButton: {
+    borderWidth: 1,
+    borderColor: "#ff6b6b",
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  uploadButtonText: {
+    color: "#ff6b6b",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  uploadBox: {
+    marginBottom: 12,
+  },
+  draft: {
+    borderTopWidth: 1,
+    borderTopColor: "#333",
+    paddingTop: 12,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  draftHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 8,
+  },
+  versionText: {
+    fontSize: 16,
+    fontWeight: "bold",
+    color: "#fff",
+  },
+  statusBadge: {
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  statusText: {
+    color: "#1a1a1a",
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  dateText: {
+    fontSize: 12,
+    color: "#888",
+    marginLeft: "auto",
+  },
+  draftImage: {
+    width: "100%",
+    aspectRatio: 1,
+    borderRadius: 8,
+    backgroundColor: "#1a1a1a",
+  },
+  pin: {
+    position: "absolute",
+    width: 22,
+    height: 22,
+    marginLeft: -11,
+    marginTop: -11,
+    borderRadius: 11,
+    backgroundColor: "#ff6b6b",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  newPin: {
+    backgroundColor: "#3b82f6",
+  },
+  pinText: {
+    color: "#fff",
+    fontSize: 11,
+    fontWeight: "bold",
+  },
+  noteText: {
+    fontSize: 14,
+    color: "#ccc",
+    marginTop: 8,
+  },
+  annotationText: {
+    fontSize: 13,
+    color: "#ccc",
+    marginTop: 4,
+  },
+  reviewCommentText: {
+    fontSize: 13,
+    color: "#f97316",
+    marginTop: 6,
+  },
+  reviewBox: {
+    marginTop: 10,
+  },
+  input: {
+    backgroundColor: "#1a1a1a",
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: "#fff",
+    borderWidth: 1,
+    borderColor: "#333",
+    marginTop: 8,
+  },
+  actionRow: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+    marginTop: 8,
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: "#666",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  secondaryButtonText: {
+    color: "#ccc",
+    fontSize: 13,
+  },
+  submitButton: {
+    backgroundColor: "#ff6b6b",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  submitButtonText: {
+    color: "#fff",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  approveButton: {
+    backgroundColor: "#4ade80",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  approveButtonText: {
+    color: "#1a1a1a",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+});
+
+export default DesignDraftPanel;
@@ -0,0 +1,266 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { View, Text, TouchableOpacity, StyleSheet, Alert } from "react-native";
+import { summarizeLedger } from "@tattoo-journey/shared";
+import { BookingRequest } from "../../services/BookingService";
+import PaymentService, {
+  PAYMENT_TYPE_LABELS,
+  PaymentChargeType,
+  PaymentLedgerEntry,
+} from "../../services/PaymentService";
+
+interface Props {
+  booking: BookingRequest;
+  currentUserId: string;
+  isArtist: boolean;
+}
+
+const PAYABLE_STATUSES: BookingRequest["status"][] = ["confirmed", "completed"];
+
+/**
+ * 予約チャット内の支払い台帳パネル（双方に表示、記録はアーティストのみ）
+ */
+const PaymentLedgerPanel: React.FC<Props> = ({
+  booking,
+  currentUserId,
+  isArtist,
+}) => {
+  const [entries, setEntries] = useState<PaymentLedgerEntry[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+
+  const loadLedger = useCallback(async (): Promise<void> => {
+    const ledger = await PaymentService.getBookingLedger(
+      booking,
+      currentUserId,
+    );
+    setEntries(ledger);
+  }, [booking, currentUserId]);
+
+  useEffect(() => {
+    loadLedger();
+  }, [loadLedger]);
+
+  const canRecordPayments =
+    isArtist && PAYABLE_STATUSES.includes(booking.status);
+
+  if (entries.length === 0 && !canRecordPayments) {
+    return null;
+  }
+
+  const depositAmount = booking.depositAmount || 0;
+  const summary = summarizeLedger(
+    entries,
+    booking.confirmedPrice || 0,
+    depositAmount,
+  );
+
+  const handleRecordPayment = (type: PaymentChargeType): void => {
+    Alert.alert(
+      `${PAYMENT_TYPE_LABELS[type]}を記録`,
+      "お客様からの受領を記録しますか？",
+      [
+        { text: "キャンセル", style: "cancel" },
+        {
+          text: "記録する",
+          onPress: async () => {
+            try {
+              setIsSubmitting(true);
+              await PaymentService.recordPayment(booking, type);
+              await loadLedger();
+            } catch (error) {
+              console.error("Error recording payment:", error);
+              Alert.alert("エラー", "支払いの記録に失敗しました");
+            } finally {
+              setIsSubmitting(false);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const paymentActions: PaymentChargeType[] = [
+    ...(depositAmount > 0 && !summary.depositPaid
+      ? (["deposit"] as const)
+      : []),
+    ...(summary.balanceDue > 0 ? (["balance"] as const) : []),
+    "consultation_fee",
+    ...(booking.status === "completed" ? (["touch_up_fee"] as const) : []),
+  ];
+
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.panelTitle}>💳 支払い</Text>
+
+      {booking.confirmedPrice !== undefined && (
+        <View style={styles.summaryRow}>
+          <Text style={styles.summaryLabel}>確定料金</Text>
+          <Text style={styles.summaryValue}>
+            ¥{booking.confirmedPrice.toLocaleString()}
+          </Text>
+        </View>
+      )}
+      {depositAmount > 0 && (
+        <View style={styles.summaryRow}>
+          <Text style={styles.summaryLabel}>デポジット</Text>
+          <Text style={styles.summaryValue}>
+            ¥{depositAmount.toLocaleString()}（
+            {summary.depositPaid ? "支払い済み" : "未払い"}）
+          </Text>
+        </View>
+      )}
+      <View style={styles.summaryRow}>
+        <Text style={styles.summaryLabel}>お支払い済み</Text>
+        <Text style={styles.summaryValue}>
+          ¥{summary.netPaid.toLocaleString()}
+        </Text>
+      </View>
+      {summary.refundedAmount > 0 && (
+        <View style={styles.summaryRow}>
+          <Text style={styles.summaryLabel}>返金済み</Text>
+          <Text style={styles.summaryValue}>
+            ¥{summary.refundedAmount.toLocaleString()}
+          </Text>
+        </View>
+      )}
+      <View style={styles.summaryRow}>
+        <Text style={styles.summaryLabel}>残金</Text>
+        <Text style={styles.balanceValue}>
+          ¥{summary.balanceDue.toLocaleString()}
+        </Text>
+      </View>
+
+      {entries.length > 0 && (
+        <View style={styles.entryList}>
+          {entries.map((entry) => (
+            <View key={entry.id} style={styles.entryRow}>
+              <View style={styles.entryInfo}>
+                <Text style={styles.entryTitle}>{entry.description}</Text>
+                <Text style={styles.entryDate}>
+                  {entry.createdAt.toLocaleString("ja-JP")}
+                  {entry.status === "pending" && "・処理中"}
+                  {entry.status === "failed" && "・失敗"}
+                </Text>
+              </View>
+              <Text
+                style={[
+                  styles.entryAmount,
+                  entry.type === "refund" && styles.refundAmount,
+                  entry.status === "failed" && styles.failedAmount,
+                ]}
+              >
+                {entry.type === "refund" ? "-" : ""}¥
+                {entry.amount.toLocaleString()}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {canRecordPayments && (
+        <View style={styles.actionRow}>
+          {paymentActions.map((type) => (
+            <TouchableOpacity
+              key={type}
+              style={styles.actionButton}
+              disabled={isSubmitting}
+              onPress={() => handleRecordPayment(type)}
+            >
+              <Text style={styles.actionButtonText}>
+                {PAYMENT_TYPE_LABELS[type]}受領
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  panel: {
+    backgroundColor: "#2a2a2a",
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+  },
+  panelTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#fff",
+    marginBottom: 12,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: 6,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: "#aaa",
+  },
+  summaryValue: {
+    fontSize: 14,
+    color: "#fff",
+  },
+  balanceValue: {
+    fontSize: 16,
+    color: "#ff6b6b",
+    fontWeight: "bold",
+  },
+  entryList: {
+    marginTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: "#333",
+    paddingTop: 8,
+  },
+  entryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 6,
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryTitle: {
+    fontSize: 14,
+    color: "#fff",
+  },
+  entryDate: {
+    fontSize: 12,
+    color: "#888",
+    marginTop: 2,
+  },
+  entryAmount: {
+    fontSize: 14,
+    color: "#4ade80",
+    fontWeight: "600",
+  },
+  refundAmount: {
+    color: "#facc15",
+  },
+  failedAmount: {
+    color: "#6b7280",
+    textDecorationLine: "line-through",
+  },
+  actionRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    borderWidth: 1,
+    borderColor: "#ff6b6b",
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  actionButtonText: {
+    color: "#ff6b6b",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+});
+
+export default PaymentLedgerPanel;
@@ -0,0 +1,745 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  Modal,
+  TextInput,
+} from "react-native";
+import DateTimePicker from "@react-native-community/datetimepicker";
+import {
+  ProjectSessionStatus,
+  canUpdateProjectSession,
+  isMultiSessionSize,
+} from "@tattoo-journey/shared";
+import {
+  BookingRequest,
+  BookingSlotConflictError,
+} from "../../services/BookingService";
+import ProjectService, {
+  ProjectSession,
+  ProjectWithSessions,
+} from "../../services/ProjectService";
+
+interface Props {
+  booking: BookingRequest;
+  isArtist: boolean;
+  onProjectCreated?: (projectId: string) => void;
+}
+
+type SessionModalMode = "complete" | "cancel";
+
+const SESSION_STATUS_LABELS: Record<ProjectSessionStatus, string> = {
+  unscheduled: "日程未定",
+  scheduled: "予定",
+  completed: "完了",
+  cancelled: "キャンセル",
+};
+
+const SESSION_STATUS_COLORS: Record<ProjectSessionStatus, string> = {
+  unscheduled: "#facc15",
+  scheduled: "#3b82f6",
+  completed: "#10b981",
+  cancelled: "#6b7280",
+};
+
+const PROJECTABLE_STATUSES: BookingRequest["status"][] = [
+  "negotiating",
+  "accepted",
+  "confirmed",
+];
+
+/**
+ * 予約チャット内のプロジェクト（複数回施術）表示・操作パネル
+ */
+const ProjectPanel: React.FC<Props> = ({
+  booking,
+  isArtist,
+  onProjectCreated,
+}) => {
+  const [projectData, setProjectData] = useState<ProjectWithSessions | null>(
+    null,
+  );
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+
+  const [showCreateModal, setShowCreateModal] = useState<boolean>(false);
+  const [title, setTitle] = useState<string>("");
+  const [plannedSessions, setPlannedSessions] = useState<string>("3");
+  const [sessionDuration, setSessionDuration] = useState<string>("240");
+  const [quotedPrice, setQuotedPrice] = useState<string>(
+    String(booking.estimatedPrice || ""),
+  );
+  const [depositAmount, setDepositAmount] = useState<string>("");
+
+  const [schedulingSession, setSchedulingSession] =
+    useState<ProjectSession | null>(null);
+  const [pickerMode, setPickerMode] = useState<"date" | "time" | null>(null);
+  const [pickedDate, setPickedDate] = useState<Date>(new Date());
+
+  const [sessionModal, setSessionModal] = useState<{
+    mode: SessionModalMode;
+    session: ProjectSession;
+  } | null>(null);
+  const [actualDuration, setActualDuration] = useState<string>("");
+  const [paidAmount, setPaidAmount] = useState<string>("");
+  const [cancelReason, setCancelReason] = useState<string>("");
+
+  const loadProject = useCallback(async (): Promise<void> => {
+    if (!booking.projectId) {
+      setProjectData(null);
+      return;
+    }
+
+    const data = await ProjectService.getProjectWithSessions(
+      booking.projectId,
+      isArtist ? booking.artistId : booking.customerId,
+    );
+    setProjectData(data);
+  }, [booking.projectId, booking.artistId, booking.customerId, isArtist]);
+
+  useEffect(() => {
+    loadProject();
+  }, [loadProject]);
+
+  const runAction = async (
+    action: () => Promise<void>,
+    successMessage: string,
+  ): Promise<void> => {
+    try {
+      setIsSubmitting(true);
+      await action();
+      await loadProject();
+      Alert.alert("完了", successMessage);
+    } catch (error) {
+      console.error("Error updating project:", error);
+      if (error instanceof BookingSlotConflictError) {
+        Alert.alert(
+          "日程が重複しています",
+          "選択した日時は既に予約されています。別の日時を選択してください。",
+        );
+      } else {
+        Alert.alert("エラー", "操作に失敗しました");
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCreateProject = async (): Promise<void> => {
+    const sessions = parseInt(plannedSessions, 10);
+    const duration = parseInt(sessionDuration, 10);
+    const price = parseInt(quotedPrice, 10);
+    const deposit = parseInt(depositAmount || "0", 10);
+
+    if (
+      !title.trim() ||
+      !(sessions >= 2) ||
+      !(duration > 0) ||
+      !(price >= 0) ||
+      !(deposit >= 0) ||
+      deposit > price
+    ) {
+      Alert.alert(
+        "入力エラー",
+        "タイトル、2回以上の施術回数、所要時間、見積もり金額、デポジット（見積もり以下）を入力してください",
+      );
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const projectId = await ProjectService.createProject(booking.id, {
+        title: title.trim(),
+        designDescription: booking.tattooDescription,
+        plannedSessions: sessions,
+        sessionDuration: duration,
+        quotedPrice: price,
+        depositAmount: deposit,
+      });
+
+      setShowCreateModal(false);
+      onProjectCreated?.(projectId);
+      Alert.alert("完了", "プロジェクトを作成しました");
+    } catch (error) {
+      console.error("Error creating project:", error);
+      Alert.alert("エラー", "プロジェクトの作成に失敗しました");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const startScheduling = (session: ProjectSession): void => {
+    setSchedulingSession(session);
+    setPickedDate(session.scheduledDate || new Date());
+    setPickerMode("date");
+  };
+
+  const handlePickerChange = (selected?: Date): void => {
+    const mode = pickerMode;
+    setPickerMode(null);
+
+    if (!selected || !schedulingSession || !projectData) {
+      setSchedulingSession(null);
+      return;
+    }
+
+    if (mode === "date") {
+      const nextDate = new Date(pickedDate);
+      nextDate.setFullYear(
+        selected.getFullYear(),
+        selected.getMonth(),
+        selected.getDate(),
+      );
+      setPickedDate(nextDate);
+      setPickerMode("time");
+      return;
+    }
+
+    const scheduledDate = new Date(pickedDate);
+    scheduledDate.setHours(selected.getHours(), selected.getMinutes(), 0, 0);
+    const session = schedulingSession;
+    setSchedulingSession(null);
+
+    if (scheduledDate.getTime() <= Date.now()) {
+      Alert.alert("入力エラー", "過去の日時は設定できません");
+      return;
+    }
+
+    runAction(
+      () =>
+        ProjectService.scheduleSession(
+          projectData.project,
+          session,
+          scheduledDate,
+        ),
+      `第${session.sessionNumber}回セッションの日程を設定しました`,
+    );
+  };
+
+  const openSessionModal = (
+    mode: SessionModalMode,
+    session: ProjectSession,
+  ): void => {
+    setActualDuration(String(session.duration));
+    setPaidAmount("");
+    setCancelReason("");
+    setSessionModal({ mode, session });
+  };
+
+  const submitSessionModal = (): void => {
+    if (!sessionModal || !projectData) return;
+
+    const { mode, session } = sessionModal;
+    setSessionModal(null);
+
+    if (mode === "complete") {
+      const minutes = parseInt(actualDuration, 10);
+      const amount = parseInt(paidAmount || "0", 10);
+
+      if (!(minutes > 0) || !(amount >= 0)) {
+        Alert.alert("入力エラー", "施術時間と支払額を正しく入力してください");
+        return;
+      }
+
+      runAction(
+        () =>
+          ProjectService.completeSession(
+            projectData.project,
+            session,
+            minutes,
+            amount,
+          ),
+        `第${session.sessionNumber}回セッションを完了しました`,
+      );
+      return;
+    }
+
+    runAction(
+      () =>
+        ProjectService.cancelSession(
+          projectData.project,
+          session,
+          cancelReason || "ユーザーによりキャンセルされました",
+        ),
+      `第${session.sessionNumber}回セッションをキャンセルしました`,
+    );
+  };
+
+  const renderCreatePrompt = () => {
+    if (!isArtist || !PROJECTABLE_STATUSES.includes(booking.status)) {
+      return null;
+    }
+
+    const recommended = isMultiSessionSize(booking.preferredSize);
+
+    return (
+      <View style={styles.panel}>
+        <Text style={styles.panelTitle}>複数回施術</Text>
+        <Text style={styles.panelDescription}>
+          {recommended
+            ? "特大サイズのため、複数回のプロジェクトとして進めることをおすすめします。"
+            : "大きな作品は複数回のセッションに分けて管理できます。"}
+        </Text>
+        <TouchableOpacity
+          style={styles.primaryButton}
+          onPress={() => {
+            setTitle(booking.tattooDescription.slice(0, 30));
+            setShowCreateModal(true);
+          }}
+        >
+          <Text style={styles.primaryButtonText}>プロジェクトを作成</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderSession = (session: ProjectSession) => (
+    <View key={session.id} style={styles.sessionRow}>
+      <View style={styles.sessionInfo}>
+        <Text style={styles.sessionTitle}>第{session.sessionNumber}回</Text>
+        <Text style={styles.sessionDetail}>
+          {session.scheduledDate
+            ? session.scheduledDate.toLocaleString("ja-JP")
+            : "日程未定"}{" "}
+          ・{session.actualDuration ?? session.duration}分
+        </Text>
+      </View>
+      <View
+        style={[
+          styles.sessionBadge,
+          { backgroundColor: SESSION_STATUS_COLORS[session.status] },
+        ]}
+      >
+        <Text style={styles.sessionBadgeText}>
+          {SESSION_STATUS_LABELS[session.status]}
+        </Text>
+      </View>
+      <View style={styles.sessionActions}>
+        {isArtist &&
+          canUpdateProjectSession(session.status, "schedule_session") && (
+            <TouchableOpacity
+              style={styles.sessionActionButton}
+              disabled={isSubmitting}
+              onPress={() => startScheduling(session)}
+            >
+              <Text style={styles.sessionActionText}>
+                {session.status === "scheduled" ? "日程変更" : "日程設定"}
+              </Text>
+            </TouchableOpacity>
+          )}
+        {isArtist &&
+          canUpdateProjectSession(session.status, "complete_session") && (
+            <TouchableOpacity
+              style={styles.sessionActionButton}
+              disabled={isSubmitting}
+              onPress={() => openSessionModal("complete", session)}
+            >
+              <Text style={styles.sessionActionText}>完了</Text>
+            </TouchableOpacity>
+          )}
+        {canUpdateProjectSession(session.status, "cancel_session") && (
+          <TouchableOpacity
+            style={styles.sessionActionButton}
+            disabled={isSubmitting}
+            onPress={() => openSessionModal("cancel", session)}
+          >
+            <Text style={styles.sessionCancelText}>取消</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+
+  const renderProject = () => {
+    if (!projectData) return null;
+
+    const { project, sessions, progress } = projectData;
+
+    return (
+      <View style={styles.panel}>
+        <Text style={styles.panelTitle}>🗂️ {project.title}</Text>
+
+        <View style={styles.progressBar}>
+          <View
+            style={[
+              styles.progressFill,
+              { width: `${Math.round(progress.progress * 100)}%` },
+            ]}
+          />
+        </View>
+
+        <View style={styles.summaryRow}>
+          <Text style={styles.summaryText}>
+            進捗 {progress.completedSessions}/{progress.totalSessions}回
+          </Text>
+          <Text style={styles.summaryText}>
+            施術 {Math.round((progress.completedMinutes / 60) * 10) / 10}時間
+          </Text>
+        </View>
+        <View style={styles.summaryRow}>
+          <Text style={styles.summaryText}>
+            見積もり ¥{project.quotedPrice.toLocaleString()}
+          </Text>
+          <Text style={styles.summaryHighlight}>
+            残金 ¥{progress.remainingBalance.toLocaleString()}
+          </Text>
+        </View>
+        <View style={styles.summaryRow}>
+          <Text style={styles.summaryText}>
+            デポジット ¥{project.depositAmount.toLocaleString()}（
+            {progress.depositPaid ? "受領済み" : "未受領"}）
+          </Text>
+          {isArtist && !progress.depositPaid && project.depositAmount > 0 && (
+            <TouchableOpacity
+              style={styles.sessionActionButton}
+              disabled={isSubmitting}
+              onPress={() =>
+                runAction(
+                  () => ProjectService.recordDeposit(project),
+                  "デポジットの受領を記録しました",
+                )
+              }
+            >
+              <Text style={styles.sessionActionText}>受領を記録</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <View style={styles.sessionList}>{sessions.map(renderSession)}</View>
+      </View>
+    );
+  };
+
+  return (
+    <View>
+      {booking.projectId ? renderProject() : renderCreatePrompt()}
+
+      {pickerMode && (
+        <DateTimePicker
+          value={pickedDate}
+          mode={pickerMode}
+          display="default"
+          minimumDate={pickerMode === "date" ? new Date() : undefined}
+          onChange={(event, selected) => handlePickerChange(selected)}
+        />
+      )}
+
+      {/* プロジェクト作成モーダル */}
+      <Modal
+        visible={showCreateModal}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setShowCreateModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>プロジェクトを作成</Text>
+
+            <Text style={styles.inputLabel}>タイトル</Text>
+            <TextInput
+              style={styles.textInput}
+              value={title}
+              onChangeText={setTitle}
+              placeholder="例: 和彫り 右腕スリーブ"
+              placeholderTextColor="#666"
+            />
+
+            <Text style={styles.inputLabel}>施術回数</Text>
+            <TextInput
+              style={styles.textInput}
+              value={plannedSessions}
+              onChangeText={setPlannedSessions}
+              keyboardType="number-pad"
+            />
+
+            <Text style={styles.inputLabel}>1回あたりの所要時間（分）</Text>
+            <TextInput
+              style={styles.textInput}
+              value={sessionDuration}
+              onChangeText={setSessionDuration}
+              keyboardType="number-pad"
+            />
+
+            <Text style={styles.inputLabel}>見積もり総額（円）</Text>
+            <TextInput
+              style={styles.textInput}
+              value={quotedPrice}
+              onChangeText={setQuotedPrice}
+              keyboardType="number-pad"
+            />
+
+            <Text style={styles.inputLabel}>デポジット（円）</Text>
+            <TextInput
+              style={styles.textInput}
+              value={depositAmount}
+              onChangeText={setDepositAmount}
+              keyboardType="number-pad"
+              placeholder="0"
+              placeholderTextColor="#666"
+            />
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.cancelButton]}
+                onPress={() => setShowCreateModal(false)}
+              >
+                <Text style={styles.cancelButtonText}>キャンセル</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.saveButton]}
+                disabled={isSubmitting}
+                onPress={handleCreateProject}
+              >
+                <Text style={styles.saveButtonText}>作成</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* セッション完了・キャンセルモーダル */}
+      <Modal
+        visible={!!sessionModal}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setSessionModal(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>
+              第{sessionModal?.session.sessionNumber}回セッションを
+              {sessionModal?.mode === "complete" ? "完了" : "キャンセル"}
+            </Text>
+
+            {sessionModal?.mode === "complete" ? (
+              <>
+                <Text style={styles.inputLabel}>実際の施術時間（分）</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={actualDuration}
+                  onChangeText={setActualDuration}
+                  keyboardType="number-pad"
+                />
+
+                <Text style={styles.inputLabel}>今回の支払額（円）</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={paidAmount}
+                  onChangeText={setPaidAmount}
+                  keyboardType="number-pad"
+                  placeholder="0"
+                  placeholderTextColor="#666"
+                />
+              </>
+            ) : (
+              <>
+                <Text style={styles.inputLabel}>キャンセル理由</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={cancelReason}
+                  onChangeText={setCancelReason}
+                  placeholder="理由を入力してください"
+                  placeholderTextColor="#666"
+                />
+              </>
+            )}
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.cancelButton]}
+                onPress={() => setSessionModal(null)}
+              >
+                <Text style={styles.cancelButtonText}>戻る</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.saveButton]}
+                onPress={submitSessionModal}
+              >
+                <Text style={styles.saveButtonText}>実行</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  panel: {
+    backgroundColor: "#2a2a2a",
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+  },
+  panelTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#fff",
+    marginBottom: 12,
+  },
+  panelDescription: {
+    fontSize: 14,
+    color: "#aaa",
+    marginBottom: 12,
+  },
+  primaryButton: {
+    backgroundColor: "#ff6b6b",
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  progressBar: {
+    height: 8,
+    backgroundColor: "#333",
+    borderRadius: 4,
+    overflow: "hidden",
+    marginBottom: 12,
+  },
+  progressFill: {
+    height: "100%",
+    backgroundColor: "#4ade80",
+  },
+  summaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: "#ccc",
+  },
+  summaryHighlight: {
+    fontSize: 14,
+    color: "#ff6b6b",
+    fontWeight: "bold",
+  },
+  sessionList: {
+    marginTop: 8,
+    gap: 8,
+  },
+  sessionRow: {
+    backgroundColor: "#1a1a1a",
+    borderRadius: 8,
+    padding: 12,
+  },
+  sessionInfo: {
+    marginBottom: 8,
+  },
+  sessionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#fff",
+  },
+  sessionDetail: {
+    fontSize: 13,
+    color: "#aaa",
+    marginTop: 2,
+  },
+  sessionBadge: {
+    position: "absolute",
+    top: 12,
+    right: 12,
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  sessionBadgeText: {
+    fontSize: 12,
+    color: "#fff",
+    fontWeight: "bold",
+  },
+  sessionActions: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  sessionActionButton: {
+    borderWidth: 1,
+    borderColor: "#ff6b6b",
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  sessionActionText: {
+    color: "#ff6b6b",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  sessionCancelText: {
+    color: "#aaa",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.8)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  modalContent: {
+    backgroundColor: "#2a2a2a",
+    borderRadius: 20,
+    padding: 24,
+    width: "90%",
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#fff",
+    marginBottom: 20,
+    textAlign: "center",
+  },
+  inputLabel: {
+    fontSize: 14,
+    color: "#fff",
+    marginBottom: 6,
+    fontWeight: "500",
+  },
+  textInput: {
+    backgroundColor: "#1a1a1a",
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: "#333",
+    color: "#fff",
+    fontSize: 16,
+    marginBottom: 14,
+  },
+  modalButtons: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 12,
+  },
+  modalButton: {
+    flex: 1,
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  cancelButton: {
+    backgroundColor: "#333",
+  },
+  saveButton: {
+    backgroundColor: "#ff6b6b",
+  },
+  cancelButtonText: {
+    color: "#aaa",
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  saveButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+});
+
+export default ProjectPanel;
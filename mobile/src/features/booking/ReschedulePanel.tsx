@@ -0,0 +1,430 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+} from "react-native";
+import {
+  MAX_RESCHEDULE_OPTIONS,
+  canDecideBookingReschedule,
+  getBookingActorRole,
+} from "@tattoo-journey/shared";
+import BookingService, {
+  BookingRequest,
+  BookingRescheduleDecision,
+  BookingSlotConflictError,
+  TimeSlot,
+} from "../../services/BookingService";
+
+interface Props {
+  booking: BookingRequest;
+  currentUserId: string;
+  onRescheduled: () => void;
+}
+
+// 変更候補を探す期間（翌日から）
+const SEARCH_DAYS = 14;
+
+/**
+ * 確定済み予約の日時変更（提案・承認・お断り・取り下げ）
+ */
+const ReschedulePanel: React.FC<Props> = ({
+  booking,
+  currentUserId,
+  onRescheduled,
+}) => {
+  const [isProposing, setIsProposing] = useState<boolean>(false);
+  const [availableSlots, setAvailableSlots] = useState<TimeSlot[]>([]);
+  const [selectedDates, setSelectedDates] = useState<Date[]>([]);
+  const [reason, setReason] = useState<string>("");
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+
+  const role = getBookingActorRole(booking, currentUserId);
+  const request = booking.rescheduleRequest;
+  const isPending = request?.status === "pending";
+
+  if (
+    !role ||
+    booking.status !== "confirmed" ||
+    !booking.confirmedDate ||
+    booking.confirmedDate.getTime() <= Date.now()
+  ) {
+    return null;
+  }
+
+  const canPropose = !isPending || request.proposedByRole === role;
+
+  const startProposal = async (): Promise<void> => {
+    setIsProposing(true);
+
+    const start = new Date();
+    start.setDate(start.getDate() + 1);
+    start.setHours(0, 0, 0, 0);
+    const days = Array.from({ length: SEARCH_DAYS }, (_, i) => {
+      const date = new Date(start);
+      date.setDate(start.getDate() + i);
+      return date;
+    });
+
+    const results = await BookingService.findAvailableSlots(
+      booking.artistId,
+      days[0],
+      booking.confirmedDuration || booking.estimatedDuration,
+      days.slice(1),
+    );
+    setAvailableSlots(results.flatMap((day) => day.slots));
+  };
+
+  const toggleDate = (date: Date): void => {
+    const isSelected = selectedDates.some(
+      (selected) => selected.getTime() === date.getTime(),
+    );
+
+    if (isSelected) {
+      setSelectedDates(
+        selectedDates.filter(
+          (selected) => selected.getTime() !== date.getTime(),
+        ),
+      );
+    } else if (selectedDates.length < MAX_RESCHEDULE_OPTIONS) {
+      setSelectedDates([...selectedDates, date]);
+    }
+  };
+
+  const closeProposal = (): void => {
+    setIsProposing(false);
+    setAvailableSlots([]);
+    setSelectedDates([]);
+    setReason("");
+  };
+
+  const submitProposal = async (): Promise<void> => {
+    try {
+      setIsSubmitting(true);
+      await BookingService.requestReschedule(booking.id, selectedDates, reason);
+      closeProposal();
+      onRescheduled();
+    } catch (error) {
+      console.error("Error requesting reschedule:", error);
+      Alert.alert("エラー", "日時変更のリクエストに失敗しました");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const respond = async (
+    decision: BookingRescheduleDecision,
+    selectedDate?: Date,
+  ): Promise<void> => {
+    try {
+      setIsSubmitting(true);
+      await BookingService.respondToReschedule(
+        booking.id,
+        decision,
+        selectedDate,
+      );
+      onRescheduled();
+    } catch (error) {
+      console.error("Error responding to reschedule:", error);
+      Alert.alert(
+        "エラー",
+        error instanceof BookingSlotConflictError
+          ? "選択した日時はすでに埋まっています。別の候補を選んでください"
+          : "日時変更の処理に失敗しました",
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const confirmAccept = (date: Date): void => {
+    Alert.alert(
+      "日時変更を承認",
+      `${date.toLocaleString("ja-JP")} に変更しますか？`,
+      [
+        { text: "キャンセル", style: "cancel" },
+        { text: "変更する", onPress: () => respond("accept", date) },
+      ],
+    );
+  };
+
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.panelTitle}>🔁 日時変更</Text>
+      <Text style={styles.currentDate}>
+        現在の予約: {booking.confirmedDate.toLocaleString("ja-JP")}
+      </Text>
+
+      {isPending && (
+        <View style={styles.requestBox}>
+          <Text style={styles.requestTitle}>
+            {request.proposedByRole === role
+              ? "日時変更をリクエスト中です"
+              : "日時変更のリクエストが届いています"}
+          </Text>
+          {!!request.reason && (
+            <Text style={styles.requestReason}>理由: {request.reason}</Text>
+          )}
+          {request.proposedDates.map((date) => (
+            <View key={date.getTime()} style={styles.optionRow}>
+              <Text style={styles.optionText}>
+                📅 {date.toLocaleString("ja-JP")}
+              </Text>
+              {canDecideBookingReschedule(request, role, "accept") && (
+                <TouchableOpacity
+                  style={styles.acceptButton}
+                  disabled={isSubmitting}
+                  onPress={() => confirmAccept(date)}
+                >
+                  <Text style={styles.acceptButtonText}>この日時で承認</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+          <View style={styles.actionRow}>
+            {canDecideBookingReschedule(request, role, "reject") && (
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                disabled={isSubmitting}
+                onPress={() => respond("reject")}
+              >
+                <Text style={styles.secondaryButtonText}>お断り</Text>
+              </TouchableOpacity>
+            )}
+            {canDecideBookingReschedule(request, role, "withdraw") && (
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                disabled={isSubmitting}
+                onPress={() => respond("withdraw")}
+              >
+                <Text style={styles.secondaryButtonText}>取り下げ</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      )}
+
+      {canPropose && !isProposing && (
+        <TouchableOpacity style={styles.proposeButton} onPress={startProposal}>
+          <Text style={styles.proposeButtonText}>
+            {isPending ? "候補を出し直す" : "日時変更をリクエスト"}
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {isProposing && (
+        <View style={styles.proposalBox}>
+          <Text style={styles.helperText}>
+            空いている日時から最大{MAX_RESCHEDULE_OPTIONS}件選んでください
+          </Text>
+          {availableSlots.length === 0 ? (
+            <Text style={styles.emptyText}>
+              {SEARCH_DAYS}日以内に空き枠がありません
+            </Text>
+          ) : (
+            <View style={styles.slotGrid}>
+              {availableSlots.map((slot) => {
+                const isSelected = selectedDates.some(
+                  (date) => date.getTime() === slot.startTime.getTime(),
+                );
+                return (
+                  <TouchableOpacity
+                    key={slot.startTime.getTime()}
+                    style={[styles.slotChip, isSelected && styles.slotSelected]}
+                    onPress={() => toggleDate(slot.startTime)}
+                  >
+                    <Text style={styles.slotText}>
+                      {slot.startTime.toLocaleString("ja-JP", {
+                        month: "numeric",
+                        day: "numeric",
+                        hour: "2-digit",
+                        minute: "2-digit",
+                      })}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+          <TextInput
+            style={styles.reasonInput}
+            value={reason}
+            onChangeText={setReason}
+            placeholder="変更理由（任意）"
+            placeholderTextColor="#666"
+          />
+          <View style={styles.actionRow}>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={closeProposal}
+            >
+              <Text style={styles.secondaryButtonText}>やめる</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.submitButton,
+                selectedDates.length === 0 && styles.disabledButton,
+              ]}
+              disabled={selectedDates.length === 0 || isSubmitting}
+              onPress={submitProposal}
+            >
+              <Text style={styles.submitButtonText}>リクエストを送信</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  panel: {
+    backgroundColor: "#2a2a2a",
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+  },
+  panelTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#fff",
+    marginBottom: 8,
+  },
+  currentDate: {
+    fontSize: 14,
+    color: "#ccc",
+    marginBottom: 12,
+  },
+  requestBox: {
+    borderTopWidth: 1,
+    borderTopColor: "#333",
+    paddingTop: 12,
+    marginBottom: 12,
+  },
+  requestTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#facc15",
+    marginBottom: 6,
+  },
+  requestReason: {
+    fontSize: 13,
+    color: "#aaa",
+    marginBottom: 6,
+  },
+  optionRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 6,
+  },
+  optionText: {
+    fontSize: 14,
+    color: "#fff",
+  },
+  acceptButton: {
+    backgroundColor: "#4ade80",
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  acceptButtonText: {
+    color: "#1a1a1a",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  actionRow: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+    marginTop: 8,
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: "#666",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  secondaryButtonText: {
+    color: "#ccc",
+    fontSize: 13,
+  },
+  proposeButton: {
+    borderWidth: 1,
+    borderColor: "#ff6b6b",
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: "center",
+  },
+  proposeButtonText: {
+    color: "#ff6b6b",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  proposalBox: {
+    borderTopWidth: 1,
+    borderTopColor: "#333",
+    paddingTop: 12,
+  },
+  helperText: {
+    fontSize: 12,
+    color: "#888",
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#aaa",
+    marginBottom: 8,
+  },
+  slotGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 12,
+  },
+  slotChip: {
+    backgroundColor: "#1a1a1a",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#333",
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  slotSelected: {
+    borderColor: "#ff6b6b",
+    backgroundColor: "#3a1f1f",
+  },
+  slotText: {
+    color: "#fff",
+    fontSize: 13,
+  },
+  reasonInput: {
+    backgroundColor: "#1a1a1a",
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: "#fff",
+    borderWidth: 1,
+    borderColor: "#333",
+  },
+  submitButton: {
+    backgroundColor: "#ff6b6b",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  submitButtonText: {
+    color: "#fff",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+});
+
+export default ReschedulePanel;
@@ -0,0 +1,209 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+} from "react-native";
+import { BookingSize } from "@tattoo-journey/shared";
+import WaitlistService from "../../services/WaitlistService";
+
+interface Props {
+  artistId: string;
+  customerId: string;
+  estimatedDuration: number; // minutes
+  budgetMax: number;
+  tattooDescription?: string;
+  onJoined: (entryId: string) => void;
+}
+
+// 選べる希望期間（日数）
+const RANGE_OPTIONS = [14, 30, 60];
+
+const SIZE_OPTIONS: { value: BookingSize; label: string }[] = [
+  { value: "small", label: "S" },
+  { value: "medium", label: "M" },
+  { value: "large", label: "L" },
+  { value: "extra-large", label: "XL" },
+];
+
+/**
+ * 空き枠がないアーティストのキャンセル待ち登録
+ */
+const WaitlistJoinPanel: React.FC<Props> = ({
+  artistId,
+  customerId,
+  estimatedDuration,
+  budgetMax,
+  tattooDescription,
+  onJoined,
+}) => {
+  const [rangeDays, setRangeDays] = useState<number>(RANGE_OPTIONS[1]);
+  const [size, setSize] = useState<BookingSize>("medium");
+  const [budget, setBudget] = useState<string>(
+    budgetMax > 0 ? String(budgetMax) : "",
+  );
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+
+  const join = async (): Promise<void> => {
+    const max = parseInt(budget, 10);
+    if (!max || max <= 0) {
+      Alert.alert("エラー", "予算の上限を入力してください");
+      return;
+    }
+
+    const earliestDate = new Date();
+    earliestDate.setDate(earliestDate.getDate() + 1);
+    earliestDate.setHours(0, 0, 0, 0);
+    const latestDate = new Date(earliestDate);
+    latestDate.setDate(earliestDate.getDate() + rangeDays);
+
+    try {
+      setIsSubmitting(true);
+      const entryId = await WaitlistService.joinWaitlist(customerId, artistId, {
+        earliestDate,
+        latestDate,
+        preferredSize: size,
+        estimatedDuration,
+        budgetRange: { min: 0, max },
+        tattooDescription: tattooDescription || "",
+        bodyLocation: "",
+      });
+      onJoined(entryId);
+    } catch (error) {
+      console.error("Error joining waitlist:", error);
+      Alert.alert("エラー", "キャンセル待ちの登録に失敗しました");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.panelTitle}>⏳ キャンセル待ちに登録</Text>
+      <Text style={styles.helperText}>
+        現在空き枠がありません。キャンセルが出たら条件に合う枠を優先してお取りし、通知でお知らせします
+      </Text>
+
+      <Text style={styles.label}>希望期間</Text>
+      <View style={styles.optionRow}>
+        {RANGE_OPTIONS.map((days) => (
+          <TouchableOpacity
+            key={days}
+            style={[styles.chip, rangeDays === days && styles.chipSelected]}
+            onPress={() => setRangeDays(days)}
+          >
+            <Text style={styles.chipText}>{days}日以内</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.label}>サイズ</Text>
+      <View style={styles.optionRow}>
+        {SIZE_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.chip, size === option.value && styles.chipSelected]}
+            onPress={() => setSize(option.value)}
+          >
+            <Text style={styles.chipText}>{option.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.label}>予算の上限（円）</Text>
+      <TextInput
+        style={styles.input}
+        value={budget}
+        onChangeText={setBudget}
+        keyboardType="number-pad"
+        placeholder="例: 80000"
+        placeholderTextColor="#666"
+      />
+
+      <TouchableOpacity
+        style={[styles.submitButton, isSubmitting && styles.disabledButton]}
+        disabled={isSubmitting}
+        onPress={join}
+      >
+        <Text style={styles.submitButtonText}>キャンセル待ちに登録する</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  panel: {
+    backgroundColor: "#2a2a2a",
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+  },
+  panelTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#fff",
+    marginBottom: 8,
+  },
+  helperText: {
+    fontSize: 12,
+    color: "#888",
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    color: "#ccc",
+    marginBottom: 6,
+  },
+  optionRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    backgroundColor: "#1a1a1a",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#333",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipSelected: {
+    borderColor: "#ff6b6b",
+    backgroundColor: "#3a1f1f",
+  },
+  chipText: {
+    color: "#fff",
+    fontSize: 13,
+  },
+  input: {
+    backgroundColor: "#1a1a1a",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#333",
+    color: "#fff",
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  submitButton: {
+    backgroundColor: "#ff6b6b",
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  submitButtonText: {
+    color: "#fff",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+});
+
+export default WaitlistJoinPanel;
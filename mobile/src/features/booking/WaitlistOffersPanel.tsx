@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, TouchableOpacity, StyleSheet, Alert } from "react-native";
+import WaitlistService, {
+  WaitlistEntry,
+  WaitlistOffer,
+} from "../../services/WaitlistService";
+
+interface Props {
+  customerId: string;
+  onBooked: (bookingId: string) => void;
+}
+
+/**
+ * キャンセル待ちの状況と、確保された空き枠への回答
+ */
+const WaitlistOffersPanel: React.FC<Props> = ({ customerId, onBooked }) => {
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [offers, setOffers] = useState<WaitlistOffer[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+
+  useEffect(() => {
+    loadWaitlist();
+  }, [customerId]);
+
+  const loadWaitlist = async (): Promise<void> => {
+    const [customerEntries, pendingOffers] = await Promise.all([
+      WaitlistService.getCustomerEntries(customerId),
+      WaitlistService.getPendingOffers(customerId),
+    ]);
+    setEntries(customerEntries);
+    setOffers(pendingOffers);
+  };
+
+  const respond = async (
+    offer: WaitlistOffer,
+    accept: boolean,
+  ): Promise<void> => {
+    try {
+      setIsSubmitting(true);
+      const bookingId = await WaitlistService.respondToOffer(offer, accept);
+      await loadWaitlist();
+      if (bookingId) {
+        onBooked(bookingId);
+      }
+    } catch (error) {
+      console.error("Error responding to waitlist offer:", error);
+      Alert.alert("エラー", "この枠はすでに受付を終了しました");
+      await loadWaitlist();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const leave = (entry: WaitlistEntry): void => {
+    Alert.alert("キャンセル待ちを取り消し", "登録を取り消しますか？", [
+      { text: "戻る", style: "cancel" },
+      {
+        text: "取り消す",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await WaitlistService.leaveWaitlist(entry.id);
+            await loadWaitlist();
+          } catch (error) {
+            console.error("Error leaving waitlist:", error);
+            Alert.alert("エラー", "取り消しに失敗しました");
+          }
+        },
+      },
+    ]);
+  };
+
+  if (entries.length === 0 && offers.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.panelTitle}>⏳ キャンセル待ち</Text>
+
+      {offers.map((offer) => (
+        <View key={offer.id} style={styles.offerBox}>
+          <Text style={styles.offerTitle}>空き枠をお取りしています</Text>
+          <Text style={styles.offerText}>
+            📅 {offer.startTime.toLocaleString("ja-JP")}
+          </Text>
+          <Text style={styles.expiresText}>
+            回答期限: {offer.expiresAt.toLocaleString("ja-JP")}
+          </Text>
+          <View style={styles.actionRow}>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              disabled={isSubmitting}
+              onPress={() => respond(offer, false)}
+            >
+              <Text style={styles.secondaryButtonText}>見送る</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.acceptButton}
+              disabled={isSubmitting}
+              onPress={() => respond(offer, true)}
+            >
+              <Text style={styles.acceptButtonText}>この枠で申し込む</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ))}
+
+      {entries
+        .filter((entry) => entry.status === "waiting")
+        .map((entry) => (
+          <View key={entry.id} style={styles.entryRow}>
+            <Text style={styles.entryText}>
+              {entry.earliestDate.toLocaleDateString("ja-JP")} 〜{" "}
+              {entry.latestDate.toLocaleDateString("ja-JP")} で待機中
+            </Text>
+            <TouchableOpacity onPress={() => leave(entry)}>
+              <Text style={styles.leaveText}>取り消し</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  panel: {
+    backgroundColor: "#2a2a2a",
+    borderRadius: 12,
+    padding: 16,
+    marginHorizontal: 16,
+    marginBottom: 12,
+  },
+  panelTitle: {
+    fontSize: 16,
+    fontWeight: "bold",
+    color: "#fff",
+    marginBottom: 8,
+  },
+  offerBox: {
+    borderTopWidth: 1,
+    borderTopColor: "#333",
+    paddingTop: 10,
+    marginBottom: 10,
+  },
+  offerTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#4ade80",
+    marginBottom: 4,
+  },
+  offerText: {
+    fontSize: 14,
+    color: "#fff",
+    marginBottom: 2,
+  },
+  expiresText: {
+    fontSize: 12,
+    color: "#facc15",
+  },
+  actionRow: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+    marginTop: 8,
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: "#666",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  secondaryButtonText: {
+    color: "#ccc",
+    fontSize: 13,
+  },
+  acceptButton: {
+    backgroundColor: "#4ade80",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  acceptButtonText: {
+    color: "#1a1a1a",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  entryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 6,
+  },
+  entryText: {
+    fontSize: 13,
+    color: "#ccc",
+  },
+  leaveText: {
+    fontSize: 13,
+    color: "#ff6b6b",
+  },
+});
+
+export default WaitlistOffersPanel;
@@ -0,0 +1,465 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Image,
+  StyleSheet,
+  Alert,
+} from "react-native";
+import {
+  ChatCard,
+  ChatCardResponse,
+  ChatMessage,
+  canRespondToChatCard,
+  parseChatCard,
+} from "@tattoo-journey/shared";
+import BookingService, {
+  BookingSlotConflictError,
+} from "../../services/BookingService";
+import { DesignDraftClosedError } from "../../services/DesignDraftService";
+
+interface Props {
+  message: ChatMessage;
+  roomId: string;
+  currentUserId: string;
+}
+
+const CARD_TITLES: Record<ChatCard["kind"], string> = {
+  price_quote: "💰 お見積もり",
+  slot_proposal: "📅 日時のご提案",
+  design_approval: "🎨 デザインの確認",
+  deposit_request: "💳 デポジットのお支払い",
+};
+
+const RESPONSE_LABELS: Record<ChatCardResponse["action"], string> = {
+  accept: "✅ 承認されました",
+  decline: "❌ お断りされました",
+  select: "✅ 日時が選択されました",
+  approve: "✅ 承認されました",
+  request_changes: "✏️ 修正がリクエストされました",
+  pay: "💳 入金確認済み",
+};
+
+const formatSlot = (time: number): string =>
+  new Date(time).toLocaleString("ja-JP", {
+    month: "numeric",
+    day: "numeric",
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+/**
+ * 予約カード（見積もり・日時提案・デザイン確認・デポジット請求）
+ * 回答する側（デポジットは請求したアーティスト、それ以外は受信者）に操作ボタンを表示する
+ */
+const ChatCardView: React.FC<Props> = ({ message, roomId, currentUserId }) => {
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [isRequestingChanges, setIsRequestingChanges] =
+    useState<boolean>(false);
+  const [comment, setComment] = useState<string>("");
+
+  const card = parseChatCard(message.card);
+
+  // 未対応の種類・新しいバージョンのカードは本文（要約）を表示
+  if (!card) {
+    return (
+      <View style={styles.card}>
+        <Text style={styles.bodyText}>{message.text}</Text>
+        <Text style={styles.helperText}>
+          このカードを表示するにはアプリを更新してください
+        </Text>
+      </View>
+    );
+  }
+
+  const canRespond = canRespondToChatCard(message, currentUserId);
+  const response = message.cardResponse;
+
+  const respond = async (
+    action: ChatCardResponse["action"],
+    slotIndex?: number,
+  ): Promise<void> => {
+    try {
+      setIsSubmitting(true);
+      await BookingService.respondToChatCard(
+        roomId,
+        message,
+        currentUserId,
+        { action, slotIndex },
+        comment.trim() || undefined,
+      );
+      setIsRequestingChanges(false);
+      setComment("");
+    } catch (error) {
+      console.error("Error responding to chat card:", error);
+      Alert.alert(
+        "エラー",
+        error instanceof BookingSlotConflictError
+          ? "選択した日時はすでに埋まっています。別の日時を選んでください"
+          : error instanceof DesignDraftClosedError
+            ? "このデザイン案はすでに確認済みか、新しい版に置き換えられています"
+            : "操作に失敗しました",
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const confirmAction = (
+    title: string,
+    detail: string,
+    action: ChatCardResponse["action"],
+    slotIndex?: number,
+  ): void => {
+    Alert.alert(title, detail, [
+      { text: "キャンセル", style: "cancel" },
+      { text: "OK", onPress: () => respond(action, slotIndex) },
+    ]);
+  };
+
+  const renderBody = () => {
+    switch (card.kind) {
+      case "price_quote":
+        return (
+          <View>
+            <Text style={styles.amountText}>
+              ¥{card.payload.price.toLocaleString()}
+            </Text>
+            {!!card.payload.duration && (
+              <Text style={styles.bodyText}>
+                ⏰ 所要時間: {card.payload.duration}分
+              </Text>
+            )}
+            {!!card.payload.proposedDate && (
+              <Text style={styles.bodyText}>
+                📅 提案日時: {formatSlot(card.payload.proposedDate)}
+              </Text>
+            )}
+            {!!card.payload.note && (
+              <Text style={styles.noteText}>{card.payload.note}</Text>
+            )}
+          </View>
+        );
+
+      case "slot_proposal":
+        return (
+          <View>
+            <Text style={styles.bodyText}>
+              💰 ¥{card.payload.price.toLocaleString()} ・ ⏰{" "}
+              {card.payload.duration}分
+            </Text>
+            {card.payload.slots.map((slot, index) => {
+              const isSelected =
+                response?.action === "select" && response.slotIndex === index;
+              return (
+                <View key={slot.startTime} style={styles.slotRow}>
+                  <Text
+                    style={[
+                      styles.slotText,
+                      isSelected && styles.selectedSlotText,
+                    ]}
+                  >
+                    {isSelected ? "✅ " : "• "}
+                    {formatSlot(slot.startTime)}
+                  </Text>
+                  {canRespond && (
+                    <TouchableOpacity
+                      style={styles.primaryButton}
+                      disabled={isSubmitting}
+                      onPress={() =>
+                        confirmAction(
+                          "予約を確定",
+                          `${formatSlot(slot.startTime)} で予約を確定しますか？`,
+                          "select",
+                          index,
+                        )
+                      }
+                    >
+                      <Text style={styles.primaryButtonText}>この日時</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              );
+            })}
+          </View>
+        );
+
+      case "design_approval":
+        return (
+          <View>
+            <Image
+              source={{ uri: card.payload.imageUrl }}
+              style={styles.designImage}
+              resizeMode="cover"
+            />
+            <Text style={styles.bodyText}>
+              バージョン {card.payload.designVersion}
+            </Text>
+            {!!card.payload.note && (
+              <Text style={styles.noteText}>{card.payload.note}</Text>
+            )}
+          </View>
+        );
+
+      case "deposit_request":
+        return (
+          <View>
+            <Text style={styles.amountText}>
+              ¥{card.payload.amount.toLocaleString()}
+            </Text>
+            {!!card.payload.dueDate && (
+              <Text style={styles.bodyText}>期限: {card.payload.dueDate}</Text>
+            )}
+          </View>
+        );
+    }
+  };
+
+  const renderActions = () => {
+    if (!canRespond) {
+      return card.kind === "deposit_request" &&
+        message.receiverId === currentUserId ? (
+        <Text style={styles.helperText}>
+          お支払いは店頭でお願いします。入金はアーティストが確認します
+        </Text>
+      ) : null;
+    }
+
+    switch (card.kind) {
+      case "price_quote":
+        return (
+          <View style={styles.actionRow}>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              disabled={isSubmitting}
+              onPress={() =>
+                confirmAction(
+                  "お見積もりをお断り",
+                  "このお見積もりをお断りしますか？",
+                  "decline",
+                )
+              }
+            >
+              <Text style={styles.secondaryButtonText}>お断り</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.primaryButton}
+              disabled={isSubmitting}
+              onPress={() =>
+                confirmAction(
+                  "お見積もりを承認",
+                  `¥${card.payload.price.toLocaleString()} で承認しますか？`,
+                  "accept",
+                )
+              }
+            >
+              <Text style={styles.primaryButtonText}>承認</Text>
+            </TouchableOpacity>
+          </View>
+        );
+
+      case "design_approval":
+        return isRequestingChanges ? (
+          <View>
+            <TextInput
+              style={styles.commentInput}
+              value={comment}
+              onChangeText={setComment}
+              placeholder="修正してほしい点"
+              placeholderTextColor="#666"
+              multiline
+            />
+            <View style={styles.actionRow}>
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => setIsRequestingChanges(false)}
+              >
+                <Text style={styles.secondaryButtonText}>やめる</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.primaryButton,
+                  !comment.trim() && styles.disabledButton,
+                ]}
+                disabled={!comment.trim() || isSubmitting}
+                onPress={() => respond("request_changes")}
+              >
+                <Text style={styles.primaryButtonText}>修正を依頼</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : (
+          <View style={styles.actionRow}>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              disabled={isSubmitting}
+              onPress={() => setIsRequestingChanges(true)}
+            >
+              <Text style={styles.secondaryButtonText}>修正を依頼</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.primaryButton}
+              disabled={isSubmitting}
+              onPress={() =>
+                confirmAction(
+                  "デザインを承認",
+                  `バージョン ${card.payload.designVersion} で承認しますか？`,
+                  "approve",
+                )
+              }
+            >
+              <Text style={styles.primaryButtonText}>承認</Text>
+            </TouchableOpacity>
+          </View>
+        );
+
+      // デポジットは店頭で支払うため、請求したアーティストが入金を確認する
+      case "deposit_request":
+        return (
+          <View style={styles.actionRow}>
+            <TouchableOpacity
+              style={styles.primaryButton}
+              disabled={isSubmitting}
+              onPress={() =>
+                confirmAction(
+                  "入金の確認",
+                  `¥${card.payload.amount.toLocaleString()} の入金を確認しましたか？`,
+                  "pay",
+                )
+              }
+            >
+              <Text style={styles.primaryButtonText}>入金を確認</Text>
+            </TouchableOpacity>
+          </View>
+        );
+
+      // 日時の提案は各候補の横にボタンを表示
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>{CARD_TITLES[card.kind]}</Text>
+      {renderBody()}
+      {response ? (
+        <Text style={styles.responseText}>
+          {RESPONSE_LABELS[response.action]}
+        </Text>
+      ) : (
+        renderActions()
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: "#2a2a2a",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#333",
+    padding: 12,
+    minWidth: 240,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#fff",
+    marginBottom: 8,
+  },
+  amountText: {
+    fontSize: 22,
+    fontWeight: "bold",
+    color: "#ff6b6b",
+    marginBottom: 4,
+  },
+  bodyText: {
+    fontSize: 14,
+    color: "#ccc",
+    marginBottom: 4,
+  },
+  noteText: {
+    fontSize: 13,
+    color: "#aaa",
+    marginTop: 4,
+  },
+  helperText: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 6,
+  },
+  slotRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 4,
+  },
+  slotText: {
+    fontSize: 14,
+    color: "#fff",
+  },
+  selectedSlotText: {
+    color: "#4ade80",
+    fontWeight: "600",
+  },
+  designImage: {
+    width: "100%",
+    height: 180,
+    borderRadius: 8,
+    backgroundColor: "#333",
+    marginBottom: 8,
+  },
+  commentInput: {
+    backgroundColor: "#333",
+    borderRadius: 8,
+    padding: 10,
+    color: "#fff",
+    fontSize: 14,
+    minHeight: 60,
+    marginTop: 8,
+  },
+  actionRow: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    marginTop: 10,
+  },
+  primaryButton: {
+    backgroundColor: "#ff6b6b",
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    marginLeft: 8,
+  },
+  primaryButtonText: {
+    color: "#fff",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    backgroundColor: "#333",
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    marginLeft: 8,
+  },
+  secondaryButtonText: {
+    color: "#ccc",
+    fontSize: 14,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  responseText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#4ade80",
+    marginTop: 10,
+  },
+});
+
+export default ChatCardView;
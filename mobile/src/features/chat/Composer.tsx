@@ -10,21 +10,34 @@ import {
   Keyboard,
   Animated,
   Dimensions,
+  ActivityIndicator,
 } from "react-native";
+import {
+  ChatCard,
+  MAX_PROPOSED_SLOTS,
+  ProposedSlot,
+  createChatCard,
+  isValidChatCardPayload,
+} from "@tattoo-journey/shared";
 import { TattooSize } from "../../types";
 import telemetry from "../../lib/telemetry";
+import BookingService, {
+  BookingRequest,
+  TimeSlot,
+} from "../../services/BookingService";
 
 interface SlashCommand {
   command: string;
   description: string;
   icon: string;
-  category: "booking" | "info" | "action";
+  // card: 予約カードとして送信（cardBooking と onSendCard がある場合のみ）
+  category: "booking" | "info" | "action" | "card";
   parameters?: SlashCommandParameter[];
 }
 
 interface SlashCommandParameter {
   name: string;
-  type: "text" | "number" | "select" | "multiselect";
+  type: "text" | "number" | "select" | "multiselect" | "slots";
   required: boolean;
   options?: string[];
   placeholder?: string;
@@ -40,8 +53,17 @@ interface ComposerProps {
   placeholder?: string;
   showSlashCommands?: boolean;
   contextType?: "general" | "booking" | "inquiry";
+  cardBooking?: Pick<
+    BookingRequest,
+    "id" | "artistId" | "estimatedDuration" | "estimatedPrice"
+  >;
+  onSendCard?: (card: ChatCard) => void;
+  onChangeText?: (text: string) => void;
 }
 
+// 日時提案で空き枠を探す期間（翌日から）
+const SLOT_SEARCH_DAYS = 14;
+
 const SLASH_COMMANDS: SlashCommand[] = [
   {
     command: "/size",
@@ -182,6 +204,78 @@ const SLASH_COMMANDS: SlashCommand[] = [
       },
     ],
   },
+  {
+    command: "/quote",
+    description: "見積もりカードを送信",
+    icon: "💰",
+    category: "card",
+    parameters: [
+      {
+        name: "price",
+        type: "number",
+        required: true,
+        placeholder: "料金（円）",
+      },
+      {
+        name: "duration",
+        type: "number",
+        required: false,
+        placeholder: "所要時間（分）",
+      },
+      {
+        name: "note",
+        type: "text",
+        required: false,
+        placeholder: "補足",
+      },
+    ],
+  },
+  {
+    command: "/slots",
+    description: "空き枠から日時を提案",
+    icon: "🗓",
+    category: "card",
+    parameters: [
+      {
+        name: "price",
+        type: "number",
+        required: true,
+        placeholder: "料金（円）",
+      },
+      {
+        name: "duration",
+        type: "number",
+        required: true,
+        placeholder: "所要時間（分）",
+      },
+      {
+        name: "slots",
+        type: "slots",
+        required: true,
+        placeholder: `候補日時（最大${MAX_PROPOSED_SLOTS}件）`,
+      },
+    ],
+  },
+  {
+    command: "/deposit",
+    description: "デポジットを請求",
+    icon: "💳",
+    category: "card",
+    parameters: [
+      {
+        name: "amount",
+        type: "number",
+        required: true,
+        placeholder: "金額（円）",
+      },
+      {
+        name: "dueDate",
+        type: "text",
+        required: false,
+        placeholder: "支払い期限 (YYYY-MM-DD)",
+      },
+    ],
+  },
   {
     command: "/help",
     description: "ヘルプとよくある質問",
@@ -197,6 +291,9 @@ export const ChatComposer: React.FC<ComposerProps> = ({
   placeholder = "メッセージを入力...",
   showSlashCommands = true,
   contextType = "general",
+  cardBooking,
+  onSendCard,
+  onChangeText,
 }) => {
   const [inputText, setInputText] = useState("");
   const [isCommandMode, setIsCommandMode] = useState(false);
@@ -204,6 +301,8 @@ export const ChatComposer: React.FC<ComposerProps> = ({
   const [commandParams, setCommandParams] = useState<Record<string, any>>({});
   const [filteredCommands, setFilteredCommands] = useState<SlashCommand[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
+  const [availableSlots, setAvailableSlots] = useState<TimeSlot[]>([]);
+  const [isSearchingSlots, setIsSearchingSlots] = useState(false);
 
   const inputRef = useRef<TextInput>(null);
   const suggestionHeight = useRef(new Animated.Value(0)).current;
@@ -223,9 +322,11 @@ export const ChatComposer: React.FC<ComposerProps> = ({
           cmd.command.slice(1).includes(query) ||
           cmd.description.toLowerCase().includes(query);
         const matchesContext =
-          contextType === "general" ||
-          cmd.category === "info" ||
-          (contextType === "booking" && cmd.category === "booking");
+          cmd.category === "card"
+            ? !!(cardBooking && onSendCard)
+            : contextType === "general" ||
+              cmd.category === "info" ||
+              (contextType === "booking" && cmd.category === "booking");
         return matchesQuery && matchesContext;
       });
 
@@ -235,7 +336,7 @@ export const ChatComposer: React.FC<ComposerProps> = ({
       setShowSuggestions(false);
       setFilteredCommands([]);
     }
-  }, [inputText, showSlashCommands, contextType]);
+  }, [inputText, showSlashCommands, contextType, cardBooking, onSendCard]);
 
   // Animate suggestions panel
   useEffect(() => {
@@ -251,6 +352,7 @@ export const ChatComposer: React.FC<ComposerProps> = ({
   const handleInputChange = useCallback(
     (text: string) => {
       setInputText(text);
+      onChangeText?.(text);
 
       if (text.startsWith("/") && !isCommandMode) {
         setIsCommandMode(true);
@@ -258,9 +360,10 @@ export const ChatComposer: React.FC<ComposerProps> = ({
         setIsCommandMode(false);
         setActiveCommand(null);
         setCommandParams({});
+        setAvailableSlots([]);
       }
     },
-    [isCommandMode],
+    [isCommandMode, onChangeText],
   );
 
   const selectCommand = useCallback(
@@ -292,7 +395,11 @@ export const ChatComposer: React.FC<ComposerProps> = ({
     // Validate required parameters
     const missingRequired =
       activeCommand.parameters?.filter(
-        (param) => param.required && !params[param.name],
+        (param) =>
+          param.required &&
+          (Array.isArray(params[param.name])
+            ? params[param.name].length === 0
+            : !params[param.name]),
       ) || [];
 
     if (missingRequired.length > 0) {
@@ -303,6 +410,20 @@ export const ChatComposer: React.FC<ComposerProps> = ({
       return;
     }
 
+    if (activeCommand.category === "card") {
+      const card =
+        cardBooking && buildCard(activeCommand.command, params, cardBooking.id);
+      if (!card || !isValidChatCardPayload(card.kind, card.payload)) {
+        Alert.alert("入力内容を確認してください");
+        return;
+      }
+
+      onSendCard?.(card);
+      onSlashCommandExecuted?.(activeCommand.command, params);
+      resetCommand();
+      return;
+    }
+
     // Build formatted message
     switch (activeCommand.command) {
       case "/size":
@@ -367,16 +488,76 @@ export const ChatComposer: React.FC<ComposerProps> = ({
     // Notify parent component
     onSlashCommandExecuted?.(activeCommand.command, params);
 
-    // Reset state
+    resetCommand();
+  }, [
+    activeCommand,
+    commandParams,
+    cardBooking,
+    onSendCard,
+    onSendMessage,
+    onSlashCommandExecuted,
+  ]);
+
+  const resetCommand = () => {
     setInputText("");
     setIsCommandMode(false);
     setActiveCommand(null);
     setCommandParams({});
     setShowSuggestions(false);
+    setAvailableSlots([]);
 
     // Hide keyboard
     Keyboard.dismiss();
-  }, [activeCommand, commandParams, onSendMessage, onSlashCommandExecuted]);
+  };
+
+  // 所要時間に合う空き枠を検索（日時提案カード用）
+  const searchSlots = async () => {
+    if (!cardBooking) return;
+
+    const duration =
+      parseInt(commandParams.duration, 10) || cardBooking.estimatedDuration;
+    const start = new Date();
+    start.setDate(start.getDate() + 1);
+    const days = Array.from({ length: SLOT_SEARCH_DAYS }, (_, i) => {
+      const date = new Date(start);
+      date.setDate(start.getDate() + i);
+      return date;
+    });
+
+    try {
+      setIsSearchingSlots(true);
+      const results = await BookingService.findAvailableSlots(
+        cardBooking.artistId,
+        days[0],
+        duration,
+        days.slice(1),
+      );
+      setAvailableSlots(results.flatMap((day) => day.slots));
+      setCommandParams((prev) => ({ ...prev, slots: [] }));
+    } finally {
+      setIsSearchingSlots(false);
+    }
+  };
+
+  const toggleSlot = (slot: TimeSlot, duration: number) => {
+    setCommandParams((prev) => {
+      const selected: ProposedSlot[] = prev.slots || [];
+      const startTime = slot.startTime.getTime();
+      const isSelected = selected.some((item) => item.startTime === startTime);
+
+      if (!isSelected && selected.length >= MAX_PROPOSED_SLOTS) return prev;
+
+      return {
+        ...prev,
+        slots: isSelected
+          ? selected.filter((item) => item.startTime !== startTime)
+          : [
+              ...selected,
+              { startTime, endTime: startTime + duration * 60 * 1000 },
+            ],
+      };
+    });
+  };
 
   const sendRegularMessage = useCallback(() => {
     if (inputText.trim() === "") return;
@@ -490,6 +671,65 @@ export const ChatComposer: React.FC<ComposerProps> = ({
           </View>
         );
 
+      case "slots": {
+        const duration =
+          parseInt(commandParams.duration, 10) ||
+          cardBooking?.estimatedDuration ||
+          0;
+        return (
+          <View key={param.name} style={styles.parameterRow}>
+            <Text style={styles.parameterLabel}>{param.placeholder}:</Text>
+            <TouchableOpacity
+              style={styles.searchButton}
+              onPress={searchSlots}
+              disabled={isSearchingSlots}
+            >
+              <Text style={styles.searchButtonText}>
+                {SLOT_SEARCH_DAYS}日以内の空き枠を検索
+              </Text>
+            </TouchableOpacity>
+            {isSearchingSlots ? (
+              <ActivityIndicator size="small" color="#ff6b6b" />
+            ) : (
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                {availableSlots.map((slot) => {
+                  const isSelected =
+                    Array.isArray(value) &&
+                    value.some(
+                      (item: ProposedSlot) =>
+                        item.startTime === slot.startTime.getTime(),
+                    );
+                  return (
+                    <TouchableOpacity
+                      key={slot.startTime.getTime()}
+                      style={[
+                        styles.optionChip,
+                        isSelected && styles.optionChipSelected,
+                      ]}
+                      onPress={() => toggleSlot(slot, duration)}
+                    >
+                      <Text
+                        style={[
+                          styles.optionText,
+                          isSelected && styles.optionTextSelected,
+                        ]}
+                      >
+                        {slot.startTime.toLocaleString("ja-JP", {
+                          month: "numeric",
+                          day: "numeric",
+                          hour: "2-digit",
+                          minute: "2-digit",
+                        })}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+            )}
+          </View>
+        );
+      }
+
       case "text":
       case "number":
         return (
@@ -598,6 +838,42 @@ export const ChatComposer: React.FC<ComposerProps> = ({
   );
 };
 
+/**
+ * カード系コマンドの入力から予約カードを作成
+ */
+const buildCard = (
+  command: string,
+  params: Record<string, any>,
+  bookingId: string,
+): ChatCard | null => {
+  const toNumber = (value: string | undefined) =>
+    value ? parseInt(value, 10) : undefined;
+
+  switch (command) {
+    case "/quote":
+      return createChatCard("price_quote", bookingId, {
+        price: toNumber(params.price) as number,
+        duration: toNumber(params.duration),
+        note: params.note || undefined,
+      });
+    case "/slots":
+      return createChatCard("slot_proposal", bookingId, {
+        slots: [...params.slots].sort(
+          (a: ProposedSlot, b: ProposedSlot) => a.startTime - b.startTime,
+        ),
+        price: toNumber(params.price) as number,
+        duration: toNumber(params.duration) as number,
+      });
+    case "/deposit":
+      return createChatCard("deposit_request", bookingId, {
+        amount: toNumber(params.amount) as number,
+        dueDate: params.dueDate || undefined,
+      });
+    default:
+      return null;
+  }
+};
+
 // Helper functions for label translation
 const getSizeLabel = (size: string): string => {
   const labels: Record<string, string> = {
@@ -718,6 +994,19 @@ const styles = StyleSheet.create({
     color: "#fff",
     fontWeight: "600",
   },
+  searchButton: {
+    alignSelf: "flex-start",
+    borderWidth: 1,
+    borderColor: "#ff6b6b",
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginBottom: 8,
+  },
+  searchButtonText: {
+    color: "#ff6b6b",
+    fontSize: 14,
+  },
 
   // Composer
   composerContainer: {
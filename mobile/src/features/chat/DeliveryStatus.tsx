@@ -0,0 +1,65 @@
+import React from "react";
+import { Text, TouchableOpacity, StyleSheet } from "react-native";
+import { ChatDeliveryStatus } from "@tattoo-journey/shared";
+
+interface Props {
+  status: ChatDeliveryStatus;
+  // 送信に失敗したメッセージをタップしたとき
+  onRetry?: () => void;
+}
+
+const STATUS_LABELS: Record<ChatDeliveryStatus, string> = {
+  queued: "🕓 送信待ち",
+  sending: "送信中…",
+  failed: "⚠️ 未送信・タップで再送",
+  sent: "✓ 送信済み",
+  delivered: "✓✓ 配信済み",
+  read: "既読",
+};
+
+/**
+ * 自分のメッセージの配信状態
+ */
+const DeliveryStatus: React.FC<Props> = ({ status, onRetry }) => {
+  if (status === "failed" && onRetry) {
+    return (
+      <TouchableOpacity style={styles.container} onPress={onRetry}>
+        <Text style={[styles.text, styles.failedText]}>
+          {STATUS_LABELS[status]}
+        </Text>
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <Text
+      style={[
+        styles.container,
+        styles.text,
+        status === "failed" && styles.failedText,
+        status === "read" && styles.readText,
+      ]}
+    >
+      {STATUS_LABELS[status]}
+    </Text>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginLeft: 8,
+  },
+  text: {
+    fontSize: 10,
+    color: "rgba(255, 255, 255, 0.7)",
+  },
+  failedText: {
+    color: "#ffd166",
+    fontWeight: "bold",
+  },
+  readText: {
+    color: "#fff",
+  },
+});
+
+export default DeliveryStatus;
@@ -0,0 +1,65 @@
+import React from "react";
+import { View, Text, TouchableOpacity, StyleSheet } from "react-native";
+import { useChatOutbox } from "../../hooks/useChatOutbox";
+
+interface Props {
+  roomId: string;
+}
+
+/**
+ * ルームの未送信メッセージ数（オフライン中に書いたもの・送信失敗）
+ * 送信に失敗したものはまとめて再送できる
+ */
+const OutboxBanner: React.FC<Props> = ({ roomId }) => {
+  const { failedCount, pendingCount, retryAll } = useChatOutbox(roomId);
+
+  if (failedCount === 0 && pendingCount === 0) return null;
+
+  return (
+    <View style={[styles.banner, failedCount > 0 && styles.failedBanner]}>
+      <Text style={styles.text}>
+        {failedCount > 0
+          ? `⚠️ 送信できなかったメッセージが${failedCount}件あります`
+          : `🕓 ${pendingCount}件のメッセージを送信待ちです（接続が戻ると自動で送信します）`}
+      </Text>
+      <TouchableOpacity style={styles.retryButton} onPress={retryAll}>
+        <Text style={styles.retryButtonText}>再送</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#2a2a2a",
+    borderRadius: 8,
+    padding: 12,
+    marginHorizontal: 16,
+    marginTop: 12,
+  },
+  failedBanner: {
+    borderWidth: 1,
+    borderColor: "#ff6b6b",
+  },
+  text: {
+    flex: 1,
+    fontSize: 13,
+    color: "#ccc",
+  },
+  retryButton: {
+    backgroundColor: "#ff6b6b",
+    borderRadius: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginLeft: 8,
+  },
+  retryButtonText: {
+    color: "#fff",
+    fontSize: 13,
+    fontWeight: "bold",
+  },
+});
+
+export default OutboxBanner;
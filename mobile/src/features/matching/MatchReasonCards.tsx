@@ -0,0 +1,228 @@
+import React, { useState } from "react";
+import { View, Text, Image, TouchableOpacity, StyleSheet } from "react-native";
+import {
+  MatchReason,
+  MatchReasonLocale,
+  formatMatchReason,
+} from "@tattoo-journey/shared";
+import { ArtistMatch } from "../../services/MatchingService";
+
+interface Props {
+  match: ArtistMatch;
+  initialLocale?: MatchReasonLocale;
+}
+
+const FACTOR_ICONS: Record<MatchReason["factor"], string> = {
+  style: "🎨",
+  specialty: "🏅",
+  rating: "⭐",
+  price: "💰",
+  distance: "📍",
+  availability: "📅",
+};
+
+const TITLES: Record<MatchReasonLocale, string> = {
+  ja: "このアーティストをおすすめする理由",
+  en: "Why this artist",
+};
+
+const LEVEL_LABELS: Record<
+  MatchReasonLocale,
+  Record<MatchReason["level"], string>
+> = {
+  ja: { strong: "とても合う", good: "合う" },
+  en: { strong: "Strong", good: "Good" },
+};
+
+/**
+ * 「なぜこのアーティストか」カード
+ * 理由ごとに総合スコアへの貢献度と、根拠となった作品・レビューを表示
+ */
+const MatchReasonCards: React.FC<Props> = ({ match, initialLocale = "ja" }) => {
+  const [locale, setLocale] = useState<MatchReasonLocale>(initialLocale);
+
+  if (match.reasons.length === 0) return null;
+
+  const renderEvidence = (reason: MatchReason) => {
+    const items = match.topPortfolioMatches.filter((item) =>
+      reason.evidence.portfolioItemIds.includes(item.id),
+    );
+    const reviews = match.reviewHighlights.filter((review) =>
+      reason.evidence.reviewIds.includes(review.id),
+    );
+
+    return (
+      <>
+        {items.length > 0 && (
+          <View style={styles.evidenceImages}>
+            {items.map((item) => (
+              <Image
+                key={item.id}
+                source={{ uri: item.imageUrl }}
+                style={styles.evidenceImage}
+              />
+            ))}
+          </View>
+        )}
+        {reviews.map((review) => (
+          <Text key={review.id} style={styles.reviewQuote} numberOfLines={2}>
+            ★{review.rating} 「{review.comment}」
+          </Text>
+        ))}
+      </>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{TITLES[locale]}</Text>
+        <TouchableOpacity
+          style={styles.localeToggle}
+          onPress={() => setLocale(locale === "ja" ? "en" : "ja")}
+        >
+          <Text style={styles.localeToggleText}>
+            {locale === "ja" ? "EN" : "日本語"}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {match.reasons.map((reason) => (
+        <View key={reason.factor} style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.icon}>{FACTOR_ICONS[reason.factor]}</Text>
+            <Text style={styles.reasonText}>
+              {formatMatchReason(reason, locale)}
+            </Text>
+          </View>
+
+          <View style={styles.contributionRow}>
+            <View style={styles.contributionBar}>
+              <View
+                style={[
+                  styles.contributionFill,
+                  {
+                    width: `${Math.min(reason.contribution / match.matchScore, 1) * 100}%`,
+                  },
+                ]}
+              />
+            </View>
+            <Text style={styles.contributionText}>
+              +{Math.round(reason.contribution * 100)}pt
+            </Text>
+            <Text
+              style={[
+                styles.levelBadge,
+                reason.level === "strong" && styles.levelBadgeStrong,
+              ]}
+            >
+              {LEVEL_LABELS[locale][reason.level]}
+            </Text>
+          </View>
+
+          {renderEvidence(reason)}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#2a2a2a",
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 16,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "bold",
+    color: "#fff",
+  },
+  localeToggle: {
+    backgroundColor: "#1a1a1a",
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  localeToggleText: {
+    fontSize: 12,
+    color: "#ccc",
+  },
+  card: {
+    backgroundColor: "#1a1a1a",
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    marginBottom: 8,
+  },
+  icon: {
+    fontSize: 16,
+    marginRight: 8,
+  },
+  reasonText: {
+    flex: 1,
+    fontSize: 14,
+    color: "#fff",
+    lineHeight: 20,
+  },
+  contributionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  contributionBar: {
+    flex: 1,
+    height: 6,
+    backgroundColor: "#333",
+    borderRadius: 3,
+    overflow: "hidden",
+  },
+  contributionFill: {
+    height: "100%",
+    backgroundColor: "#ff6b6b",
+  },
+  contributionText: {
+    fontSize: 12,
+    color: "#ff6b6b",
+    fontWeight: "600",
+    marginLeft: 8,
+    width: 44,
+    textAlign: "right",
+  },
+  levelBadge: {
+    fontSize: 11,
+    color: "#facc15",
+    marginLeft: 8,
+  },
+  levelBadgeStrong: {
+    color: "#4ade80",
+  },
+  evidenceImages: {
+    flexDirection: "row",
+    marginTop: 8,
+  },
+  evidenceImage: {
+    width: 48,
+    height: 48,
+    borderRadius: 6,
+    marginRight: 6,
+  },
+  reviewQuote: {
+    fontSize: 12,
+    color: "#aaa",
+    fontStyle: "italic",
+    marginTop: 6,
+  },
+});
+
+export default MatchReasonCards;
@@ -0,0 +1,77 @@
+import React from "react";
+import { View, Text, Image, ScrollView, StyleSheet } from "react-native";
+import { SimilarPortfolioItem } from "../../services/ImageAnalysisService";
+
+interface Props {
+  items: SimilarPortfolioItem[];
+}
+
+/**
+ * 見た目が似ているポートフォリオ作品の横スクロール一覧
+ */
+const SimilarPortfolioStrip: React.FC<Props> = ({ items }) => {
+  if (items.length === 0) {
+    return (
+      <Text style={styles.emptyText}>似ている作品が見つかりませんでした</Text>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>似ている作品</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {items.map((item) => (
+          <View key={item.id} style={styles.item}>
+            <Image source={{ uri: item.imageUrl }} style={styles.image} />
+            <Text style={styles.similarity}>
+              類似度 {Math.round(item.similarity * 100)}%
+            </Text>
+            {item.style && (
+              <Text style={styles.style} numberOfLines={1}>
+                {item.style}
+              </Text>
+            )}
+          </View>
+        ))}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#fff",
+    marginBottom: 8,
+  },
+  item: {
+    width: 96,
+    marginRight: 8,
+  },
+  image: {
+    width: 96,
+    height: 96,
+    borderRadius: 8,
+    backgroundColor: "#333",
+  },
+  similarity: {
+    fontSize: 12,
+    color: "#4ade80",
+    marginTop: 4,
+  },
+  style: {
+    fontSize: 11,
+    color: "#aaa",
+  },
+  emptyText: {
+    fontSize: 13,
+    color: "#888",
+    marginTop: 12,
+  },
+});
+
+export default SimilarPortfolioStrip;
@@ -1,18 +1,22 @@
 import { useState, useCallback, useEffect } from "react";
 import { Alert } from "react-native";
+import {
+  BookingSlotConflict,
+  BookingStatus,
+  BookingTransitionReason,
+  CancellationPolicy,
+  doTimeRangesOverlap,
+  getBookingCancellationPolicy,
+  getBookingEndTime,
+  isActiveBookingStatus,
+} from "@tattoo-journey/shared";
 import BookingService, {
-  BookingRequest,
   BookingResponse,
+  BookingSlotConflictError,
 } from "../services/BookingService";
 import { useNotificationsMock } from "./useNotificationsMock";
 
-type BookingState =
-  | "idle"
-  | "requested"
-  | "pending"
-  | "confirmed"
-  | "completed"
-  | "cancelled";
+type BookingState = "idle" | BookingStatus;
 type ReviewState = "locked" | "unlocked" | "submitted";
 type LegalConsentState = "notAgreed" | "agreed";
 
@@ -24,20 +28,18 @@ interface BookingMachineState {
   error?: string;
   isLoading: boolean;
   visitedStudio: boolean;
+  // 同意前にお客様へ表示するアーティストのキャンセルポリシー（未取得なら undefined）
+  cancellationPolicy?: CancellationPolicy;
+  // アーティストが設定したポリシーそのもの（未設定なら null）
+  artistCancellationPolicy?: CancellationPolicy | null;
 }
 
 interface LegalConsent {
   version: string;
   timestamp: Date;
   agreementText: string;
-}
-
-interface BookingTransitionReason {
-  fromState: BookingState;
-  toState: BookingState;
-  reason: string;
-  timestamp: Date;
-  bookingId?: string;
+  cancellationPolicy: CancellationPolicy;
+  agreedCancellationPolicy: CancellationPolicy | null;
 }
 
 export interface UseBookingMachine {
@@ -50,13 +52,10 @@ export interface UseBookingMachine {
       requestData: any,
     ) => Promise<void>;
     acceptBooking: (bookingId: string) => Promise<void>;
+    // 料金・所要時間はアーティストの最新の見積もりで確定される
     confirmBooking: (
       bookingId: string,
-      details: {
-        confirmedDate: Date;
-        confirmedPrice: number;
-        confirmedDuration: number;
-      },
+      details: { confirmedDate: Date },
     ) => Promise<void>;
     cancelBooking: (bookingId: string, reason: string) => Promise<void>;
     completeBooking: (bookingId: string) => Promise<void>;
@@ -66,7 +65,8 @@ export interface UseBookingMachine {
     unlockReview: () => void;
     submitReview: (reviewData: any) => Promise<void>;
 
-    // Legal consent
+    // Legal consent (ポリシーの読み込み前は同意できない)
+    loadCancellationPolicy: (artistId: string) => Promise<CancellationPolicy>;
     agreeLegalTerms: (version: string, agreementText: string) => void;
 
     // State queries
@@ -83,8 +83,8 @@ export interface UseBookingMachine {
   competitorHandling: {
     handleConcurrentBooking: (
       bookingId: string,
-      competitorBookingId: string,
-    ) => Promise<void>;
+      conflicts: BookingSlotConflict[],
+    ) => Promise<Date[]>;
     suggestAlternativeSlots: (
       artistId: string,
       originalDate: Date,
@@ -114,20 +114,30 @@ export const useBookingMachine = (
   // Load saved states on mount
   useEffect(() => {
     const loadSavedStates = async () => {
+      if (!initialBookingId) return;
+
       try {
-        // In real implementation, load from AsyncStorage
-        // For now, we'll keep it in memory
+        // サーバー側の遷移履歴から現在の状態を復元
+        const history =
+          await BookingService.getTransitionHistory(initialBookingId);
+        if (history.length === 0) return;
+
+        setTransitionHistory(history);
+        setState((prev) => ({
+          ...prev,
+          bookingState: history[history.length - 1].toState,
+        }));
       } catch (error) {
         console.error("Failed to load saved booking states:", error);
       }
     };
     loadSavedStates();
-  }, []);
+  }, [initialBookingId]);
 
   const addTransition = useCallback(
     (
       fromState: BookingState,
-      toState: BookingState,
+      toState: BookingStatus,
       reason: string,
       bookingId?: string,
     ) => {
@@ -147,7 +157,7 @@ export const useBookingMachine = (
 
   const updateBookingState = useCallback(
     (
-      newState: BookingState,
+      newState: BookingStatus,
       reason: string,
       bookingId?: string,
       additionalUpdates?: Partial<BookingMachineState>,
@@ -167,6 +177,88 @@ export const useBookingMachine = (
     [addTransition],
   );
 
+  // Competitor Handling
+  const handleConcurrentBooking = useCallback(
+    async (
+      bookingId: string,
+      conflicts: BookingSlotConflict[],
+    ): Promise<Date[]> => {
+      console.log("⚡ Handling concurrent booking conflict:", {
+        bookingId,
+        conflicts,
+      });
+
+      // 先に確定した予約が優先。こちらには重複しない代替枠を提案する
+      try {
+        const booking = await BookingService.getBookingRequest(bookingId);
+        if (!booking) return [];
+
+        const duration = booking.confirmedDuration || booking.estimatedDuration;
+        const available = await BookingService.findAvailableSlots(
+          booking.artistId,
+          booking.preferredDate,
+          duration,
+          booking.alternativeDates,
+        );
+
+        const alternatives = available
+          .flatMap((day) => day.slots.map((slot) => slot.startTime))
+          .filter((startTime) => {
+            const endTime = getBookingEndTime(startTime, duration);
+            return !conflicts.some((conflict) =>
+              doTimeRangesOverlap(
+                startTime,
+                endTime,
+                conflict.startTime,
+                conflict.endTime,
+              ),
+            );
+          });
+
+        const takenAt = conflicts[0]?.startTime.toLocaleString("ja-JP");
+        showNotification({
+          type: "warning",
+          title: "予約競合発生",
+          message: takenAt
+            ? `${takenAt} の枠は既に予約されています。${
+                alternatives.length > 0
+                  ? "代替案を提案します。"
+                  : "別の日時をご相談ください。"
+              }`
+            : "他の予約と競合しました。別の日時をご相談ください。",
+        });
+
+        console.log("🔄 Alternative slots suggested:", alternatives);
+        return alternatives;
+      } catch (error) {
+        console.error("Error handling concurrent booking:", error);
+        return [];
+      }
+    },
+    [showNotification],
+  );
+
+  const suggestAlternativeSlots = useCallback(
+    async (artistId: string, originalDate: Date): Promise<Date[]> => {
+      try {
+        const alternatives = await BookingService.findAvailableSlots(
+          artistId,
+          originalDate,
+          60, // Default 1 hour
+          [],
+        );
+
+        return alternatives.flatMap((slot) =>
+          slot.slots.map((s) => s.startTime),
+        );
+      } catch (error) {
+        console.error("Error suggesting alternative slots:", error);
+        return [];
+      }
+    },
+    [],
+  );
+
   // Booking State Transitions
   const createBookingRequest = useCallback(
     async (customerId: string, artistId: string, requestData: any) => {
@@ -176,16 +268,25 @@ export const useBookingMachine = (
         );
       }
 
+      if (state.legalConsentState !== "agreed" || !legalConsent) {
+        throw new Error("Cancellation policy must be agreed before booking");
+      }
+
       setState((prev) => ({ ...prev, isLoading: true }));
 
       try {
+        // 同意したポリシーが確定時に予約へ適用される
         const bookingId = await BookingService.createBookingRequest(
           customerId,
           artistId,
-          requestData,
+          {
+            ...requestData,
+            agreedCancellationPolicy: legalConsent.agreedCancellationPolicy,
+            cancellationPolicyAgreedAt: legalConsent.timestamp,
+          },
         );
 
-        updateBookingState("requested", "予約リクエストを作成", bookingId, {
+        updateBookingState("pending", "予約リクエストを作成", bookingId, {
           isLoading: false,
         });
 
@@ -194,11 +295,6 @@ export const useBookingMachine = (
           title: "予約リクエスト送信完了",
           message: "アーティストからの返答をお待ちください",
         });
-
-        // Auto-transition to pending after request is sent
-        setTimeout(() => {
-          updateBookingState("pending", "予約承認待ち状態に移行", bookingId);
-        }, 1000);
       } catch (error) {
         setState((prev) => ({
           ...prev,
@@ -215,7 +311,13 @@ export const useBookingMachine = (
         throw error;
       }
     },
-    [state.bookingState, updateBookingState, showNotification],
+    [
+      state.bookingState,
+      state.legalConsentState,
+      legalConsent,
+      updateBookingState,
+      showNotification,
+    ],
   );
 
   const acceptBooking = useCallback(
@@ -243,7 +345,7 @@ export const useBookingMachine = (
           response,
         );
 
-        updateBookingState("confirmed", "予約が承認されました", bookingId, {
+        updateBookingState("accepted", "予約が承認されました", bookingId, {
           isLoading: false,
         });
 
@@ -272,15 +374,8 @@ export const useBookingMachine = (
   );
 
   const confirmBooking = useCallback(
-    async (
-      bookingId: string,
-      details: {
-        confirmedDate: Date;
-        confirmedPrice: number;
-        confirmedDuration: number;
-      },
-    ) => {
-      if (!["pending", "requested"].includes(state.bookingState)) {
+    async (bookingId: string, details: { confirmedDate: Date }) => {
+      if (state.bookingState !== "accepted") {
         throw new Error(
           `Cannot confirm booking from state: ${state.bookingState}`,
         );
@@ -289,12 +384,7 @@ export const useBookingMachine = (
       setState((prev) => ({ ...prev, isLoading: true }));
 
       try {
-        await BookingService.confirmBooking(
-          bookingId,
-          details.confirmedDate,
-          details.confirmedPrice,
-          details.confirmedDuration,
-        );
+        await BookingService.confirmBooking(bookingId, details.confirmedDate);
 
         updateBookingState("confirmed", "予約が確定されました", bookingId, {
           isLoading: false,
@@ -312,21 +402,34 @@ export const useBookingMachine = (
           error: `予約確定に失敗しました: ${error}`,
         }));
 
-        showNotification({
-          type: "error",
-          title: "予約確定エラー",
-          message: "もう一度お試しください",
-        });
+        if (error instanceof BookingSlotConflictError) {
+          // 競合は代替枠の提案で通知する
+          await handleConcurrentBooking(bookingId, error.conflicts);
+        } else {
+          showNotification({
+            type: "error",
+            title: "予約確定エラー",
+            message: "もう一度お試しください",
+          });
+        }
 
         throw error;
       }
     },
-    [state.bookingState, updateBookingState, showNotification],
+    [
+      state.bookingState,
+      updateBookingState,
+      showNotification,
+      handleConcurrentBooking,
+    ],
   );
 
   const cancelBooking = useCallback(
     async (bookingId: string, reason: string) => {
-      if (!["requested", "pending", "confirmed"].includes(state.bookingState)) {
+      if (
+        state.bookingState === "idle" ||
+        !isActiveBookingStatus(state.bookingState)
+      ) {
         throw new Error(
           `Cannot cancel booking from state: ${state.bookingState}`,
         );
@@ -335,7 +438,7 @@ export const useBookingMachine = (
       setState((prev) => ({ ...prev, isLoading: true }));
 
       try {
-        await BookingService.cancelBooking(bookingId, "user", reason);
+        await BookingService.cancelBooking(bookingId, reason);
 
         updateBookingState(
           "cancelled",
@@ -381,7 +484,7 @@ export const useBookingMachine = (
       setState((prev) => ({ ...prev, isLoading: true }));
 
       try {
-        await BookingService.completeBooking(bookingId, "system");
+        await BookingService.completeBooking(bookingId);
 
         updateBookingState("completed", "施術が完了しました", bookingId, {
           isLoading: false,
@@ -480,12 +583,40 @@ export const useBookingMachine = (
   );
 
   // Legal Consent
+  const loadCancellationPolicy = useCallback(async (artistId: string) => {
+    const artistCancellationPolicy =
+      await BookingService.getArtistCancellationPolicy(artistId);
+    const cancellationPolicy = getBookingCancellationPolicy(
+      {},
+      artistCancellationPolicy,
+    );
+    setState((prev) => ({
+      ...prev,
+      cancellationPolicy,
+      artistCancellationPolicy,
+      // 別のアーティストのポリシーへの同意は引き継がない
+      legalConsentState: "notAgreed",
+    }));
+    setLegalConsent(null);
+    return cancellationPolicy;
+  }, []);
+
   const agreeLegalTerms = useCallback(
     (version: string, agreementText: string) => {
+      if (
+        !state.cancellationPolicy ||
+        state.artistCancellationPolicy === undefined
+      ) {
+        throw new Error("Cancellation policy has not been loaded");
+      }
+
+      // 表示したキャンセルポリシーも同意内容として記録する
       const consent: LegalConsent = {
         version,
         timestamp: new Date(),
         agreementText,
+        cancellationPolicy: state.cancellationPolicy,
+        agreedCancellationPolicy: state.artistCancellationPolicy,
       };
 
       setLegalConsent(consent);
@@ -496,7 +627,7 @@ export const useBookingMachine = (
 
       console.log("⚖️ Legal terms agreed:", consent);
     },
-    [],
+    [state.cancellationPolicy, state.artistCancellationPolicy],
   );
 
   // State Queries
@@ -507,74 +638,13 @@ export const useBookingMachine = (
   }, [state.bookingState, state.legalConsentState]);
 
   const canConfirmBooking = useCallback(() => {
-    return ["pending", "requested"].includes(state.bookingState);
+    return state.bookingState === "accepted";
   }, [state.bookingState]);
 
   const canWriteReview = useCallback(() => {
     return state.reviewState === "unlocked" && state.visitedStudio;
   }, [state.reviewState, state.visitedStudio]);
 
-  // Competitor Handling
-  const handleConcurrentBooking = useCallback(
-    async (bookingId: string, competitorBookingId: string) => {
-      console.log("⚡ Handling concurrent booking conflict:", {
-        bookingId,
-        competitorBookingId,
-      });
-
-      // Early bird gets the booking
-      // Other booking gets alternative suggestions
-      try {
-        const booking = await BookingService.getUserBookings(
-          "user-id",
-          "customer",
-        );
-        const currentBooking = booking.find((b) => b.id === bookingId);
-
-        if (!currentBooking) return;
-
-        const alternatives = await BookingService.findAvailableSlots(
-          currentBooking.artistId,
-          currentBooking.preferredDate,
-          currentBooking.estimatedDuration,
-          currentBooking.alternativeDates,
-        );
-
-        showNotification({
-          type: "warning",
-          title: "予約競合発生",
-          message: "他の予約と競合しました。代替案を提案します。",
-        });
-
-        console.log("🔄 Alternative slots suggested:", alternatives);
-      } catch (error) {
-        console.error("Error handling concurrent booking:", error);
-      }
-    },
-    [showNotification],
-  );
-
-  const suggestAlternativeSlots = useCallback(
-    async (artistId: string, originalDate: Date): Promise<Date[]> => {
-      try {
-        const alternatives = await BookingService.findAvailableSlots(
-          artistId,
-          originalDate,
-          60, // Default 1 hour
-          [],
-        );
-
-        return alternatives.flatMap((slot) =>
-          slot.slots.map((s) => s.startTime),
-        );
-      } catch (error) {
-        console.error("Error suggesting alternative slots:", error);
-        return [];
-      }
-    },
-    [],
-  );
-
   const getTransitionHistory = useCallback(() => {
     return transitionHistory;
   }, [transitionHistory]);
@@ -602,6 +672,7 @@ export const useBookingMachine = (
       markStudioVisited,
       unlockReview,
       submitReview,
+      loadCancellationPolicy,
       agreeLegalTerms,
       canCreateBooking,
       canConfirmBooking,
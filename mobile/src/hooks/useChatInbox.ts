@@ -0,0 +1,86 @@
+import { useState, useCallback, useEffect } from "react";
+import {
+  CHAT_INBOX_PAGE_SIZE,
+  ChatInboxEntry,
+  mergeChatInboxPages,
+} from "@tattoo-journey/shared";
+import ChatService from "../services/ChatService";
+
+interface UseChatInbox {
+  // 最新メッセージ順のルーム（読み込み済みのページすべて）
+  rooms: ChatInboxEntry[];
+  totalUnreadCount: number;
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  hasMore: boolean;
+  error: Error | null;
+  loadMore: () => Promise<void>;
+}
+
+/**
+ * ユーザーの受信箱
+ * 最新ページと未読総数はリアルタイム、古いページはスクロールに応じて取得
+ */
+export const useChatInbox = (userId?: string): UseChatInbox => {
+  const [latestPage, setLatestPage] = useState<ChatInboxEntry[]>([]);
+  const [olderPages, setOlderPages] = useState<ChatInboxEntry[]>([]);
+  const [totalUnreadCount, setTotalUnreadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const rooms = mergeChatInboxPages(latestPage, olderPages);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    setIsLoading(true);
+    setOlderPages([]);
+    setHasMore(true);
+
+    const unsubscribeInbox = ChatService.subscribeToInbox(
+      userId,
+      (entries) => {
+        setLatestPage(entries);
+        setHasMore((prev) => prev && entries.length >= CHAT_INBOX_PAGE_SIZE);
+        setError(null);
+        setIsLoading(false);
+      },
+      (inboxError) => {
+        setError(inboxError);
+        setIsLoading(false);
+      },
+    );
+    const unsubscribeUnread = ChatService.subscribeToUnreadTotal(
+      userId,
+      setTotalUnreadCount,
+    );
+
+    return () => {
+      unsubscribeInbox();
+      unsubscribeUnread();
+    };
+  }, [userId]);
+
+  const loadMore = useCallback(async () => {
+    const oldest = rooms[rooms.length - 1];
+    if (!userId || !oldest || !hasMore || isLoadingMore) return;
+
+    setIsLoadingMore(true);
+    const page = await ChatService.getInboxPage(userId, oldest);
+    setOlderPages((prev) => [...prev, ...page]);
+    setHasMore(page.length >= CHAT_INBOX_PAGE_SIZE);
+    setIsLoadingMore(false);
+  }, [userId, rooms, hasMore, isLoadingMore]);
+
+  return {
+    rooms,
+    totalUnreadCount,
+    isLoading,
+    isLoadingMore,
+    hasMore,
+    error,
+    loadMore,
+  };
+};
@@ -0,0 +1,35 @@
+import { useState, useEffect } from "react";
+import { ChatOutboxEntry } from "@tattoo-journey/shared";
+import ChatOutboxService from "../services/ChatOutboxService";
+
+interface UseChatOutbox {
+  // ルームの未送信メッセージ（送信待ち・送信中・送信失敗）
+  entries: ChatOutboxEntry[];
+  failedCount: number;
+  pendingCount: number;
+  retry: (clientMessageId: string) => Promise<void>;
+  retryAll: () => Promise<void>;
+  discard: (clientMessageId: string) => Promise<void>;
+}
+
+/**
+ * ルーム（省略時はすべて）の送信キュー
+ */
+export const useChatOutbox = (roomId?: string): UseChatOutbox => {
+  const [entries, setEntries] = useState<ChatOutboxEntry[]>([]);
+
+  useEffect(() => ChatOutboxService.subscribe(roomId, setEntries), [roomId]);
+
+  const failedCount = entries.filter(
+    (entry) => entry.status === "failed",
+  ).length;
+
+  return {
+    entries,
+    failedCount,
+    pendingCount: entries.length - failedCount,
+    retry: (clientMessageId) => ChatOutboxService.retry(clientMessageId),
+    retryAll: () => ChatOutboxService.retryAll(roomId),
+    discard: (clientMessageId) => ChatOutboxService.discard(clientMessageId),
+  };
+};
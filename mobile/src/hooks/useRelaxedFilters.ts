@@ -4,7 +4,7 @@ import MatchingService, {
   MatchingCriteria,
   ArtistMatch,
 } from "../services/MatchingService";
-import { TattooStyle, TattooSize } from "../types";
+import { AIAnalysisResult, TattooStyle, TattooSize } from "../types";
 import { useNotificationsMock } from "./useNotificationsMock";
 
 interface SearchFilters {
@@ -19,6 +19,15 @@ interface SearchFilters {
   experienceLevel: "any" | "junior" | "senior" | "master";
 }
 
+// 緩和しても変わらない検索の前提（デザイン解析と現在地）
+interface SearchContext {
+  customerAnalysis: AIAnalysisResult;
+  customerLocation: {
+    latitude: number;
+    longitude: number;
+  };
+}
+
 interface RelaxationLevel {
   level: number;
   name: string;
@@ -36,7 +45,10 @@ interface UseRelaxedFilters {
   lastSearchResults: ArtistMatch[];
 
   actions: {
-    setOriginalFilters: (filters: SearchFilters) => void;
+    setOriginalFilters: (
+      filters: SearchFilters,
+      context: SearchContext,
+    ) => void;
     applyRelaxation: (level: number) => Promise<ArtistMatch[]>;
     resetToOriginal: () => void;
     acceptRelaxedFilters: () => void;
@@ -106,6 +118,9 @@ export const useRelaxedFilters = (): UseRelaxedFilters => {
   const [currentFilters, setCurrentFilters] = useState<SearchFilters | null>(
     null,
   );
+  const [searchContext, setSearchContext] = useState<SearchContext | null>(
+    null,
+  );
   const [currentRelaxationLevel, setCurrentRelaxationLevel] = useState(0);
   const [isSearching, setIsSearching] = useState(false);
   const [lastSearchResults, setLastSearchResults] = useState<ArtistMatch[]>([]);
@@ -116,12 +131,16 @@ export const useRelaxedFilters = (): UseRelaxedFilters => {
   );
   const [acceptanceHistory, setAcceptanceHistory] = useState<boolean[]>([]);
 
-  const setFilters = useCallback((filters: SearchFilters) => {
-    setOriginalFilters(filters);
-    setCurrentFilters(filters);
-    setCurrentRelaxationLevel(0);
-    console.log("🔍 Original search filters set:", filters);
-  }, []);
+  const setFilters = useCallback(
+    (filters: SearchFilters, context: SearchContext) => {
+      setOriginalFilters(filters);
+      setSearchContext(context);
+      setCurrentFilters(filters);
+      setCurrentRelaxationLevel(0);
+      console.log("🔍 Original search filters set:", filters);
+    },
+    [],
+  );
 
   const calculateRelaxedFilters = useCallback(
     (original: SearchFilters, level: number): SearchFilters => {
@@ -194,7 +213,7 @@ export const useRelaxedFilters = (): UseRelaxedFilters => {
 
   const applyRelaxation = useCallback(
     async (level: number): Promise<ArtistMatch[]> => {
-      if (!originalFilters) {
+      if (!originalFilters || !searchContext) {
         throw new Error("No original filters set");
       }
 
@@ -216,15 +235,19 @@ export const useRelaxedFilters = (): UseRelaxedFilters => {
           return newStats;
         });
 
-        // Mock search with relaxed filters
-        // In real implementation, call actual search service
         console.log(
           "🔍 Searching with relaxed filters (level " + level + "):",
           relaxedFilters,
         );
 
-        const mockResults: ArtistMatch[] = generateMockSearchResults(level);
-        setLastSearchResults(mockResults);
+        const criteria: MatchingCriteria = {
+          ...searchContext,
+          maxDistance: relaxedFilters.maxDistance,
+          budgetRange: relaxedFilters.budgetRange,
+          preferredStyles: relaxedFilters.preferredStyles,
+        };
+        const results = await MatchingService.findMatchingArtists(criteria);
+        setLastSearchResults(results);
 
         // Show notification about relaxation
         if (level > 0) {
@@ -232,15 +255,15 @@ export const useRelaxedFilters = (): UseRelaxedFilters => {
           showNotification({
             type: "info",
             title: `${relaxation.icon} ${relaxation.name}`,
-            message: `${relaxation.description} で ${mockResults.length} 件見つかりました`,
+            message: `${relaxation.description} で ${results.length} 件見つかりました`,
           });
         }
 
         console.log(
-          `🎯 Relaxation level ${level} applied, found ${mockResults.length} results`,
+          `🎯 Relaxation level ${level} applied, found ${results.length} results`,
         );
 
-        return mockResults;
+        return results;
       } catch (error) {
         showNotification({
           type: "error",
@@ -253,7 +276,7 @@ export const useRelaxedFilters = (): UseRelaxedFilters => {
         setIsSearching(false);
       }
     },
-    [originalFilters, calculateRelaxedFilters, showNotification],
+    [originalFilters, searchContext, calculateRelaxedFilters, showNotification],
   );
 
   const resetToOriginal = useCallback(() => {
@@ -368,48 +391,3 @@ export const useRelaxedFilters = (): UseRelaxedFilters => {
     },
   };
 };
-
-// Mock function to simulate search results based on relaxation level
-function generateMockSearchResults(level: number): ArtistMatch[] {
-  const baseCount = Math.max(0, level * 2 - 1); // 0, 1, 3, 5, 7, 9
-  const results: ArtistMatch[] = [];
-
-  for (let i = 0; i < baseCount + Math.floor(Math.random() * 3); i++) {
-    results.push({
-      artist: {
-        uid: `artist-${i}`,
-        email: `artist${i}@example.com`,
-        displayName: `アーティスト ${i + 1}`,
-        userType: "artist",
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        profile: {
-          firstName: `名前${i + 1}`,
-          lastName: `苗字${i + 1}`,
-          location: {
-            address: `住所${i + 1}`,
-            city: "東京",
-            prefecture: "東京都",
-            postalCode: "100-0001",
-            latitude: 35.6762 + Math.random() * 0.1,
-            longitude: 139.6503 + Math.random() * 0.1,
-          },
-        },
-      },
-      matchScore: Math.max(0.3, 1 - level * 0.1 + Math.random() * 0.3),
-      breakdown: {
-        designScore: Math.random() * 0.4,
-        artistScore: Math.random() * 0.3,
-        priceScore: Math.random() * 0.2,
-        distanceScore: Math.random() * 0.1,
-      },
-      compatibility: Math.random(),
-      distance: Math.random() * (5 + level * 2),
-      estimatedPrice: 15000 + Math.random() * 50000,
-      topPortfolioMatches: [],
-      matchReasons: [`緩和レベル${level}での結果`],
-    } as ArtistMatch);
-  }
-
-  return results;
-}
@@ -387,6 +387,8 @@ const ArtistScoreDashboard: React.FC<Props> = ({ route, navigation }) => {
                       {entry.trigger === "review_added" && "📝 レビュー追加"}
                       {entry.trigger === "review_updated" && "✏️ レビュー更新"}
                       {entry.trigger === "booking_completed" && "✅ 予約完了"}
+                      {entry.trigger === "booking_cancelled" &&
+                        "❌ 予約キャンセル"}
                       {entry.trigger === "manual_update" && "🔄 手動更新"}
                     </Text>
                   </View>
@@ -431,6 +433,11 @@ const ArtistScoreDashboard: React.FC<Props> = ({ route, navigation }) => {
                   • 予約完了率を上げることでスコアが向上します
                 </Text>
               )}
+              {(scoreMetrics.lateCancellationRate || 0) > 0.1 && (
+                <Text style={styles.improvementItem}>
+                  • 直前のキャンセルを減らすことでお客様の信頼が高まります
+                </Text>
+              )}
               {Object.values(scoreMetrics.categoryScores).some(
                 (score) => score < 4.0,
               ) && (
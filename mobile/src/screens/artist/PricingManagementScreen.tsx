@@ -11,7 +11,15 @@ import {
   Modal,
 } from "react-native";
 import firestore from "@react-native-firebase/firestore";
+import {
+  CancellationPolicy,
+  DEFAULT_CANCELLATION_POLICY,
+  DEFAULT_DEPOSIT_REQUIREMENT,
+  DepositRequirement,
+  isValidCancellationPolicy,
+} from "@tattoo-journey/shared";
 import { useAuth } from "../../contexts/AuthContext";
+import CancellationPolicyEditor from "../../features/booking/CancellationPolicyEditor";
 
 interface PricingRule {
   id: string;
@@ -28,6 +36,12 @@ interface PricingRule {
   updatedAt: Date;
 }
 
+const DEPOSIT_TYPE_LABELS: Record<DepositRequirement["type"], string> = {
+  none: "なし",
+  fixed: "固定額",
+  percentage: "料金の割合",
+};
+
 interface SizePricing {
   small: number; // 5cm以下
   medium: number; // 5-15cm
@@ -46,6 +60,12 @@ const PricingManagementScreen: React.FC = () => {
   const [hourlyRate, setHourlyRate] = useState<string>("");
   const [consultationFee, setConsultationFee] = useState<string>("");
   const [touchUpFee, setTouchUpFee] = useState<string>("");
+  const [depositType, setDepositType] = useState<DepositRequirement["type"]>(
+    DEFAULT_DEPOSIT_REQUIREMENT.type,
+  );
+  const [depositValue, setDepositValue] = useState<string>("");
+  const [cancellationPolicy, setCancellationPolicy] =
+    useState<CancellationPolicy>(DEFAULT_CANCELLATION_POLICY);
   const [customRules, setCustomRules] = useState<PricingRule[]>([]);
   const [modalVisible, setModalVisible] = useState(false);
   const [newRule, setNewRule] = useState({
@@ -85,6 +105,20 @@ const PricingManagementScreen: React.FC = () => {
           setHourlyRate(artistInfo.hourlyRate?.toString() || "");
           setConsultationFee(artistInfo.consultationFee?.toString() || "");
           setTouchUpFee(artistInfo.touchUpFee?.toString() || "");
+
+          const depositRequirement: DepositRequirement =
+            artistInfo.depositRequirement || DEFAULT_DEPOSIT_REQUIREMENT;
+          setDepositType(depositRequirement.type);
+          setDepositValue(
+            depositRequirement.type === "none"
+              ? ""
+              : depositRequirement.value.toString(),
+          );
+          setCancellationPolicy(
+            isValidCancellationPolicy(artistInfo.cancellationPolicy)
+              ? artistInfo.cancellationPolicy
+              : DEFAULT_CANCELLATION_POLICY,
+          );
         }
       }
 
@@ -111,6 +145,27 @@ const PricingManagementScreen: React.FC = () => {
   const saveSizePricing = async () => {
     if (!userProfile?.uid) return;
 
+    const depositAmount = parseFloat(depositValue) || 0;
+    if (
+      depositType !== "none" &&
+      (depositAmount <= 0 ||
+        (depositType === "percentage" && depositAmount > 100))
+    ) {
+      Alert.alert(
+        "エラー",
+        "デポジットは正の金額、または1〜100%で入力してください",
+      );
+      return;
+    }
+
+    if (!isValidCancellationPolicy(cancellationPolicy)) {
+      Alert.alert(
+        "エラー",
+        "キャンセルポリシーの返金率は0〜100%で入力してください",
+      );
+      return;
+    }
+
     try {
       const updatedProfile = {
         ...userProfile.profile,
@@ -120,6 +175,11 @@ const PricingManagementScreen: React.FC = () => {
           hourlyRate: parseFloat(hourlyRate) || 0,
           consultationFee: parseFloat(consultationFee) || 0,
           touchUpFee: parseFloat(touchUpFee) || 0,
+          depositRequirement: {
+            type: depositType,
+            value: depositType === "none" ? 0 : depositAmount,
+          },
+          cancellationPolicy,
         },
       };
 
@@ -328,6 +388,66 @@ const PricingManagementScreen: React.FC = () => {
           </View>
         </View>
 
+        {/* デポジット */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>デポジット</Text>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>予約確定時のデポジット</Text>
+            <View style={styles.depositTypeRow}>
+              {(
+                Object.keys(DEPOSIT_TYPE_LABELS) as DepositRequirement["type"][]
+              ).map((type) => (
+                <TouchableOpacity
+                  key={type}
+                  style={[
+                    styles.depositTypeChip,
+                    depositType === type && styles.depositTypeChipActive,
+                  ]}
+                  onPress={() => setDepositType(type)}
+                >
+                  <Text style={styles.depositTypeChipText}>
+                    {DEPOSIT_TYPE_LABELS[type]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          {depositType !== "none" && (
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>
+                {depositType === "fixed" ? "金額 (¥)" : "割合 (%)"}
+              </Text>
+              <TextInput
+                style={styles.input}
+                value={depositValue}
+                onChangeText={setDepositValue}
+                placeholder={depositType === "fixed" ? "10000" : "30"}
+                placeholderTextColor="#666"
+                keyboardType="numeric"
+              />
+              <Text style={styles.helperText}>
+                キャンセル時の返金条件は下のキャンセルポリシーで設定できます
+              </Text>
+            </View>
+          )}
+        </View>
+
+        {/* キャンセルポリシー */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>キャンセルポリシー</Text>
+          <View style={styles.inputGroup}>
+            <Text style={styles.helperText}>
+              予約確定時のポリシーがその予約に適用され、お客様に表示されます
+            </Text>
+          </View>
+          <CancellationPolicyEditor
+            policy={cancellationPolicy}
+            onChange={setCancellationPolicy}
+          />
+        </View>
+
         <TouchableOpacity style={styles.saveButton} onPress={saveSizePricing}>
           <Text style={styles.saveButtonText}>基本料金を保存</Text>
         </TouchableOpacity>
@@ -598,6 +718,27 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     gap: 8,
   },
+  depositTypeRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  depositTypeChip: {
+    backgroundColor: "#2a2a2a",
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderColor: "#333",
+  },
+  depositTypeChipActive: {
+    backgroundColor: "#ff6b6b",
+    borderColor: "#ff6b6b",
+  },
+  depositTypeChipText: {
+    color: "#fff",
+    fontSize: 14,
+    fontWeight: "500",
+  },
   toggleButton: {
     borderRadius: 6,
     paddingHorizontal: 8,
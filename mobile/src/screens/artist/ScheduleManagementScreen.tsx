@@ -9,10 +9,24 @@ import {
   Alert,
   Modal,
   FlatList,
+  Switch,
 } from "react-native";
 import DateTimePicker from "@react-native-community/datetimepicker";
 import firestore from "@react-native-firebase/firestore";
+import {
+  AvailabilityException,
+  AvailabilityExceptionType,
+  DEFAULT_BUFFER_MINUTES,
+  DEFAULT_SLOT_INTERVAL_MINUTES,
+  WeeklyAvailabilityTemplate,
+  Weekday,
+  WorkingHours,
+  getWorkingHoursForDate,
+  isValidWorkingHours,
+  toDateKey,
+} from "@tattoo-journey/shared";
 import { useAuth } from "../../contexts/AuthContext";
+import BookingService from "../../services/BookingService";
 
 interface ScheduleSlot {
   id: string;
@@ -36,6 +50,40 @@ interface BookedSlot {
   createdAt: Date;
 }
 
+const WEEKDAYS: { day: Weekday; label: string }[] = [
+  { day: 1, label: "月" },
+  { day: 2, label: "火" },
+  { day: 3, label: "水" },
+  { day: 4, label: "木" },
+  { day: 5, label: "金" },
+  { day: 6, label: "土" },
+  { day: 0, label: "日" },
+];
+
+const EXCEPTION_TYPE_LABELS: Record<AvailabilityExceptionType, string> = {
+  holiday: "祝日",
+  closed: "休業",
+  custom_hours: "時間変更",
+  extended_hours: "営業延長",
+};
+
+const BUFFER_OPTIONS = [0, 15, 30, 60];
+
+const DEFAULT_WORKING_HOURS: WorkingHours = { start: "10:00", end: "18:00" };
+
+const toTimeOfDay = (date: Date) =>
+  `${String(date.getHours()).padStart(2, "0")}:${String(
+    date.getMinutes(),
+  ).padStart(2, "0")}`;
+
+// 時刻ピッカーは "HH:mm" の入力にだけ使うので端末のローカル時刻で扱う
+const fromTimeOfDay = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  const date = new Date();
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+};
+
 const ScheduleManagementScreen: React.FC = () => {
   const { userProfile } = useAuth();
   const [scheduleSlots, setScheduleSlots] = useState<ScheduleSlot[]>([]);
@@ -48,6 +96,29 @@ const ScheduleManagementScreen: React.FC = () => {
   const [showStartTimePicker, setShowStartTimePicker] = useState(false);
   const [showEndTimePicker, setShowEndTimePicker] = useState(false);
   const [selectedWeek, setSelectedWeek] = useState(new Date());
+  const [template, setTemplate] = useState<WeeklyAvailabilityTemplate | null>(
+    null,
+  );
+  const [exceptions, setExceptions] = useState<AvailabilityException[]>([]);
+  const [templateModalVisible, setTemplateModalVisible] = useState(false);
+  const [draftWeeklyHours, setDraftWeeklyHours] = useState<
+    WeeklyAvailabilityTemplate["weeklyHours"]
+  >({});
+  const [draftBufferMinutes, setDraftBufferMinutes] = useState(
+    DEFAULT_BUFFER_MINUTES,
+  );
+  const [exceptionModalVisible, setExceptionModalVisible] = useState(false);
+  const [exceptionDate, setExceptionDate] = useState(new Date());
+  const [exceptionType, setExceptionType] =
+    useState<AvailabilityExceptionType>("holiday");
+  const [exceptionHours, setExceptionHours] = useState<WorkingHours>(
+    DEFAULT_WORKING_HOURS,
+  );
+  const [showExceptionDatePicker, setShowExceptionDatePicker] = useState(false);
+  const [activeTimePicker, setActiveTimePicker] = useState<{
+    value: string;
+    onSelect: (time: string) => void;
+  } | null>(null);
 
   useEffect(() => {
     loadScheduleData();
@@ -96,8 +167,19 @@ const ScheduleManagementScreen: React.FC = () => {
         })) as BookedSlot[];
       }
 
+      const [availabilityTemplate, weekExceptions] = await Promise.all([
+        BookingService.getAvailabilityTemplate(userProfile.uid),
+        BookingService.getAvailabilityExceptions(
+          userProfile.uid,
+          weekStart,
+          weekEnd,
+        ),
+      ]);
+
       setScheduleSlots(slots);
       setBookedSlots(bookings);
+      setTemplate(availabilityTemplate);
+      setExceptions(weekExceptions);
     } catch (error) {
       console.error("Error loading schedule data:", error);
     }
@@ -203,6 +285,103 @@ const ScheduleManagementScreen: React.FC = () => {
     }
   };
 
+  const openTemplateEditor = () => {
+    setDraftWeeklyHours(template?.weeklyHours || {});
+    setDraftBufferMinutes(template?.bufferMinutes ?? DEFAULT_BUFFER_MINUTES);
+    setTemplateModalVisible(true);
+  };
+
+  const toggleWeekday = (day: Weekday, enabled: boolean) => {
+    setDraftWeeklyHours((prev) => ({
+      ...prev,
+      [day]: enabled ? [DEFAULT_WORKING_HOURS] : [],
+    }));
+  };
+
+  const updateWeekdayHours = (
+    day: Weekday,
+    field: keyof WorkingHours,
+    time: string,
+  ) => {
+    setDraftWeeklyHours((prev) => {
+      const [current = DEFAULT_WORKING_HOURS, ...rest] = prev[day] || [];
+      return { ...prev, [day]: [{ ...current, [field]: time }, ...rest] };
+    });
+  };
+
+  const saveTemplate = async () => {
+    if (!userProfile?.uid) return;
+
+    const allHours = Object.values(draftWeeklyHours).flat();
+    if (!allHours.every((hours) => isValidWorkingHours(hours))) {
+      Alert.alert("エラー", "終了時間は開始時間より後に設定してください");
+      return;
+    }
+
+    try {
+      await BookingService.saveAvailabilityTemplate({
+        artistId: userProfile.uid,
+        weeklyHours: draftWeeklyHours,
+        slotIntervalMinutes:
+          template?.slotIntervalMinutes ?? DEFAULT_SLOT_INTERVAL_MINUTES,
+        bufferMinutes: draftBufferMinutes,
+      });
+
+      setTemplateModalVisible(false);
+      loadScheduleData();
+      Alert.alert("成功", "週間スケジュールを保存しました");
+    } catch (error) {
+      Alert.alert("エラー", "週間スケジュールの保存に失敗しました");
+      console.error("Error saving availability template:", error);
+    }
+  };
+
+  const addException = async () => {
+    if (!userProfile?.uid) return;
+
+    const needsHours =
+      exceptionType === "custom_hours" || exceptionType === "extended_hours";
+    if (needsHours && !isValidWorkingHours(exceptionHours)) {
+      Alert.alert("エラー", "終了時間は開始時間より後に設定してください");
+      return;
+    }
+
+    try {
+      await BookingService.saveAvailabilityException({
+        artistId: userProfile.uid,
+        date: exceptionDate,
+        type: exceptionType,
+        hours: needsHours ? [exceptionHours] : undefined,
+      });
+
+      setExceptionModalVisible(false);
+      loadScheduleData();
+      Alert.alert("成功", "例外日が登録されました");
+    } catch (error) {
+      Alert.alert("エラー", "例外日の登録に失敗しました");
+      console.error("Error adding availability exception:", error);
+    }
+  };
+
+  const deleteException = (exception: AvailabilityException) => {
+    Alert.alert("削除確認", "この例外日を削除しますか？", [
+      { text: "キャンセル", style: "cancel" },
+      {
+        text: "削除",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await BookingService.deleteAvailabilityException(exception.id);
+            loadScheduleData();
+          } catch (error) {
+            Alert.alert("エラー", "削除に失敗しました");
+            console.error("Error deleting availability exception:", error);
+          }
+        },
+      },
+    ]);
+  };
+
   const changeWeek = (direction: "prev" | "next") => {
     const newWeek = new Date(selectedWeek);
     newWeek.setDate(selectedWeek.getDate() + (direction === "next" ? 7 : -7));
@@ -259,6 +438,56 @@ const ScheduleManagementScreen: React.FC = () => {
     );
   };
 
+  const renderWeeklyAvailability = () => {
+    if (!template && exceptions.length === 0) {
+      return (
+        <View style={styles.dayContainer}>
+          <Text style={styles.dayHeader}>営業時間</Text>
+          <Text style={styles.noSlotsText}>
+            週間スケジュールを設定すると予約枠が自動で公開されます
+          </Text>
+        </View>
+      );
+    }
+
+    const weekStart = getWeekStart(selectedWeek);
+
+    return (
+      <View style={styles.dayContainer}>
+        <Text style={styles.dayHeader}>営業時間</Text>
+        {Array.from({ length: 7 }, (_, index) => {
+          const date = new Date(weekStart);
+          date.setDate(weekStart.getDate() + index);
+
+          const exception = exceptions.find((e) => e.date === toDateKey(date));
+          const hours = getWorkingHoursForDate(template, exceptions, date);
+
+          return (
+            <TouchableOpacity
+              key={toDateKey(date)}
+              style={styles.availabilityRow}
+              disabled={!exception}
+              onLongPress={() => exception && deleteException(exception)}
+            >
+              <Text style={styles.availabilityDay}>{formatDate(date)}</Text>
+              <Text
+                style={[
+                  styles.availabilityHours,
+                  hours.length === 0 && styles.unavailableText,
+                ]}
+              >
+                {hours.length > 0
+                  ? hours.map((h) => `${h.start} - ${h.end}`).join(", ")
+                  : "休業"}
+                {exception ? ` (${EXCEPTION_TYPE_LABELS[exception.type]})` : ""}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    );
+  };
+
   const renderDaySchedule = ({ item }: { item: [string, ScheduleSlot[]] }) => {
     const [dateKey, slots] = item;
     const date = new Date(dateKey);
@@ -316,6 +545,21 @@ const ScheduleManagementScreen: React.FC = () => {
         >
           <Text style={styles.addButtonText}>+ 予約枠を追加</Text>
         </TouchableOpacity>
+
+        <View style={styles.availabilityActions}>
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={openTemplateEditor}
+          >
+            <Text style={styles.secondaryButtonText}>週間スケジュール</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => setExceptionModalVisible(true)}
+          >
+            <Text style={styles.secondaryButtonText}>休業日・例外日</Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
       <FlatList
@@ -324,6 +568,7 @@ const ScheduleManagementScreen: React.FC = () => {
         keyExtractor={([dateKey]) => dateKey}
         style={styles.scheduleList}
         showsVerticalScrollIndicator={false}
+        ListHeaderComponent={renderWeeklyAvailability()}
         ListEmptyComponent={
           <View style={styles.emptyState}>
             <Text style={styles.emptyStateText}>
@@ -399,6 +644,238 @@ const ScheduleManagementScreen: React.FC = () => {
         </View>
       </Modal>
 
+      <Modal
+        animationType="slide"
+        transparent={true}
+        visible={templateModalVisible}
+        onRequestClose={() => setTemplateModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>週間スケジュール</Text>
+
+            <ScrollView style={styles.templateList}>
+              {WEEKDAYS.map(({ day, label }) => {
+                const hours = draftWeeklyHours[day]?.[0];
+
+                return (
+                  <View key={day} style={styles.weekdayRow}>
+                    <Text style={styles.weekdayLabel}>{label}</Text>
+                    <Switch
+                      value={!!hours}
+                      onValueChange={(enabled) => toggleWeekday(day, enabled)}
+                    />
+                    {hours ? (
+                      <View style={styles.weekdayHours}>
+                        <TouchableOpacity
+                          style={styles.weekdayTimeButton}
+                          onPress={() =>
+                            setActiveTimePicker({
+                              value: hours.start,
+                              onSelect: (time) =>
+                                updateWeekdayHours(day, "start", time),
+                            })
+                          }
+                        >
+                          <Text style={styles.timeButtonText}>
+                            {hours.start}
+                          </Text>
+                        </TouchableOpacity>
+                        <Text style={styles.timeSeparator}>-</Text>
+                        <TouchableOpacity
+                          style={styles.weekdayTimeButton}
+                          onPress={() =>
+                            setActiveTimePicker({
+                              value: hours.end,
+                              onSelect: (time) =>
+                                updateWeekdayHours(day, "end", time),
+                            })
+                          }
+                        >
+                          <Text style={styles.timeButtonText}>{hours.end}</Text>
+                        </TouchableOpacity>
+                      </View>
+                    ) : (
+                      <Text style={styles.weekdayClosedText}>休業</Text>
+                    )}
+                  </View>
+                );
+              })}
+
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>施術間のインターバル</Text>
+                <View style={styles.optionRow}>
+                  {BUFFER_OPTIONS.map((minutes) => (
+                    <TouchableOpacity
+                      key={minutes}
+                      style={[
+                        styles.optionChip,
+                        draftBufferMinutes === minutes &&
+                          styles.optionChipSelected,
+                      ]}
+                      onPress={() => setDraftBufferMinutes(minutes)}
+                    >
+                      <Text style={styles.optionChipText}>{minutes}分</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            </ScrollView>
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.cancelButton]}
+                onPress={() => setTemplateModalVisible(false)}
+              >
+                <Text style={styles.cancelButtonText}>キャンセル</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.modalButton, styles.saveButton]}
+                onPress={saveTemplate}
+              >
+                <Text style={styles.saveButtonText}>保存</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        animationType="slide"
+        transparent={true}
+        visible={exceptionModalVisible}
+        onRequestClose={() => setExceptionModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>休業日・例外日を追加</Text>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>日付</Text>
+              <TouchableOpacity
+                style={styles.dateButton}
+                onPress={() => setShowExceptionDatePicker(true)}
+              >
+                <Text style={styles.dateButtonText}>
+                  {exceptionDate.toLocaleDateString("ja-JP")}
+                </Text>
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>種類</Text>
+              <View style={styles.optionRow}>
+                {(
+                  Object.keys(
+                    EXCEPTION_TYPE_LABELS,
+                  ) as AvailabilityExceptionType[]
+                ).map((type) => (
+                  <TouchableOpacity
+                    key={type}
+                    style={[
+                      styles.optionChip,
+                      exceptionType === type && styles.optionChipSelected,
+                    ]}
+                    onPress={() => setExceptionType(type)}
+                  >
+                    <Text style={styles.optionChipText}>
+                      {EXCEPTION_TYPE_LABELS[type]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            {(exceptionType === "custom_hours" ||
+              exceptionType === "extended_hours") && (
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>
+                  {exceptionType === "custom_hours"
+                    ? "この日の営業時間"
+                    : "追加する営業時間"}
+                </Text>
+                <View style={styles.weekdayHours}>
+                  <TouchableOpacity
+                    style={styles.weekdayTimeButton}
+                    onPress={() =>
+                      setActiveTimePicker({
+                        value: exceptionHours.start,
+                        onSelect: (time) =>
+                          setExceptionHours((prev) => ({
+                            ...prev,
+                            start: time,
+                          })),
+                      })
+                    }
+                  >
+                    <Text style={styles.timeButtonText}>
+                      {exceptionHours.start}
+                    </Text>
+                  </TouchableOpacity>
+                  <Text style={styles.timeSeparator}>-</Text>
+                  <TouchableOpacity
+                    style={styles.weekdayTimeButton}
+                    onPress={() =>
+                      setActiveTimePicker({
+                        value: exceptionHours.end,
+                        onSelect: (time) =>
+                          setExceptionHours((prev) => ({ ...prev, end: time })),
+                      })
+                    }
+                  >
+                    <Text style={styles.timeButtonText}>
+                      {exceptionHours.end}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            )}
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.cancelButton]}
+                onPress={() => setExceptionModalVisible(false)}
+              >
+                <Text style={styles.cancelButtonText}>キャンセル</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.modalButton, styles.saveButton]}
+                onPress={addException}
+              >
+                <Text style={styles.saveButtonText}>追加</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {showExceptionDatePicker && (
+        <DateTimePicker
+          value={exceptionDate}
+          mode="date"
+          display="default"
+          onChange={(event, date) => {
+            setShowExceptionDatePicker(false);
+            if (date) setExceptionDate(date);
+          }}
+        />
+      )}
+
+      {activeTimePicker && (
+        <DateTimePicker
+          value={fromTimeOfDay(activeTimePicker.value)}
+          mode="time"
+          display="default"
+          onChange={(event, time) => {
+            const picker = activeTimePicker;
+            setActiveTimePicker(null);
+            if (time) picker.onSelect(toTimeOfDay(time));
+          }}
+        />
+      )}
+
       {showDatePicker && (
         <DateTimePicker
           value={selectedDate}
@@ -642,6 +1119,96 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "bold",
   },
+  availabilityActions: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 12,
+  },
+  secondaryButton: {
+    flex: 1,
+    backgroundColor: "#2a2a2a",
+    borderRadius: 12,
+    padding: 12,
+    alignItems: "center",
+    borderWidth: 1,
+    borderColor: "#ff6b6b",
+  },
+  secondaryButtonText: {
+    color: "#ff6b6b",
+    fontSize: 14,
+    fontWeight: "bold",
+  },
+  availabilityRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 8,
+  },
+  availabilityDay: {
+    color: "#fff",
+    fontSize: 14,
+  },
+  availabilityHours: {
+    color: "#4ade80",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  templateList: {
+    maxHeight: 420,
+  },
+  weekdayRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    marginBottom: 12,
+  },
+  weekdayLabel: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "600",
+    width: 24,
+  },
+  weekdayHours: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  weekdayTimeButton: {
+    backgroundColor: "#1a1a1a",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderColor: "#333",
+  },
+  weekdayClosedText: {
+    color: "#aaa",
+    fontSize: 14,
+  },
+  timeSeparator: {
+    color: "#aaa",
+    fontSize: 16,
+  },
+  optionRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  optionChip: {
+    backgroundColor: "#1a1a1a",
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderColor: "#333",
+  },
+  optionChipSelected: {
+    borderColor: "#ff6b6b",
+    backgroundColor: "#2d1f1f",
+  },
+  optionChipText: {
+    color: "#fff",
+    fontSize: 14,
+  },
 });
 
 export default ScheduleManagementScreen;
@@ -141,10 +141,14 @@ const TagAdjustmentScreen: React.FC = () => {
       // 既存のAI分析結果があるかチェック
       if (item.aiAnalysis && item.tags) {
         // 既存のデータを使用
+        const usualTags = userProfile?.uid
+          ? await AutoTaggingService.getUsualTags(userProfile.uid)
+          : [];
         setTaggingResult({
           automaticTags: item.tags,
           confidenceScores: (item as any).tagConfidenceScores || {},
           suggestedTags: (item as any).suggestedTags || [],
+          usualTags: usualTags.filter((tag) => !item.tags.includes(tag)),
           analysisData: item.aiAnalysis,
         });
         setAdjustedTags([...item.tags]);
@@ -153,6 +157,7 @@ const TagAdjustmentScreen: React.FC = () => {
         const result = await AutoTaggingService.tagPortfolioItem(
           item.id,
           item.imageUrl,
+          userProfile?.uid,
         );
         setTaggingResult(result);
         setAdjustedTags([...result.automaticTags]);
@@ -235,7 +240,7 @@ const TagAdjustmentScreen: React.FC = () => {
           createdAt: new Date(),
         });
 
-      // 学習データとして保存（将来のAI改善のため）
+      // 学習データとして保存（自動タグ付けの重みに反映される）
       await firestore()
         .collection("tagLearningData")
         .add({
@@ -249,6 +254,8 @@ const TagAdjustmentScreen: React.FC = () => {
             removed: removedTags,
             custom: addedTags.filter((tag) => !commonTags.includes(tag)),
           },
+          // 自動タグの初回確認か（変更なしの保存が採用率になる）
+          reviewsAutoTags: !selectedItem.lastManualTagAdjustment,
           createdAt: new Date(),
         });
 
@@ -314,7 +321,7 @@ const TagAdjustmentScreen: React.FC = () => {
         </View>
         <Text style={styles.adjustmentStatus}>
           {item.aiAnalysis ? "AI分析済み" : "未分析"}
-          {(item as any).lastManualTagAdjustment && " • 手動調整済み"}
+          {item.lastManualTagAdjustment && " • 手動調整済み"}
         </Text>
       </View>
     </TouchableOpacity>
@@ -418,6 +425,37 @@ const TagAdjustmentScreen: React.FC = () => {
             </View>
           )}
 
+          {taggingResult.usualTags.length > 0 && (
+            <View style={styles.tagsSection}>
+              <Text style={styles.sectionTitle}>いつも追加しているタグ</Text>
+              <View style={styles.tagsList}>
+                {taggingResult.usualTags.map((tag, index) => (
+                  <TouchableOpacity
+                    key={index}
+                    style={[
+                      styles.suggestedTag,
+                      adjustedTags.includes(tag)
+                        ? styles.selectedTag
+                        : styles.unselectedTag,
+                    ]}
+                    onPress={() => toggleTag(tag)}
+                  >
+                    <Text
+                      style={[
+                        styles.adjustableTagText,
+                        adjustedTags.includes(tag)
+                          ? styles.selectedTagText
+                          : styles.unselectedTagText,
+                      ]}
+                    >
+                      {tag}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          )}
+
           <View style={styles.tagsSection}>
             <Text style={styles.sectionTitle}>よく使用されるタグ</Text>
             <View style={styles.tagsList}>
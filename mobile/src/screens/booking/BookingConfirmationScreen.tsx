@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import {
   View,
   Text,
@@ -8,9 +8,18 @@ import {
   SafeAreaView,
   Alert,
   Modal,
+  Image,
 } from "react-native";
+import {
+  DEFAULT_DEPOSIT_REQUIREMENT,
+  getDepositAmount,
+  getQuotedBookingTerms,
+} from "@tattoo-journey/shared";
 import { useAuth } from "../../contexts/AuthContext";
 import BookingService, { BookingRequest } from "../../services/BookingService";
+import PaymentService, {
+  DepositRequirement,
+} from "../../services/PaymentService";
 
 interface Props {
   route: {
@@ -38,20 +47,44 @@ const BookingConfirmationScreen: React.FC<Props> = ({ route, navigation }) => {
   const { booking, proposedDate, proposedPrice, proposedDuration } =
     route.params;
 
+  // 確定時の料金・所要時間はアーティストの最新の見積もり（サーバー側と同じ）
+  const quotedTerms = getQuotedBookingTerms(booking);
+
   const [confirmationDetails, setConfirmationDetails] =
     useState<ConfirmationDetails>({
       finalDate: proposedDate || booking.preferredDate,
-      finalPrice: proposedPrice || booking.estimatedPrice,
-      finalDuration: proposedDuration || booking.estimatedDuration,
+      finalPrice:
+        quotedTerms?.price ?? (proposedPrice || booking.estimatedPrice),
+      finalDuration:
+        quotedTerms?.duration ??
+        (proposedDuration || booking.estimatedDuration),
       depositRequired: false,
       depositAmount: 0,
     });
 
+  const [depositRequirement, setDepositRequirement] =
+    useState<DepositRequirement>(DEFAULT_DEPOSIT_REQUIREMENT);
   const [isConfirming, setIsConfirming] = useState<boolean>(false);
   const [showConfirmModal, setShowConfirmModal] = useState<boolean>(false);
+  const [approvedDesign, setApprovedDesign] = useState<
+    BookingRequest["approvedDesign"]
+  >(booking.approvedDesign);
 
   const isArtist = userProfile?.userType === "artist";
 
+  useEffect(() => {
+    PaymentService.getDepositRequirement(booking.artistId).then(
+      setDepositRequirement,
+    );
+  }, [booking.artistId]);
+
+  useEffect(() => {
+    // 画面遷移後にチャットで承認されたデザインも反映する
+    BookingService.getBookingRequest(booking.id).then((latest) => {
+      if (latest?.approvedDesign) setApprovedDesign(latest.approvedDesign);
+    });
+  }, [booking.id]);
+
   const handleConfirmBooking = async (): Promise<void> => {
     if (!userProfile?.uid) return;
 
@@ -61,8 +94,6 @@ const BookingConfirmationScreen: React.FC<Props> = ({ route, navigation }) => {
       await BookingService.confirmBooking(
         booking.id,
         confirmationDetails.finalDate,
-        confirmationDetails.finalPrice,
-        confirmationDetails.finalDuration,
       );
 
       Alert.alert(
@@ -85,7 +116,8 @@ const BookingConfirmationScreen: React.FC<Props> = ({ route, navigation }) => {
   };
 
   const calculateDeposit = (): number => {
-    return Math.floor(confirmationDetails.finalPrice * 0.3); // 30%のデポジット
+    // アーティストのデポジット設定（確定時にサーバー側でも同じ計算）
+    return getDepositAmount(depositRequirement, confirmationDetails.finalPrice);
   };
 
   const formatDate = (date: Date): string => {
@@ -151,6 +183,32 @@ const BookingConfirmationScreen: React.FC<Props> = ({ route, navigation }) => {
           </View>
         </View>
 
+        {/* 承認済みデザイン */}
+        <View style={styles.designCard}>
+          <Text style={styles.cardTitle}>🖋️ 確定デザイン</Text>
+          {approvedDesign ? (
+            <>
+              <Image
+                source={{ uri: approvedDesign.imageUrl }}
+                style={styles.designImage}
+                resizeMode="contain"
+              />
+              <Text style={styles.designMeta}>
+                v{approvedDesign.designVersion} ・{" "}
+                {approvedDesign.approvedAt.toLocaleDateString("ja-JP")}{" "}
+                にお客様が承認
+              </Text>
+              {!!approvedDesign.note && (
+                <Text style={styles.notesText}>{approvedDesign.note}</Text>
+              )}
+            </>
+          ) : (
+            <Text style={styles.designPendingText}>
+              デザインはまだ承認されていません。予約チャットのデザイン案から確認できます。
+            </Text>
+          )}
+        </View>
+
         {/* 確定詳細 */}
         <View style={styles.detailsCard}>
           <Text style={styles.cardTitle}>📅 確定内容</Text>
@@ -185,10 +243,21 @@ const BookingConfirmationScreen: React.FC<Props> = ({ route, navigation }) => {
           {/* デポジット情報 */}
           <View style={styles.depositInfo}>
             <Text style={styles.depositTitle}>💳 支払い情報</Text>
+            {calculateDeposit() > 0 && (
+              <View style={styles.depositRow}>
+                <Text style={styles.depositLabel}>デポジット:</Text>
+                <Text style={styles.depositValue}>
+                  ¥{calculateDeposit().toLocaleString()}
+                </Text>
+              </View>
+            )}
             <View style={styles.depositRow}>
               <Text style={styles.depositLabel}>当日支払い:</Text>
               <Text style={styles.depositValue}>
-                ¥{confirmationDetails.finalPrice.toLocaleString()}
+                ¥
+                {(
+                  confirmationDetails.finalPrice - calculateDeposit()
+                ).toLocaleString()}
               </Text>
             </View>
             <Text style={styles.depositNote}>
@@ -297,6 +366,12 @@ const BookingConfirmationScreen: React.FC<Props> = ({ route, navigation }) => {
               <Text style={styles.finalSummaryItem}>
                 💰 料金: ¥{confirmationDetails.finalPrice.toLocaleString()}
               </Text>
+              <Text style={styles.finalSummaryItem}>
+                🖋️ デザイン:{" "}
+                {approvedDesign
+                  ? `v${approvedDesign.designVersion}（承認済み）`
+                  : "未承認"}
+              </Text>
             </View>
 
             <View style={styles.modalActions}>
@@ -372,6 +447,30 @@ const styles = StyleSheet.create({
     padding: 16,
     marginBottom: 16,
   },
+  designCard: {
+    backgroundColor: "#2a2a2a",
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  designImage: {
+    width: "100%",
+    aspectRatio: 1,
+    borderRadius: 8,
+    backgroundColor: "#1a1a1a",
+    marginBottom: 8,
+  },
+  designMeta: {
+    fontSize: 14,
+    color: "#4ade80",
+    fontWeight: "600",
+    marginBottom: 4,
+  },
+  designPendingText: {
+    fontSize: 14,
+    color: "#aaa",
+    lineHeight: 20,
+  },
   allergyCard: {
     backgroundColor: "#2a2a2a",
     borderRadius: 12,
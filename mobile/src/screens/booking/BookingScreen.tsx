@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import {
   View,
   Text,
@@ -10,12 +10,23 @@ import {
   Alert,
   Dimensions,
 } from "react-native";
+import {
+  CancellationPolicy,
+  getBookingCancellationPolicy,
+} from "@tattoo-journey/shared";
 import { Button, Avatar, Tag, Toast } from "../../components/ui";
 import { DesignTokens } from "../../styles/DesignTokens";
 import { mockArtists, mockDesigns, currentUser } from "../../../mocks/fixtures";
+import { useAuth } from "../../contexts/AuthContext";
+import BookingService from "../../services/BookingService";
+import WaitlistJoinPanel from "../../features/booking/WaitlistJoinPanel";
+import CancellationPolicySummary from "../../features/booking/CancellationPolicySummary";
 
 const { width: SCREEN_WIDTH } = Dimensions.get("window");
 
+// 予約可能な枠を探す期間（翌日から）
+const SLOT_SEARCH_DAYS = 30;
+
 interface BookingScreenProps {
   route: {
     params: {
@@ -68,6 +79,54 @@ export const BookingScreen: React.FC<BookingScreenProps> = ({
 
   const [showToast, setShowToast] = useState(false);
   const [toastMessage, setToastMessage] = useState("");
+  // null: 未確認, false: 空き枠なし（キャンセル待ちを案内）
+  const [hasOpenSlots, setHasOpenSlots] = useState<boolean | null>(null);
+  const [waitlistEntryId, setWaitlistEntryId] = useState<string | null>(null);
+  // 予約前に同意するアーティストのキャンセルポリシー（null: 読み込み中）
+  const [cancellationPolicy, setCancellationPolicy] =
+    useState<CancellationPolicy | null>(null);
+  const [hasAgreedPolicy, setHasAgreedPolicy] = useState(false);
+  const { userProfile } = useAuth();
+
+  useEffect(() => {
+    setCancellationPolicy(null);
+    setHasAgreedPolicy(false);
+
+    BookingService.getArtistCancellationPolicy(artistId)
+      .then((policy) =>
+        setCancellationPolicy(getBookingCancellationPolicy({}, policy)),
+      )
+      .catch(() => {
+        setToastMessage("キャンセルポリシーを読み込めませんでした");
+        setShowToast(true);
+      });
+  }, [artistId]);
+
+  // 期間内の空き枠を一度の範囲検索で確認する
+  const checkOpenSlots = useCallback(
+    async (duration: number) => {
+      const start = new Date();
+      start.setDate(start.getDate() + 1);
+      start.setHours(0, 0, 0, 0);
+      const end = new Date(start);
+      end.setDate(start.getDate() + SLOT_SEARCH_DAYS - 1);
+
+      const results = await BookingService.getBookableSlots(
+        artistId,
+        start,
+        end,
+        duration * 60,
+      );
+      setHasOpenSlots(results.some((day) => day.slots.length > 0));
+    },
+    [artistId],
+  );
+
+  useEffect(() => {
+    if (currentStep === "select_datetime" && bookingDetails.duration > 0) {
+      checkOpenSlots(bookingDetails.duration);
+    }
+  }, [currentStep, bookingDetails.duration, checkOpenSlots]);
 
   if (!artist) {
     return (
@@ -145,6 +204,11 @@ export const BookingScreen: React.FC<BookingScreenProps> = ({
         setCurrentStep("confirm_details");
         break;
       case "confirm_details":
+        if (!cancellationPolicy || !hasAgreedPolicy) {
+          setToastMessage("キャンセルポリシーへの同意が必要です");
+          setShowToast(true);
+          return;
+        }
         handleBookingSubmit();
         break;
     }
@@ -256,6 +320,25 @@ export const BookingScreen: React.FC<BookingScreenProps> = ({
     <View style={styles.stepContainer}>
       <Text style={styles.stepTitle}>日時を選択してください</Text>
 
+      {hasOpenSlots === false && userProfile?.uid && (
+        <>
+          {waitlistEntryId ? (
+            <Text style={styles.sectionTitle}>
+              キャンセル待ちに登録しました。空き枠が出たら通知でお知らせします
+            </Text>
+          ) : (
+            <WaitlistJoinPanel
+              artistId={artistId}
+              customerId={userProfile.uid}
+              estimatedDuration={bookingDetails.duration * 60}
+              budgetMax={bookingDetails.price}
+              tattooDescription={bookingDetails.notes}
+              onJoined={setWaitlistEntryId}
+            />
+          )}
+        </>
+      )}
+
       <View style={styles.dateTimeSection}>
         <Text style={styles.sectionTitle}>日付選択</Text>
         <View style={styles.dateGrid}>
@@ -412,11 +495,35 @@ export const BookingScreen: React.FC<BookingScreenProps> = ({
           )}
         </View>
 
-        <View style={styles.warningCard}>
-          <Text style={styles.warningText}>
-            ⚠️ 予約確定後のキャンセルは24時間前までとなります
-          </Text>
-        </View>
+        {cancellationPolicy ? (
+          <>
+            <CancellationPolicySummary policy={cancellationPolicy} />
+            <TouchableOpacity
+              style={styles.policyAgreement}
+              onPress={() => setHasAgreedPolicy((agreed) => !agreed)}
+            >
+              <View
+                style={[
+                  styles.policyCheckbox,
+                  hasAgreedPolicy && styles.policyCheckboxChecked,
+                ]}
+              >
+                {hasAgreedPolicy && (
+                  <Text style={styles.policyCheckmark}>✓</Text>
+                )}
+              </View>
+              <Text style={styles.policyAgreementText}>
+                キャンセルポリシーに同意する
+              </Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <View style={styles.warningCard}>
+            <Text style={styles.warningText}>
+              キャンセルポリシーを読み込んでいます…
+            </Text>
+          </View>
+        )}
       </View>
     );
   };
@@ -565,6 +672,10 @@ export const BookingScreen: React.FC<BookingScreenProps> = ({
           <Button
             title={currentStep === "confirm_details" ? "予約する" : "次へ"}
             onPress={handleNextStep}
+            disabled={
+              currentStep === "confirm_details" &&
+              (!cancellationPolicy || !hasAgreedPolicy)
+            }
             variant="primary"
             size="large"
             style={
@@ -911,6 +1022,34 @@ const styles = StyleSheet.create({
     textAlign: "center",
     fontWeight: DesignTokens.typography.weights.medium,
   },
+  policyAgreement: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: DesignTokens.spacing[3],
+  },
+  policyCheckbox: {
+    width: 22,
+    height: 22,
+    borderRadius: DesignTokens.radius.base,
+    borderWidth: 2,
+    borderColor: DesignTokens.colors.dark.text.tertiary,
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: DesignTokens.spacing[3],
+  },
+  policyCheckboxChecked: {
+    backgroundColor: DesignTokens.colors.primary[500],
+    borderColor: DesignTokens.colors.primary[500],
+  },
+  policyCheckmark: {
+    color: DesignTokens.colors.dark.text.primary,
+    fontSize: DesignTokens.typography.sizes.sm,
+    fontWeight: "bold",
+  },
+  policyAgreementText: {
+    fontSize: DesignTokens.typography.sizes.md,
+    color: DesignTokens.colors.dark.text.primary,
+  },
 
   // Status Screens
   statusContainer: {
@@ -12,6 +12,8 @@ import {
 import { useAuth } from "../../contexts/AuthContext";
 import BookingService, { BookingRequest } from "../../services/BookingService";
 import ChatService from "../../services/ChatService";
+import ProjectService, { BookingProject } from "../../services/ProjectService";
+import WaitlistOffersPanel from "../../features/booking/WaitlistOffersPanel";
 
 interface Props {
   navigation: any;
@@ -19,10 +21,15 @@ interface Props {
 
 interface BookingStatusProps {
   booking: BookingRequest;
+  project?: BookingProject;
   onPress: (booking: BookingRequest) => void;
 }
 
-const BookingCard: React.FC<BookingStatusProps> = ({ booking, onPress }) => {
+const BookingCard: React.FC<BookingStatusProps> = ({
+  booking,
+  project,
+  onPress,
+}) => {
   const getStatusColor = (status: BookingRequest["status"]): string => {
     const colors = {
       pending: "#facc15",
@@ -111,6 +118,39 @@ const BookingCard: React.FC<BookingStatusProps> = ({ booking, onPress }) => {
           </Text>
         </View>
 
+        {project && (
+          <View style={styles.projectContainer}>
+            <View style={styles.detailsRow}>
+              <Text style={styles.projectTitle} numberOfLines={1}>
+                🗂️ {project.title}
+              </Text>
+              <Text style={styles.projectSessions}>
+                {project.completedSessions}/{project.plannedSessions}回
+              </Text>
+            </View>
+            <View style={styles.projectProgressBar}>
+              <View
+                style={[
+                  styles.projectProgressFill,
+                  {
+                    width: `${Math.round(
+                      (Math.min(
+                        project.completedSessions,
+                        project.plannedSessions,
+                      ) /
+                        project.plannedSessions) *
+                        100,
+                    )}%`,
+                  },
+                ]}
+              />
+            </View>
+            <Text style={styles.projectBalance}>
+              見積もり ¥{project.quotedPrice.toLocaleString()}
+            </Text>
+          </View>
+        )}
+
         {booking.responses.length > 0 && (
           <View style={styles.responseIndicator}>
             <Text style={styles.responseCount}>
@@ -133,6 +173,7 @@ const BookingCard: React.FC<BookingStatusProps> = ({ booking, onPress }) => {
 const BookingStatusScreen: React.FC<Props> = ({ navigation }) => {
   const { userProfile } = useAuth();
   const [bookings, setBookings] = useState<BookingRequest[]>([]);
+  const [projects, setProjects] = useState<Record<string, BookingProject>>({});
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [refreshing, setRefreshing] = useState<boolean>(false);
   const [filter, setFilter] = useState<"all" | "active" | "completed">("all");
@@ -151,11 +192,18 @@ const BookingStatusScreen: React.FC<Props> = ({ navigation }) => {
 
     try {
       setIsLoading(true);
-      const userBookings = await BookingService.getUserBookings(
-        userProfile.uid,
-        userProfile.userType || "customer",
-      );
+      const userType =
+        userProfile.userType === "customer" ? "customer" : "artist";
+      const [userBookings, userProjects] = await Promise.all([
+        BookingService.getUserBookings(userProfile.uid, userType),
+        ProjectService.getUserProjects(userProfile.uid, userType),
+      ]);
       setBookings(userBookings);
+      setProjects(
+        Object.fromEntries(
+          userProjects.map((project) => [project.bookingRequestId, project]),
+        ),
+      );
     } catch (error) {
       console.error("Error loading bookings:", error);
       Alert.alert("エラー", "予約情報の取得に失敗しました");
@@ -226,6 +274,13 @@ const BookingStatusScreen: React.FC<Props> = ({ navigation }) => {
         <Text style={styles.title}>{isArtist ? "予約管理" : "予約履歴"}</Text>
       </View>
 
+      {isCustomer && userProfile?.uid && (
+        <WaitlistOffersPanel
+          customerId={userProfile.uid}
+          onBooked={loadBookings}
+        />
+      )}
+
       {/* フィルターボタン */}
       <View style={styles.filterContainer}>
         <TouchableOpacity
@@ -306,6 +361,7 @@ const BookingStatusScreen: React.FC<Props> = ({ navigation }) => {
             <BookingCard
               key={booking.id}
               booking={booking}
+              project={projects[booking.id]}
               onPress={handleBookingPress}
             />
           ))
@@ -443,6 +499,38 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: "600",
   },
+  projectContainer: {
+    backgroundColor: "#1a1a1a",
+    borderRadius: 8,
+    padding: 10,
+    marginTop: 8,
+  },
+  projectTitle: {
+    flex: 1,
+    color: "#fff",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  projectSessions: {
+    color: "#4ade80",
+    fontSize: 14,
+    fontWeight: "bold",
+  },
+  projectProgressBar: {
+    height: 6,
+    backgroundColor: "#333",
+    borderRadius: 3,
+    overflow: "hidden",
+    marginVertical: 6,
+  },
+  projectProgressFill: {
+    height: "100%",
+    backgroundColor: "#4ade80",
+  },
+  projectBalance: {
+    color: "#aaa",
+    fontSize: 12,
+  },
   cardFooter: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -10,12 +10,24 @@ import {
   Modal,
   TextInput,
 } from "react-native";
+import {
+  CancellationPolicy,
+  canMarkNoShow,
+  evaluateCancellation,
+  getBookingCancellationPolicy,
+} from "@tattoo-journey/shared";
 import { useAuth } from "../../contexts/AuthContext";
 import BookingService, {
   BookingRequest,
   BookingResponse,
 } from "../../services/BookingService";
 import ChatService from "../../services/ChatService";
+import ProjectPanel from "../../features/booking/ProjectPanel";
+import DesignDraftPanel from "../../features/booking/DesignDraftPanel";
+import PaymentLedgerPanel from "../../features/booking/PaymentLedgerPanel";
+import ReschedulePanel from "../../features/booking/ReschedulePanel";
+import CancellationPolicySummary from "../../features/booking/CancellationPolicySummary";
+import OutboxBanner from "../../features/chat/OutboxBanner";
 
 interface Props {
   route: {
@@ -28,7 +40,13 @@ interface Props {
 }
 
 interface BookingAction {
-  type: "accept" | "decline" | "counter_offer" | "request_info" | "cancel";
+  type:
+    | "accept"
+    | "decline"
+    | "counter_offer"
+    | "request_info"
+    | "cancel"
+    | "no_show";
   label: string;
   color: string;
   icon: string;
@@ -45,6 +63,8 @@ const BookingChatScreen: React.FC<Props> = ({ route, navigation }) => {
     null,
   );
   const [responseMessage, setResponseMessage] = useState<string>("");
+  const [cancellationPolicy, setCancellationPolicy] =
+    useState<CancellationPolicy | null>(null);
 
   const isArtist = userProfile?.userType === "artist";
   const isCustomer = userProfile?.userType === "customer";
@@ -80,6 +100,12 @@ const BookingChatScreen: React.FC<Props> = ({ route, navigation }) => {
       color: "#ef4444",
       icon: "❌",
     },
+    {
+      type: "no_show",
+      label: "無断キャンセル",
+      color: "#f97316",
+      icon: "🚫",
+    },
   ];
 
   useEffect(() => {
@@ -98,6 +124,15 @@ const BookingChatScreen: React.FC<Props> = ({ route, navigation }) => {
       const currentBooking = bookings.find((b) => b.id === bookingId);
       if (currentBooking) {
         setBooking(currentBooking);
+        // 確定済みの予約は確定時点、未確定の予約はリクエスト時に同意したポリシー
+        setCancellationPolicy(
+          currentBooking.cancellationPolicy ||
+            currentBooking.agreedCancellationPolicy !== undefined
+            ? getBookingCancellationPolicy(currentBooking)
+            : await BookingService.getCancellationPolicy(
+                currentBooking.artistId,
+              ),
+        );
       }
     } catch (error) {
       console.error("Error loading booking details:", error);
@@ -132,6 +167,9 @@ const BookingChatScreen: React.FC<Props> = ({ route, navigation }) => {
         case "cancel":
           await handleCancel();
           break;
+        case "no_show":
+          await handleNoShow();
+          break;
       }
 
       setShowActionModal(false);
@@ -220,7 +258,6 @@ const BookingChatScreen: React.FC<Props> = ({ route, navigation }) => {
         onPress: async () => {
           await BookingService.cancelBooking(
             booking.id,
-            userProfile.uid,
             responseMessage || "ユーザーによりキャンセルされました",
           );
           Alert.alert("完了", "予約をキャンセルしました");
@@ -230,6 +267,13 @@ const BookingChatScreen: React.FC<Props> = ({ route, navigation }) => {
     ]);
   };
 
+  const handleNoShow = async (): Promise<void> => {
+    if (!booking || !userProfile?.uid) return;
+
+    await BookingService.markNoShow(booking.id);
+    Alert.alert("完了", "無断キャンセルとして記録しました");
+  };
+
   const getStatusColor = (status: BookingRequest["status"]): string => {
     const colors = {
       pending: "#facc15",
@@ -274,7 +318,13 @@ const BookingChatScreen: React.FC<Props> = ({ route, navigation }) => {
       case "accepted":
         return [actions[4]]; // キャンセルのみ
       case "confirmed":
-        return [actions[4]]; // キャンセルのみ
+        // 開始時刻から猶予時間を過ぎたらアーティストは無断キャンセルを記録できる
+        return isArtist &&
+          cancellationPolicy &&
+          booking.confirmedDate &&
+          canMarkNoShow(cancellationPolicy, booking.confirmedDate)
+          ? [actions[4], actions[5]]
+          : [actions[4]];
       default:
         return [];
     }
@@ -402,10 +452,53 @@ const BookingChatScreen: React.FC<Props> = ({ route, navigation }) => {
           <Text style={styles.backButtonText}>← 戻る</Text>
         </TouchableOpacity>
         <Text style={styles.title}>予約調整</Text>
+        <TouchableOpacity
+          style={styles.chatButton}
+          onPress={() =>
+            navigation.navigate("Chat", {
+              roomId,
+              bookingId,
+              context: "booking",
+            })
+          }
+        >
+          <Text style={styles.chatButtonText}>💬 チャット</Text>
+        </TouchableOpacity>
       </View>
 
+      {/* チャットの未送信メッセージ（電波の悪いスタジオで書いたものなど） */}
+      <OutboxBanner roomId={roomId} />
+
       <ScrollView style={styles.content}>
         {renderBookingDetails()}
+        {booking && (
+          <ProjectPanel
+            booking={booking}
+            isArtist={isArtist}
+            onProjectCreated={loadBookingDetails}
+          />
+        )}
+        {booking && (
+          <DesignDraftPanel
+            booking={booking}
+            currentUserId={userProfile?.uid || ""}
+            onApproved={loadBookingDetails}
+          />
+        )}
+        {booking && (
+          <ReschedulePanel
+            booking={booking}
+            currentUserId={userProfile?.uid || ""}
+            onRescheduled={loadBookingDetails}
+          />
+        )}
+        {booking && (
+          <PaymentLedgerPanel
+            booking={booking}
+            currentUserId={userProfile?.uid || ""}
+            isArtist={isArtist}
+          />
+        )}
         {renderActionButtons()}
       </ScrollView>
 
@@ -438,22 +531,42 @@ const BookingChatScreen: React.FC<Props> = ({ route, navigation }) => {
                 "確認したい内容を入力してください。"}
               {selectedAction?.type === "cancel" &&
                 "キャンセル理由を入力してください。"}
+              {selectedAction?.type === "no_show" &&
+                "お客様が来店されなかったことを記録します。"}
             </Text>
 
-            {selectedAction?.type !== "counter_offer" && (
-              <View style={styles.messageInput}>
-                <Text style={styles.inputLabel}>メッセージ</Text>
-                <TextInput
-                  style={styles.modalTextInput}
-                  value={responseMessage}
-                  onChangeText={setResponseMessage}
-                  placeholder="メッセージを入力してください"
-                  placeholderTextColor="#666"
-                  multiline
-                  numberOfLines={3}
+            {booking &&
+              cancellationPolicy &&
+              (selectedAction?.type === "cancel" ||
+                selectedAction?.type === "no_show") && (
+                <CancellationPolicySummary
+                  policy={cancellationPolicy}
+                  depositAmount={booking.depositAmount}
+                  preview={evaluateCancellation({
+                    policy: cancellationPolicy,
+                    cancelledBy: isArtist ? "artist" : "customer",
+                    cancelledAt: new Date(),
+                    appointmentDate: booking.confirmedDate,
+                    isNoShow: selectedAction.type === "no_show",
+                  })}
                 />
-              </View>
-            )}
+              )}
+
+            {selectedAction?.type !== "counter_offer" &&
+              selectedAction?.type !== "no_show" && (
+                <View style={styles.messageInput}>
+                  <Text style={styles.inputLabel}>メッセージ</Text>
+                  <TextInput
+                    style={styles.modalTextInput}
+                    value={responseMessage}
+                    onChangeText={setResponseMessage}
+                    placeholder="メッセージを入力してください"
+                    placeholderTextColor="#666"
+                    multiline
+                    numberOfLines={3}
+                  />
+                </View>
+              )}
 
             <View style={styles.modalActions}>
               <TouchableOpacity
@@ -503,10 +616,22 @@ const styles = StyleSheet.create({
     fontSize: 14,
   },
   title: {
+    flex: 1,
     fontSize: 20,
     fontWeight: "bold",
     color: "#fff",
   },
+  chatButton: {
+    backgroundColor: "#ff6b6b",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chatButtonText: {
+    color: "#fff",
+    fontSize: 14,
+    fontWeight: "600",
+  },
   content: {
     flex: 1,
     padding: 20,
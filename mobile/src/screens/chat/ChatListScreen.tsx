@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useEffect } from "react";
 import {
   View,
   Text,
@@ -11,7 +11,9 @@ import {
   Alert,
 } from "react-native";
 import { useAuth } from "../../contexts/AuthContext";
-import ChatService, { ChatRoom } from "../../services/ChatService";
+import { ChatInboxEntry } from "@tattoo-journey/shared";
+import ChatService from "../../services/ChatService";
+import { useChatInbox } from "../../hooks/useChatInbox";
 
 interface Props {
   navigation: any;
@@ -19,67 +21,36 @@ interface Props {
 
 const ChatListScreen: React.FC<Props> = ({ navigation }) => {
   const { userProfile } = useAuth();
-  const [chatRooms, setChatRooms] = useState<ChatRoom[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [totalUnreadCount, setTotalUnreadCount] = useState(0);
+  const {
+    rooms: chatRooms,
+    totalUnreadCount,
+    isLoading,
+    isLoadingMore,
+    error,
+    loadMore,
+  } = useChatInbox(userProfile?.uid);
 
   useEffect(() => {
-    if (userProfile?.uid) {
-      initializeChatList();
+    if (!userProfile?.uid) return;
 
-      // オンライン状態を設定
-      ChatService.setUserOnlineStatus(userProfile.uid, true);
-    }
+    // オンライン状態を設定
+    ChatService.setUserOnlineStatus(userProfile.uid, true);
 
     return () => {
-      if (userProfile?.uid) {
-        ChatService.setUserOnlineStatus(userProfile.uid, false);
-      }
+      ChatService.setUserOnlineStatus(userProfile.uid, false);
     };
   }, [userProfile?.uid]);
 
-  const initializeChatList = async () => {
-    if (!userProfile?.uid) return;
-
-    setIsLoading(true);
-
-    try {
-      // 初期の未読数を取得
-      const unreadCount = await ChatService.getUnreadCount(userProfile.uid);
-      setTotalUnreadCount(unreadCount);
-
-      // リアルタイムでチャットルームを監視
-      const unsubscribe = ChatService.subscribeToUserChatRooms(
-        userProfile.uid,
-        (rooms) => {
-          setChatRooms(rooms);
-
-          // 未読数を計算
-          const totalUnread = rooms.reduce((total, room) => {
-            return total + (room.unreadCount[userProfile.uid] || 0);
-          }, 0);
-          setTotalUnreadCount(totalUnread);
-
-          setIsLoading(false);
-        },
-        (error) => {
-          console.error("Chat rooms subscription error:", error);
-          Alert.alert("エラー", "チャット一覧の取得に失敗しました");
-          setIsLoading(false);
-        },
-      );
-
-      // クリーンアップのためにunsubscribeを保存
-      return unsubscribe;
-    } catch (error) {
-      console.error("Chat list initialization error:", error);
-      setIsLoading(false);
+  useEffect(() => {
+    if (error) {
+      console.error("Chat inbox subscription error:", error);
+      Alert.alert("エラー", "チャット一覧の取得に失敗しました");
     }
-  };
+  }, [error]);
 
-  const navigateToChat = (room: ChatRoom) => {
+  const navigateToChat = (room: ChatInboxEntry) => {
     navigation.navigate("Chat", {
-      roomId: room.id,
+      roomId: room.roomId,
       context: room.metadata?.context || "direct_inquiry",
     });
   };
@@ -106,7 +77,7 @@ const ChatListScreen: React.FC<Props> = ({ navigation }) => {
     }
   };
 
-  const getOtherParticipantName = (room: ChatRoom): string => {
+  const getOtherParticipantName = (room: ChatInboxEntry): string => {
     if (userProfile?.userType === "customer") {
       return room.metadata?.artistName || "アーティスト";
     } else {
@@ -133,8 +104,8 @@ const ChatListScreen: React.FC<Props> = ({ navigation }) => {
     return text.substring(0, maxLength) + "...";
   };
 
-  const renderChatRoom = ({ item }: { item: ChatRoom }) => {
-    const unreadCount = item.unreadCount[userProfile?.uid || ""] || 0;
+  const renderChatRoom = ({ item }: { item: ChatInboxEntry }) => {
+    const unreadCount = item.unreadCount || 0;
     const otherParticipantName = getOtherParticipantName(item);
     const lastMessageText =
       item.lastMessage?.text || "まだメッセージがありません";
@@ -261,10 +232,20 @@ const ChatListScreen: React.FC<Props> = ({ navigation }) => {
         <FlatList
           data={chatRooms}
           renderItem={renderChatRoom}
-          keyExtractor={(item) => item.id}
+          keyExtractor={(item) => item.roomId}
           style={styles.chatRoomsList}
           showsVerticalScrollIndicator={false}
           ItemSeparatorComponent={() => <View style={styles.separator} />}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            isLoadingMore ? (
+              <ActivityIndicator
+                style={styles.loadMoreIndicator}
+                color="#ff6b6b"
+              />
+            ) : null
+          }
         />
       )}
     </SafeAreaView>
@@ -444,6 +425,9 @@ const styles = StyleSheet.create({
     color: "#4ade80",
     fontWeight: "600",
   },
+  loadMoreIndicator: {
+    paddingVertical: 16,
+  },
   separator: {
     height: 1,
     backgroundColor: "#333",
@@ -11,9 +11,24 @@ import {
   Platform,
   Alert,
   ActivityIndicator,
+  Image,
 } from "react-native";
+import { launchImageLibrary } from "react-native-image-picker";
 import { useAuth } from "../../contexts/AuthContext";
-import ChatService, { ChatMessage, ChatRoom } from "../../services/ChatService";
+import {
+  ChatCard,
+  ChatDeliveryStatus,
+  ChatMessage,
+  withChatDeliveryStatus,
+} from "@tattoo-journey/shared";
+import ChatService from "../../services/ChatService";
+import ChatOutboxService from "../../services/ChatOutboxService";
+import { useChatOutbox } from "../../hooks/useChatOutbox";
+import BookingService, { BookingRequest } from "../../services/BookingService";
+import ChatComposer from "../../features/chat/Composer";
+import ChatCardView from "../../features/chat/ChatCardView";
+import DeliveryStatus from "../../features/chat/DeliveryStatus";
+import OutboxBanner from "../../features/chat/OutboxBanner";
 
 interface Props {
   route: {
@@ -21,6 +36,8 @@ interface Props {
       artistId?: string;
       roomId?: string;
       context?: "matching" | "direct_inquiry" | "booking";
+      // 予約チャットでは予約カードを送受信できる
+      bookingId?: string;
     };
   };
   navigation: any;
@@ -32,6 +49,7 @@ const ChatScreen: React.FC<Props> = ({ route, navigation }) => {
     artistId,
     roomId: initialRoomId,
     context = "direct_inquiry",
+    bookingId,
   } = route.params;
 
   const [roomId, setRoomId] = useState<string | null>(initialRoomId || null);
@@ -43,6 +61,11 @@ const ChatScreen: React.FC<Props> = ({ route, navigation }) => {
   const [otherUserOnline, setOtherUserOnline] = useState(false);
   const [otherUserName, setOtherUserName] = useState("");
   const [isSending, setIsSending] = useState(false);
+  const [booking, setBooking] = useState<BookingRequest | null>(null);
+
+  // 送信待ちのメッセージも含め、自分のメッセージには配信状態を付ける
+  const outbox = useChatOutbox(roomId || undefined);
+  const displayedMessages = withChatDeliveryStatus(messages, outbox.entries);
 
   const flatListRef = useRef<FlatList>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout>();
@@ -70,6 +93,12 @@ const ChatScreen: React.FC<Props> = ({ route, navigation }) => {
     };
   }, [userProfile?.uid, artistId, initialRoomId]);
 
+  useEffect(() => {
+    if (!bookingId) return;
+
+    BookingService.getBookingRequest(bookingId).then(setBooking);
+  }, [bookingId]);
+
   const initializeChat = async () => {
     try {
       setIsLoading(true);
@@ -121,6 +150,14 @@ const ChatScreen: React.FC<Props> = ({ route, navigation }) => {
             console.error("Message subscription error:", error);
             Alert.alert("エラー", "メッセージの受信に失敗しました");
           },
+          (changedMessage) => {
+            // 既読・カードへの回答を反映
+            setMessages((prev) =>
+              prev.map((msg) =>
+                msg.id === changedMessage.id ? changedMessage : msg,
+              ),
+            );
+          },
         );
 
         // タイピング状態のリスニング
@@ -165,15 +202,22 @@ const ChatScreen: React.FC<Props> = ({ route, navigation }) => {
     }
   };
 
-  const sendMessage = async () => {
-    if (!inputText.trim() || !roomId || !userProfile?.uid || isSending) return;
+  /**
+   * 送信キューに追加（オフライン中は接続が戻ってから送信される）
+   */
+  const sendMessage = async (text: string = inputText) => {
+    if (!text.trim() || !roomId || !userProfile?.uid || isSending) return;
 
-    const messageText = inputText.trim();
+    const messageText = text.trim();
     setInputText("");
     setIsSending(true);
 
     try {
-      await ChatService.sendMessage(roomId, userProfile.uid, messageText);
+      await ChatOutboxService.enqueueMessage(
+        roomId,
+        userProfile.uid,
+        messageText,
+      );
 
       // タイピング状態をクリア
       await ChatService.setTypingStatus(roomId, userProfile.uid, false);
@@ -187,6 +231,36 @@ const ChatScreen: React.FC<Props> = ({ route, navigation }) => {
     }
   };
 
+  const sendImage = () => {
+    if (!roomId || !userProfile?.uid) return;
+    const senderId = userProfile.uid;
+
+    launchImageLibrary(
+      { mediaType: "photo", quality: 0.8, maxWidth: 2048, maxHeight: 2048 },
+      (response) => {
+        if (response.didCancel || response.errorMessage) return;
+        const uri = response.assets?.[0]?.uri;
+        if (!uri) return;
+
+        ChatOutboxService.enqueueImage(roomId, senderId, uri).catch((error) => {
+          console.error("Send image error:", error);
+          Alert.alert("エラー", "画像の送信に失敗しました");
+        });
+      },
+    );
+  };
+
+  const sendCard = async (card: ChatCard) => {
+    if (!userProfile?.uid) return;
+
+    try {
+      await BookingService.sendChatCard(userProfile.uid, card);
+    } catch (error) {
+      console.error("Send card error:", error);
+      Alert.alert("エラー", "カードの送信に失敗しました");
+    }
+  };
+
   const handleInputChange = (text: string) => {
     setInputText(text);
 
@@ -230,7 +304,11 @@ const ChatScreen: React.FC<Props> = ({ route, navigation }) => {
     }
   };
 
-  const renderMessage = ({ item }: { item: ChatMessage }) => {
+  const renderMessage = ({
+    item,
+  }: {
+    item: ChatMessage & { deliveryStatus: ChatDeliveryStatus };
+  }) => {
     const isMyMessage = item.senderId === userProfile?.uid;
     const isSystemMessage = item.type === "system";
 
@@ -268,14 +346,29 @@ const ChatScreen: React.FC<Props> = ({ route, navigation }) => {
             </View>
           )}
 
-          <Text
-            style={[
-              styles.messageText,
-              isMyMessage ? styles.myMessageText : styles.otherMessageText,
-            ]}
-          >
-            {item.text}
-          </Text>
+          {item.type === "card" && roomId && userProfile?.uid ? (
+            <ChatCardView
+              message={item}
+              roomId={roomId}
+              currentUserId={userProfile.uid}
+            />
+          ) : (
+            <Text
+              style={[
+                styles.messageText,
+                isMyMessage ? styles.myMessageText : styles.otherMessageText,
+              ]}
+            >
+              {item.text}
+            </Text>
+          )}
+
+          {item.type === "image" && item.metadata?.imageUrl && (
+            <Image
+              source={{ uri: item.metadata.imageUrl }}
+              style={styles.messageImage}
+            />
+          )}
 
           {item.metadata?.priceQuote && (
             <View style={styles.priceQuoteContainer}>
@@ -296,11 +389,10 @@ const ChatScreen: React.FC<Props> = ({ route, navigation }) => {
             </Text>
 
             {isMyMessage && (
-              <View style={styles.messageStatus}>
-                <Text style={styles.messageStatusText}>
-                  {item.read ? "既読" : "未読"}
-                </Text>
-              </View>
+              <DeliveryStatus
+                status={item.deliveryStatus}
+                onRetry={() => outbox.retry(item.id)}
+              />
             )}
           </View>
         </View>
@@ -363,7 +455,7 @@ const ChatScreen: React.FC<Props> = ({ route, navigation }) => {
         {/* メッセージリスト */}
         <FlatList
           ref={flatListRef}
-          data={messages}
+          data={displayedMessages}
           renderItem={renderMessage}
           keyExtractor={(item) => item.id}
           style={styles.messagesList}
@@ -378,33 +470,52 @@ const ChatScreen: React.FC<Props> = ({ route, navigation }) => {
 
         {renderTypingIndicator()}
 
-        {/* 入力エリア */}
-        <View style={styles.inputContainer}>
-          <TextInput
-            style={styles.textInput}
-            value={inputText}
+        {roomId && <OutboxBanner roomId={roomId} />}
+
+        {/* 入力エリア（予約チャットはスラッシュコマンド付き。カードはアーティストのみ） */}
+        {booking ? (
+          <ChatComposer
+            onSendMessage={(text) => sendMessage(text)}
             onChangeText={handleInputChange}
-            placeholder="メッセージを入力..."
-            placeholderTextColor="#666"
-            multiline
-            maxLength={1000}
+            disabled={isSending}
+            contextType="booking"
+            cardBooking={
+              booking.artistId === userProfile?.uid ? booking : undefined
+            }
+            onSendCard={sendCard}
           />
-
-          <TouchableOpacity
-            style={[
-              styles.sendButton,
-              (!inputText.trim() || isSending) && styles.sendButtonDisabled,
-            ]}
-            onPress={sendMessage}
-            disabled={!inputText.trim() || isSending}
-          >
-            {isSending ? (
-              <ActivityIndicator size="small" color="#fff" />
-            ) : (
-              <Text style={styles.sendButtonText}>送信</Text>
-            )}
-          </TouchableOpacity>
-        </View>
+        ) : (
+          <View style={styles.inputContainer}>
+            <TouchableOpacity style={styles.imageButton} onPress={sendImage}>
+              <Text style={styles.imageButtonText}>📷</Text>
+            </TouchableOpacity>
+
+            <TextInput
+              style={styles.textInput}
+              value={inputText}
+              onChangeText={handleInputChange}
+              placeholder="メッセージを入力..."
+              placeholderTextColor="#666"
+              multiline
+              maxLength={1000}
+            />
+
+            <TouchableOpacity
+              style={[
+                styles.sendButton,
+                (!inputText.trim() || isSending) && styles.sendButtonDisabled,
+              ]}
+              onPress={() => sendMessage()}
+              disabled={!inputText.trim() || isSending}
+            >
+              {isSending ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.sendButtonText}>送信</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
       </KeyboardAvoidingView>
     </SafeAreaView>
   );
@@ -557,12 +668,11 @@ const styles = StyleSheet.create({
   otherMessageTime: {
     color: "#aaa",
   },
-  messageStatus: {
-    marginLeft: 8,
-  },
-  messageStatusText: {
-    fontSize: 10,
-    color: "rgba(255, 255, 255, 0.7)",
+  messageImage: {
+    width: 200,
+    height: 200,
+    borderRadius: 8,
+    marginTop: 4,
   },
   typingContainer: {
     paddingHorizontal: 16,
@@ -591,6 +701,13 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: "#333",
   },
+  imageButton: {
+    paddingVertical: 10,
+    paddingRight: 8,
+  },
+  imageButtonText: {
+    fontSize: 20,
+  },
   textInput: {
     flex: 1,
     backgroundColor: "#333",
@@ -15,6 +15,8 @@ import {
 import { Button, Avatar, Toast } from "../../components/ui";
 import { DesignTokens } from "../../styles/DesignTokens";
 import { mockArtists, currentUser } from "../../../mocks/fixtures";
+import { ChatDeliveryStatus } from "@tattoo-journey/shared";
+import DeliveryStatus from "../../features/chat/DeliveryStatus";
 
 const { width: SCREEN_WIDTH } = Dimensions.get("window");
 
@@ -26,7 +28,7 @@ interface Message {
   content: string;
   timestamp: Date;
   type: "text" | "image" | "system";
-  isRead: boolean;
+  deliveryStatus: ChatDeliveryStatus;
 }
 
 interface ChatUIScreenProps {
@@ -58,7 +60,7 @@ export const ChatUIScreen: React.FC<ChatUIScreenProps> = ({
         "こんにちは！お問い合わせありがとうございます。どのようなタトゥーをお考えでしょうか？",
       timestamp: new Date(Date.now() - 3600000),
       type: "text",
-      isRead: true,
+      deliveryStatus: "read",
     },
     {
       id: "2",
@@ -69,7 +71,7 @@ export const ChatUIScreen: React.FC<ChatUIScreenProps> = ({
         "龍のデザインに興味があります。背中に入れたいと思っているのですが、どのくらいの価格帯になりますでしょうか？",
       timestamp: new Date(Date.now() - 3300000),
       type: "text",
-      isRead: true,
+      deliveryStatus: "read",
     },
     {
       id: "3",
@@ -80,7 +82,7 @@ export const ChatUIScreen: React.FC<ChatUIScreenProps> = ({
         "龍のデザインですね！サイズや詳細によって変わりますが、背中一面でしたら20-30万円程度になります。まずはカウンセリングでご相談させていただければと思います。",
       timestamp: new Date(Date.now() - 3000000),
       type: "text",
-      isRead: true,
+      deliveryStatus: "read",
     },
   ]);
 
@@ -107,13 +109,14 @@ export const ChatUIScreen: React.FC<ChatUIScreenProps> = ({
       content: inputText.trim(),
       timestamp: new Date(),
       type: "text",
-      isRead: false,
+      deliveryStatus: "sent",
     };
 
     setMessages((prev) => [...prev, newMessage]);
     setInputText("");
 
-    // Simulate artist typing
+    // Simulate artist typing (the artist's app has loaded the message)
+    updateDeliveryStatus(newMessage.id, "delivered");
     setIsTyping(true);
     setTimeout(() => {
       setIsTyping(false);
@@ -134,13 +137,25 @@ export const ChatUIScreen: React.FC<ChatUIScreenProps> = ({
         content: responses[Math.floor(Math.random() * responses.length)],
         timestamp: new Date(),
         type: "text",
-        isRead: false,
+        deliveryStatus: "sent",
       };
 
+      updateDeliveryStatus(newMessage.id, "read");
       setMessages((prev) => [...prev, artistResponse]);
     }, 2000);
   };
 
+  const updateDeliveryStatus = (
+    messageId: string,
+    deliveryStatus: ChatDeliveryStatus,
+  ) => {
+    setMessages((prev) =>
+      prev.map((message) =>
+        message.id === messageId ? { ...message, deliveryStatus } : message,
+      ),
+    );
+  };
+
   const handleImageUpload = () => {
     Alert.alert("画像送信", "画像を選択してください", [
       { text: "キャンセル", style: "cancel" },
@@ -163,7 +178,7 @@ export const ChatUIScreen: React.FC<ChatUIScreenProps> = ({
       content: "📷 画像を送信しました",
       timestamp: new Date(),
       type: "image",
-      isRead: false,
+      deliveryStatus: "sent",
     };
 
     setMessages((prev) => [...prev, imageMessage]);
@@ -228,16 +243,19 @@ export const ChatUIScreen: React.FC<ChatUIScreenProps> = ({
             {item.content}
           </Text>
 
-          <Text
-            style={[
-              styles.messageTime,
-              isCurrentUser
-                ? styles.messageTimeSent
-                : styles.messageTimeReceived,
-            ]}
-          >
-            {formatTime(item.timestamp)}
-          </Text>
+          <View style={styles.messageFooter}>
+            <Text
+              style={[
+                styles.messageTime,
+                isCurrentUser
+                  ? styles.messageTimeSent
+                  : styles.messageTimeReceived,
+              ]}
+            >
+              {formatTime(item.timestamp)}
+            </Text>
+            {isCurrentUser && <DeliveryStatus status={item.deliveryStatus} />}
+          </View>
         </View>
       </View>
     );
@@ -519,10 +537,14 @@ const styles = StyleSheet.create({
   messageTextReceived: {
     color: DesignTokens.colors.dark.text.primary,
   },
+  messageFooter: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    alignItems: "center",
+    marginTop: DesignTokens.spacing[1],
+  },
   messageTime: {
     fontSize: DesignTokens.typography.sizes.xs,
-    marginTop: DesignTokens.spacing[1],
-    alignSelf: "flex-end",
   },
   messageTimeSent: {
     color: DesignTokens.colors.dark.text.secondary,
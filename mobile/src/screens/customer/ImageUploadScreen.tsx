@@ -12,21 +12,48 @@ import {
   ActivityIndicator,
 } from "react-native";
 import { launchImageLibrary, launchCamera } from "react-native-image-picker";
+import {
+  MAX_MOOD_BOARD_REFERENCES,
+  MoodBoardPriority,
+  mergeMoodBoard,
+} from "@tattoo-journey/shared";
 import storage from "@react-native-firebase/storage";
 import firestore from "@react-native-firebase/firestore";
 import { useAuth } from "../../contexts/AuthContext";
 import GoogleVisionService from "../../services/GoogleVisionService";
+import ImageAnalysisService, {
+  VisualSearchResult,
+} from "../../services/ImageAnalysisService";
+import SimilarPortfolioStrip from "../../features/matching/SimilarPortfolioStrip";
+import { MatchingCriteria } from "../../services/MatchingService";
 import { AIAnalysisResult } from "../../types";
 
+// ムードボードでの参考画像の重み
+const REFERENCE_WEIGHTS = [
+  { label: "弱", value: 0.34 },
+  { label: "中", value: 0.67 },
+  { label: "強", value: 1 },
+];
+
+interface Props {
+  navigation: any;
+}
+
 interface UploadedImage {
   id: string;
   uri: string;
+  storagePath: string;
   downloadUrl: string;
   analysis?: AIAnalysisResult;
   isAnalyzing?: boolean;
+  visualSearch?: VisualSearchResult;
+  isSearchingSimilar?: boolean;
+  // ムードボードでの重みと優先度（必須 / あれば嬉しい）
+  weight: number;
+  priority: MoodBoardPriority;
 }
 
-const ImageUploadScreen: React.FC = () => {
+const ImageUploadScreen: React.FC<Props> = ({ navigation }) => {
   const { userProfile } = useAuth();
   const [images, setImages] = useState<UploadedImage[]>([]);
   const [isUploading, setIsUploading] = useState(false);
@@ -93,8 +120,11 @@ const ImageUploadScreen: React.FC = () => {
       const newImage: UploadedImage = {
         id: Date.now().toString(),
         uri: imageAsset.uri,
+        storagePath: fileName,
         downloadUrl: downloadURL,
         isAnalyzing: true,
+        weight: REFERENCE_WEIGHTS[1].value,
+        priority: "nice",
       };
 
       setImages((prev) => [...prev, newImage]);
@@ -119,8 +149,11 @@ const ImageUploadScreen: React.FC = () => {
       // Base64に変換
       const base64 = await GoogleVisionService.convertImageToBase64(image.uri);
 
-      // AI解析実行
-      const analysis = await GoogleVisionService.analyzeImage(base64);
+      // AI解析実行（分析プロバイダーは環境ごとに選択、失敗時はフォールバック）
+      const analysis = await ImageAnalysisService.analyzeImageComprehensive(
+        base64,
+        image.downloadUrl,
+      );
 
       // 解析結果をFirestoreに保存
       await firestore().collection("imageAnalyses").add({
@@ -149,6 +182,91 @@ const ImageUploadScreen: React.FC = () => {
     }
   };
 
+  // 画像埋め込みで見た目が似ている作品を検索
+  const findSimilarWorks = async (image: UploadedImage) => {
+    setImages((prev) =>
+      prev.map((img) =>
+        img.id === image.id ? { ...img, isSearchingSimilar: true } : img,
+      ),
+    );
+
+    const visualSearch = await ImageAnalysisService.findSimilarPortfolioItems(
+      image.storagePath,
+    );
+
+    setImages((prev) =>
+      prev.map((img) =>
+        img.id === image.id
+          ? { ...img, visualSearch, isSearchingSimilar: false }
+          : img,
+      ),
+    );
+  };
+
+  const updateReference = (
+    image: UploadedImage,
+    changes: Partial<Pick<UploadedImage, "weight" | "priority">>,
+  ) => {
+    setImages((prev) =>
+      prev.map((img) => (img.id === image.id ? { ...img, ...changes } : img)),
+    );
+  };
+
+  // 分析済みの参考画像をまとめてアーティストを検索
+  const searchWithMoodBoard = () => {
+    const references = images.filter((img) => img.analysis);
+
+    if (references.length === 0) {
+      Alert.alert("ムードボード", "分析済みの画像がありません");
+      return;
+    }
+    if (references.length > MAX_MOOD_BOARD_REFERENCES) {
+      Alert.alert(
+        "ムードボード",
+        `参考画像は${MAX_MOOD_BOARD_REFERENCES}枚までです`,
+      );
+      return;
+    }
+
+    const location = userProfile?.profile.location;
+    if (!location) {
+      Alert.alert("エラー", "位置情報を設定してください");
+      return;
+    }
+
+    const moodBoard = references.map((img) => ({
+      id: img.id,
+      analysis: img.analysis!,
+      weight: img.weight,
+      priority: img.priority,
+    }));
+    const preferences = userProfile?.profile.preferences;
+    const customerAnalysis: AIAnalysisResult = {
+      ...mergeMoodBoard(moodBoard),
+      rawLabels: [],
+      processedAt: new Date(),
+    };
+    const matchingCriteria: MatchingCriteria = {
+      customerAnalysis,
+      maxDistance: preferences?.maxDistance || 50,
+      budgetRange: {
+        min: preferences?.budgetMin || 0,
+        max: preferences?.budgetMax || 1000000,
+      },
+      customerLocation: {
+        latitude: location.latitude,
+        longitude: location.longitude,
+      },
+      preferredStyles: preferences?.preferredStyles,
+      moodBoard,
+    };
+
+    navigation.navigate("MatchingResults", {
+      customerAnalysis,
+      matchingCriteria,
+    });
+  };
+
   const deleteImage = async (image: UploadedImage) => {
     Alert.alert("削除確認", "この画像を削除しますか？", [
       { text: "キャンセル", style: "cancel" },
@@ -203,6 +321,11 @@ const ImageUploadScreen: React.FC = () => {
       {image.analysis && (
         <View style={styles.analysisPreview}>
           <Text style={styles.analysisTitle}>AI分析結果</Text>
+          {image.analysis.analyzerId === "local-heuristic" && (
+            <Text style={styles.offlineNote}>
+              オフライン簡易分析のため、モチーフは検出されません
+            </Text>
+          )}
           <Text style={styles.styleText}>スタイル: {image.analysis.style}</Text>
           <Text style={styles.complexityText}>
             複雑さ: {image.analysis.complexity}
@@ -242,9 +365,61 @@ const ImageUploadScreen: React.FC = () => {
           >
             <Text style={styles.viewDetailsText}>詳細を見る</Text>
           </TouchableOpacity>
+
+          <View style={styles.referenceSettings}>
+            <View style={styles.optionRow}>
+              {REFERENCE_WEIGHTS.map((weight) => (
+                <TouchableOpacity
+                  key={weight.label}
+                  style={[
+                    styles.optionChip,
+                    image.weight === weight.value && styles.optionChipActive,
+                  ]}
+                  onPress={() =>
+                    updateReference(image, { weight: weight.value })
+                  }
+                >
+                  <Text style={styles.optionText}>{weight.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TouchableOpacity
+              style={[
+                styles.optionChip,
+                image.priority === "must" && styles.optionChipActive,
+              ]}
+              onPress={() =>
+                updateReference(image, {
+                  priority: image.priority === "must" ? "nice" : "must",
+                })
+              }
+            >
+              <Text style={styles.optionText}>
+                {image.priority === "must" ? "必須" : "あれば嬉しい"}
+              </Text>
+            </TouchableOpacity>
+          </View>
         </View>
       )}
 
+      <View style={styles.similarSection}>
+        <TouchableOpacity
+          style={styles.findSimilarButton}
+          onPress={() => findSimilarWorks(image)}
+          disabled={image.isSearchingSimilar}
+        >
+          {image.isSearchingSimilar ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Text style={styles.findSimilarText}>似ている作品を探す</Text>
+          )}
+        </TouchableOpacity>
+
+        {image.visualSearch && (
+          <SimilarPortfolioStrip items={image.visualSearch.items} />
+        )}
+      </View>
+
       <TouchableOpacity
         style={styles.deleteImageButton}
         onPress={() => deleteImage(image)}
@@ -289,6 +464,15 @@ const ImageUploadScreen: React.FC = () => {
         </ScrollView>
       )}
 
+      {images.some((img) => img.analysis) && (
+        <TouchableOpacity
+          style={styles.moodBoardButton}
+          onPress={searchWithMoodBoard}
+        >
+          <Text style={styles.moodBoardButtonText}>ムードボードで探す</Text>
+        </TouchableOpacity>
+      )}
+
       {/* 分析詳細モーダル */}
       <Modal
         animationType="slide"
@@ -464,6 +648,11 @@ const styles = StyleSheet.create({
     color: "#ff6b6b",
     marginBottom: 8,
   },
+  offlineNote: {
+    fontSize: 12,
+    color: "#facc15",
+    marginBottom: 8,
+  },
   styleText: {
     fontSize: 14,
     color: "#fff",
@@ -540,6 +729,59 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: "600",
   },
+  referenceSettings: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginTop: 12,
+  },
+  optionRow: {
+    flexDirection: "row",
+    gap: 6,
+  },
+  optionChip: {
+    backgroundColor: "#333",
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  optionChipActive: {
+    backgroundColor: "#ff6b6b",
+  },
+  optionText: {
+    fontSize: 12,
+    color: "#fff",
+  },
+  moodBoardButton: {
+    backgroundColor: "#3b82f6",
+    margin: 20,
+    marginTop: 0,
+    borderRadius: 16,
+    padding: 16,
+    alignItems: "center",
+  },
+  moodBoardButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  similarSection: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  findSimilarButton: {
+    backgroundColor: "#1a1a1a",
+    borderWidth: 1,
+    borderColor: "#ff6b6b",
+    borderRadius: 8,
+    paddingVertical: 8,
+    alignItems: "center",
+  },
+  findSimilarText: {
+    color: "#ff6b6b",
+    fontSize: 14,
+    fontWeight: "600",
+  },
   deleteImageButton: {
     position: "absolute",
     top: 8,
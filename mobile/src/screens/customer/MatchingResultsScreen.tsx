@@ -11,12 +11,14 @@ import {
   ActivityIndicator,
   Alert,
 } from "react-native";
-import { useAuth } from "../../contexts/AuthContext";
+import { MatchInteractionType } from "@tattoo-journey/shared";
 import MatchingService, {
   ArtistMatch,
   MatchingCriteria,
 } from "../../services/MatchingService";
 import { AIAnalysisResult } from "../../types";
+import { useAuth } from "../../contexts/AuthContext";
+import MatchReasonCards from "../../features/matching/MatchReasonCards";
 
 interface Props {
   route: {
@@ -29,9 +31,10 @@ interface Props {
 }
 
 const MatchingResultsScreen: React.FC<Props> = ({ route, navigation }) => {
-  const { userProfile } = useAuth();
   const { customerAnalysis, matchingCriteria } = route.params;
 
+  const { userProfile } = useAuth();
+
   const [matches, setMatches] = useState<ArtistMatch[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [selectedMatch, setSelectedMatch] = useState<ArtistMatch | null>(null);
@@ -46,15 +49,6 @@ const MatchingResultsScreen: React.FC<Props> = ({ route, navigation }) => {
       const results =
         await MatchingService.findMatchingArtists(matchingCriteria);
       setMatches(results);
-
-      // マッチング履歴を保存
-      if (userProfile?.uid) {
-        await MatchingService.saveMatchingHistory(
-          userProfile.uid,
-          matchingCriteria,
-          results,
-        );
-      }
     } catch (error) {
       Alert.alert("エラー", "マッチング検索に失敗しました");
       console.error("Matching error:", error);
@@ -63,6 +57,15 @@ const MatchingResultsScreen: React.FC<Props> = ({ route, navigation }) => {
     }
   };
 
+  const recordInteraction = (
+    match: ArtistMatch,
+    type: MatchInteractionType,
+  ) => {
+    if (userProfile?.uid) {
+      MatchingService.recordMatchInteraction(userProfile.uid, match, type);
+    }
+  };
+
   const getMatchScoreColor = (score: number): string => {
     if (score >= 0.8) return "#4ade80"; // green
     if (score >= 0.6) return "#facc15"; // yellow
@@ -154,19 +157,38 @@ const MatchingResultsScreen: React.FC<Props> = ({ route, navigation }) => {
     </View>
   );
 
-  const renderPortfolioPreview = (portfolioItems: any[]) => (
+  // ムードボード検索時は、作品ごとに似ている参考画像の番号を表示
+  const getReferenceLabel = (match: ArtistMatch, portfolioItemId: string) => {
+    const referenceId = match.referenceMatches?.find(
+      (reference) => reference.portfolioItemId === portfolioItemId,
+    )?.referenceId;
+    const index = (matchingCriteria.moodBoard || []).findIndex(
+      (reference) => reference.id === referenceId,
+    );
+    return index >= 0 ? `参考画像${index + 1}に似ています` : null;
+  };
+
+  const renderPortfolioPreview = (match: ArtistMatch) => (
     <ScrollView
       horizontal
       style={styles.portfolioPreview}
       showsHorizontalScrollIndicator={false}
     >
-      {portfolioItems.map((item, index) => (
-        <Image
-          key={index}
-          source={{ uri: item.imageUrl }}
-          style={styles.portfolioPreviewImage}
-        />
-      ))}
+      {match.topPortfolioMatches.map((item, index) => {
+        const referenceLabel = getReferenceLabel(match, item.id);
+
+        return (
+          <View key={index} style={styles.portfolioPreviewItem}>
+            <Image
+              source={{ uri: item.imageUrl }}
+              style={styles.portfolioPreviewImage}
+            />
+            {referenceLabel && (
+              <Text style={styles.referenceLabel}>{referenceLabel}</Text>
+            )}
+          </View>
+        );
+      })}
     </ScrollView>
   );
 
@@ -177,7 +199,10 @@ const MatchingResultsScreen: React.FC<Props> = ({ route, navigation }) => {
     return (
       <TouchableOpacity
         style={styles.matchCard}
-        onPress={() => setSelectedMatch(item)}
+        onPress={() => {
+          setSelectedMatch(item);
+          recordInteraction(item, "viewed");
+        }}
       >
         <View style={styles.matchHeader}>
           <View style={styles.artistInfo}>
@@ -236,13 +261,14 @@ const MatchingResultsScreen: React.FC<Props> = ({ route, navigation }) => {
         {item.topPortfolioMatches.length > 0 && (
           <View style={styles.portfolioSection}>
             <Text style={styles.portfolioLabel}>関連作品</Text>
-            {renderPortfolioPreview(item.topPortfolioMatches)}
+            {renderPortfolioPreview(item)}
           </View>
         )}
 
         <TouchableOpacity
           style={styles.contactButton}
           onPress={() => {
+            recordInteraction(item, "inquired");
             // メッセージ送信画面に遷移
             navigation.navigate("Chat", { artistId: item.artist.uid });
           }}
@@ -360,16 +386,7 @@ const MatchingResultsScreen: React.FC<Props> = ({ route, navigation }) => {
                 </Text>
               </View>
 
-              {selectedMatch.matchReasons.length > 0 && (
-                <View style={styles.reasonsSection}>
-                  <Text style={styles.reasonsTitle}>マッチング理由</Text>
-                  {selectedMatch.matchReasons.map((reason, index) => (
-                    <Text key={index} style={styles.detailedReason}>
-                      {index + 1}. {reason}
-                    </Text>
-                  ))}
-                </View>
-              )}
+              <MatchReasonCards match={selectedMatch} />
             </ScrollView>
           </View>
         </View>
@@ -561,13 +578,21 @@ const styles = StyleSheet.create({
   portfolioPreview: {
     marginBottom: 8,
   },
+  portfolioPreviewItem: {
+    width: 60,
+    marginRight: 8,
+  },
   portfolioPreviewImage: {
     width: 60,
     height: 60,
     borderRadius: 8,
-    marginRight: 8,
     backgroundColor: "#333",
   },
+  referenceLabel: {
+    fontSize: 10,
+    color: "#aaa",
+    marginTop: 4,
+  },
   contactButton: {
     backgroundColor: "#ff6b6b",
     borderRadius: 8,
@@ -694,21 +719,6 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     color: "#4ade80",
   },
-  reasonsSection: {
-    marginBottom: 20,
-  },
-  reasonsTitle: {
-    fontSize: 16,
-    fontWeight: "bold",
-    color: "#fff",
-    marginBottom: 12,
-  },
-  detailedReason: {
-    fontSize: 14,
-    color: "#ccc",
-    marginBottom: 8,
-    lineHeight: 20,
-  },
 });
 
 export default MatchingResultsScreen;
@@ -19,6 +19,7 @@ import MatchingService, {
   MatchingCriteria,
 } from "../../services/MatchingService";
 import { AIAnalysisResult } from "../../types";
+import { MatchReason } from "@tattoo-journey/shared";
 
 interface RecommendationHistory {
   id: string;
@@ -33,6 +34,8 @@ interface RecommendationHistory {
       priceScore: number;
       distanceScore: number;
     };
+    // 検索時のマッチング理由（古い履歴にはない）
+    reasons?: MatchReason[];
   }>;
   createdAt: Date;
 }
@@ -105,7 +108,11 @@ const RecommendationListScreen: React.FC<{ navigation: any }> = ({
                 distance: 5, // 仮の値
                 estimatedPrice: 25000, // 仮の値
                 topPortfolioMatches: [],
-                matchReasons: ["高い技術力", "予算に適合"],
+                reasons: match.reasons || [],
+                matchReasons: (match.reasons || []).map(
+                  (reason) => reason.explanation,
+                ),
+                reviewHighlights: [],
               } as ArtistMatch;
             }
             return null;
@@ -156,7 +163,11 @@ const RecommendationListScreen: React.FC<{ navigation: any }> = ({
               distance: 5,
               estimatedPrice: 25000,
               topPortfolioMatches: [],
-              matchReasons: ["履歴データから復元"],
+              reasons: match.reasons || [],
+              matchReasons: (match.reasons || []).map(
+                (reason) => reason.explanation,
+              ),
+              reviewHighlights: [],
             } as ArtistMatch;
           }
           return null;
@@ -7,16 +7,19 @@ import {
   FlatList,
   TouchableOpacity,
   TextInput,
+  ActivityIndicator,
 } from "react-native";
+import { ChatInboxEntry } from "@tattoo-journey/shared";
 import { Avatar, Tag } from "../../components/ui";
 import { DesignTokens } from "../../styles/DesignTokens";
-import { mockArtists, currentUser } from "../../../mocks/fixtures";
+import { useAuth } from "../../contexts/AuthContext";
+import { useChatInbox } from "../../hooks/useChatInbox";
 
 interface ChatPreview {
   id: string;
   participantId: string;
   participantName: string;
-  participantAvatar: string;
+  participantAvatar?: string;
   lastMessage: string;
   lastMessageTime: Date;
   unreadCount: number;
@@ -29,36 +32,35 @@ interface MessagesScreenProps {
 }
 
 const MessagesScreen: React.FC<MessagesScreenProps> = ({ onChatPress }) => {
+  const { userProfile } = useAuth();
   const [searchText, setSearchText] = useState("");
   const [selectedFilter, setSelectedFilter] = useState<
     "all" | "unread" | "booking"
   >("all");
 
-  // Mock chat data
-  const [chats] = useState<ChatPreview[]>([
-    {
-      id: "chat-1",
-      participantId: "artist-1",
-      participantName: "TAKESHI",
-      participantAvatar: "https://picsum.photos/100/100?random=10",
-      lastMessage: "龍のデザインですね！サイズや詳細によって変わりますが...",
-      lastMessageTime: new Date(Date.now() - 300000), // 5 minutes ago
-      unreadCount: 2,
-      isOnline: true,
-      chatType: "booking",
-    },
-    {
-      id: "chat-2",
-      participantId: "artist-2",
-      participantName: "YUKI",
-      participantAvatar: "https://picsum.photos/100/100?random=11",
-      lastMessage: "ありがとうございました！また何かあればお声がけください。",
-      lastMessageTime: new Date(Date.now() - 7200000), // 2 hours ago
-      unreadCount: 0,
-      isOnline: false,
-      chatType: "general",
-    },
-  ]);
+  const { rooms, isLoadingMore, loadMore } = useChatInbox(userProfile?.uid);
+
+  // 受信箱のエントリを一覧表示用に変換
+  const toChatPreview = (entry: ChatInboxEntry): ChatPreview => ({
+    id: entry.roomId,
+    participantId: entry.otherUserId,
+    participantName:
+      (userProfile?.userType === "customer"
+        ? entry.metadata?.artistName
+        : entry.metadata?.customerName) || "",
+    lastMessage: entry.lastMessage?.text || "",
+    lastMessageTime: new Date(entry.lastMessageTime),
+    unreadCount: entry.unreadCount || 0,
+    isOnline: false,
+    chatType:
+      entry.metadata?.context === "booking"
+        ? "booking"
+        : entry.metadata?.context
+          ? "inquiry"
+          : "general",
+  });
+
+  const chats = rooms.map(toChatPreview);
 
   const filters = [
     { key: "all", label: "すべて" },
@@ -238,6 +240,16 @@ const MessagesScreen: React.FC<MessagesScreenProps> = ({ onChatPress }) => {
           keyExtractor={(item) => item.id}
           style={styles.chatList}
           showsVerticalScrollIndicator={false}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            isLoadingMore ? (
+              <ActivityIndicator
+                style={styles.loadMoreIndicator}
+                color={DesignTokens.colors.primary[500]}
+              />
+            ) : null
+          }
         />
       ) : (
         renderEmptyState()
@@ -301,6 +313,9 @@ const styles = StyleSheet.create({
   chatList: {
     flex: 1,
   },
+  loadMoreIndicator: {
+    paddingVertical: DesignTokens.spacing[4],
+  },
   chatItem: {
     flexDirection: "row",
     paddingHorizontal: DesignTokens.spacing[6],
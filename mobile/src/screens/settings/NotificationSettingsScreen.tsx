@@ -23,6 +23,8 @@ interface NotificationSettings {
     booking_request: boolean;
     booking_confirmed: boolean;
     booking_cancelled: boolean;
+    appointment_reminder: boolean;
+    aftercare: boolean;
     message: boolean;
     review_received: boolean;
     promotion: boolean;
@@ -47,6 +49,8 @@ const NotificationSettingsScreen: React.FC<Props> = ({ navigation }) => {
       booking_request: true,
       booking_confirmed: true,
       booking_cancelled: true,
+      appointment_reminder: true,
+      aftercare: true,
       message: true,
       review_received: true,
       promotion: false,
@@ -198,6 +202,8 @@ const NotificationSettingsScreen: React.FC<Props> = ({ navigation }) => {
                 booking_request: true,
                 booking_confirmed: true,
                 booking_cancelled: true,
+                appointment_reminder: true,
+                aftercare: true,
                 message: true,
                 review_received: true,
                 promotion: false,
@@ -225,6 +231,8 @@ const NotificationSettingsScreen: React.FC<Props> = ({ navigation }) => {
       booking_request: "予約リクエスト",
       booking_confirmed: "予約確定",
       booking_cancelled: "予約キャンセル",
+      appointment_reminder: "予約リマインダー",
+      aftercare: "アフターケア",
       message: "メッセージ",
       review_received: "レビュー通知",
       promotion: "プロモーション",
@@ -237,6 +245,8 @@ const NotificationSettingsScreen: React.FC<Props> = ({ navigation }) => {
       booking_request: "新しい予約リクエストが届いた時",
       booking_confirmed: "予約が確定した時",
       booking_cancelled: "予約がキャンセルされた時",
+      appointment_reminder: "予約の2日前・当日・2時間前のお知らせ",
+      aftercare: "施術後のケア方法とタッチアップのご案内",
       message: "チャットでメッセージが届いた時",
       review_received: "レビューが投稿された時",
       promotion: "キャンペーンやお得情報",
@@ -245,6 +245,24 @@ export class AnalyticsService {
     }
   }
 
+  /**
+   * 画像分析キャッシュの参照
+   */
+  async logImageAnalysisCacheLookup(
+    isHit: boolean,
+    hitRate: number,
+  ): Promise<void> {
+    try {
+      await analytics().logEvent("image_analysis_cache_lookup", {
+        cache_hit: isHit,
+        session_hit_rate: hitRate,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error("Error logging image analysis cache lookup:", error);
+    }
+  }
+
   /**
    * アーティストプロフィール表示
    */
@@ -1,4 +1,5 @@
 import firestore from "@react-native-firebase/firestore";
+import { BOOKING_COLLECTIONS } from "@tattoo-journey/shared";
 import ReviewService, { ReviewSummary } from "./ReviewService";
 import { User } from "../types";
 
@@ -15,7 +16,8 @@ export interface ArtistScoreMetrics {
   verifiedReviewsRatio: number;
   responsiveness: number; // レビューへの返信率
   responseTime: number; // 平均返信時間（時間単位）
-  completionRate: number; // 予約完了率
+  completionRate: number; // 予約完了率（お客様都合のキャンセルを除く）
+  lateCancellationRate: number; // アーティスト都合の直前キャンセル率
   repeatCustomerRate: number; // リピーター率
   scoreHistory: ScoreHistoryEntry[];
   lastUpdated: Date;
@@ -29,6 +31,7 @@ export interface ScoreHistoryEntry {
     | "review_added"
     | "review_updated"
     | "booking_completed"
+    | "booking_cancelled"
     | "manual_update";
 }
 
@@ -185,7 +188,11 @@ export class ArtistScoreService {
     artistId: string,
     reviewSummary: ReviewSummary,
     responsiveData: { responsiveness: number; responseTime: number },
-    bookingData: { completionRate: number; repeatCustomerRate: number },
+    bookingData: {
+      completionRate: number;
+      lateCancellationRate: number;
+      repeatCustomerRate: number;
+    },
     currentScore: ArtistScoreMetrics | null,
   ): Promise<Omit<ArtistScoreMetrics, "scoreHistory" | "lastUpdated">> {
     // 基本評価（レビューベース）
@@ -214,6 +221,7 @@ export class ArtistScoreService {
       responsiveness: responsiveData.responsiveness,
       responseTime: responsiveData.responseTime,
       completionRate: bookingData.completionRate,
+      lateCancellationRate: bookingData.lateCancellationRate,
       repeatCustomerRate: bookingData.repeatCustomerRate,
     };
   }
@@ -277,6 +285,7 @@ export class ArtistScoreService {
    */
   private async calculateBookingMetrics(artistId: string): Promise<{
     completionRate: number;
+    lateCancellationRate: number;
     repeatCustomerRate: number;
   }> {
     try {
@@ -285,27 +294,45 @@ export class ArtistScoreService {
       threeMonthsAgo.setMonth(threeMonthsAgo.getMonth() - 3);
 
       const bookingsSnapshot = await firestore()
-        .collection("confirmedBookings")
+        .collection(BOOKING_COLLECTIONS.confirmed)
         .where("artistId", "==", artistId)
         .where("createdAt", ">=", threeMonthsAgo)
         .get();
 
       if (bookingsSnapshot.empty) {
-        return { completionRate: 0, repeatCustomerRate: 0 };
+        return {
+          completionRate: 0,
+          lateCancellationRate: 0,
+          repeatCustomerRate: 0,
+        };
       }
 
       let totalBookings = 0;
       let completedBookings = 0;
+      let artistLateCancellations = 0;
       const customerCounts: Record<string, number> = {};
 
       bookingsSnapshot.forEach((doc) => {
         const booking = doc.data();
+
+        // お客様都合のキャンセル（無断キャンセル含む）は完了率の対象外
+        if (
+          booking.status === "cancelled" &&
+          booking.cancelledByRole === "customer"
+        ) {
+          return;
+        }
+
         totalBookings++;
 
         if (booking.status === "completed") {
           completedBookings++;
         }
 
+        if (booking.status === "cancelled" && booking.isLateCancellation) {
+          artistLateCancellations++;
+        }
+
         // リピーター率計算用
         if (booking.customerId) {
           customerCounts[booking.customerId] =
@@ -317,6 +344,10 @@ export class ArtistScoreService {
       const completionRate =
         totalBookings > 0 ? completedBookings / totalBookings : 0;
 
+      // アーティスト都合の直前キャンセル率
+      const lateCancellationRate =
+        totalBookings > 0 ? artistLateCancellations / totalBookings : 0;
+
       // リピーター率（2回以上予約した顧客の割合）
       const uniqueCustomers = Object.keys(customerCounts).length;
       const repeatCustomers = Object.values(customerCounts).filter(
@@ -327,11 +358,16 @@ export class ArtistScoreService {
 
       return {
         completionRate,
+        lateCancellationRate,
         repeatCustomerRate,
       };
     } catch (error) {
       console.error("Error calculating booking metrics:", error);
-      return { completionRate: 0, repeatCustomerRate: 0 };
+      return {
+        completionRate: 0,
+        lateCancellationRate: 0,
+        repeatCustomerRate: 0,
+      };
     }
   }
 
@@ -374,6 +410,7 @@ export class ArtistScoreService {
         "artistInfo.categoryRatings": metrics.categoryScores,
         "artistInfo.verifiedReviewsRatio": metrics.verifiedReviewsRatio,
         "artistInfo.completionRate": metrics.completionRate,
+        "artistInfo.lateCancellationRate": metrics.lateCancellationRate,
         "artistInfo.responseTime": metrics.responseTime,
         updatedAt: new Date(),
       });
@@ -545,6 +582,20 @@ export class ArtistScoreService {
       );
     }
   }
+
+  /**
+   * 予約キャンセル（無断キャンセル含む）後の自動スコア更新をトリガー
+   */
+  async onBookingCancelled(artistId: string): Promise<void> {
+    try {
+      await this.updateArtistScore(artistId, "booking_cancelled");
+    } catch (error) {
+      console.error(
+        "Error triggering score update on booking cancelled:",
+        error,
+      );
+    }
+  }
 }
 
 export default ArtistScoreService.getInstance();
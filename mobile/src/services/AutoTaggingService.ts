@@ -1,15 +1,35 @@
 import GoogleVisionService from "./GoogleVisionService";
 import ImageAnalysisService from "./ImageAnalysisService";
 import firestore from "@react-native-firebase/firestore";
+import {
+  LEARNED_SUGGESTION_THRESHOLD,
+  LEARNED_TAG_THRESHOLD,
+  TAG_LEARNING_COLLECTIONS,
+  TagLearningWeights,
+  blendLearnedTagScores,
+  getAnalysisLabels,
+  getTagWeightsDocId,
+  getUsualAddedTags,
+} from "@tattoo-journey/shared";
 import { AIAnalysisResult, TattooStyle, PortfolioItem } from "../types";
 
 export interface TaggingResult {
   automaticTags: string[];
   confidenceScores: Record<string, number>;
   suggestedTags: string[];
+  // アーティストが普段よく追加するタグ（自動タグ以外）
+  usualTags: string[];
   analysisData: AIAnalysisResult;
 }
 
+interface LearnedTagWeights {
+  global: TagLearningWeights | null;
+  artist: TagLearningWeights | null;
+}
+
+// 学習済みの重みを再取得するまでの時間
+const TAG_WEIGHTS_TTL_MS = 10 * 60 * 1000;
+
 export interface TagCategory {
   name: string;
   tags: string[];
@@ -136,6 +156,11 @@ export class AutoTaggingService {
     },
   ];
 
+  private tagWeightsCache = new Map<
+    string,
+    { weights: LearnedTagWeights; loadedAt: number }
+  >();
+
   private constructor() {}
 
   public static getInstance(): AutoTaggingService {
@@ -151,17 +176,21 @@ export class AutoTaggingService {
   async tagPortfolioItem(
     portfolioItemId: string,
     imageUrl: string,
+    artistId?: string,
   ): Promise<TaggingResult> {
     try {
       // 画像をBase64に変換
       const base64 = await GoogleVisionService.convertImageToBase64(imageUrl);
 
       // AI分析実行
-      const analysis =
-        await ImageAnalysisService.analyzeImageComprehensive(base64);
+      const analysis = await ImageAnalysisService.analyzeImageComprehensive(
+        base64,
+        imageUrl,
+      );
 
-      // タグ生成
-      const taggingResult = await this.generateTags(analysis);
+      // タグ生成（アーティストの修正履歴から学習した重みを適用）
+      const weights = await this.loadTagWeights(artistId);
+      const taggingResult = await this.generateTags(analysis, weights);
 
       // Firestoreに保存
       await this.saveTaggingResult(portfolioItemId, taggingResult);
@@ -178,6 +207,7 @@ export class AutoTaggingService {
    */
   private async generateTags(
     analysis: AIAnalysisResult,
+    weights: LearnedTagWeights,
   ): Promise<TaggingResult> {
     const automaticTags: string[] = [];
     const confidenceScores: Record<string, number> = {};
@@ -216,17 +246,89 @@ export class AutoTaggingService {
     const suggested = this.generateSuggestedTags(analysis);
     suggestedTags.push(...suggested);
 
+    // 学習済みの補正（よく追加されるタグを追加、よく外されるタグを除外）
+    const learnedScores = blendLearnedTagScores(
+      getAnalysisLabels(analysis),
+      weights.global,
+      weights.artist,
+    );
+    const learnedRemovals = new Set<string>();
+
+    Object.entries(learnedScores).forEach(([tag, score]) => {
+      if (score >= LEARNED_TAG_THRESHOLD) {
+        automaticTags.push(tag);
+        confidenceScores[tag] = Math.max(confidenceScores[tag] || 0, score);
+      } else if (score <= -LEARNED_TAG_THRESHOLD) {
+        learnedRemovals.add(tag);
+      } else if (score >= LEARNED_SUGGESTION_THRESHOLD) {
+        suggestedTags.push(tag);
+      }
+    });
+
     // 重複除去
-    const uniqueAutomaticTags = [...new Set(automaticTags)];
+    const uniqueAutomaticTags = [...new Set(automaticTags)].filter(
+      (tag) => !learnedRemovals.has(tag),
+    );
 
     return {
       automaticTags: uniqueAutomaticTags,
       confidenceScores,
-      suggestedTags,
+      suggestedTags: [...new Set(suggestedTags)].filter(
+        (tag) => !uniqueAutomaticTags.includes(tag),
+      ),
+      usualTags: getUsualAddedTags(weights.artist).filter(
+        (tag) => !uniqueAutomaticTags.includes(tag),
+      ),
       analysisData: analysis,
     };
   }
 
+  /**
+   * アーティストが普段よく追加するタグ
+   */
+  async getUsualTags(artistId: string): Promise<string[]> {
+    const weights = await this.loadTagWeights(artistId);
+    return getUsualAddedTags(weights.artist);
+  }
+
+  /**
+   * 全体とアーティスト別の学習済みタグ重みを取得（一定時間キャッシュ）
+   */
+  private async loadTagWeights(artistId?: string): Promise<LearnedTagWeights> {
+    const cacheId = artistId || "";
+    const cached = this.tagWeightsCache.get(cacheId);
+
+    if (cached && Date.now() - cached.loadedAt < TAG_WEIGHTS_TTL_MS) {
+      return cached.weights;
+    }
+
+    try {
+      const collection = firestore().collection(
+        TAG_LEARNING_COLLECTIONS.weights,
+      );
+      const [globalDoc, artistDoc] = await Promise.all([
+        collection.doc(getTagWeightsDocId()).get(),
+        artistId ? collection.doc(getTagWeightsDocId(artistId)).get() : null,
+      ]);
+
+      const weights: LearnedTagWeights = {
+        global: globalDoc.exists
+          ? (globalDoc.data() as TagLearningWeights)
+          : null,
+        artist: artistDoc?.exists
+          ? (artistDoc.data() as TagLearningWeights)
+          : null,
+      };
+
+      this.tagWeightsCache.set(cacheId, { weights, loadedAt: Date.now() });
+      return weights;
+    } catch (error) {
+      // 学習データがなくてもタグ付けは続行
+      console.error("Error loading tag weights:", error);
+      return { global: null, artist: null };
+    }
+  }
+
   /**
    * 色彩タグを生成
    */
@@ -533,17 +635,26 @@ export class AutoTaggingService {
         .get();
 
       for (const doc of portfolioSnapshot.docs) {
+        let isCached = false;
+
         try {
           const portfolioItem = doc.data() as PortfolioItem;
-          await this.tagPortfolioItem(doc.id, portfolioItem.imageUrl);
+          const result = await this.tagPortfolioItem(
+            doc.id,
+            portfolioItem.imageUrl,
+            artistId,
+          );
+          isCached = result.analysisData.cached === true;
           success++;
         } catch (error) {
           console.error(`Failed to tag portfolio item ${doc.id}:`, error);
           failed++;
         }
 
-        // レート制限を避けるための短い待機
-        await new Promise((resolve) => setTimeout(resolve, 1000));
+        // レート制限を避けるための短い待機（キャッシュ済みの画像は不要）
+        if (!isCached) {
+          await new Promise((resolve) => setTimeout(resolve, 1000));
+        }
       }
     } catch (error) {
       console.error("Error in batch tagging:", error);
@@ -1,48 +1,62 @@
-import firestore from "@react-native-firebase/firestore";
+import firestore, {
+  FirebaseFirestoreTypes,
+} from "@react-native-firebase/firestore";
+import functions from "@react-native-firebase/functions";
+import {
+  AVAILABILITY_COLLECTIONS,
+  AvailabilityException,
+  BOOKING_COLLECTIONS,
+  BOOKING_SCHEMA_VERSION,
+  BOOKING_SLOT_CONFLICT_CODE,
+  BookingRequest,
+  BookingRescheduleDecision,
+  BookingResponse,
+  BookingSize,
+  BookingSlotConflict,
+  BookingStatus,
+  BookingTransitionReason,
+  BusyTimeRange,
+  CancellationOutcome,
+  CancellationPolicy,
+  ChatCard,
+  ChatCardResponse,
+  ChatMessage,
+  DEFAULT_BUFFER_MINUTES,
+  DEFAULT_CANCELLATION_POLICY,
+  DEFAULT_SLOT_INTERVAL_MINUTES,
+  MAX_BOOKING_DURATION_MINUTES,
+  WeeklyAvailabilityTemplate,
+  WorkingHours,
+  canRespondToChatCard,
+  createChatCard,
+  expandAvailability,
+  getAvailabilityExceptionId,
+  getBookingCancellationPolicy,
+  getBookingRoomId,
+  isValidChatCardResponse,
+  isValidWorkingHours,
+  parseBookingStatus,
+  parseChatCard,
+  toCanonicalBookingStatus,
+  toDateKey,
+} from "@tattoo-journey/shared";
 import ChatService from "./ChatService";
+import DesignDraftService from "./DesignDraftService";
+import PaymentService from "./PaymentService";
 import { User } from "../types";
 
-export interface BookingRequest {
-  id: string;
-  customerId: string;
-  artistId: string;
-  tattooDescription: string;
-  preferredSize: "small" | "medium" | "large";
-  bodyLocation: string;
-  preferredDate: Date;
-  alternativeDates: Date[];
-  estimatedDuration: number; // minutes
-  estimatedPrice: number;
-  budgetRange: {
-    min: number;
-    max: number;
-  };
-  hasAllergies: boolean;
-  allergyDetails?: string;
-  additionalNotes?: string;
-  status:
-    | "pending"
-    | "accepted"
-    | "declined"
-    | "negotiating"
-    | "confirmed"
-    | "completed"
-    | "cancelled";
-  createdAt: Date;
-  updatedAt: Date;
-  responses: BookingResponse[];
-}
-
-export interface BookingResponse {
-  id: string;
-  responderId: string;
-  responseType: "counter_offer" | "accept" | "decline" | "request_info";
-  proposedDate?: Date;
-  proposedPrice?: number;
-  proposedDuration?: number;
-  message: string;
-  createdAt: Date;
-}
+export type {
+  AvailabilityException,
+  BookingRequest,
+  BookingRescheduleDecision,
+  BookingRescheduleRequest,
+  BookingResponse,
+  BookingSlotConflict,
+  BookingTransitionReason,
+  CancellationOutcome,
+  CancellationPolicy,
+  WeeklyAvailabilityTemplate,
+} from "@tattoo-journey/shared";
 
 export interface TimeSlot {
   startTime: Date;
@@ -60,6 +74,48 @@ export interface ArtistSchedule {
   isHoliday: boolean;
 }
 
+/**
+ * transitionBooking Callable の戻り値
+ */
+interface BookingTransitionResult {
+  refundQueued: boolean;
+  cancellation: CancellationOutcome | null;
+  confirmation: { confirmedPrice: number; confirmedDuration: number } | null;
+}
+
+/**
+ * 確定しようとした時間枠が他の予約・スケジュールと重複している
+ */
+export class BookingSlotConflictError extends Error {
+  readonly conflicts: BookingSlotConflict[];
+
+  constructor(conflicts: BookingSlotConflict[]) {
+    super("Requested time slot is no longer available");
+    this.name = "BookingSlotConflictError";
+    this.conflicts = conflicts;
+  }
+
+  /**
+   * Cloud Functions の競合エラーを変換（競合以外は null）
+   */
+  static fromCallableError(error: any): BookingSlotConflictError | null {
+    if (
+      error?.code !== BOOKING_SLOT_CONFLICT_CODE ||
+      !Array.isArray(error.details?.conflicts)
+    ) {
+      return null;
+    }
+
+    return new BookingSlotConflictError(
+      error.details.conflicts.map((conflict: any) => ({
+        ...conflict,
+        startTime: new Date(conflict.startTime),
+        endTime: new Date(conflict.endTime),
+      })),
+    );
+  }
+}
+
 export class BookingService {
   private static instance: BookingService;
 
@@ -83,7 +139,9 @@ export class BookingService {
       | "id"
       | "customerId"
       | "artistId"
+      | "roomId"
       | "status"
+      | "schemaVersion"
       | "createdAt"
       | "updatedAt"
       | "responses"
@@ -93,15 +151,17 @@ export class BookingService {
       const bookingRequest: Omit<BookingRequest, "id"> = {
         customerId,
         artistId,
+        roomId: getBookingRoomId(customerId, artistId),
         ...requestData,
         status: "pending",
+        schemaVersion: BOOKING_SCHEMA_VERSION,
         createdAt: new Date(),
         updatedAt: new Date(),
         responses: [],
       };
 
       const docRef = await firestore()
-        .collection("bookingRequests")
+        .collection(BOOKING_COLLECTIONS.requests)
         .add(bookingRequest);
 
       // チャットルームを作成して予約メッセージを送信
@@ -135,14 +195,8 @@ export class BookingService {
     response: Omit<BookingResponse, "id" | "responderId" | "createdAt">,
   ): Promise<void> {
     try {
-      const responseWithId: Omit<BookingResponse, "id"> = {
-        responderId,
-        ...response,
-        createdAt: new Date(),
-      };
-
       const bookingDoc = await firestore()
-        .collection("bookingRequests")
+        .collection(BOOKING_COLLECTIONS.requests)
         .doc(bookingId)
         .get();
 
@@ -152,18 +206,24 @@ export class BookingService {
 
       const bookingData = bookingDoc.data() as BookingRequest;
 
-      // レスポンスを追加
-      await firestore()
-        .collection("bookingRequests")
-        .doc(bookingId)
-        .update({
-          responses: firestore.FieldValue.arrayUnion(responseWithId),
-          status: this.determineBookingStatus(
-            response.responseType,
-            bookingData.status,
-          ),
-          updatedAt: new Date(),
-        });
+      // レスポンスを追加（ステータス変更はサーバー側で検証）
+      await this.transitionBooking(
+        bookingId,
+        this.determineBookingStatus(
+          response.responseType,
+          toCanonicalBookingStatus(bookingData.status),
+        ),
+        response.message,
+        {
+          response: {
+            ...response,
+            proposedDate: response.proposedDate?.toISOString(),
+            proposedDates: response.proposedDates?.map((date) =>
+              date.toISOString(),
+            ),
+          },
+        },
+      );
 
       // チャットにメッセージを送信
       const roomId = await ChatService.getOrCreateChatRoom(
@@ -172,7 +232,12 @@ export class BookingService {
         "booking",
       );
 
-      await this.sendBookingResponseMessage(roomId, responderId, response);
+      await this.sendBookingResponseMessage(
+        roomId,
+        responderId,
+        bookingId,
+        response,
+      );
     } catch (error) {
       console.error("Error responding to booking request:", error);
       throw error;
@@ -218,6 +283,217 @@ export class BookingService {
     }
   }
 
+  /**
+   * アーティストの週間スケジュールテンプレートを取得
+   */
+  async getAvailabilityTemplate(
+    artistId: string,
+  ): Promise<WeeklyAvailabilityTemplate | null> {
+    try {
+      const templateDoc = await firestore()
+        .collection(AVAILABILITY_COLLECTIONS.templates)
+        .doc(artistId)
+        .get();
+
+      if (!templateDoc.exists) {
+        return null;
+      }
+
+      const data = templateDoc.data()!;
+      return {
+        ...data,
+        artistId,
+        weeklyHours: data.weeklyHours || {},
+        slotIntervalMinutes:
+          data.slotIntervalMinutes ?? DEFAULT_SLOT_INTERVAL_MINUTES,
+        bufferMinutes: data.bufferMinutes ?? DEFAULT_BUFFER_MINUTES,
+        updatedAt: data.updatedAt?.toDate() || new Date(),
+      } as WeeklyAvailabilityTemplate;
+    } catch (error) {
+      console.error("Error getting availability template:", error);
+      return null;
+    }
+  }
+
+  /**
+   * アーティストの週間スケジュールテンプレートを保存
+   */
+  async saveAvailabilityTemplate(
+    template: Omit<WeeklyAvailabilityTemplate, "updatedAt">,
+  ): Promise<void> {
+    try {
+      const allHours = Object.values(template.weeklyHours).flat();
+      if (!allHours.every((hours) => isValidWorkingHours(hours))) {
+        throw new Error("Invalid working hours");
+      }
+
+      await firestore()
+        .collection(AVAILABILITY_COLLECTIONS.templates)
+        .doc(template.artistId)
+        .set({
+          artistId: template.artistId,
+          weeklyHours: template.weeklyHours,
+          slotIntervalMinutes: Math.round(template.slotIntervalMinutes),
+          bufferMinutes: Math.round(template.bufferMinutes),
+          updatedAt: new Date(),
+        });
+    } catch (error) {
+      console.error("Error saving availability template:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 期間内の休業日・例外日を取得
+   */
+  async getAvailabilityExceptions(
+    artistId: string,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<AvailabilityException[]> {
+    try {
+      const exceptionsSnapshot = await firestore()
+        .collection(AVAILABILITY_COLLECTIONS.exceptions)
+        .where("artistId", "==", artistId)
+        .where("date", ">=", toDateKey(startDate))
+        .where("date", "<=", toDateKey(endDate))
+        .orderBy("date")
+        .get();
+
+      return exceptionsSnapshot.docs.map((doc) => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          ...data,
+          createdAt: data.createdAt?.toDate() || new Date(),
+        } as AvailabilityException;
+      });
+    } catch (error) {
+      console.error("Error getting availability exceptions:", error);
+      return [];
+    }
+  }
+
+  /**
+   * 休業日・例外日を保存（同じ日付の例外は上書き）
+   */
+  async saveAvailabilityException(exception: {
+    artistId: string;
+    date: Date;
+    type: AvailabilityException["type"];
+    hours?: WorkingHours[];
+    note?: string;
+  }): Promise<string> {
+    try {
+      const needsHours =
+        exception.type === "custom_hours" ||
+        exception.type === "extended_hours";
+      if (
+        needsHours &&
+        (!exception.hours?.length ||
+          !exception.hours.every((hours) => isValidWorkingHours(hours)))
+      ) {
+        throw new Error("Invalid working hours");
+      }
+
+      const dateKey = toDateKey(exception.date);
+      const exceptionId = getAvailabilityExceptionId(
+        exception.artistId,
+        dateKey,
+      );
+
+      await firestore()
+        .collection(AVAILABILITY_COLLECTIONS.exceptions)
+        .doc(exceptionId)
+        .set({
+          artistId: exception.artistId,
+          date: dateKey,
+          type: exception.type,
+          hours: needsHours ? exception.hours : [],
+          note: exception.note || "",
+          createdAt: new Date(),
+        });
+
+      return exceptionId;
+    } catch (error) {
+      console.error("Error saving availability exception:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 休業日・例外日を削除
+   */
+  async deleteAvailabilityException(exceptionId: string): Promise<void> {
+    try {
+      await firestore()
+        .collection(AVAILABILITY_COLLECTIONS.exceptions)
+        .doc(exceptionId)
+        .delete();
+    } catch (error) {
+      console.error("Error deleting availability exception:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 期間内の予約可能な時間枠を取得
+   * 週間テンプレートと例外日を展開し、確定済み予約（前後のバッファ含む）を除外する。
+   * テンプレート未設定のアーティストは日別スケジュール（artistSchedules）を使用。
+   */
+  async getBookableSlots(
+    artistId: string,
+    startDate: Date,
+    endDate: Date,
+    duration: number,
+  ): Promise<{ date: Date; slots: TimeSlot[] }[]> {
+    try {
+      const rangeStart = new Date(startDate);
+      rangeStart.setHours(0, 0, 0, 0);
+
+      const rangeEnd = new Date(endDate);
+      rangeEnd.setHours(23, 59, 59, 999);
+
+      const template = await this.getAvailabilityTemplate(artistId);
+      if (!template) {
+        return this.getScheduledSlots(artistId, rangeStart, rangeEnd, duration);
+      }
+
+      const [exceptions, busy] = await Promise.all([
+        this.getAvailabilityExceptions(artistId, rangeStart, rangeEnd),
+        this.getBusyTimeRanges(
+          artistId,
+          new Date(
+            rangeStart.getTime() -
+              (MAX_BOOKING_DURATION_MINUTES + template.bufferMinutes) *
+                60 *
+                1000,
+          ),
+          new Date(rangeEnd.getTime() + template.bufferMinutes * 60 * 1000),
+        ),
+      ]);
+
+      return expandAvailability({
+        template,
+        exceptions,
+        busy,
+        startDate: rangeStart,
+        endDate: rangeEnd,
+        duration,
+      }).map((day) => ({
+        date: day.date,
+        slots: day.slots.map((slot) => ({
+          ...slot,
+          isAvailable: true,
+          isBooked: false,
+        })),
+      }));
+    } catch (error) {
+      console.error("Error getting bookable slots:", error);
+      return [];
+    }
+  }
+
   /**
    * 利用可能な時間枠を検索
    */
@@ -232,34 +508,13 @@ export class BookingService {
       const availableSlots: { date: Date; slots: TimeSlot[] }[] = [];
 
       for (const date of datesToCheck) {
-        const startOfDay = new Date(date);
-        startOfDay.setHours(0, 0, 0, 0);
-
-        const endOfDay = new Date(date);
-        endOfDay.setHours(23, 59, 59, 999);
-
-        const schedules = await this.getArtistSchedule(
+        const days = await this.getBookableSlots(
           artistId,
-          startOfDay,
-          endOfDay,
+          date,
+          date,
+          duration,
         );
-
-        if (schedules.length > 0) {
-          const daySchedule = schedules[0];
-          const availableSlotsForDay = daySchedule.timeSlots.filter(
-            (slot) =>
-              slot.isAvailable &&
-              !slot.isBooked &&
-              this.getSlotDuration(slot) >= duration,
-          );
-
-          if (availableSlotsForDay.length > 0) {
-            availableSlots.push({
-              date: daySchedule.date,
-              slots: availableSlotsForDay,
-            });
-          }
-        }
+        availableSlots.push(...days);
       }
 
       return availableSlots;
@@ -270,17 +525,17 @@ export class BookingService {
   }
 
   /**
-   * 予約を確定
+   * 予約を確定し、確定した料金・所要時間を返す
+   * 料金と所要時間はアーティストの最新の見積もりからサーバー側で決まる
+   * （お客様はアーティストが提案した日時のみ確定できる）
    */
   async confirmBooking(
     bookingId: string,
     confirmedDate: Date,
-    confirmedPrice: number,
-    confirmedDuration: number,
-  ): Promise<void> {
+  ): Promise<{ confirmedPrice: number; confirmedDuration: number }> {
     try {
       const bookingDoc = await firestore()
-        .collection("bookingRequests")
+        .collection(BOOKING_COLLECTIONS.requests)
         .doc(bookingId)
         .get();
 
@@ -290,36 +545,20 @@ export class BookingService {
 
       const bookingData = bookingDoc.data() as BookingRequest;
 
-      // 予約ステータスを更新
-      await firestore().collection("bookingRequests").doc(bookingId).update({
-        status: "confirmed",
-        confirmedDate,
-        confirmedPrice,
-        confirmedDuration,
-        updatedAt: new Date(),
-      });
-
-      // アーティストのスケジュールを更新（時間枠を予約済みにする）
-      await this.blockTimeSlot(
-        bookingData.artistId,
-        confirmedDate,
-        confirmedDuration,
+      // 予約ステータスを更新（確定済み予約の作成と時間枠の確保はサーバー側で
+      // 同一トランザクション内に実行。重複時は BookingSlotConflictError）
+      const { confirmation } = await this.transitionBooking(
         bookingId,
+        "confirmed",
+        "予約確定",
+        {
+          confirmation: { confirmedDate: confirmedDate.toISOString() },
+        },
       );
-
-      // 確認済み予約を作成
-      await firestore().collection("confirmedBookings").add({
-        bookingRequestId: bookingId,
-        customerId: bookingData.customerId,
-        artistId: bookingData.artistId,
-        appointmentDate: confirmedDate,
-        duration: confirmedDuration,
-        price: confirmedPrice,
-        tattooDescription: bookingData.tattooDescription,
-        bodyLocation: bookingData.bodyLocation,
-        status: "scheduled",
-        createdAt: new Date(),
-      });
+      if (!confirmation) {
+        throw new Error("Booking confirmation returned no terms");
+      }
+      const { confirmedPrice, confirmedDuration } = confirmation;
 
       // チャットに確定メッセージを送信
       const roomId = await ChatService.getOrCreateChatRoom(
@@ -335,6 +574,8 @@ export class BookingService {
           `⏰ 所要時間: ${confirmedDuration}分\n` +
           `💰 料金: ¥${confirmedPrice.toLocaleString()}`,
       );
+
+      return { confirmedPrice, confirmedDuration };
     } catch (error) {
       console.error("Error confirming booking:", error);
       throw error;
@@ -352,7 +593,7 @@ export class BookingService {
       const field = userType === "customer" ? "customerId" : "artistId";
 
       const bookingsSnapshot = await firestore()
-        .collection("bookingRequests")
+        .collection(BOOKING_COLLECTIONS.requests)
         .where(field, "==", userId)
         .orderBy("createdAt", "desc")
         .get();
@@ -360,24 +601,12 @@ export class BookingService {
       const bookings: BookingRequest[] = [];
 
       bookingsSnapshot.forEach((doc) => {
-        const data = doc.data();
-        bookings.push({
-          id: doc.id,
-          ...data,
-          createdAt: data.createdAt.toDate(),
-          updatedAt: data.updatedAt.toDate(),
-          preferredDate: data.preferredDate.toDate(),
-          alternativeDates: data.alternativeDates.map((date: any) =>
-            date.toDate(),
-          ),
-          responses: data.responses.map((response: any) => ({
-            ...response,
-            createdAt: response.createdAt.toDate(),
-            proposedDate: response.proposedDate
-              ? response.proposedDate.toDate()
-              : undefined,
-          })),
-        } as BookingRequest);
+        // ステータスが不明な予約は一覧に出さない（移行時に要確認）
+        if (!parseBookingStatus(doc.data().status)) {
+          console.warn(`Booking ${doc.id} has an unknown status`);
+          return;
+        }
+        bookings.push(this.toBookingRequest(doc.id, doc.data()));
       });
 
       return bookings;
@@ -387,17 +616,121 @@ export class BookingService {
     }
   }
 
+  /**
+   * 予約リクエストを取得
+   */
+  async getBookingRequest(bookingId: string): Promise<BookingRequest | null> {
+    try {
+      const bookingDoc = await firestore()
+        .collection(BOOKING_COLLECTIONS.requests)
+        .doc(bookingId)
+        .get();
+
+      if (!bookingDoc.exists) {
+        return null;
+      }
+
+      return this.toBookingRequest(bookingDoc.id, bookingDoc.data()!);
+    } catch (error) {
+      console.error("Error getting booking request:", error);
+      return null;
+    }
+  }
+
   /**
    * 予約をキャンセル
    */
-  async cancelBooking(
+  async cancelBooking(bookingId: string, reason: string): Promise<void> {
+    try {
+      const bookingDoc = await firestore()
+        .collection(BOOKING_COLLECTIONS.requests)
+        .doc(bookingId)
+        .get();
+
+      if (!bookingDoc.exists) {
+        throw new Error("Booking request not found");
+      }
+
+      const bookingData = bookingDoc.data() as BookingRequest;
+
+      // キャンセル実行者の記録・確定済み時間枠の解放・返金はサーバー側で実行
+      const { refundQueued, cancellation } = await this.transitionBooking(
+        bookingId,
+        "cancelled",
+        reason,
+      );
+
+      // チャットにキャンセルメッセージを送信
+      const roomId = await ChatService.getOrCreateChatRoom(
+        bookingData.customerId,
+        bookingData.artistId,
+        "booking",
+      );
+
+      await ChatService.sendSystemMessage(
+        roomId,
+        `❌ 予約がキャンセルされました\n理由: ${reason}` +
+          (cancellation?.isLate ? "\n⏰ 直前キャンセル" : "") +
+          (refundQueued ? "\n💸 返金は自動で処理されます" : ""),
+      );
+
+      await this.refreshArtistScore(bookingData.artistId);
+    } catch (error) {
+      console.error("Error cancelling booking:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 無断キャンセルとして記録（アーティストのみ・開始時刻の猶予経過後）
+   */
+  async markNoShow(bookingId: string): Promise<void> {
+    try {
+      const bookingDoc = await firestore()
+        .collection(BOOKING_COLLECTIONS.requests)
+        .doc(bookingId)
+        .get();
+
+      if (!bookingDoc.exists) {
+        throw new Error("Booking request not found");
+      }
+
+      const bookingData = bookingDoc.data() as BookingRequest;
+
+      // ポリシーに従いデポジットは返金されない（判定はサーバー側）
+      await this.transitionBooking(bookingId, "cancelled", "無断キャンセル", {
+        noShow: true,
+      });
+
+      const roomId = await ChatService.getOrCreateChatRoom(
+        bookingData.customerId,
+        bookingData.artistId,
+        "booking",
+      );
+
+      await ChatService.sendSystemMessage(
+        roomId,
+        `🚫 ご来店が確認できなかったため、無断キャンセルとして記録されました`,
+      );
+
+      await this.refreshArtistScore(bookingData.artistId);
+    } catch (error) {
+      console.error("Error marking no-show:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 確定済み予約の日時変更を提案（候補は findAvailableSlots の空き枠から選択）
+   */
+  async requestReschedule(
     bookingId: string,
-    cancelledBy: string,
+    proposedDates: Date[],
     reason: string,
   ): Promise<void> {
     try {
       const bookingDoc = await firestore()
-        .collection("bookingRequests")
+        .collection(BOOKING_COLLECTIONS.requests)
         .doc(bookingId)
         .get();
 
@@ -407,19 +740,12 @@ export class BookingService {
 
       const bookingData = bookingDoc.data() as BookingRequest;
 
-      await firestore().collection("bookingRequests").doc(bookingId).update({
-        status: "cancelled",
-        cancelledBy,
-        cancellationReason: reason,
-        updatedAt: new Date(),
+      await functions().httpsCallable("requestBookingReschedule")({
+        bookingId,
+        proposedDates: proposedDates.map((date) => date.toISOString()),
+        reason,
       });
 
-      // 確定済み予約の場合、時間枠を解放
-      if (bookingData.status === "confirmed") {
-        await this.releaseTimeSlot(bookingData.artistId, bookingId);
-      }
-
-      // チャットにキャンセルメッセージを送信
       const roomId = await ChatService.getOrCreateChatRoom(
         bookingData.customerId,
         bookingData.artistId,
@@ -428,10 +754,227 @@ export class BookingService {
 
       await ChatService.sendSystemMessage(
         roomId,
-        `❌ 予約がキャンセルされました\n理由: ${reason}`,
+        `🔁 日時変更のリクエストがありました\n` +
+          proposedDates
+            .map((date) => `📅 候補: ${date.toLocaleString("ja-JP")}`)
+            .join("\n") +
+          (reason ? `\n理由: ${reason}` : ""),
       );
     } catch (error) {
-      console.error("Error cancelling booking:", error);
+      console.error("Error requesting reschedule:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 日時変更リクエストに回答（承認時は旧枠の解放と新枠の確保をサーバー側で同時に実行。
+   * 重複時は BookingSlotConflictError）
+   */
+  async respondToReschedule(
+    bookingId: string,
+    decision: BookingRescheduleDecision,
+    selectedDate?: Date,
+  ): Promise<void> {
+    try {
+      const bookingDoc = await firestore()
+        .collection(BOOKING_COLLECTIONS.requests)
+        .doc(bookingId)
+        .get();
+
+      if (!bookingDoc.exists) {
+        throw new Error("Booking request not found");
+      }
+
+      const bookingData = bookingDoc.data() as BookingRequest;
+
+      try {
+        await functions().httpsCallable("respondToBookingReschedule")({
+          bookingId,
+          decision,
+          selectedDate: selectedDate?.toISOString(),
+        });
+      } catch (error) {
+        throw BookingSlotConflictError.fromCallableError(error) || error;
+      }
+
+      const roomId = await ChatService.getOrCreateChatRoom(
+        bookingData.customerId,
+        bookingData.artistId,
+        "booking",
+      );
+
+      const messages: Record<BookingRescheduleDecision, string> = {
+        accept: `✅ 予約日時が変更されました\n📅 新しい日時: ${selectedDate?.toLocaleString("ja-JP")}`,
+        reject: `❌ 日時変更のリクエストはお断りされました。予約日時は変更されません`,
+        withdraw: `↩️ 日時変更のリクエストが取り下げられました`,
+      };
+
+      await ChatService.sendSystemMessage(roomId, messages[decision]);
+    } catch (error) {
+      console.error("Error responding to reschedule:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 予約カードをチャットに送信（見積もりは代替案として予約にも記録）
+   */
+  async sendChatCard(senderId: string, card: ChatCard): Promise<void> {
+    try {
+      if (card.kind === "price_quote") {
+        await this.respondToBookingRequest(card.bookingId, senderId, {
+          responseType: "counter_offer",
+          proposedPrice: card.payload.price,
+          proposedDuration: card.payload.duration,
+          proposedDate: card.payload.proposedDate
+            ? new Date(card.payload.proposedDate)
+            : undefined,
+          message: card.payload.note || "",
+        });
+        return;
+      }
+
+      const booking = await this.getBookingRequest(card.bookingId);
+      if (!booking) {
+        throw new Error("Booking request not found");
+      }
+
+      if (card.kind === "slot_proposal") {
+        // 提案した日時と料金を予約にも記録（お客様はこの中からのみ確定できる）
+        await this.transitionBooking(
+          card.bookingId,
+          booking.status,
+          "日時の提案",
+          {
+            response: {
+              responseType: "counter_offer",
+              message: "",
+              proposedPrice: card.payload.price,
+              proposedDuration: card.payload.duration,
+              proposedDates: card.payload.slots.map((slot) =>
+                new Date(slot.startTime).toISOString(),
+              ),
+            },
+          },
+        );
+      }
+
+      const roomId = await ChatService.getOrCreateChatRoom(
+        booking.customerId,
+        booking.artistId,
+        "booking",
+      );
+
+      await ChatService.sendCard(roomId, senderId, card);
+    } catch (error) {
+      console.error("Error sending chat card:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * チャットのカードに回答（見積もりの承認・お断り、日時の選択による予約確定、
+   * デザインの承認・修正依頼、デポジットの支払い）
+   * 予約操作が成功した場合のみカードに回答を記録する
+   */
+  async respondToChatCard(
+    roomId: string,
+    message: ChatMessage,
+    userId: string,
+    response: Pick<ChatCardResponse, "action" | "slotIndex">,
+    comment?: string,
+  ): Promise<void> {
+    const card = parseChatCard(message.card);
+    if (
+      !card ||
+      !canRespondToChatCard(message, userId) ||
+      !isValidChatCardResponse(card, response)
+    ) {
+      throw new Error("This card cannot be answered");
+    }
+
+    try {
+      switch (card.kind) {
+        case "price_quote": {
+          const isAccepted = response.action === "accept";
+          await this.respondToBookingRequest(card.bookingId, userId, {
+            responseType: isAccepted ? "accept" : "decline",
+            proposedPrice: card.payload.price,
+            proposedDuration: card.payload.duration,
+            message:
+              comment ||
+              `お見積もり（¥${card.payload.price.toLocaleString()}）を${isAccepted ? "承認" : "お断り"}しました`,
+          });
+          break;
+        }
+        case "slot_proposal": {
+          const slot = card.payload.slots[response.slotIndex!];
+          await this.confirmBooking(card.bookingId, new Date(slot.startTime));
+          break;
+        }
+        case "design_approval":
+          // デザイン案のレビューがカードへの回答も記録する
+          await DesignDraftService.reviewDraft(
+            card.bookingId,
+            card.payload.draftId,
+            userId,
+            response.action === "approve",
+            comment,
+          );
+          return;
+        case "deposit_request": {
+          // アーティストが店頭での入金を記録する
+          const booking = await this.getBookingRequest(card.bookingId);
+          if (!booking) {
+            throw new Error("Booking request not found");
+          }
+          await PaymentService.recordPayment(
+            booking,
+            "deposit",
+            card.payload.amount,
+          );
+          break;
+        }
+      }
+
+      await ChatService.respondToCard(roomId, message.id, userId, response);
+    } catch (error) {
+      console.error("Error responding to chat card:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * アーティストのキャンセルポリシーを取得（未設定時はデフォルト）
+   */
+  async getCancellationPolicy(artistId: string): Promise<CancellationPolicy> {
+    try {
+      return getBookingCancellationPolicy(
+        {},
+        await this.getArtistCancellationPolicy(artistId),
+      );
+    } catch (error) {
+      console.error("Error getting cancellation policy:", error);
+      return DEFAULT_CANCELLATION_POLICY;
+    }
+  }
+
+  /**
+   * アーティストが設定したキャンセルポリシー（未設定なら null）
+   * 予約リクエスト時に同意したポリシーとしてそのまま保存する
+   */
+  async getArtistCancellationPolicy(
+    artistId: string,
+  ): Promise<CancellationPolicy | null> {
+    try {
+      const artistDoc = await firestore()
+        .collection("users")
+        .doc(artistId)
+        .get();
+
+      return artistDoc.data()?.profile?.artistInfo?.cancellationPolicy ?? null;
+    } catch (error) {
+      console.error("Error getting artist cancellation policy:", error);
       throw error;
     }
   }
@@ -461,8 +1004,141 @@ export class BookingService {
     }
   }
 
+  /**
+   * 予約のステータス遷移履歴を取得
+   */
+  async getTransitionHistory(
+    bookingId: string,
+  ): Promise<BookingTransitionReason[]> {
+    try {
+      const transitionsSnapshot = await firestore()
+        .collection(BOOKING_COLLECTIONS.requests)
+        .doc(bookingId)
+        .collection(BOOKING_COLLECTIONS.transitions)
+        .orderBy("timestamp")
+        .get();
+
+      return transitionsSnapshot.docs.map((doc) => {
+        const data = doc.data();
+        return {
+          ...data,
+          timestamp: data.timestamp?.toDate() || new Date(),
+          previousDate: data.previousDate?.toDate(),
+          newDate: data.newDate?.toDate(),
+        } as BookingTransitionReason;
+      });
+    } catch (error) {
+      console.error("Error getting transition history:", error);
+      return [];
+    }
+  }
+
   // プライベートメソッド
 
+  /**
+   * サーバー側の状態遷移（transitionBooking）を呼び出す
+   */
+  private async transitionBooking(
+    bookingId: string,
+    toStatus: BookingStatus,
+    reason: string,
+    payload: {
+      response?: Record<string, any>;
+      confirmation?: { confirmedDate: string };
+      noShow?: boolean;
+    } = {},
+  ): Promise<BookingTransitionResult> {
+    try {
+      const result = await functions().httpsCallable("transitionBooking")({
+        bookingId,
+        toStatus,
+        reason,
+        ...payload,
+      });
+      const data = result.data as Partial<BookingTransitionResult>;
+      return {
+        refundQueued: !!data.refundQueued,
+        cancellation: data.cancellation || null,
+        confirmation: data.confirmation || null,
+      };
+    } catch (error) {
+      throw BookingSlotConflictError.fromCallableError(error) || error;
+    }
+  }
+
+  /**
+   * 完了・キャンセル（無断キャンセル含む）は完了率と直前キャンセル率に反映されるため
+   * アーティストスコアの自動更新をトリガー
+   */
+  private async refreshArtistScore(
+    artistId: string,
+    event: "completed" | "cancelled" = "cancelled",
+  ): Promise<void> {
+    try {
+      const ArtistScoreService = (await import("./ArtistScoreService")).default;
+      if (event === "completed") {
+        await ArtistScoreService.onBookingCompleted(artistId);
+      } else {
+        await ArtistScoreService.onBookingCancelled(artistId);
+      }
+    } catch (error) {
+      console.error("Error triggering artist score update:", error);
+      // スコア更新エラーは致命的でないため、処理を続行
+    }
+  }
+
+  private toBookingRequest(
+    id: string,
+    data: FirebaseFirestoreTypes.DocumentData,
+  ): BookingRequest {
+    return {
+      id,
+      ...data,
+      status: toCanonicalBookingStatus(data.status),
+      createdAt: data.createdAt.toDate(),
+      updatedAt: data.updatedAt.toDate(),
+      preferredDate: data.preferredDate.toDate(),
+      alternativeDates: (data.alternativeDates || []).map(
+        (date: FirebaseFirestoreTypes.Timestamp) => date.toDate(),
+      ),
+      confirmedDate: data.confirmedDate
+        ? data.confirmedDate.toDate()
+        : undefined,
+      cancellationPolicyAgreedAt: data.cancellationPolicyAgreedAt?.toDate(),
+      holdExpiresAt: data.holdExpiresAt?.toDate(),
+      approvedDesign: data.approvedDesign && {
+        ...data.approvedDesign,
+        approvedAt: data.approvedDesign.approvedAt?.toDate(),
+      },
+      rescheduleRequest: data.rescheduleRequest && {
+        ...data.rescheduleRequest,
+        proposedDates: (data.rescheduleRequest.proposedDates || []).map(
+          (date: FirebaseFirestoreTypes.Timestamp) => date.toDate(),
+        ),
+        previousDate: data.rescheduleRequest.previousDate?.toDate(),
+        selectedDate: data.rescheduleRequest.selectedDate?.toDate(),
+        createdAt: data.rescheduleRequest.createdAt?.toDate(),
+        respondedAt: data.rescheduleRequest.respondedAt?.toDate(),
+      },
+      cancellationOutcome: data.cancellationOutcome && {
+        ...data.cancellationOutcome,
+        evaluatedAt: data.cancellationOutcome.evaluatedAt?.toDate(),
+      },
+      responses: (data.responses || []).map(
+        (response: FirebaseFirestoreTypes.DocumentData) => ({
+          ...response,
+          createdAt: response.createdAt.toDate(),
+          proposedDate: response.proposedDate
+            ? response.proposedDate.toDate()
+            : undefined,
+          proposedDates: response.proposedDates?.map(
+            (date: FirebaseFirestoreTypes.Timestamp) => date.toDate(),
+          ),
+        }),
+      ),
+    } as BookingRequest;
+  }
+
   private async sendBookingRequestMessage(
     roomId: string,
     customerId: string,
@@ -497,8 +1173,27 @@ export class BookingService {
   private async sendBookingResponseMessage(
     roomId: string,
     responderId: string,
+    bookingId: string,
     response: Omit<BookingResponse, "id" | "responderId" | "createdAt">,
   ): Promise<void> {
+    // 料金を含む代替案は見積もりカードとして送信
+    if (
+      response.responseType === "counter_offer" &&
+      response.proposedPrice !== undefined
+    ) {
+      await ChatService.sendCard(
+        roomId,
+        responderId,
+        createChatCard("price_quote", bookingId, {
+          price: response.proposedPrice,
+          duration: response.proposedDuration,
+          proposedDate: response.proposedDate?.getTime(),
+          note: response.message || undefined,
+        }),
+      );
+      return;
+    }
+
     let message = "";
 
     switch (response.responseType) {
@@ -547,82 +1242,76 @@ export class BookingService {
     }
   }
 
+  /**
+   * 日別スケジュール（artistSchedules）から予約可能な時間枠を取得
+   */
+  private async getScheduledSlots(
+    artistId: string,
+    startDate: Date,
+    endDate: Date,
+    duration: number,
+  ): Promise<{ date: Date; slots: TimeSlot[] }[]> {
+    const schedules = await this.getArtistSchedule(
+      artistId,
+      startDate,
+      endDate,
+    );
+
+    return schedules
+      .map((schedule) => ({
+        date: schedule.date,
+        slots: schedule.timeSlots.filter(
+          (slot) =>
+            slot.isAvailable &&
+            !slot.isBooked &&
+            this.getSlotDuration(slot) >= duration,
+        ),
+      }))
+      .filter((day) => day.slots.length > 0);
+  }
+
+  /**
+   * 確定済み予約が占有している時間帯（顧客情報なし）を取得
+   */
+  private async getBusyTimeRanges(
+    artistId: string,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<BusyTimeRange[]> {
+    const busySnapshot = await firestore()
+      .collection(AVAILABILITY_COLLECTIONS.busySlots)
+      .where("artistId", "==", artistId)
+      .where("startTime", ">=", startDate)
+      .where("startTime", "<=", endDate)
+      .get();
+
+    return busySnapshot.docs.map((doc) => ({
+      startTime: doc.data().startTime.toDate(),
+      endTime: doc.data().endTime.toDate(),
+    }));
+  }
+
   private getSlotDuration(slot: TimeSlot): number {
     return (slot.endTime.getTime() - slot.startTime.getTime()) / (1000 * 60); // minutes
   }
 
-  private getSizeLabel(size: "small" | "medium" | "large"): string {
+  private getSizeLabel(size: BookingSize): string {
     const labels = {
       small: "小サイズ (5cm以下)",
       medium: "中サイズ (5-15cm)",
       large: "大サイズ (15cm以上)",
+      "extra-large": "特大サイズ (20cm以上・複数回施術)",
     };
     return labels[size];
   }
 
-  private async blockTimeSlot(
-    artistId: string,
-    date: Date,
-    duration: number,
-    bookingId: string,
-  ): Promise<void> {
-    try {
-      const startOfDay = new Date(date);
-      startOfDay.setHours(0, 0, 0, 0);
-
-      const endOfDay = new Date(date);
-      endOfDay.setHours(23, 59, 59, 999);
-
-      const schedules = await this.getArtistSchedule(
-        artistId,
-        startOfDay,
-        endOfDay,
-      );
-
-      if (schedules.length > 0) {
-        const schedule = schedules[0];
-        const updatedSlots = schedule.timeSlots.map((slot) => {
-          const slotStart = slot.startTime.getTime();
-          const slotEnd = slot.endTime.getTime();
-          const bookingStart = date.getTime();
-          const bookingEnd = bookingStart + duration * 60 * 1000;
-
-          // 重複チェック
-          if (slotStart < bookingEnd && slotEnd > bookingStart) {
-            return {
-              ...slot,
-              isBooked: true,
-              bookingId,
-            };
-          }
-          return slot;
-        });
-
-        await firestore()
-          .collection("artistSchedules")
-          .where("artistId", "==", artistId)
-          .where("date", ">=", startOfDay)
-          .where("date", "<=", endOfDay)
-          .get()
-          .then((snapshot) => {
-            if (!snapshot.empty) {
-              const doc = snapshot.docs[0];
-              return doc.ref.update({ timeSlots: updatedSlots });
-            }
-          });
-      }
-    } catch (error) {
-      console.error("Error blocking time slot:", error);
-    }
-  }
-
   /**
    * 予約を完了状態にする
    */
-  async completeBooking(bookingId: string, completedBy: string): Promise<void> {
+  async completeBooking(bookingId: string): Promise<void> {
     try {
       const bookingDoc = await firestore()
-        .collection("bookingRequests")
+        .collection(BOOKING_COLLECTIONS.requests)
         .doc(bookingId)
         .get();
 
@@ -632,31 +1321,8 @@ export class BookingService {
 
       const bookingData = bookingDoc.data() as BookingRequest;
 
-      if (bookingData.status !== "confirmed") {
-        throw new Error("Only confirmed bookings can be completed");
-      }
-
-      // 予約を完了状態に更新
-      await firestore().collection("bookingRequests").doc(bookingId).update({
-        status: "completed",
-        completedBy,
-        completedAt: new Date(),
-        updatedAt: new Date(),
-      });
-
-      // 確定済み予約コレクションも更新
-      const confirmedBookingSnapshot = await firestore()
-        .collection("confirmedBookings")
-        .where("bookingRequestId", "==", bookingId)
-        .get();
-
-      if (!confirmedBookingSnapshot.empty) {
-        await confirmedBookingSnapshot.docs[0].ref.update({
-          status: "completed",
-          completedAt: new Date(),
-          updatedAt: new Date(),
-        });
-      }
+      // 予約と確定済み予約を完了状態に更新（遷移はサーバー側で検証）
+      await this.transitionBooking(bookingId, "completed", "施術完了");
 
       // チャットに完了メッセージを送信
       const roomId = await ChatService.getOrCreateChatRoom(
@@ -671,50 +1337,12 @@ export class BookingService {
           `お疲れ様でした。レビューの投稿をお願いします。`,
       );
 
-      // アーティストスコアの自動更新をトリガー
-      try {
-        const ArtistScoreService = (await import("./ArtistScoreService"))
-          .default;
-        await ArtistScoreService.onBookingCompleted(bookingData.artistId);
-      } catch (error) {
-        console.error("Error triggering artist score update:", error);
-        // スコア更新エラーは致命的でないため、処理を続行
-      }
+      await this.refreshArtistScore(bookingData.artistId, "completed");
     } catch (error) {
       console.error("Error completing booking:", error);
       throw error;
     }
   }
-
-  private async releaseTimeSlot(
-    artistId: string,
-    bookingId: string,
-  ): Promise<void> {
-    try {
-      const schedulesSnapshot = await firestore()
-        .collection("artistSchedules")
-        .where("artistId", "==", artistId)
-        .get();
-
-      for (const doc of schedulesSnapshot.docs) {
-        const schedule = doc.data() as ArtistSchedule;
-        const updatedSlots = schedule.timeSlots.map((slot) => {
-          if (slot.bookingId === bookingId) {
-            return {
-              ...slot,
-              isBooked: false,
-              bookingId: undefined,
-            };
-          }
-          return slot;
-        });
-
-        await doc.ref.update({ timeSlots: updatedSlots });
-      }
-    } catch (error) {
-      console.error("Error releasing time slot:", error);
-    }
-  }
 }
 
 export default BookingService.getInstance();
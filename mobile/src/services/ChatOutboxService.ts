@@ -0,0 +1,494 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import database from "@react-native-firebase/database";
+import {
+  AppState,
+  AppStateStatus,
+  NativeEventSubscription,
+} from "react-native";
+import {
+  CHAT_OUTBOX_SEND_TIMEOUT_MS,
+  ChatMessageMetadata,
+  ChatOutboxEntry,
+  addChatOutboxEntry,
+  getDueChatOutboxEntries,
+  getFailedChatOutboxEntry,
+} from "@tattoo-journey/shared";
+import ChatService from "./ChatService";
+
+export type { ChatOutboxEntry } from "@tattoo-journey/shared";
+
+const OUTBOX_STORAGE_KEY = "@tattoo_journey_chat_outbox";
+
+type OutboxListener = (entries: ChatOutboxEntry[]) => void;
+
+/**
+ * 送信がタイムアウトした（オフライン中など）
+ */
+class ChatOutboxTimeoutError extends Error {
+  constructor() {
+    super("Sending the message timed out");
+    this.name = "ChatOutboxTimeoutError";
+  }
+}
+
+/**
+ * オフラインでも使えるチャット送信キュー
+ * メッセージ・画像を端末に保存し、接続時に送信（失敗時は間隔を空けて再送）
+ * メッセージIDはキュー登録時に決めるため、再送しても重複しない
+ */
+export class ChatOutboxService {
+  private static instance: ChatOutboxService;
+
+  private userId: string | null = null;
+  private entries: ChatOutboxEntry[] = [];
+  private listeners = new Set<OutboxListener>();
+  private isFlushing = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private connectedRef: ReturnType<ReturnType<typeof database>["ref"]> | null =
+    null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+
+  private constructor() {}
+
+  static getInstance(): ChatOutboxService {
+    if (!ChatOutboxService.instance) {
+      ChatOutboxService.instance = new ChatOutboxService();
+    }
+    return ChatOutboxService.instance;
+  }
+
+  /**
+   * ログインしたユーザーの保存済みキューを読み込み、送信を開始
+   * 接続の回復・アプリの復帰時にも送信する
+   */
+  async start(userId: string): Promise<void> {
+    if (this.userId === userId) return;
+    this.stop();
+    this.userId = userId;
+
+    try {
+      const stored = await AsyncStorage.getItem(this.storageKey(userId));
+      if (this.userId !== userId) return;
+
+      // 前回の起動中に送信中だったものは送信待ちに戻す
+      // （読み込み中にキューに追加されたものはそのまま残す）
+      const loaded: ChatOutboxEntry[] = stored ? JSON.parse(stored) : [];
+      this.entries = loaded.reduce(
+        (entries, entry) =>
+          addChatOutboxEntry(
+            entries,
+            entry.status === "sending" ? { ...entry, status: "queued" } : entry,
+          ),
+        this.entries,
+      );
+      this.notify();
+    } catch (error) {
+      console.error("Error loading chat outbox:", error);
+      this.entries = [];
+    }
+
+    this.connectedRef = database().ref(".info/connected");
+    this.connectedRef.on("value", this.handleConnectionChange);
+    this.appStateSubscription = AppState.addEventListener(
+      "change",
+      this.handleAppStateChange,
+    );
+
+    this.flush();
+  }
+
+  /**
+   * ログアウト時に送信を止める（保存済みのキューは次回ログイン時に送信）
+   */
+  stop(): void {
+    this.connectedRef?.off("value", this.handleConnectionChange);
+    this.connectedRef = null;
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.clearRetryTimer();
+
+    this.userId = null;
+    this.entries = [];
+    this.notify();
+  }
+
+  /**
+   * テキストメッセージをキューに追加し、メッセージIDを返す
+   */
+  async enqueueMessage(
+    roomId: string,
+    senderId: string,
+    text: string,
+    metadata?: ChatMessageMetadata,
+  ): Promise<string> {
+    return this.enqueue({
+      roomId,
+      senderId,
+      text,
+      type: "text",
+      ...(metadata && { metadata }),
+    });
+  }
+
+  /**
+   * 画像メッセージをキューに追加し、メッセージIDを返す
+   * 画像は送信時にアップロードされる
+   */
+  async enqueueImage(
+    roomId: string,
+    senderId: string,
+    imageUri: string,
+    text: string = "📷 画像",
+  ): Promise<string> {
+    return this.enqueue({ roomId, senderId, text, type: "image", imageUri });
+  }
+
+  /**
+   * 送信できなかったメッセージをすぐに再送
+   */
+  async retry(clientMessageId: string): Promise<void> {
+    await this.updateEntries((entries) =>
+      entries.map((entry) =>
+        entry.clientMessageId === clientMessageId
+          ? {
+              ...entry,
+              status: "queued",
+              nextAttemptAt: Date.now(),
+              lastError: undefined,
+            }
+          : entry,
+      ),
+    );
+    this.flush();
+  }
+
+  /**
+   * 送信できなかったメッセージをすべて再送
+   */
+  async retryAll(roomId?: string): Promise<void> {
+    const now = Date.now();
+    await this.updateEntries((entries) =>
+      entries.map((entry) =>
+        entry.status !== "sending" && (!roomId || entry.roomId === roomId)
+          ? {
+              ...entry,
+              status: "queued",
+              nextAttemptAt: now,
+              lastError: undefined,
+            }
+          : entry,
+      ),
+    );
+    this.flush();
+  }
+
+  /**
+   * 送信を取りやめてキューから削除
+   */
+  async discard(clientMessageId: string): Promise<void> {
+    await this.updateEntries((entries) =>
+      entries.filter(
+        (entry) =>
+          entry.clientMessageId !== clientMessageId ||
+          entry.status === "sending",
+      ),
+    );
+  }
+
+  /**
+   * ルーム（省略時はすべて）の未送信メッセージを購読
+   */
+  subscribe(
+    roomId: string | undefined,
+    onChange: (entries: ChatOutboxEntry[]) => void,
+  ): () => void {
+    const listener: OutboxListener = (entries) =>
+      onChange(
+        roomId ? entries.filter((entry) => entry.roomId === roomId) : entries,
+      );
+
+    this.listeners.add(listener);
+    listener(this.entries);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 送信時刻を過ぎたメッセージを古い順に送信
+   */
+  async flush(): Promise<void> {
+    const userId = this.userId;
+    if (!userId || this.isFlushing) return;
+
+    this.isFlushing = true;
+    this.clearRetryTimer();
+
+    try {
+      const due = getDueChatOutboxEntries(this.entries, Date.now()).filter(
+        (entry) => entry.senderId === userId,
+      );
+
+      for (const entry of due) {
+        if (this.userId !== userId) return;
+
+        await this.setStatus(entry.clientMessageId, "sending");
+        try {
+          await this.send(entry);
+          await this.updateEntries((entries) =>
+            entries.filter((e) => e.clientMessageId !== entry.clientMessageId),
+          );
+        } catch (error) {
+          // 書き込み自体は届いていた（応答だけ失われた）場合は送信済み
+          const delivered = await this.isSent(entry);
+          const rejected = !delivered && this.isRejected(error);
+
+          if (delivered || rejected) {
+            await this.updateEntries((entries) =>
+              delivered
+                ? entries.filter(
+                    (e) => e.clientMessageId !== entry.clientMessageId,
+                  )
+                : entries.map((e) =>
+                    e.clientMessageId === entry.clientMessageId
+                      ? getFailedChatOutboxEntry(
+                          e,
+                          Date.now(),
+                          true,
+                          (error as Error)?.message,
+                        )
+                      : e,
+                  ),
+            );
+            continue;
+          }
+
+          // 接続の問題なら後続のメッセージも届かないので、
+          // 順番が入れ替わらないよう一緒に次回へ回す
+          const retried = getFailedChatOutboxEntry(entry, Date.now(), false);
+          await this.updateEntries((entries) =>
+            entries.map((e) =>
+              e.clientMessageId === entry.clientMessageId
+                ? retried
+                : e.status === "queued" && e.createdAt >= entry.createdAt
+                  ? {
+                      ...e,
+                      nextAttemptAt: Math.max(
+                        e.nextAttemptAt,
+                        retried.nextAttemptAt,
+                      ),
+                    }
+                  : e,
+            ),
+          );
+          break;
+        }
+      }
+    } catch (error) {
+      console.error("Error flushing chat outbox:", error);
+    } finally {
+      this.isFlushing = false;
+      this.scheduleRetry();
+    }
+  }
+
+  private async enqueue(
+    entry: Pick<
+      ChatOutboxEntry,
+      "roomId" | "senderId" | "text" | "type" | "metadata" | "imageUri"
+    >,
+  ): Promise<string> {
+    // ログイン直後で読み込みがまだなら、先に送信者のキューを開く
+    if (this.userId !== entry.senderId) {
+      await this.start(entry.senderId);
+    }
+
+    const now = Date.now();
+    const clientMessageId = ChatService.createMessageId();
+
+    await this.updateEntries((entries) =>
+      addChatOutboxEntry(entries, {
+        ...entry,
+        clientMessageId,
+        status: "queued",
+        attempts: 0,
+        nextAttemptAt: now,
+        createdAt: now,
+      }),
+    );
+    this.flush();
+
+    return clientMessageId;
+  }
+
+  private async send(entry: ChatOutboxEntry): Promise<void> {
+    // 2回目以降は、前回の書き込みが届いていないか先に確認
+    if (entry.attempts > 0 && (await this.isSent(entry))) return;
+
+    await this.withTimeout(
+      (async () => {
+        const metadata: ChatMessageMetadata | undefined = entry.imageUri
+          ? {
+              ...entry.metadata,
+              imageUrl: await ChatService.uploadImage(
+                entry.roomId,
+                entry.clientMessageId,
+                entry.senderId,
+                entry.imageUri,
+              ),
+            }
+          : entry.metadata;
+
+        await ChatService.sendMessage(
+          entry.roomId,
+          entry.senderId,
+          entry.text,
+          entry.type,
+          metadata,
+          undefined,
+          entry.clientMessageId,
+        );
+      })(),
+    );
+  }
+
+  private async isSent(entry: ChatOutboxEntry): Promise<boolean> {
+    try {
+      return await this.withTimeout(
+        ChatService.hasMessage(entry.roomId, entry.clientMessageId),
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * サーバーに拒否された（再送しても成功しない）
+   */
+  private isRejected(error: unknown): boolean {
+    const code = (error as { code?: string })?.code || "";
+    const message = (error as Error)?.message || "";
+
+    return (
+      code.endsWith("permission-denied") ||
+      code.endsWith("unauthorized") ||
+      message === "Invalid chat message" ||
+      message.includes("has no recipient")
+    );
+  }
+
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(
+        () => reject(new ChatOutboxTimeoutError()),
+        CHAT_OUTBOX_SEND_TIMEOUT_MS,
+      );
+      promise.then(
+        (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      );
+    });
+  }
+
+  private scheduleRetry(): void {
+    this.clearRetryTimer();
+
+    const queued = this.entries.filter((entry) => entry.status === "queued");
+    if (!this.userId || queued.length === 0) return;
+
+    const nextAttemptAt = Math.min(
+      ...queued.map((entry) => entry.nextAttemptAt),
+    );
+    this.retryTimer = setTimeout(
+      () => this.flush(),
+      Math.max(nextAttemptAt - Date.now(), 0),
+    );
+  }
+
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private handleConnectionChange = (snapshot: { val(): any }) => {
+    if (snapshot.val() === true) {
+      this.retryNow();
+    }
+  };
+
+  private handleAppStateChange = (state: AppStateStatus) => {
+    if (state === "active") {
+      this.retryNow();
+    }
+  };
+
+  /**
+   * 接続が戻ったら待機中のメッセージをすぐに送る
+   */
+  private async retryNow(): Promise<void> {
+    const now = Date.now();
+    if (
+      this.entries.some(
+        (entry) => entry.status === "queued" && entry.nextAttemptAt > now,
+      )
+    ) {
+      await this.updateEntries((entries) =>
+        entries.map((entry) =>
+          entry.status === "queued" ? { ...entry, nextAttemptAt: now } : entry,
+        ),
+      );
+    }
+    this.flush();
+  }
+
+  private async setStatus(
+    clientMessageId: string,
+    status: ChatOutboxEntry["status"],
+  ): Promise<void> {
+    await this.updateEntries((entries) =>
+      entries.map((entry) =>
+        entry.clientMessageId === clientMessageId
+          ? { ...entry, status }
+          : entry,
+      ),
+    );
+  }
+
+  private async updateEntries(
+    update: (entries: ChatOutboxEntry[]) => ChatOutboxEntry[],
+  ): Promise<void> {
+    const userId = this.userId;
+    if (!userId) return;
+
+    this.entries = update(this.entries);
+    this.notify();
+
+    try {
+      await AsyncStorage.setItem(
+        this.storageKey(userId),
+        JSON.stringify(this.entries),
+      );
+    } catch (error) {
+      console.error("Error saving chat outbox:", error);
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener(this.entries));
+  }
+
+  private storageKey(userId: string): string {
+    return `${OUTBOX_STORAGE_KEY}_${userId}`;
+  }
+}
+
+export default ChatOutboxService.getInstance();
@@ -1,43 +1,28 @@
 import database from "@react-native-firebase/database";
 import firestore from "@react-native-firebase/firestore";
-
-export interface ChatMessage {
-  id: string;
-  senderId: string;
-  receiverId: string;
-  text: string;
-  type: "text" | "image" | "booking_request" | "system";
-  timestamp: number;
-  read: boolean;
-  metadata?: {
-    bookingId?: string;
-    imageUrl?: string;
-    priceQuote?: number;
-    appointmentDate?: string;
-  };
-}
-
-export interface ChatRoom {
-  id: string;
-  participants: string[];
-  lastMessage?: ChatMessage;
-  lastMessageTime: number;
-  unreadCount: { [userId: string]: number };
-  createdAt: number;
-  metadata?: {
-    artistName: string;
-    customerName: string;
-    context: "matching" | "direct_inquiry" | "booking";
-    tattooStyle?: string;
-    estimatedPrice?: number;
-  };
-}
-
-export interface TypingStatus {
-  userId: string;
-  isTyping: boolean;
-  timestamp: number;
-}
+import auth from "@react-native-firebase/auth";
+import storage from "@react-native-firebase/storage";
+import {
+  CHAT_INBOX_PAGE_SIZE,
+  CHAT_PATHS,
+  ChatContext,
+  ChatInboxEntry,
+  ChatMessage,
+  ChatCard,
+  ChatCardResponse,
+  ChatMessageMetadata,
+  ChatRoom,
+  StoredChatCard,
+  TypingStatus,
+  createChatMessage,
+  getChatCardSummary,
+  getChatRecipientId,
+  getChatRoomId,
+  isValidChatMessage,
+  mergeChatInboxPages,
+  serializeChatCard,
+  toChatParticipants,
+} from "@tattoo-journey/shared";
 
 export class ChatService {
   private static instance: ChatService;
@@ -59,15 +44,14 @@ export class ChatService {
   async getOrCreateChatRoom(
     customerId: string,
     artistId: string,
-    context: "matching" | "direct_inquiry" | "booking" = "direct_inquiry",
+    context: ChatContext = "direct_inquiry",
   ): Promise<string> {
     try {
-      const participants = [customerId, artistId].sort();
-      const roomId = participants.join("_");
+      const roomId = getChatRoomId(customerId, artistId);
 
       // 既存のルームをチェック
       const roomSnapshot = await database()
-        .ref(`chatRooms/${roomId}`)
+        .ref(`${CHAT_PATHS.rooms}/${roomId}`)
         .once("value");
 
       if (!roomSnapshot.exists()) {
@@ -80,15 +64,11 @@ export class ChatService {
         const customerData = customerDoc.data();
         const artistData = artistDoc.data();
 
-        // 新しいルームを作成
+        // 新しいルームを作成（時刻はサーバー時刻で記録）
         const chatRoom: ChatRoom = {
           id: roomId,
-          participants,
+          participants: toChatParticipants([customerId, artistId]),
           lastMessageTime: Date.now(),
-          unreadCount: {
-            [customerId]: 0,
-            [artistId]: 0,
-          },
           createdAt: Date.now(),
           metadata: {
             artistName: `${artistData?.profile?.firstName} ${artistData?.profile?.lastName}`,
@@ -97,7 +77,13 @@ export class ChatService {
           },
         };
 
-        await database().ref(`chatRooms/${roomId}`).set(chatRoom);
+        await database()
+          .ref(`${CHAT_PATHS.rooms}/${roomId}`)
+          .set({
+            ...chatRoom,
+            lastMessageTime: database.ServerValue.TIMESTAMP,
+            createdAt: database.ServerValue.TIMESTAMP,
+          });
 
         // システムメッセージを送信
         await this.sendSystemMessage(
@@ -114,77 +100,101 @@ export class ChatService {
   }
 
   /**
-   * メッセージを送信
+   * メッセージを送信し、メッセージIDを返す
+   * ルームの最新メッセージと受信者の未読数は Cloud Functions が更新する
+   * 送信待ちのメッセージはキュー登録時に決めたIDで送る（再送しても重複しない）
    */
   async sendMessage(
     roomId: string,
     senderId: string,
     text: string,
     type: ChatMessage["type"] = "text",
-    metadata?: ChatMessage["metadata"],
-  ): Promise<void> {
+    metadata?: ChatMessageMetadata,
+    card?: StoredChatCard,
+    messageId: string = this.createMessageId(),
+  ): Promise<string> {
     try {
-      const messageId = database().ref().push().key!;
-      const timestamp = Date.now();
+      // チャットルーム情報を取得して受信者を特定
+      const roomSnapshot = await database()
+        .ref(`${CHAT_PATHS.rooms}/${roomId}`)
+        .once("value");
+
+      const room = roomSnapshot.val() as ChatRoom | null;
+      const receiverId = getChatRecipientId(room?.participants, senderId);
+      if (!receiverId) {
+        throw new Error(`Chat room ${roomId} has no recipient for ${senderId}`);
+      }
 
-      const message: ChatMessage = {
+      const message = createChatMessage({
         id: messageId,
         senderId,
-        receiverId: "", // 後で設定
+        receiverId,
         text,
         type,
-        timestamp,
-        read: false,
+        timestamp: Date.now(),
         metadata,
-      };
-
-      // チャットルーム情報を取得して受信者を特定
-      const roomSnapshot = await database()
-        .ref(`chatRooms/${roomId}`)
-        .once("value");
-
-      const room = roomSnapshot.val() as ChatRoom;
-      const receiverId = room.participants.find((id) => id !== senderId)!;
-      message.receiverId = receiverId;
-
-      // メッセージを保存
-      await database().ref(`messages/${roomId}/${messageId}`).set(message);
-
-      // チャットルームの最新メッセージと未読数を更新
-      const updates: any = {};
-      updates[`chatRooms/${roomId}/lastMessage`] = message;
-      updates[`chatRooms/${roomId}/lastMessageTime`] = timestamp;
-      updates[`chatRooms/${roomId}/unreadCount/${receiverId}`] =
-        (room.unreadCount[receiverId] || 0) + 1;
+        card,
+      });
+      if (!isValidChatMessage(message)) {
+        throw new Error("Invalid chat message");
+      }
 
-      await database().ref().update(updates);
+      await database()
+        .ref(`${CHAT_PATHS.messages}/${roomId}/${message.id}`)
+        .set({ ...message, timestamp: database.ServerValue.TIMESTAMP });
 
-      // プッシュ通知を送信（実装は後で）
-      // await this.sendPushNotification(receiverId, message);
+      return message.id;
     } catch (error) {
       console.error("Error sending message:", error);
       throw error;
     }
   }
 
+  /**
+   * 新しいメッセージのID（送信前に決められる）
+   */
+  createMessageId(): string {
+    return database().ref().push().key!;
+  }
+
+  /**
+   * メッセージがすでに書き込まれているか
+   */
+  async hasMessage(roomId: string, messageId: string): Promise<boolean> {
+    const snapshot = await database()
+      .ref(`${CHAT_PATHS.messages}/${roomId}/${messageId}/id`)
+      .once("value");
+    return snapshot.exists();
+  }
+
+  /**
+   * チャット画像をアップロードし、ダウンロードURLを返す
+   * 同じメッセージIDなら同じファイルに上書きされる
+   */
+  async uploadImage(
+    roomId: string,
+    messageId: string,
+    senderId: string,
+    imageUri: string,
+  ): Promise<string> {
+    const reference = storage().ref(`chats/${roomId}/${messageId}.jpg`);
+    await reference.putFile(imageUri, {
+      customMetadata: { uploadedBy: senderId },
+    });
+    return reference.getDownloadURL();
+  }
+
   /**
    * システムメッセージを送信
+   * 送信者はその操作を行ったログイン中のユーザー
    */
   async sendSystemMessage(roomId: string, text: string): Promise<void> {
-    const messageId = database().ref().push().key!;
-    const timestamp = Date.now();
-
-    const message: ChatMessage = {
-      id: messageId,
-      senderId: "system",
-      receiverId: "",
-      text,
-      type: "system",
-      timestamp,
-      read: false,
-    };
+    const senderId = auth().currentUser?.uid;
+    if (!senderId) {
+      throw new Error("System messages require a signed-in user");
+    }
 
-    await database().ref(`messages/${roomId}/${messageId}`).set(message);
+    await this.sendMessage(roomId, senderId, text, "system");
   }
 
   /**
@@ -205,18 +215,66 @@ export class ChatService {
     });
   }
 
+  /**
+   * 予約カード（見積もり・日時提案・デザイン確認・デポジット請求）を送信
+   * 本文にはカードの要約を入れる
+   */
+  async sendCard(
+    roomId: string,
+    senderId: string,
+    card: ChatCard,
+  ): Promise<string> {
+    return this.sendMessage(
+      roomId,
+      senderId,
+      getChatCardSummary(card),
+      "card",
+      undefined,
+      serializeChatCard(card),
+    );
+  }
+
+  /**
+   * カードへの回答を記録（受信者のみ・一度だけ）
+   */
+  async respondToCard(
+    roomId: string,
+    messageId: string,
+    userId: string,
+    response: Pick<ChatCardResponse, "action" | "slotIndex">,
+  ): Promise<void> {
+    try {
+      await database()
+        .ref(`${CHAT_PATHS.messages}/${roomId}/${messageId}/cardResponse`)
+        .set({
+          action: response.action,
+          respondedBy: userId,
+          respondedAt: database.ServerValue.TIMESTAMP,
+          ...(response.slotIndex !== undefined && {
+            slotIndex: response.slotIndex,
+          }),
+        });
+    } catch (error) {
+      console.error("Error responding to card:", error);
+      throw error;
+    }
+  }
+
   /**
    * メッセージのリアルタイムリスニングを開始
+   * 受信したメッセージは配信済みにする
+   * 配信・既読やカードへの回答による更新は onChange に通知
    */
   subscribeToMessages(
     roomId: string,
     onMessage: (message: ChatMessage) => void,
     onError: (error: Error) => void,
+    onChange?: (message: ChatMessage) => void,
   ): () => void {
     const listenerKey = `messages_${roomId}`;
 
     const reference = database()
-      .ref(`messages/${roomId}`)
+      .ref(`${CHAT_PATHS.messages}/${roomId}`)
       .orderByChild("timestamp");
 
     const listener = reference.on(
@@ -225,6 +283,13 @@ export class ChatService {
         const message = snapshot.val() as ChatMessage;
         if (message) {
           onMessage(message);
+          if (
+            message.receiverId === auth().currentUser?.uid &&
+            !message.delivered &&
+            !message.read
+          ) {
+            this.markMessageDelivered(roomId, message.id);
+          }
         }
       },
       (error) => {
@@ -232,9 +297,21 @@ export class ChatService {
       },
     );
 
+    const changeListener = onChange
+      ? reference.on("child_changed", (snapshot) => {
+          const message = snapshot.val() as ChatMessage;
+          if (message) {
+            onChange(message);
+          }
+        })
+      : null;
+
     // クリーンアップ関数を返す
     const unsubscribe = () => {
       reference.off("child_added", listener);
+      if (changeListener) {
+        reference.off("child_changed", changeListener);
+      }
       delete this.activeListeners[listenerKey];
     };
 
@@ -243,39 +320,25 @@ export class ChatService {
   }
 
   /**
-   * チャットルームリストのリアルタイムリスニング
+   * 受信箱（最新メッセージ順）の最初のページをリアルタイムで監視
    */
-  subscribeToUserChatRooms(
+  subscribeToInbox(
     userId: string,
-    onRoomUpdate: (rooms: ChatRoom[]) => void,
+    onInboxUpdate: (entries: ChatInboxEntry[]) => void,
     onError: (error: Error) => void,
+    limit: number = CHAT_INBOX_PAGE_SIZE,
   ): () => void {
-    const listenerKey = `rooms_${userId}`;
+    const listenerKey = `inbox_${userId}`;
 
     const reference = database()
-      .ref("chatRooms")
-      .orderByChild("lastMessageTime");
+      .ref(`${CHAT_PATHS.inbox}/${userId}`)
+      .orderByChild("lastMessageTime")
+      .limitToLast(limit);
 
     const listener = reference.on(
       "value",
       (snapshot) => {
-        const rooms: ChatRoom[] = [];
-
-        if (snapshot.exists()) {
-          const roomsData = snapshot.val();
-
-          Object.keys(roomsData).forEach((roomId) => {
-            const room = roomsData[roomId] as ChatRoom;
-            if (room.participants.includes(userId)) {
-              rooms.push(room);
-            }
-          });
-        }
-
-        // 最新メッセージ順でソート
-        rooms.sort((a, b) => b.lastMessageTime - a.lastMessageTime);
-
-        onRoomUpdate(rooms);
+        onInboxUpdate(this.toInboxEntries(snapshot.val()));
       },
       (error) => {
         onError(new Error(error.message));
@@ -291,6 +354,64 @@ export class ChatService {
     return unsubscribe;
   }
 
+  /**
+   * 指定したルームより古い受信箱のページを取得
+   */
+  async getInboxPage(
+    userId: string,
+    before: Pick<ChatInboxEntry, "roomId" | "lastMessageTime">,
+    limit: number = CHAT_INBOX_PAGE_SIZE,
+  ): Promise<ChatInboxEntry[]> {
+    try {
+      const snapshot = await database()
+        .ref(`${CHAT_PATHS.inbox}/${userId}`)
+        .orderByChild("lastMessageTime")
+        .endAt(before.lastMessageTime, before.roomId)
+        .limitToLast(limit + 1)
+        .once("value");
+
+      return this.toInboxEntries(snapshot.val()).filter(
+        (entry) => entry.roomId !== before.roomId,
+      );
+    } catch (error) {
+      console.error("Error getting inbox page:", error);
+      return [];
+    }
+  }
+
+  /**
+   * 未読メッセージ総数のリアルタイム監視
+   */
+  subscribeToUnreadTotal(
+    userId: string,
+    onUnreadChange: (unreadCount: number) => void,
+  ): () => void {
+    const listenerKey = `unread_${userId}`;
+
+    const reference = database().ref(`${CHAT_PATHS.unreadTotals}/${userId}`);
+
+    const listener = reference.on("value", (snapshot) => {
+      onUnreadChange(Math.max((snapshot.val() as number | null) || 0, 0));
+    });
+
+    const unsubscribe = () => {
+      reference.off("value", listener);
+      delete this.activeListeners[listenerKey];
+    };
+
+    this.activeListeners[listenerKey] = unsubscribe;
+    return unsubscribe;
+  }
+
+  private toInboxEntries(
+    entries: Record<string, ChatInboxEntry> | null,
+  ): ChatInboxEntry[] {
+    // 既読化だけが書かれた（まだ最新メッセージのない）エントリは除く
+    return mergeChatInboxPages(
+      entries ? Object.values(entries).filter((entry) => entry.roomId) : [],
+    );
+  }
+
   /**
    * メッセージを既読にする
    */
@@ -298,7 +419,7 @@ export class ChatService {
     try {
       // 該当ユーザーの未読メッセージを取得
       const messagesSnapshot = await database()
-        .ref(`messages/${roomId}`)
+        .ref(`${CHAT_PATHS.messages}/${roomId}`)
         .orderByChild("receiverId")
         .equalTo(userId)
         .once("value");
@@ -310,12 +431,13 @@ export class ChatService {
         Object.keys(messages).forEach((messageId) => {
           const message = messages[messageId] as ChatMessage;
           if (!message.read) {
-            updates[`messages/${roomId}/${messageId}/read`] = true;
+            updates[`${CHAT_PATHS.messages}/${roomId}/${messageId}/read`] =
+              true;
           }
         });
 
-        // 未読数をリセット
-        updates[`chatRooms/${roomId}/unreadCount/${userId}`] = 0;
+        // 受信箱の未読数をリセット（未読総数は Cloud Functions が更新）
+        updates[`${CHAT_PATHS.inbox}/${userId}/${roomId}/unreadCount`] = 0;
 
         if (Object.keys(updates).length > 0) {
           await database().ref().update(updates);
@@ -326,6 +448,19 @@ export class ChatService {
     }
   }
 
+  /**
+   * 受信したメッセージを配信済みにする（受信者のみ）
+   */
+  async markMessageDelivered(roomId: string, messageId: string): Promise<void> {
+    try {
+      await database()
+        .ref(`${CHAT_PATHS.messages}/${roomId}/${messageId}/delivered`)
+        .set(true);
+    } catch (error) {
+      console.error("Error marking message as delivered:", error);
+    }
+  }
+
   /**
    * タイピング状態を設定
    */
@@ -341,7 +476,9 @@ export class ChatService {
         timestamp: Date.now(),
       };
 
-      await database().ref(`typing/${roomId}/${userId}`).set(typingStatus);
+      await database()
+        .ref(`${CHAT_PATHS.typing}/${roomId}/${userId}`)
+        .set(typingStatus);
 
       // 自動的にタイピング状態をクリアする
       if (isTyping) {
@@ -368,7 +505,7 @@ export class ChatService {
   ): () => void {
     const listenerKey = `typing_${roomId}`;
 
-    const reference = database().ref(`typing/${roomId}`);
+    const reference = database().ref(`${CHAT_PATHS.typing}/${roomId}`);
 
     const listener = reference.on("value", (snapshot) => {
       if (snapshot.exists()) {
@@ -403,7 +540,7 @@ export class ChatService {
   ): Promise<ChatMessage[]> {
     try {
       let query = database()
-        .ref(`messages/${roomId}`)
+        .ref(`${CHAT_PATHS.messages}/${roomId}`)
         .orderByChild("timestamp")
         .limitToLast(limit);
 
@@ -433,22 +570,11 @@ export class ChatService {
    */
   async getUnreadCount(userId: string): Promise<number> {
     try {
-      const roomsSnapshot = await database().ref("chatRooms").once("value");
-
-      let totalUnreadCount = 0;
-
-      if (roomsSnapshot.exists()) {
-        const roomsData = roomsSnapshot.val();
-
-        Object.keys(roomsData).forEach((roomId) => {
-          const room = roomsData[roomId] as ChatRoom;
-          if (room.participants.includes(userId)) {
-            totalUnreadCount += room.unreadCount[userId] || 0;
-          }
-        });
-      }
+      const snapshot = await database()
+        .ref(`${CHAT_PATHS.unreadTotals}/${userId}`)
+        .once("value");
 
-      return totalUnreadCount;
+      return Math.max((snapshot.val() as number | null) || 0, 0);
     } catch (error) {
       console.error("Error getting unread count:", error);
       return 0;
@@ -461,9 +587,9 @@ export class ChatService {
   async deleteChatRoom(roomId: string): Promise<void> {
     try {
       const updates: any = {};
-      updates[`chatRooms/${roomId}`] = null;
-      updates[`messages/${roomId}`] = null;
-      updates[`typing/${roomId}`] = null;
+      updates[`${CHAT_PATHS.rooms}/${roomId}`] = null;
+      updates[`${CHAT_PATHS.messages}/${roomId}`] = null;
+      updates[`${CHAT_PATHS.typing}/${roomId}`] = null;
 
       await database().ref().update(updates);
     } catch (error) {
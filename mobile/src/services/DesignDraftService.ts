@@ -0,0 +1,327 @@
+import firestore, {
+  FirebaseFirestoreTypes,
+} from "@react-native-firebase/firestore";
+import storage from "@react-native-firebase/storage";
+import {
+  BOOKING_COLLECTIONS,
+  DesignAnnotation,
+  DesignDraft,
+  MAX_DESIGN_ANNOTATIONS,
+  canReviewDesignDraft,
+  canUploadDesignDraft,
+  createChatCard,
+  getDesignDraftId,
+  getNextDesignDraftVersion,
+  isValidDesignAnnotation,
+  isValidDesignDraftNote,
+  toApprovedDesign,
+  toCanonicalBookingStatus,
+} from "@tattoo-journey/shared";
+import ChatService from "./ChatService";
+import { BookingRequest } from "./BookingService";
+
+export type { DesignAnnotation, DesignDraft } from "@tattoo-journey/shared";
+
+/**
+ * デザイン案がすでにレビュー済み・新しいバージョンに置き換え済み、
+ * または予約のデザインが承認済み
+ */
+export class DesignDraftClosedError extends Error {
+  constructor() {
+    super("Design draft is no longer in review");
+    this.name = "DesignDraftClosedError";
+  }
+}
+
+/**
+ * 予約ごとのデザイン案（下絵）のバージョン管理と承認
+ * 承認されたデザインは予約に記録され、以降は変更できない
+ */
+export class DesignDraftService {
+  private static instance: DesignDraftService;
+
+  private constructor() {}
+
+  static getInstance(): DesignDraftService {
+    if (!DesignDraftService.instance) {
+      DesignDraftService.instance = new DesignDraftService();
+    }
+    return DesignDraftService.instance;
+  }
+
+  /**
+   * 予約のデザイン案を取得（バージョン順）
+   */
+  async getDrafts(bookingId: string): Promise<DesignDraft[]> {
+    try {
+      const draftsSnapshot = await this.draftsRef(bookingId)
+        .orderBy("version")
+        .get();
+
+      return draftsSnapshot.docs.map((doc) => this.toDraft(doc.id, doc.data()));
+    } catch (error) {
+      console.error("Error getting design drafts:", error);
+      return [];
+    }
+  }
+
+  /**
+   * 新しいバージョンのデザイン案をアップロード（アーティストのみ）
+   * レビュー中の古い案は置き換え済みになり、チャットに確認カードを送信する
+   */
+  async uploadDraft(
+    booking: Pick<
+      BookingRequest,
+      "id" | "customerId" | "artistId" | "status" | "approvedDesign"
+    >,
+    artistId: string,
+    imageUri: string,
+    note?: string,
+  ): Promise<DesignDraft> {
+    if (!canUploadDesignDraft(booking, artistId)) {
+      throw new DesignDraftClosedError();
+    }
+    if (!isValidDesignDraftNote(note)) {
+      throw new Error("Design draft note is too long");
+    }
+
+    try {
+      const drafts = await this.getDrafts(booking.id);
+      const version = getNextDesignDraftVersion(drafts);
+      // 同じバージョンが同時にアップロードされた場合、後のものはルールで拒否される
+      const draftRef = this.draftsRef(booking.id).doc(
+        getDesignDraftId(version),
+      );
+
+      // 拒否されたアップロードが採用された画像を上書きしないよう、画像名は別に採番
+      const reference = storage().ref(
+        `bookings/${booking.id}/designs/${this.draftsRef(booking.id).doc().id}.jpg`,
+      );
+      await reference.putFile(imageUri, {
+        customMetadata: { uploadedBy: artistId },
+      });
+      const imageUrl = await reference.getDownloadURL();
+
+      const roomId = await ChatService.getOrCreateChatRoom(
+        booking.customerId,
+        booking.artistId,
+        "booking",
+      );
+
+      const draft: DesignDraft = {
+        id: draftRef.id,
+        bookingId: booking.id,
+        customerId: booking.customerId,
+        artistId,
+        version,
+        imageUrl,
+        ...(note && { note }),
+        status: "in_review",
+        annotations: [],
+        roomId,
+        createdAt: new Date(),
+      };
+
+      const batch = firestore().batch();
+      const { id, ...draftData } = draft;
+      batch.set(draftRef, draftData);
+      drafts
+        .filter((d) => d.status === "in_review")
+        .forEach((d) =>
+          batch.update(this.draftsRef(booking.id).doc(d.id), {
+            status: "superseded",
+          }),
+        );
+      await batch.commit();
+
+      const chatMessageId = await ChatService.sendCard(
+        roomId,
+        artistId,
+        createChatCard("design_approval", booking.id, {
+          draftId: draft.id,
+          imageUrl,
+          designVersion: draft.version,
+          note,
+        }),
+      );
+      await draftRef.update({ chatMessageId });
+
+      return { ...draft, chatMessageId };
+    } catch (error) {
+      console.error("Error uploading design draft:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * デザイン案の位置にコメントを追加（お客様のみ・レビュー中の案）
+   */
+  async annotateDraft(
+    bookingId: string,
+    draftId: string,
+    userId: string,
+    annotation: Pick<DesignAnnotation, "x" | "y" | "comment">,
+  ): Promise<DesignAnnotation> {
+    if (!isValidDesignAnnotation(annotation)) {
+      throw new Error("Invalid design annotation");
+    }
+
+    try {
+      const { booking, draft } = await this.getReviewTarget(bookingId, draftId);
+      if (!canReviewDesignDraft(booking, draft, userId)) {
+        throw new DesignDraftClosedError();
+      }
+      if (draft.annotations.length >= MAX_DESIGN_ANNOTATIONS) {
+        throw new Error("Too many annotations on this design draft");
+      }
+
+      const newAnnotation: DesignAnnotation = {
+        id: this.draftsRef(bookingId).doc().id,
+        authorId: userId,
+        x: annotation.x,
+        y: annotation.y,
+        comment: annotation.comment.trim(),
+        createdAt: new Date(),
+      };
+
+      await this.draftsRef(bookingId)
+        .doc(draftId)
+        .update({
+          annotations: firestore.FieldValue.arrayUnion(newAnnotation),
+        });
+
+      return newAnnotation;
+    } catch (error) {
+      console.error("Error annotating design draft:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * デザイン案を承認（予約に記録）または修正をリクエスト（お客様のみ）
+   * 確認カードにも回答を記録し、チャットにシステムメッセージを送信する
+   */
+  async reviewDraft(
+    bookingId: string,
+    draftId: string,
+    userId: string,
+    approved: boolean,
+    comment?: string,
+  ): Promise<void> {
+    if (!isValidDesignDraftNote(comment)) {
+      throw new Error("Review comment is too long");
+    }
+
+    try {
+      const { booking, draft } = await this.getReviewTarget(bookingId, draftId);
+      if (!canReviewDesignDraft(booking, draft, userId)) {
+        throw new DesignDraftClosedError();
+      }
+
+      const reviewedAt = new Date();
+      const batch = firestore().batch();
+      batch.update(this.draftsRef(bookingId).doc(draftId), {
+        status: approved ? "approved" : "changes_requested",
+        ...(comment && { reviewComment: comment }),
+        reviewedAt,
+      });
+      if (approved) {
+        batch.update(
+          firestore().collection(BOOKING_COLLECTIONS.requests).doc(bookingId),
+          {
+            approvedDesign: toApprovedDesign(draft, userId, reviewedAt),
+            updatedAt: reviewedAt,
+          },
+        );
+      }
+      await batch.commit();
+
+      const roomId =
+        draft.roomId ||
+        (await ChatService.getOrCreateChatRoom(
+          booking.customerId,
+          booking.artistId,
+          "booking",
+        ));
+
+      if (draft.chatMessageId) {
+        await ChatService.respondToCard(roomId, draft.chatMessageId, userId, {
+          action: approved ? "approve" : "request_changes",
+        });
+      }
+
+      const annotationCount = draft.annotations.length;
+      await ChatService.sendSystemMessage(
+        roomId,
+        (approved
+          ? `✅ デザイン v${draft.version} が承認されました`
+          : `✏️ デザイン v${draft.version} の修正がリクエストされました`) +
+          (comment ? `\n${comment}` : "") +
+          (!approved && annotationCount > 0
+            ? `\n📍 コメント ${annotationCount}件`
+            : ""),
+      );
+    } catch (error) {
+      console.error("Error reviewing design draft:", error);
+      throw error;
+    }
+  }
+
+  private async getReviewTarget(
+    bookingId: string,
+    draftId: string,
+  ): Promise<{
+    booking: Pick<
+      BookingRequest,
+      "customerId" | "artistId" | "status" | "approvedDesign"
+    >;
+    draft: DesignDraft;
+  }> {
+    const [bookingDoc, draftDoc] = await Promise.all([
+      firestore().collection(BOOKING_COLLECTIONS.requests).doc(bookingId).get(),
+      this.draftsRef(bookingId).doc(draftId).get(),
+    ]);
+
+    if (!bookingDoc.exists || !draftDoc.exists) {
+      throw new Error("Design draft not found");
+    }
+
+    const bookingData = bookingDoc.data()!;
+    return {
+      booking: {
+        customerId: bookingData.customerId,
+        artistId: bookingData.artistId,
+        status: toCanonicalBookingStatus(bookingData.status),
+        approvedDesign: bookingData.approvedDesign,
+      },
+      draft: this.toDraft(draftDoc.id, draftDoc.data()),
+    };
+  }
+
+  private draftsRef(bookingId: string) {
+    return firestore()
+      .collection(BOOKING_COLLECTIONS.requests)
+      .doc(bookingId)
+      .collection(BOOKING_COLLECTIONS.designDrafts);
+  }
+
+  private toDraft(
+    id: string,
+    data: FirebaseFirestoreTypes.DocumentData,
+  ): DesignDraft {
+    return {
+      id,
+      ...data,
+      annotations: (data.annotations || []).map(
+        (annotation: FirebaseFirestoreTypes.DocumentData) => ({
+          ...annotation,
+          createdAt: annotation.createdAt?.toDate() || new Date(),
+        }),
+      ),
+      reviewedAt: data.reviewedAt?.toDate(),
+      createdAt: data.createdAt?.toDate() || new Date(),
+    } as DesignDraft;
+  }
+}
+
+export default DesignDraftService.getInstance();
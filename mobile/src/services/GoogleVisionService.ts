@@ -1,14 +1,14 @@
 import { TattooStyle, ImageAnalysis, AIAnalysisResult } from "../types";
 import { EnvironmentConfig } from "../config/EnvironmentConfig";
 
-interface GoogleVisionResponse {
+export interface GoogleVisionResponse {
   responses: Array<{
     labelAnnotations?: Array<{
-      mid: string;
-      locale: string;
+      mid?: string;
+      locale?: string;
       description: string;
       score: number;
-      topicality: number;
+      topicality?: number;
     }>;
     imagePropertiesAnnotation?: {
       dominantColors: {
@@ -25,11 +25,11 @@ interface GoogleVisionResponse {
       };
     };
     objectLocalizationAnnotations?: Array<{
-      mid: string;
-      languageCode: string;
+      mid?: string;
+      languageCode?: string;
       name: string;
       score: number;
-      boundingPoly: {
+      boundingPoly?: {
         normalizedVertices: Array<{
           x: number;
           y: number;
@@ -120,9 +120,11 @@ export class GoogleVisionService {
     }
   }
 
-  private processVisionResponse(
-    response: GoogleVisionResponse,
-  ): AIAnalysisResult {
+  /**
+   * Vision のアノテーションをタトゥー分析結果に変換
+   * サーバー側 Vision（processImageAnalysis）の結果にも使用
+   */
+  processVisionResponse(response: GoogleVisionResponse): AIAnalysisResult {
     const firstResponse = response.responses[0];
 
     if (!firstResponse) {
@@ -0,0 +1,107 @@
+import {
+  AnalysisCacheStats,
+  getAnalysisCacheKey,
+  getCacheHitRate,
+  hashImageContent,
+} from "@tattoo-journey/shared";
+import AnalyticsService from "./AnalyticsService";
+import { ImageAnalyzerId } from "../config/EnvironmentConfig";
+import { AIAnalysisResult } from "../types";
+import { decodeBase64 } from "../utils/Base64";
+
+// 端末内に保持する分析結果の上限
+const MAX_CACHED_ANALYSES = 100;
+
+// 有料の Vision 分析だけをキャッシュする（簡易分析はオンライン復帰後に再分析）
+const CACHEABLE_ANALYZERS: ImageAnalyzerId[] = [
+  "server-vision",
+  "device-vision",
+];
+
+export interface ImageCacheIdentity {
+  contentHash: string;
+  cacheKey: string;
+}
+
+/**
+ * 画像内容（SHA-256）をキーにした分析結果キャッシュ
+ * キーは共有のバージョン付きで、サーバー側のキャッシュと同じ
+ */
+export class ImageAnalysisCache {
+  private static instance: ImageAnalysisCache;
+  // 挿入順 = 参照順（古いものから削除）
+  private entries = new Map<string, AIAnalysisResult>();
+  private stats: AnalysisCacheStats = { hits: 0, misses: 0 };
+
+  private constructor() {}
+
+  public static getInstance(): ImageAnalysisCache {
+    if (!ImageAnalysisCache.instance) {
+      ImageAnalysisCache.instance = new ImageAnalysisCache();
+    }
+    return ImageAnalysisCache.instance;
+  }
+
+  /**
+   * 画像のハッシュとキャッシュキー
+   */
+  identify(imageBase64: string): ImageCacheIdentity {
+    const contentHash = hashImageContent(decodeBase64(imageBase64));
+    return { contentHash, cacheKey: getAnalysisCacheKey(contentHash) };
+  }
+
+  /**
+   * キャッシュ済みの分析結果（ヒット率も記録）
+   */
+  get(cacheKey: string): AIAnalysisResult | null {
+    const analysis = this.entries.get(cacheKey) || null;
+
+    if (analysis) {
+      this.entries.delete(cacheKey);
+      this.entries.set(cacheKey, analysis);
+      this.stats.hits++;
+    } else {
+      this.stats.misses++;
+    }
+
+    AnalyticsService.logImageAnalysisCacheLookup(
+      analysis !== null,
+      getCacheHitRate(this.stats),
+    );
+
+    return analysis;
+  }
+
+  /**
+   * 分析結果を保存（Vision 以外の結果は保存しない）
+   */
+  set(cacheKey: string, analysis: AIAnalysisResult): void {
+    if (
+      !analysis.analyzerId ||
+      !CACHEABLE_ANALYZERS.includes(analysis.analyzerId)
+    ) {
+      return;
+    }
+
+    this.entries.delete(cacheKey);
+    this.entries.set(cacheKey, analysis);
+
+    if (this.entries.size > MAX_CACHED_ANALYSES) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  /**
+   * このセッションのヒット数・ミス数とヒット率
+   */
+  getStats(): AnalysisCacheStats & { hitRate: number } {
+    return { ...this.stats, hitRate: getCacheHitRate(this.stats) };
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.stats = { hits: 0, misses: 0 };
+  }
+}
+
+export default ImageAnalysisCache.getInstance();
@@ -1,7 +1,11 @@
-import GoogleVisionService from "./GoogleVisionService";
 import firestore from "@react-native-firebase/firestore";
+import functions from "@react-native-firebase/functions";
+import { ImageEmbedding } from "@tattoo-journey/shared";
 import { AIAnalysisResult, TattooStyle, PortfolioItem } from "../types";
 import { ErrorHandler } from "../utils/ErrorHandler";
+import { EnvironmentConfig } from "../config/EnvironmentConfig";
+import { ImageAnalyzer, createImageAnalyzers } from "./ImageAnalyzers";
+import ImageAnalysisCache from "./ImageAnalysisCache";
 
 export interface AnalysisComparison {
   styleMatch: number;
@@ -17,9 +21,29 @@ export interface PortfolioAnalysisResult {
   matchScore: number;
 }
 
+export interface SimilarPortfolioItem {
+  id: string;
+  artistId: string;
+  imageUrl: string;
+  title: string;
+  style: TattooStyle | null;
+  similarity: number; // 0-1
+}
+
+export interface VisualSearchResult {
+  // 検索画像の埋め込み（マッチング条件の designEmbedding に渡せる）
+  embedding: ImageEmbedding | null;
+  items: SimilarPortfolioItem[];
+}
+
 export class ImageAnalysisService {
   private static instance: ImageAnalysisService;
 
+  // 環境ごとの試行順に並んだ画像分析プロバイダー
+  private analyzers: ImageAnalyzer[] = createImageAnalyzers(
+    EnvironmentConfig.getImageAnalyzerOrder(),
+  );
+
   private constructor() {}
 
   public static getInstance(): ImageAnalysisService {
@@ -31,18 +55,61 @@ export class ImageAnalysisService {
 
   /**
    * 画像を包括的に分析する
+   * 同じ内容の画像は分析済みの結果を再利用し、未分析ならプロバイダーを順に試す
+   * （失敗したら次のプロバイダーへフォールバック）
    */
   async analyzeImageComprehensive(
     imageBase64: string,
+    imageUrl?: string,
   ): Promise<AIAnalysisResult> {
-    const analysis = await GoogleVisionService.analyzeImage(imageBase64);
+    const { contentHash, cacheKey } = ImageAnalysisCache.identify(imageBase64);
+    const cached = ImageAnalysisCache.get(cacheKey);
+    let analysis: AIAnalysisResult;
+
+    if (cached) {
+      analysis = { ...cached, cached: true };
+    } else {
+      analysis = await this.runAnalyzers(imageBase64, imageUrl);
+      ImageAnalysisCache.set(cacheKey, analysis);
+    }
 
     // 分析結果を更に詳しく処理
-    const enhancedAnalysis = await this.enhanceAnalysis(analysis);
+    const enhancedAnalysis = await this.enhanceAnalysis({
+      ...analysis,
+      contentHash,
+    });
 
     return enhancedAnalysis;
   }
 
+  /**
+   * 使用するプロバイダーを差し替える（テスト・デバッグ用）
+   */
+  setAnalyzers(analyzers: ImageAnalyzer[]): void {
+    this.analyzers = analyzers;
+  }
+
+  private async runAnalyzers(
+    imageBase64: string,
+    imageUrl?: string,
+  ): Promise<AIAnalysisResult> {
+    for (const analyzer of this.analyzers) {
+      try {
+        const analysis = await analyzer.analyze({ imageBase64, imageUrl });
+        return { ...analysis, analyzerId: analyzer.id };
+      } catch (error) {
+        ErrorHandler.handleError(error as Error, {
+          service: "ImageAnalysisService",
+          method: "analyzeImageComprehensive",
+          context: "image_analyzer_fallback",
+          operation: analyzer.id,
+        });
+      }
+    }
+
+    throw new Error("All image analyzers failed");
+  }
+
   /**
    * 分析結果を強化する
    */
@@ -300,32 +367,12 @@ export class ImageAnalysisService {
         .where("artistId", "==", artistId)
         .get();
 
-      const results: PortfolioAnalysisResult[] = [];
-
-      for (const doc of portfolioSnapshot.docs) {
-        const portfolioItem = { id: doc.id, ...doc.data() } as PortfolioItem;
-
-        if (portfolioItem.aiAnalysis) {
-          const comparison = this.compareAnalyses(
-            customerAnalysis,
-            portfolioItem.aiAnalysis,
-          );
-          const matchScore = this.calculateMatchScore(
-            comparison,
-            customerAnalysis,
-            portfolioItem.aiAnalysis,
-          );
-
-          results.push({
-            portfolioItem,
-            comparison,
-            matchScore,
-          });
-        }
-      }
-
-      // マッチスコアでソート
-      return results.sort((a, b) => b.matchScore - a.matchScore);
+      return this.rankPortfolioCompatibility(
+        customerAnalysis,
+        portfolioSnapshot.docs.map(
+          (doc) => ({ id: doc.id, ...doc.data() }) as PortfolioItem,
+        ),
+      );
     } catch (error) {
       const handledError = ErrorHandler.handleError(error as Error, {
         service: "ImageAnalysisService",
@@ -339,6 +386,65 @@ export class ImageAnalysisService {
     }
   }
 
+  /**
+   * 見た目が似ているポートフォリオ作品を検索する
+   * 画像埋め込みの近傍検索はサーバー側（findSimilarPortfolioItems）で実行
+   */
+  async findSimilarPortfolioItems(
+    storagePath: string,
+    limit?: number,
+  ): Promise<VisualSearchResult> {
+    try {
+      const result = await functions().httpsCallable(
+        "findSimilarPortfolioItems",
+      )({ storagePath, limit });
+
+      const { embedding, items } = result.data as VisualSearchResult;
+
+      return { embedding, items };
+    } catch (error) {
+      ErrorHandler.handleError(error as Error, {
+        service: "ImageAnalysisService",
+        method: "findSimilarPortfolioItems",
+        context: "visual_similarity_search",
+      });
+      return { embedding: null, items: [] };
+    }
+  }
+
+  /**
+   * 取得済みのポートフォリオとの互換性をスコア順に並べる
+   */
+  rankPortfolioCompatibility(
+    customerAnalysis: AIAnalysisResult,
+    portfolioItems: PortfolioItem[],
+  ): PortfolioAnalysisResult[] {
+    const results: PortfolioAnalysisResult[] = [];
+
+    for (const portfolioItem of portfolioItems) {
+      if (portfolioItem.aiAnalysis) {
+        const comparison = this.compareAnalyses(
+          customerAnalysis,
+          portfolioItem.aiAnalysis,
+        );
+        const matchScore = this.calculateMatchScore(
+          comparison,
+          customerAnalysis,
+          portfolioItem.aiAnalysis,
+        );
+
+        results.push({
+          portfolioItem,
+          comparison,
+          matchScore,
+        });
+      }
+    }
+
+    // マッチスコアでソート
+    return results.sort((a, b) => b.matchScore - a.matchScore);
+  }
+
   /**
    * マッチスコアを計算
    */
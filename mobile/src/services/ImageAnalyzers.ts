@@ -0,0 +1,166 @@
+import functions from "@react-native-firebase/functions";
+import { decode as decodeJpeg } from "jpeg-js";
+import { analyzeImagePixels } from "@tattoo-journey/shared";
+import GoogleVisionService from "./GoogleVisionService";
+import { ImageAnalyzerId } from "../config/EnvironmentConfig";
+import { expectedAIAnalysis } from "../test-data/mockAIResponses";
+import { AIAnalysisResult } from "../types";
+import { decodeBase64 } from "../utils/Base64";
+
+export interface ImageAnalyzerInput {
+  imageBase64: string;
+  // アップロード済みの画像URL（サーバー側分析に必要）
+  imageUrl?: string;
+}
+
+/**
+ * 画像分析プロバイダー
+ * 分析できない場合は例外を投げ、呼び出し側が次のプロバイダーへフォールバックする
+ */
+export interface ImageAnalyzer {
+  readonly id: ImageAnalyzerId;
+  analyze(input: ImageAnalyzerInput): Promise<AIAnalysisResult>;
+}
+
+interface ServerImageAnalysis {
+  labels: Array<{ description: string; score: number }>;
+  objects: Array<{ name: string; confidence: number }>;
+  colors: Array<{ color: string; percentage: number }>;
+}
+
+// 端末でデコードする画像の上限（メガピクセル）
+const MAX_LOCAL_DECODE_MP = 16;
+
+/**
+ * サーバー側の Vision 分析（processImageAnalysis）
+ * APIキーを端末に置かずに済む
+ */
+export class ServerVisionAnalyzer implements ImageAnalyzer {
+  readonly id = "server-vision";
+
+  async analyze(input: ImageAnalyzerInput): Promise<AIAnalysisResult> {
+    if (!input.imageUrl) {
+      throw new Error("Server vision analysis requires an uploaded image");
+    }
+
+    const result = await functions().httpsCallable("processImageAnalysis")({
+      imageUrl: input.imageUrl,
+    });
+    const { analysis, cached } = result.data as {
+      analysis: ServerImageAnalysis;
+      cached?: boolean;
+    };
+
+    // Vision のレスポンス形式に戻して共通の変換処理を使う
+    const converted = GoogleVisionService.processVisionResponse({
+      responses: [
+        {
+          labelAnnotations: analysis.labels,
+          objectLocalizationAnnotations: analysis.objects.map((object) => ({
+            name: object.name,
+            score: object.confidence,
+          })),
+          imagePropertiesAnnotation: {
+            dominantColors: {
+              colors: analysis.colors.map(({ color, percentage }) => {
+                const [red = 0, green = 0, blue = 0] = (
+                  color.match(/\d+/g) || []
+                ).map(Number);
+                return {
+                  color: { red, green, blue },
+                  score: percentage / 100,
+                  pixelFraction: percentage / 100,
+                };
+              }),
+            },
+          },
+        },
+      ],
+    });
+
+    // サーバー側のキャッシュから返した場合
+    return { ...converted, cached: cached === true };
+  }
+}
+
+/**
+ * 端末から Vision REST API を直接呼ぶ（GOOGLE_VISION_API_KEY が必要）
+ */
+export class DeviceVisionAnalyzer implements ImageAnalyzer {
+  readonly id = "device-vision";
+
+  analyze(input: ImageAnalyzerInput): Promise<AIAnalysisResult> {
+    return GoogleVisionService.analyzeImage(input.imageBase64);
+  }
+}
+
+/**
+ * 端末内のヒューリスティック分析（オフラインでも動作、JPEGのみ）
+ * カラーパレット・ブラック＆グレー判定・線の密度から推定する
+ */
+export class LocalHeuristicAnalyzer implements ImageAnalyzer {
+  readonly id = "local-heuristic";
+
+  async analyze(input: ImageAnalyzerInput): Promise<AIAnalysisResult> {
+    const bytes = decodeBase64(input.imageBase64);
+
+    if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+      throw new Error("Local analysis supports JPEG images only");
+    }
+
+    const image = decodeJpeg(bytes, {
+      useTArray: true,
+      formatAsRGBA: false,
+      maxResolutionInMP: MAX_LOCAL_DECODE_MP,
+    });
+    const { greyRatio, isBlackAndGrey, lineDensity, ...analysis } =
+      analyzeImagePixels(image);
+
+    return {
+      ...analysis,
+      rawLabels: [
+        {
+          description: isBlackAndGrey ? "Black and grey" : "Color",
+          confidence: isBlackAndGrey ? greyRatio : 1 - greyRatio,
+        },
+        { description: "Line density", confidence: lineDensity },
+      ],
+      processedAt: new Date(),
+    };
+  }
+}
+
+/**
+ * テスト用フィクスチャ（mockAIResponses）
+ * 同じ画像には常に同じ結果を返す
+ */
+export class FixtureAnalyzer implements ImageAnalyzer {
+  readonly id = "fixtures";
+
+  async analyze(input: ImageAnalyzerInput): Promise<AIAnalysisResult> {
+    const names = Object.keys(expectedAIAnalysis);
+    let hash = 0;
+    for (let i = 0; i < input.imageBase64.length; i++) {
+      hash = (hash * 31 + input.imageBase64.charCodeAt(i)) >>> 0;
+    }
+
+    return {
+      ...expectedAIAnalysis[names[hash % names.length]],
+      processedAt: new Date(),
+    };
+  }
+}
+
+const ANALYZER_FACTORIES: Record<ImageAnalyzerId, () => ImageAnalyzer> = {
+  "server-vision": () => new ServerVisionAnalyzer(),
+  "device-vision": () => new DeviceVisionAnalyzer(),
+  "local-heuristic": () => new LocalHeuristicAnalyzer(),
+  fixtures: () => new FixtureAnalyzer(),
+};
+
+/**
+ * 指定順のプロバイダーを生成
+ */
+export function createImageAnalyzers(ids: ImageAnalyzerId[]): ImageAnalyzer[] {
+  return ids.map((id) => ANALYZER_FACTORIES[id]());
+}
@@ -175,6 +175,8 @@ export class NotificationService {
               booking_request: true,
               booking_confirmed: true,
               booking_cancelled: true,
+              appointment_reminder: true,
+              aftercare: true,
               message: true,
               review_received: true,
               promotion: false, // デフォルトはオプトアウト
@@ -484,6 +486,8 @@ export class NotificationService {
               booking_request: true,
               booking_confirmed: true,
               booking_cancelled: true,
+              appointment_reminder: true,
+              aftercare: true,
               message: true,
               review_received: true,
               promotion: false,
@@ -0,0 +1,156 @@
+import firestore from "@react-native-firebase/firestore";
+import functions from "@react-native-firebase/functions";
+import {
+  DEFAULT_DEPOSIT_REQUIREMENT,
+  DepositRequirement,
+  PAYMENT_COLLECTIONS,
+  PaymentChargeType,
+  PaymentLedgerEntry,
+} from "@tattoo-journey/shared";
+import ChatService from "./ChatService";
+import { BookingRequest } from "./BookingService";
+
+export type {
+  DepositRequirement,
+  LedgerSummary,
+  PaymentChargeType,
+  PaymentLedgerEntry,
+} from "@tattoo-journey/shared";
+
+export const PAYMENT_TYPE_LABELS: Record<PaymentLedgerEntry["type"], string> = {
+  deposit: "デポジット",
+  balance: "施術料金",
+  consultation_fee: "カウンセリング料",
+  touch_up_fee: "リタッチ料",
+  refund: "返金",
+};
+
+/**
+ * 予約ごとの支払い台帳（デポジット・残金・各種料金・返金）
+ * 台帳への書き込みは Cloud Functions（決済プロバイダー経由）のみ
+ */
+export class PaymentService {
+  private static instance: PaymentService;
+
+  private constructor() {}
+
+  static getInstance(): PaymentService {
+    if (!PaymentService.instance) {
+      PaymentService.instance = new PaymentService();
+    }
+    return PaymentService.instance;
+  }
+
+  /**
+   * 予約の台帳エントリを取得（古い順）
+   */
+  async getBookingLedger(
+    booking: Pick<BookingRequest, "id" | "customerId" | "artistId">,
+    userId: string,
+  ): Promise<PaymentLedgerEntry[]> {
+    try {
+      // セキュリティルールを満たすため参加者フィールドでも絞り込む
+      const participantField =
+        booking.customerId === userId ? "customerId" : "artistId";
+
+      const ledgerSnapshot = await firestore()
+        .collection(PAYMENT_COLLECTIONS.ledger)
+        .where("bookingId", "==", booking.id)
+        .where(participantField, "==", userId)
+        .get();
+
+      return ledgerSnapshot.docs
+        .map(
+          (doc) =>
+            ({
+              id: doc.id,
+              ...doc.data(),
+              createdAt: doc.data().createdAt?.toDate() || new Date(),
+            }) as PaymentLedgerEntry,
+        )
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    } catch (error) {
+      console.error("Error getting booking ledger:", error);
+      return [];
+    }
+  }
+
+  /**
+   * アーティストのデポジット設定を取得
+   */
+  async getDepositRequirement(artistId: string): Promise<DepositRequirement> {
+    try {
+      const artistDoc = await firestore()
+        .collection("users")
+        .doc(artistId)
+        .get();
+
+      return (
+        artistDoc.data()?.profile?.artistInfo?.depositRequirement ||
+        DEFAULT_DEPOSIT_REQUIREMENT
+      );
+    } catch (error) {
+      console.error("Error getting deposit requirement:", error);
+      return DEFAULT_DEPOSIT_REQUIREMENT;
+    }
+  }
+
+  /**
+   * 支払いを記録（請求額はサーバー側で算出、金額を指定できるのは各種料金とプロジェクトの残金のみ）
+   * 通信エラー時の再送で二重請求にならないよう、同じ支払いには同じキーを使う
+   */
+  async recordPayment(
+    booking: Pick<BookingRequest, "id" | "customerId" | "artistId">,
+    type: PaymentChargeType,
+    amount?: number,
+  ): Promise<void> {
+    try {
+      const idempotencyKey = firestore()
+        .collection(PAYMENT_COLLECTIONS.ledger)
+        .doc().id;
+      const callable = functions().httpsCallable("recordBookingPayment");
+      const request = {
+        bookingId: booking.id,
+        type,
+        idempotencyKey,
+        ...(amount !== undefined && { amount }),
+      };
+
+      let result;
+      try {
+        result = await callable(request);
+      } catch (error) {
+        // 決済結果が確認できなかった場合は同じキーで一度だけ再送
+        if ((error as { code?: string })?.code !== "unavailable") {
+          throw error;
+        }
+        result = await callable(request);
+      }
+      const payment = result.data as {
+        success: boolean;
+        amount: number;
+        failureReason: string | null;
+      };
+
+      if (!payment.success) {
+        throw new Error(payment.failureReason || "Payment failed");
+      }
+
+      const roomId = await ChatService.getOrCreateChatRoom(
+        booking.customerId,
+        booking.artistId,
+        "booking",
+      );
+
+      await ChatService.sendSystemMessage(
+        roomId,
+        `💳 ${PAYMENT_TYPE_LABELS[type]} ¥${payment.amount.toLocaleString()} の支払いを記録しました`,
+      );
+    } catch (error) {
+      console.error("Error recording payment:", error);
+      throw error;
+    }
+  }
+}
+
+export default PaymentService.getInstance();
@@ -0,0 +1,346 @@
+import firestore, {
+  FirebaseFirestoreTypes,
+} from "@react-native-firebase/firestore";
+import functions from "@react-native-firebase/functions";
+import {
+  BookingProject,
+  PROJECT_COLLECTIONS,
+  ProjectAction,
+  ProjectProgress,
+  ProjectSession,
+  getProjectProgress,
+} from "@tattoo-journey/shared";
+import ChatService from "./ChatService";
+import { BookingSlotConflictError } from "./BookingService";
+import PaymentService from "./PaymentService";
+
+export type {
+  BookingProject,
+  ProjectProgress,
+  ProjectSession,
+} from "@tattoo-journey/shared";
+
+export interface ProjectWithSessions {
+  project: BookingProject;
+  sessions: ProjectSession[];
+  progress: ProjectProgress;
+}
+
+/**
+ * 複数回施術（スリーブ・背中など）のプロジェクト管理
+ * 書き込みはすべて Cloud Functions 経由（予約枠の確保も同一トランザクション）
+ * 支払いは元の予約リクエストの支払い台帳に記録する
+ */
+export class ProjectService {
+  private static instance: ProjectService;
+
+  private constructor() {}
+
+  static getInstance(): ProjectService {
+    if (!ProjectService.instance) {
+      ProjectService.instance = new ProjectService();
+    }
+    return ProjectService.instance;
+  }
+
+  /**
+   * 予約リクエストをプロジェクト化（アーティストのみ）
+   */
+  async createProject(
+    bookingRequestId: string,
+    details: {
+      title: string;
+      designDescription?: string;
+      plannedSessions: number;
+      sessionDuration: number;
+      quotedPrice: number;
+      depositAmount: number;
+    },
+  ): Promise<string> {
+    try {
+      const result = await functions().httpsCallable("createBookingProject")({
+        bookingRequestId,
+        ...details,
+      });
+      const projectId = (result.data as { projectId: string }).projectId;
+
+      const project = await this.getProject(projectId);
+      if (project) {
+        await ChatService.sendSystemMessage(
+          project.roomId,
+          `🗂️ プロジェクト「${project.title}」を作成しました\n` +
+            `🔢 施術回数: ${project.plannedSessions}回\n` +
+            `💰 見積もり: ¥${project.quotedPrice.toLocaleString()}\n` +
+            `💳 デポジット: ¥${project.depositAmount.toLocaleString()}`,
+        );
+      }
+
+      return projectId;
+    } catch (error) {
+      console.error("Error creating project:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * プロジェクトを取得
+   */
+  async getProject(projectId: string): Promise<BookingProject | null> {
+    try {
+      const projectDoc = await firestore()
+        .collection(PROJECT_COLLECTIONS.projects)
+        .doc(projectId)
+        .get();
+
+      if (!projectDoc.exists) {
+        return null;
+      }
+
+      return this.toProject(projectDoc.id, projectDoc.data()!);
+    } catch (error) {
+      console.error("Error getting project:", error);
+      return null;
+    }
+  }
+
+  /**
+   * プロジェクトのセッション一覧を取得（セッション番号順）
+   */
+  async getProjectSessions(projectId: string): Promise<ProjectSession[]> {
+    try {
+      const sessionsSnapshot = await firestore()
+        .collection(PROJECT_COLLECTIONS.projects)
+        .doc(projectId)
+        .collection(PROJECT_COLLECTIONS.sessions)
+        .orderBy("sessionNumber")
+        .get();
+
+      return sessionsSnapshot.docs.map((doc) => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          ...data,
+          scheduledDate: data.scheduledDate?.toDate(),
+          completedAt: data.completedAt?.toDate(),
+          createdAt: data.createdAt?.toDate() || new Date(),
+          updatedAt: data.updatedAt?.toDate() || new Date(),
+        } as ProjectSession;
+      });
+    } catch (error) {
+      console.error("Error getting project sessions:", error);
+      return [];
+    }
+  }
+
+  /**
+   * プロジェクトとセッション・進捗（支払いは台帳から集計）をまとめて取得
+   */
+  async getProjectWithSessions(
+    projectId: string,
+    userId: string,
+  ): Promise<ProjectWithSessions | null> {
+    const [project, sessions] = await Promise.all([
+      this.getProject(projectId),
+      this.getProjectSessions(projectId),
+    ]);
+
+    if (!project) {
+      return null;
+    }
+
+    const ledger = await PaymentService.getBookingLedger(
+      this.toLedgerBooking(project),
+      userId,
+    );
+
+    return {
+      project,
+      sessions,
+      progress: getProjectProgress(project, sessions, ledger),
+    };
+  }
+
+  /**
+   * ユーザーのプロジェクト一覧を取得
+   */
+  async getUserProjects(
+    userId: string,
+    userType: "customer" | "artist",
+  ): Promise<BookingProject[]> {
+    try {
+      const field = userType === "customer" ? "customerId" : "artistId";
+
+      const projectsSnapshot = await firestore()
+        .collection(PROJECT_COLLECTIONS.projects)
+        .where(field, "==", userId)
+        .orderBy("createdAt", "desc")
+        .get();
+
+      return projectsSnapshot.docs.map((doc) =>
+        this.toProject(doc.id, doc.data()),
+      );
+    } catch (error) {
+      console.error("Error getting user projects:", error);
+      return [];
+    }
+  }
+
+  /**
+   * セッションの日程を設定・変更（アーティストのみ・重複時は BookingSlotConflictError）
+   */
+  async scheduleSession(
+    project: BookingProject,
+    session: ProjectSession,
+    scheduledDate: Date,
+    duration: number = session.duration,
+  ): Promise<void> {
+    try {
+      const isReschedule = session.status === "scheduled";
+
+      await this.updateProject(project.id, "schedule_session", {
+        sessionId: session.id,
+        scheduledDate: scheduledDate.toISOString(),
+        duration,
+      });
+
+      await ChatService.sendSystemMessage(
+        project.roomId,
+        `📅 第${session.sessionNumber}回セッションの日程を${
+          isReschedule ? "変更" : "設定"
+        }しました\n` +
+          `🗓️ 日時: ${scheduledDate.toLocaleString("ja-JP")}\n` +
+          `⏰ 所要時間: ${duration}分`,
+      );
+    } catch (error) {
+      console.error("Error scheduling session:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * セッションを完了（アーティストのみ）
+   * 当日の支払いは残金として台帳に記録してから完了にする
+   */
+  async completeSession(
+    project: BookingProject,
+    session: ProjectSession,
+    actualDuration: number,
+    paidAmount: number,
+  ): Promise<void> {
+    try {
+      if (paidAmount > 0) {
+        await PaymentService.recordPayment(
+          this.toLedgerBooking(project),
+          "balance",
+          paidAmount,
+        );
+      }
+
+      const result = await this.updateProject(project.id, "complete_session", {
+        sessionId: session.id,
+        actualDuration,
+      });
+
+      await ChatService.sendSystemMessage(
+        project.roomId,
+        `✅ 第${session.sessionNumber}回セッションが完了しました\n` +
+          `📊 進捗: ${result.completedSessions}/${result.totalSessions}回\n` +
+          `💰 残金: ¥${result.remainingBalance.toLocaleString()}`,
+      );
+    } catch (error) {
+      console.error("Error completing session:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * セッションをキャンセル（予約枠も解放）
+   */
+  async cancelSession(
+    project: BookingProject,
+    session: ProjectSession,
+    reason: string,
+  ): Promise<void> {
+    try {
+      await this.updateProject(project.id, "cancel_session", {
+        sessionId: session.id,
+        notes: reason,
+      });
+
+      await ChatService.sendSystemMessage(
+        project.roomId,
+        `❌ 第${session.sessionNumber}回セッションがキャンセルされました\n理由: ${reason}`,
+      );
+    } catch (error) {
+      console.error("Error cancelling session:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * デポジットの受領を台帳に記録（アーティストのみ）
+   */
+  async recordDeposit(project: BookingProject): Promise<void> {
+    try {
+      await PaymentService.recordPayment(
+        this.toLedgerBooking(project),
+        "deposit",
+      );
+    } catch (error) {
+      console.error("Error recording deposit:", error);
+      throw error;
+    }
+  }
+
+  // プライベートメソッド
+
+  private async updateProject(
+    projectId: string,
+    action: ProjectAction,
+    payload: Record<string, any> = {},
+  ): Promise<{
+    completedSessions: number;
+    totalSessions: number;
+    remainingBalance: number;
+  }> {
+    try {
+      const result = await functions().httpsCallable("updateBookingProject")({
+        projectId,
+        action,
+        ...payload,
+      });
+      return result.data as {
+        completedSessions: number;
+        totalSessions: number;
+        remainingBalance: number;
+      };
+    } catch (error) {
+      throw BookingSlotConflictError.fromCallableError(error) || error;
+    }
+  }
+
+  /**
+   * プロジェクトの支払い台帳は元の予約リクエストのもの
+   */
+  private toLedgerBooking(project: BookingProject) {
+    return {
+      id: project.bookingRequestId,
+      customerId: project.customerId,
+      artistId: project.artistId,
+    };
+  }
+
+  private toProject(
+    id: string,
+    data: FirebaseFirestoreTypes.DocumentData,
+  ): BookingProject {
+    return {
+      id,
+      ...data,
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+    } as BookingProject;
+  }
+}
+
+export default ProjectService.getInstance();
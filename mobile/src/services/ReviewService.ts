@@ -1,4 +1,5 @@
 import firestore from "@react-native-firebase/firestore";
+import { BOOKING_COLLECTIONS } from "@tattoo-journey/shared";
 import { User } from "../types";
 
 export interface Review {
@@ -91,7 +92,7 @@ export class ReviewService {
 
       // 予約が完了しているかチェック
       const bookingDoc = await firestore()
-        .collection("confirmedBookings")
+        .collection(BOOKING_COLLECTIONS.confirmed)
         .where("bookingRequestId", "==", bookingId)
         .where("customerId", "==", customerId)
         .where("status", "==", "completed")
@@ -0,0 +1,177 @@
+import firestore from "@react-native-firebase/firestore";
+import functions from "@react-native-firebase/functions";
+import {
+  WAITLIST_COLLECTIONS,
+  WaitlistEntry,
+  WaitlistOffer,
+  isValidWaitlistEntry,
+} from "@tattoo-journey/shared";
+import ChatService from "./ChatService";
+
+export type { WaitlistEntry, WaitlistOffer } from "@tattoo-journey/shared";
+
+/**
+ * 予約が埋まっているアーティストのキャンセル待ち
+ * 空いた枠の提案・確保は Cloud Functions が行い、クライアントは登録と回答のみ
+ */
+export class WaitlistService {
+  private static instance: WaitlistService;
+
+  private constructor() {}
+
+  static getInstance(): WaitlistService {
+    if (!WaitlistService.instance) {
+      WaitlistService.instance = new WaitlistService();
+    }
+    return WaitlistService.instance;
+  }
+
+  /**
+   * キャンセル待ちに登録
+   */
+  async joinWaitlist(
+    customerId: string,
+    artistId: string,
+    details: Omit<
+      WaitlistEntry,
+      "id" | "customerId" | "artistId" | "status" | "createdAt" | "updatedAt"
+    >,
+  ): Promise<string> {
+    try {
+      if (!isValidWaitlistEntry(details)) {
+        throw new Error("Invalid waitlist entry");
+      }
+
+      const docRef = await firestore()
+        .collection(WAITLIST_COLLECTIONS.entries)
+        .add({
+          ...details,
+          customerId,
+          artistId,
+          status: "waiting",
+          // ルールでサーバー時刻と一致することを検証
+          createdAt: firestore.FieldValue.serverTimestamp(),
+          updatedAt: firestore.FieldValue.serverTimestamp(),
+        });
+
+      return docRef.id;
+    } catch (error) {
+      console.error("Error joining waitlist:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * キャンセル待ちを取り消し
+   */
+  async leaveWaitlist(entryId: string): Promise<void> {
+    try {
+      await firestore()
+        .collection(WAITLIST_COLLECTIONS.entries)
+        .doc(entryId)
+        .update({
+          status: "cancelled",
+          updatedAt: new Date(),
+        });
+    } catch (error) {
+      console.error("Error leaving waitlist:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 顧客のキャンセル待ち一覧を取得（待機中・提案中のみ）
+   */
+  async getCustomerEntries(customerId: string): Promise<WaitlistEntry[]> {
+    try {
+      const snapshot = await firestore()
+        .collection(WAITLIST_COLLECTIONS.entries)
+        .where("customerId", "==", customerId)
+        .where("status", "in", ["waiting", "offered"])
+        .get();
+
+      return snapshot.docs.map((doc) => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          ...data,
+          earliestDate: data.earliestDate?.toDate(),
+          latestDate: data.latestDate?.toDate(),
+          createdAt: data.createdAt?.toDate(),
+          updatedAt: data.updatedAt?.toDate(),
+        } as WaitlistEntry;
+      });
+    } catch (error) {
+      console.error("Error getting waitlist entries:", error);
+      return [];
+    }
+  }
+
+  /**
+   * 回答待ちの空き枠提案を取得（期限切れは除外）
+   */
+  async getPendingOffers(customerId: string): Promise<WaitlistOffer[]> {
+    try {
+      const snapshot = await firestore()
+        .collection(WAITLIST_COLLECTIONS.offers)
+        .where("customerId", "==", customerId)
+        .where("status", "==", "pending")
+        .get();
+
+      return snapshot.docs
+        .map((doc) => {
+          const data = doc.data();
+          return {
+            id: doc.id,
+            ...data,
+            startTime: data.startTime?.toDate(),
+            endTime: data.endTime?.toDate(),
+            expiresAt: data.expiresAt?.toDate(),
+            createdAt: data.createdAt?.toDate(),
+          } as WaitlistOffer;
+        })
+        .filter((offer) => offer.expiresAt.getTime() > Date.now())
+        .sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime());
+    } catch (error) {
+      console.error("Error getting waitlist offers:", error);
+      return [];
+    }
+  }
+
+  /**
+   * 空き枠の提案に回答（承認時は確保済みの枠で予約リクエストを作成し、その ID を返す）
+   */
+  async respondToOffer(
+    offer: WaitlistOffer,
+    accept: boolean,
+  ): Promise<string | null> {
+    try {
+      const result = await functions().httpsCallable("respondToWaitlistOffer")({
+        offerId: offer.id,
+        accept,
+      });
+      const bookingId = (result.data as { bookingId: string | null }).bookingId;
+
+      if (bookingId) {
+        const roomId = await ChatService.getOrCreateChatRoom(
+          offer.customerId,
+          offer.artistId,
+          "booking",
+        );
+
+        await ChatService.sendSystemMessage(
+          roomId,
+          `⏳ キャンセル待ちの枠で予約をリクエストしました\n` +
+            `📅 希望日時: ${offer.startTime.toLocaleString("ja-JP")}`,
+        );
+      }
+
+      return bookingId;
+    } catch (error) {
+      console.error("Error responding to waitlist offer:", error);
+      throw error;
+    }
+  }
+}
+
+export default WaitlistService.getInstance();
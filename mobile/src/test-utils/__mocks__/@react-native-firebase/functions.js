@@ -0,0 +1,10 @@
+export default () => ({
+  httpsCallable: jest.fn(() =>
+    jest.fn(() =>
+      Promise.resolve({
+        data: { success: true },
+      }),
+    ),
+  ),
+  useEmulator: jest.fn(),
+});
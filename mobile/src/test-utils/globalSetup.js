@@ -0,0 +1,7 @@
+/**
+ * Run every suite in UTC, the timezone Cloud Functions run in, so code that
+ * depends on the machine's timezone fails here instead of in production
+ */
+module.exports = async () => {
+  process.env.TZ = "UTC";
+};
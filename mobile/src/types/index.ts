@@ -1,3 +1,5 @@
+import { ImageAnalyzerId } from "../config/EnvironmentConfig";
+
 export interface User {
   uid: string;
   email: string;
@@ -65,6 +67,8 @@ export interface PortfolioItem {
   price: number;
   tags: string[];
   aiAnalysis: AIAnalysis;
+  // アーティストがタグを手動で調整した日時
+  lastManualTagAdjustment?: Date;
   createdAt: Date;
 }
 
@@ -83,6 +87,11 @@ export interface AIAnalysisResult extends AIAnalysis {
     confidence: number;
   }>;
   processedAt: Date;
+  // 分析したプロバイダー（ImageAnalysisService 経由の場合）
+  analyzerId?: ImageAnalyzerId;
+  // 画像内容の SHA-256 と、キャッシュから返したかどうか
+  contentHash?: string;
+  cached?: boolean;
 }
 
 export interface ImageAnalysis {
@@ -0,0 +1,28 @@
+const BASE64_ALPHABET =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/**
+ * Base64（data URL可）をバイト列に変換
+ */
+export function decodeBase64(base64: string): Uint8Array {
+  const clean = base64
+    .replace(/^data:[^,]*,/, "")
+    .replace(/[^A-Za-z0-9+/]/g, "");
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let length = 0;
+
+  for (let i = 0; i < clean.length; i++) {
+    buffer = (buffer << 6) | BASE64_ALPHABET.indexOf(clean[i]);
+    bits += 6;
+
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[length++] = (buffer >> bits) & 0xff;
+      buffer &= (1 << bits) - 1;
+    }
+  }
+
+  return bytes.subarray(0, length);
+}
@@ -0,0 +1,154 @@
+/**
+ * 🎨 Tattoo Journey 2.0 - Shared Image Analysis Cache
+ *
+ * Analysis results are cached by the SHA-256 of the image bytes, so the same
+ * reference uploaded twice, or a portfolio re-tagged, costs one vision call.
+ * Cache keys carry ANALYSIS_CACHE_VERSION: bumping it when the style
+ * classifier changes makes every older entry unreachable.
+ */
+
+export const ANALYSIS_CACHE_COLLECTIONS = {
+  // Keyed by getAnalysisCacheKey
+  entries: "imageAnalysisCache",
+  // Daily hit / miss counters, keyed by getAnalysisCacheMetricsDocId
+  metrics: "analysisCacheMetrics",
+} as const;
+
+/**
+ * Version of the style classifier and analysis result shape. Bump it on any
+ * change to either, in the functions or in the app.
+ */
+export const ANALYSIS_CACHE_VERSION = 1;
+
+/**
+ * Days of metrics the stats report covers at most
+ */
+export const MAX_ANALYSIS_CACHE_STATS_DAYS = 90;
+
+export interface AnalysisCacheStats {
+  hits: number;
+  misses: number;
+}
+
+const SHA256_K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+/**
+ * SHA-256 of the image bytes as lowercase hex. Implemented here so the app
+ * and the functions hash identically without a crypto dependency.
+ */
+export function hashImageContent(bytes: Uint8Array): string {
+  const hash = [
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+    0x1f83d9ab, 0x5be0cd19,
+  ];
+
+  // Message, 0x80 terminator, zero padding and the 64-bit bit length
+  const paddedLength = Math.ceil((bytes.length + 9) / 64) * 64;
+  const message = new Uint8Array(paddedLength);
+  message.set(bytes);
+  message[bytes.length] = 0x80;
+  const view = new DataView(message.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(bytes.length / 0x20000000));
+  view.setUint32(paddedLength - 4, (bytes.length * 8) >>> 0);
+
+  const words = new Array<number>(64);
+  const rotate = (value: number, bits: number) =>
+    (value >>> bits) | (value << (32 - bits));
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      words[i] = view.getUint32(offset + i * 4);
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 =
+        rotate(words[i - 15], 7) ^
+        rotate(words[i - 15], 18) ^
+        (words[i - 15] >>> 3);
+      const s1 =
+        rotate(words[i - 2], 17) ^
+        rotate(words[i - 2], 19) ^
+        (words[i - 2] >>> 10);
+      words[i] = (words[i - 16] + s0 + words[i - 7] + s1) | 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotate(e, 6) ^ rotate(e, 11) ^ rotate(e, 25);
+      const choice = (e & f) ^ (~e & g);
+      const t1 = (h + s1 + choice + SHA256_K[i] + words[i]) | 0;
+      const s0 = rotate(a, 2) ^ rotate(a, 13) ^ rotate(a, 22);
+      const majority = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (s0 + majority) | 0;
+
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+
+    [a, b, c, d, e, f, g, h].forEach((value, i) => {
+      hash[i] = (hash[i] + value) | 0;
+    });
+  }
+
+  return hash
+    .map((value) => (value >>> 0).toString(16).padStart(8, "0"))
+    .join("");
+}
+
+/**
+ * Cache document id of an image's analysis under the given version
+ */
+export function getAnalysisCacheKey(
+  contentHash: string,
+  version: number = ANALYSIS_CACHE_VERSION,
+): string {
+  return `v${version}_${contentHash}`;
+}
+
+/**
+ * Metrics document id of the UTC day
+ */
+export function getAnalysisCacheMetricsDocId(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Share of lookups served from the cache (0 without lookups)
+ */
+export function getCacheHitRate(stats: AnalysisCacheStats): number {
+  const lookups = stats.hits + stats.misses;
+  return lookups > 0 ? stats.hits / lookups : 0;
+}
+
+/**
+ * Sum daily counters into one report
+ */
+export function sumAnalysisCacheStats(
+  days: Array<Partial<AnalysisCacheStats>>,
+): AnalysisCacheStats {
+  return days.reduce<AnalysisCacheStats>(
+    (total, day) => ({
+      hits: total.hits + (day.hits || 0),
+      misses: total.misses + (day.misses || 0),
+    }),
+    { hits: 0, misses: 0 },
+  );
+}
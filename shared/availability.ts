@@ -0,0 +1,286 @@
+/**
+ * 🎨 Tattoo Journey 2.0 - Shared Artist Availability Model
+ *
+ * Recurring weekly working hours, holidays / one-off exceptions and their
+ * expansion into bookable time slots. Working hours and date keys are in the
+ * artist's local time, Japan Standard Time, whatever timezone the code runs
+ * in (Cloud Functions run in UTC).
+ */
+
+export const AVAILABILITY_COLLECTIONS = {
+  // Document id = artistId
+  templates: "availabilityTemplates",
+  // Document id = `${artistId}_${YYYY-MM-DD}`
+  exceptions: "availabilityExceptions",
+  // Document id = bookingId, written by the transitionBooking Cloud Function
+  busySlots: "artistBusySlots",
+} as const;
+
+/**
+ * JST is a fixed UTC+9 with no daylight saving time
+ */
+export const ARTIST_TIMEZONE_OFFSET_MINUTES = 9 * 60;
+
+export const DEFAULT_SLOT_INTERVAL_MINUTES = 30;
+export const DEFAULT_BUFFER_MINUTES = 30;
+
+/**
+ * 0 = Sunday ... 6 = Saturday (same as Date#getDay, in the artist's timezone)
+ */
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/**
+ * Working window within a day, "HH:mm" in 24h local time
+ */
+export interface WorkingHours {
+  start: string;
+  end: string;
+}
+
+export interface WeeklyAvailabilityTemplate {
+  artistId: string;
+  weeklyHours: Partial<Record<Weekday, WorkingHours[]>>;
+  // Step between candidate start times
+  slotIntervalMinutes: number;
+  // Minimum gap kept before and after every booked session
+  bufferMinutes: number;
+  updatedAt: Date;
+}
+
+/**
+ * holiday / closed: no availability that day
+ * custom_hours: replaces the weekly hours for that day
+ * extended_hours: added on top of the weekly hours for that day
+ */
+export type AvailabilityExceptionType =
+  | "holiday"
+  | "closed"
+  | "custom_hours"
+  | "extended_hours";
+
+export interface AvailabilityException {
+  id: string;
+  artistId: string;
+  date: string; // YYYY-MM-DD
+  type: AvailabilityExceptionType;
+  hours?: WorkingHours[];
+  note?: string;
+  createdAt: Date;
+}
+
+/**
+ * Public, anonymized time range occupied by a confirmed booking
+ */
+export interface BusyTimeRange {
+  startTime: Date;
+  endTime: Date;
+}
+
+export interface AvailableDay {
+  date: Date;
+  slots: BusyTimeRange[];
+}
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const OFFSET_MS = ARTIST_TIMEZONE_OFFSET_MINUTES * MINUTE_MS;
+
+/**
+ * Date whose UTC fields are the artist's wall-clock fields for `date`
+ */
+function toArtistClock(date: Date): Date {
+  return new Date(date.getTime() + OFFSET_MS);
+}
+
+/**
+ * YYYY-MM-DD of the artist's calendar day containing `date`
+ */
+export function toDateKey(date: Date): string {
+  const local = toArtistClock(date);
+  const month = String(local.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(local.getUTCDate()).padStart(2, "0");
+  return `${local.getUTCFullYear()}-${month}-${day}`;
+}
+
+export function getWeekday(date: Date): Weekday {
+  return toArtistClock(date).getUTCDay() as Weekday;
+}
+
+export function getAvailabilityExceptionId(
+  artistId: string,
+  dateKey: string,
+): string {
+  return `${artistId}_${dateKey}`;
+}
+
+/**
+ * Date at the given "HH:mm" on the same artist-local day as `day`
+ */
+export function atTimeOfDay(day: Date, time: string): Date {
+  const [hours, minutes] = time.split(":").map(Number);
+  const local = toArtistClock(day);
+  return new Date(
+    Date.UTC(
+      local.getUTCFullYear(),
+      local.getUTCMonth(),
+      local.getUTCDate(),
+      hours,
+      minutes,
+    ) - OFFSET_MS,
+  );
+}
+
+export function isValidWorkingHours(hours: WorkingHours): boolean {
+  return (
+    TIME_OF_DAY_PATTERN.test(hours.start) &&
+    TIME_OF_DAY_PATTERN.test(hours.end) &&
+    hours.start < hours.end
+  );
+}
+
+/**
+ * Working hours for one date after applying holidays and exceptions
+ */
+export function getWorkingHoursForDate(
+  template: Pick<WeeklyAvailabilityTemplate, "weeklyHours"> | null,
+  exceptions: Pick<AvailabilityException, "date" | "type" | "hours">[],
+  date: Date,
+): WorkingHours[] {
+  const weekday = getWeekday(date);
+  const baseHours = template?.weeklyHours[weekday] || [];
+  const exception = exceptions.find((e) => e.date === toDateKey(date));
+
+  if (!exception) {
+    return baseHours;
+  }
+
+  switch (exception.type) {
+    case "holiday":
+    case "closed":
+      return [];
+    case "custom_hours":
+      return exception.hours || [];
+    case "extended_hours":
+      return [...baseHours, ...(exception.hours || [])];
+    default:
+      return baseHours;
+  }
+}
+
+/**
+ * Expand the weekly template into bookable slots of `duration` minutes for
+ * every day between startDate and endDate (inclusive). Slots overlapping a
+ * busy range widened by the template's buffer, or starting before `now`,
+ * are left out.
+ */
+export function expandAvailability(params: {
+  template: Pick<
+    WeeklyAvailabilityTemplate,
+    "weeklyHours" | "slotIntervalMinutes" | "bufferMinutes"
+  >;
+  exceptions: Pick<AvailabilityException, "date" | "type" | "hours">[];
+  busy: BusyTimeRange[];
+  startDate: Date;
+  endDate: Date;
+  duration: number; // minutes
+  now?: Date;
+}): AvailableDay[] {
+  const { template, exceptions, busy, duration } = params;
+  const now = params.now || new Date();
+  const interval =
+    template.slotIntervalMinutes > 0
+      ? template.slotIntervalMinutes
+      : DEFAULT_SLOT_INTERVAL_MINUTES;
+  const buffer = Math.max(template.bufferMinutes || 0, 0) * MINUTE_MS;
+  const busyWithBuffer = busy.map((range) => ({
+    start: range.startTime.getTime() - buffer,
+    end: range.endTime.getTime() + buffer,
+  }));
+
+  const days: AvailableDay[] = [];
+  const day = atTimeOfDay(params.startDate, "00:00");
+
+  while (day.getTime() <= params.endDate.getTime()) {
+    const windows = getWorkingWindows(template, exceptions, day);
+
+    const slots: BusyTimeRange[] = [];
+    for (const window of windows) {
+      for (
+        let start = window.start;
+        start + duration * MINUTE_MS <= window.end;
+        start += interval * MINUTE_MS
+      ) {
+        const end = start + duration * MINUTE_MS;
+        const isBusy = busyWithBuffer.some(
+          (range) => start < range.end && end > range.start,
+        );
+
+        if (start >= now.getTime() && !isBusy) {
+          slots.push({ startTime: new Date(start), endTime: new Date(end) });
+        }
+      }
+    }
+
+    if (slots.length > 0) {
+      days.push({ date: new Date(day), slots });
+    }
+
+    // No DST in JST, so every day is 24 hours long
+    day.setTime(day.getTime() + DAY_MS);
+  }
+
+  return days;
+}
+
+/**
+ * Whether a session of `duration` minutes starting at startTime fits inside
+ * one working window of its day (holidays and exceptions applied)
+ */
+export function isWithinWorkingHours(
+  template: Pick<WeeklyAvailabilityTemplate, "weeklyHours">,
+  exceptions: Pick<AvailabilityException, "date" | "type" | "hours">[],
+  startTime: Date,
+  duration: number, // minutes
+): boolean {
+  const start = startTime.getTime();
+  const end = start + duration * MINUTE_MS;
+
+  return getWorkingWindows(template, exceptions, startTime).some(
+    (window) => start >= window.start && end <= window.end,
+  );
+}
+
+function getWorkingWindows(
+  template: Pick<WeeklyAvailabilityTemplate, "weeklyHours">,
+  exceptions: Pick<AvailabilityException, "date" | "type" | "hours">[],
+  day: Date,
+): { start: number; end: number }[] {
+  return mergeWindows(
+    getWorkingHoursForDate(template, exceptions, day)
+      .filter(isValidWorkingHours)
+      .map((hours) => ({
+        start: atTimeOfDay(day, hours.start).getTime(),
+        end: atTimeOfDay(day, hours.end).getTime(),
+      })),
+  );
+}
+
+function mergeWindows(
+  windows: { start: number; end: number }[],
+): { start: number; end: number }[] {
+  const sorted = [...windows].sort((a, b) => a.start - b.start);
+  const merged: { start: number; end: number }[] = [];
+
+  for (const window of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && window.start <= last.end) {
+      last.end = Math.max(last.end, window.end);
+    } else {
+      merged.push({ ...window });
+    }
+  }
+
+  return merged;
+}
@@ -0,0 +1,670 @@
+/**
+ * 🎨 Tattoo Journey 2.0 - Shared Booking Domain Model
+ *
+ * Canonical booking schema, status values and Firestore collection names
+ * used by both the mobile app and Cloud Functions
+ */
+
+import { TattooSize } from "./types";
+import { BookingCancellationRecord, CancellationPolicy } from "./cancellation";
+
+/**
+ * Booking lifecycle status (the only status union for bookings)
+ */
+export type BookingStatus =
+  | "pending"
+  | "negotiating"
+  | "accepted"
+  | "confirmed"
+  | "completed"
+  | "declined"
+  | "cancelled";
+
+export const BOOKING_STATUSES: BookingStatus[] = [
+  "pending",
+  "negotiating",
+  "accepted",
+  "confirmed",
+  "completed",
+  "declined",
+  "cancelled",
+];
+
+/**
+ * Statuses in which a booking still occupies the artist / chat room
+ */
+export const ACTIVE_BOOKING_STATUSES: BookingStatus[] = [
+  "pending",
+  "negotiating",
+  "accepted",
+  "confirmed",
+];
+
+export const BOOKING_COLLECTIONS = {
+  requests: "bookingRequests",
+  confirmed: "confirmedBookings",
+  activeIndex: "activeBookings",
+  legacy: "bookings",
+  // Subcollections of bookingRequests/{bookingId}
+  transitions: "transitions",
+  designDrafts: "designDrafts",
+} as const;
+
+/**
+ * Who performed a booking transition ("system" = Cloud Functions / admin)
+ */
+export type BookingActorRole = "customer" | "artist" | "system";
+
+/**
+ * Allowed status transitions and the roles that may perform them.
+ * Enforced server-side by the transitionBooking callable.
+ */
+export const BOOKING_TRANSITIONS: Record<
+  BookingStatus,
+  Partial<Record<BookingStatus, BookingActorRole[]>>
+> = {
+  pending: {
+    negotiating: ["artist", "customer", "system"],
+    accepted: ["artist", "system"],
+    declined: ["artist", "system"],
+    cancelled: ["customer", "artist", "system"],
+  },
+  negotiating: {
+    accepted: ["artist", "customer", "system"],
+    declined: ["artist", "customer", "system"],
+    cancelled: ["customer", "artist", "system"],
+  },
+  accepted: {
+    negotiating: ["artist", "customer", "system"],
+    confirmed: ["artist", "customer", "system"],
+    cancelled: ["customer", "artist", "system"],
+  },
+  confirmed: {
+    completed: ["artist", "system"],
+    cancelled: ["customer", "artist", "system"],
+  },
+  completed: {},
+  declined: {},
+  cancelled: {},
+};
+
+export const BOOKING_SCHEMA_VERSION = 2;
+
+/**
+ * Upper bound for a single appointment, used to bound overlap queries
+ */
+export const MAX_BOOKING_DURATION_MINUTES = 12 * 60;
+
+/**
+ * HttpsError code returned by transitionBooking when the slot is taken
+ */
+export const BOOKING_SLOT_CONFLICT_CODE = "already-exists";
+
+/**
+ * Most alternative times one party may offer in a reschedule request
+ */
+export const MAX_RESCHEDULE_OPTIONS = 3;
+
+export type BookingSize = TattooSize;
+
+export type BookingResponseType =
+  | "counter_offer"
+  | "accept"
+  | "decline"
+  | "request_info";
+
+export interface BookingResponse {
+  id: string;
+  responderId: string;
+  responseType: BookingResponseType;
+  proposedDate?: Date;
+  // Start times offered together in a slot proposal
+  proposedDates?: Date[];
+  proposedPrice?: number;
+  proposedDuration?: number;
+  message: string;
+  createdAt: Date;
+}
+
+/**
+ * Price and duration a booking is confirmed with, and the start times the
+ * artist offered with them
+ */
+export interface QuotedBookingTerms {
+  price: number;
+  duration: number; // minutes
+  proposedDates: Date[];
+}
+
+export type BookingRescheduleStatus =
+  | "pending"
+  | "accepted"
+  | "rejected"
+  | "withdrawn";
+
+export type BookingRescheduleDecision = "accept" | "reject" | "withdraw";
+
+/**
+ * Proposal to move a confirmed appointment (stored on the booking as
+ * rescheduleRequest; a new proposal replaces the previous one)
+ */
+export interface BookingRescheduleRequest {
+  proposedBy: string;
+  proposedByRole: BookingActorRole;
+  // Drawn from the artist's available slots for the confirmed duration
+  proposedDates: Date[];
+  previousDate: Date;
+  reason?: string;
+  status: BookingRescheduleStatus;
+  selectedDate?: Date;
+  respondedBy?: string;
+  createdAt: Date;
+  respondedAt?: Date;
+}
+
+export interface BookingRequest {
+  id: string;
+  customerId: string;
+  artistId: string;
+  roomId?: string;
+  tattooDescription: string;
+  preferredSize: BookingSize;
+  bodyLocation: string;
+  preferredDate: Date;
+  alternativeDates: Date[];
+  estimatedDuration: number; // minutes
+  estimatedPrice: number;
+  budgetRange: {
+    min: number;
+    max: number;
+  };
+  hasAllergies: boolean;
+  allergyDetails?: string;
+  additionalNotes?: string;
+  status: BookingStatus;
+  confirmedDate?: Date;
+  confirmedPrice?: number;
+  confirmedDuration?: number; // minutes
+  // Deposit required by the artist's policy at confirmation time
+  depositAmount?: number;
+  // Artist's stored policy the customer agreed to when requesting; null when
+  // the artist had none and the default policy was shown
+  agreedCancellationPolicy?: CancellationPolicy | null;
+  cancellationPolicyAgreedAt?: Date;
+  // Policy in force from confirmation (the agreed one)
+  cancellationPolicy?: CancellationPolicy;
+  cancelledBy?: string;
+  cancellationReason?: string;
+  cancellationOutcome?: BookingCancellationRecord;
+  rescheduleRequest?: BookingRescheduleRequest;
+  completedBy?: string;
+  completedAt?: Date;
+  // Design draft the customer approved; never changes once set
+  approvedDesign?: {
+    draftId: string;
+    imageUrl: string;
+    designVersion: number;
+    note?: string;
+    approvedBy: string;
+    approvedAt: Date;
+  };
+  // Set when the booking was split into a multi-session project
+  projectId?: string;
+  // Set when the booking was created by accepting a waitlist offer
+  waitlistOfferId?: string;
+  // Pending waitlist bookings are declined when the artist has not answered
+  // by then
+  holdExpiresAt?: Date;
+  schemaVersion?: number;
+  createdAt: Date;
+  updatedAt: Date;
+  responses: BookingResponse[];
+}
+
+export interface ConfirmedBooking {
+  id: string;
+  bookingRequestId: string;
+  customerId: string;
+  artistId: string;
+  roomId?: string;
+  appointmentDate: Date;
+  duration: number; // minutes
+  price: number;
+  tattooDescription: string;
+  bodyLocation: string;
+  status: BookingStatus;
+  createdAt: Date;
+  updatedAt?: Date;
+  completedAt?: Date;
+}
+
+/**
+ * Audit trail entry (`bookingRequests/{bookingId}/transitions/{id}`)
+ */
+export interface BookingTransitionReason {
+  fromState: BookingStatus | "idle";
+  toState: BookingStatus;
+  reason: string;
+  timestamp: Date;
+  bookingId?: string;
+  actorId?: string;
+  actorRole?: BookingActorRole;
+  // Set on reschedule entries (fromState and toState are both "confirmed")
+  previousDate?: Date;
+  newDate?: Date;
+}
+
+/**
+ * Index document marking a chat room that has an active booking
+ * (`activeBookings/{roomId}_booking`, read by storage rules and audit)
+ */
+export interface ActiveBookingIndex {
+  roomId: string;
+  customerId: string;
+  artistId: string;
+  bookingIds: string[];
+  updatedAt: Date;
+}
+
+export type BookingSlotConflictType =
+  | "confirmed_booking"
+  | "schedule_booked"
+  | "schedule_unavailable"
+  | "outside_working_hours";
+
+/**
+ * Existing booking or schedule slot that overlaps a requested appointment
+ */
+export interface BookingSlotConflict {
+  type: BookingSlotConflictType;
+  bookingId?: string;
+  startTime: Date;
+  endTime: Date;
+}
+
+/**
+ * Minimal shape of an `artistSchedules` time slot needed for reservations
+ */
+export interface BookableTimeSlot {
+  startTime: Date;
+  endTime: Date;
+  isAvailable: boolean;
+  isBooked: boolean;
+  bookingId?: string;
+}
+
+/**
+ * Status values written by older clients / functions and their canonical
+ * equivalent
+ */
+const LEGACY_BOOKING_STATUS_MAP: Record<string, BookingStatus> = {
+  idle: "pending",
+  requested: "pending",
+  scheduled: "confirmed",
+  rejected: "declined",
+  canceled: "cancelled",
+  done: "completed",
+};
+
+export function isBookingStatus(value: unknown): value is BookingStatus {
+  return (
+    typeof value === "string" &&
+    BOOKING_STATUSES.includes(value as BookingStatus)
+  );
+}
+
+export function isActiveBookingStatus(status: BookingStatus): boolean {
+  return ACTIVE_BOOKING_STATUSES.includes(status);
+}
+
+export function canTransitionBooking(
+  fromStatus: BookingStatus,
+  toStatus: BookingStatus,
+  role: BookingActorRole,
+): boolean {
+  const allowedRoles = BOOKING_TRANSITIONS[fromStatus][toStatus];
+  return !!allowedRoles && allowedRoles.includes(role);
+}
+
+export function getAllowedBookingTransitions(
+  fromStatus: BookingStatus,
+  role: BookingActorRole,
+): BookingStatus[] {
+  return BOOKING_STATUSES.filter((toStatus) =>
+    canTransitionBooking(fromStatus, toStatus, role),
+  );
+}
+
+/**
+ * Whether `role` may make `decision` on a reschedule request: the other party
+ * accepts or rejects it, the proposer may withdraw it
+ */
+export function canDecideBookingReschedule(
+  request: Pick<BookingRescheduleRequest, "status" | "proposedByRole">,
+  role: BookingActorRole,
+  decision: BookingRescheduleDecision,
+): boolean {
+  if (request.status !== "pending") {
+    return false;
+  }
+
+  if (role === "system") {
+    return true;
+  }
+
+  return decision === "withdraw"
+    ? role === request.proposedByRole
+    : role !== request.proposedByRole;
+}
+
+/**
+ * Role of a user within a booking (null when not a participant)
+ */
+export function getBookingActorRole(
+  booking: { customerId: string; artistId: string },
+  userId: string,
+): BookingActorRole | null {
+  if (booking.customerId === userId) {
+    return "customer";
+  }
+
+  if (booking.artistId === userId) {
+    return "artist";
+  }
+
+  return null;
+}
+
+/**
+ * Canonical status of a stored status (canonical or legacy), or null when the
+ * value is neither
+ */
+export function parseBookingStatus(status: unknown): BookingStatus | null {
+  if (isBookingStatus(status)) {
+    return status;
+  }
+
+  if (
+    typeof status === "string" &&
+    Object.prototype.hasOwnProperty.call(LEGACY_BOOKING_STATUS_MAP, status)
+  ) {
+    return LEGACY_BOOKING_STATUS_MAP[status];
+  }
+
+  return null;
+}
+
+/**
+ * Map any stored status (canonical or legacy) to the canonical status.
+ * Throws for unknown values instead of guessing one (a guess such as
+ * "pending" would reopen the booking).
+ */
+export function toCanonicalBookingStatus(status: unknown): BookingStatus {
+  const canonical = parseBookingStatus(status);
+
+  if (!canonical) {
+    throw new Error(`Unknown booking status: ${String(status)}`);
+  }
+
+  return canonical;
+}
+
+/**
+ * Chat room id shared by a customer and an artist (same as ChatService)
+ */
+export function getBookingRoomId(customerId: string, artistId: string): string {
+  return [customerId, artistId].sort().join("_");
+}
+
+export function getActiveBookingIndexId(roomId: string): string {
+  return `${roomId}_booking`;
+}
+
+/**
+ * Rewrite a legacy booking document into the canonical schema.
+ * Returns only the fields that need to change (empty when already canonical),
+ * or null when the status is unknown and the document must be left untouched.
+ */
+export function migrateLegacyBookingData(
+  data: Record<string, unknown>,
+  kind: "request" | "confirmed" = "request",
+): Record<string, unknown> | null {
+  const updates: Record<string, unknown> = {};
+
+  const status = parseBookingStatus(data.status);
+  if (!status) {
+    return null;
+  }
+
+  if (data.status !== status) {
+    updates.status = status;
+  }
+
+  if (
+    !data.roomId &&
+    typeof data.customerId === "string" &&
+    typeof data.artistId === "string" &&
+    data.customerId &&
+    data.artistId
+  ) {
+    updates.roomId = getBookingRoomId(data.customerId, data.artistId);
+  }
+
+  if (kind === "request" && !data.responses) {
+    updates.responses = [];
+  }
+
+  if (kind === "request" && !data.alternativeDates) {
+    updates.alternativeDates = [];
+  }
+
+  if (data.schemaVersion !== BOOKING_SCHEMA_VERSION) {
+    updates.schemaVersion = BOOKING_SCHEMA_VERSION;
+  }
+
+  return updates;
+}
+
+/**
+ * Terms from the artist's latest response carrying a price (a quote or slot
+ * proposal). A quote without a duration keeps the artist's previous one.
+ * Null when the artist hasn't quoted both yet.
+ */
+export function getQuotedBookingTerms(booking: {
+  artistId: string;
+  responses?: Pick<
+    BookingResponse,
+    | "responderId"
+    | "proposedDate"
+    | "proposedDates"
+    | "proposedPrice"
+    | "proposedDuration"
+    | "createdAt"
+  >[];
+}): QuotedBookingTerms | null {
+  const artistResponses = (booking.responses || [])
+    .filter((response) => response.responderId === booking.artistId)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  let terms: QuotedBookingTerms | null = null;
+  let duration: number | undefined;
+
+  for (const response of artistResponses) {
+    if (isQuotedDuration(response.proposedDuration)) {
+      duration = response.proposedDuration;
+    }
+
+    if (
+      typeof response.proposedPrice === "number" &&
+      isFinite(response.proposedPrice) &&
+      response.proposedPrice >= 0
+    ) {
+      terms = duration
+        ? {
+            price: response.proposedPrice,
+            duration,
+            proposedDates: [
+              ...(response.proposedDate ? [response.proposedDate] : []),
+              ...(response.proposedDates || []),
+            ],
+          }
+        : null;
+    }
+  }
+
+  return terms;
+}
+
+function isQuotedDuration(value: unknown): value is number {
+  return (
+    typeof value === "number" &&
+    value > 0 &&
+    value <= MAX_BOOKING_DURATION_MINUTES
+  );
+}
+
+export function getBookingEndTime(
+  startTime: Date,
+  durationMinutes: number,
+): Date {
+  return new Date(startTime.getTime() + durationMinutes * 60 * 1000);
+}
+
+/**
+ * Half-open interval overlap ([start, end)), so back-to-back slots do not clash
+ */
+export function doTimeRangesOverlap(
+  startA: Date,
+  endA: Date,
+  startB: Date,
+  endB: Date,
+): boolean {
+  return startA.getTime() < endB.getTime() && endA.getTime() > startB.getTime();
+}
+
+/**
+ * Everything that prevents `bookingId` from taking the requested time.
+ * The booking itself never conflicts with its own confirmed booking or slots.
+ * `bufferMinutes` is the gap the artist keeps between confirmed sessions.
+ */
+export function findBookingSlotConflicts(
+  request: { bookingId: string; startTime: Date; duration: number },
+  confirmedBookings: {
+    id: string;
+    bookingRequestId?: string;
+    appointmentDate: Date;
+    duration: number;
+    status: unknown;
+  }[],
+  timeSlots: BookableTimeSlot[],
+  bufferMinutes = 0,
+): BookingSlotConflict[] {
+  const endTime = getBookingEndTime(request.startTime, request.duration);
+  const bufferedStart = getBookingEndTime(request.startTime, -bufferMinutes);
+  const bufferedEnd = getBookingEndTime(endTime, bufferMinutes);
+  const conflicts: BookingSlotConflict[] = [];
+
+  for (const booking of confirmedBookings) {
+    const isSameBooking =
+      booking.id === request.bookingId ||
+      booking.bookingRequestId === request.bookingId;
+    if (isSameBooking || parseBookingStatus(booking.status) !== "confirmed") {
+      continue;
+    }
+
+    const bookingEnd = getBookingEndTime(
+      booking.appointmentDate,
+      booking.duration,
+    );
+    if (
+      doTimeRangesOverlap(
+        bufferedStart,
+        bufferedEnd,
+        booking.appointmentDate,
+        bookingEnd,
+      )
+    ) {
+      conflicts.push({
+        type: "confirmed_booking",
+        bookingId: booking.bookingRequestId || booking.id,
+        startTime: booking.appointmentDate,
+        endTime: bookingEnd,
+      });
+    }
+  }
+
+  for (const slot of timeSlots) {
+    if (
+      !doTimeRangesOverlap(
+        request.startTime,
+        endTime,
+        slot.startTime,
+        slot.endTime,
+      )
+    ) {
+      continue;
+    }
+
+    if (slot.isBooked && slot.bookingId !== request.bookingId) {
+      // Already reported through its confirmed booking
+      if (
+        conflicts.some((c) => c.bookingId && c.bookingId === slot.bookingId)
+      ) {
+        continue;
+      }
+      conflicts.push({
+        type: "schedule_booked",
+        bookingId: slot.bookingId,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+      });
+    } else if (!slot.isAvailable && !slot.isBooked) {
+      conflicts.push({
+        type: "schedule_unavailable",
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Mark the slots overlapping the appointment as booked by `bookingId`
+ */
+export function reserveTimeSlots<T extends BookableTimeSlot>(
+  timeSlots: T[],
+  request: { bookingId: string; startTime: Date; duration: number },
+): T[] {
+  const endTime = getBookingEndTime(request.startTime, request.duration);
+
+  return timeSlots.map((slot) =>
+    doTimeRangesOverlap(
+      request.startTime,
+      endTime,
+      slot.startTime,
+      slot.endTime,
+    )
+      ? { ...slot, isBooked: true, bookingId: request.bookingId }
+      : slot,
+  );
+}
+
+/**
+ * Free every slot held by `bookingId` (bookingId is removed, not set to undefined)
+ */
+export function releaseTimeSlots<T extends BookableTimeSlot>(
+  timeSlots: T[],
+  bookingId: string,
+): T[] {
+  return timeSlots.map((slot) => {
+    if (slot.bookingId !== bookingId) {
+      return slot;
+    }
+
+    const released = { ...slot, isBooked: false };
+    delete released.bookingId;
+    return released;
+  });
+}
@@ -0,0 +1,201 @@
+/**
+ * 🎨 Tattoo Journey 2.0 - Shared Cancellation Policy Engine
+ *
+ * Artists define refund windows, a late-cancellation threshold and no-show
+ * handling. The customer agrees to the artist's policy when requesting a
+ * booking; that policy is snapshotted onto the booking at confirmation and
+ * evaluated by the transitionBooking Cloud Function when it is cancelled.
+ */
+
+import { BookingActorRole } from "./booking";
+import {
+  DEFAULT_REFUND_RULES,
+  RefundRule,
+  getDepositRefundRate,
+} from "./payment";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Stored in the artist profile as artistInfo.cancellationPolicy
+ */
+export interface CancellationPolicy {
+  // Deposit refunded for customer cancellations, by hours before the appointment
+  windows: RefundRule[];
+  // Cancellations within this many hours of the appointment are flagged late
+  lateCancellationHours: number;
+  // The artist may mark a no-show this long after the appointment start;
+  // no-shows forfeit the whole deposit
+  noShowGraceMinutes: number;
+}
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  windows: DEFAULT_REFUND_RULES,
+  lateCancellationHours: 48,
+  noShowGraceMinutes: 30,
+};
+
+export interface CancellationOutcome {
+  // Party responsible for the cancellation (a no-show counts as the customer)
+  cancelledBy: BookingActorRole;
+  hoursBefore: number | null; // null when no appointment was confirmed
+  isLate: boolean;
+  isNoShow: boolean;
+  depositRefundRate: number; // 0 - 1
+}
+
+/**
+ * Stored on the booking as cancellationOutcome once the cancellation and
+ * its refunds have been processed
+ */
+export interface BookingCancellationRecord extends CancellationOutcome {
+  cancelledById: string;
+  refundAmount: number;
+  evaluatedAt: Date;
+}
+
+export function isValidCancellationPolicy(
+  policy: unknown,
+): policy is CancellationPolicy {
+  const candidate = policy as CancellationPolicy;
+
+  return (
+    !!candidate &&
+    Array.isArray(candidate.windows) &&
+    candidate.windows.length > 0 &&
+    candidate.windows.every(
+      (window) =>
+        typeof window.minHoursBefore === "number" &&
+        window.minHoursBefore >= 0 &&
+        typeof window.depositRefundRate === "number" &&
+        window.depositRefundRate >= 0 &&
+        window.depositRefundRate <= 1,
+    ) &&
+    typeof candidate.lateCancellationHours === "number" &&
+    candidate.lateCancellationHours >= 0 &&
+    typeof candidate.noShowGraceMinutes === "number" &&
+    candidate.noShowGraceMinutes >= 0
+  );
+}
+
+/**
+ * Policy that applies to a booking: the snapshot taken at confirmation, else
+ * the policy the customer agreed to (null meaning the artist had none and the
+ * default applied), else the artist's current policy for older bookings
+ */
+export function getBookingCancellationPolicy(
+  booking: {
+    cancellationPolicy?: unknown;
+    agreedCancellationPolicy?: unknown;
+  },
+  artistPolicy?: unknown,
+): CancellationPolicy {
+  const policy =
+    booking.cancellationPolicy ??
+    (booking.agreedCancellationPolicy !== undefined
+      ? booking.agreedCancellationPolicy
+      : artistPolicy);
+
+  return isValidCancellationPolicy(policy)
+    ? policy
+    : DEFAULT_CANCELLATION_POLICY;
+}
+
+/**
+ * Whether the artist may mark the customer as a no-show yet
+ */
+export function canMarkNoShow(
+  policy: CancellationPolicy,
+  appointmentDate: Date,
+  now: Date = new Date(),
+): boolean {
+  return (
+    now.getTime() >=
+    appointmentDate.getTime() + policy.noShowGraceMinutes * 60 * 1000
+  );
+}
+
+/**
+ * Evaluate a cancellation against the booking's policy
+ */
+export function evaluateCancellation(params: {
+  policy: CancellationPolicy;
+  cancelledBy: BookingActorRole;
+  cancelledAt: Date;
+  appointmentDate?: Date;
+  isNoShow?: boolean;
+}): CancellationOutcome {
+  const { policy, cancelledAt, appointmentDate } = params;
+
+  if (params.isNoShow) {
+    return {
+      cancelledBy: "customer",
+      hoursBefore: appointmentDate
+        ? (appointmentDate.getTime() - cancelledAt.getTime()) / HOUR_MS
+        : null,
+      isLate: true,
+      isNoShow: true,
+      depositRefundRate: 0,
+    };
+  }
+
+  if (!appointmentDate) {
+    return {
+      cancelledBy: params.cancelledBy,
+      hoursBefore: null,
+      isLate: false,
+      isNoShow: false,
+      depositRefundRate: 1,
+    };
+  }
+
+  const hoursBefore =
+    (appointmentDate.getTime() - cancelledAt.getTime()) / HOUR_MS;
+  const isCustomer = params.cancelledBy === "customer";
+
+  return {
+    cancelledBy: params.cancelledBy,
+    hoursBefore,
+    isLate: hoursBefore < policy.lateCancellationHours,
+    isNoShow: false,
+    depositRefundRate: isCustomer
+      ? getDepositRefundRate(hoursBefore, policy.windows)
+      : 1,
+  };
+}
+
+/**
+ * Human-readable policy lines shown to the customer before agreeing
+ */
+export function describeCancellationPolicy(
+  policy: CancellationPolicy,
+): string[] {
+  const windows = [...policy.windows].sort(
+    (a, b) => b.minHoursBefore - a.minHoursBefore,
+  );
+  const formatHours = (hours: number): string =>
+    hours >= 24 && hours % 24 === 0 ? `${hours / 24}日` : `${hours}時間`;
+  const formatRate = (rate: number): string =>
+    rate >= 1
+      ? "デポジット全額返金"
+      : rate <= 0
+        ? "デポジット返金なし"
+        : `デポジットの${Math.round(rate * 100)}%を返金`;
+
+  const lines = windows.map((window, index) => {
+    if (window.minHoursBefore > 0) {
+      return `${formatHours(window.minHoursBefore)}前まで: ${formatRate(window.depositRefundRate)}`;
+    }
+
+    return index > 0
+      ? `${formatHours(windows[index - 1].minHoursBefore)}前以降: ${formatRate(window.depositRefundRate)}`
+      : `キャンセル時: ${formatRate(window.depositRefundRate)}`;
+  });
+
+  return [
+    ...lines,
+    `予約の${formatHours(policy.lateCancellationHours)}前を過ぎたキャンセルは直前キャンセルとして記録されます`,
+    `開始${policy.noShowGraceMinutes}分を過ぎても来店がない場合は無断キャンセルとなり、デポジットは返金されません`,
+    "アーティスト都合のキャンセルは全額返金されます",
+  ];
+}
@@ -0,0 +1,319 @@
+/**
+ * 🎨 Tattoo Journey 2.0 - Shared Chat Schema
+ *
+ * Chat lives in the Realtime Database. Rooms are keyed by the sorted pair of
+ * participant ids and list participants as `participants/{uid}: true`, so
+ * the database rules can check membership with a single lookup. Messages are
+ * written by the client, validated by database.rules.json against this same
+ * shape, and read by the sendChatNotification function.
+ *
+ * Each user also has an inbox: one entry per room with the latest message
+ * and their unread count, plus a running unread total. Cloud Functions keep
+ * both up to date with atomic increments, so listing rooms is a paginated
+ * query on the user's own entries and the total is a single read.
+ *
+ * Card messages (type "card") carry a structured booking card; see
+ * chatCards.ts.
+ */
+
+import { ChatCardResponse, StoredChatCard, parseChatCard } from "./chatCards";
+import { isRecord } from "./types";
+
+export const CHAT_PATHS = {
+  rooms: "chatRooms",
+  // messages/{roomId}/{messageId}
+  messages: "messages",
+  // typing/{roomId}/{userId}
+  typing: "typing",
+  // userChats/{userId}/{roomId}, ordered by lastMessageTime
+  inbox: "userChats",
+  // chatUnreadTotals/{userId}: sum of the user's inbox unread counts
+  unreadTotals: "chatUnreadTotals",
+} as const;
+
+export const MAX_CHAT_MESSAGE_LENGTH = 10000;
+
+export const CHAT_INBOX_PAGE_SIZE = 20;
+
+/**
+ * Push notification previews are cut to this many characters
+ */
+export const CHAT_NOTIFICATION_PREVIEW_LENGTH = 100;
+
+export const CHAT_MESSAGE_TYPES = [
+  "text",
+  "image",
+  "booking_request",
+  "system",
+  "card",
+] as const;
+
+export type ChatMessageType = (typeof CHAT_MESSAGE_TYPES)[number];
+
+export type ChatContext = "matching" | "direct_inquiry" | "booking";
+
+export interface ChatMessageMetadata {
+  bookingId?: string;
+  imageUrl?: string;
+  priceQuote?: number;
+  appointmentDate?: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  // System messages are sent by the participant whose action triggered them
+  senderId: string;
+  receiverId: string;
+  text: string;
+  type: ChatMessageType;
+  // Server time in ms (written as a server timestamp)
+  timestamp: number;
+  // Set by the receiver's app once it has loaded the message
+  delivered?: boolean;
+  read: boolean;
+  metadata?: ChatMessageMetadata;
+  // Set on card messages only
+  card?: StoredChatCard;
+  cardResponse?: ChatCardResponse;
+  edited?: true;
+  editedAt?: number;
+}
+
+/**
+ * Summary of the latest message kept on the room
+ */
+export type ChatLastMessage = Pick<
+  ChatMessage,
+  "senderId" | "text" | "type" | "timestamp"
+>;
+
+export interface ChatRoom {
+  id: string;
+  participants: Record<string, true>;
+  lastMessage?: ChatLastMessage;
+  lastMessageTime: number;
+  createdAt: number;
+  metadata?: {
+    artistName: string;
+    customerName: string;
+    context: ChatContext;
+    tattooStyle?: string;
+    estimatedPrice?: number;
+  };
+}
+
+/**
+ * A room as listed in one user's inbox
+ */
+export interface ChatInboxEntry {
+  roomId: string;
+  otherUserId: string;
+  lastMessage?: ChatLastMessage;
+  lastMessageTime: number;
+  // Missing until the user first receives a message in the room
+  unreadCount?: number;
+  metadata?: ChatRoom["metadata"];
+}
+
+export interface TypingStatus {
+  userId: string;
+  isTyping: boolean;
+  timestamp: number;
+}
+
+export function getChatRoomId(userId: string, otherUserId: string): string {
+  return [userId, otherUserId].sort().join("_");
+}
+
+export function toChatParticipants(userIds: string[]): Record<string, true> {
+  const participants: Record<string, true> = {};
+  userIds.forEach((userId) => {
+    participants[userId] = true;
+  });
+  return participants;
+}
+
+/**
+ * Participant ids of a room (rooms created before the schema change stored
+ * an array)
+ */
+export function getChatParticipantIds(
+  participants: ChatRoom["participants"] | string[] | null | undefined,
+): string[] {
+  if (!participants) return [];
+  if (Array.isArray(participants)) return participants;
+  return Object.keys(participants).filter((userId) => participants[userId]);
+}
+
+export function getChatRecipientId(
+  participants: ChatRoom["participants"] | string[] | null | undefined,
+  senderId: string,
+): string | null {
+  return (
+    getChatParticipantIds(participants).find((userId) => userId !== senderId) ||
+    null
+  );
+}
+
+/**
+ * A new, unread message; metadata is left out unless it has values, since
+ * the database rejects undefined fields
+ */
+export function createChatMessage(input: {
+  id: string;
+  senderId: string;
+  receiverId: string;
+  text: string;
+  type?: ChatMessageType;
+  timestamp: number;
+  metadata?: ChatMessageMetadata;
+  card?: StoredChatCard;
+}): ChatMessage {
+  const metadata: ChatMessageMetadata = {};
+  if (input.metadata) {
+    const { bookingId, imageUrl, priceQuote, appointmentDate } = input.metadata;
+    if (bookingId !== undefined) metadata.bookingId = bookingId;
+    if (imageUrl !== undefined) metadata.imageUrl = imageUrl;
+    if (priceQuote !== undefined) metadata.priceQuote = priceQuote;
+    if (appointmentDate !== undefined) {
+      metadata.appointmentDate = appointmentDate;
+    }
+  }
+
+  const message: ChatMessage = {
+    id: input.id,
+    senderId: input.senderId,
+    receiverId: input.receiverId,
+    text: input.text,
+    type: input.type || "text",
+    timestamp: input.timestamp,
+    read: false,
+  };
+  if (Object.keys(metadata).length > 0) message.metadata = metadata;
+  if (input.card) message.card = input.card;
+
+  return message;
+}
+
+export function toChatLastMessage(message: ChatMessage): ChatLastMessage {
+  return {
+    senderId: message.senderId,
+    text: message.text,
+    type: message.type,
+    timestamp: message.timestamp,
+  };
+}
+
+/**
+ * Multi-path update applying a new message to the room and both inboxes;
+ * `incrementUnread` is the database's increment(1) sentinel
+ */
+export function getChatInboxUpdates(
+  room: Pick<ChatRoom, "id" | "participants" | "metadata">,
+  message: ChatMessage,
+  incrementUnread: unknown,
+): Record<string, unknown> {
+  const lastMessage = toChatLastMessage(message);
+  const updates: Record<string, unknown> = {
+    [`${CHAT_PATHS.rooms}/${room.id}/lastMessage`]: lastMessage,
+    [`${CHAT_PATHS.rooms}/${room.id}/lastMessageTime`]: message.timestamp,
+  };
+  const participantIds = getChatParticipantIds(room.participants);
+
+  participantIds.forEach((userId) => {
+    const entryPath = `${CHAT_PATHS.inbox}/${userId}/${room.id}`;
+    updates[`${entryPath}/roomId`] = room.id;
+    updates[`${entryPath}/otherUserId`] =
+      participantIds.find((id) => id !== userId) || "";
+    updates[`${entryPath}/lastMessage`] = lastMessage;
+    updates[`${entryPath}/lastMessageTime`] = message.timestamp;
+    if (room.metadata) updates[`${entryPath}/metadata`] = room.metadata;
+    if (userId === message.receiverId) {
+      updates[`${entryPath}/unreadCount`] = incrementUnread;
+    }
+  });
+
+  return updates;
+}
+
+/**
+ * Newest first; pages overlap when a room moves up between loads, so the
+ * most recent copy of each room wins
+ */
+export function mergeChatInboxPages(
+  ...pages: ChatInboxEntry[][]
+): ChatInboxEntry[] {
+  const latest = new Map<string, ChatInboxEntry>();
+  pages.forEach((page) =>
+    page.forEach((entry) => {
+      const current = latest.get(entry.roomId);
+      if (!current || entry.lastMessageTime >= current.lastMessageTime) {
+        latest.set(entry.roomId, entry);
+      }
+    }),
+  );
+
+  return Array.from(latest.values()).sort(
+    (a, b) =>
+      b.lastMessageTime - a.lastMessageTime ||
+      (a.roomId < b.roomId ? 1 : a.roomId > b.roomId ? -1 : 0),
+  );
+}
+
+/**
+ * Client-side check of the shape the database rules accept for new messages
+ */
+export function isValidChatMessage(message: unknown): boolean {
+  const isOptionalString = (value: unknown) =>
+    value === undefined || typeof value === "string";
+
+  if (!isRecord(message)) return false;
+  const metadata = message.metadata;
+
+  return (
+    typeof message.id === "string" &&
+    message.id.length > 0 &&
+    typeof message.senderId === "string" &&
+    message.senderId.length > 0 &&
+    typeof message.receiverId === "string" &&
+    message.receiverId.length > 0 &&
+    message.receiverId !== message.senderId &&
+    typeof message.text === "string" &&
+    message.text.length > 0 &&
+    message.text.length <= MAX_CHAT_MESSAGE_LENGTH &&
+    CHAT_MESSAGE_TYPES.includes(message.type as ChatMessageType) &&
+    typeof message.timestamp === "number" &&
+    message.read === false &&
+    message.delivered === undefined &&
+    (message.type === "card"
+      ? parseChatCard(message.card) !== null
+      : message.card === undefined) &&
+    message.cardResponse === undefined &&
+    (metadata === undefined ||
+      (isRecord(metadata) &&
+        isOptionalString(metadata.bookingId) &&
+        isOptionalString(metadata.imageUrl) &&
+        isOptionalString(metadata.appointmentDate) &&
+        (metadata.priceQuote === undefined ||
+          (typeof metadata.priceQuote === "number" &&
+            metadata.priceQuote >= 0))))
+  );
+}
+
+/**
+ * Push notification body for a new message
+ */
+export function getChatNotificationBody(
+  message: Pick<ChatMessage, "type" | "text">,
+): string {
+  if (message.type === "image") return "📷 画像を送信しました";
+  if (message.type === "booking_request") {
+    return "💼 予約リクエストを送信しました";
+  }
+  if (message.text.length > CHAT_NOTIFICATION_PREVIEW_LENGTH) {
+    return (
+      message.text.substring(0, CHAT_NOTIFICATION_PREVIEW_LENGTH - 3) + "..."
+    );
+  }
+  return message.text;
+}
@@ -0,0 +1,333 @@
+/**
+ * 🎨 Tattoo Journey 2.0 - Shared Chat Cards
+ *
+ * Booking messages with structure: price quotes, proposed appointment
+ * times, design approvals and deposit requests. A card message stores the
+ * card kind, the payload version and the payload serialized as JSON; its
+ * text is a readable summary, so notifications, the inbox and clients that
+ * don't know the card (or its version) still show something sensible.
+ *
+ * Cards only present choices. Answering one runs the matching booking
+ * operation, which is validated server-side like any other, and then
+ * records the answer on the message.
+ */
+
+import type { ChatMessage } from "./chat";
+import { MAX_BOOKING_DURATION_MINUTES } from "./booking";
+import { isRecord } from "./types";
+
+export const CHAT_CARD_KINDS = [
+  "price_quote",
+  "slot_proposal",
+  "design_approval",
+  "deposit_request",
+] as const;
+
+export type ChatCardKind = (typeof CHAT_CARD_KINDS)[number];
+
+/**
+ * Payload version written for each kind; readers reject newer versions
+ */
+export const CHAT_CARD_VERSIONS: Record<ChatCardKind, number> = {
+  price_quote: 1,
+  slot_proposal: 1,
+  design_approval: 1,
+  deposit_request: 1,
+};
+
+export const MAX_CHAT_CARD_PAYLOAD_LENGTH = 4000;
+export const MAX_CHAT_CARD_NOTE_LENGTH = 1000;
+export const MAX_PROPOSED_SLOTS = 5;
+
+export interface PriceQuotePayload {
+  price: number;
+  duration?: number; // minutes
+  proposedDate?: number; // ms
+  note?: string;
+}
+
+export interface ProposedSlot {
+  startTime: number; // ms
+  endTime: number; // ms
+}
+
+/**
+ * Times from the artist's available slots; picking one confirms the booking
+ * at the quoted price and duration
+ */
+export interface SlotProposalPayload {
+  slots: ProposedSlot[];
+  price: number;
+  duration: number; // minutes
+}
+
+/**
+ * Announces a design draft; answering it reviews the draft
+ */
+export interface DesignApprovalPayload {
+  draftId: string;
+  imageUrl: string;
+  designVersion: number;
+  note?: string;
+}
+
+export interface DepositRequestPayload {
+  amount: number;
+  dueDate?: string; // YYYY-MM-DD
+}
+
+export interface ChatCardPayloads {
+  price_quote: PriceQuotePayload;
+  slot_proposal: SlotProposalPayload;
+  design_approval: DesignApprovalPayload;
+  deposit_request: DepositRequestPayload;
+}
+
+export type ChatCard = {
+  [K in ChatCardKind]: {
+    kind: K;
+    version: number;
+    bookingId: string;
+    payload: ChatCardPayloads[K];
+  };
+}[ChatCardKind];
+
+/**
+ * A card as stored on the message (`messages/{roomId}/{messageId}/card`)
+ */
+export interface StoredChatCard {
+  kind: ChatCardKind;
+  version: number;
+  bookingId: string;
+  payload: string;
+}
+
+export const CHAT_CARD_ACTIONS = {
+  price_quote: ["accept", "decline"],
+  slot_proposal: ["select"],
+  design_approval: ["approve", "request_changes"],
+  deposit_request: ["pay"],
+} as const;
+
+export type ChatCardAction = (typeof CHAT_CARD_ACTIONS)[ChatCardKind][number];
+
+/**
+ * The answer to a card (see canRespondToChatCard), written once
+ * (`messages/{roomId}/{messageId}/cardResponse`)
+ */
+export interface ChatCardResponse {
+  action: ChatCardAction;
+  respondedBy: string;
+  respondedAt: number;
+  // Index into the proposed slots, for "select"
+  slotIndex?: number;
+}
+
+export function createChatCard<K extends ChatCardKind>(
+  kind: K,
+  bookingId: string,
+  payload: ChatCardPayloads[K],
+): Extract<ChatCard, { kind: K }> {
+  return {
+    kind,
+    version: CHAT_CARD_VERSIONS[kind],
+    bookingId,
+    payload,
+  } as Extract<ChatCard, { kind: K }>;
+}
+
+export function serializeChatCard(card: ChatCard): StoredChatCard {
+  return {
+    kind: card.kind,
+    version: card.version,
+    bookingId: card.bookingId,
+    payload: JSON.stringify(card.payload),
+  };
+}
+
+/**
+ * Read a stored card; null for unknown kinds, newer versions and payloads
+ * that don't match their schema
+ */
+export function parseChatCard(stored: unknown): ChatCard | null {
+  if (
+    !isRecord(stored) ||
+    !CHAT_CARD_KINDS.includes(stored.kind as ChatCardKind) ||
+    typeof stored.bookingId !== "string" ||
+    stored.bookingId.length === 0 ||
+    typeof stored.version !== "number" ||
+    stored.version < 1 ||
+    stored.version > CHAT_CARD_VERSIONS[stored.kind as ChatCardKind] ||
+    typeof stored.payload !== "string" ||
+    stored.payload.length > MAX_CHAT_CARD_PAYLOAD_LENGTH
+  ) {
+    return null;
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(stored.payload);
+  } catch {
+    return null;
+  }
+
+  if (!isValidChatCardPayload(stored.kind as ChatCardKind, payload)) {
+    return null;
+  }
+
+  return {
+    kind: stored.kind,
+    version: stored.version,
+    bookingId: stored.bookingId,
+    payload,
+  } as ChatCard;
+}
+
+export function isValidChatCardPayload(
+  kind: ChatCardKind,
+  payload: unknown,
+): boolean {
+  const isAmount = (value: unknown): value is number =>
+    typeof value === "number" && isFinite(value) && value >= 0;
+  const isDuration = (value: unknown) =>
+    isAmount(value) && value > 0 && value <= MAX_BOOKING_DURATION_MINUTES;
+  const isNote = (value: unknown) =>
+    value === undefined ||
+    (typeof value === "string" && value.length <= MAX_CHAT_CARD_NOTE_LENGTH);
+
+  if (!isRecord(payload)) return false;
+
+  switch (kind) {
+    case "price_quote":
+      return (
+        isAmount(payload.price) &&
+        (payload.duration === undefined || isDuration(payload.duration)) &&
+        (payload.proposedDate === undefined ||
+          isAmount(payload.proposedDate)) &&
+        isNote(payload.note)
+      );
+    case "slot_proposal":
+      return (
+        Array.isArray(payload.slots) &&
+        payload.slots.length > 0 &&
+        payload.slots.length <= MAX_PROPOSED_SLOTS &&
+        payload.slots.every(
+          (slot: unknown) =>
+            isRecord(slot) &&
+            isAmount(slot.startTime) &&
+            isAmount(slot.endTime) &&
+            slot.endTime > slot.startTime,
+        ) &&
+        isAmount(payload.price) &&
+        isDuration(payload.duration)
+      );
+    case "design_approval":
+      return (
+        typeof payload.draftId === "string" &&
+        payload.draftId.length > 0 &&
+        typeof payload.imageUrl === "string" &&
+        payload.imageUrl.length > 0 &&
+        typeof payload.designVersion === "number" &&
+        payload.designVersion >= 1 &&
+        Math.floor(payload.designVersion) === payload.designVersion &&
+        isNote(payload.note)
+      );
+    case "deposit_request":
+      return (
+        isAmount(payload.amount) &&
+        payload.amount > 0 &&
+        (payload.dueDate === undefined ||
+          (typeof payload.dueDate === "string" &&
+            /^\d{4}-\d{2}-\d{2}$/.test(payload.dueDate)))
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * The receiver answers a card, once. Deposits are paid in person, so the
+ * artist who requested one answers it by confirming receipt.
+ */
+export function canRespondToChatCard(
+  message: Pick<
+    ChatMessage,
+    "type" | "senderId" | "receiverId" | "card" | "cardResponse"
+  >,
+  userId: string,
+): boolean {
+  const responderId =
+    message.card?.kind === "deposit_request"
+      ? message.senderId
+      : message.receiverId;
+
+  return (
+    message.type === "card" && responderId === userId && !message.cardResponse
+  );
+}
+
+export function isValidChatCardResponse(
+  card: ChatCard,
+  response: Pick<ChatCardResponse, "action" | "slotIndex">,
+): boolean {
+  const actions: readonly string[] = CHAT_CARD_ACTIONS[card.kind];
+  if (!actions.includes(response.action)) return false;
+
+  if (card.kind === "slot_proposal") {
+    return (
+      typeof response.slotIndex === "number" &&
+      response.slotIndex >= 0 &&
+      response.slotIndex < card.payload.slots.length
+    );
+  }
+  return response.slotIndex === undefined;
+}
+
+/**
+ * Message text of a card
+ */
+export function getChatCardSummary(card: ChatCard): string {
+  const formatDate = (time: number) =>
+    new Date(time).toLocaleString("ja-JP", {
+      month: "numeric",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  const lines: string[] = [];
+
+  switch (card.kind) {
+    case "price_quote":
+      lines.push(`💰 お見積もり: ¥${card.payload.price.toLocaleString()}`);
+      if (card.payload.duration) {
+        lines.push(`⏰ 所要時間: ${card.payload.duration}分`);
+      }
+      if (card.payload.proposedDate) {
+        lines.push(`📅 提案日時: ${formatDate(card.payload.proposedDate)}`);
+      }
+      if (card.payload.note) lines.push(card.payload.note);
+      break;
+    case "slot_proposal":
+      lines.push("📅 日時のご提案");
+      card.payload.slots.forEach((slot) =>
+        lines.push(`• ${formatDate(slot.startTime)}`),
+      );
+      break;
+    case "design_approval":
+      lines.push(
+        `🎨 デザイン v${card.payload.designVersion} のご確認をお願いします`,
+      );
+      if (card.payload.note) lines.push(card.payload.note);
+      break;
+    case "deposit_request":
+      lines.push(
+        `💳 デポジットのお支払い: ¥${card.payload.amount.toLocaleString()}`,
+      );
+      if (card.payload.dueDate) {
+        lines.push(`期限: ${card.payload.dueDate}`);
+      }
+      break;
+  }
+
+  return lines.join("\n");
+}
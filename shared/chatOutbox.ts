@@ -0,0 +1,150 @@
+/**
+ * 🎨 Tattoo Journey 2.0 - Shared Chat Outbox & Delivery States
+ *
+ * Messages and images are queued on the device and sent when there is a
+ * connection, retrying with exponential backoff. Each entry keeps the id the
+ * message will have in the database (the client message id), so queueing
+ * the same message twice or resending one whose first write did reach the
+ * server never creates a duplicate.
+ *
+ * Delivery status, as shown next to the sender's messages:
+ * queued / sending / failed while the message is only in the outbox, then
+ * sent (written), delivered (loaded by the receiver's app) and read.
+ */
+
+import { ChatMessage, ChatMessageMetadata, ChatMessageType } from "./chat";
+
+export const CHAT_OUTBOX_RETRY_BASE_DELAY_MS = 2000;
+export const CHAT_OUTBOX_RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * A send attempt that hasn't settled by then counts as failed (writes made
+ * offline otherwise wait for the connection indefinitely)
+ */
+export const CHAT_OUTBOX_SEND_TIMEOUT_MS = 15000;
+
+export type ChatOutboxStatus = "queued" | "sending" | "failed";
+
+export type ChatDeliveryStatus =
+  | ChatOutboxStatus
+  | "sent"
+  | "delivered"
+  | "read";
+
+export interface ChatOutboxEntry {
+  clientMessageId: string;
+  roomId: string;
+  senderId: string;
+  text: string;
+  type: Extract<ChatMessageType, "text" | "image">;
+  metadata?: ChatMessageMetadata;
+  // Local file of a queued image, uploaded before the message is written
+  imageUri?: string;
+  status: ChatOutboxStatus;
+  attempts: number;
+  // ms; the entry is due once this has passed
+  nextAttemptAt: number;
+  // "failed" entries only: the server rejected the message
+  lastError?: string;
+  createdAt: number; // ms
+}
+
+/**
+ * Wait before the next attempt after `attempts` failed ones
+ */
+export function getChatOutboxRetryDelay(attempts: number): number {
+  if (attempts <= 0) return 0;
+
+  return Math.min(
+    CHAT_OUTBOX_RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1),
+    CHAT_OUTBOX_RETRY_MAX_DELAY_MS,
+  );
+}
+
+/**
+ * Add an entry unless one with the same client message id is queued
+ */
+export function addChatOutboxEntry(
+  entries: ChatOutboxEntry[],
+  entry: ChatOutboxEntry,
+): ChatOutboxEntry[] {
+  return entries.some((e) => e.clientMessageId === entry.clientMessageId)
+    ? entries
+    : [...entries, entry];
+}
+
+/**
+ * Queued entries whose retry time has passed, oldest first so a room's
+ * messages arrive in the order they were written
+ */
+export function getDueChatOutboxEntries(
+  entries: ChatOutboxEntry[],
+  now: number,
+): ChatOutboxEntry[] {
+  return entries
+    .filter((entry) => entry.status === "queued" && entry.nextAttemptAt <= now)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * The entry after a failed attempt: retried later on connection problems,
+ * failed for good when the server rejected it
+ */
+export function getFailedChatOutboxEntry(
+  entry: ChatOutboxEntry,
+  now: number,
+  rejected: boolean,
+  error?: string,
+): ChatOutboxEntry {
+  const attempts = entry.attempts + 1;
+
+  return rejected
+    ? { ...entry, status: "failed", attempts, lastError: error }
+    : {
+        ...entry,
+        status: "queued",
+        attempts,
+        nextAttemptAt: now + getChatOutboxRetryDelay(attempts),
+      };
+}
+
+export function getChatDeliveryStatus(
+  message: Pick<ChatMessage, "read" | "delivered">,
+): Extract<ChatDeliveryStatus, "sent" | "delivered" | "read"> {
+  if (message.read) return "read";
+  return message.delivered ? "delivered" : "sent";
+}
+
+/**
+ * A room's messages followed by its outbox entries that aren't in the
+ * database yet, each with its delivery status
+ */
+export function withChatDeliveryStatus(
+  messages: ChatMessage[],
+  outbox: ChatOutboxEntry[],
+): Array<ChatMessage & { deliveryStatus: ChatDeliveryStatus }> {
+  const sentIds = new Set(messages.map((message) => message.id));
+
+  const pending = outbox
+    .filter((entry) => !sentIds.has(entry.clientMessageId))
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map((entry) => ({
+      id: entry.clientMessageId,
+      senderId: entry.senderId,
+      receiverId: "",
+      text: entry.text,
+      type: entry.type,
+      timestamp: entry.createdAt,
+      read: false,
+      ...(entry.metadata && { metadata: entry.metadata }),
+      deliveryStatus: entry.status as ChatDeliveryStatus,
+    }));
+
+  return [
+    ...messages.map((message) => ({
+      ...message,
+      deliveryStatus: getChatDeliveryStatus(message) as ChatDeliveryStatus,
+    })),
+    ...pending,
+  ];
+}
@@ -0,0 +1,158 @@
+/**
+ * 🎨 Tattoo Journey 2.0 - Shared Design Drafts
+ *
+ * The stencil revision thread of a booking. The artist uploads numbered
+ * drafts (v1, v2, ...) with notes; the customer pins comments on the current
+ * draft, asks for changes or approves it. Approval copies the draft onto the
+ * booking (`approvedDesign`), after which the thread is closed and neither
+ * the drafts nor the approved design change again.
+ */
+
+import { BookingRequest, BookingStatus } from "./booking";
+
+export const MAX_DESIGN_DRAFT_NOTE_LENGTH = 1000;
+export const MAX_DESIGN_ANNOTATIONS = 20;
+
+/**
+ * Booking statuses in which drafts can still be uploaded and reviewed
+ * (mirrored by the designDrafts create rule in firestore.rules)
+ */
+export const DESIGNABLE_BOOKING_STATUSES: BookingStatus[] = [
+  "pending",
+  "negotiating",
+  "accepted",
+  "confirmed",
+];
+
+export type DesignDraftStatus =
+  | "in_review"
+  | "changes_requested"
+  | "approved"
+  // Replaced by a newer version before it was reviewed
+  | "superseded";
+
+/**
+ * A comment pinned to a point of the draft image
+ */
+export interface DesignAnnotation {
+  id: string;
+  authorId: string;
+  // Position relative to the image (0-1 from the top left)
+  x: number;
+  y: number;
+  comment: string;
+  createdAt: Date;
+}
+
+/**
+ * `bookingRequests/{bookingId}/designDrafts/{draftId}`
+ */
+export interface DesignDraft {
+  id: string;
+  bookingId: string;
+  customerId: string;
+  artistId: string;
+  version: number;
+  imageUrl: string;
+  note?: string;
+  status: DesignDraftStatus;
+  annotations: DesignAnnotation[];
+  reviewComment?: string;
+  reviewedAt?: Date;
+  // Chat room and design approval card announcing the draft
+  roomId?: string;
+  chatMessageId?: string;
+  createdAt: Date;
+}
+
+export type ApprovedDesign = NonNullable<BookingRequest["approvedDesign"]>;
+
+export function getLatestDesignDraft<T extends Pick<DesignDraft, "version">>(
+  drafts: T[],
+): T | undefined {
+  return drafts.reduce<T | undefined>(
+    (latest, draft) =>
+      !latest || draft.version > latest.version ? draft : latest,
+    undefined,
+  );
+}
+
+export function getNextDesignDraftVersion(
+  drafts: Pick<DesignDraft, "version">[],
+): number {
+  return (getLatestDesignDraft(drafts)?.version || 0) + 1;
+}
+
+/**
+ * Drafts are stored under their version, so each version is uploaded once
+ */
+export function getDesignDraftId(version: number): string {
+  return `v${version}`;
+}
+
+/**
+ * Only the artist uploads drafts, until a design is approved
+ */
+export function canUploadDesignDraft(
+  booking: Pick<BookingRequest, "artistId" | "status" | "approvedDesign">,
+  userId: string,
+): boolean {
+  return (
+    booking.artistId === userId &&
+    !booking.approvedDesign &&
+    DESIGNABLE_BOOKING_STATUSES.includes(booking.status)
+  );
+}
+
+/**
+ * Only the customer annotates and reviews, and only a draft still in review
+ */
+export function canReviewDesignDraft(
+  booking: Pick<BookingRequest, "customerId" | "status" | "approvedDesign">,
+  draft: Pick<DesignDraft, "status">,
+  userId: string,
+): boolean {
+  return (
+    booking.customerId === userId &&
+    !booking.approvedDesign &&
+    DESIGNABLE_BOOKING_STATUSES.includes(booking.status) &&
+    draft.status === "in_review"
+  );
+}
+
+export function isValidDesignDraftNote(note: string | undefined): boolean {
+  return note === undefined || note.length <= MAX_DESIGN_DRAFT_NOTE_LENGTH;
+}
+
+export function isValidDesignAnnotation(
+  annotation: Pick<DesignAnnotation, "x" | "y" | "comment">,
+): boolean {
+  const isPosition = (value: number) =>
+    typeof value === "number" && value >= 0 && value <= 1;
+
+  return (
+    isPosition(annotation.x) &&
+    isPosition(annotation.y) &&
+    typeof annotation.comment === "string" &&
+    annotation.comment.trim().length > 0 &&
+    annotation.comment.length <= MAX_DESIGN_DRAFT_NOTE_LENGTH
+  );
+}
+
+/**
+ * The booking's record of the approved draft
+ */
+export function toApprovedDesign(
+  draft: Pick<DesignDraft, "id" | "imageUrl" | "version" | "note">,
+  approvedBy: string,
+  approvedAt: Date,
+): ApprovedDesign {
+  return {
+    draftId: draft.id,
+    imageUrl: draft.imageUrl,
+    designVersion: draft.version,
+    ...(draft.note && { note: draft.note }),
+    approvedBy,
+    approvedAt,
+  };
+}
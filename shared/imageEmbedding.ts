@@ -0,0 +1,238 @@
+/**
+ * 🎨 Tattoo Journey 2.0 - Shared Image Embeddings
+ *
+ * Visual similarity between designs and portfolio pieces from image vectors
+ * rather than the coarse Vision labels. Backends are pluggable: the built-in
+ * pixel descriptor runs on CPU without a model download, and the stub
+ * provider gives deterministic vectors for tests.
+ */
+
+import { ImageEmbedding, isRecord } from "./types";
+
+export const PIXEL_DESCRIPTOR_MODEL_ID = "pixel-descriptor-v1";
+
+/**
+ * Images are decoded to this square size before computing the descriptor
+ */
+export const DESCRIPTOR_IMAGE_SIZE = 64;
+
+/**
+ * Share of a portfolio sample's design compatibility taken from visual
+ * similarity when both images have an embedding from the same model
+ */
+export const VISUAL_SIMILARITY_WEIGHT = 0.5;
+
+export const DEFAULT_VISUAL_SEARCH_LIMIT = 12;
+export const MAX_VISUAL_SEARCH_LIMIT = 30;
+
+/**
+ * Embedded portfolio items a search reads
+ */
+export const MAX_VISUAL_SEARCH_CANDIDATES = 5000;
+
+export const MAX_EMBEDDING_DIMENSIONS = 2048;
+
+// Per RGB channel, so COLOR_BINS³ color bins
+const COLOR_BINS = 4;
+const GRID_CELLS = 4;
+const ORIENTATION_BINS = 8;
+// Cosine of two descriptors = 0.4 × color similarity + 0.6 × shape similarity
+const COLOR_BLOCK_WEIGHT = 0.4;
+
+export const DESCRIPTOR_DIMENSIONS =
+  COLOR_BINS ** 3 + GRID_CELLS * GRID_CELLS * ORIENTATION_BINS;
+
+/**
+ * Decoded image, 3 bytes (R, G, B) per pixel, row by row
+ */
+export interface RgbImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/**
+ * Implemented once per embedding backend. Vectors from different models are
+ * never compared, so switching models means re-embedding the portfolio.
+ */
+export interface ImageEmbeddingProvider {
+  readonly modelId: string;
+  // Encoded image file (JPEG, PNG, ...)
+  embed(image: Uint8Array): Promise<number[]>;
+}
+
+export interface VisualNeighbor<T> {
+  item: T;
+  similarity: number;
+}
+
+/**
+ * Deterministic vectors seeded by the image bytes, for tests and local
+ * development: identical files get identical vectors, anything else is
+ * effectively unrelated
+ */
+export class StubImageEmbeddingProvider implements ImageEmbeddingProvider {
+  readonly modelId = "stub-v1";
+
+  constructor(private readonly dimensions = 16) {}
+
+  async embed(image: Uint8Array): Promise<number[]> {
+    let state = hashBytes(image);
+    const vector: number[] = [];
+
+    for (let i = 0; i < this.dimensions; i++) {
+      // xorshift32
+      state ^= state << 13;
+      state ^= state >>> 17;
+      state ^= state << 5;
+      vector.push((state >>> 0) / 0x100000000);
+    }
+
+    return normalize(vector);
+  }
+}
+
+/**
+ * CPU descriptor of an image: a joint RGB color histogram plus gradient
+ * orientation histograms over a 4×4 grid, so both palette and composition
+ * (the shape of a dragon's body, the lines of a mandala) count
+ */
+export function computeImageDescriptor(image: RgbImage): number[] {
+  const { width, height, data } = image;
+  const pixelCount = width * height;
+  const color = new Array<number>(COLOR_BINS ** 3).fill(0);
+  const shape = new Array<number>(
+    GRID_CELLS * GRID_CELLS * ORIENTATION_BINS,
+  ).fill(0);
+  const gray = new Array<number>(pixelCount);
+
+  for (let i = 0; i < pixelCount; i++) {
+    const r = data[i * 3];
+    const g = data[i * 3 + 1];
+    const b = data[i * 3 + 2];
+    const bin = (channel: number) => Math.floor((channel * COLOR_BINS) / 256);
+
+    color[(bin(r) * COLOR_BINS + bin(g)) * COLOR_BINS + bin(b)] += 1;
+    gray[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+  }
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const gx = gray[y * width + x + 1] - gray[y * width + x - 1];
+      const gy = gray[(y + 1) * width + x] - gray[(y - 1) * width + x];
+      const magnitude = Math.sqrt(gx * gx + gy * gy);
+
+      if (magnitude === 0) continue;
+
+      // Unsigned orientation: a line is the same line drawn either way
+      let angle = Math.atan2(gy, gx);
+      if (angle < 0) angle += Math.PI;
+
+      const orientation = Math.min(
+        Math.floor((angle / Math.PI) * ORIENTATION_BINS),
+        ORIENTATION_BINS - 1,
+      );
+      const cell =
+        Math.floor((y * GRID_CELLS) / height) * GRID_CELLS +
+        Math.floor((x * GRID_CELLS) / width);
+
+      shape[cell * ORIENTATION_BINS + orientation] += magnitude;
+    }
+  }
+
+  // Square-rooted frequencies have unit length (Hellinger kernel)
+  const colorBlock = color.map((count) =>
+    pixelCount > 0 ? Math.sqrt(count / pixelCount) : 0,
+  );
+  const shapeBlock = normalize(shape);
+
+  return [
+    ...colorBlock.map((value) => value * Math.sqrt(COLOR_BLOCK_WEIGHT)),
+    ...shapeBlock.map((value) => value * Math.sqrt(1 - COLOR_BLOCK_WEIGHT)),
+  ];
+}
+
+export function isValidImageEmbedding(
+  embedding: unknown,
+): embedding is ImageEmbedding {
+  return (
+    isRecord(embedding) &&
+    typeof embedding.modelId === "string" &&
+    Array.isArray(embedding.vector) &&
+    embedding.vector.length > 0 &&
+    embedding.vector.length <= MAX_EMBEDDING_DIMENSIONS &&
+    embedding.vector.every(
+      (value: unknown) => typeof value === "number" && isFinite(value),
+    )
+  );
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Visual similarity in [0, 1], or null when the two images cannot be
+ * compared (missing embedding or different models)
+ */
+export function getVisualSimilarity(
+  a: ImageEmbedding | undefined,
+  b: ImageEmbedding | undefined,
+): number | null {
+  if (!a || !b || a.modelId !== b.modelId) return null;
+
+  return Math.max(cosineSimilarity(a.vector, b.vector), 0);
+}
+
+/**
+ * Nearest neighbors of the query by visual similarity, most similar first.
+ * Brute force: candidate sets are bounded by MAX_VISUAL_SEARCH_CANDIDATES.
+ */
+export function findVisualNeighbors<T extends { embedding?: ImageEmbedding }>(
+  query: ImageEmbedding,
+  items: T[],
+  limit = DEFAULT_VISUAL_SEARCH_LIMIT,
+): VisualNeighbor<T>[] {
+  return items
+    .map((item) => ({
+      item,
+      similarity: getVisualSimilarity(query, item.embedding),
+    }))
+    .filter(
+      (neighbor): neighbor is VisualNeighbor<T> => neighbor.similarity !== null,
+    )
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
+
+/**
+ * FNV-1a over the bytes, never zero (xorshift needs a non-zero seed)
+ */
+function hashBytes(bytes: Uint8Array): number {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+
+  return hash || 1;
+}
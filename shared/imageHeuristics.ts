@@ -0,0 +1,149 @@
+/**
+ * 🎨 Tattoo Journey 2.0 - Shared Local Image Heuristics
+ *
+ * Deterministic analysis straight from decoded pixels, for when no vision
+ * service is reachable: dominant palette, black-and-grey detection and line
+ * density. It cannot recognize motifs, so results carry a low confidence.
+ */
+
+import { AIAnalysis } from "./types";
+import type { RgbImage } from "./imageEmbedding";
+
+/**
+ * Confidence of every heuristic analysis; below any vision result, so the
+ * heuristic never outranks a real analysis
+ */
+export const LOCAL_ANALYSIS_CONFIDENCE = 0.4;
+
+// Pixels sampled per axis at most
+const SAMPLE_GRID = 96;
+// Per RGB channel when grouping pixels into palette colors
+const PALETTE_LEVELS = 4;
+const MAX_PALETTE_COLORS = 5;
+// Palette colors must cover at least this share of the image
+const MIN_PALETTE_SHARE = 0.02;
+// Chroma (max - min channel, 0-1) below which a pixel counts as grey
+const GREY_CHROMA = 0.15;
+// Share of grey pixels for the image to be black and grey
+const BLACK_AND_GREY_RATIO = 0.9;
+// Luminance step between neighboring samples that counts as a line edge
+const EDGE_THRESHOLD = 48;
+// Line density bounds of simple and complex designs
+const COMPLEXITY_LINE_DENSITY = { simple: 0.08, complex: 0.2 };
+
+export interface PixelAnalysis extends AIAnalysis {
+  // Share of grey pixels (0-1)
+  greyRatio: number;
+  isBlackAndGrey: boolean;
+  // Share of sampled neighbor pairs across a line edge (0-1)
+  lineDensity: number;
+}
+
+/**
+ * Analyze a decoded image. Large images are sampled on a fixed grid, so the
+ * cost does not grow with the resolution.
+ */
+export function analyzeImagePixels(image: RgbImage): PixelAnalysis {
+  const columns = Math.min(image.width, SAMPLE_GRID);
+  const rows = Math.min(image.height, SAMPLE_GRID);
+  const luminance: number[] = [];
+  const bins = new Map<number, { count: number; rgb: number[] }>();
+  let greyCount = 0;
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const x = Math.floor(((column + 0.5) * image.width) / columns);
+      const y = Math.floor(((row + 0.5) * image.height) / rows);
+      const offset = (y * image.width + x) * 3;
+      const rgb = [
+        image.data[offset],
+        image.data[offset + 1],
+        image.data[offset + 2],
+      ];
+
+      if ((Math.max(...rgb) - Math.min(...rgb)) / 255 < GREY_CHROMA) {
+        greyCount++;
+      }
+      luminance.push(0.299 * rgb[0] + 0.587 * rgb[1] + 0.114 * rgb[2]);
+
+      const level = (channel: number) =>
+        Math.floor((channel * PALETTE_LEVELS) / 256);
+      const bin =
+        (level(rgb[0]) * PALETTE_LEVELS + level(rgb[1])) * PALETTE_LEVELS +
+        level(rgb[2]);
+      const entry = bins.get(bin) || { count: 0, rgb: [0, 0, 0] };
+      entry.count++;
+      rgb.forEach((channel, i) => {
+        entry.rgb[i] += channel;
+      });
+      bins.set(bin, entry);
+    }
+  }
+
+  const sampleCount = columns * rows;
+  let edges = 0;
+  let pairs = 0;
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const value = luminance[row * columns + column];
+
+      if (column + 1 < columns) {
+        pairs++;
+        if (
+          Math.abs(value - luminance[row * columns + column + 1]) >
+          EDGE_THRESHOLD
+        ) {
+          edges++;
+        }
+      }
+      if (row + 1 < rows) {
+        pairs++;
+        if (
+          Math.abs(value - luminance[(row + 1) * columns + column]) >
+          EDGE_THRESHOLD
+        ) {
+          edges++;
+        }
+      }
+    }
+  }
+
+  const colorPalette = Array.from(bins.values())
+    .filter((entry) => entry.count / sampleCount >= MIN_PALETTE_SHARE)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_PALETTE_COLORS)
+    .map((entry) => toHex(entry.rgb.map((sum) => sum / entry.count)));
+
+  const greyRatio = sampleCount > 0 ? greyCount / sampleCount : 1;
+  const isBlackAndGrey = greyRatio >= BLACK_AND_GREY_RATIO;
+  const lineDensity = pairs > 0 ? edges / pairs : 0;
+  const complexity: AIAnalysis["complexity"] =
+    lineDensity < COMPLEXITY_LINE_DENSITY.simple
+      ? "シンプル"
+      : lineDensity < COMPLEXITY_LINE_DENSITY.complex
+        ? "中程度"
+        : "複雑";
+
+  return {
+    style: isBlackAndGrey
+      ? complexity === "シンプル"
+        ? "ミニマル"
+        : "ブラック＆グレー"
+      : "カラー",
+    colorPalette,
+    isColorful: !isBlackAndGrey,
+    motifs: [],
+    complexity,
+    confidence: LOCAL_ANALYSIS_CONFIDENCE,
+    greyRatio,
+    isBlackAndGrey,
+    lineDensity,
+  };
+}
+
+function toHex(rgb: number[]): string {
+  return `#${rgb
+    .map((channel) => Math.round(channel).toString(16).padStart(2, "0"))
+    .join("")}`;
+}
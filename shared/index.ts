@@ -27,10 +27,506 @@ export type {
   ColorAnalysis,
   TattooStyle,
   TattooSize,
+  ImageEmbedding,
 } from "./types";
 
 // Matching and Business Logic types
-export type { MatchingRequest, MatchingResult, MatchReason } from "./types";
+export type {
+  MatchingRequest,
+  MatchingResult,
+  MatchReason,
+  MatchReasonFactor,
+} from "./types";
+export { isRecord } from "./types";
+
+// Booking domain model
+export type {
+  BookingStatus,
+  BookingSize,
+  BookingResponseType,
+  BookingResponse,
+  QuotedBookingTerms,
+  BookingRequest,
+  ConfirmedBooking,
+  ActiveBookingIndex,
+  BookingActorRole,
+  BookingTransitionReason,
+  BookingSlotConflictType,
+  BookingSlotConflict,
+  BookableTimeSlot,
+  BookingRescheduleStatus,
+  BookingRescheduleDecision,
+  BookingRescheduleRequest,
+} from "./booking";
+export {
+  BOOKING_STATUSES,
+  ACTIVE_BOOKING_STATUSES,
+  BOOKING_COLLECTIONS,
+  BOOKING_SCHEMA_VERSION,
+  BOOKING_TRANSITIONS,
+  MAX_BOOKING_DURATION_MINUTES,
+  BOOKING_SLOT_CONFLICT_CODE,
+  MAX_RESCHEDULE_OPTIONS,
+  isBookingStatus,
+  isActiveBookingStatus,
+  canTransitionBooking,
+  getAllowedBookingTransitions,
+  canDecideBookingReschedule,
+  getBookingActorRole,
+  parseBookingStatus,
+  toCanonicalBookingStatus,
+  getBookingRoomId,
+  getActiveBookingIndexId,
+  migrateLegacyBookingData,
+  getQuotedBookingTerms,
+  getBookingEndTime,
+  doTimeRangesOverlap,
+  findBookingSlotConflicts,
+  reserveTimeSlots,
+  releaseTimeSlots,
+} from "./booking";
+
+// Artist availability
+export type {
+  Weekday,
+  WorkingHours,
+  WeeklyAvailabilityTemplate,
+  AvailabilityExceptionType,
+  AvailabilityException,
+  BusyTimeRange,
+  AvailableDay,
+} from "./availability";
+export {
+  AVAILABILITY_COLLECTIONS,
+  ARTIST_TIMEZONE_OFFSET_MINUTES,
+  DEFAULT_SLOT_INTERVAL_MINUTES,
+  DEFAULT_BUFFER_MINUTES,
+  toDateKey,
+  getWeekday,
+  getAvailabilityExceptionId,
+  atTimeOfDay,
+  isValidWorkingHours,
+  getWorkingHoursForDate,
+  isWithinWorkingHours,
+  expandAvailability,
+} from "./availability";
+
+// Multi-session projects
+export type {
+  ProjectStatus,
+  ProjectSessionStatus,
+  ProjectAction,
+  BookingProject,
+  ProjectSession,
+  ProjectProgress,
+} from "./project";
+export {
+  PROJECT_COLLECTIONS,
+  MULTI_SESSION_SIZES,
+  MAX_PROJECT_SESSIONS,
+  isMultiSessionSize,
+  getProjectSessionReservationId,
+  getProjectProgress,
+  getProjectStatus,
+  canUpdateProjectSession,
+} from "./project";
+
+// Payment ledger
+export type {
+  PaymentChargeType,
+  LedgerEntryType,
+  LedgerEntryStatus,
+  PaymentLedgerEntry,
+  DepositRequirement,
+  RefundRule,
+  LedgerSummary,
+  CancellationRefund,
+  PaymentChargeRequest,
+  PaymentRefundRequest,
+  PaymentProviderResult,
+  PaymentProvider,
+} from "./payment";
+export {
+  PAYMENT_COLLECTIONS,
+  PAYMENT_CURRENCY,
+  PAYMENT_CHARGE_TYPES,
+  DEFAULT_DEPOSIT_REQUIREMENT,
+  DEFAULT_REFUND_RULES,
+  FakePaymentProvider,
+  isPaymentChargeType,
+  getDepositAmount,
+  summarizeLedger,
+  getDepositRefundRate,
+  getCancellationRefunds,
+} from "./payment";
+
+// Cancellation policies
+export type {
+  CancellationPolicy,
+  CancellationOutcome,
+  BookingCancellationRecord,
+} from "./cancellation";
+export {
+  DEFAULT_CANCELLATION_POLICY,
+  isValidCancellationPolicy,
+  getBookingCancellationPolicy,
+  canMarkNoShow,
+  evaluateCancellation,
+  describeCancellationPolicy,
+} from "./cancellation";
+
+// Appointment reminders and aftercare follow-ups
+export type {
+  ReminderCategory,
+  ReminderKind,
+  ReminderDefinition,
+  ScheduledNotificationStatus,
+  ScheduledNotification,
+  PlannedReminder,
+} from "./reminders";
+export {
+  REMINDER_COLLECTIONS,
+  REMINDER_DEFINITIONS,
+  APPOINTMENT_REMINDER_KINDS,
+  AFTERCARE_REMINDER_KINDS,
+  DAY_OF_CHECKLIST_HOUR,
+  REMINDER_TIMEZONE_OFFSET_MINUTES,
+  getScheduledNotificationId,
+  getReminderSendAt,
+  planReminders,
+  isReminderCategoryEnabled,
+  isReminderExpired,
+} from "./reminders";
+
+// Waitlist
+export type {
+  WaitlistEntryStatus,
+  WaitlistOfferStatus,
+  WaitlistEntry,
+  WaitlistOffer,
+  FreedSlot,
+} from "./waitlist";
+export {
+  WAITLIST_COLLECTIONS,
+  WAITLIST_OFFER_HOLD_MINUTES,
+  WAITLIST_BOOKING_HOLD_HOURS,
+  WAITLIST_HOLD_PREFIX,
+  getWaitlistHoldId,
+  isWaitlistHoldId,
+  getWaitlistOfferExpiry,
+  getWaitlistBookingHoldExpiry,
+  isValidWaitlistEntry,
+  rankWaitlistEntries,
+} from "./waitlist";
+
+// Artist matching profile
+export type {
+  AnalysisComplexity,
+  MatchingProfileSpecialty,
+  MatchReviewHighlight,
+  ArtistMatchingProfile,
+  MatchingProfileSources,
+} from "./matchingProfile";
+export {
+  MATCHING_PROFILE_COLLECTION,
+  MATCHING_PROFILE_VERSION,
+  MATCHING_PROFILE_SAMPLE_SIZE,
+  MATCHING_PROFILE_PALETTE_SIZE,
+  MATCHING_PROFILE_MOTIF_LIMIT,
+  MATCHING_PROFILE_REVIEW_HIGHLIGHTS,
+  buildArtistMatchingProfile,
+  getSpecialtyStyleBonus,
+} from "./matchingProfile";
+
+// Artist matching pipeline
+export type {
+  MatchingCriteria,
+  MatchScoreBreakdown,
+  AnalysisComparison,
+  PortfolioCompatibility,
+  ArtistMatchResult,
+  MatchScoreWeights,
+  MatchingWeightProfile,
+  MatchFeatureName,
+  MatchFeatures,
+} from "./matching";
+export {
+  MATCH_SCORE_WEIGHTS,
+  MIN_MATCH_SCORE,
+  DEFAULT_WEIGHT_PROFILE,
+  MATCH_FEATURE_NAMES,
+  MAX_MATCH_DISTANCE_KM,
+  MAX_MATCH_RESULTS,
+  TOP_PORTFOLIO_MATCHES,
+  isValidMatchingCriteria,
+  rankArtistMatches,
+  scoreArtistCandidates,
+  selectArtistMatches,
+  scoreArtistMatch,
+  getWeightedMatchScore,
+  getMatchFeatures,
+  calculateDesignScore,
+  calculateMoodBoardDesignScore,
+  compareWithReferences,
+  calculateArtistScore,
+  calculatePriceScore,
+  calculateDistanceScore,
+  estimatePrice,
+  rankPortfolioCompatibility,
+  compareAnalyses,
+  getDistanceKm,
+} from "./matching";
+
+// Match explanations
+export type { MatchReasonLocale, MatchExplanationInput } from "./matchReasons";
+export {
+  MAX_MATCH_REASONS,
+  MAX_REASON_EVIDENCE,
+  MATCH_REASON_THRESHOLDS,
+  TATTOO_STYLE_LABELS_EN,
+  explainMatch,
+  formatMatchReason,
+} from "./matchReasons";
+
+// Image embeddings & visual similarity
+export type {
+  RgbImage,
+  ImageEmbeddingProvider,
+  VisualNeighbor,
+} from "./imageEmbedding";
+export {
+  PIXEL_DESCRIPTOR_MODEL_ID,
+  DESCRIPTOR_IMAGE_SIZE,
+  DESCRIPTOR_DIMENSIONS,
+  VISUAL_SIMILARITY_WEIGHT,
+  DEFAULT_VISUAL_SEARCH_LIMIT,
+  MAX_VISUAL_SEARCH_LIMIT,
+  MAX_VISUAL_SEARCH_CANDIDATES,
+  MAX_EMBEDDING_DIMENSIONS,
+  StubImageEmbeddingProvider,
+  computeImageDescriptor,
+  isValidImageEmbedding,
+  cosineSimilarity,
+  getVisualSimilarity,
+  findVisualNeighbors,
+} from "./imageEmbedding";
+
+// Mood boards
+export type {
+  MoodBoardPriority,
+  MoodBoardReference,
+  MoodBoardComposite,
+  ReferenceMatch,
+} from "./moodBoard";
+export {
+  MAX_MOOD_BOARD_REFERENCES,
+  MUST_HAVE_INFLUENCE,
+  MUST_HAVE_MISS_PENALTY,
+  getReferenceInfluence,
+  isValidMoodBoard,
+  mergeMoodBoard,
+  getMustHaveCoverage,
+  getMustHaveFactor,
+} from "./moodBoard";
+
+// Local image heuristics
+export type { PixelAnalysis } from "./imageHeuristics";
+export {
+  LOCAL_ANALYSIS_CONFIDENCE,
+  analyzeImagePixels,
+} from "./imageHeuristics";
+
+// Image analysis cache
+export type { AnalysisCacheStats } from "./analysisCache";
+export {
+  ANALYSIS_CACHE_COLLECTIONS,
+  ANALYSIS_CACHE_VERSION,
+  MAX_ANALYSIS_CACHE_STATS_DAYS,
+  hashImageContent,
+  getAnalysisCacheKey,
+  getAnalysisCacheMetricsDocId,
+  getCacheHitRate,
+  sumAnalysisCacheStats,
+} from "./analysisCache";
+
+// Tag learning from artist corrections
+export type {
+  TagCorrection,
+  LabelTagCounts,
+  TagLearningWeights,
+  TagAcceptanceStats,
+  TagCorrectionLearningStatus,
+} from "./tagLearning";
+export {
+  TAG_LEARNING_COLLECTIONS,
+  MAX_DAILY_TAG_CORRECTIONS,
+  MAX_CORRECTION_TAGS,
+  GLOBAL_TAG_WEIGHTS_BATCH_SIZE,
+  LEARNED_TAG_THRESHOLD,
+  LEARNED_SUGGESTION_THRESHOLD,
+  getTagWeightsDocId,
+  getTagLearningQuotaId,
+  createEmptyTagWeights,
+  getAnalysisLabels,
+  parseTagCorrection,
+  isAcceptedUnchanged,
+  applyTagCorrection,
+  applyTagCorrections,
+  scoreLearnedTags,
+  blendLearnedTagScores,
+  getUsualAddedTags,
+  getTagAcceptanceRate,
+} from "./tagLearning";
+
+// Chat schema (Realtime Database)
+export type {
+  ChatMessageType,
+  ChatContext,
+  ChatMessageMetadata,
+  ChatMessage,
+  ChatLastMessage,
+  ChatRoom,
+  ChatInboxEntry,
+  TypingStatus,
+} from "./chat";
+export {
+  CHAT_PATHS,
+  MAX_CHAT_MESSAGE_LENGTH,
+  CHAT_INBOX_PAGE_SIZE,
+  CHAT_MESSAGE_TYPES,
+  getChatRoomId,
+  toChatParticipants,
+  getChatParticipantIds,
+  getChatRecipientId,
+  createChatMessage,
+  toChatLastMessage,
+  getChatInboxUpdates,
+  mergeChatInboxPages,
+  isValidChatMessage,
+  getChatNotificationBody,
+} from "./chat";
+
+// Chat cards (quotes, proposed times, design approvals, deposit requests)
+export type {
+  ChatCardKind,
+  PriceQuotePayload,
+  ProposedSlot,
+  SlotProposalPayload,
+  DesignApprovalPayload,
+  DepositRequestPayload,
+  ChatCardPayloads,
+  ChatCard,
+  StoredChatCard,
+  ChatCardAction,
+  ChatCardResponse,
+} from "./chatCards";
+export {
+  CHAT_CARD_KINDS,
+  CHAT_CARD_VERSIONS,
+  CHAT_CARD_ACTIONS,
+  MAX_CHAT_CARD_PAYLOAD_LENGTH,
+  MAX_CHAT_CARD_NOTE_LENGTH,
+  MAX_PROPOSED_SLOTS,
+  createChatCard,
+  serializeChatCard,
+  parseChatCard,
+  isValidChatCardPayload,
+  canRespondToChatCard,
+  isValidChatCardResponse,
+  getChatCardSummary,
+} from "./chatCards";
+
+// Chat outbox (offline queue, retries and delivery states)
+export type {
+  ChatOutboxStatus,
+  ChatDeliveryStatus,
+  ChatOutboxEntry,
+} from "./chatOutbox";
+export {
+  CHAT_OUTBOX_RETRY_BASE_DELAY_MS,
+  CHAT_OUTBOX_RETRY_MAX_DELAY_MS,
+  CHAT_OUTBOX_SEND_TIMEOUT_MS,
+  getChatOutboxRetryDelay,
+  addChatOutboxEntry,
+  getDueChatOutboxEntries,
+  getFailedChatOutboxEntry,
+  getChatDeliveryStatus,
+  withChatDeliveryStatus,
+} from "./chatOutbox";
+
+// Design drafts (stencil revisions and approval per booking)
+export type {
+  DesignDraftStatus,
+  DesignAnnotation,
+  DesignDraft,
+  ApprovedDesign,
+} from "./designDrafts";
+export {
+  MAX_DESIGN_DRAFT_NOTE_LENGTH,
+  MAX_DESIGN_ANNOTATIONS,
+  DESIGNABLE_BOOKING_STATUSES,
+  getLatestDesignDraft,
+  getNextDesignDraftVersion,
+  getDesignDraftId,
+  canUploadDesignDraft,
+  canReviewDesignDraft,
+  isValidDesignDraftNote,
+  isValidDesignAnnotation,
+  toApprovedDesign,
+} from "./designDrafts";
+
+// Matching weight profiles & offline evaluation
+export type {
+  MatchingExperiment,
+  MatchingWeightConfig,
+  MatchingCohort,
+  MatchingReplayCandidate,
+  MatchingReplayCase,
+  MatchingEvaluationReport,
+} from "./matchingWeights";
+export {
+  MATCHING_WEIGHT_COLLECTIONS,
+  MATCHING_WEIGHT_CONFIG_ID,
+  MAX_REPLAY_CANDIDATES,
+  BOOKING_ATTRIBUTION_DAYS,
+  EVALUATION_HIT_RANKS,
+  DEFAULT_WEIGHT_CONFIG,
+  getWeightProfileDocId,
+  isValidWeightProfile,
+  isValidWeightConfig,
+  assignMatchingCohort,
+  rankReplayCandidates,
+  evaluateMatchingReplay,
+} from "./matchingWeights";
+
+// Learning-to-rank from booking outcomes
+export type {
+  MatchInteractionType,
+  MatchInteraction,
+  ImpressionLabels,
+  MatchingImpression,
+  ImpressionOutcomes,
+  RankingModel,
+  RankingTrainingOptions,
+  RankingExample,
+  MatchingRankingConfig,
+} from "./rankingModel";
+export {
+  RANKING_COLLECTIONS,
+  MATCHING_RANKING_CONFIG_ID,
+  IMPRESSION_LABEL_WINDOW_DAYS,
+  MAX_TRAINING_IMPRESSIONS,
+  RANKING_MODEL_ID,
+  DEFAULT_RANKING_CONFIG,
+  DEFAULT_RANKING_TRAINING_OPTIONS,
+  getRankingModelDocId,
+  isValidRankingConfig,
+  labelMatchImpression,
+  getImpressionRelevance,
+  trainRankingModel,
+  scoreWithRankingModel,
+  blendRankingScores,
+} from "./rankingModel";
 
 // Utility functions (if any shared utilities are added in the future)
 export const SharedUtils = {
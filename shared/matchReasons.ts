@@ -0,0 +1,256 @@
+/**
+ * 🎨 Tattoo Journey 2.0 - Shared Match Explanations
+ *
+ * Turns a match's score breakdown into structured "why this artist" factors:
+ * how much each factor contributed to the match score, the threshold it
+ * cleared and the portfolio items or reviews behind it. Text is rendered per
+ * locale from the same data.
+ */
+
+import {
+  AIAnalysis,
+  MatchReason,
+  MatchReasonFactor,
+  TattooStyle,
+} from "./types";
+import type {
+  MatchScoreBreakdown,
+  MatchScoreWeights,
+  PortfolioCompatibility,
+} from "./matching";
+import {
+  MatchReviewHighlight,
+  MatchingProfileSpecialty,
+  getSpecialtyStyleBonus,
+} from "./matchingProfile";
+
+export type MatchReasonLocale = "ja" | "en";
+
+export const MAX_MATCH_REASONS = 3;
+export const MAX_REASON_EVIDENCE = 3;
+
+/**
+ * Score a factor must exceed to be given as a reason, per level.
+ * Specialty scores are the specialty bonus (0-0.3).
+ */
+export const MATCH_REASON_THRESHOLDS: Record<
+  Exclude<MatchReasonFactor, "availability">,
+  { strong: number; good?: number }
+> = {
+  style: { strong: 0.8, good: 0.6 },
+  specialty: { strong: 0.2, good: 0 },
+  rating: { strong: 0.8, good: 0.6 },
+  price: { strong: 0.8, good: 0.6 },
+  distance: { strong: 0.8 },
+};
+
+/**
+ * Review highlights below this rating are not used as evidence
+ */
+const MIN_EVIDENCE_REVIEW_RATING = 4;
+
+export const TATTOO_STYLE_LABELS_EN: Record<TattooStyle, string> = {
+  リアリズム: "Realism",
+  トラディショナル: "Traditional",
+  ネオトラディショナル: "Neo-traditional",
+  ジャパニーズ: "Japanese",
+  "ブラック＆グレー": "Black & grey",
+  カラー: "Color",
+  ジオメトリック: "Geometric",
+  ミニマル: "Minimal",
+  トライバル: "Tribal",
+  バイオメカニクス: "Biomechanical",
+  オールドスクール: "Old school",
+  レタリング: "Lettering",
+  ポートレート: "Portrait",
+};
+
+export interface MatchExplanationInput {
+  breakdown: MatchScoreBreakdown;
+  weights: MatchScoreWeights;
+  customerAnalysis: AIAnalysis;
+  specialties: MatchingProfileSpecialty[];
+  // Most compatible first
+  portfolioMatches: PortfolioCompatibility[];
+  reviewHighlights: MatchReviewHighlight[];
+  rating: { average: number; totalReviews: number };
+  experienceYears: number;
+  estimatedPrice: number;
+  distance: number;
+}
+
+/**
+ * Factors that cleared their threshold, largest contribution first.
+ * Style and specialty split the design contribution between them, so the
+ * contributions of all factors add up to the weighted match score.
+ */
+export function explainMatch(input: MatchExplanationInput): MatchReason[] {
+  const { breakdown, weights, customerAnalysis } = input;
+  const style = customerAnalysis.style;
+  const specialty = input.specialties.find((s) => s.styleName === style);
+  const specialtyBonus = Math.min(
+    getSpecialtyStyleBonus(input.specialties, style),
+    breakdown.designScore,
+  );
+
+  const candidates: Array<
+    Omit<MatchReason, "level" | "threshold" | "explanation">
+  > = [
+    {
+      factor: "style",
+      score: breakdown.designScore,
+      contribution:
+        weights.designScore * (breakdown.designScore - specialtyBonus),
+      params: { style },
+      evidence: {
+        portfolioItemIds: input.portfolioMatches
+          .filter((match) => match.comparison.styleMatch === 1)
+          .slice(0, MAX_REASON_EVIDENCE)
+          .map((match) => match.portfolioItem.id),
+        reviewIds: [],
+      },
+    },
+    {
+      factor: "rating",
+      score: breakdown.artistScore,
+      contribution: weights.artistScore * breakdown.artistScore,
+      params: {
+        rating: Math.round(input.rating.average * 10) / 10,
+        reviewCount: input.rating.totalReviews,
+        experienceYears: input.experienceYears,
+      },
+      evidence: {
+        portfolioItemIds: [],
+        reviewIds: input.reviewHighlights
+          .filter((review) => review.rating >= MIN_EVIDENCE_REVIEW_RATING)
+          .slice(0, MAX_REASON_EVIDENCE)
+          .map((review) => review.id),
+      },
+    },
+    {
+      factor: "price",
+      score: breakdown.priceScore,
+      contribution: weights.priceScore * breakdown.priceScore,
+      params: { estimatedPrice: input.estimatedPrice },
+      evidence: { portfolioItemIds: [], reviewIds: [] },
+    },
+    {
+      factor: "distance",
+      score: breakdown.distanceScore,
+      contribution: weights.distanceScore * breakdown.distanceScore,
+      params: { distanceKm: Math.round(input.distance * 10) / 10 },
+      evidence: { portfolioItemIds: [], reviewIds: [] },
+    },
+  ];
+
+  if (specialty) {
+    candidates.push({
+      factor: "specialty",
+      score: specialtyBonus,
+      contribution: weights.designScore * specialtyBonus,
+      params: {
+        style,
+        proficiencyLevel: specialty.proficiencyLevel,
+        experienceYears: specialty.experienceYears,
+      },
+      evidence: { portfolioItemIds: [], reviewIds: [] },
+    });
+  }
+
+  return candidates
+    .map((candidate) => {
+      const thresholds =
+        MATCH_REASON_THRESHOLDS[
+          candidate.factor as keyof typeof MATCH_REASON_THRESHOLDS
+        ];
+      const level: MatchReason["level"] | null =
+        candidate.score > thresholds.strong
+          ? "strong"
+          : thresholds.good !== undefined && candidate.score > thresholds.good
+            ? "good"
+            : null;
+
+      if (!level) return null;
+
+      const reason = {
+        ...candidate,
+        level,
+        threshold:
+          level === "strong" ? thresholds.strong : (thresholds.good as number),
+        explanation: "",
+      };
+
+      return { ...reason, explanation: formatMatchReason(reason, "ja") };
+    })
+    .filter((reason): reason is MatchReason => reason !== null)
+    .sort((a, b) => b.contribution - a.contribution)
+    .slice(0, MAX_MATCH_REASONS);
+}
+
+/**
+ * Reason text in the given locale
+ */
+export function formatMatchReason(
+  reason: Pick<MatchReason, "factor" | "level" | "params">,
+  locale: MatchReasonLocale = "ja",
+): string {
+  const { params } = reason;
+  const strong = reason.level === "strong";
+  const style =
+    locale === "en"
+      ? TATTOO_STYLE_LABELS_EN[params.style as TattooStyle] || params.style
+      : params.style;
+  const price =
+    typeof params.estimatedPrice === "number" && params.estimatedPrice > 0
+      ? `¥${params.estimatedPrice.toLocaleString()}`
+      : null;
+
+  switch (reason.factor) {
+    case "style":
+      if (locale === "en") {
+        return strong
+          ? "Your design style is a very close match"
+          : "Good design style compatibility";
+      }
+      return strong
+        ? "あなたの希望するデザインスタイルに非常にマッチしています"
+        : "デザインスタイルの相性が良好です";
+
+    case "specialty":
+      return locale === "en"
+        ? `Specializes in ${style} (${params.experienceYears} yrs)`
+        : `${style}を得意とするアーティストです（経験${params.experienceYears}年）`;
+
+    case "rating":
+      if (locale === "en") {
+        return strong
+          ? `Highly rated, experienced artist (★${params.rating}, ${params.reviewCount} reviews)`
+          : `Skilled and experienced artist (★${params.rating})`;
+      }
+      return strong
+        ? `高評価で経験豊富なアーティストです（★${params.rating}・${params.reviewCount}件）`
+        : `技術力と経験を兼ね備えたアーティストです（★${params.rating}）`;
+
+    case "price":
+      if (locale === "en") {
+        const text = strong
+          ? "Pricing fits your budget perfectly"
+          : "Can work within your budget";
+        return price ? `${text} (about ${price})` : text;
+      }
+      return (
+        (strong ? "ご予算に最適な価格設定です" : "予算内での施術が可能です") +
+        (price ? `（目安 ${price}）` : "")
+      );
+
+    case "distance":
+      return locale === "en"
+        ? `Easy to reach (${params.distanceKm} km away)`
+        : `アクセスしやすい立地にあります（${params.distanceKm}km）`;
+
+    case "availability":
+      return locale === "en"
+        ? "Has openings soon"
+        : "近日中に予約可能な枠があります";
+  }
+}
@@ -0,0 +1,811 @@
+/**
+ * 🎨 Tattoo Journey 2.0 - Shared Artist Matching Pipeline
+ *
+ * Scores artists' matching profiles against a customer's design analysis,
+ * budget and location. The findMatchingArtists Cloud Function is the only
+ * caller, so ranking changes ship without an app release and cannot be
+ * tampered with on the client.
+ */
+
+import {
+  AIAnalysis,
+  ImageEmbedding,
+  MatchReason,
+  PortfolioItem,
+  isRecord,
+} from "./types";
+import {
+  ArtistMatchingProfile,
+  MATCHING_PROFILE_SAMPLE_SIZE,
+  MatchReviewHighlight,
+  getSpecialtyStyleBonus,
+} from "./matchingProfile";
+import { explainMatch } from "./matchReasons";
+import {
+  VISUAL_SIMILARITY_WEIGHT,
+  getVisualSimilarity,
+  isValidImageEmbedding,
+} from "./imageEmbedding";
+import {
+  MoodBoardComposite,
+  MoodBoardReference,
+  ReferenceMatch,
+  getMustHaveCoverage,
+  getMustHaveFactor,
+  getReferenceInfluence,
+  isValidMoodBoard,
+  mergeMoodBoard,
+} from "./moodBoard";
+
+/**
+ * Weights of the four sub-scores in the default weight profile
+ */
+export const MATCH_SCORE_WEIGHTS = {
+  designScore: 0.4,
+  artistScore: 0.3,
+  priceScore: 0.2,
+  distanceScore: 0.1,
+} as const;
+
+/**
+ * Matches scoring at or below this are dropped (default weight profile)
+ */
+export const MIN_MATCH_SCORE = 0.2;
+export const MAX_MATCH_DISTANCE_KM = 100;
+export const MAX_MATCH_RESULTS = 50;
+export const TOP_PORTFOLIO_MATCHES = 3;
+
+export interface MatchingCriteria {
+  customerAnalysis: AIAnalysis;
+  maxDistance: number; // km
+  budgetRange: {
+    min: number;
+    max: number;
+  };
+  customerLocation: {
+    latitude: number;
+    longitude: number;
+  };
+  preferredStyles?: string[];
+  // Embedding of the design image, blended into the design score
+  designEmbedding?: ImageEmbedding;
+  // Several weighted references; when set, their composite replaces
+  // customerAnalysis and design scoring compares against each reference
+  moodBoard?: MoodBoardReference[];
+}
+
+export interface MatchScoreBreakdown {
+  designScore: number;
+  artistScore: number;
+  priceScore: number;
+  distanceScore: number;
+}
+
+export type MatchScoreWeights = Record<keyof MatchScoreBreakdown, number>;
+
+/**
+ * Inputs of the learned ranking model, each scaled to 0-1
+ */
+export const MATCH_FEATURE_NAMES = [
+  "designScore",
+  "artistScore",
+  "priceScore",
+  "distanceScore",
+  "compatibility",
+  "styleShare",
+  "motifCoverage",
+  "ratingAverage",
+  "reviewVolume",
+  "portfolioDepth",
+  "specialtyMatch",
+] as const;
+
+export type MatchFeatureName = (typeof MATCH_FEATURE_NAMES)[number];
+export type MatchFeatures = Record<MatchFeatureName, number>;
+
+/**
+ * Versioned scoring configuration. A saved version is never edited; tuning
+ * saves a new version so every stored search names the exact weights it used.
+ */
+export interface MatchingWeightProfile {
+  id: string;
+  version: number;
+  weights: MatchScoreWeights;
+  minMatchScore: number;
+  description?: string;
+}
+
+export const DEFAULT_WEIGHT_PROFILE: MatchingWeightProfile = {
+  id: "default",
+  version: 1,
+  weights: { ...MATCH_SCORE_WEIGHTS },
+  minMatchScore: MIN_MATCH_SCORE,
+};
+
+export interface AnalysisComparison {
+  styleMatch: number;
+  colorSimilarity: number;
+  motifOverlap: number;
+  complexitySimilarity: number;
+  overallCompatibility: number;
+}
+
+export interface PortfolioCompatibility {
+  portfolioItem: PortfolioItem;
+  comparison: AnalysisComparison;
+  matchScore: number;
+}
+
+/**
+ * One scored artist; `artist` is the artist user document from the profile
+ */
+export interface ArtistMatchResult {
+  artist: Record<string, any>;
+  matchScore: number;
+  breakdown: MatchScoreBreakdown;
+  compatibility: number;
+  distance: number;
+  estimatedPrice: number;
+  topPortfolioMatches: PortfolioItem[];
+  // Structured reasons, largest contribution first
+  reasons: MatchReason[];
+  // Japanese text of `reasons`
+  matchReasons: string[];
+  // Reviews the reasons can cite as evidence
+  reviewHighlights: MatchReviewHighlight[];
+  features: MatchFeatures;
+  // Mood board searches: the reference each top portfolio match resembles
+  referenceMatches?: ReferenceMatch[];
+}
+
+const ANALYSIS_COMPLEXITIES = ["シンプル", "中程度", "複雑"];
+
+/**
+ * Criteria arrive from the client, so check every field the pipeline reads
+ */
+export function isValidMatchingCriteria(
+  criteria: unknown,
+): criteria is MatchingCriteria {
+  const isNumber = (value: unknown): value is number =>
+    typeof value === "number" && isFinite(value);
+
+  if (!isRecord(criteria)) return false;
+  const analysis = criteria.customerAnalysis;
+  const budgetRange = criteria.budgetRange;
+  const location = criteria.customerLocation;
+
+  return (
+    isRecord(analysis) &&
+    typeof analysis.style === "string" &&
+    Array.isArray(analysis.colorPalette) &&
+    Array.isArray(analysis.motifs) &&
+    typeof analysis.complexity === "string" &&
+    ANALYSIS_COMPLEXITIES.includes(analysis.complexity) &&
+    isNumber(analysis.confidence) &&
+    isNumber(criteria.maxDistance) &&
+    criteria.maxDistance > 0 &&
+    criteria.maxDistance <= MAX_MATCH_DISTANCE_KM &&
+    isRecord(budgetRange) &&
+    isNumber(budgetRange.min) &&
+    isNumber(budgetRange.max) &&
+    budgetRange.min >= 0 &&
+    budgetRange.min <= budgetRange.max &&
+    isRecord(location) &&
+    isNumber(location.latitude) &&
+    isNumber(location.longitude) &&
+    (criteria.designEmbedding === undefined ||
+      isValidImageEmbedding(criteria.designEmbedding)) &&
+    (criteria.moodBoard === undefined || isValidMoodBoard(criteria.moodBoard))
+  );
+}
+
+/**
+ * Score every profile in range and return the matches, best first
+ */
+export function rankArtistMatches(
+  profiles: ArtistMatchingProfile[],
+  criteria: MatchingCriteria,
+  weightProfile: MatchingWeightProfile = DEFAULT_WEIGHT_PROFILE,
+): ArtistMatchResult[] {
+  return selectArtistMatches(
+    scoreArtistCandidates(profiles, criteria, weightProfile),
+    weightProfile,
+  );
+}
+
+/**
+ * Every artist in range, best first, before the minimum-score cutoff
+ */
+export function scoreArtistCandidates(
+  profiles: ArtistMatchingProfile[],
+  criteria: MatchingCriteria,
+  weightProfile: MatchingWeightProfile = DEFAULT_WEIGHT_PROFILE,
+): ArtistMatchResult[] {
+  return profiles
+    .map((profile) => scoreArtistMatch(profile, criteria, weightProfile))
+    .filter((match): match is ArtistMatchResult => match !== null)
+    .sort((a, b) => b.matchScore - a.matchScore);
+}
+
+/**
+ * Apply the profile's cutoff and the result limit to sorted candidates
+ */
+export function selectArtistMatches<T extends { matchScore: number }>(
+  candidates: T[],
+  weightProfile: MatchingWeightProfile = DEFAULT_WEIGHT_PROFILE,
+): T[] {
+  return candidates
+    .filter((match) => match.matchScore > weightProfile.minMatchScore)
+    .slice(0, MAX_MATCH_RESULTS);
+}
+
+/**
+ * Score one artist, or null when the artist is out of range
+ */
+export function scoreArtistMatch(
+  profile: ArtistMatchingProfile,
+  criteria: MatchingCriteria,
+  weightProfile: MatchingWeightProfile = DEFAULT_WEIGHT_PROFILE,
+): ArtistMatchResult | null {
+  if (!profile.location) return null;
+
+  const distance = getDistanceKm(criteria.customerLocation, profile.location);
+  if (distance > criteria.maxDistance) return null;
+
+  const artistInfo = profile.artist.profile?.artistInfo;
+  const composite = criteria.moodBoard
+    ? mergeMoodBoard(criteria.moodBoard)
+    : null;
+  const analysis = composite || criteria.customerAnalysis;
+
+  const breakdown: MatchScoreBreakdown = {
+    designScore:
+      criteria.moodBoard && composite
+        ? calculateMoodBoardDesignScore(profile, criteria.moodBoard, composite)
+        : calculateDesignScore(profile, analysis, criteria.designEmbedding),
+    artistScore: calculateArtistScore(artistInfo),
+    priceScore: calculatePriceScore(artistInfo, criteria.budgetRange),
+    distanceScore: calculateDistanceScore(distance, criteria.maxDistance),
+  };
+
+  const portfolioMatches = rankPortfolioCompatibility(
+    analysis,
+    profile.portfolioSamples,
+  );
+  const compatibility =
+    portfolioMatches.length > 0 ? portfolioMatches[0].matchScore : 0;
+  const estimatedPrice = estimatePrice(artistInfo, analysis.complexity);
+  const reviewHighlights = profile.reviewHighlights || [];
+  const reasons = explainMatch({
+    breakdown,
+    weights: weightProfile.weights,
+    customerAnalysis: analysis,
+    specialties: profile.specialties,
+    portfolioMatches,
+    reviewHighlights,
+    rating: profile.rating,
+    experienceYears: artistInfo?.experienceYears || 0,
+    estimatedPrice,
+    distance,
+  });
+  // Also includes the portfolio items cited by the reasons
+  const topPortfolioMatches = getTopPortfolioMatches(portfolioMatches, reasons);
+
+  return {
+    artist: { ...profile.artist, uid: profile.artistId },
+    matchScore: getWeightedMatchScore(breakdown, weightProfile.weights),
+    breakdown,
+    compatibility,
+    distance,
+    estimatedPrice,
+    topPortfolioMatches,
+    reasons,
+    matchReasons: reasons.map((reason) => reason.explanation),
+    reviewHighlights: reviewHighlights.filter((review) =>
+      reasons.some((reason) => reason.evidence.reviewIds.includes(review.id)),
+    ),
+    features: getMatchFeatures(profile, analysis, breakdown, compatibility),
+    ...(criteria.moodBoard && {
+      referenceMatches: getReferenceMatches(
+        criteria.moodBoard,
+        topPortfolioMatches,
+      ),
+    }),
+  };
+}
+
+/**
+ * The reference each portfolio item resembles most
+ */
+function getReferenceMatches(
+  references: MoodBoardReference[],
+  portfolioItems: PortfolioItem[],
+): ReferenceMatch[] {
+  return portfolioItems.map((item) => {
+    const { bestReferenceId, bestSimilarity } = compareWithReferences(
+      references,
+      item,
+    );
+    return {
+      portfolioItemId: item.id,
+      referenceId: bestReferenceId,
+      similarity: bestSimilarity,
+    };
+  });
+}
+
+/**
+ * The most compatible portfolio items plus any cited as reason evidence
+ */
+function getTopPortfolioMatches(
+  portfolioMatches: PortfolioCompatibility[],
+  reasons: MatchReason[],
+): PortfolioItem[] {
+  const citedIds = ([] as string[]).concat(
+    ...reasons.map((reason) => reason.evidence.portfolioItemIds),
+  );
+
+  return portfolioMatches
+    .filter(
+      (match, index) =>
+        index < TOP_PORTFOLIO_MATCHES ||
+        citedIds.includes(match.portfolioItem.id),
+    )
+    .map((match) => match.portfolioItem);
+}
+
+/**
+ * Ranking-model features: the sub-scores plus profile signals the weighted
+ * score does not use directly
+ */
+export function getMatchFeatures(
+  profile: ArtistMatchingProfile,
+  customerAnalysis: AIAnalysis,
+  breakdown: MatchScoreBreakdown,
+  compatibility: number,
+): MatchFeatures {
+  const motifs = customerAnalysis.motifs;
+
+  return {
+    ...breakdown,
+    compatibility,
+    styleShare: profile.styleHistogram[customerAnalysis.style] || 0,
+    motifCoverage:
+      motifs.length > 0
+        ? motifs.filter((motif) => profile.motifs.includes(motif)).length /
+          motifs.length
+        : 0,
+    ratingAverage: Math.min(profile.rating.average / 5, 1),
+    reviewVolume: Math.min(profile.rating.totalReviews / 50, 1),
+    portfolioDepth: Math.min(
+      profile.analyzedCount / MATCHING_PROFILE_SAMPLE_SIZE,
+      1,
+    ),
+    specialtyMatch: profile.specialties.some(
+      (specialty) => specialty.styleName === customerAnalysis.style,
+    )
+      ? 1
+      : 0,
+  };
+}
+
+/**
+ * Overall score from the sub-scores; depends only on the breakdown, so stored
+ * breakdowns can be re-scored with other weights
+ */
+export function getWeightedMatchScore(
+  breakdown: MatchScoreBreakdown,
+  weights: MatchScoreWeights,
+): number {
+  const matchScore =
+    breakdown.designScore * weights.designScore +
+    breakdown.artistScore * weights.artistScore +
+    breakdown.priceScore * weights.priceScore +
+    breakdown.distanceScore * weights.distanceScore;
+
+  return Math.min(matchScore, 1.0);
+}
+
+/**
+ * Average compatibility with the portfolio samples plus the specialty bonus.
+ * With a design embedding, samples embedded by the same model also count
+ * their visual similarity.
+ */
+export function calculateDesignScore(
+  profile: Pick<ArtistMatchingProfile, "portfolioSamples" | "specialties">,
+  customerAnalysis: AIAnalysis,
+  designEmbedding?: ImageEmbedding,
+): number {
+  if (profile.portfolioSamples.length === 0) return 0;
+
+  const totalScore = profile.portfolioSamples.reduce((sum, item) => {
+    const compatibility = compareAnalyses(
+      customerAnalysis,
+      item.aiAnalysis,
+    ).overallCompatibility;
+    const visualSimilarity = getVisualSimilarity(
+      designEmbedding,
+      item.embedding,
+    );
+
+    return (
+      sum +
+      (visualSimilarity === null
+        ? compatibility
+        : (1 - VISUAL_SIMILARITY_WEIGHT) * compatibility +
+          VISUAL_SIMILARITY_WEIGHT * visualSimilarity)
+    );
+  }, 0);
+  const averageScore = totalScore / profile.portfolioSamples.length;
+  const styleBonus = getSpecialtyStyleBonus(
+    profile.specialties,
+    customerAnalysis.style,
+  );
+
+  return Math.min(averageScore + styleBonus, 1.0);
+}
+
+/**
+ * Design score of a mood board: each portfolio sample is compared with every
+ * reference (weighted by influence), plus the specialty bonus for the
+ * composite style, reduced when the artist misses must-haves
+ */
+export function calculateMoodBoardDesignScore(
+  profile: Pick<
+    ArtistMatchingProfile,
+    "portfolioSamples" | "specialties" | "styleHistogram" | "motifs"
+  >,
+  references: MoodBoardReference[],
+  composite: MoodBoardComposite = mergeMoodBoard(references),
+): number {
+  if (profile.portfolioSamples.length === 0) return 0;
+
+  const averageScore =
+    profile.portfolioSamples.reduce(
+      (sum, item) =>
+        sum + compareWithReferences(references, item).compatibility,
+      0,
+    ) / profile.portfolioSamples.length;
+  const styleBonus = getSpecialtyStyleBonus(
+    profile.specialties,
+    composite.style,
+  );
+  const mustHaveFactor = getMustHaveFactor(
+    getMustHaveCoverage(profile, composite),
+  );
+
+  return Math.min((averageScore + styleBonus) * mustHaveFactor, 1.0);
+}
+
+/**
+ * Influence-weighted compatibility of a portfolio item with the references,
+ * and the single reference it resembles most
+ */
+export function compareWithReferences(
+  references: MoodBoardReference[],
+  item: Pick<PortfolioItem, "aiAnalysis" | "embedding">,
+): { compatibility: number; bestReferenceId: string; bestSimilarity: number } {
+  let weightedTotal = 0;
+  let totalInfluence = 0;
+  let bestReferenceId = references[0]?.id || "";
+  let bestSimilarity = -1;
+
+  references.forEach((reference) => {
+    const compatibility = compareAnalyses(
+      reference.analysis,
+      item.aiAnalysis,
+    ).overallCompatibility;
+    const visualSimilarity = getVisualSimilarity(
+      reference.embedding,
+      item.embedding,
+    );
+    const similarity =
+      visualSimilarity === null
+        ? compatibility
+        : (1 - VISUAL_SIMILARITY_WEIGHT) * compatibility +
+          VISUAL_SIMILARITY_WEIGHT * visualSimilarity;
+    const influence = getReferenceInfluence(reference);
+
+    weightedTotal += similarity * influence;
+    totalInfluence += influence;
+    if (similarity > bestSimilarity) {
+      bestSimilarity = similarity;
+      bestReferenceId = reference.id;
+    }
+  });
+
+  return {
+    compatibility: totalInfluence > 0 ? weightedTotal / totalInfluence : 0,
+    bestReferenceId,
+    bestSimilarity: Math.max(bestSimilarity, 0),
+  };
+}
+
+/**
+ * Rating, review count, experience, portfolio size and verification
+ */
+export function calculateArtistScore(artistInfo: unknown): number {
+  if (!isRecord(artistInfo)) return 0;
+
+  const ratingScore = getNumberField(artistInfo, "rating") / 5.0;
+  const reviewBonus = Math.min(
+    getNumberField(artistInfo, "totalReviews") * 0.01,
+    0.2,
+  );
+  const experienceBonus = Math.min(
+    getNumberField(artistInfo, "experienceYears") * 0.02,
+    0.2,
+  );
+  const portfolioBonus = Math.min(
+    getNumberField(artistInfo, "portfolioCount") * 0.01,
+    0.1,
+  );
+  const verificationBonus = artistInfo.verified ? 0.1 : 0;
+
+  return Math.min(
+    ratingScore * 0.5 +
+      reviewBonus +
+      experienceBonus +
+      portfolioBonus +
+      verificationBonus,
+    1.0,
+  );
+}
+
+/**
+ * Highest when the artist's average price sits in the middle of the budget
+ */
+export function calculatePriceScore(
+  artistInfo: unknown,
+  budgetRange: { min: number; max: number },
+): number {
+  if (!isRecord(artistInfo) || !isRecord(artistInfo.priceRange)) return 0.5;
+
+  const priceRange = artistInfo.priceRange;
+  const artistAvgPrice =
+    (getNumberField(priceRange, "small") +
+      getNumberField(priceRange, "medium") +
+      getNumberField(priceRange, "large")) /
+    3;
+
+  if (artistAvgPrice === 0) return 0.5;
+
+  const budgetMid = (budgetRange.min + budgetRange.max) / 2;
+
+  if (artistAvgPrice >= budgetRange.min && artistAvgPrice <= budgetRange.max) {
+    const budgetWidth = budgetRange.max - budgetRange.min;
+    const deviation =
+      budgetWidth > 0 ? Math.abs(artistAvgPrice - budgetMid) / budgetWidth : 0;
+    return 1.0 - deviation * 0.3;
+  }
+
+  const deviation = Math.abs(artistAvgPrice - budgetMid) / budgetMid;
+  return Math.max(1.0 - deviation, 0);
+}
+
+export function calculateDistanceScore(
+  distance: number,
+  maxDistance: number,
+): number {
+  if (distance > maxDistance) return 0;
+
+  return 1.0 - distance / maxDistance;
+}
+
+/**
+ * Price band for the design's complexity
+ */
+export function estimatePrice(
+  artistInfo: unknown,
+  complexity: AIAnalysis["complexity"],
+): number {
+  if (!isRecord(artistInfo) || !isRecord(artistInfo.priceRange)) return 0;
+
+  const priceRange = artistInfo.priceRange;
+  const hourlyRate = getNumberField(artistInfo, "hourlyRate");
+
+  switch (complexity) {
+    case "シンプル":
+      return getNumberField(priceRange, "small") || hourlyRate || 15000;
+    case "中程度":
+      return getNumberField(priceRange, "medium") || hourlyRate * 2 || 30000;
+    case "複雑":
+      return getNumberField(priceRange, "large") || hourlyRate * 4 || 60000;
+    default:
+      return getNumberField(priceRange, "medium") || 30000;
+  }
+}
+
+/**
+ * Numeric field of an untyped document, 0 when missing or not a number
+ */
+function getNumberField(
+  record: Record<string, unknown>,
+  field: string,
+): number {
+  const value = record[field];
+  return typeof value === "number" && isFinite(value) ? value : 0;
+}
+
+/**
+ * Portfolio items with an analysis, most compatible first
+ */
+export function rankPortfolioCompatibility(
+  customerAnalysis: AIAnalysis,
+  portfolioItems: PortfolioItem[],
+): PortfolioCompatibility[] {
+  return portfolioItems
+    .filter((item) => item.aiAnalysis)
+    .map((portfolioItem) => {
+      const comparison = compareAnalyses(
+        customerAnalysis,
+        portfolioItem.aiAnalysis,
+      );
+
+      // Scaled by the confidence of both analyses, bonus for matching colorfulness
+      let matchScore =
+        comparison.overallCompatibility *
+        ((customerAnalysis.confidence + portfolioItem.aiAnalysis.confidence) /
+          2);
+      if (customerAnalysis.isColorful === portfolioItem.aiAnalysis.isColorful) {
+        matchScore += 0.1;
+      }
+
+      return {
+        portfolioItem,
+        comparison,
+        matchScore: Math.min(matchScore, 1.0),
+      };
+    })
+    .sort((a, b) => b.matchScore - a.matchScore);
+}
+
+/**
+ * Style 40%, color 25%, motifs 25%, complexity 10%
+ */
+export function compareAnalyses(
+  analysis1: AIAnalysis,
+  analysis2: AIAnalysis,
+): AnalysisComparison {
+  const styleMatch = analysis1.style === analysis2.style ? 1.0 : 0.0;
+  const colorSimilarity = calculateColorSimilarity(
+    analysis1.colorPalette,
+    analysis2.colorPalette,
+  );
+  const motifOverlap = calculateMotifOverlap(
+    analysis1.motifs,
+    analysis2.motifs,
+  );
+  const complexitySimilarity = calculateComplexitySimilarity(
+    analysis1.complexity,
+    analysis2.complexity,
+  );
+
+  return {
+    styleMatch,
+    colorSimilarity,
+    motifOverlap,
+    complexitySimilarity,
+    overallCompatibility:
+      styleMatch * 0.4 +
+      colorSimilarity * 0.25 +
+      motifOverlap * 0.25 +
+      complexitySimilarity * 0.1,
+  };
+}
+
+/**
+ * Great-circle distance in km, rounded to 2 decimals
+ */
+export function getDistanceKm(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number },
+): number {
+  const R = 6371;
+  const toRadians = (deg: number) => deg * (Math.PI / 180);
+
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+
+  const distance = R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return Math.round(distance * 100) / 100;
+}
+
+function calculateColorSimilarity(
+  colors1: string[],
+  colors2: string[],
+): number {
+  if (colors1.length === 0 && colors2.length === 0) return 1.0;
+  if (colors1.length === 0 || colors2.length === 0) return 0.0;
+
+  const hsl1 = colors1.map(hexToHsl);
+  const hsl2 = colors2.map(hexToHsl);
+
+  let totalSimilarity = 0;
+  hsl1.forEach((color1) => {
+    hsl2.forEach((color2) => {
+      totalSimilarity += calculateHslSimilarity(color1, color2);
+    });
+  });
+
+  return totalSimilarity / (hsl1.length * hsl2.length);
+}
+
+function calculateMotifOverlap(motifs1: string[], motifs2: string[]): number {
+  if (motifs1.length === 0 && motifs2.length === 0) return 1.0;
+  if (motifs1.length === 0 || motifs2.length === 0) return 0.0;
+
+  const overlap = motifs1.filter((motif) => motifs2.includes(motif));
+  const union = new Set([...motifs1, ...motifs2]);
+
+  return overlap.length / union.size;
+}
+
+function calculateComplexitySimilarity(
+  complexity1: AIAnalysis["complexity"],
+  complexity2: AIAnalysis["complexity"],
+): number {
+  if (complexity1 === complexity2) return 1.0;
+
+  const complexityLevels = { シンプル: 0, 中程度: 1, 複雑: 2 };
+  const diff = Math.abs(
+    complexityLevels[complexity1] - complexityLevels[complexity2],
+  );
+
+  return Math.max(0, 1 - diff / 2);
+}
+
+interface Hsl {
+  h: number;
+  s: number;
+  l: number;
+}
+
+function hexToHsl(hex: string): Hsl {
+  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+  const r = result ? parseInt(result[1], 16) / 255 : 0;
+  const g = result ? parseInt(result[2], 16) / 255 : 0;
+  const b = result ? parseInt(result[3], 16) / 255 : 0;
+
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+
+  if (max === min) {
+    return { h: 0, s: 0, l };
+  }
+
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  let h: number;
+
+  switch (max) {
+    case r:
+      h = (g - b) / d + (g < b ? 6 : 0);
+      break;
+    case g:
+      h = (b - r) / d + 2;
+      break;
+    default:
+      h = (r - g) / d + 4;
+  }
+
+  return { h: (h / 6) * 360, s, l };
+}
+
+function calculateHslSimilarity(hsl1: Hsl, hsl2: Hsl): number {
+  // Hue is circular
+  const hueDiff =
+    Math.min(Math.abs(hsl1.h - hsl2.h), 360 - Math.abs(hsl1.h - hsl2.h)) / 180;
+  const satDiff = Math.abs(hsl1.s - hsl2.s);
+  const lightDiff = Math.abs(hsl1.l - hsl2.l);
+
+  return Math.max(0, 1 - (hueDiff * 0.5 + satDiff * 0.3 + lightDiff * 0.2));
+}
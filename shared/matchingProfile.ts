@@ -0,0 +1,223 @@
+/**
+ * 🎨 Tattoo Journey 2.0 - Shared Artist Matching Profile
+ *
+ * Denormalized per-artist features used by matching. Cloud Functions rebuild
+ * the profile whenever the artist's portfolio, specialties, pricing or reviews
+ * change, so a search can score a whole region from a single query instead of
+ * reading every artist's portfolio and specialties.
+ */
+
+import { AIAnalysis, PortfolioItem, TattooStyle } from "./types";
+
+export const MATCHING_PROFILE_COLLECTION = "artistMatchingProfiles";
+
+/**
+ * Bump when the profile shape changes so stale documents can be rebuilt
+ */
+export const MATCHING_PROFILE_VERSION = 2;
+
+/**
+ * Portfolio items kept in the profile for per-item comparison
+ * (matches the 20 items the design score has always looked at)
+ */
+export const MATCHING_PROFILE_SAMPLE_SIZE = 20;
+export const MATCHING_PROFILE_PALETTE_SIZE = 8;
+export const MATCHING_PROFILE_MOTIF_LIMIT = 30;
+
+/**
+ * Best reviews kept in the profile as match reason evidence
+ */
+export const MATCHING_PROFILE_REVIEW_HIGHLIGHTS = 3;
+
+export type AnalysisComplexity = AIAnalysis["complexity"];
+
+export interface MatchingProfileSpecialty {
+  styleName: string;
+  proficiencyLevel: number; // 1-5
+  experienceYears: number;
+}
+
+export interface MatchReviewHighlight {
+  id: string;
+  rating: number;
+  comment: string;
+}
+
+export interface ArtistMatchingProfile {
+  artistId: string;
+  // Public artist user document, so matches need no extra read
+  artist: Record<string, any>;
+  location: {
+    latitude: number;
+    longitude: number;
+  } | null;
+  // Share of analyzed portfolio items per style / complexity (sums to 1)
+  styleHistogram: Partial<Record<TattooStyle, number>>;
+  complexityHistogram: Partial<Record<AnalysisComplexity, number>>;
+  colorProfile: {
+    colorfulRatio: number;
+    // Most frequent portfolio colors, most frequent first
+    palette: string[];
+  };
+  // Portfolio motifs, most frequent first
+  motifs: string[];
+  priceBands: {
+    small: number;
+    medium: number;
+    large: number;
+    hourlyRate: number;
+  };
+  rating: {
+    average: number;
+    totalReviews: number;
+  };
+  // Highest rated reviews with a comment, best first
+  reviewHighlights: MatchReviewHighlight[];
+  specialties: MatchingProfileSpecialty[];
+  portfolioSamples: PortfolioItem[];
+  portfolioCount: number;
+  analyzedCount: number;
+  version: number;
+  updatedAt: Date;
+}
+
+export interface MatchingProfileSources {
+  artistId: string;
+  artist: Record<string, any>;
+  // Newest first
+  portfolio: PortfolioItem[];
+  specialties: Array<MatchingProfileSpecialty & { isActive?: boolean }>;
+  // Newest first
+  reviews: Array<{ id?: string; overallRating?: number; comment?: string }>;
+}
+
+/**
+ * Aggregate the artist's documents into a matching profile
+ */
+export function buildArtistMatchingProfile(
+  sources: MatchingProfileSources,
+): Omit<ArtistMatchingProfile, "updatedAt"> {
+  const analyzed = sources.portfolio.filter((item) => item.aiAnalysis);
+  const artistInfo = sources.artist.profile?.artistInfo || {};
+  const location = sources.artist.profile?.location;
+
+  const ratedReviews = sources.reviews.filter(
+    (review) => typeof review.overallRating === "number",
+  );
+  const rating =
+    ratedReviews.length > 0
+      ? {
+          average:
+            ratedReviews.reduce(
+              (sum, review) => sum + (review.overallRating as number),
+              0,
+            ) / ratedReviews.length,
+          totalReviews: ratedReviews.length,
+        }
+      : {
+          average: artistInfo.rating || 0,
+          totalReviews: artistInfo.totalReviews || 0,
+        };
+
+  return {
+    artistId: sources.artistId,
+    artist: sources.artist,
+    location:
+      typeof location?.latitude === "number" &&
+      typeof location?.longitude === "number"
+        ? { latitude: location.latitude, longitude: location.longitude }
+        : null,
+    styleHistogram: toHistogram(analyzed.map((item) => item.aiAnalysis.style)),
+    complexityHistogram: toHistogram(
+      analyzed.map((item) => item.aiAnalysis.complexity),
+    ),
+    colorProfile: {
+      colorfulRatio:
+        analyzed.length > 0
+          ? analyzed.filter((item) => item.aiAnalysis.isColorful).length /
+            analyzed.length
+          : 0,
+      palette: mostFrequent(
+        ([] as string[]).concat(
+          ...analyzed.map((item) =>
+            item.aiAnalysis.colorPalette.map((color) => color.toLowerCase()),
+          ),
+        ),
+        MATCHING_PROFILE_PALETTE_SIZE,
+      ),
+    },
+    motifs: mostFrequent(
+      ([] as string[]).concat(
+        ...analyzed.map((item) => item.aiAnalysis.motifs),
+      ),
+      MATCHING_PROFILE_MOTIF_LIMIT,
+    ),
+    priceBands: {
+      small: artistInfo.priceRange?.small || 0,
+      medium: artistInfo.priceRange?.medium || 0,
+      large: artistInfo.priceRange?.large || 0,
+      hourlyRate: artistInfo.hourlyRate || 0,
+    },
+    rating,
+    reviewHighlights: ratedReviews
+      .filter((review) => review.id && review.comment)
+      .sort((a, b) => (b.overallRating as number) - (a.overallRating as number))
+      .slice(0, MATCHING_PROFILE_REVIEW_HIGHLIGHTS)
+      .map((review) => ({
+        id: review.id as string,
+        rating: review.overallRating as number,
+        comment: review.comment as string,
+      })),
+    specialties: sources.specialties
+      .filter((specialty) => specialty.isActive !== false)
+      .map(({ styleName, proficiencyLevel, experienceYears }) => ({
+        styleName,
+        proficiencyLevel,
+        experienceYears,
+      })),
+    portfolioSamples: analyzed.slice(0, MATCHING_PROFILE_SAMPLE_SIZE),
+    portfolioCount: sources.portfolio.length,
+    analyzedCount: analyzed.length,
+    version: MATCHING_PROFILE_VERSION,
+  };
+}
+
+/**
+ * Bonus for a specialty in the requested style:
+ * proficiency 1-5 → 0-0.2, plus 0.01 per year of experience up to 0.1
+ */
+export function getSpecialtyStyleBonus(
+  specialties: MatchingProfileSpecialty[],
+  style: string,
+): number {
+  const specialty = specialties.find((s) => s.styleName === style);
+  if (!specialty) return 0;
+
+  const proficiencyBonus = (specialty.proficiencyLevel - 1) * 0.05;
+  const experienceBonus = Math.min(specialty.experienceYears * 0.01, 0.1);
+
+  return proficiencyBonus + experienceBonus;
+}
+
+function toHistogram<T extends string>(
+  values: T[],
+): Partial<Record<T, number>> {
+  const histogram: Partial<Record<T, number>> = {};
+
+  values.forEach((value) => {
+    histogram[value] = (histogram[value] || 0) + 1 / values.length;
+  });
+
+  return histogram;
+}
+
+function mostFrequent(values: string[], limit: number): string[] {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) || 0) + 1));
+
+  // Ties keep first-seen order (Map iteration order + stable sort)
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([value]) => value);
+}
@@ -0,0 +1,287 @@
+/**
+ * 🎨 Tattoo Journey 2.0 - Shared Matching Weight Profiles & Evaluation
+ *
+ * Weight profiles are stored as immutable versions. A single config document
+ * names the default profile and the experiments that serve other profiles to
+ * a share of users. Each search the findMatchingArtists function serves is
+ * recorded with its candidates' score breakdowns, so a candidate profile can
+ * be replayed offline against searches that ended in a booking.
+ */
+
+import {
+  DEFAULT_WEIGHT_PROFILE,
+  MatchScoreBreakdown,
+  MatchingWeightProfile,
+  getWeightedMatchScore,
+  selectArtistMatches,
+} from "./matching";
+import { isRecord } from "./types";
+
+export const MATCHING_WEIGHT_COLLECTIONS = {
+  profiles: "matchingWeightProfiles",
+  config: "matchingConfig",
+  history: "matchingHistory",
+} as const;
+
+/**
+ * Document id of the weight config in the matchingConfig collection
+ */
+export const MATCHING_WEIGHT_CONFIG_ID = "weights";
+
+/**
+ * Candidates stored per search for replay (best first)
+ */
+export const MAX_REPLAY_CANDIDATES = 100;
+
+/**
+ * A booking counts towards a search when it is requested within this window
+ */
+export const BOOKING_ATTRIBUTION_DAYS = 30;
+
+export const EVALUATION_HIT_RANKS = [1, 3, 10];
+
+export interface MatchingExperiment {
+  id: string;
+  // Document id of the served profile version (see getWeightProfileDocId)
+  weightProfileId: string;
+  // Share of users in the experiment, 0-1
+  trafficShare: number;
+}
+
+export interface MatchingWeightConfig {
+  defaultWeightProfileId: string;
+  experiments: MatchingExperiment[];
+}
+
+export interface MatchingCohort {
+  weightProfileId: string;
+  experimentId: string | null;
+}
+
+export interface MatchingReplayCandidate {
+  artistId: string;
+  breakdown: MatchScoreBreakdown;
+}
+
+/**
+ * One stored search and the artist the customer went on to book
+ */
+export interface MatchingReplayCase {
+  candidates: MatchingReplayCandidate[];
+  bookedArtistId: string;
+}
+
+export interface MatchingEvaluationReport {
+  weightProfileId: string;
+  version: number;
+  cases: number;
+  // Cases whose booked artist appears in the replayed results
+  bookedInResults: number;
+  meanReciprocalRank: number;
+  // 1-based, over the cases whose booked artist appears in the results
+  meanBookedPosition: number | null;
+  // Share of cases whose booked artist is in the top k, keyed by k
+  hitRate: Record<number, number>;
+  averageResultCount: number;
+}
+
+const WEIGHT_PROFILE_ID_PATTERN = /^[a-z0-9-]{1,40}$/;
+
+export function getWeightProfileDocId(id: string, version: number): string {
+  return `${id}_v${version}`;
+}
+
+export const DEFAULT_WEIGHT_CONFIG: MatchingWeightConfig = {
+  defaultWeightProfileId: getWeightProfileDocId(
+    DEFAULT_WEIGHT_PROFILE.id,
+    DEFAULT_WEIGHT_PROFILE.version,
+  ),
+  experiments: [],
+};
+
+/**
+ * Profiles arrive from admin tools, so check every field the scorer reads.
+ * Weights must sum to 1 to keep scores comparable with the cutoff.
+ */
+export function isValidWeightProfile(
+  profile: unknown,
+): profile is MatchingWeightProfile {
+  const isWeight = (value: unknown): value is number =>
+    typeof value === "number" && isFinite(value) && value >= 0;
+
+  if (!isRecord(profile)) return false;
+  const weights = profile.weights;
+
+  if (
+    typeof profile.id !== "string" ||
+    !WEIGHT_PROFILE_ID_PATTERN.test(profile.id) ||
+    typeof profile.version !== "number" ||
+    !Number.isInteger(profile.version) ||
+    profile.version < 1 ||
+    typeof profile.minMatchScore !== "number" ||
+    profile.minMatchScore < 0 ||
+    profile.minMatchScore >= 1 ||
+    !isRecord(weights) ||
+    !isWeight(weights.designScore) ||
+    !isWeight(weights.artistScore) ||
+    !isWeight(weights.priceScore) ||
+    !isWeight(weights.distanceScore)
+  ) {
+    return false;
+  }
+
+  const total =
+    weights.designScore +
+    weights.artistScore +
+    weights.priceScore +
+    weights.distanceScore;
+
+  return Math.abs(total - 1) < 1e-6;
+}
+
+export function isValidWeightConfig(
+  config: unknown,
+): config is MatchingWeightConfig {
+  if (
+    !isRecord(config) ||
+    typeof config.defaultWeightProfileId !== "string" ||
+    !Array.isArray(config.experiments)
+  ) {
+    return false;
+  }
+
+  const experiments: unknown[] = config.experiments;
+  if (!experiments.every(isRecord)) return false;
+
+  const ids = new Set(experiments.map((experiment) => experiment.id));
+  const totalShare = experiments.reduce(
+    (sum, experiment) =>
+      sum +
+      (typeof experiment.trafficShare === "number"
+        ? experiment.trafficShare
+        : 0),
+    0,
+  );
+
+  return (
+    ids.size === experiments.length &&
+    totalShare <= 1 &&
+    experiments.every(
+      (experiment) =>
+        typeof experiment.id === "string" &&
+        experiment.id.length > 0 &&
+        typeof experiment.weightProfileId === "string" &&
+        typeof experiment.trafficShare === "number" &&
+        experiment.trafficShare > 0 &&
+        experiment.trafficShare <= 1,
+    )
+  );
+}
+
+/**
+ * Deterministic cohort: the user's hash bucket falls into one experiment's
+ * traffic share (in config order) or into the default profile
+ */
+export function assignMatchingCohort(
+  config: MatchingWeightConfig,
+  userId: string,
+): MatchingCohort {
+  const bucket = getUserBucket(userId);
+  let upperBound = 0;
+
+  for (const experiment of config.experiments) {
+    upperBound += experiment.trafficShare;
+    if (bucket < upperBound) {
+      return {
+        weightProfileId: experiment.weightProfileId,
+        experimentId: experiment.id,
+      };
+    }
+  }
+
+  return {
+    weightProfileId: config.defaultWeightProfileId,
+    experimentId: null,
+  };
+}
+
+/**
+ * Re-score stored breakdowns with another profile and rank them
+ */
+export function rankReplayCandidates(
+  candidates: MatchingReplayCandidate[],
+  weightProfile: MatchingWeightProfile,
+): Array<MatchingReplayCandidate & { matchScore: number }> {
+  return selectArtistMatches(
+    candidates
+      .map((candidate) => ({
+        ...candidate,
+        matchScore: getWeightedMatchScore(
+          candidate.breakdown,
+          weightProfile.weights,
+        ),
+      }))
+      .sort((a, b) => b.matchScore - a.matchScore),
+    weightProfile,
+  );
+}
+
+/**
+ * Ranking metrics of a weight profile over replayed searches
+ */
+export function evaluateMatchingReplay(
+  cases: MatchingReplayCase[],
+  weightProfile: MatchingWeightProfile,
+): MatchingEvaluationReport {
+  const positions = cases.map((replayCase) => {
+    const ranked = rankReplayCandidates(replayCase.candidates, weightProfile);
+    const index = ranked.findIndex(
+      (candidate) => candidate.artistId === replayCase.bookedArtistId,
+    );
+
+    return { position: index >= 0 ? index + 1 : null, count: ranked.length };
+  });
+
+  const found = positions
+    .map(({ position }) => position)
+    .filter((position): position is number => position !== null);
+  const share = (count: number) =>
+    cases.length > 0 ? count / cases.length : 0;
+
+  const hitRate: Record<number, number> = {};
+  EVALUATION_HIT_RANKS.forEach((k) => {
+    hitRate[k] = share(found.filter((position) => position <= k).length);
+  });
+
+  return {
+    weightProfileId: weightProfile.id,
+    version: weightProfile.version,
+    cases: cases.length,
+    bookedInResults: found.length,
+    meanReciprocalRank: share(
+      found.reduce((sum, position) => sum + 1 / position, 0),
+    ),
+    meanBookedPosition:
+      found.length > 0
+        ? found.reduce((sum, position) => sum + position, 0) / found.length
+        : null,
+    hitRate,
+    averageResultCount: share(
+      positions.reduce((sum, { count }) => sum + count, 0),
+    ),
+  };
+}
+
+/**
+ * FNV-1a hash of the user id mapped to [0, 1)
+ */
+function getUserBucket(userId: string): number {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < userId.length; i++) {
+    hash ^= userId.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+
+  return hash / 0x100000000;
+}
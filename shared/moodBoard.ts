@@ -0,0 +1,231 @@
+/**
+ * 🎨 Tattoo Journey 2.0 - Shared Mood Board
+ *
+ * A customer can search with several reference images instead of one. Each
+ * reference has a weight and is either a must-have or a nice-to-have. The
+ * analyses are merged into one composite (used for price bands, reasons and
+ * ranking features), while design scoring compares portfolio work against
+ * every reference and penalizes artists missing a must-have style or motif.
+ */
+
+import { AIAnalysis, ImageEmbedding, TattooStyle, isRecord } from "./types";
+import { isValidImageEmbedding } from "./imageEmbedding";
+
+export const MAX_MOOD_BOARD_REFERENCES = 5;
+
+/**
+ * Must-haves count this many times their weight when merging and scoring
+ */
+export const MUST_HAVE_INFLUENCE = 2;
+
+/**
+ * Share of the design score lost when an artist covers none of the
+ * must-have styles and motifs
+ */
+export const MUST_HAVE_MISS_PENALTY = 0.5;
+
+export const MOOD_BOARD_PALETTE_SIZE = 8;
+export const MOOD_BOARD_MOTIF_LIMIT = 10;
+
+export type MoodBoardPriority = "must" | "nice";
+
+export interface MoodBoardReference {
+  id: string;
+  analysis: AIAnalysis;
+  // Relative importance, above 0 and at most 1
+  weight: number;
+  priority: MoodBoardPriority;
+  embedding?: ImageEmbedding;
+}
+
+export interface MoodBoardComposite extends AIAnalysis {
+  // Share of the board's influence per style (sums to 1)
+  styleWeights: Partial<Record<TattooStyle, number>>;
+  mustHaveStyles: TattooStyle[];
+  mustHaveMotifs: string[];
+}
+
+/**
+ * Which reference a portfolio item looks most like
+ */
+export interface ReferenceMatch {
+  portfolioItemId: string;
+  referenceId: string;
+  similarity: number; // 0-1
+}
+
+const ANALYSIS_COMPLEXITIES: AIAnalysis["complexity"][] = [
+  "シンプル",
+  "中程度",
+  "複雑",
+];
+
+export function getReferenceInfluence(reference: MoodBoardReference): number {
+  return (
+    reference.weight * (reference.priority === "must" ? MUST_HAVE_INFLUENCE : 1)
+  );
+}
+
+/**
+ * Boards arrive from the client inside the matching criteria
+ */
+export function isValidMoodBoard(references: unknown): boolean {
+  const isNumber = (value: unknown): value is number =>
+    typeof value === "number" && isFinite(value);
+
+  if (
+    !Array.isArray(references) ||
+    references.length === 0 ||
+    references.length > MAX_MOOD_BOARD_REFERENCES
+  ) {
+    return false;
+  }
+
+  const board: unknown[] = references;
+  if (!board.every(isRecord)) return false;
+
+  return (
+    new Set(board.map((reference) => reference.id)).size === board.length &&
+    board.every((reference) => {
+      const analysis = reference.analysis;
+
+      return (
+        typeof reference.id === "string" &&
+        isNumber(reference.weight) &&
+        reference.weight > 0 &&
+        reference.weight <= 1 &&
+        (reference.priority === "must" || reference.priority === "nice") &&
+        isRecord(analysis) &&
+        typeof analysis.style === "string" &&
+        Array.isArray(analysis.colorPalette) &&
+        Array.isArray(analysis.motifs) &&
+        ANALYSIS_COMPLEXITIES.includes(
+          analysis.complexity as AIAnalysis["complexity"],
+        ) &&
+        isNumber(analysis.confidence) &&
+        (reference.embedding === undefined ||
+          isValidImageEmbedding(reference.embedding))
+      );
+    })
+  );
+}
+
+/**
+ * Merge the references into one analysis: the styles, colorfulness and
+ * complexity with the most influence, colors and motifs ranked by influence
+ * (must-have motifs always kept)
+ */
+export function mergeMoodBoard(
+  references: MoodBoardReference[],
+): MoodBoardComposite {
+  const totalInfluence = references.reduce(
+    (sum, reference) => sum + getReferenceInfluence(reference),
+    0,
+  );
+  const styleTotals = new Map<TattooStyle, number>();
+  const complexityTotals = new Map<AIAnalysis["complexity"], number>();
+  const colorTotals = new Map<string, number>();
+  const motifTotals = new Map<string, number>();
+  let colorfulInfluence = 0;
+  let confidenceTotal = 0;
+
+  const add = <T>(totals: Map<T, number>, value: T, amount: number) =>
+    totals.set(value, (totals.get(value) || 0) + amount);
+
+  references.forEach((reference) => {
+    const influence = getReferenceInfluence(reference);
+    const { analysis } = reference;
+
+    add(styleTotals, analysis.style, influence);
+    add(complexityTotals, analysis.complexity, influence);
+    // Earlier palette entries are the more dominant colors
+    analysis.colorPalette.forEach((color, i) =>
+      add(
+        colorTotals,
+        color.toLowerCase(),
+        (influence * (analysis.colorPalette.length - i)) /
+          analysis.colorPalette.length,
+      ),
+    );
+    analysis.motifs.forEach((motif) => add(motifTotals, motif, influence));
+    if (analysis.isColorful) colorfulInfluence += influence;
+    confidenceTotal += analysis.confidence * influence;
+  });
+
+  const mustHaves = references.filter(
+    (reference) => reference.priority === "must",
+  );
+  const mustHaveStyles = unique(
+    mustHaves.map((reference) => reference.analysis.style),
+  );
+  const mustHaveMotifs = unique(
+    ([] as string[]).concat(
+      ...mustHaves.map((reference) => reference.analysis.motifs),
+    ),
+  );
+
+  const styleWeights: Partial<Record<TattooStyle, number>> = {};
+  styleTotals.forEach((total, style) => {
+    styleWeights[style] = totalInfluence > 0 ? total / totalInfluence : 0;
+  });
+
+  return {
+    style: rankByTotal(styleTotals)[0],
+    colorPalette: rankByTotal(colorTotals).slice(0, MOOD_BOARD_PALETTE_SIZE),
+    isColorful: totalInfluence > 0 && colorfulInfluence / totalInfluence >= 0.5,
+    motifs: unique([...mustHaveMotifs, ...rankByTotal(motifTotals)]).slice(
+      0,
+      Math.max(MOOD_BOARD_MOTIF_LIMIT, mustHaveMotifs.length),
+    ),
+    complexity: rankByTotal(complexityTotals)[0],
+    confidence: totalInfluence > 0 ? confidenceTotal / totalInfluence : 0,
+    styleWeights,
+    mustHaveStyles,
+    mustHaveMotifs,
+  };
+}
+
+/**
+ * Share of the board's must-have styles and motifs the artist covers
+ * (1 when nothing is a must-have)
+ */
+export function getMustHaveCoverage(
+  profile: {
+    styleHistogram: Partial<Record<TattooStyle, number>>;
+    motifs: string[];
+    specialties: Array<{ styleName: string }>;
+  },
+  composite: Pick<MoodBoardComposite, "mustHaveStyles" | "mustHaveMotifs">,
+): number {
+  const required =
+    composite.mustHaveStyles.length + composite.mustHaveMotifs.length;
+  if (required === 0) return 1;
+
+  const coveredStyles = composite.mustHaveStyles.filter(
+    (style) =>
+      (profile.styleHistogram[style] || 0) > 0 ||
+      profile.specialties.some((specialty) => specialty.styleName === style),
+  ).length;
+  const coveredMotifs = composite.mustHaveMotifs.filter((motif) =>
+    profile.motifs.includes(motif),
+  ).length;
+
+  return (coveredStyles + coveredMotifs) / required;
+}
+
+/**
+ * Design score multiplier for the must-have coverage
+ */
+export function getMustHaveFactor(coverage: number): number {
+  return 1 - MUST_HAVE_MISS_PENALTY * (1 - coverage);
+}
+
+function rankByTotal<T>(totals: Map<T, number>): T[] {
+  return Array.from(totals.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([value]) => value);
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
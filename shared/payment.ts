@@ -0,0 +1,326 @@
+/**
+ * 🎨 Tattoo Journey 2.0 - Shared Payment Ledger Model
+ *
+ * Every charge and refund for a booking is a ledger entry written by Cloud
+ * Functions. Charges are reserved as pending before the payment provider is
+ * called and finalized once it answers; finalized entries never change.
+ * Balances are always derived from the entries, never stored.
+ */
+
+import { BookingActorRole } from "./booking";
+
+export const PAYMENT_COLLECTIONS = {
+  ledger: "paymentLedger",
+  // Document id = bookingId, written with the cancellation and processed
+  // (with retries) by the processCancellationRefund trigger
+  refunds: "cancellationRefunds",
+} as const;
+
+export const PAYMENT_CURRENCY = "JPY";
+
+/**
+ * Entry types that move money from the customer to the artist
+ */
+export const PAYMENT_CHARGE_TYPES = [
+  "deposit",
+  "balance",
+  "consultation_fee",
+  "touch_up_fee",
+] as const;
+
+export type PaymentChargeType = (typeof PAYMENT_CHARGE_TYPES)[number];
+
+export type LedgerEntryType = PaymentChargeType | "refund";
+
+/**
+ * pending: reserved before the provider is called, so concurrent requests see
+ * the payment in progress. Finalized to succeeded / failed afterwards.
+ */
+export type LedgerEntryStatus = "pending" | "succeeded" | "failed";
+
+export interface PaymentLedgerEntry {
+  id: string;
+  bookingId: string;
+  customerId: string;
+  artistId: string;
+  type: LedgerEntryType;
+  amount: number; // always positive, in yen
+  currency: typeof PAYMENT_CURRENCY;
+  status: LedgerEntryStatus;
+  provider: string;
+  providerReference?: string;
+  refundOf?: string; // ledger entry id of the refunded charge
+  idempotencyKey?: string; // client key of the charge request
+  description: string;
+  failureReason?: string;
+  createdBy: string;
+  createdAt: Date;
+}
+
+/**
+ * Deposit an artist requires when a booking is confirmed
+ * (stored in the artist profile as artistInfo.depositRequirement)
+ */
+export interface DepositRequirement {
+  type: "none" | "fixed" | "percentage";
+  value: number; // yen for fixed, 0-100 for percentage
+}
+
+export const DEFAULT_DEPOSIT_REQUIREMENT: DepositRequirement = {
+  type: "none",
+  value: 0,
+};
+
+/**
+ * Share of the deposit refunded when the customer cancels at least
+ * `minHoursBefore` hours before the appointment
+ */
+export interface RefundRule {
+  minHoursBefore: number;
+  depositRefundRate: number; // 0 - 1
+}
+
+export const DEFAULT_REFUND_RULES: RefundRule[] = [
+  { minHoursBefore: 7 * 24, depositRefundRate: 1 },
+  { minHoursBefore: 48, depositRefundRate: 0.5 },
+  { minHoursBefore: 0, depositRefundRate: 0 },
+];
+
+export interface LedgerSummary {
+  paidAmount: number;
+  refundedAmount: number;
+  netPaid: number;
+  depositPaid: boolean;
+  balanceDue: number;
+}
+
+export interface CancellationRefund {
+  entryId: string;
+  type: PaymentChargeType;
+  amount: number;
+}
+
+// Payment provider abstraction
+
+export interface PaymentChargeRequest {
+  reference: string; // ledger entry id
+  // Chosen by the client per payment attempt; retries of the same attempt
+  // reuse it so the provider never charges twice
+  idempotencyKey: string;
+  amount: number;
+  currency: typeof PAYMENT_CURRENCY;
+  customerId: string;
+  description: string;
+}
+
+export interface PaymentRefundRequest {
+  reference: string;
+  chargeReference: string; // providerReference of the original charge
+  amount: number;
+  currency: typeof PAYMENT_CURRENCY;
+}
+
+export interface PaymentProviderResult {
+  status: LedgerEntryStatus;
+  providerReference?: string;
+  failureReason?: string;
+}
+
+/**
+ * Implemented once per payment processor. Providers never throw for declined
+ * payments; they return a failed result so the attempt is still recorded.
+ */
+export interface PaymentProvider {
+  readonly id: string;
+  charge(request: PaymentChargeRequest): Promise<PaymentProviderResult>;
+  refund(request: PaymentRefundRequest): Promise<PaymentProviderResult>;
+}
+
+/**
+ * In-memory provider for tests and local development
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly id = "fake";
+
+  readonly charges = new Map<string, PaymentChargeRequest>();
+  readonly refunds = new Map<string, PaymentRefundRequest>();
+
+  // Set to make the next calls fail, e.g. "card_declined"
+  failWith: string | null = null;
+
+  async charge(request: PaymentChargeRequest): Promise<PaymentProviderResult> {
+    if (this.failWith) {
+      return { status: "failed", failureReason: this.failWith };
+    }
+
+    const providerReference = `fake_ch_${request.idempotencyKey}`;
+    if (!this.charges.has(providerReference)) {
+      this.charges.set(providerReference, request);
+    }
+
+    return { status: "succeeded", providerReference };
+  }
+
+  async refund(request: PaymentRefundRequest): Promise<PaymentProviderResult> {
+    if (this.failWith) {
+      return { status: "failed", failureReason: this.failWith };
+    }
+
+    const charge = this.charges.get(request.chargeReference);
+    if (!charge) {
+      return { status: "failed", failureReason: "charge_not_found" };
+    }
+
+    const alreadyRefunded = Array.from(this.refunds.values())
+      .filter((refund) => refund.chargeReference === request.chargeReference)
+      .reduce((sum, refund) => sum + refund.amount, 0);
+
+    if (alreadyRefunded + request.amount > charge.amount) {
+      return { status: "failed", failureReason: "amount_exceeds_charge" };
+    }
+
+    const providerReference = `fake_re_${request.reference}`;
+    this.refunds.set(providerReference, request);
+
+    return { status: "succeeded", providerReference };
+  }
+}
+
+export function isPaymentChargeType(type: unknown): type is PaymentChargeType {
+  return (
+    typeof type === "string" &&
+    (PAYMENT_CHARGE_TYPES as readonly string[]).includes(type)
+  );
+}
+
+/**
+ * Deposit due for a confirmed price, rounded to whole yen
+ */
+export function getDepositAmount(
+  requirement: DepositRequirement | undefined,
+  price: number,
+): number {
+  if (!requirement || !(price > 0)) {
+    return 0;
+  }
+
+  switch (requirement.type) {
+    case "fixed":
+      return Math.min(Math.max(Math.round(requirement.value), 0), price);
+    case "percentage":
+      return Math.round(
+        (price * Math.min(Math.max(requirement.value, 0), 100)) / 100,
+      );
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Totals for a booking's ledger. The balance due covers the confirmed price
+ * only; consultation and touch-up fees are paid on top of it. The deposit
+ * counts as paid once succeeded deposits cover the required deposit amount.
+ */
+export function summarizeLedger(
+  entries: Pick<PaymentLedgerEntry, "type" | "amount" | "status">[],
+  confirmedPrice = 0,
+  depositAmount = 0,
+): LedgerSummary {
+  const succeeded = entries.filter((entry) => entry.status === "succeeded");
+  const paidAmount = succeeded
+    .filter((entry) => entry.type !== "refund")
+    .reduce((sum, entry) => sum + entry.amount, 0);
+  const refundedAmount = succeeded
+    .filter((entry) => entry.type === "refund")
+    .reduce((sum, entry) => sum + entry.amount, 0);
+  const pricePaid = succeeded
+    .filter((entry) => entry.type === "deposit" || entry.type === "balance")
+    .reduce((sum, entry) => sum + entry.amount, 0);
+  const depositPaidAmount = succeeded
+    .filter((entry) => entry.type === "deposit")
+    .reduce((sum, entry) => sum + entry.amount, 0);
+
+  return {
+    paidAmount,
+    refundedAmount,
+    netPaid: paidAmount - refundedAmount,
+    depositPaid: depositPaidAmount > 0 && depositPaidAmount >= depositAmount,
+    balanceDue: Math.max(confirmedPrice - pricePaid, 0),
+  };
+}
+
+/**
+ * Share of the deposit returned to the customer for a cancellation made
+ * `hoursBefore` hours ahead of the appointment
+ */
+export function getDepositRefundRate(
+  hoursBefore: number,
+  rules: RefundRule[] = DEFAULT_REFUND_RULES,
+): number {
+  const rule = [...rules]
+    .sort((a, b) => b.minHoursBefore - a.minHoursBefore)
+    .find((r) => hoursBefore >= r.minHoursBefore);
+
+  return rule ? rule.depositRefundRate : 0;
+}
+
+/**
+ * Refunds owed when a booking is cancelled. Artist (or system) cancellations
+ * refund everything; customer cancellations keep the consultation fee and
+ * part of the deposit depending on how close the appointment is, unless the
+ * cancellation policy already decided the deposit refund rate.
+ */
+export function getCancellationRefunds(params: {
+  entries: Pick<
+    PaymentLedgerEntry,
+    "id" | "type" | "amount" | "status" | "refundOf"
+  >[];
+  cancelledBy: BookingActorRole;
+  cancelledAt: Date;
+  appointmentDate?: Date;
+  rules?: RefundRule[];
+  depositRefundRate?: number;
+}): CancellationRefund[] {
+  const { entries, cancelledBy, cancelledAt, appointmentDate, rules } = params;
+  const succeeded = entries.filter((entry) => entry.status === "succeeded");
+
+  const hoursBefore = appointmentDate
+    ? (appointmentDate.getTime() - cancelledAt.getTime()) / (60 * 60 * 1000)
+    : Infinity;
+
+  const getRate = (type: PaymentChargeType): number => {
+    if (cancelledBy !== "customer") return 1;
+
+    switch (type) {
+      case "deposit":
+        return (
+          params.depositRefundRate ?? getDepositRefundRate(hoursBefore, rules)
+        );
+      case "consultation_fee":
+        return 0;
+      default:
+        return 1;
+    }
+  };
+
+  const refunds: CancellationRefund[] = [];
+
+  succeeded.forEach((entry) => {
+    if (!isPaymentChargeType(entry.type)) return;
+
+    const alreadyRefunded = succeeded
+      .filter((refund) => refund.type === "refund")
+      .filter((refund) => refund.refundOf === entry.id)
+      .reduce((sum, refund) => sum + refund.amount, 0);
+    const amount = Math.min(
+      Math.round(entry.amount * getRate(entry.type)),
+      entry.amount - alreadyRefunded,
+    );
+
+    if (amount > 0) {
+      refunds.push({ entryId: entry.id, type: entry.type, amount });
+    }
+  });
+
+  return refunds;
+}
@@ -0,0 +1,202 @@
+/**
+ * 🎨 Tattoo Journey 2.0 - Shared Multi-Session Project Model
+ *
+ * Large pieces (sleeves, back pieces) are one project with a single design,
+ * price quote and deposit, split into sessions that are scheduled and
+ * completed individually. Payments go to the payment ledger of the project's
+ * booking request.
+ */
+
+import { PaymentLedgerEntry, summarizeLedger } from "./payment";
+import { TattooSize } from "./types";
+
+export const PROJECT_COLLECTIONS = {
+  projects: "bookingProjects",
+  // Subcollection of bookingProjects/{projectId}
+  sessions: "sessions",
+} as const;
+
+/**
+ * Sizes that are always booked as multi-session projects
+ */
+export const MULTI_SESSION_SIZES: TattooSize[] = ["extra-large"];
+
+export const MAX_PROJECT_SESSIONS = 20;
+
+export type ProjectStatus =
+  | "planning"
+  | "in_progress"
+  | "completed"
+  | "cancelled";
+
+export type ProjectSessionStatus =
+  | "unscheduled"
+  | "scheduled"
+  | "completed"
+  | "cancelled";
+
+/**
+ * Actions accepted by the updateBookingProject callable
+ */
+export type ProjectAction =
+  | "schedule_session"
+  | "complete_session"
+  | "cancel_session";
+
+export interface BookingProject {
+  id: string;
+  bookingRequestId: string;
+  customerId: string;
+  artistId: string;
+  roomId: string;
+  title: string;
+  designDescription: string;
+  bodyLocation: string;
+  quotedPrice: number;
+  depositAmount: number;
+  plannedSessions: number;
+  status: ProjectStatus;
+  // Denormalized from sessions by the Cloud Function
+  completedSessions: number;
+  completedMinutes: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ProjectSession {
+  id: string;
+  projectId: string;
+  sessionNumber: number;
+  status: ProjectSessionStatus;
+  scheduledDate?: Date;
+  duration: number; // planned minutes
+  actualDuration?: number; // minutes, set on completion
+  notes?: string;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ProjectProgress {
+  completedSessions: number;
+  totalSessions: number;
+  progress: number; // 0 - 1
+  completedMinutes: number;
+  scheduledMinutes: number;
+  depositPaid: boolean;
+  paidAmount: number;
+  remainingBalance: number;
+  nextSession?: Pick<ProjectSession, "id" | "sessionNumber" | "scheduledDate">;
+}
+
+export function isMultiSessionSize(size: TattooSize): boolean {
+  return MULTI_SESSION_SIZES.includes(size);
+}
+
+/**
+ * Reservation id of a session in confirmedBookings-style checks and
+ * artistBusySlots (distinct from any booking request id)
+ */
+export function getProjectSessionReservationId(
+  projectId: string,
+  sessionId: string,
+): string {
+  return `${projectId}_${sessionId}`;
+}
+
+/**
+ * Project-level totals derived from its sessions and its booking's ledger
+ */
+export function getProjectProgress(
+  project: Pick<
+    BookingProject,
+    "quotedPrice" | "depositAmount" | "plannedSessions"
+  >,
+  sessions: Pick<
+    ProjectSession,
+    | "id"
+    | "sessionNumber"
+    | "status"
+    | "scheduledDate"
+    | "duration"
+    | "actualDuration"
+  >[],
+  ledger: Pick<PaymentLedgerEntry, "type" | "amount" | "status">[],
+): ProjectProgress {
+  const activeSessions = sessions.filter((s) => s.status !== "cancelled");
+  const completed = activeSessions.filter((s) => s.status === "completed");
+  const scheduled = activeSessions
+    .filter((s) => s.status === "scheduled" && s.scheduledDate)
+    .sort((a, b) => a.scheduledDate!.getTime() - b.scheduledDate!.getTime());
+
+  const totalSessions = Math.max(
+    project.plannedSessions,
+    activeSessions.length,
+  );
+  const payments = summarizeLedger(
+    ledger,
+    project.quotedPrice,
+    project.depositAmount,
+  );
+
+  return {
+    completedSessions: completed.length,
+    totalSessions,
+    progress: totalSessions > 0 ? completed.length / totalSessions : 0,
+    completedMinutes: completed.reduce(
+      (sum, s) => sum + (s.actualDuration ?? s.duration),
+      0,
+    ),
+    scheduledMinutes: scheduled.reduce((sum, s) => sum + s.duration, 0),
+    depositPaid: payments.depositPaid,
+    paidAmount: payments.netPaid,
+    remainingBalance: payments.balanceDue,
+    nextSession: scheduled[0] && {
+      id: scheduled[0].id,
+      sessionNumber: scheduled[0].sessionNumber,
+      scheduledDate: scheduled[0].scheduledDate,
+    },
+  };
+}
+
+/**
+ * Project status implied by its sessions
+ */
+export function getProjectStatus(
+  sessions: Pick<ProjectSession, "status">[],
+): ProjectStatus {
+  const activeSessions = sessions.filter((s) => s.status !== "cancelled");
+
+  if (activeSessions.length === 0) {
+    return sessions.length > 0 ? "cancelled" : "planning";
+  }
+
+  if (activeSessions.every((s) => s.status === "completed")) {
+    return "completed";
+  }
+
+  if (activeSessions.some((s) => s.status !== "unscheduled")) {
+    return "in_progress";
+  }
+
+  return "planning";
+}
+
+/**
+ * Whether a session may be (re)scheduled, completed or cancelled
+ */
+export function canUpdateProjectSession(
+  status: ProjectSessionStatus,
+  action: ProjectAction,
+): boolean {
+  switch (action) {
+    case "schedule_session":
+      return status === "unscheduled" || status === "scheduled";
+    case "complete_session":
+      return status === "scheduled";
+    case "cancel_session":
+      return status === "unscheduled" || status === "scheduled";
+    default:
+      return false;
+  }
+}
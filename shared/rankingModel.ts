@@ -0,0 +1,307 @@
+/**
+ * 🎨 Tattoo Journey 2.0 - Shared Learning-to-Rank Model
+ *
+ * Each artist shown in a search is an impression. A daily job labels
+ * impressions with what the customer did next (viewed the artist, sent an
+ * inquiry, booked, completed, reviewed). A pairwise logistic model over the
+ * match features is trained from those labels and, when the ranking flag is
+ * on, blended into the match score.
+ */
+
+import { MATCH_FEATURE_NAMES, MatchFeatures } from "./matching";
+import { BookingStatus, parseBookingStatus } from "./booking";
+import { isRecord } from "./types";
+
+export const RANKING_COLLECTIONS = {
+  impressions: "matchingImpressions",
+  models: "matchingRankModels",
+  // Subcollection of matchingHistory/{historyId}, keyed by artist id
+  interactions: "interactions",
+} as const;
+
+/**
+ * Document id of the ranking flag in the matchingConfig collection
+ */
+export const MATCHING_RANKING_CONFIG_ID = "ranking";
+
+/**
+ * Searches are relabeled for this long, so late completions and reviews
+ * still reach their impressions
+ */
+export const IMPRESSION_LABEL_WINDOW_DAYS = 60;
+
+/**
+ * Impressions the trainer reads per run
+ */
+export const MAX_TRAINING_IMPRESSIONS = 20000;
+
+export const RANKING_MODEL_ID = "pairwise-logistic";
+
+export type MatchInteractionType = "viewed" | "inquired";
+
+export interface MatchInteraction {
+  customerId: string;
+  artistId: string;
+  viewedAt?: Date;
+  inquiredAt?: Date;
+}
+
+export interface ImpressionLabels {
+  viewed: boolean;
+  inquired: boolean;
+  booked: boolean;
+  completed: boolean;
+  // Review rating (1-5) left after the search, if any
+  rating: number | null;
+}
+
+export interface MatchingImpression {
+  historyId: string;
+  customerId: string;
+  artistId: string;
+  // 1-based position in the served results
+  position: number;
+  weightProfileId: string | null;
+  experimentId: string | null;
+  features: MatchFeatures;
+  labels: ImpressionLabels;
+  relevance: number;
+  searchedAt: Date;
+  labeledAt: Date;
+}
+
+/**
+ * What the customer did after a search, as read from the stored documents
+ */
+export interface ImpressionOutcomes {
+  interaction?: Pick<MatchInteraction, "viewedAt" | "inquiredAt">;
+  bookings: Array<{ artistId: string; status: unknown; createdAt: Date }>;
+  reviews: Array<{ artistId: string; overallRating?: number; createdAt: Date }>;
+}
+
+export interface RankingModel {
+  id: string;
+  version: number;
+  featureNames: string[];
+  weights: Record<string, number>;
+  impressionCount: number;
+  pairCount: number;
+  // Share of training pairs the model orders correctly
+  pairAccuracy: number;
+  trainedAt: Date;
+}
+
+export interface RankingTrainingOptions {
+  epochs: number;
+  learningRate: number;
+  l2: number;
+}
+
+export interface RankingExample {
+  features: MatchFeatures;
+  relevance: number;
+}
+
+/**
+ * Blend flag: when enabled, the model's score replaces blendWeight of the
+ * weighted match score
+ */
+export interface MatchingRankingConfig {
+  enabled: boolean;
+  modelId: string | null;
+  blendWeight: number;
+}
+
+export const DEFAULT_RANKING_CONFIG: MatchingRankingConfig = {
+  enabled: false,
+  modelId: null,
+  blendWeight: 0.3,
+};
+
+export const DEFAULT_RANKING_TRAINING_OPTIONS: RankingTrainingOptions = {
+  epochs: 200,
+  learningRate: 1,
+  l2: 0.001,
+};
+
+const BOOKED_STATUSES: BookingStatus[] = ["confirmed", "completed"];
+
+export function getRankingModelDocId(version: number): string {
+  return `${RANKING_MODEL_ID}_v${version}`;
+}
+
+export function isValidRankingConfig(
+  config: unknown,
+): config is MatchingRankingConfig {
+  return (
+    isRecord(config) &&
+    typeof config.enabled === "boolean" &&
+    (config.modelId === null || typeof config.modelId === "string") &&
+    typeof config.blendWeight === "number" &&
+    config.blendWeight >= 0 &&
+    config.blendWeight <= 1 &&
+    (!config.enabled || typeof config.modelId === "string")
+  );
+}
+
+/**
+ * Label one served artist from the customer's interactions, bookings and
+ * reviews after the search. Bookings count within the attribution window.
+ */
+export function labelMatchImpression(
+  artistId: string,
+  searchedAt: Date,
+  attributionDays: number,
+  outcomes: ImpressionOutcomes,
+): ImpressionLabels {
+  const windowEnd = searchedAt.getTime() + attributionDays * 86400000;
+  const bookings = outcomes.bookings.filter(
+    (booking) =>
+      booking.artistId === artistId &&
+      booking.createdAt >= searchedAt &&
+      booking.createdAt.getTime() <= windowEnd,
+  );
+  const statuses = bookings.map((booking) =>
+    parseBookingStatus(booking.status),
+  );
+  const completed = statuses.includes("completed");
+  const review = completed
+    ? outcomes.reviews.find(
+        (candidate) =>
+          candidate.artistId === artistId &&
+          candidate.createdAt >= searchedAt &&
+          typeof candidate.overallRating === "number",
+      )
+    : undefined;
+
+  const booked = statuses.some(
+    (status) => !!status && BOOKED_STATUSES.includes(status),
+  );
+  const inquired =
+    !!outcomes.interaction?.inquiredAt || bookings.length > 0 || booked;
+
+  return {
+    viewed: !!outcomes.interaction?.viewedAt || inquired,
+    inquired,
+    booked,
+    completed,
+    rating: review ? (review.overallRating as number) : null,
+  };
+}
+
+/**
+ * Graded relevance: viewed 1, inquired 2, booked 3, completed 4;
+ * a good review (4+) adds 1 and a poor one (2 or less) takes 1 away
+ */
+export function getImpressionRelevance(labels: ImpressionLabels): number {
+  let relevance = labels.completed
+    ? 4
+    : labels.booked
+      ? 3
+      : labels.inquired
+        ? 2
+        : labels.viewed
+          ? 1
+          : 0;
+
+  if (labels.rating !== null) {
+    if (labels.rating >= 4) relevance += 1;
+    if (labels.rating <= 2) relevance -= 1;
+  }
+
+  return relevance;
+}
+
+/**
+ * Pairwise logistic regression (RankNet with a linear scorer): within each
+ * search, every more relevant impression should outscore every less relevant
+ * one. Full-batch gradient descent on the mean pair loss: deterministic
+ * and cheap enough for a scheduled function.
+ */
+export function trainRankingModel(
+  searches: RankingExample[][],
+  options: RankingTrainingOptions = DEFAULT_RANKING_TRAINING_OPTIONS,
+): Pick<RankingModel, "weights" | "pairCount" | "pairAccuracy"> {
+  const pairs: number[][] = [];
+
+  searches.forEach((examples) => {
+    examples.forEach((better) => {
+      examples.forEach((worse) => {
+        if (better.relevance > worse.relevance) {
+          pairs.push(
+            MATCH_FEATURE_NAMES.map(
+              (name) => better.features[name] - worse.features[name],
+            ),
+          );
+        }
+      });
+    });
+  });
+
+  const weights = MATCH_FEATURE_NAMES.map(() => 0);
+  const dot = (diff: number[]) =>
+    diff.reduce((sum, value, i) => sum + value * weights[i], 0);
+
+  for (let epoch = 0; epoch < options.epochs && pairs.length > 0; epoch++) {
+    const gradient = weights.map((weight) => options.l2 * weight);
+
+    pairs.forEach((diff) => {
+      // d/dw of log(1 + e^(-w·diff))
+      const scale = -1 / (1 + Math.exp(dot(diff)));
+      diff.forEach((value, i) => {
+        gradient[i] += (scale * value) / pairs.length;
+      });
+    });
+
+    weights.forEach((_, i) => {
+      weights[i] -= options.learningRate * gradient[i];
+    });
+  }
+
+  const correct = pairs.filter((diff) => dot(diff) > 0).length;
+  const namedWeights: Record<string, number> = {};
+  MATCH_FEATURE_NAMES.forEach((name, i) => {
+    namedWeights[name] = weights[i];
+  });
+
+  return {
+    weights: namedWeights,
+    pairCount: pairs.length,
+    pairAccuracy: pairs.length > 0 ? correct / pairs.length : 0,
+  };
+}
+
+/**
+ * Model score in (0, 1); features the model was not trained on are ignored
+ */
+export function scoreWithRankingModel(
+  model: Pick<RankingModel, "weights">,
+  features: MatchFeatures,
+): number {
+  const logit = MATCH_FEATURE_NAMES.reduce(
+    (sum, name) => sum + (model.weights[name] || 0) * features[name],
+    0,
+  );
+
+  return 1 / (1 + Math.exp(-logit));
+}
+
+/**
+ * Blend the model score into each match score and re-sort
+ */
+export function blendRankingScores<
+  T extends { matchScore: number; features: MatchFeatures },
+>(
+  matches: T[],
+  model: Pick<RankingModel, "weights">,
+  blendWeight: number,
+): T[] {
+  return matches
+    .map((match) => ({
+      ...match,
+      matchScore:
+        (1 - blendWeight) * match.matchScore +
+        blendWeight * scoreWithRankingModel(model, match.features),
+    }))
+    .sort((a, b) => b.matchScore - a.matchScore);
+}
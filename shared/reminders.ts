@@ -0,0 +1,223 @@
+/**
+ * 🎨 Tattoo Journey 2.0 - Shared Reminder Schedule
+ *
+ * Appointment reminders and aftercare follow-ups are written to
+ * scheduledNotifications when a booking is confirmed, rescheduled or
+ * completed, and sent by a scheduled Cloud Function once they are due.
+ */
+
+import { ARTIST_TIMEZONE_OFFSET_MINUTES } from "./availability";
+
+export const REMINDER_COLLECTIONS = {
+  scheduled: "scheduledNotifications",
+  // Per-user toggles written by NotificationSettingsScreen
+  settings: "userNotificationSettings",
+} as const;
+
+/**
+ * Keys of userNotificationSettings.enabledNotificationTypes that gate reminders
+ */
+export type ReminderCategory = "appointment_reminder" | "aftercare";
+
+export type ReminderKind =
+  | "appointment_48h"
+  | "appointment_2h"
+  | "day_of_checklist"
+  | "aftercare_day1"
+  | "aftercare_day3"
+  | "aftercare_week2"
+  | "touch_up_check";
+
+export type ScheduledNotificationStatus =
+  | "scheduled"
+  | "sent"
+  | "skipped"
+  | "cancelled";
+
+export interface ReminderDefinition {
+  category: ReminderCategory;
+  // Appointment reminders count back from the appointment, aftercare counts
+  // forward from completion
+  anchor: "appointment" | "completion";
+  offsetMinutes: number;
+  title: string;
+  body: string;
+}
+
+const HOUR_MINUTES = 60;
+const DAY_MINUTES = 24 * HOUR_MINUTES;
+
+/**
+ * Day-of checklist goes out at this local hour (or 3 hours before an earlier
+ * appointment). Bookings are made in Japan, so local time is JST.
+ */
+export const DAY_OF_CHECKLIST_HOUR = 8;
+export const REMINDER_TIMEZONE_OFFSET_MINUTES = ARTIST_TIMEZONE_OFFSET_MINUTES;
+
+export const REMINDER_DEFINITIONS: Record<ReminderKind, ReminderDefinition> = {
+  appointment_48h: {
+    category: "appointment_reminder",
+    anchor: "appointment",
+    offsetMinutes: -48 * HOUR_MINUTES,
+    title: "ご予約の2日前です",
+    body: "ご予約日時をご確認ください。変更やキャンセルはチャットからお願いします",
+  },
+  day_of_checklist: {
+    category: "appointment_reminder",
+    anchor: "appointment",
+    offsetMinutes: 0, // see getReminderSendAt
+    title: "本日は施術日です",
+    body: "✔ 身分証明書をお持ちください ✔ 事前に食事を済ませてください ✔ 飲酒はお控えください",
+  },
+  appointment_2h: {
+    category: "appointment_reminder",
+    anchor: "appointment",
+    offsetMinutes: -2 * HOUR_MINUTES,
+    title: "まもなくご予約の時間です",
+    body: "2時間後にご予約があります。お気をつけてお越しください",
+  },
+  aftercare_day1: {
+    category: "aftercare",
+    anchor: "completion",
+    offsetMinutes: DAY_MINUTES,
+    title: "アフターケア（1日目）",
+    body: "ラップを外したらぬるま湯でやさしく洗い、薄く保湿剤を塗ってください",
+  },
+  aftercare_day3: {
+    category: "aftercare",
+    anchor: "completion",
+    offsetMinutes: 3 * DAY_MINUTES,
+    title: "アフターケア（3日目）",
+    body: "かさぶたやかゆみが出てきても、かかずに保湿を続けてください",
+  },
+  aftercare_week2: {
+    category: "aftercare",
+    anchor: "completion",
+    offsetMinutes: 14 * DAY_MINUTES,
+    title: "アフターケア（2週間）",
+    body: "皮がむけ終わる頃です。日焼けを避けて保湿を続けてください",
+  },
+  touch_up_check: {
+    category: "aftercare",
+    anchor: "completion",
+    offsetMinutes: 42 * DAY_MINUTES,
+    title: "仕上がりはいかがですか？",
+    body: "色抜けやにじみが気になる場合は、アーティストにタッチアップをご相談ください",
+  },
+};
+
+export const APPOINTMENT_REMINDER_KINDS: ReminderKind[] = [
+  "appointment_48h",
+  "day_of_checklist",
+  "appointment_2h",
+];
+
+export const AFTERCARE_REMINDER_KINDS: ReminderKind[] = [
+  "aftercare_day1",
+  "aftercare_day3",
+  "aftercare_week2",
+  "touch_up_check",
+];
+
+/**
+ * Stored in scheduledNotifications/{bookingId}_{kind}
+ */
+export interface ScheduledNotification {
+  id: string;
+  bookingId: string;
+  recipientId: string;
+  kind: ReminderKind;
+  category: ReminderCategory;
+  sendAt: Date;
+  // Appointment or completion time the reminder was computed from
+  anchorDate: Date;
+  status: ScheduledNotificationStatus;
+  skippedReason?: string;
+  createdAt: Date;
+  sentAt?: Date;
+}
+
+export interface PlannedReminder {
+  kind: ReminderKind;
+  category: ReminderCategory;
+  sendAt: Date;
+}
+
+export function getScheduledNotificationId(
+  bookingId: string,
+  kind: ReminderKind,
+): string {
+  return `${bookingId}_${kind}`;
+}
+
+/**
+ * When a reminder should go out for the given appointment / completion time
+ */
+export function getReminderSendAt(kind: ReminderKind, anchorDate: Date): Date {
+  if (kind === "day_of_checklist") {
+    const offsetMs = REMINDER_TIMEZONE_OFFSET_MINUTES * 60 * 1000;
+    const local = new Date(anchorDate.getTime() + offsetMs);
+    const localMorning = Date.UTC(
+      local.getUTCFullYear(),
+      local.getUTCMonth(),
+      local.getUTCDate(),
+      DAY_OF_CHECKLIST_HOUR,
+    );
+
+    return new Date(
+      Math.min(
+        localMorning - offsetMs,
+        anchorDate.getTime() - 3 * HOUR_MINUTES * 60 * 1000,
+      ),
+    );
+  }
+
+  return new Date(
+    anchorDate.getTime() + REMINDER_DEFINITIONS[kind].offsetMinutes * 60 * 1000,
+  );
+}
+
+/**
+ * Reminders for `kinds` that are still in the future, in sending order
+ */
+export function planReminders(
+  kinds: ReminderKind[],
+  anchorDate: Date,
+  now: Date = new Date(),
+): PlannedReminder[] {
+  return kinds
+    .map((kind) => ({
+      kind,
+      category: REMINDER_DEFINITIONS[kind].category,
+      sendAt: getReminderSendAt(kind, anchorDate),
+    }))
+    .filter((reminder) => reminder.sendAt.getTime() > now.getTime())
+    .sort((a, b) => a.sendAt.getTime() - b.sendAt.getTime());
+}
+
+/**
+ * Appointment reminders are pointless once the appointment has started, e.g.
+ * when the sender was down or the batch fell behind
+ */
+export function isReminderExpired(
+  reminder: Pick<ScheduledNotification, "kind" | "anchorDate">,
+  now: Date = new Date(),
+): boolean {
+  return (
+    REMINDER_DEFINITIONS[reminder.kind]?.anchor === "appointment" &&
+    now.getTime() >= reminder.anchorDate.getTime()
+  );
+}
+
+/**
+ * Categories are opt-out: a missing toggle counts as enabled
+ */
+export function isReminderCategoryEnabled(
+  settings:
+    | { enabledNotificationTypes?: Partial<Record<string, boolean>> }
+    | null
+    | undefined,
+  category: ReminderCategory,
+): boolean {
+  return settings?.enabledNotificationTypes?.[category] !== false;
+}
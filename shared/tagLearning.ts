@@ -0,0 +1,359 @@
+/**
+ * 🎨 Tattoo Journey 2.0 - Shared Tag Learning
+ *
+ * Every manual tag correction an artist saves is aggregated into label-to-tag
+ * weights: how often a tag was added or removed when the analysis carried a
+ * given label (a vision label, the detected style or a motif). Weights are
+ * kept globally and per artist; auto-tagging blends both, leaning on the
+ * artist's own weights as their corrections accumulate. First reviews of
+ * auto-tags saved without changes count as accepted unchanged.
+ */
+
+import { AIAnalysisResult, TattooStyle, isRecord } from "./types";
+
+export const TAG_LEARNING_COLLECTIONS = {
+  // Written by the tag adjustment screen, one per saved correction
+  corrections: "tagLearningData",
+  // Aggregated weights, keyed by getTagWeightsDocId
+  weights: "tagLearningWeights",
+  // Daily acceptance counters, keyed by UTC day (YYYY-MM-DD)
+  metrics: "tagAcceptanceMetrics",
+  // Corrections learned per artist and day, keyed by getTagLearningQuotaId
+  quotas: "tagLearningQuotas",
+} as const;
+
+/**
+ * Corrections learned from per artist and UTC day. Later ones are kept but
+ * not learned from, so one artist cannot flood the weights.
+ */
+export const MAX_DAILY_TAG_CORRECTIONS = 50;
+
+/**
+ * Tags a correction may list per field (also enforced by the rules)
+ */
+export const MAX_CORRECTION_TAGS = 50;
+
+/**
+ * Corrections folded into the global weights per aggregation run
+ */
+export const GLOBAL_TAG_WEIGHTS_BATCH_SIZE = 400;
+
+/**
+ * Set on correction documents by the functions: learned into the artist's
+ * weights and waiting for the global aggregation, fully learned, or skipped
+ * over the daily quota
+ */
+export type TagCorrectionLearningStatus =
+  | "pending_global"
+  | "learned"
+  | "rate_limited";
+
+/**
+ * Vision labels below this confidence are not learned from
+ */
+export const MIN_LEARNING_LABEL_CONFIDENCE = 0.5;
+export const MAX_LEARNING_LABELS = 15;
+
+/**
+ * Labels kept per weights document, most frequent first, so documents stay
+ * well under the Firestore size limit
+ */
+export const MAX_LEARNED_LABELS = 300;
+
+/**
+ * Pseudo-observations that pull rarely seen labels towards zero
+ */
+export const TAG_WEIGHT_PRIOR = 4;
+
+/**
+ * Evidence (label observations) at which the artist's own weights count as
+ * much as the global ones
+ */
+export const ARTIST_WEIGHT_PRIOR = 5;
+
+/**
+ * Learned scores at or above this add the tag; at or below its negative,
+ * an automatic tag is dropped. Between the suggestion bound and this, the
+ * tag is only suggested.
+ */
+export const LEARNED_TAG_THRESHOLD = 0.5;
+export const LEARNED_SUGGESTION_THRESHOLD = 0.2;
+
+/**
+ * "Tags you usually add": added in at least this share of the artist's
+ * corrections, once they have made enough of them
+ */
+export const USUAL_TAG_MIN_SHARE = 0.3;
+export const USUAL_TAG_MIN_CORRECTIONS = 3;
+export const USUAL_TAG_LIMIT = 5;
+
+export interface TagCorrection {
+  // From getAnalysisLabels on the analysis that produced the original tags
+  labels: string[];
+  addedTags: string[];
+  removedTags: string[];
+}
+
+export interface LabelTagCounts {
+  // Corrections whose analysis carried the label
+  count: number;
+  tags: Record<string, { added: number; removed: number }>;
+}
+
+export interface TagLearningWeights {
+  corrections: number;
+  labels: Record<string, LabelTagCounts>;
+  // Times each tag was added, across all corrections
+  addedTagCounts: Record<string, number>;
+}
+
+export interface TagAcceptanceStats {
+  reviewed: number;
+  acceptedUnchanged: number;
+}
+
+/**
+ * Document id of the global weights or an artist's own
+ */
+export function getTagWeightsDocId(artistId?: string): string {
+  return artistId ? `artist_${artistId}` : "global";
+}
+
+export function getTagLearningQuotaId(artistId: string, day: string): string {
+  return `${artistId}_${day}`;
+}
+
+export function createEmptyTagWeights(): TagLearningWeights {
+  return { corrections: 0, labels: {}, addedTagCounts: {} };
+}
+
+/**
+ * Labels an analysis is learned and scored by
+ */
+export function getAnalysisLabels(
+  analysis: Pick<AIAnalysisResult, "style" | "motifs"> &
+    Partial<Pick<AIAnalysisResult, "rawLabels">>,
+): string[] {
+  const labels = [
+    `style:${analysis.style}`,
+    ...analysis.motifs.map((motif) => `motif:${motif}`),
+    ...(analysis.rawLabels || [])
+      .filter((label) => label.confidence >= MIN_LEARNING_LABEL_CONFIDENCE)
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, MAX_LEARNING_LABELS)
+      .map((label) => `label:${label.description.trim().toLowerCase()}`),
+  ];
+
+  return Array.from(new Set(labels));
+}
+
+/**
+ * Read a stored correction document; null when it doesn't have the shape the
+ * tag adjustment screen writes
+ */
+export function parseTagCorrection(data: unknown): TagCorrection | null {
+  const isTagList = (value: unknown): value is string[] =>
+    Array.isArray(value) &&
+    value.length <= MAX_CORRECTION_TAGS &&
+    value.every((tag) => typeof tag === "string");
+
+  if (
+    !isRecord(data) ||
+    !isRecord(data.originalAnalysis) ||
+    !isRecord(data.userActions)
+  ) {
+    return null;
+  }
+
+  const analysis = data.originalAnalysis;
+  const { added, removed } = data.userActions;
+
+  if (
+    typeof analysis.style !== "string" ||
+    !isTagList(analysis.motifs) ||
+    !isTagList(added) ||
+    !isTagList(removed)
+  ) {
+    return null;
+  }
+
+  const rawLabels = Array.isArray(analysis.rawLabels)
+    ? analysis.rawLabels.filter(
+        (label: unknown): label is AIAnalysisResult["rawLabels"][number] =>
+          isRecord(label) &&
+          typeof label.description === "string" &&
+          typeof label.confidence === "number",
+      )
+    : [];
+
+  return {
+    labels: getAnalysisLabels({
+      style: analysis.style as TattooStyle,
+      motifs: analysis.motifs,
+      rawLabels,
+    }),
+    addedTags: added,
+    removedTags: removed,
+  };
+}
+
+export function isAcceptedUnchanged(correction: TagCorrection): boolean {
+  return (
+    correction.addedTags.length === 0 && correction.removedTags.length === 0
+  );
+}
+
+/**
+ * Fold one correction into the weights (returns a new object)
+ */
+export function applyTagCorrection(
+  weights: TagLearningWeights,
+  correction: TagCorrection,
+): TagLearningWeights {
+  const labels: Record<string, LabelTagCounts> = {};
+  Object.keys(weights.labels).forEach((label) => {
+    const counts = weights.labels[label];
+    labels[label] = { count: counts.count, tags: { ...counts.tags } };
+  });
+
+  Array.from(new Set(correction.labels)).forEach((label) => {
+    const counts = labels[label] || { count: 0, tags: {} };
+    counts.count++;
+
+    const bump = (tag: string, field: "added" | "removed") => {
+      const tagCounts = counts.tags[tag]
+        ? { ...counts.tags[tag] }
+        : { added: 0, removed: 0 };
+      tagCounts[field]++;
+      counts.tags[tag] = tagCounts;
+    };
+    correction.addedTags.forEach((tag) => bump(tag, "added"));
+    correction.removedTags.forEach((tag) => bump(tag, "removed"));
+
+    labels[label] = counts;
+  });
+
+  const addedTagCounts = { ...weights.addedTagCounts };
+  Array.from(new Set(correction.addedTags)).forEach((tag) => {
+    addedTagCounts[tag] = (addedTagCounts[tag] || 0) + 1;
+  });
+
+  return {
+    corrections: weights.corrections + 1,
+    labels: pruneLabels(labels),
+    addedTagCounts,
+  };
+}
+
+/**
+ * Fold corrections into the weights in order (returns a new object)
+ */
+export function applyTagCorrections(
+  weights: TagLearningWeights,
+  corrections: TagCorrection[],
+): TagLearningWeights {
+  return corrections.reduce(applyTagCorrection, weights);
+}
+
+/**
+ * Learned score (-1 to 1) of every tag the labels have been corrected
+ * towards: net additions over the labels' observations plus the prior
+ */
+export function scoreLearnedTags(
+  labels: string[],
+  weights: TagLearningWeights | null,
+): { scores: Record<string, number>; evidence: number } {
+  const net: Record<string, number> = {};
+  let evidence = 0;
+
+  if (weights) {
+    Array.from(new Set(labels)).forEach((label) => {
+      const counts = weights.labels[label];
+      if (!counts) return;
+
+      evidence += counts.count;
+      Object.keys(counts.tags).forEach((tag) => {
+        const { added, removed } = counts.tags[tag];
+        net[tag] = (net[tag] || 0) + added - removed;
+      });
+    });
+  }
+
+  const scores: Record<string, number> = {};
+  Object.keys(net).forEach((tag) => {
+    scores[tag] = net[tag] / (evidence + TAG_WEIGHT_PRIOR);
+  });
+
+  return { scores, evidence };
+}
+
+/**
+ * Blend global and artist scores, weighting the artist by their evidence
+ */
+export function blendLearnedTagScores(
+  labels: string[],
+  global: TagLearningWeights | null,
+  artist: TagLearningWeights | null,
+): Record<string, number> {
+  const globalScores = scoreLearnedTags(labels, global).scores;
+  const artistResult = scoreLearnedTags(labels, artist);
+  const artistShare =
+    artistResult.evidence / (artistResult.evidence + ARTIST_WEIGHT_PRIOR);
+
+  const blended: Record<string, number> = {};
+  new Set([
+    ...Object.keys(globalScores),
+    ...Object.keys(artistResult.scores),
+  ]).forEach((tag) => {
+    blended[tag] =
+      artistShare * (artistResult.scores[tag] || 0) +
+      (1 - artistShare) * (globalScores[tag] || 0);
+  });
+
+  return blended;
+}
+
+/**
+ * Tags the artist adds in a large share of their corrections, most frequent
+ * first
+ */
+export function getUsualAddedTags(
+  weights: TagLearningWeights | null,
+  limit: number = USUAL_TAG_LIMIT,
+): string[] {
+  if (!weights || weights.corrections < USUAL_TAG_MIN_CORRECTIONS) {
+    return [];
+  }
+
+  return Object.keys(weights.addedTagCounts)
+    .filter(
+      (tag) =>
+        weights.addedTagCounts[tag] / weights.corrections >=
+        USUAL_TAG_MIN_SHARE,
+    )
+    .sort((a, b) => weights.addedTagCounts[b] - weights.addedTagCounts[a])
+    .slice(0, limit);
+}
+
+/**
+ * Share of reviewed auto-tags accepted unchanged (0 without reviews)
+ */
+export function getTagAcceptanceRate(stats: TagAcceptanceStats): number {
+  return stats.reviewed > 0 ? stats.acceptedUnchanged / stats.reviewed : 0;
+}
+
+function pruneLabels(
+  labels: Record<string, LabelTagCounts>,
+): Record<string, LabelTagCounts> {
+  const names = Object.keys(labels);
+  if (names.length <= MAX_LEARNED_LABELS) return labels;
+
+  const kept: Record<string, LabelTagCounts> = {};
+  names
+    .sort((a, b) => labels[b].count - labels[a].count)
+    .slice(0, MAX_LEARNED_LABELS)
+    .forEach((label) => {
+      kept[label] = labels[label];
+    });
+  return kept;
+}
@@ -71,9 +71,19 @@ export interface PortfolioItem {
   price: number;
   tags: string[];
   aiAnalysis: AIAnalysis;
+  // Written by the embedding backend; absent until the image is embedded
+  embedding?: ImageEmbedding;
   createdAt: Date;
 }
 
+/**
+ * Image embedding vector; vectors are only comparable within one model
+ */
+export interface ImageEmbedding {
+  modelId: string;
+  vector: number[];
+}
+
 export interface AIAnalysis {
   style: TattooStyle;
   colorPalette: string[];
@@ -164,8 +174,39 @@ export interface MatchingResult {
   distance: number;
 }
 
+export type MatchReasonFactor =
+  | "style"
+  | "specialty"
+  | "rating"
+  | "price"
+  | "distance"
+  | "availability";
+
+/**
+ * One structured "why this artist" factor. `params` and `evidence` let the
+ * client render the reason in any locale; `explanation` is the Japanese text.
+ */
 export interface MatchReason {
-  factor: "style" | "rating" | "price" | "distance" | "availability";
+  factor: MatchReasonFactor;
+  // Factor score, 0-1
   score: number;
+  // Points of the overall match score this factor contributed (weight × score)
+  contribution: number;
+  // Threshold the score cleared for this level
+  threshold: number;
+  level: "strong" | "good";
+  params: Record<string, string | number>;
+  evidence: {
+    portfolioItemIds: string[];
+    reviewIds: string[];
+  };
   explanation: string;
 }
+
+/**
+ * Narrows untyped input (client payloads, stored documents, parsed JSON)
+ * before its fields are read
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,185 @@
+/**
+ * 🎨 Tattoo Journey 2.0 - Shared Waitlist Model
+ *
+ * Customers join a fully booked artist's waitlist with a date range, size and
+ * budget. When a busy slot is freed, Cloud Functions offer it to the
+ * best-matching waiting customer with a time-limited hold and fall through to
+ * the next customer if the offer is declined or expires.
+ */
+
+import { BookingSize } from "./booking";
+
+export const WAITLIST_COLLECTIONS = {
+  entries: "waitlistEntries",
+  offers: "waitlistOffers",
+} as const;
+
+/**
+ * How long a customer has to accept an offered slot
+ */
+export const WAITLIST_OFFER_HOLD_MINUTES = 3 * 60;
+
+/**
+ * How long the artist has to answer a booking created from an accepted
+ * offer before its hold on the slot is released
+ */
+export const WAITLIST_BOOKING_HOLD_HOURS = 48;
+
+/**
+ * Prefix of artistBusySlots documents that hold a slot for an open offer
+ */
+export const WAITLIST_HOLD_PREFIX = "waitlist_";
+
+export type WaitlistEntryStatus =
+  | "waiting"
+  | "offered"
+  | "booked"
+  | "cancelled";
+
+export type WaitlistOfferStatus =
+  | "pending"
+  | "accepted"
+  | "declined"
+  | "expired";
+
+export interface WaitlistEntry {
+  id: string;
+  artistId: string;
+  customerId: string;
+  // Any start time within [earliestDate, latestDate] works for the customer
+  earliestDate: Date;
+  latestDate: Date;
+  preferredSize: BookingSize;
+  estimatedDuration: number; // minutes
+  budgetRange: {
+    min: number;
+    max: number;
+  };
+  tattooDescription: string;
+  bodyLocation: string;
+  status: WaitlistEntryStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WaitlistOffer {
+  id: string;
+  artistId: string;
+  customerId: string;
+  entryId: string;
+  startTime: Date;
+  endTime: Date;
+  status: WaitlistOfferStatus;
+  expiresAt: Date;
+  // Every entry this slot has been offered to so far, in order
+  offeredEntryIds: string[];
+  // Booking request created when the offer was accepted
+  bookingId?: string;
+  createdAt: Date;
+  respondedAt?: Date;
+}
+
+/**
+ * A time range that became free in an artist's calendar
+ */
+export interface FreedSlot {
+  artistId: string;
+  startTime: Date;
+  endTime: Date;
+  // Price of the booking that released the slot, when known
+  referencePrice?: number;
+}
+
+type RankableWaitlistEntry = Pick<
+  WaitlistEntry,
+  | "id"
+  | "earliestDate"
+  | "latestDate"
+  | "estimatedDuration"
+  | "budgetRange"
+  | "status"
+  | "createdAt"
+>;
+
+export function getWaitlistHoldId(offerId: string): string {
+  return `${WAITLIST_HOLD_PREFIX}${offerId}`;
+}
+
+export function isWaitlistHoldId(busySlotId: string): boolean {
+  return busySlotId.startsWith(WAITLIST_HOLD_PREFIX);
+}
+
+/**
+ * Offers expire after the hold period, or when the slot starts if sooner
+ */
+export function getWaitlistOfferExpiry(now: Date, slotStart: Date): Date {
+  return new Date(
+    Math.min(
+      now.getTime() + WAITLIST_OFFER_HOLD_MINUTES * 60 * 1000,
+      slotStart.getTime(),
+    ),
+  );
+}
+
+/**
+ * Pending bookings from an accepted offer keep the slot until the artist
+ * answers, at most for the hold period and never past the slot start
+ */
+export function getWaitlistBookingHoldExpiry(now: Date, slotStart: Date): Date {
+  return new Date(
+    Math.min(
+      now.getTime() + WAITLIST_BOOKING_HOLD_HOURS * 60 * 60 * 1000,
+      slotStart.getTime(),
+    ),
+  );
+}
+
+export function isValidWaitlistEntry(
+  entry: Pick<
+    WaitlistEntry,
+    "earliestDate" | "latestDate" | "estimatedDuration" | "budgetRange"
+  >,
+): boolean {
+  return (
+    entry.earliestDate.getTime() <= entry.latestDate.getTime() &&
+    entry.estimatedDuration > 0 &&
+    entry.budgetRange.min >= 0 &&
+    entry.budgetRange.min <= entry.budgetRange.max
+  );
+}
+
+/**
+ * Waiting entries that can take the freed slot, best match first:
+ * budget covering the released booking's price, then the closest duration
+ * fit, then whoever joined the waitlist first.
+ */
+export function rankWaitlistEntries<T extends RankableWaitlistEntry>(
+  entries: T[],
+  slot: Omit<FreedSlot, "artistId">,
+  excludedEntryIds: string[] = [],
+): T[] {
+  const slotMinutes =
+    (slot.endTime.getTime() - slot.startTime.getTime()) / (60 * 1000);
+
+  const eligible = entries.filter(
+    (entry) =>
+      entry.status === "waiting" &&
+      !excludedEntryIds.includes(entry.id) &&
+      entry.estimatedDuration <= slotMinutes &&
+      slot.startTime.getTime() >= entry.earliestDate.getTime() &&
+      slot.startTime.getTime() <= entry.latestDate.getTime(),
+  );
+
+  const budgetFits = (entry: T): number =>
+    slot.referencePrice === undefined ||
+    entry.budgetRange.max >= slot.referencePrice
+      ? 1
+      : 0;
+
+  return eligible.sort(
+    (a, b) =>
+      budgetFits(b) - budgetFits(a) ||
+      b.estimatedDuration - a.estimatedDuration ||
+      a.createdAt.getTime() - b.createdAt.getTime(),
+  );
+}